@@ -21,6 +21,8 @@ import { setupRealtimeSync } from './src/lib/realtimeSync';
 import { setupNavigationSync } from './src/lib/navigationSync';
 import { setupNetworkSync } from './src/lib/networkSync';
 import { ClaimSyncService } from './src/services/ClaimSyncService';
+import { CheckInExpiryMonitor } from './src/services/CheckInExpiryMonitor';
+import { queryKeys } from './src/lib/queryKeys';
 import { useAuth } from './src/contexts/AuthContext';
 import AppNavigator from './src/navigation/AppNavigator';
 import { useTimezoneMigration } from './src/hooks/useTimezoneMigration';
@@ -59,6 +61,26 @@ function AppContent() {
     }
   }, [user?.id]);
 
+  // Automatically end stale check-ins while the app is running and refresh
+  // venue check-in counts when one ends
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+
+    CheckInExpiryMonitor.start(user.id);
+    const unsubscribe = CheckInExpiryMonitor.addListener((venueId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.venues.detail(venueId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.venues.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.checkIns.all });
+    });
+
+    return () => {
+      unsubscribe();
+      CheckInExpiryMonitor.stop();
+    };
+  }, [user?.id]);
+
   // Configure deep linking
   const linking = {
     prefixes: ['otw://', 'https://ontheway.app'],
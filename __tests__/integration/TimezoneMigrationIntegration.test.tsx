@@ -57,6 +57,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       session: { access_token: 'mock-token' } as any,
       userType: 'customer',
       venueBusinessAccount: null,
+      venueBusinessAccounts: [],
       loading: false,
       initializing: false,
       authError: null,
@@ -65,6 +66,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       signOut: jest.fn(),
       resetPassword: jest.fn(),
       refreshUserType: jest.fn(),
+      selectVenueAccount: jest.fn(),
       clearAuthError: jest.fn(),
     });
 
@@ -127,6 +129,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       session: null,
       userType: null,
       venueBusinessAccount: null,
+      venueBusinessAccounts: [],
       loading: false,
       initializing: false,
       authError: null,
@@ -135,6 +138,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       signOut: jest.fn(),
       resetPassword: jest.fn(),
       refreshUserType: jest.fn(),
+      selectVenueAccount: jest.fn(),
       clearAuthError: jest.fn(),
     });
 
@@ -163,6 +167,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       session: { access_token: 'mock-token' } as any,
       userType: 'customer',
       venueBusinessAccount: null,
+      venueBusinessAccounts: [],
       loading: false,
       initializing: false,
       authError: null,
@@ -171,6 +176,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       signOut: jest.fn(),
       resetPassword: jest.fn(),
       refreshUserType: jest.fn(),
+      selectVenueAccount: jest.fn(),
       clearAuthError: jest.fn(),
     });
 
@@ -230,6 +236,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       session: { access_token: 'mock-token' } as any,
       userType: 'customer',
       venueBusinessAccount: null,
+      venueBusinessAccounts: [],
       loading: false,
       initializing: false,
       authError: null,
@@ -238,6 +245,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       signOut: jest.fn(),
       resetPassword: jest.fn(),
       refreshUserType: jest.fn(),
+      selectVenueAccount: jest.fn(),
       clearAuthError: jest.fn(),
     });
 
@@ -275,6 +283,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       session: { access_token: 'mock-token' } as any,
       userType: 'customer',
       venueBusinessAccount: null,
+      venueBusinessAccounts: [],
       loading: false,
       initializing: false,
       authError: null,
@@ -283,6 +292,7 @@ describe('Timezone Migration Integration in App.tsx', () => {
       signOut: jest.fn(),
       resetPassword: jest.fn(),
       refreshUserType: jest.fn(),
+      selectVenueAccount: jest.fn(),
       clearAuthError: jest.fn(),
     });
 
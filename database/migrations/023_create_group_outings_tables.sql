@@ -0,0 +1,235 @@
+-- Migration: Create Group Outings Tables
+-- Description: Creates group_outings and group_outing_invites tables, RLS policies,
+-- and a scheduled reminder job for upcoming outings
+-- Requirements: Social Friend System - Group Outings
+
+-- ============================================================================
+-- Group Outings Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS group_outings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  title VARCHAR(100) NOT NULL CHECK (char_length(title) >= 3),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  scheduled_date TIMESTAMPTZ NOT NULL,
+  reminder_sent_at TIMESTAMPTZ DEFAULT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_outings_creator ON group_outings(creator_id);
+CREATE INDEX IF NOT EXISTS idx_group_outings_venue ON group_outings(venue_id);
+CREATE INDEX IF NOT EXISTS idx_group_outings_scheduled ON group_outings(scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_group_outings_pending_reminder
+  ON group_outings(scheduled_date)
+  WHERE reminder_sent_at IS NULL;
+
+COMMENT ON TABLE group_outings IS 'Planned events at a venue with multiple invited friends';
+COMMENT ON COLUMN group_outings.reminder_sent_at IS 'When the pre-outing reminder was delivered. NULL means not yet sent.';
+
+-- ============================================================================
+-- Group Outing Invites Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS group_outing_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_outing_id UUID NOT NULL REFERENCES group_outings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  response VARCHAR(20) NOT NULL DEFAULT 'no_response'
+    CHECK (response IN ('interested', 'going', 'cant_go', 'no_response')),
+  responded_at TIMESTAMPTZ DEFAULT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(group_outing_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_outing_invites_outing ON group_outing_invites(group_outing_id);
+CREATE INDEX IF NOT EXISTS idx_group_outing_invites_user ON group_outing_invites(user_id);
+
+COMMENT ON TABLE group_outing_invites IS 'Invitations and RSVP responses for group outings';
+
+-- Link existing activity feed entries to outings now that the table exists
+ALTER TABLE activity_feed
+  DROP CONSTRAINT IF EXISTS fk_activity_feed_group_outing;
+ALTER TABLE activity_feed
+  ADD CONSTRAINT fk_activity_feed_group_outing
+  FOREIGN KEY (group_outing_id) REFERENCES group_outings(id) ON DELETE CASCADE;
+
+-- ============================================================================
+-- Updated At Trigger
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_group_outings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_group_outings_updated_at ON group_outings;
+CREATE TRIGGER trigger_group_outings_updated_at
+  BEFORE UPDATE ON group_outings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_group_outings_updated_at();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE group_outings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_outing_invites ENABLE ROW LEVEL SECURITY;
+
+-- Helper used by policies to avoid recursive policy evaluation between the two tables
+CREATE OR REPLACE FUNCTION is_group_outing_member(p_outing_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM group_outings
+    WHERE id = p_outing_id AND creator_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM group_outing_invites
+    WHERE group_outing_id = p_outing_id AND user_id = p_user_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Outings are visible to the creator and invitees
+CREATE POLICY "Members can view group outings"
+  ON group_outings FOR SELECT
+  USING (is_group_outing_member(id, (select auth.uid())));
+
+CREATE POLICY "Users can create their own group outings"
+  ON group_outings FOR INSERT
+  WITH CHECK ((select auth.uid()) = creator_id);
+
+CREATE POLICY "Creators can update their group outings"
+  ON group_outings FOR UPDATE
+  USING ((select auth.uid()) = creator_id);
+
+CREATE POLICY "Creators can delete their group outings"
+  ON group_outings FOR DELETE
+  USING ((select auth.uid()) = creator_id);
+
+-- Invites are visible to everyone taking part in the outing
+CREATE POLICY "Members can view group outing invites"
+  ON group_outing_invites FOR SELECT
+  USING (is_group_outing_member(group_outing_id, (select auth.uid())));
+
+-- Only the creator can invite, and only their friends
+CREATE POLICY "Creators can invite friends"
+  ON group_outing_invites FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM group_outings
+      WHERE id = group_outing_id AND creator_id = (select auth.uid())
+    )
+    AND are_friends((select auth.uid()), user_id)
+  );
+
+-- Invitees can update their own response. Only the response columns are
+-- writable, so an invite can't be moved to another outing or user.
+CREATE POLICY "Invitees can respond to invites"
+  ON group_outing_invites FOR UPDATE
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+REVOKE UPDATE ON group_outing_invites FROM authenticated;
+GRANT UPDATE (response, responded_at) ON group_outing_invites TO authenticated;
+
+-- Creators can remove invites, invitees can leave
+CREATE POLICY "Creators and invitees can delete invites"
+  ON group_outing_invites FOR DELETE
+  USING (
+    (select auth.uid()) = user_id
+    OR EXISTS (
+      SELECT 1 FROM group_outings
+      WHERE id = group_outing_id AND creator_id = (select auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- Reminder Job
+-- ============================================================================
+
+-- Creates in-app reminder notifications for outings starting within the reminder
+-- window. Recipients are the creator plus invitees who are going or interested,
+-- filtered by the group_outing_reminders notification preference.
+CREATE OR REPLACE FUNCTION send_group_outing_reminders(
+  p_window INTERVAL DEFAULT INTERVAL '2 hours'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_outing RECORD;
+  v_reminders_sent INTEGER := 0;
+BEGIN
+  FOR v_outing IN
+    SELECT go.id, go.creator_id, go.title, go.scheduled_date, go.venue_id, v.name AS venue_name
+    FROM group_outings go
+    JOIN venues v ON v.id = go.venue_id
+    WHERE go.reminder_sent_at IS NULL
+      AND go.scheduled_date > NOW()
+      AND go.scheduled_date <= NOW() + p_window
+    FOR UPDATE OF go SKIP LOCKED
+  LOOP
+    WITH recipients AS (
+      SELECT v_outing.creator_id AS user_id
+      UNION
+      SELECT goi.user_id
+      FROM group_outing_invites goi
+      WHERE goi.group_outing_id = v_outing.id
+        AND goi.response IN ('going', 'interested')
+    ),
+    inserted AS (
+      INSERT INTO social_notifications (user_id, type, actor_id, reference_id, title, body, data, read)
+      SELECT
+        r.user_id,
+        'group_outing_reminder',
+        v_outing.creator_id,
+        v_outing.id,
+        'Outing Coming Up',
+        '"' || v_outing.title || '" at ' || v_outing.venue_name || ' starts soon',
+        jsonb_build_object(
+          'outing_id', v_outing.id,
+          'venue_id', v_outing.venue_id,
+          'venue_name', v_outing.venue_name,
+          'scheduled_date', v_outing.scheduled_date
+        ),
+        false
+      FROM recipients r
+      LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+      WHERE COALESCE(np.group_outing_reminders, true)
+      RETURNING id
+    )
+    SELECT v_reminders_sent + COUNT(*) INTO v_reminders_sent FROM inserted;
+
+    UPDATE group_outings SET reminder_sent_at = NOW() WHERE id = v_outing.id;
+  END LOOP;
+
+  RETURN v_reminders_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION send_group_outing_reminders IS 'Creates reminder notifications for group outings starting within the given window';
+
+-- Schedule the reminder job every 10 minutes when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'group-outing-reminders') THEN
+      PERFORM cron.unschedule('group-outing-reminders');
+    END IF;
+    PERFORM cron.schedule(
+      'group-outing-reminders',
+      '*/10 * * * *',
+      'SELECT send_group_outing_reminders();'
+    );
+    RAISE NOTICE 'Scheduled group-outing-reminders job';
+  ELSE
+    RAISE NOTICE 'pg_cron not enabled - schedule send_group_outing_reminders() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Group outings tables created successfully!' as message;
@@ -0,0 +1,191 @@
+-- Migration: Create Follows Tables
+-- Description: Creates follows and follow_requests tables, RLS policies, and helper
+-- functions for one-way follows with approval for non-public profiles
+-- Requirements: Social Friend System - Follows
+
+-- ============================================================================
+-- Follows Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id, created_at DESC);
+
+COMMENT ON TABLE follows IS 'One-way follow relationships between users';
+
+-- ============================================================================
+-- Follow Requests Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS follow_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'denied')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_requests_pending
+  ON follow_requests(following_id, created_at DESC)
+  WHERE status = 'pending';
+
+COMMENT ON TABLE follow_requests IS 'Follow requests awaiting approval for non-public profiles';
+
+-- ============================================================================
+-- Helper Functions
+-- ============================================================================
+
+-- Returns how a user can be followed:
+--   'direct'  - public profile, follows are created immediately
+--   'request' - non-public profile accepting follow requests
+--   'closed'  - non-public profile with allow_follow_requests disabled
+-- Users without privacy settings use the table defaults (public, requests allowed).
+CREATE OR REPLACE FUNCTION get_follow_policy(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_settings RECORD;
+BEGIN
+  SELECT profile_visibility, allow_follow_requests INTO v_settings
+  FROM privacy_settings
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR v_settings.profile_visibility = 'public' THEN
+    RETURN 'direct';
+  END IF;
+
+  IF COALESCE(v_settings.allow_follow_requests, true) THEN
+    RETURN 'request';
+  END IF;
+
+  RETURN 'closed';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Approves a pending follow request and creates the follow in one transaction.
+-- Only the user being followed can approve.
+CREATE OR REPLACE FUNCTION approve_follow_request(p_request_id UUID)
+RETURNS follows AS $$
+DECLARE
+  v_request RECORD;
+  v_follow follows;
+BEGIN
+  SELECT * INTO v_request
+  FROM follow_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Follow request not found or already processed';
+  END IF;
+
+  IF v_request.following_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the requested user can approve a follow request';
+  END IF;
+
+  INSERT INTO follows (follower_id, following_id)
+  VALUES (v_request.follower_id, v_request.following_id)
+  ON CONFLICT (follower_id, following_id) DO UPDATE SET follower_id = EXCLUDED.follower_id
+  RETURNING * INTO v_follow;
+
+  UPDATE follow_requests
+  SET status = 'approved', updated_at = NOW()
+  WHERE id = p_request_id;
+
+  RETURN v_follow;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sends a follow request, reopening an earlier denied or approved one.
+-- Requesters can't update request rows directly, so this is the only way to
+-- re-request.
+CREATE OR REPLACE FUNCTION send_follow_request(p_following_id UUID)
+RETURNS follow_requests AS $$
+DECLARE
+  v_request follow_requests;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF get_follow_policy(p_following_id) <> 'request' THEN
+    RAISE EXCEPTION 'This user is not accepting follow requests';
+  END IF;
+
+  INSERT INTO follow_requests (follower_id, following_id, status)
+  VALUES (auth.uid(), p_following_id, 'pending')
+  ON CONFLICT (follower_id, following_id)
+  DO UPDATE SET status = 'pending', updated_at = NOW()
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_requests ENABLE ROW LEVEL SECURITY;
+
+-- Follow lists are visible to both parties, and to everyone for public profiles
+CREATE POLICY "Users can view follows"
+  ON follows FOR SELECT
+  USING (
+    (select auth.uid()) IN (follower_id, following_id)
+    OR get_follow_policy(following_id) = 'direct'
+  );
+
+-- Direct follows are only allowed for public profiles; others go through approve_follow_request
+CREATE POLICY "Users can follow public profiles"
+  ON follows FOR INSERT
+  WITH CHECK (
+    (select auth.uid()) = follower_id
+    AND get_follow_policy(following_id) = 'direct'
+  );
+
+-- Followers can unfollow, and users can remove their followers
+CREATE POLICY "Users can remove follows they are part of"
+  ON follows FOR DELETE
+  USING ((select auth.uid()) IN (follower_id, following_id));
+
+CREATE POLICY "Users can view their follow requests"
+  ON follow_requests FOR SELECT
+  USING ((select auth.uid()) IN (follower_id, following_id));
+
+CREATE POLICY "Users can send follow requests"
+  ON follow_requests FOR INSERT
+  WITH CHECK (
+    (select auth.uid()) = follower_id
+    AND get_follow_policy(following_id) = 'request'
+  );
+
+-- Only the requested user can change a request's status (to deny it).
+-- Requesters re-request through send_follow_request, and the users on a
+-- request can't be changed.
+CREATE POLICY "Users can update their follow requests"
+  ON follow_requests FOR UPDATE
+  USING ((select auth.uid()) = following_id)
+  WITH CHECK ((select auth.uid()) = following_id);
+
+REVOKE UPDATE ON follow_requests FROM authenticated;
+GRANT UPDATE (status, updated_at) ON follow_requests TO authenticated;
+
+CREATE POLICY "Users can delete their follow requests"
+  ON follow_requests FOR DELETE
+  USING ((select auth.uid()) IN (follower_id, following_id));
+
+-- Success message
+SELECT 'Follows tables created successfully!' as message;
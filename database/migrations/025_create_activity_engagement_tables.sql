@@ -0,0 +1,114 @@
+-- Migration: Create Activity Engagement Tables
+-- Description: Creates activity_likes and threaded activity_comments tables with RLS
+-- policies that follow the visibility of the underlying activity_feed entry
+-- Requirements: Social Friend System - Activity Likes and Comments
+
+-- ============================================================================
+-- Activity Likes Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS activity_likes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  activity_id UUID NOT NULL REFERENCES activity_feed(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(activity_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_likes_activity ON activity_likes(activity_id);
+CREATE INDEX IF NOT EXISTS idx_activity_likes_user ON activity_likes(user_id);
+
+COMMENT ON TABLE activity_likes IS 'Likes on activity feed entries, one per user per activity';
+
+-- ============================================================================
+-- Activity Comments Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS activity_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  activity_id UUID NOT NULL REFERENCES activity_feed(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_comment_id UUID REFERENCES activity_comments(id) ON DELETE CASCADE,
+  comment_text TEXT NOT NULL CHECK (char_length(comment_text) BETWEEN 1 AND 500),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_comments_activity
+  ON activity_comments(activity_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_activity_comments_parent
+  ON activity_comments(parent_comment_id)
+  WHERE parent_comment_id IS NOT NULL;
+
+COMMENT ON TABLE activity_comments IS 'Comments on activity feed entries';
+COMMENT ON COLUMN activity_comments.parent_comment_id IS 'Comment being replied to. NULL for top-level comments.';
+
+-- Replies must belong to the same activity as the comment they reply to
+CREATE OR REPLACE FUNCTION validate_activity_comment_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM activity_comments
+    WHERE id = NEW.parent_comment_id AND activity_id = NEW.activity_id
+  ) THEN
+    RAISE EXCEPTION 'Reply must belong to the same activity as its parent comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS activity_comments_validate_parent ON activity_comments;
+CREATE TRIGGER activity_comments_validate_parent
+  BEFORE INSERT ON activity_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_activity_comment_parent();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+-- The activity_feed SELECT policy applies inside these subqueries, so likes and
+-- comments are only visible/creatable for activities the user can already see.
+
+ALTER TABLE activity_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE activity_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view likes on visible activities"
+  ON activity_likes FOR SELECT
+  USING (EXISTS (SELECT 1 FROM activity_feed WHERE id = activity_id));
+
+CREATE POLICY "Users can like visible activities"
+  ON activity_likes FOR INSERT
+  WITH CHECK (
+    (select auth.uid()) = user_id
+    AND EXISTS (SELECT 1 FROM activity_feed WHERE id = activity_id)
+  );
+
+CREATE POLICY "Users can remove their own likes"
+  ON activity_likes FOR DELETE
+  USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view comments on visible activities"
+  ON activity_comments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM activity_feed WHERE id = activity_id));
+
+CREATE POLICY "Users can comment on visible activities"
+  ON activity_comments FOR INSERT
+  WITH CHECK (
+    (select auth.uid()) = user_id
+    AND EXISTS (SELECT 1 FROM activity_feed WHERE id = activity_id)
+  );
+
+-- Commenters can delete their comments; activity owners can remove comments on their activity
+CREATE POLICY "Users can delete their comments or comments on their activities"
+  ON activity_comments FOR DELETE
+  USING (
+    (select auth.uid()) = user_id
+    OR EXISTS (
+      SELECT 1 FROM activity_feed
+      WHERE id = activity_id AND user_id = (select auth.uid())
+    )
+  );
+
+-- Success message
+SELECT 'Activity engagement tables created successfully!' as message;
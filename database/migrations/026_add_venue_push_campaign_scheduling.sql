@@ -0,0 +1,156 @@
+-- Migration: Add Venue Push Campaign Scheduling
+-- Description: Adds favorites-only targeting to venue_push_notifications, an index
+-- for dispatching scheduled campaigns from the send-venue-campaign-push edge function,
+-- and functions that charge and refund campaign push credits
+-- Requirements: Venue Push Campaigns - Events and Promotions
+
+-- ============================================================================
+-- Targeting
+-- ============================================================================
+
+ALTER TABLE venue_push_notifications
+  ADD COLUMN IF NOT EXISTS target_favorites_only BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN venue_push_notifications.target_favorites_only IS 'Only target users who favorited the venue';
+
+-- ============================================================================
+-- Scheduled Dispatch
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_venue_push_notifications_scheduled
+  ON venue_push_notifications(scheduled_for)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_venue_push_notifications_account_created
+  ON venue_push_notifications(venue_business_account_id, created_at DESC);
+
+-- ============================================================================
+-- Push Credits
+-- ============================================================================
+-- Credits are charged and refunded by the send-venue-campaign-push edge function
+-- with the service role: when a campaign is sent or scheduled, again at dispatch
+-- for scheduled campaigns that were not charged, and refunded when a send fails
+-- or a scheduled campaign is cancelled. credits_charged keeps both idempotent.
+
+ALTER TABLE venue_push_notifications
+  ADD COLUMN IF NOT EXISTS credits_charged BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN venue_push_notifications.credits_charged IS 'Whether credits_used has been deducted from the business account';
+
+-- Owners only create drafts; status, credits and delivery columns are written
+-- by the edge function, so a client cannot mark a campaign as already charged
+REVOKE INSERT, UPDATE ON venue_push_notifications FROM authenticated;
+GRANT INSERT (
+  venue_business_account_id, venue_id, title, message, notification_type,
+  target_radius_miles, target_favorites_only
+) ON venue_push_notifications TO authenticated;
+
+-- Charge a campaign's credits. Returns false if the account does not have
+-- enough credits; revenue tier accounts are never charged.
+CREATE OR REPLACE FUNCTION charge_campaign_credits(p_campaign_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_campaign venue_push_notifications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM venue_push_notifications
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.credits_charged THEN
+    RETURN true;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE id = v_campaign.venue_business_account_id
+    AND subscription_tier = 'revenue'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE venue_business_accounts
+  SET
+    push_credits_remaining = push_credits_remaining - v_campaign.credits_used,
+    push_credits_used = push_credits_used + v_campaign.credits_used
+  WHERE id = v_campaign.venue_business_account_id
+  AND push_credits_remaining >= v_campaign.credits_used;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE venue_push_notifications
+  SET credits_charged = true
+  WHERE id = p_campaign_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION charge_campaign_credits(UUID) FROM PUBLIC, anon, authenticated;
+COMMENT ON FUNCTION charge_campaign_credits IS 'Deducts a campaign''s push credits once; returns false if credits are insufficient';
+
+-- Refund a charged campaign that was not delivered. Campaigns in 'sent' are
+-- being delivered (or were), so they are never refunded.
+CREATE OR REPLACE FUNCTION refund_campaign_credits(p_campaign_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_campaign venue_push_notifications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_campaign
+  FROM venue_push_notifications
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_campaign.credits_charged OR v_campaign.status = 'sent' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE venue_business_accounts
+  SET
+    push_credits_remaining = push_credits_remaining + v_campaign.credits_used,
+    push_credits_used = GREATEST(0, push_credits_used - v_campaign.credits_used)
+  WHERE id = v_campaign.venue_business_account_id;
+
+  UPDATE venue_push_notifications
+  SET credits_charged = false
+  WHERE id = p_campaign_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refund_campaign_credits(UUID) FROM PUBLIC, anon, authenticated;
+COMMENT ON FUNCTION refund_campaign_credits IS 'Returns a charged campaign''s push credits unless it was sent';
+
+-- ============================================================================
+-- Optional: Schedule Dispatch Job
+-- ============================================================================
+-- Scheduled campaigns are delivered when the edge function is called with
+-- action 'dispatch_scheduled' and the service role key. With pg_cron and pg_net
+-- enabled, replace the placeholders and run the block below to dispatch every minute.
+
+/*
+SELECT cron.schedule(
+  'venue-campaign-dispatch',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://<project-ref>.supabase.co/functions/v1/send-venue-campaign-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer <service-role-key>'
+    ),
+    body := '{"action": "dispatch_scheduled"}'::jsonb
+  );
+  $$
+);
+*/
+
+-- Success message
+SELECT 'Venue push campaign scheduling added successfully!' as message;
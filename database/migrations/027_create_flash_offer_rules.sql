@@ -0,0 +1,336 @@
+-- Migration: Create Flash Offer Rules
+-- Description: Creates flash_offer_rules for time- and capacity-triggered automatic flash
+-- offers, the flash_offer_rule_firings audit trail, and a scheduled job that evaluates
+-- every enabled rule in its venue's timezone and publishes offers for rules that fire
+-- Requirements: Flash Offers - Time and Capacity Triggers
+
+-- ============================================================================
+-- Flash Offer Rules Table
+-- ============================================================================
+-- A rule publishes an offer from its template when the current local time is inside
+-- the rule's window and (optionally) venue occupancy crosses the capacity threshold
+
+CREATE TABLE IF NOT EXISTS flash_offer_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  name VARCHAR(60) NOT NULL CHECK (char_length(name) >= 3),
+  is_enabled BOOLEAN DEFAULT true,
+
+  -- Time trigger (venue local time, 0 = Sunday)
+  days_of_week SMALLINT[] NOT NULL DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+    CHECK (array_length(days_of_week, 1) >= 1 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  window_start TIME NOT NULL,
+  window_end TIME NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+
+  -- Capacity trigger (NULL condition = time trigger only)
+  capacity_condition VARCHAR(10) CHECK (capacity_condition IN ('below', 'above')),
+  capacity_threshold_percent SMALLINT CHECK (capacity_threshold_percent BETWEEN 1 AND 100),
+
+  -- Offer template
+  offer_title VARCHAR(100) NOT NULL CHECK (char_length(offer_title) >= 3),
+  offer_description TEXT NOT NULL CHECK (char_length(offer_description) >= 10 AND char_length(offer_description) <= 500),
+  claim_value DECIMAL(10,2) NOT NULL CHECK (claim_value >= 0 AND claim_value <= 10000),
+  max_claims INTEGER NOT NULL CHECK (max_claims >= 1 AND max_claims <= 1000),
+  radius_miles DECIMAL(5,2) DEFAULT 1.0 CHECK (radius_miles > 0),
+  target_favorites_only BOOLEAN DEFAULT false,
+  send_push BOOLEAN DEFAULT true,
+
+  -- Firing limits
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 15 AND 720),
+  cooldown_minutes INTEGER NOT NULL CHECK (cooldown_minutes BETWEEN 15 AND 10080),
+  last_fired_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_rule_window CHECK (window_start < window_end),
+  CONSTRAINT valid_capacity_trigger CHECK (
+    (capacity_condition IS NULL AND capacity_threshold_percent IS NULL) OR
+    (capacity_condition IS NOT NULL AND capacity_threshold_percent IS NOT NULL)
+  ),
+  CONSTRAINT cooldown_covers_duration CHECK (cooldown_minutes >= duration_minutes)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_offer_rules_venue ON flash_offer_rules(venue_id);
+CREATE INDEX IF NOT EXISTS idx_flash_offer_rules_enabled
+  ON flash_offer_rules(venue_id)
+  WHERE is_enabled = true;
+
+COMMENT ON TABLE flash_offer_rules IS 'Time- and capacity-triggered rules that publish flash offers automatically';
+COMMENT ON COLUMN flash_offer_rules.days_of_week IS 'Days the rule may fire (0 = Sunday through 6 = Saturday)';
+COMMENT ON COLUMN flash_offer_rules.window_start IS 'Start of the daily window in venue local time';
+COMMENT ON COLUMN flash_offer_rules.window_end IS 'End of the daily window in venue local time';
+COMMENT ON COLUMN flash_offer_rules.timezone IS 'IANA timezone used when the venue has none set';
+COMMENT ON COLUMN flash_offer_rules.capacity_condition IS 'Fire when occupancy is below or above the threshold. NULL for time-only rules.';
+COMMENT ON COLUMN flash_offer_rules.capacity_threshold_percent IS 'Occupancy threshold as a percentage of venues.max_capacity';
+COMMENT ON COLUMN flash_offer_rules.duration_minutes IS 'How long each published offer stays active';
+COMMENT ON COLUMN flash_offer_rules.cooldown_minutes IS 'Minimum time between firings (at least the offer duration)';
+COMMENT ON COLUMN flash_offer_rules.last_fired_at IS 'When the rule last fired successfully';
+
+CREATE OR REPLACE FUNCTION update_flash_offer_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS flash_offer_rules_updated_at ON flash_offer_rules;
+CREATE TRIGGER flash_offer_rules_updated_at
+  BEFORE UPDATE ON flash_offer_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_offer_rules_updated_at();
+
+-- ============================================================================
+-- Flash Offer Rule Firings Table
+-- ============================================================================
+-- Audit trail of every firing, with the occupancy snapshot that triggered it
+
+CREATE TABLE IF NOT EXISTS flash_offer_rule_firings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES flash_offer_rules(id) ON DELETE CASCADE,
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  offer_id UUID REFERENCES flash_offers(id) ON DELETE SET NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('fired', 'failed')),
+  active_checkins INTEGER NOT NULL DEFAULT 0,
+  max_capacity INTEGER NOT NULL DEFAULT 0,
+  occupancy_percent INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  fired_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_offer_rule_firings_rule
+  ON flash_offer_rule_firings(rule_id, fired_at DESC);
+CREATE INDEX IF NOT EXISTS idx_flash_offer_rule_firings_venue
+  ON flash_offer_rule_firings(venue_id, fired_at DESC);
+
+COMMENT ON TABLE flash_offer_rule_firings IS 'Audit trail of automatic flash offer rule firings';
+COMMENT ON COLUMN flash_offer_rule_firings.status IS 'fired with the published offer, or failed with an error';
+COMMENT ON COLUMN flash_offer_rule_firings.occupancy_percent IS 'Occupancy at the time the rule fired';
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE flash_offer_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flash_offer_rule_firings ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Venue owners can view their rules
+DROP POLICY IF EXISTS "Venue owners can view their flash offer rules" ON flash_offer_rules;
+CREATE POLICY "Venue owners can view their flash offer rules"
+  ON flash_offer_rules FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_rules.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- Policy: Venue owners can create rules for their venues
+DROP POLICY IF EXISTS "Venue owners can create flash offer rules" ON flash_offer_rules;
+CREATE POLICY "Venue owners can create flash offer rules"
+  ON flash_offer_rules FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_rules.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- Policy: Venue owners can update their rules
+DROP POLICY IF EXISTS "Venue owners can update their flash offer rules" ON flash_offer_rules;
+CREATE POLICY "Venue owners can update their flash offer rules"
+  ON flash_offer_rules FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_rules.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- Policy: Venue owners can delete their rules
+DROP POLICY IF EXISTS "Venue owners can delete their flash offer rules" ON flash_offer_rules;
+CREATE POLICY "Venue owners can delete their flash offer rules"
+  ON flash_offer_rules FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_rules.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- Policy: Venue owners can view their firing history
+-- Firings are only written by evaluate_flash_offer_rules
+DROP POLICY IF EXISTS "Venue owners can view their rule firings" ON flash_offer_rule_firings;
+CREATE POLICY "Venue owners can view their rule firings"
+  ON flash_offer_rule_firings FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_rule_firings.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- Rule Evaluation
+-- ============================================================================
+
+-- Rule windows are venue local times (030 also uses this column for venue hours)
+ALTER TABLE venues
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+-- Evaluate every enabled rule and publish an offer for each rule that fires.
+-- Days and windows are checked in the venue's timezone (the rule's when the
+-- venue has none), occupancy is active check-ins over venues.max_capacity
+-- (100 when unset), and rules in cooldown or at venues without an active Pro
+-- or Revenue plan are skipped. Rules are locked with SKIP LOCKED so overlapping
+-- runs cannot fire a rule twice. A rule that fails to publish records a failed
+-- firing without starting its cooldown, so it is retried on the next run.
+--
+-- Pushes for rules with send_push are requested from the send-flash-offer-push
+-- Edge Function through pg_net, using the app.flash_offer_push_url and
+-- app.service_role_key settings. Without them offers are published silently.
+CREATE OR REPLACE FUNCTION evaluate_flash_offer_rules()
+RETURNS INTEGER AS $$
+DECLARE
+  v_rule RECORD;
+  v_local_now TIMESTAMP;
+  v_active_checkins INTEGER;
+  v_occupancy INTEGER;
+  v_offer_id UUID;
+  v_fired INTEGER := 0;
+  v_push_url TEXT := NULLIF(current_setting('app.flash_offer_push_url', true), '');
+  v_service_key TEXT := NULLIF(current_setting('app.service_role_key', true), '');
+  v_can_push BOOLEAN;
+BEGIN
+  v_can_push := v_push_url IS NOT NULL
+    AND v_service_key IS NOT NULL
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net');
+
+  FOR v_rule IN
+    SELECT
+      r.*,
+      COALESCE(v.timezone, r.timezone) AS local_timezone,
+      COALESCE(NULLIF(v.max_capacity, 0), 100) AS venue_capacity
+    FROM flash_offer_rules r
+    JOIN venues v ON v.id = r.venue_id
+    WHERE r.is_enabled = true
+    AND (
+      r.last_fired_at IS NULL
+      OR r.last_fired_at + make_interval(mins => r.cooldown_minutes) <= NOW()
+    )
+    AND EXISTS (
+      SELECT 1 FROM venue_business_accounts vba
+      WHERE vba.venue_id = r.venue_id
+      AND vba.account_status = 'active'
+      AND vba.subscription_tier IN ('pro', 'revenue')
+    )
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    BEGIN
+      v_local_now := NOW() AT TIME ZONE v_rule.local_timezone;
+    EXCEPTION WHEN invalid_parameter_value THEN
+      RAISE WARNING 'Flash offer rule % has an unknown timezone: %', v_rule.id, v_rule.local_timezone;
+      CONTINUE;
+    END;
+
+    CONTINUE WHEN NOT (EXTRACT(DOW FROM v_local_now)::SMALLINT = ANY(v_rule.days_of_week));
+    CONTINUE WHEN v_local_now::TIME < v_rule.window_start
+      OR v_local_now::TIME >= v_rule.window_end;
+
+    SELECT COUNT(*) INTO v_active_checkins
+    FROM check_ins
+    WHERE venue_id = v_rule.venue_id
+    AND is_active = true;
+
+    v_occupancy := ROUND(v_active_checkins * 100.0 / v_rule.venue_capacity)::INTEGER;
+
+    CONTINUE WHEN v_rule.capacity_condition = 'below'
+      AND v_occupancy >= v_rule.capacity_threshold_percent;
+    CONTINUE WHEN v_rule.capacity_condition = 'above'
+      AND v_occupancy <= v_rule.capacity_threshold_percent;
+
+    BEGIN
+      INSERT INTO flash_offers (
+        venue_id, title, description, claim_value, max_claims,
+        start_time, end_time, radius_miles, target_favorites_only, status
+      ) VALUES (
+        v_rule.venue_id, v_rule.offer_title, v_rule.offer_description, v_rule.claim_value, v_rule.max_claims,
+        NOW(), NOW() + make_interval(mins => v_rule.duration_minutes),
+        v_rule.radius_miles, v_rule.target_favorites_only, 'active'
+      )
+      RETURNING id INTO v_offer_id;
+
+      UPDATE flash_offer_rules
+      SET last_fired_at = NOW()
+      WHERE id = v_rule.id;
+
+      INSERT INTO flash_offer_rule_firings (
+        rule_id, venue_id, offer_id, status, active_checkins, max_capacity, occupancy_percent, completed_at
+      ) VALUES (
+        v_rule.id, v_rule.venue_id, v_offer_id, 'fired', v_active_checkins, v_rule.venue_capacity, v_occupancy, NOW()
+      );
+
+      IF v_rule.send_push AND v_can_push THEN
+        PERFORM net.http_post(
+          url := v_push_url,
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || v_service_key
+          ),
+          body := jsonb_build_object('offerId', v_offer_id)
+        );
+      END IF;
+
+      v_fired := v_fired + 1;
+    EXCEPTION WHEN OTHERS THEN
+      INSERT INTO flash_offer_rule_firings (
+        rule_id, venue_id, status, active_checkins, max_capacity, occupancy_percent, error_message, completed_at
+      ) VALUES (
+        v_rule.id, v_rule.venue_id, 'failed', v_active_checkins, v_rule.venue_capacity, v_occupancy, SQLERRM, NOW()
+      );
+
+      RAISE WARNING 'Flash offer rule % failed: %', v_rule.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_fired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION evaluate_flash_offer_rules() FROM PUBLIC, anon, authenticated;
+COMMENT ON FUNCTION evaluate_flash_offer_rules IS 'Publishes flash offers for enabled rules whose window and capacity conditions are met; returns the number fired';
+
+-- ============================================================================
+-- Schedule Evaluation Job
+-- ============================================================================
+-- Runs every 2 minutes, like the flash-offers-expiration job (see 016_setup_flash_offers_cron.sql)
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'flash-offer-rules') THEN
+      PERFORM cron.unschedule('flash-offer-rules');
+    END IF;
+
+    PERFORM cron.schedule(
+      'flash-offer-rules',
+      '*/2 * * * *',
+      $cron$ SELECT evaluate_flash_offer_rules(); $cron$
+    );
+    RAISE NOTICE 'Scheduled flash-offer-rules job (every 2 minutes)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule evaluate_flash_offer_rules() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Flash offer rules created successfully!' as message;
@@ -0,0 +1,299 @@
+-- Migration: Create Flash Offer Templates and Recurrences
+-- Description: Adds saved offer templates per venue and recurrence rules that
+-- materialize scheduled flash_offers rows ahead of time. Each occurrence is a normal
+-- flash_offers row, so a single occurrence can be skipped (cancelled) or edited.
+-- Requirements: Flash Offers - Recurring and Templated Offers
+
+-- ============================================================================
+-- Flash Offer Templates Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS flash_offer_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  name VARCHAR(60) NOT NULL CHECK (char_length(name) >= 3),
+
+  -- Offer details copied into each offer
+  title VARCHAR(100) NOT NULL CHECK (char_length(title) >= 3),
+  description TEXT NOT NULL CHECK (char_length(description) >= 10 AND char_length(description) <= 500),
+  claim_value DECIMAL(10,2) NOT NULL CHECK (claim_value >= 0 AND claim_value <= 10000),
+  max_claims INTEGER NOT NULL CHECK (max_claims >= 1 AND max_claims <= 1000),
+  radius_miles DECIMAL(5,2) DEFAULT 1.0 CHECK (radius_miles > 0),
+  target_favorites_only BOOLEAN DEFAULT false,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 1 AND 1440),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_offer_templates_venue ON flash_offer_templates(venue_id);
+
+COMMENT ON TABLE flash_offer_templates IS 'Saved flash offer templates per venue';
+COMMENT ON COLUMN flash_offer_templates.duration_minutes IS 'How long offers created from this template run';
+
+-- ============================================================================
+-- Flash Offer Recurrences Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS flash_offer_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES flash_offer_templates(id) ON DELETE CASCADE,
+
+  -- Schedule (0 = Sunday, weekly recurrences only)
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  days_of_week SMALLINT[] DEFAULT NULL
+    CHECK (days_of_week IS NULL OR days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  start_time_of_day TIME NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  starts_on DATE NOT NULL,
+
+  -- End condition: an end date or a number of occurrences
+  ends_on DATE,
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 365),
+
+  -- Materialization state
+  is_active BOOLEAN DEFAULT true,
+  occurrences_created INTEGER NOT NULL DEFAULT 0,
+  materialized_through DATE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT weekly_requires_days CHECK (
+    frequency = 'daily' OR array_length(days_of_week, 1) >= 1
+  ),
+  CONSTRAINT recurrence_has_one_end CHECK (
+    (ends_on IS NOT NULL AND occurrence_count IS NULL) OR
+    (ends_on IS NULL AND occurrence_count IS NOT NULL)
+  ),
+  CONSTRAINT valid_recurrence_range CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_offer_recurrences_venue ON flash_offer_recurrences(venue_id);
+CREATE INDEX IF NOT EXISTS idx_flash_offer_recurrences_active
+  ON flash_offer_recurrences(materialized_through)
+  WHERE is_active = true;
+
+COMMENT ON TABLE flash_offer_recurrences IS 'Recurrence rules that materialize scheduled flash offers from a template';
+COMMENT ON COLUMN flash_offer_recurrences.start_time_of_day IS 'Local start time of each occurrence in the recurrence timezone';
+COMMENT ON COLUMN flash_offer_recurrences.timezone IS 'IANA timezone the schedule is defined in';
+COMMENT ON COLUMN flash_offer_recurrences.occurrences_created IS 'Occurrences materialized so far, including skipped ones';
+COMMENT ON COLUMN flash_offer_recurrences.materialized_through IS 'Last date occurrences have been materialized for';
+
+-- ============================================================================
+-- Flash Offers Occurrence Columns
+-- ============================================================================
+
+ALTER TABLE flash_offers
+  ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES flash_offer_recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+-- One offer per recurrence per day; makes materialization idempotent and keeps
+-- skipped (cancelled) occurrences from being recreated
+ALTER TABLE flash_offers DROP CONSTRAINT IF EXISTS unique_recurrence_occurrence;
+ALTER TABLE flash_offers
+  ADD CONSTRAINT unique_recurrence_occurrence UNIQUE (recurrence_id, occurrence_date);
+
+COMMENT ON COLUMN flash_offers.recurrence_id IS 'Recurrence that created this offer. NULL for one-off offers.';
+COMMENT ON COLUMN flash_offers.occurrence_date IS 'Local date of the occurrence within its recurrence';
+
+-- ============================================================================
+-- Updated At Triggers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_flash_offer_recurrence_tables_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS flash_offer_templates_updated_at ON flash_offer_templates;
+CREATE TRIGGER flash_offer_templates_updated_at
+  BEFORE UPDATE ON flash_offer_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_offer_recurrence_tables_updated_at();
+
+DROP TRIGGER IF EXISTS flash_offer_recurrences_updated_at ON flash_offer_recurrences;
+CREATE TRIGGER flash_offer_recurrences_updated_at
+  BEFORE UPDATE ON flash_offer_recurrences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_offer_recurrence_tables_updated_at();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE flash_offer_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flash_offer_recurrences ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Venue owners can manage their templates
+DROP POLICY IF EXISTS "Venue owners can manage their offer templates" ON flash_offer_templates;
+CREATE POLICY "Venue owners can manage their offer templates"
+  ON flash_offer_templates FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_templates.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_templates.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- Policy: Venue owners can manage their recurrences
+DROP POLICY IF EXISTS "Venue owners can manage their offer recurrences" ON flash_offer_recurrences;
+CREATE POLICY "Venue owners can manage their offer recurrences"
+  ON flash_offer_recurrences FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_recurrences.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = flash_offer_recurrences.venue_id
+      AND venue_business_accounts.owner_user_id = (select auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- Materialization Function
+-- ============================================================================
+
+-- Create scheduled flash_offers rows for upcoming occurrences of active recurrences.
+-- Pass a recurrence ID to materialize a single recurrence (venue owners, right after
+-- creating it) or NULL to materialize all of them (scheduled job only).
+-- p_days_ahead is capped at 14 days.
+CREATE OR REPLACE FUNCTION materialize_flash_offer_recurrences(
+  p_recurrence_id UUID DEFAULT NULL,
+  p_days_ahead INTEGER DEFAULT 7
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rec RECORD;
+  v_today DATE;
+  v_date DATE;
+  v_last DATE;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_created_for_rec INTEGER;
+  v_inserted INTEGER;
+  v_total_created INTEGER := 0;
+  v_days_ahead INTEGER := LEAST(GREATEST(COALESCE(p_days_ahead, 7), 0), 14);
+BEGIN
+  IF p_recurrence_id IS NULL AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized to materialize every recurrence';
+  END IF;
+
+  IF p_recurrence_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM flash_offer_recurrences r
+    JOIN venue_business_accounts vba ON vba.venue_id = r.venue_id
+    WHERE r.id = p_recurrence_id
+    AND vba.owner_user_id = (select auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to materialize this recurrence';
+  END IF;
+
+  FOR v_rec IN
+    SELECT r.*, t.title, t.description, t.claim_value, t.max_claims,
+           t.radius_miles, t.target_favorites_only, t.duration_minutes
+    FROM flash_offer_recurrences r
+    JOIN flash_offer_templates t ON t.id = r.template_id
+    WHERE r.is_active = true
+    AND (p_recurrence_id IS NULL OR r.id = p_recurrence_id)
+    FOR UPDATE OF r
+  LOOP
+    v_today := (NOW() AT TIME ZONE v_rec.timezone)::DATE;
+    v_date := GREATEST(v_rec.starts_on, v_today, COALESCE(v_rec.materialized_through + 1, v_rec.starts_on));
+    v_last := v_today + v_days_ahead;
+    IF v_rec.ends_on IS NOT NULL THEN
+      v_last := LEAST(v_last, v_rec.ends_on);
+    END IF;
+    v_created_for_rec := v_rec.occurrences_created;
+
+    WHILE v_date <= v_last LOOP
+      EXIT WHEN v_rec.occurrence_count IS NOT NULL AND v_created_for_rec >= v_rec.occurrence_count;
+
+      IF v_rec.frequency = 'daily' OR EXTRACT(DOW FROM v_date)::SMALLINT = ANY(v_rec.days_of_week) THEN
+        v_start := (v_date + v_rec.start_time_of_day) AT TIME ZONE v_rec.timezone;
+        v_end := v_start + make_interval(mins => v_rec.duration_minutes);
+
+        -- Occurrences that already ended today are not created
+        IF v_end > NOW() THEN
+          INSERT INTO flash_offers (
+            venue_id, title, description, claim_value, max_claims,
+            start_time, end_time, radius_miles, target_favorites_only,
+            status, recurrence_id, occurrence_date
+          ) VALUES (
+            v_rec.venue_id, v_rec.title, v_rec.description, v_rec.claim_value, v_rec.max_claims,
+            v_start, v_end, v_rec.radius_miles, v_rec.target_favorites_only,
+            CASE WHEN v_start <= NOW() THEN 'active' ELSE 'scheduled' END,
+            v_rec.id, v_date
+          )
+          ON CONFLICT (recurrence_id, occurrence_date) DO NOTHING;
+
+          GET DIAGNOSTICS v_inserted = ROW_COUNT;
+          v_created_for_rec := v_created_for_rec + v_inserted;
+          v_total_created := v_total_created + v_inserted;
+        END IF;
+      END IF;
+
+      v_date := v_date + 1;
+    END LOOP;
+
+    UPDATE flash_offer_recurrences
+    SET
+      occurrences_created = v_created_for_rec,
+      materialized_through = GREATEST(COALESCE(materialized_through, v_date - 1), v_date - 1),
+      is_active = NOT (
+        (occurrence_count IS NOT NULL AND v_created_for_rec >= occurrence_count) OR
+        (ends_on IS NOT NULL AND v_date > ends_on)
+      )
+    WHERE id = v_rec.id;
+  END LOOP;
+
+  RETURN v_total_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION materialize_flash_offer_recurrences(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION materialize_flash_offer_recurrences(UUID, INTEGER) TO authenticated;
+COMMENT ON FUNCTION materialize_flash_offer_recurrences IS 'Creates scheduled flash offers for upcoming recurrence occurrences; returns the number created';
+
+-- ============================================================================
+-- Schedule Materialization Job
+-- ============================================================================
+-- Runs hourly alongside the flash-offers-expiration job (see 016_setup_flash_offers_cron.sql),
+-- which activates materialized offers when their start_time arrives
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'flash-offer-recurrences') THEN
+      PERFORM cron.unschedule('flash-offer-recurrences');
+    END IF;
+
+    PERFORM cron.schedule(
+      'flash-offer-recurrences',
+      '5 * * * *',
+      $cron$ SELECT materialize_flash_offer_recurrences(NULL, 7); $cron$
+    );
+    RAISE NOTICE 'Scheduled flash-offer-recurrences job (hourly)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule materialize_flash_offer_recurrences() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Flash offer templates and recurrences created successfully!' as message;
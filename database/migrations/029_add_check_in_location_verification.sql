@@ -0,0 +1,165 @@
+-- Migration: Add Check-In Location Verification
+-- Description: Adds a configurable geofence radius to venues, records the coordinates
+-- submitted with each check-in, and adds check_in_with_location() which re-validates
+-- the distance server-side and flags check-ins that fail as unverified. Venues choose
+-- whether unverified check-ins may claim flash offers.
+-- Requirements: Check-Ins - Geo-fenced Verification
+
+-- ============================================================================
+-- Venue Geofence Settings
+-- ============================================================================
+
+ALTER TABLE venues
+  ADD COLUMN IF NOT EXISTS check_in_radius_meters INTEGER NOT NULL DEFAULT 150
+    CHECK (check_in_radius_meters BETWEEN 25 AND 2000),
+  ADD COLUMN IF NOT EXISTS allow_unverified_claims BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN venues.check_in_radius_meters IS 'Maximum distance from the venue coordinates for a verified check-in';
+COMMENT ON COLUMN venues.allow_unverified_claims IS 'Whether users with unverified check-ins may claim this venue''s flash offers';
+
+-- ============================================================================
+-- Check-In Verification Columns
+-- ============================================================================
+
+-- Existing check-ins are backfilled as verified (they predate verification),
+-- then the default is switched so rows inserted outside the RPC are unverified
+ALTER TABLE check_ins
+  ADD COLUMN IF NOT EXISTS verification_status VARCHAR(20) NOT NULL DEFAULT 'verified'
+    CHECK (verification_status IN ('verified', 'unverified')),
+  ADD COLUMN IF NOT EXISTS verification_reason VARCHAR(30)
+    CHECK (verification_reason IN (
+      'outside_radius', 'low_accuracy', 'location_unavailable', 'venue_location_missing', 'not_verified'
+    )),
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS location_accuracy_meters DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS distance_meters DOUBLE PRECISION;
+
+ALTER TABLE check_ins ALTER COLUMN verification_status SET DEFAULT 'unverified';
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_venue_unverified
+  ON check_ins(venue_id, checked_in_at DESC)
+  WHERE verification_status = 'unverified';
+
+COMMENT ON COLUMN check_ins.verification_status IS 'verified when the submitted location was within the venue radius, otherwise unverified';
+COMMENT ON COLUMN check_ins.verification_reason IS 'Why a check-in is unverified (NULL when verified)';
+COMMENT ON COLUMN check_ins.distance_meters IS 'Server-computed distance between the submitted location and the venue';
+
+-- ============================================================================
+-- Verification Guard
+-- ============================================================================
+
+-- Only check_in_with_location() may mark a check-in verified. Direct inserts are
+-- forced to unverified and direct updates cannot change verification fields.
+CREATE OR REPLACE FUNCTION enforce_check_in_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.check_in_verification', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'unverified';
+    NEW.verification_reason := 'not_verified';
+    NEW.distance_meters := NULL;
+  ELSE
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_reason := OLD.verification_reason;
+    NEW.latitude := OLD.latitude;
+    NEW.longitude := OLD.longitude;
+    NEW.location_accuracy_meters := OLD.location_accuracy_meters;
+    NEW.distance_meters := OLD.distance_meters;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_check_in_verification ON check_ins;
+CREATE TRIGGER enforce_check_in_verification
+  BEFORE INSERT OR UPDATE ON check_ins
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_check_in_verification();
+
+-- ============================================================================
+-- Check-In Function
+-- ============================================================================
+
+-- Checks the caller into a venue. A check-in is verified when a location was
+-- submitted, its reported accuracy is within 100 meters, and it lies inside the
+-- venue's check_in_radius_meters; otherwise it is flagged unverified with a reason.
+CREATE OR REPLACE FUNCTION check_in_with_location(
+  p_venue_id UUID,
+  p_user_id UUID,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_accuracy_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS check_ins AS $$
+DECLARE
+  v_max_accuracy_meters CONSTANT DOUBLE PRECISION := 100;
+  v_venue RECORD;
+  v_distance DOUBLE PRECISION;
+  v_reason VARCHAR(30);
+  v_check_in check_ins%ROWTYPE;
+BEGIN
+  IF p_user_id IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to check in as this user';
+  END IF;
+
+  SELECT id, latitude, longitude, check_in_radius_meters INTO v_venue
+  FROM venues
+  WHERE id = p_venue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue not found';
+  END IF;
+
+  -- Distance via the Haversine formula (Earth radius 6371 km)
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+     AND v_venue.latitude IS NOT NULL AND v_venue.longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * asin(sqrt(
+      power(sin(radians(v_venue.latitude::DOUBLE PRECISION - p_latitude) / 2), 2) +
+      cos(radians(p_latitude)) * cos(radians(v_venue.latitude::DOUBLE PRECISION)) *
+      power(sin(radians(v_venue.longitude::DOUBLE PRECISION - p_longitude) / 2), 2)
+    ));
+  END IF;
+
+  v_reason := CASE
+    WHEN p_latitude IS NULL OR p_longitude IS NULL THEN 'location_unavailable'
+    WHEN v_venue.latitude IS NULL OR v_venue.longitude IS NULL THEN 'venue_location_missing'
+    WHEN p_accuracy_meters IS NULL OR p_accuracy_meters > v_max_accuracy_meters THEN 'low_accuracy'
+    WHEN v_distance > v_venue.check_in_radius_meters THEN 'outside_radius'
+    ELSE NULL
+  END;
+
+  -- Check out of any other active check-ins
+  UPDATE check_ins
+  SET is_active = false, checked_out_at = NOW(), updated_at = NOW()
+  WHERE user_id = p_user_id
+  AND is_active = true;
+
+  PERFORM set_config('app.check_in_verification', 'on', true);
+
+  INSERT INTO check_ins (
+    venue_id, user_id, is_active,
+    verification_status, verification_reason,
+    latitude, longitude, location_accuracy_meters, distance_meters
+  ) VALUES (
+    p_venue_id, p_user_id, true,
+    CASE WHEN v_reason IS NULL THEN 'verified' ELSE 'unverified' END, v_reason,
+    p_latitude, p_longitude, p_accuracy_meters, ROUND(v_distance::NUMERIC, 1)::DOUBLE PRECISION
+  )
+  RETURNING * INTO v_check_in;
+
+  PERFORM set_config('app.check_in_verification', 'off', true);
+
+  RETURN v_check_in;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_in_with_location(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+COMMENT ON FUNCTION check_in_with_location IS 'Checks the caller into a venue, verifying the submitted coordinates against the venue geofence';
+
+-- Success message
+SELECT 'Check-in location verification added successfully!' as message;
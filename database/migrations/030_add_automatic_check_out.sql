@@ -0,0 +1,282 @@
+-- Migration: Add Automatic Check-Out
+-- Description: Records why each check-in ended and adds expire_stale_check_ins(), a
+-- scheduled job that checks users out after their venue category's maximum dwell time
+-- or once the venue has closed per its hours. Replaces the unscheduled
+-- auto_checkout_old_checkins() from database/setup/checkin-database-setup.sql.
+-- Requirements: Check-Ins - Automatic Check-Out
+
+-- ============================================================================
+-- Check-Out Reason
+-- ============================================================================
+
+ALTER TABLE check_ins
+  ADD COLUMN IF NOT EXISTS checkout_reason VARCHAR(20)
+    CHECK (checkout_reason IN ('manual', 'switched_venue', 'max_dwell', 'venue_closed', 'left_geofence'));
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_venue_checkout_reason
+  ON check_ins(venue_id, checkout_reason)
+  WHERE checkout_reason IS NOT NULL;
+
+COMMENT ON COLUMN check_ins.checkout_reason IS 'How the check-in ended: manual, switched_venue, max_dwell, venue_closed or left_geofence';
+
+-- Venue hours are stored as local times, so closing-time expiry needs the venue's
+-- timezone. Venues without one are only expired by dwell time.
+ALTER TABLE venues
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+COMMENT ON COLUMN venues.timezone IS 'IANA timezone the venue hours are expressed in (e.g. America/Chicago)';
+
+-- ============================================================================
+-- Dwell Limits
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS check_in_dwell_limits (
+  category VARCHAR(50) PRIMARY KEY,
+  max_dwell_minutes INTEGER NOT NULL CHECK (max_dwell_minutes BETWEEN 15 AND 1440),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO check_in_dwell_limits (category, max_dwell_minutes) VALUES
+  ('Coffee Shops', 120),
+  ('Fast Food', 90),
+  ('Restaurants', 180),
+  ('Fine Dining', 240),
+  ('Breweries', 240),
+  ('Sports Bars', 300),
+  ('Lounges', 300),
+  ('Nightclubs', 360),
+  ('Fitness', 150)
+ON CONFLICT (category) DO NOTHING;
+
+ALTER TABLE check_in_dwell_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view dwell limits" ON check_in_dwell_limits;
+CREATE POLICY "Anyone can view dwell limits"
+  ON check_in_dwell_limits FOR SELECT
+  USING (true);
+
+COMMENT ON TABLE check_in_dwell_limits IS 'Maximum check-in duration per venue category before automatic check-out (default 240 minutes)';
+
+-- ============================================================================
+-- Venue Hours
+-- ============================================================================
+
+-- Parses an hours entry such as '11:00 AM - 10:00 PM'. Returns NULLs when the
+-- entry is missing or not in that format.
+CREATE OR REPLACE FUNCTION parse_venue_hours_range(
+  p_hours_text TEXT,
+  OUT open_time TIME,
+  OUT close_time TIME
+) AS $$
+DECLARE
+  v_match TEXT[];
+BEGIN
+  v_match := regexp_match(
+    p_hours_text,
+    '(\d{1,2}:\d{2})\s*(AM|PM)\s*-\s*(\d{1,2}:\d{2})\s*(AM|PM)',
+    'i'
+  );
+
+  IF v_match IS NOT NULL THEN
+    open_time := (v_match[1] || ' ' || upper(v_match[2]))::TIME;
+    close_time := (v_match[3] || ' ' || upper(v_match[4]))::TIME;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Whether a venue is open at a local time. Handles overnight hours such as
+-- '10:00 PM - 2:00 AM' by also checking the previous day's entry. Returns NULL
+-- when the hours can't be interpreted, so callers never act on unknown hours.
+CREATE OR REPLACE FUNCTION is_venue_open_at(p_hours JSONB, p_local_time TIMESTAMP)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_day_names CONSTANT TEXT[] := ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  v_dow INTEGER := EXTRACT(DOW FROM p_local_time)::INTEGER;
+  v_time TIME := p_local_time::TIME;
+  v_today TEXT;
+  v_range RECORD;
+BEGIN
+  IF p_hours IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Still inside the previous day's overnight hours
+  SELECT * INTO v_range FROM parse_venue_hours_range(p_hours ->> v_day_names[((v_dow + 6) % 7) + 1]);
+  IF v_range.close_time < v_range.open_time AND v_time < v_range.close_time THEN
+    RETURN true;
+  END IF;
+
+  v_today := p_hours ->> v_day_names[v_dow + 1];
+
+  IF v_today IS NULL THEN
+    RETURN NULL;
+  ELSIF v_today ILIKE 'closed' THEN
+    RETURN false;
+  ELSIF v_today ILIKE '24 hours' THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO v_range FROM parse_venue_hours_range(v_today);
+  IF v_range.open_time IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_range.close_time < v_range.open_time THEN
+    RETURN v_time >= v_range.open_time;
+  END IF;
+
+  RETURN v_time >= v_range.open_time AND v_time < v_range.close_time;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ============================================================================
+-- Expiry Job
+-- ============================================================================
+
+-- Checks out active check-ins that have exceeded their category's dwell limit,
+-- then those at venues that are now closed. Check-ins younger than 30 minutes
+-- are left alone on closing so staff and early arrivals aren't removed at once.
+CREATE OR REPLACE FUNCTION expire_stale_check_ins()
+RETURNS INTEGER AS $$
+DECLARE
+  v_default_dwell_minutes CONSTANT INTEGER := 240;
+  v_dwell_expired INTEGER;
+  v_closed_expired INTEGER;
+BEGIN
+  UPDATE check_ins ci
+  SET is_active = false,
+      checked_out_at = NOW(),
+      updated_at = NOW(),
+      checkout_reason = 'max_dwell'
+  FROM venues v
+  LEFT JOIN check_in_dwell_limits dl ON dl.category = v.category
+  WHERE ci.venue_id = v.id
+  AND ci.is_active = true
+  AND ci.checked_in_at < NOW() - make_interval(mins => COALESCE(dl.max_dwell_minutes, v_default_dwell_minutes));
+
+  GET DIAGNOSTICS v_dwell_expired = ROW_COUNT;
+
+  UPDATE check_ins ci
+  SET is_active = false,
+      checked_out_at = NOW(),
+      updated_at = NOW(),
+      checkout_reason = 'venue_closed'
+  FROM venues v
+  WHERE ci.venue_id = v.id
+  AND ci.is_active = true
+  AND ci.checked_in_at < NOW() - INTERVAL '30 minutes'
+  AND v.timezone IS NOT NULL
+  AND is_venue_open_at(v.hours::JSONB, (NOW() AT TIME ZONE v.timezone)) = false;
+
+  GET DIAGNOSTICS v_closed_expired = ROW_COUNT;
+
+  RETURN v_dwell_expired + v_closed_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION expire_stale_check_ins IS 'Checks out check-ins past their dwell limit or at closed venues; returns the number checked out';
+
+DROP FUNCTION IF EXISTS auto_checkout_old_checkins();
+
+-- ============================================================================
+-- Check-In Function
+-- ============================================================================
+
+-- Same as migration 029, but records switched_venue on the check-ins it ends
+CREATE OR REPLACE FUNCTION check_in_with_location(
+  p_venue_id UUID,
+  p_user_id UUID,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_accuracy_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS check_ins AS $$
+DECLARE
+  v_max_accuracy_meters CONSTANT DOUBLE PRECISION := 100;
+  v_venue RECORD;
+  v_distance DOUBLE PRECISION;
+  v_reason VARCHAR(30);
+  v_check_in check_ins%ROWTYPE;
+BEGIN
+  IF p_user_id IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to check in as this user';
+  END IF;
+
+  SELECT id, latitude, longitude, check_in_radius_meters INTO v_venue
+  FROM venues
+  WHERE id = p_venue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue not found';
+  END IF;
+
+  -- Distance via the Haversine formula (Earth radius 6371 km)
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+     AND v_venue.latitude IS NOT NULL AND v_venue.longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * asin(sqrt(
+      power(sin(radians(v_venue.latitude::DOUBLE PRECISION - p_latitude) / 2), 2) +
+      cos(radians(p_latitude)) * cos(radians(v_venue.latitude::DOUBLE PRECISION)) *
+      power(sin(radians(v_venue.longitude::DOUBLE PRECISION - p_longitude) / 2), 2)
+    ));
+  END IF;
+
+  v_reason := CASE
+    WHEN p_latitude IS NULL OR p_longitude IS NULL THEN 'location_unavailable'
+    WHEN v_venue.latitude IS NULL OR v_venue.longitude IS NULL THEN 'venue_location_missing'
+    WHEN p_accuracy_meters IS NULL OR p_accuracy_meters > v_max_accuracy_meters THEN 'low_accuracy'
+    WHEN v_distance > v_venue.check_in_radius_meters THEN 'outside_radius'
+    ELSE NULL
+  END;
+
+  -- Check out of any other active check-ins
+  UPDATE check_ins
+  SET is_active = false, checked_out_at = NOW(), updated_at = NOW(), checkout_reason = 'switched_venue'
+  WHERE user_id = p_user_id
+  AND is_active = true;
+
+  PERFORM set_config('app.check_in_verification', 'on', true);
+
+  INSERT INTO check_ins (
+    venue_id, user_id, is_active,
+    verification_status, verification_reason,
+    latitude, longitude, location_accuracy_meters, distance_meters
+  ) VALUES (
+    p_venue_id, p_user_id, true,
+    CASE WHEN v_reason IS NULL THEN 'verified' ELSE 'unverified' END, v_reason,
+    p_latitude, p_longitude, p_accuracy_meters, ROUND(v_distance::NUMERIC, 1)::DOUBLE PRECISION
+  )
+  RETURNING * INTO v_check_in;
+
+  PERFORM set_config('app.check_in_verification', 'off', true);
+
+  RETURN v_check_in;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Schedule Expiry Job
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-in-expiration') THEN
+      PERFORM cron.unschedule('check-in-expiration');
+    END IF;
+
+    PERFORM cron.schedule(
+      'check-in-expiration',
+      '*/15 * * * *',
+      $cron$ SELECT expire_stale_check_ins(); $cron$
+    );
+    RAISE NOTICE 'Scheduled check-in-expiration job (every 15 minutes)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule expire_stale_check_ins() manually';
+  END IF;
+END $$;
+
+-- Clear check-ins that are already stale
+SELECT expire_stale_check_ins();
+
+-- Success message
+SELECT 'Automatic check-out added successfully!' as message;
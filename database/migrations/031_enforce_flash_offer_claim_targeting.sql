@@ -0,0 +1,159 @@
+-- Migration: Enforce Flash Offer Claim Targeting
+-- Description: Makes claim_flash_offer_atomic() honor target_favorites_only and
+-- radius_miles. The radius is measured from the user's last known location: the
+-- most recent check-in from the past 24 hours that recorded coordinates
+-- (migration 029). Users with no recent location are not restricted by radius.
+-- Requirements: Flash Offers - Claim Targeting
+
+-- ============================================================================
+-- Last Known Location
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_user_located
+  ON check_ins(user_id, checked_in_at DESC)
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION get_user_last_known_location(
+  p_user_id UUID,
+  OUT latitude DOUBLE PRECISION,
+  OUT longitude DOUBLE PRECISION
+) AS $$
+  SELECT ci.latitude, ci.longitude
+  FROM check_ins ci
+  WHERE ci.user_id = p_user_id
+  AND ci.latitude IS NOT NULL
+  AND ci.longitude IS NOT NULL
+  AND ci.checked_in_at >= NOW() - INTERVAL '24 hours'
+  ORDER BY ci.checked_in_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION get_user_last_known_location IS 'Coordinates from the user''s most recent located check-in in the past 24 hours';
+
+-- ============================================================================
+-- Atomic Claim Function
+-- ============================================================================
+
+-- Same as migration 022, plus the favorites-only and radius checks. Error
+-- messages are matched by ClaimService to return typed ineligibility reasons.
+CREATE OR REPLACE FUNCTION claim_flash_offer_atomic(
+  p_offer_id UUID,
+  p_user_id UUID,
+  p_token VARCHAR(6),
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer RECORD;
+  v_venue RECORD;
+  v_location RECORD;
+  v_distance_miles DOUBLE PRECISION;
+  v_claim RECORD;
+BEGIN
+  -- Lock the offer row for update
+  SELECT * INTO v_offer
+  FROM flash_offers
+  WHERE flash_offers.id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status != 'active' THEN
+    RAISE EXCEPTION 'Offer is not active';
+  END IF;
+
+  IF v_offer.end_time < NOW() THEN
+    RAISE EXCEPTION 'Offer has expired';
+  END IF;
+
+  IF v_offer.claimed_count >= v_offer.max_claims THEN
+    RAISE EXCEPTION 'Offer has reached maximum claims';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM flash_offer_claims
+    WHERE flash_offer_claims.offer_id = p_offer_id
+    AND flash_offer_claims.user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'User has already claimed this offer';
+  END IF;
+
+  IF v_offer.target_favorites_only AND NOT EXISTS (
+    SELECT 1 FROM favorites
+    WHERE favorites.user_id = p_user_id
+    AND favorites.venue_id = v_offer.venue_id
+  ) THEN
+    RAISE EXCEPTION 'This offer is only available to customers who have favorited this venue';
+  END IF;
+
+  SELECT latitude, longitude INTO v_venue
+  FROM venues
+  WHERE venues.id = v_offer.venue_id;
+
+  SELECT * INTO v_location FROM get_user_last_known_location(p_user_id);
+
+  -- Distance via the Haversine formula (Earth radius 3959 miles)
+  IF v_offer.radius_miles IS NOT NULL
+     AND v_location.latitude IS NOT NULL
+     AND v_venue.latitude IS NOT NULL AND v_venue.longitude IS NOT NULL THEN
+    v_distance_miles := 2 * 3959 * asin(sqrt(
+      power(sin(radians(v_venue.latitude::DOUBLE PRECISION - v_location.latitude) / 2), 2) +
+      cos(radians(v_location.latitude)) * cos(radians(v_venue.latitude::DOUBLE PRECISION)) *
+      power(sin(radians(v_venue.longitude::DOUBLE PRECISION - v_location.longitude) / 2), 2)
+    ));
+
+    IF v_distance_miles > v_offer.radius_miles THEN
+      RAISE EXCEPTION 'You are outside this offer''s radius';
+    END IF;
+  END IF;
+
+  -- Create the claim (NOT incrementing claimed_count)
+  INSERT INTO flash_offer_claims (
+    offer_id,
+    user_id,
+    token,
+    expires_at,
+    status
+  ) VALUES (
+    p_offer_id,
+    p_user_id,
+    p_token,
+    p_expires_at,
+    'active'
+  )
+  RETURNING * INTO v_claim;
+
+  RETURN QUERY
+  SELECT
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+-- Success message
+SELECT 'Flash offer claim targeting enforced successfully!' as message;
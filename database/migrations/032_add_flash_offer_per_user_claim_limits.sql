@@ -0,0 +1,191 @@
+-- Migration: Add Per-User Flash Offer Claim Limits
+-- Description: Lets venues cap how many claims a user can make across the venue's
+-- offers in a rolling week, and restrict an offer to first-time visitors or to
+-- returning customers with a minimum number of visits. Visits are check-ins at
+-- the venue, including the active one the user claims from.
+-- Requirements: Flash Offers - Per-User Claim Limits
+
+-- ============================================================================
+-- Offer Settings
+-- ============================================================================
+
+ALTER TABLE flash_offers
+  ADD COLUMN IF NOT EXISTS max_claims_per_user_per_week INTEGER
+    CHECK (max_claims_per_user_per_week IS NULL OR max_claims_per_user_per_week BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS visitor_audience VARCHAR(20) NOT NULL DEFAULT 'all'
+    CHECK (visitor_audience IN ('all', 'first_time', 'returning')),
+  ADD COLUMN IF NOT EXISTS min_visit_count INTEGER
+    CHECK (min_visit_count IS NULL OR min_visit_count BETWEEN 2 AND 100);
+
+COMMENT ON COLUMN flash_offers.max_claims_per_user_per_week IS 'Max claims per user across all of the venue''s offers in the past 7 days (NULL = no limit)';
+COMMENT ON COLUMN flash_offers.visitor_audience IS 'Who can claim: all, first_time (first visit) or returning (at least min_visit_count visits)';
+COMMENT ON COLUMN flash_offers.min_visit_count IS 'Minimum visits for returning-customer offers, including the current visit (default 2)';
+
+CREATE INDEX IF NOT EXISTS idx_flash_offer_claims_user_created
+  ON flash_offer_claims(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_user_venue
+  ON check_ins(user_id, venue_id);
+
+-- ============================================================================
+-- Atomic Claim Function
+-- ============================================================================
+
+-- Same as migration 031, plus the audience and weekly limit checks
+CREATE OR REPLACE FUNCTION claim_flash_offer_atomic(
+  p_offer_id UUID,
+  p_user_id UUID,
+  p_token VARCHAR(6),
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer RECORD;
+  v_venue RECORD;
+  v_location RECORD;
+  v_distance_miles DOUBLE PRECISION;
+  v_visit_count INTEGER;
+  v_weekly_claims INTEGER;
+  v_claim RECORD;
+BEGIN
+  -- Lock the offer row for update
+  SELECT * INTO v_offer
+  FROM flash_offers
+  WHERE flash_offers.id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status != 'active' THEN
+    RAISE EXCEPTION 'Offer is not active';
+  END IF;
+
+  IF v_offer.end_time < NOW() THEN
+    RAISE EXCEPTION 'Offer has expired';
+  END IF;
+
+  IF v_offer.claimed_count >= v_offer.max_claims THEN
+    RAISE EXCEPTION 'Offer has reached maximum claims';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM flash_offer_claims
+    WHERE flash_offer_claims.offer_id = p_offer_id
+    AND flash_offer_claims.user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'User has already claimed this offer';
+  END IF;
+
+  IF v_offer.target_favorites_only AND NOT EXISTS (
+    SELECT 1 FROM favorites
+    WHERE favorites.user_id = p_user_id
+    AND favorites.venue_id = v_offer.venue_id
+  ) THEN
+    RAISE EXCEPTION 'This offer is only available to customers who have favorited this venue';
+  END IF;
+
+  SELECT latitude, longitude INTO v_venue
+  FROM venues
+  WHERE venues.id = v_offer.venue_id;
+
+  SELECT * INTO v_location FROM get_user_last_known_location(p_user_id);
+
+  -- Distance via the Haversine formula (Earth radius 3959 miles)
+  IF v_offer.radius_miles IS NOT NULL
+     AND v_location.latitude IS NOT NULL
+     AND v_venue.latitude IS NOT NULL AND v_venue.longitude IS NOT NULL THEN
+    v_distance_miles := 2 * 3959 * asin(sqrt(
+      power(sin(radians(v_venue.latitude::DOUBLE PRECISION - v_location.latitude) / 2), 2) +
+      cos(radians(v_location.latitude)) * cos(radians(v_venue.latitude::DOUBLE PRECISION)) *
+      power(sin(radians(v_venue.longitude::DOUBLE PRECISION - v_location.longitude) / 2), 2)
+    ));
+
+    IF v_distance_miles > v_offer.radius_miles THEN
+      RAISE EXCEPTION 'You are outside this offer''s radius';
+    END IF;
+  END IF;
+
+  -- Visits include the active check-in the user claims from, so a first-time
+  -- visitor has exactly one
+  IF v_offer.visitor_audience != 'all' THEN
+    SELECT COUNT(*) INTO v_visit_count
+    FROM check_ins
+    WHERE check_ins.user_id = p_user_id
+    AND check_ins.venue_id = v_offer.venue_id;
+
+    IF v_offer.visitor_audience = 'first_time' AND v_visit_count > 1 THEN
+      RAISE EXCEPTION 'This offer is only available to first-time visitors';
+    END IF;
+
+    IF v_offer.visitor_audience = 'returning' AND v_visit_count < COALESCE(v_offer.min_visit_count, 2) THEN
+      RAISE EXCEPTION 'This offer is only available to returning customers';
+    END IF;
+  END IF;
+
+  IF v_offer.max_claims_per_user_per_week IS NOT NULL THEN
+    -- Serialize this user's claims at the venue so concurrent claims on
+    -- different offers can't both slip under the limit
+    PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || v_offer.venue_id::TEXT));
+
+    SELECT COUNT(*) INTO v_weekly_claims
+    FROM flash_offer_claims c
+    JOIN flash_offers o ON o.id = c.offer_id
+    WHERE c.user_id = p_user_id
+    AND o.venue_id = v_offer.venue_id
+    AND c.created_at >= NOW() - INTERVAL '7 days';
+
+    IF v_weekly_claims >= v_offer.max_claims_per_user_per_week THEN
+      RAISE EXCEPTION 'You have reached this venue''s weekly claim limit';
+    END IF;
+  END IF;
+
+  -- Create the claim (NOT incrementing claimed_count)
+  INSERT INTO flash_offer_claims (
+    offer_id,
+    user_id,
+    token,
+    expires_at,
+    status
+  ) VALUES (
+    p_offer_id,
+    p_user_id,
+    p_token,
+    p_expires_at,
+    'active'
+  )
+  RETURNING * INTO v_claim;
+
+  RETURN QUERY
+  SELECT
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+-- Success message
+SELECT 'Flash offer per-user claim limits added successfully!' as message;
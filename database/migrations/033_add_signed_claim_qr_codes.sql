@@ -0,0 +1,159 @@
+-- Migration: Add Signed Claim QR Codes
+-- Description: Lets customers show a QR code for a claim instead of reading out
+-- the 6-digit token. The QR payload is signed server-side and expires after 30
+-- seconds, so the app fetches a new one continuously and a screenshot stops
+-- working almost immediately. Venue staff scan (or paste) the payload and the
+-- signature, expiry and venue are checked here before the claim is redeemed.
+-- The numeric token remains as a fallback.
+-- Requirements: Flash Offers - QR Code Redemption
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================================================
+-- Signing Key
+-- ============================================================================
+
+-- RLS is enabled with no policies, so the key is only readable by the
+-- SECURITY DEFINER functions below
+CREATE TABLE IF NOT EXISTS claim_qr_signing_keys (
+  id SERIAL PRIMARY KEY,
+  secret BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE claim_qr_signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO claim_qr_signing_keys (secret)
+SELECT gen_random_bytes(32)
+WHERE NOT EXISTS (SELECT 1 FROM claim_qr_signing_keys);
+
+COMMENT ON TABLE claim_qr_signing_keys IS 'HMAC key for claim QR payloads; the newest row is used';
+
+-- ============================================================================
+-- Payload Signing
+-- ============================================================================
+
+-- Payload format: otw1.<claim_id>.<offer_id>.<expires_epoch>.<nonce>.<signature>
+-- where signature is the hex HMAC-SHA256 of everything before it
+CREATE OR REPLACE FUNCTION sign_claim_qr_message(p_message TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(hmac(p_message::BYTEA, k.secret, 'sha256'), 'hex')
+  FROM claim_qr_signing_keys k
+  ORDER BY k.id DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Only issue_claim_qr_payload and verify_claim_qr_payload may sign; a caller
+-- who could sign arbitrary messages could mint codes that never expire
+REVOKE ALL ON FUNCTION sign_claim_qr_message(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Issue a fresh QR payload for the caller's active claim
+CREATE OR REPLACE FUNCTION issue_claim_qr_payload(p_claim_id UUID)
+RETURNS TABLE (
+  payload TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_expires_at TIMESTAMPTZ;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id;
+
+  IF NOT FOUND OR v_claim.user_id != auth.uid() THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status != 'active' OR v_claim.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Claim is no longer active';
+  END IF;
+
+  v_expires_at := LEAST(NOW() + INTERVAL '30 seconds', v_claim.expires_at);
+  v_message := 'otw1.' || v_claim.id || '.' || v_claim.offer_id || '.' ||
+    floor(extract(epoch FROM v_expires_at))::BIGINT || '.' ||
+    encode(gen_random_bytes(8), 'hex');
+
+  RETURN QUERY
+  SELECT v_message || '.' || sign_claim_qr_message(v_message), v_expires_at;
+END;
+$$;
+
+COMMENT ON FUNCTION issue_claim_qr_payload IS 'Signed QR payload for the caller''s active claim, valid for 30 seconds';
+
+-- ============================================================================
+-- Payload Verification
+-- ============================================================================
+
+-- Verify a scanned payload for the caller's venue and return the claim.
+-- Allows 5 seconds past expiry for the time between scanning and verifying.
+CREATE OR REPLACE FUNCTION verify_claim_qr_payload(
+  p_payload TEXT,
+  p_venue_id UUID
+)
+RETURNS SETOF flash_offer_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_parts TEXT[];
+  v_claim_id UUID;
+  v_offer_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_venue_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE venue_business_accounts.venue_id = p_venue_id
+    AND venue_business_accounts.owner_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to redeem claims for this venue';
+  END IF;
+
+  v_parts := string_to_array(trim(p_payload), '.');
+
+  IF array_length(v_parts, 1) != 6 OR v_parts[1] != 'otw1'
+     OR v_parts[4] !~ '^[0-9]+$'
+     OR sign_claim_qr_message(array_to_string(v_parts[1:5], '.')) != v_parts[6] THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  BEGIN
+    v_claim_id := v_parts[2]::UUID;
+    v_offer_id := v_parts[3]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END;
+
+  v_expires_at := to_timestamp(v_parts[4]::BIGINT);
+
+  IF v_expires_at + INTERVAL '5 seconds' < NOW() THEN
+    RAISE EXCEPTION 'QR code has expired';
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_offer_id;
+
+  IF v_venue_id IS DISTINCT FROM p_venue_id THEN
+    RAISE EXCEPTION 'QR code is for a different venue';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = v_claim_id
+  AND flash_offer_claims.offer_id = v_offer_id;
+END;
+$$;
+
+COMMENT ON FUNCTION verify_claim_qr_payload IS 'Checks a claim QR payload''s signature, expiry and venue and returns the claim';
+
+-- Success message
+SELECT 'Signed claim QR codes added successfully!' as message;
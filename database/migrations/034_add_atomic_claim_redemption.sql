@@ -0,0 +1,331 @@
+-- Migration: Add Atomic Claim Redemption
+-- Description: Moves claim redemption into a single database function. The
+-- function locks the claim row, checks that the caller manages the offer's
+-- venue, and writes a claim_redemption_events row for every attempt, including
+-- failed ones (device, time, outcome and failure reason). A venue manager can
+-- reverse a mistaken redemption within 10 minutes; reversals are audited too.
+-- Claims can no longer be updated directly by anyone.
+-- Requirements: Flash Offers - Auditable Redemption
+
+-- ============================================================================
+-- Redemption Audit Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS claim_redemption_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_id UUID NOT NULL REFERENCES flash_offer_claims(id) ON DELETE CASCADE,
+  offer_id UUID REFERENCES flash_offers(id) ON DELETE CASCADE,
+  venue_id UUID REFERENCES venues(id) ON DELETE CASCADE,
+  staff_user_id UUID NOT NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('redeem', 'reverse')),
+  outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('success', 'failed')),
+  failure_reason VARCHAR(30) CHECK (failure_reason IN (
+    'claim_not_found',
+    'not_authorized',
+    'already_redeemed',
+    'expired',
+    'not_redeemed',
+    'undo_window_passed'
+  )),
+  reversal_note TEXT,
+  device_info TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT failure_reason_matches_outcome CHECK (
+    (outcome = 'success' AND failure_reason IS NULL) OR
+    (outcome = 'failed' AND failure_reason IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_redemption_events_claim ON claim_redemption_events(claim_id);
+CREATE INDEX IF NOT EXISTS idx_claim_redemption_events_venue_created ON claim_redemption_events(venue_id, created_at DESC);
+
+COMMENT ON TABLE claim_redemption_events IS 'Audit log of claim redemption and reversal attempts';
+COMMENT ON COLUMN claim_redemption_events.staff_user_id IS 'Venue account user who made the attempt';
+COMMENT ON COLUMN claim_redemption_events.failure_reason IS 'Why a failed attempt was rejected (NULL on success)';
+COMMENT ON COLUMN claim_redemption_events.reversal_note IS 'Optional explanation given when reversing a redemption';
+COMMENT ON COLUMN claim_redemption_events.device_info IS 'Client-reported device description, e.g. "ios 17.4"';
+
+ALTER TABLE claim_redemption_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+DROP POLICY IF EXISTS "Venue owners can view redemption events" ON claim_redemption_events;
+CREATE POLICY "Venue owners can view redemption events"
+  ON claim_redemption_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM venue_business_accounts
+      WHERE venue_business_accounts.venue_id = claim_redemption_events.venue_id
+      AND venue_business_accounts.owner_user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- Claim RLS
+-- ============================================================================
+
+-- Claims only change through the claim, redeem and reverse functions, so
+-- there is no UPDATE policy. "Users can update claims" let venue owners and
+-- claimants set status, redeemed_at and expires_at directly.
+DROP POLICY IF EXISTS "Venue staff can update claims for their offers" ON flash_offer_claims;
+DROP POLICY IF EXISTS "Users can update claims" ON flash_offer_claims;
+
+-- ============================================================================
+-- Redeem Claim
+-- ============================================================================
+
+-- Failures are returned rather than raised so the audit row is kept.
+-- Claim columns are NULL when the claim doesn't exist or isn't visible to the caller.
+CREATE OR REPLACE FUNCTION redeem_claim_atomic(
+  p_claim_id UUID,
+  p_device_info TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  outcome VARCHAR(10),
+  failure_reason VARCHAR(30),
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_venue_id UUID;
+  v_failure VARCHAR(30);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the claim row so concurrent redemptions queue up behind this one
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Nothing to reference, so there is no audit row for unknown claims
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), 'claim_not_found'::VARCHAR(30),
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_claim.offer_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE venue_business_accounts.venue_id = v_venue_id
+    AND venue_business_accounts.owner_user_id = auth.uid()
+  ) THEN
+    v_failure := 'not_authorized';
+  ELSIF v_claim.status = 'redeemed' THEN
+    v_failure := 'already_redeemed';
+  ELSIF v_claim.status = 'expired' OR v_claim.expires_at < NOW() THEN
+    v_failure := 'expired';
+  END IF;
+
+  IF v_failure IS NULL THEN
+    UPDATE flash_offer_claims
+    SET
+      status = 'redeemed',
+      redeemed_at = NOW(),
+      redeemed_by_user_id = auth.uid(),
+      updated_at = NOW()
+    WHERE flash_offer_claims.id = p_claim_id
+    RETURNING * INTO v_claim;
+  END IF;
+
+  INSERT INTO claim_redemption_events (
+    claim_id, offer_id, venue_id, staff_user_id, action, outcome, failure_reason, device_info
+  ) VALUES (
+    p_claim_id,
+    v_claim.offer_id,
+    v_venue_id,
+    auth.uid(),
+    'redeem',
+    CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END,
+    v_failure,
+    p_device_info
+  );
+
+  -- Don't expose claim details to accounts that don't manage the venue
+  IF v_failure = 'not_authorized' THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), v_failure,
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END)::VARCHAR(10),
+    v_failure,
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION redeem_claim_atomic IS 'Redeems a claim for the caller''s venue and records the attempt in claim_redemption_events';
+
+-- ============================================================================
+-- Reverse Redemption
+-- ============================================================================
+
+-- Puts a claim redeemed by mistake back to active within 10 minutes of
+-- redemption, removes its redeem analytics event and takes it back out of the
+-- offer's claimed_count
+CREATE OR REPLACE FUNCTION reverse_claim_redemption(
+  p_claim_id UUID,
+  p_note TEXT DEFAULT NULL,
+  p_device_info TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  outcome VARCHAR(10),
+  failure_reason VARCHAR(30),
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_venue_id UUID;
+  v_failure VARCHAR(30);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), 'claim_not_found'::VARCHAR(30),
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_claim.offer_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE venue_business_accounts.venue_id = v_venue_id
+    AND venue_business_accounts.owner_user_id = auth.uid()
+  ) THEN
+    v_failure := 'not_authorized';
+  ELSIF v_claim.status != 'redeemed' THEN
+    v_failure := 'not_redeemed';
+  ELSIF v_claim.redeemed_at < NOW() - INTERVAL '10 minutes' THEN
+    v_failure := 'undo_window_passed';
+  END IF;
+
+  IF v_failure IS NULL THEN
+    UPDATE flash_offer_claims
+    SET
+      status = 'active',
+      redeemed_at = NULL,
+      redeemed_by_user_id = NULL,
+      updated_at = NOW()
+    WHERE flash_offer_claims.id = p_claim_id
+    RETURNING * INTO v_claim;
+
+    DELETE FROM flash_offer_events
+    WHERE flash_offer_events.event_type = 'redeem'
+    AND flash_offer_events.metadata->>'claim_id' = p_claim_id::TEXT;
+
+    -- Undo the redemption trigger's count, reopening the offer if that
+    -- redemption filled it
+    UPDATE flash_offers
+    SET
+      claimed_count = GREATEST(flash_offers.claimed_count - 1, 0),
+      status = CASE
+        WHEN flash_offers.status = 'full' AND flash_offers.claimed_count - 1 < flash_offers.max_claims
+          THEN 'active'::VARCHAR(20)
+        ELSE flash_offers.status
+      END,
+      updated_at = NOW()
+    WHERE flash_offers.id = v_claim.offer_id;
+  END IF;
+
+  INSERT INTO claim_redemption_events (
+    claim_id, offer_id, venue_id, staff_user_id, action, outcome, failure_reason, reversal_note, device_info
+  ) VALUES (
+    p_claim_id,
+    v_claim.offer_id,
+    v_venue_id,
+    auth.uid(),
+    'reverse',
+    CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END,
+    v_failure,
+    p_note,
+    p_device_info
+  );
+
+  IF v_failure = 'not_authorized' THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), v_failure,
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END)::VARCHAR(10),
+    v_failure,
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION reverse_claim_redemption IS 'Reverses a redemption within 10 minutes and records the attempt in claim_redemption_events';
+
+-- Success message
+SELECT 'Atomic claim redemption added successfully!' as message;
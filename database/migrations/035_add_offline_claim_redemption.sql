@@ -0,0 +1,220 @@
+-- Migration: Add Offline Claim Redemption
+-- Description: Venue staff can validate tokens against a prefetched snapshot and
+-- queue redemptions while the venue is offline. Snapshot fetches are recorded,
+-- and when the queue syncs redeem_claim_atomic is called with the time the
+-- redemption happened. That time is only accepted if the caller fetched a
+-- snapshot holding the claim beforehand, so a claim that was valid at the
+-- counter isn't rejected just because its expiry time passed before the
+-- connection came back. Claims already marked expired are always rejected,
+-- and server-side conflicts are returned as failures and audited.
+-- Requirements: Flash Offers - Offline Redemption
+
+-- ============================================================================
+-- Audit Column
+-- ============================================================================
+
+ALTER TABLE claim_redemption_events
+ADD COLUMN IF NOT EXISTS offline_redeemed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN claim_redemption_events.offline_redeemed_at IS 'When staff redeemed the claim offline (NULL for online redemptions)';
+
+-- ============================================================================
+-- Snapshots
+-- ============================================================================
+
+-- RLS is enabled with no policies, so only the SECURITY DEFINER functions
+-- below read and write snapshot fetches
+CREATE TABLE IF NOT EXISTS claim_redemption_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  staff_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_redemption_snapshots_staff
+  ON claim_redemption_snapshots(venue_id, staff_user_id, fetched_at DESC);
+
+ALTER TABLE claim_redemption_snapshots ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE claim_redemption_snapshots IS 'When staff fetched a venue''s redeemable claims for offline validation';
+
+-- Returns the venue's active, unexpired claims and records the fetch. Fetches
+-- older than a day are dropped; queued redemptions rarely take that long to sync.
+CREATE OR REPLACE FUNCTION get_offline_redemption_claims(p_venue_id UUID)
+RETURNS SETOF flash_offer_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE venue_business_accounts.venue_id = p_venue_id
+    AND venue_business_accounts.owner_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to redeem claims for this venue';
+  END IF;
+
+  DELETE FROM claim_redemption_snapshots
+  WHERE staff_user_id = auth.uid()
+  AND fetched_at < NOW() - INTERVAL '1 day';
+
+  INSERT INTO claim_redemption_snapshots (venue_id, staff_user_id)
+  VALUES (p_venue_id, auth.uid());
+
+  RETURN QUERY
+  SELECT flash_offer_claims.*
+  FROM flash_offer_claims
+  JOIN flash_offers ON flash_offers.id = flash_offer_claims.offer_id
+  WHERE flash_offers.venue_id = p_venue_id
+  AND flash_offer_claims.status = 'active'
+  AND flash_offer_claims.expires_at > NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_offline_redemption_claims(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_offline_redemption_claims IS 'Returns a venue''s redeemable claims for offline validation and records the snapshot fetch';
+
+-- ============================================================================
+-- Redeem Claim
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS redeem_claim_atomic(UUID, TEXT);
+
+-- p_redeemed_at is only used if the caller fetched a snapshot of the venue
+-- after the claim was created, before p_redeemed_at, and no more than 12
+-- hours before it (the device drops older snapshots). Otherwise the claim
+-- couldn't have been validated offline and it is redeemed now.
+CREATE OR REPLACE FUNCTION redeem_claim_atomic(
+  p_claim_id UUID,
+  p_device_info TEXT DEFAULT NULL,
+  p_redeemed_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  outcome VARCHAR(10),
+  failure_reason VARCHAR(30),
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_venue_id UUID;
+  v_failure VARCHAR(30);
+  v_redeemed_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the claim row so concurrent redemptions queue up behind this one
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Nothing to reference, so there is no audit row for unknown claims
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), 'claim_not_found'::VARCHAR(30),
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_claim.offer_id;
+
+  v_redeemed_at := NOW();
+
+  IF p_redeemed_at < NOW() AND EXISTS (
+    SELECT 1 FROM claim_redemption_snapshots
+    WHERE claim_redemption_snapshots.venue_id = v_venue_id
+    AND claim_redemption_snapshots.staff_user_id = auth.uid()
+    AND claim_redemption_snapshots.fetched_at >= v_claim.created_at
+    AND claim_redemption_snapshots.fetched_at <= p_redeemed_at
+    AND claim_redemption_snapshots.fetched_at > p_redeemed_at - INTERVAL '12 hours'
+  ) THEN
+    v_redeemed_at := p_redeemed_at;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE venue_business_accounts.venue_id = v_venue_id
+    AND venue_business_accounts.owner_user_id = auth.uid()
+  ) THEN
+    v_failure := 'not_authorized';
+  ELSIF v_claim.status = 'redeemed' THEN
+    v_failure := 'already_redeemed';
+  ELSIF v_claim.status = 'expired' OR v_claim.expires_at < v_redeemed_at THEN
+    v_failure := 'expired';
+  END IF;
+
+  IF v_failure IS NULL THEN
+    UPDATE flash_offer_claims
+    SET
+      status = 'redeemed',
+      redeemed_at = v_redeemed_at,
+      redeemed_by_user_id = auth.uid(),
+      updated_at = NOW()
+    WHERE flash_offer_claims.id = p_claim_id
+    RETURNING * INTO v_claim;
+  END IF;
+
+  INSERT INTO claim_redemption_events (
+    claim_id, offer_id, venue_id, staff_user_id, action, outcome, failure_reason, device_info, offline_redeemed_at
+  ) VALUES (
+    p_claim_id,
+    v_claim.offer_id,
+    v_venue_id,
+    auth.uid(),
+    'redeem',
+    CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END,
+    v_failure,
+    p_device_info,
+    p_redeemed_at
+  );
+
+  -- Don't expose claim details to accounts that don't manage the venue
+  IF v_failure = 'not_authorized' THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), v_failure,
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END)::VARCHAR(10),
+    v_failure,
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION redeem_claim_atomic IS 'Redeems a claim for the caller''s venue (optionally at a queued offline time) and records the attempt in claim_redemption_events';
+
+-- Success message
+SELECT 'Offline claim redemption added successfully!' as message;
@@ -0,0 +1,945 @@
+-- Migration: Add Venue Staff Roles
+-- Description: Lets several users work on one venue account. Owners and managers
+-- invite users by email or username as managers or staff, and every venue-side
+-- policy and function checks the caller's role instead of owner_user_id:
+--   staff    - look up and redeem claims
+--   manager  - staff permissions plus undoing redemptions, offers, rules, templates, analytics and review replies
+--   owner    - manager permissions plus billing and promoting/demoting managers
+-- venue_business_accounts.owner_user_id stays the billing owner and is mirrored
+-- into venue_team_members as the 'owner' row.
+-- Requirements: Venue Business Accounts - Team Management
+
+-- ============================================================================
+-- Venue Team Members Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS venue_team_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'manager', 'staff')),
+  invited_by_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_venue_team_member UNIQUE (venue_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_team_members_user ON venue_team_members(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_team_members_one_owner
+  ON venue_team_members(venue_id)
+  WHERE role = 'owner';
+
+COMMENT ON TABLE venue_team_members IS 'Users who can act for a venue, with their role';
+COMMENT ON COLUMN venue_team_members.role IS 'owner (billing), manager (offers, replies, team) or staff (redemption only)';
+COMMENT ON COLUMN venue_team_members.invited_by_user_id IS 'Team member who added this user (NULL for the owner)';
+
+CREATE OR REPLACE FUNCTION update_venue_team_members_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS venue_team_members_updated_at ON venue_team_members;
+CREATE TRIGGER venue_team_members_updated_at
+  BEFORE UPDATE ON venue_team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_venue_team_members_updated_at();
+
+-- Existing business account owners become the owner member of their venue
+INSERT INTO venue_team_members (venue_id, user_id, role)
+SELECT venue_id, owner_user_id, 'owner'
+FROM venue_business_accounts
+WHERE owner_user_id IS NOT NULL
+ON CONFLICT (venue_id, user_id) DO UPDATE SET role = 'owner';
+
+-- Keep the owner row in step with owner_user_id. When the account changes
+-- hands the previous owner is removed from the team rather than kept on it.
+CREATE OR REPLACE FUNCTION add_venue_owner_team_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM venue_team_members
+    WHERE venue_id = OLD.venue_id
+    AND role = 'owner'
+    AND user_id IS DISTINCT FROM NEW.owner_user_id;
+  END IF;
+
+  IF NEW.owner_user_id IS NOT NULL THEN
+    INSERT INTO venue_team_members (venue_id, user_id, role)
+    VALUES (NEW.venue_id, NEW.owner_user_id, 'owner')
+    ON CONFLICT (venue_id, user_id) DO UPDATE SET role = 'owner', invited_by_user_id = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS venue_business_accounts_add_owner ON venue_business_accounts;
+CREATE TRIGGER venue_business_accounts_add_owner
+  AFTER INSERT OR UPDATE OF owner_user_id ON venue_business_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION add_venue_owner_team_member();
+
+-- ============================================================================
+-- Role Checks
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION venue_role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 3
+    WHEN 'manager' THEN 2
+    WHEN 'staff' THEN 1
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- True when the caller has at least p_min_role at the venue. SECURITY DEFINER so
+-- policies on venue_team_members itself can use it without recursing.
+CREATE OR REPLACE FUNCTION has_venue_role(p_venue_id UUID, p_min_role TEXT DEFAULT 'staff')
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM venue_team_members
+    WHERE venue_team_members.venue_id = p_venue_id
+    AND venue_team_members.user_id = (select auth.uid())
+    AND venue_role_rank(venue_team_members.role) >= venue_role_rank(p_min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_venue_role(UUID, TEXT) TO authenticated;
+COMMENT ON FUNCTION has_venue_role IS 'Whether the caller is on the venue''s team with at least the given role';
+
+-- ============================================================================
+-- Team Row Level Security
+-- ============================================================================
+
+ALTER TABLE venue_team_members ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+DROP POLICY IF EXISTS "Venue team members can view their team" ON venue_team_members;
+CREATE POLICY "Venue team members can view their team"
+  ON venue_team_members FOR SELECT
+  USING (
+    user_id = (select auth.uid())
+    OR has_venue_role(venue_id, 'staff')
+  );
+
+-- ============================================================================
+-- Team Management Functions
+-- ============================================================================
+
+-- Add an existing user to the venue's team by email or username. Managers can
+-- add staff; only the owner can add managers.
+CREATE OR REPLACE FUNCTION invite_venue_team_member(
+  p_venue_id UUID,
+  p_identifier TEXT,
+  p_role TEXT DEFAULT 'staff'
+)
+RETURNS venue_team_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identifier TEXT;
+  v_user_id UUID;
+  v_member venue_team_members%ROWTYPE;
+BEGIN
+  IF p_role NOT IN ('manager', 'staff') THEN
+    RAISE EXCEPTION 'Invalid team role';
+  END IF;
+
+  IF NOT has_venue_role(p_venue_id, 'manager') THEN
+    RAISE EXCEPTION 'Not authorized to manage this venue''s team';
+  END IF;
+
+  IF p_role = 'manager' AND NOT has_venue_role(p_venue_id, 'owner') THEN
+    RAISE EXCEPTION 'Only owners can add managers';
+  END IF;
+
+  v_identifier := lower(ltrim(trim(p_identifier), '@'));
+
+  SELECT profiles.id INTO v_user_id
+  FROM profiles
+  WHERE lower(profiles.email) = v_identifier
+  OR lower(profiles.username) = v_identifier
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with that email or username';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM venue_team_members
+    WHERE venue_id = p_venue_id
+    AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'User is already on this venue''s team';
+  END IF;
+
+  INSERT INTO venue_team_members (venue_id, user_id, role, invited_by_user_id)
+  VALUES (p_venue_id, v_user_id, p_role, auth.uid())
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION invite_venue_team_member(UUID, TEXT, TEXT) TO authenticated;
+COMMENT ON FUNCTION invite_venue_team_member IS 'Adds a user to a venue team by email or username';
+
+-- Only the owner changes roles, and the owner row itself can't be changed here
+CREATE OR REPLACE FUNCTION update_venue_team_member_role(
+  p_member_id UUID,
+  p_role TEXT
+)
+RETURNS venue_team_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member venue_team_members%ROWTYPE;
+BEGIN
+  IF p_role NOT IN ('manager', 'staff') THEN
+    RAISE EXCEPTION 'Invalid team role';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM venue_team_members
+  WHERE id = p_member_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT has_venue_role(v_member.venue_id, 'owner') THEN
+    RAISE EXCEPTION 'Not authorized to change this team member''s role';
+  END IF;
+
+  IF v_member.role = 'owner' THEN
+    RAISE EXCEPTION 'The owner''s role can''t be changed';
+  END IF;
+
+  UPDATE venue_team_members
+  SET role = p_role
+  WHERE id = p_member_id
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_venue_team_member_role(UUID, TEXT) TO authenticated;
+COMMENT ON FUNCTION update_venue_team_member_role IS 'Changes a team member between manager and staff (owner only)';
+
+-- The owner can remove anyone else, managers can remove staff, and any
+-- non-owner member can leave the team
+CREATE OR REPLACE FUNCTION remove_venue_team_member(p_member_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member venue_team_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member
+  FROM venue_team_members
+  WHERE id = p_member_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  IF v_member.role = 'owner' THEN
+    RAISE EXCEPTION 'The owner can''t be removed from the team';
+  END IF;
+
+  IF NOT (
+    v_member.user_id = auth.uid()
+    OR has_venue_role(v_member.venue_id, 'owner')
+    OR (v_member.role = 'staff' AND has_venue_role(v_member.venue_id, 'manager'))
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to remove this team member';
+  END IF;
+
+  DELETE FROM venue_team_members WHERE id = p_member_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION remove_venue_team_member(UUID) TO authenticated;
+COMMENT ON FUNCTION remove_venue_team_member IS 'Removes a team member, or lets a member leave the team';
+
+-- Team list with profile details; profiles doesn't expose email to other users.
+-- Emails are only returned to managers and the owner, who invite and remove
+-- members; staff get NULL.
+CREATE OR REPLACE FUNCTION get_venue_team(p_venue_id UUID)
+RETURNS TABLE (
+  id UUID,
+  venue_id UUID,
+  user_id UUID,
+  role VARCHAR(10),
+  invited_by_user_id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  username TEXT,
+  display_name TEXT,
+  email TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'staff') THEN
+    RAISE EXCEPTION 'Not authorized to view this venue''s team';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.venue_id,
+    m.user_id,
+    m.role,
+    m.invited_by_user_id,
+    m.created_at,
+    m.updated_at,
+    p.username::TEXT,
+    p.display_name::TEXT,
+    CASE WHEN has_venue_role(p_venue_id, 'manager') THEN p.email::TEXT END
+  FROM venue_team_members m
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.venue_id = p_venue_id
+  ORDER BY venue_role_rank(m.role) DESC, m.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_venue_team(UUID) TO authenticated;
+COMMENT ON FUNCTION get_venue_team IS 'Team members of a venue with their profile names, and emails for managers';
+
+-- ============================================================================
+-- Business Account RLS
+-- ============================================================================
+
+-- Managers and staff load their venue's account to reach the venue dashboard.
+-- They read it through this view rather than a policy on the table, so billing
+-- contact, payment method and application columns stay owner-only. The view
+-- runs with its owner's rights and filters rows by the caller's role.
+DROP POLICY IF EXISTS "Venue team members can view their business accounts" ON venue_business_accounts;
+
+CREATE OR REPLACE VIEW venue_team_business_accounts
+WITH (security_barrier) AS
+SELECT
+  id,
+  venue_id,
+  owner_user_id,
+  subscription_tier,
+  subscription_status,
+  subscription_start_date,
+  subscription_end_date,
+  push_credits_remaining,
+  push_credits_used,
+  account_status,
+  verification_status,
+  created_at,
+  updated_at
+FROM venue_business_accounts
+WHERE has_venue_role(venue_id, 'staff');
+
+REVOKE ALL ON venue_team_business_accounts FROM PUBLIC, anon;
+GRANT SELECT ON venue_team_business_accounts TO authenticated;
+
+COMMENT ON VIEW venue_team_business_accounts IS 'Business accounts of the caller''s venue teams, without billing columns';
+
+-- ============================================================================
+-- Flash Offer RLS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view offers" ON flash_offers;
+CREATE POLICY "Users can view offers"
+  ON flash_offers FOR SELECT
+  USING (
+    -- Users can view active offers
+    (status = 'active' AND (select auth.uid()) IS NOT NULL) OR
+    -- Venue team members can view all of their venue's offers
+    has_venue_role(venue_id, 'staff')
+  );
+
+DROP POLICY IF EXISTS "Venue owners can create offers" ON flash_offers;
+DROP POLICY IF EXISTS "Venue managers can create offers" ON flash_offers;
+CREATE POLICY "Venue managers can create offers"
+  ON flash_offers FOR INSERT
+  WITH CHECK (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can update their own offers" ON flash_offers;
+DROP POLICY IF EXISTS "Venue managers can update offers" ON flash_offers;
+CREATE POLICY "Venue managers can update offers"
+  ON flash_offers FOR UPDATE
+  USING (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can delete their own offers" ON flash_offers;
+DROP POLICY IF EXISTS "Venue managers can delete offers" ON flash_offers;
+CREATE POLICY "Venue managers can delete offers"
+  ON flash_offers FOR DELETE
+  USING (has_venue_role(venue_id, 'manager'));
+
+-- ============================================================================
+-- Claim and Event RLS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view claims" ON flash_offer_claims;
+CREATE POLICY "Users can view claims"
+  ON flash_offer_claims FOR SELECT
+  USING (
+    -- Users can view their own claims
+    (select auth.uid()) = user_id OR
+    -- Venue team members can view claims for their offers
+    EXISTS (
+      SELECT 1 FROM flash_offers fo
+      WHERE fo.id = flash_offer_claims.offer_id
+      AND has_venue_role(fo.venue_id, 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view events" ON flash_offer_events;
+CREATE POLICY "Users can view events"
+  ON flash_offer_events FOR SELECT
+  USING (
+    -- Users can view their own events
+    (select auth.uid()) = user_id OR
+    -- Venue managers can view events for their offers
+    EXISTS (
+      SELECT 1 FROM flash_offers fo
+      WHERE fo.id = flash_offer_events.offer_id
+      AND has_venue_role(fo.venue_id, 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Venue owners can view redemption events" ON claim_redemption_events;
+DROP POLICY IF EXISTS "Venue managers can view redemption events" ON claim_redemption_events;
+CREATE POLICY "Venue managers can view redemption events"
+  ON claim_redemption_events FOR SELECT
+  USING (has_venue_role(venue_id, 'manager'));
+
+-- ============================================================================
+-- Rule, Template and Recurrence RLS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Venue owners can view their flash offer rules" ON flash_offer_rules;
+DROP POLICY IF EXISTS "Venue owners can create flash offer rules" ON flash_offer_rules;
+DROP POLICY IF EXISTS "Venue owners can update their flash offer rules" ON flash_offer_rules;
+DROP POLICY IF EXISTS "Venue owners can delete their flash offer rules" ON flash_offer_rules;
+DROP POLICY IF EXISTS "Venue managers can manage flash offer rules" ON flash_offer_rules;
+CREATE POLICY "Venue managers can manage flash offer rules"
+  ON flash_offer_rules FOR ALL
+  USING (has_venue_role(venue_id, 'manager'))
+  WITH CHECK (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can view their rule firings" ON flash_offer_rule_firings;
+DROP POLICY IF EXISTS "Venue managers can view rule firings" ON flash_offer_rule_firings;
+CREATE POLICY "Venue managers can view rule firings"
+  ON flash_offer_rule_firings FOR SELECT
+  USING (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can manage their offer templates" ON flash_offer_templates;
+DROP POLICY IF EXISTS "Venue managers can manage offer templates" ON flash_offer_templates;
+CREATE POLICY "Venue managers can manage offer templates"
+  ON flash_offer_templates FOR ALL
+  USING (has_venue_role(venue_id, 'manager'))
+  WITH CHECK (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can manage their offer recurrences" ON flash_offer_recurrences;
+DROP POLICY IF EXISTS "Venue managers can manage offer recurrences" ON flash_offer_recurrences;
+CREATE POLICY "Venue managers can manage offer recurrences"
+  ON flash_offer_recurrences FOR ALL
+  USING (has_venue_role(venue_id, 'manager'))
+  WITH CHECK (has_venue_role(venue_id, 'manager'));
+
+-- ============================================================================
+-- Review Response RLS
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Venue owners can create responses" ON venue_responses;
+DROP POLICY IF EXISTS "Venue managers can create responses" ON venue_responses;
+CREATE POLICY "Venue managers can create responses"
+  ON venue_responses FOR INSERT
+  WITH CHECK (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can update responses" ON venue_responses;
+DROP POLICY IF EXISTS "Venue managers can update responses" ON venue_responses;
+CREATE POLICY "Venue managers can update responses"
+  ON venue_responses FOR UPDATE
+  USING (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue owners can delete responses" ON venue_responses;
+DROP POLICY IF EXISTS "Venue managers can delete responses" ON venue_responses;
+CREATE POLICY "Venue managers can delete responses"
+  ON venue_responses FOR DELETE
+  USING (has_venue_role(venue_id, 'manager'));
+
+-- ============================================================================
+-- Claim Redemption Functions
+-- ============================================================================
+-- Same as before apart from the venue check: staff can verify and redeem,
+-- and undoing a redemption stays with managers
+
+-- Verify a scanned payload for the caller's venue and return the claim.
+-- Allows 5 seconds past expiry for the time between scanning and verifying.
+CREATE OR REPLACE FUNCTION verify_claim_qr_payload(
+  p_payload TEXT,
+  p_venue_id UUID
+)
+RETURNS SETOF flash_offer_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_parts TEXT[];
+  v_claim_id UUID;
+  v_offer_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_venue_id UUID;
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'staff') THEN
+    RAISE EXCEPTION 'Not authorized to redeem claims for this venue';
+  END IF;
+
+  v_parts := string_to_array(trim(p_payload), '.');
+
+  IF array_length(v_parts, 1) != 6 OR v_parts[1] != 'otw1'
+     OR v_parts[4] !~ '^[0-9]+$'
+     OR sign_claim_qr_message(array_to_string(v_parts[1:5], '.')) != v_parts[6] THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END IF;
+
+  BEGIN
+    v_claim_id := v_parts[2]::UUID;
+    v_offer_id := v_parts[3]::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Invalid QR code';
+  END;
+
+  v_expires_at := to_timestamp(v_parts[4]::BIGINT);
+
+  IF v_expires_at + INTERVAL '5 seconds' < NOW() THEN
+    RAISE EXCEPTION 'QR code has expired';
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_offer_id;
+
+  IF v_venue_id IS DISTINCT FROM p_venue_id THEN
+    RAISE EXCEPTION 'QR code is for a different venue';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = v_claim_id
+  AND flash_offer_claims.offer_id = v_offer_id;
+END;
+$$;
+
+COMMENT ON FUNCTION verify_claim_qr_payload IS 'Checks a claim QR payload''s signature, expiry and venue and returns the claim';
+
+-- Returns the venue's active, unexpired claims and records the fetch
+CREATE OR REPLACE FUNCTION get_offline_redemption_claims(p_venue_id UUID)
+RETURNS SETOF flash_offer_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'staff') THEN
+    RAISE EXCEPTION 'Not authorized to redeem claims for this venue';
+  END IF;
+
+  DELETE FROM claim_redemption_snapshots
+  WHERE staff_user_id = auth.uid()
+  AND fetched_at < NOW() - INTERVAL '1 day';
+
+  INSERT INTO claim_redemption_snapshots (venue_id, staff_user_id)
+  VALUES (p_venue_id, auth.uid());
+
+  RETURN QUERY
+  SELECT flash_offer_claims.*
+  FROM flash_offer_claims
+  JOIN flash_offers ON flash_offers.id = flash_offer_claims.offer_id
+  WHERE flash_offers.venue_id = p_venue_id
+  AND flash_offer_claims.status = 'active'
+  AND flash_offer_claims.expires_at > NOW();
+END;
+$$;
+
+COMMENT ON FUNCTION get_offline_redemption_claims IS 'Returns a venue''s redeemable claims for offline validation and records the snapshot fetch';
+
+-- p_redeemed_at is only used if the caller fetched a snapshot of the venue
+-- after the claim was created, before p_redeemed_at, and no more than 12
+-- hours before it (the device drops older snapshots). Otherwise the claim
+-- couldn't have been validated offline and it is redeemed now.
+CREATE OR REPLACE FUNCTION redeem_claim_atomic(
+  p_claim_id UUID,
+  p_device_info TEXT DEFAULT NULL,
+  p_redeemed_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  outcome VARCHAR(10),
+  failure_reason VARCHAR(30),
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_venue_id UUID;
+  v_failure VARCHAR(30);
+  v_redeemed_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the claim row so concurrent redemptions queue up behind this one
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Nothing to reference, so there is no audit row for unknown claims
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), 'claim_not_found'::VARCHAR(30),
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_claim.offer_id;
+
+  v_redeemed_at := NOW();
+
+  IF p_redeemed_at < NOW() AND EXISTS (
+    SELECT 1 FROM claim_redemption_snapshots
+    WHERE claim_redemption_snapshots.venue_id = v_venue_id
+    AND claim_redemption_snapshots.staff_user_id = auth.uid()
+    AND claim_redemption_snapshots.fetched_at >= v_claim.created_at
+    AND claim_redemption_snapshots.fetched_at <= p_redeemed_at
+    AND claim_redemption_snapshots.fetched_at > p_redeemed_at - INTERVAL '12 hours'
+  ) THEN
+    v_redeemed_at := p_redeemed_at;
+  END IF;
+
+  IF NOT has_venue_role(v_venue_id, 'staff') THEN
+    v_failure := 'not_authorized';
+  ELSIF v_claim.status = 'redeemed' THEN
+    v_failure := 'already_redeemed';
+  ELSIF v_claim.status = 'expired' OR v_claim.expires_at < v_redeemed_at THEN
+    v_failure := 'expired';
+  END IF;
+
+  IF v_failure IS NULL THEN
+    UPDATE flash_offer_claims
+    SET
+      status = 'redeemed',
+      redeemed_at = v_redeemed_at,
+      redeemed_by_user_id = auth.uid(),
+      updated_at = NOW()
+    WHERE flash_offer_claims.id = p_claim_id
+    RETURNING * INTO v_claim;
+  END IF;
+
+  INSERT INTO claim_redemption_events (
+    claim_id, offer_id, venue_id, staff_user_id, action, outcome, failure_reason, device_info, offline_redeemed_at
+  ) VALUES (
+    p_claim_id,
+    v_claim.offer_id,
+    v_venue_id,
+    auth.uid(),
+    'redeem',
+    CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END,
+    v_failure,
+    p_device_info,
+    p_redeemed_at
+  );
+
+  -- Don't expose claim details to accounts that don't manage the venue
+  IF v_failure = 'not_authorized' THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), v_failure,
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END)::VARCHAR(10),
+    v_failure,
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION redeem_claim_atomic IS 'Redeems a claim for the caller''s venue (optionally at a queued offline time) and records the attempt in claim_redemption_events';
+
+-- Puts a claim redeemed by mistake back to active within 10 minutes of
+-- redemption, removes its redeem analytics event and takes it back out of the
+-- offer's claimed_count
+CREATE OR REPLACE FUNCTION reverse_claim_redemption(
+  p_claim_id UUID,
+  p_note TEXT DEFAULT NULL,
+  p_device_info TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  outcome VARCHAR(10),
+  failure_reason VARCHAR(30),
+  id UUID,
+  offer_id UUID,
+  user_id UUID,
+  token VARCHAR(6),
+  status VARCHAR(20),
+  redeemed_at TIMESTAMPTZ,
+  redeemed_by_user_id UUID,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+  v_venue_id UUID;
+  v_failure VARCHAR(30);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_claim
+  FROM flash_offer_claims
+  WHERE flash_offer_claims.id = p_claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), 'claim_not_found'::VARCHAR(30),
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT flash_offers.venue_id INTO v_venue_id
+  FROM flash_offers
+  WHERE flash_offers.id = v_claim.offer_id;
+
+  IF NOT has_venue_role(v_venue_id, 'manager') THEN
+    v_failure := 'not_authorized';
+  ELSIF v_claim.status != 'redeemed' THEN
+    v_failure := 'not_redeemed';
+  ELSIF v_claim.redeemed_at < NOW() - INTERVAL '10 minutes' THEN
+    v_failure := 'undo_window_passed';
+  END IF;
+
+  IF v_failure IS NULL THEN
+    UPDATE flash_offer_claims
+    SET
+      status = 'active',
+      redeemed_at = NULL,
+      redeemed_by_user_id = NULL,
+      updated_at = NOW()
+    WHERE flash_offer_claims.id = p_claim_id
+    RETURNING * INTO v_claim;
+
+    DELETE FROM flash_offer_events
+    WHERE flash_offer_events.event_type = 'redeem'
+    AND flash_offer_events.metadata->>'claim_id' = p_claim_id::TEXT;
+
+    -- Undo the redemption trigger's count, reopening the offer if that
+    -- redemption filled it
+    UPDATE flash_offers
+    SET
+      claimed_count = GREATEST(flash_offers.claimed_count - 1, 0),
+      status = CASE
+        WHEN flash_offers.status = 'full' AND flash_offers.claimed_count - 1 < flash_offers.max_claims
+          THEN 'active'::VARCHAR(20)
+        ELSE flash_offers.status
+      END,
+      updated_at = NOW()
+    WHERE flash_offers.id = v_claim.offer_id;
+  END IF;
+
+  INSERT INTO claim_redemption_events (
+    claim_id, offer_id, venue_id, staff_user_id, action, outcome, failure_reason, reversal_note, device_info
+  ) VALUES (
+    p_claim_id,
+    v_claim.offer_id,
+    v_venue_id,
+    auth.uid(),
+    'reverse',
+    CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END,
+    v_failure,
+    p_note,
+    p_device_info
+  );
+
+  IF v_failure = 'not_authorized' THEN
+    RETURN QUERY
+    SELECT 'failed'::VARCHAR(10), v_failure,
+      NULL::UUID, NULL::UUID, NULL::UUID, NULL::VARCHAR(6), NULL::VARCHAR(20),
+      NULL::TIMESTAMPTZ, NULL::UUID, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (CASE WHEN v_failure IS NULL THEN 'success' ELSE 'failed' END)::VARCHAR(10),
+    v_failure,
+    v_claim.id,
+    v_claim.offer_id,
+    v_claim.user_id,
+    v_claim.token,
+    v_claim.status,
+    v_claim.redeemed_at,
+    v_claim.redeemed_by_user_id,
+    v_claim.expires_at,
+    v_claim.created_at,
+    v_claim.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION reverse_claim_redemption IS 'Reverses a redemption within 10 minutes and records the attempt in claim_redemption_events';
+
+-- ============================================================================
+-- Recurrence Functions
+-- ============================================================================
+-- Managers can materialize their recurrences. Rules need no change here:
+-- evaluate_flash_offer_rules runs as a scheduled job, not as a team member.
+
+-- Create scheduled flash_offers rows for upcoming occurrences of active recurrences.
+-- Pass a recurrence ID to materialize a single recurrence (venue managers, right after
+-- creating it) or NULL to materialize all of them (scheduled job only).
+-- p_days_ahead is capped at 14 days.
+CREATE OR REPLACE FUNCTION materialize_flash_offer_recurrences(
+  p_recurrence_id UUID DEFAULT NULL,
+  p_days_ahead INTEGER DEFAULT 7
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rec RECORD;
+  v_today DATE;
+  v_date DATE;
+  v_last DATE;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_created_for_rec INTEGER;
+  v_inserted INTEGER;
+  v_total_created INTEGER := 0;
+  v_days_ahead INTEGER := LEAST(GREATEST(COALESCE(p_days_ahead, 7), 0), 14);
+BEGIN
+  IF p_recurrence_id IS NULL AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Not authorized to materialize every recurrence';
+  END IF;
+
+  IF p_recurrence_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM flash_offer_recurrences r
+    WHERE r.id = p_recurrence_id
+    AND has_venue_role(r.venue_id, 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to materialize this recurrence';
+  END IF;
+
+  FOR v_rec IN
+    SELECT r.*, t.title, t.description, t.claim_value, t.max_claims,
+           t.radius_miles, t.target_favorites_only, t.duration_minutes
+    FROM flash_offer_recurrences r
+    JOIN flash_offer_templates t ON t.id = r.template_id
+    WHERE r.is_active = true
+    AND (p_recurrence_id IS NULL OR r.id = p_recurrence_id)
+    FOR UPDATE OF r
+  LOOP
+    v_today := (NOW() AT TIME ZONE v_rec.timezone)::DATE;
+    v_date := GREATEST(v_rec.starts_on, v_today, COALESCE(v_rec.materialized_through + 1, v_rec.starts_on));
+    v_last := v_today + v_days_ahead;
+    IF v_rec.ends_on IS NOT NULL THEN
+      v_last := LEAST(v_last, v_rec.ends_on);
+    END IF;
+    v_created_for_rec := v_rec.occurrences_created;
+
+    WHILE v_date <= v_last LOOP
+      EXIT WHEN v_rec.occurrence_count IS NOT NULL AND v_created_for_rec >= v_rec.occurrence_count;
+
+      IF v_rec.frequency = 'daily' OR EXTRACT(DOW FROM v_date)::SMALLINT = ANY(v_rec.days_of_week) THEN
+        v_start := (v_date + v_rec.start_time_of_day) AT TIME ZONE v_rec.timezone;
+        v_end := v_start + make_interval(mins => v_rec.duration_minutes);
+
+        -- Occurrences that already ended today are not created
+        IF v_end > NOW() THEN
+          INSERT INTO flash_offers (
+            venue_id, title, description, claim_value, max_claims,
+            start_time, end_time, radius_miles, target_favorites_only,
+            status, recurrence_id, occurrence_date
+          ) VALUES (
+            v_rec.venue_id, v_rec.title, v_rec.description, v_rec.claim_value, v_rec.max_claims,
+            v_start, v_end, v_rec.radius_miles, v_rec.target_favorites_only,
+            CASE WHEN v_start <= NOW() THEN 'active' ELSE 'scheduled' END,
+            v_rec.id, v_date
+          )
+          ON CONFLICT (recurrence_id, occurrence_date) DO NOTHING;
+
+          GET DIAGNOSTICS v_inserted = ROW_COUNT;
+          v_created_for_rec := v_created_for_rec + v_inserted;
+          v_total_created := v_total_created + v_inserted;
+        END IF;
+      END IF;
+
+      v_date := v_date + 1;
+    END LOOP;
+
+    UPDATE flash_offer_recurrences
+    SET
+      occurrences_created = v_created_for_rec,
+      materialized_through = GREATEST(COALESCE(materialized_through, v_date - 1), v_date - 1),
+      is_active = NOT (
+        (occurrence_count IS NOT NULL AND v_created_for_rec >= occurrence_count) OR
+        (ends_on IS NOT NULL AND v_date > ends_on)
+      )
+    WHERE id = v_rec.id;
+  END LOOP;
+
+  RETURN v_total_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION materialize_flash_offer_recurrences(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION materialize_flash_offer_recurrences(UUID, INTEGER) TO authenticated;
+COMMENT ON FUNCTION materialize_flash_offer_recurrences IS 'Creates scheduled flash offers for upcoming recurrence occurrences; returns the number created';
+
+-- Success message
+SELECT 'Venue staff roles added successfully!' as message;
@@ -0,0 +1,221 @@
+-- Migration: Add Flash Offer Funnel Report
+-- Description: Tracks push opens as a flash offer event and adds a report that
+-- follows each offer from pushes delivered through opens, views, claims and
+-- redemptions to check-ins at the venue within N hours of the customer's first
+-- engagement. Engaged customers are split by new vs returning and by how far
+-- away they were when they first engaged. Check-ins during the offer window
+-- are compared with the same weekday/hour over the previous four weeks to
+-- estimate incremental visits.
+-- Requirements: Flash Offers - Conversion Funnel & Revenue Attribution
+
+-- ============================================================================
+-- Push Open Events
+-- ============================================================================
+
+ALTER TABLE flash_offer_events
+  DROP CONSTRAINT IF EXISTS flash_offer_events_event_type_check;
+
+ALTER TABLE flash_offer_events
+  ADD CONSTRAINT flash_offer_events_event_type_check
+    CHECK (event_type IN ('push_sent', 'push_open', 'view', 'claim', 'redeem'));
+
+COMMENT ON COLUMN flash_offer_events.event_type IS 'Type of event: push_sent, push_open, view, claim, redeem';
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_venue_checked_in
+  ON check_ins(venue_id, checked_in_at);
+
+-- ============================================================================
+-- Funnel Report
+-- ============================================================================
+
+-- One row per offer and customer segment. Offers without engaged customers
+-- return a single row with NULL segment columns and zero counts. Pushes are
+-- logged as a recipient count, so pushes_delivered is per offer, not per
+-- segment. A customer's distance is taken from their last located check-in in
+-- the 24 hours before they first engaged, the same location the claim radius
+-- check uses. Check-ins that happened before the first engagement (customers
+-- already at the venue) are not attributed to the offer.
+CREATE OR REPLACE FUNCTION get_flash_offer_funnel(
+  p_venue_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_check_in_window_hours INTEGER DEFAULT 3,
+  p_offer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  offer_id UUID,
+  title TEXT,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  pushes_delivered INTEGER,
+  window_check_ins INTEGER,
+  baseline_check_ins NUMERIC,
+  customer_type TEXT,
+  distance_band TEXT,
+  opens INTEGER,
+  views INTEGER,
+  claims INTEGER,
+  redemptions INTEGER,
+  attributed_check_ins INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'manager') THEN
+    RAISE EXCEPTION 'Not authorized to view this venue''s analytics';
+  END IF;
+
+  IF p_check_in_window_hours IS NULL OR p_check_in_window_hours NOT BETWEEN 1 AND 72 THEN
+    RAISE EXCEPTION 'Check-in window must be between 1 and 72 hours';
+  END IF;
+
+  RETURN QUERY
+  WITH report_offers AS (
+    SELECT o.id, o.title, o.start_time, o.end_time
+    FROM flash_offers o
+    WHERE o.venue_id = p_venue_id
+    AND o.start_time < p_to
+    AND o.end_time > p_from
+    AND (p_offer_id IS NULL OR o.id = p_offer_id)
+  ),
+  venue_location AS (
+    SELECT v.latitude::DOUBLE PRECISION AS lat, v.longitude::DOUBLE PRECISION AS lng
+    FROM venues v
+    WHERE v.id = p_venue_id
+  ),
+  pushes AS (
+    SELECT e.offer_id AS id,
+      SUM(COALESCE((e.metadata->>'recipient_count')::INTEGER, 0))::INTEGER AS delivered
+    FROM flash_offer_events e
+    JOIN report_offers ro ON ro.id = e.offer_id
+    WHERE e.event_type = 'push_sent'
+    GROUP BY e.offer_id
+  ),
+  engagement AS (
+    SELECT e.offer_id, e.user_id,
+      MIN(e.created_at) AS first_event_at,
+      BOOL_OR(e.event_type = 'push_open') AS opened,
+      BOOL_OR(e.event_type = 'view') AS viewed
+    FROM flash_offer_events e
+    JOIN report_offers ro ON ro.id = e.offer_id
+    WHERE e.user_id IS NOT NULL
+    AND e.event_type IN ('push_open', 'view', 'claim', 'redeem')
+    GROUP BY e.offer_id, e.user_id
+  ),
+  offer_claims AS (
+    SELECT c.offer_id, c.user_id, c.status, c.created_at
+    FROM flash_offer_claims c
+    JOIN report_offers ro ON ro.id = c.offer_id
+  ),
+  engaged_users AS (
+    SELECT
+      COALESCE(g.offer_id, oc.offer_id) AS offer_id,
+      COALESCE(g.user_id, oc.user_id) AS user_id,
+      LEAST(g.first_event_at, oc.created_at) AS first_engaged_at,
+      COALESCE(g.opened, FALSE) AS opened,
+      COALESCE(g.viewed, FALSE) AS viewed,
+      oc.user_id IS NOT NULL AS claimed,
+      COALESCE(oc.status = 'redeemed', FALSE) AS redeemed
+    FROM engagement g
+    FULL JOIN offer_claims oc ON oc.offer_id = g.offer_id AND oc.user_id = g.user_id
+  ),
+  segmented AS (
+    SELECT
+      eu.*,
+      CASE
+        WHEN EXISTS (
+          SELECT 1 FROM check_ins ci
+          WHERE ci.user_id = eu.user_id
+          AND ci.venue_id = p_venue_id
+          AND ci.checked_in_at < ro.start_time
+        ) THEN 'returning'
+        ELSE 'new'
+      END AS segment_customer_type,
+      CASE
+        WHEN dist.miles IS NULL THEN 'unknown'
+        WHEN dist.miles < 1 THEN 'under_1_mi'
+        WHEN dist.miles < 3 THEN '1_to_3_mi'
+        WHEN dist.miles < 5 THEN '3_to_5_mi'
+        ELSE '5_plus_mi'
+      END AS segment_distance_band,
+      EXISTS (
+        SELECT 1 FROM check_ins ci
+        WHERE ci.user_id = eu.user_id
+        AND ci.venue_id = p_venue_id
+        AND ci.checked_in_at >= eu.first_engaged_at
+        AND ci.checked_in_at < eu.first_engaged_at + make_interval(hours => p_check_in_window_hours)
+      ) AS checked_in
+    FROM engaged_users eu
+    JOIN report_offers ro ON ro.id = eu.offer_id
+    LEFT JOIN venue_location vl ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT ci.latitude, ci.longitude
+      FROM check_ins ci
+      WHERE ci.user_id = eu.user_id
+      AND ci.latitude IS NOT NULL
+      AND ci.longitude IS NOT NULL
+      AND ci.checked_in_at <= eu.first_engaged_at
+      AND ci.checked_in_at >= eu.first_engaged_at - INTERVAL '24 hours'
+      ORDER BY ci.checked_in_at DESC
+      LIMIT 1
+    ) loc ON TRUE
+    -- Distance via the Haversine formula (Earth radius 3959 miles)
+    LEFT JOIN LATERAL (
+      SELECT 2 * 3959 * asin(sqrt(
+        power(sin(radians(vl.lat - loc.latitude) / 2), 2) +
+        cos(radians(loc.latitude)) * cos(radians(vl.lat)) *
+        power(sin(radians(vl.lng - loc.longitude) / 2), 2)
+      )) AS miles
+    ) dist ON TRUE
+  ),
+  traffic AS (
+    SELECT ro.id,
+      (
+        SELECT COUNT(*) FROM check_ins ci
+        WHERE ci.venue_id = p_venue_id
+        AND ci.checked_in_at >= ro.start_time
+        AND ci.checked_in_at < ro.end_time
+      )::INTEGER AS actual,
+      -- Same weekday and hours in each of the four preceding weeks
+      (
+        SELECT COUNT(*)::NUMERIC / 4 FROM check_ins ci
+        JOIN generate_series(1, 4) AS w(weeks_back)
+          ON ci.checked_in_at >= ro.start_time - w.weeks_back * INTERVAL '7 days'
+          AND ci.checked_in_at < ro.end_time - w.weeks_back * INTERVAL '7 days'
+        WHERE ci.venue_id = p_venue_id
+      ) AS baseline
+    FROM report_offers ro
+  )
+  SELECT
+    ro.id,
+    ro.title::TEXT,
+    ro.start_time,
+    ro.end_time,
+    COALESCE(p.delivered, 0),
+    t.actual,
+    ROUND(t.baseline, 2),
+    s.segment_customer_type,
+    s.segment_distance_band,
+    (COUNT(*) FILTER (WHERE s.opened))::INTEGER,
+    (COUNT(*) FILTER (WHERE s.viewed))::INTEGER,
+    (COUNT(*) FILTER (WHERE s.claimed))::INTEGER,
+    (COUNT(*) FILTER (WHERE s.redeemed))::INTEGER,
+    (COUNT(*) FILTER (WHERE s.checked_in))::INTEGER
+  FROM report_offers ro
+  JOIN traffic t ON t.id = ro.id
+  LEFT JOIN pushes p ON p.id = ro.id
+  LEFT JOIN segmented s ON s.offer_id = ro.id
+  GROUP BY ro.id, ro.title, ro.start_time, ro.end_time, p.delivered, t.actual, t.baseline,
+    s.segment_customer_type, s.segment_distance_band
+  ORDER BY ro.start_time DESC, s.segment_customer_type, s.segment_distance_band;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_flash_offer_funnel(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, UUID) TO authenticated;
+COMMENT ON FUNCTION get_flash_offer_funnel IS 'Flash offer funnel by customer segment with check-in attribution and a four-week baseline';
+
+-- Success message
+SELECT 'Flash offer funnel report added successfully!' as message;
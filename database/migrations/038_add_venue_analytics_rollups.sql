@@ -0,0 +1,448 @@
+-- Migration: Add Venue Analytics Rollups
+-- Description: Moves venue dashboard analytics into the database. Hourly stats
+-- (check-ins, visit durations, new favorites, reviews) and per-customer daily
+-- visits are kept up to date by triggers on check_ins, favorites and reviews.
+-- get_venue_analytics returns everything the dashboard shows for any date
+-- range in one call, together with the same-length period before it for
+-- period-over-period comparison.
+-- Requirements: Venue Dashboard - Server-Side Analytics
+
+-- ============================================================================
+-- Rollup Tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS venue_hourly_stats (
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  hour_start TIMESTAMPTZ NOT NULL,
+  check_ins INTEGER NOT NULL DEFAULT 0,
+  completed_visits INTEGER NOT NULL DEFAULT 0,
+  visit_minutes BIGINT NOT NULL DEFAULT 0,
+  new_favorites INTEGER NOT NULL DEFAULT 0,
+  reviews INTEGER NOT NULL DEFAULT 0,
+  rating_sum INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (venue_id, hour_start)
+);
+
+COMMENT ON TABLE venue_hourly_stats IS 'Per-venue hourly activity rollup maintained by triggers';
+COMMENT ON COLUMN venue_hourly_stats.completed_visits IS 'Check-ins in this hour that have checked out';
+COMMENT ON COLUMN venue_hourly_stats.visit_minutes IS 'Total minutes of the completed visits';
+COMMENT ON COLUMN venue_hourly_stats.rating_sum IS 'Sum of review ratings, for averaging across hours';
+
+-- Day is the UTC date of the check-in
+CREATE TABLE IF NOT EXISTS venue_daily_visitors (
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  user_id UUID NOT NULL,
+  visits INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (venue_id, day, user_id)
+);
+
+COMMENT ON TABLE venue_daily_visitors IS 'Check-ins per customer per venue per UTC day, for unique and repeat customer counts';
+
+ALTER TABLE venue_hourly_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE venue_daily_visitors ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+DROP POLICY IF EXISTS "Venue managers can view hourly stats" ON venue_hourly_stats;
+CREATE POLICY "Venue managers can view hourly stats"
+  ON venue_hourly_stats FOR SELECT
+  USING (has_venue_role(venue_id, 'manager'));
+
+DROP POLICY IF EXISTS "Venue managers can view daily visitors" ON venue_daily_visitors;
+CREATE POLICY "Venue managers can view daily visitors"
+  ON venue_daily_visitors FOR SELECT
+  USING (has_venue_role(venue_id, 'manager'));
+
+-- ============================================================================
+-- Rollup Maintenance
+-- ============================================================================
+
+-- Add deltas to the hour containing p_at
+CREATE OR REPLACE FUNCTION bump_venue_hourly_stats(
+  p_venue_id UUID,
+  p_at TIMESTAMPTZ,
+  p_check_ins INTEGER DEFAULT 0,
+  p_completed_visits INTEGER DEFAULT 0,
+  p_visit_minutes BIGINT DEFAULT 0,
+  p_new_favorites INTEGER DEFAULT 0,
+  p_reviews INTEGER DEFAULT 0,
+  p_rating_sum INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_venue_id IS NULL OR p_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO venue_hourly_stats (
+    venue_id, hour_start, check_ins, completed_visits, visit_minutes,
+    new_favorites, reviews, rating_sum
+  ) VALUES (
+    p_venue_id, date_trunc('hour', p_at), p_check_ins, p_completed_visits, p_visit_minutes,
+    p_new_favorites, p_reviews, p_rating_sum
+  )
+  ON CONFLICT (venue_id, hour_start) DO UPDATE SET
+    check_ins = venue_hourly_stats.check_ins + EXCLUDED.check_ins,
+    completed_visits = venue_hourly_stats.completed_visits + EXCLUDED.completed_visits,
+    visit_minutes = venue_hourly_stats.visit_minutes + EXCLUDED.visit_minutes,
+    new_favorites = venue_hourly_stats.new_favorites + EXCLUDED.new_favorites,
+    reviews = venue_hourly_stats.reviews + EXCLUDED.reviews,
+    rating_sum = venue_hourly_stats.rating_sum + EXCLUDED.rating_sum;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION bump_venue_hourly_stats(UUID, TIMESTAMPTZ, INTEGER, INTEGER, BIGINT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Apply one check-in (p_sign = 1) or remove it (p_sign = -1)
+CREATE OR REPLACE FUNCTION apply_check_in_to_rollups(p_check_in check_ins, p_sign INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_completed BOOLEAN := p_check_in.checked_out_at IS NOT NULL;
+BEGIN
+  PERFORM bump_venue_hourly_stats(
+    p_check_in.venue_id,
+    p_check_in.checked_in_at,
+    p_check_ins => p_sign,
+    p_completed_visits => CASE WHEN v_completed THEN p_sign ELSE 0 END,
+    p_visit_minutes => CASE
+      WHEN v_completed
+      THEN p_sign * GREATEST(0, ROUND(EXTRACT(EPOCH FROM p_check_in.checked_out_at - p_check_in.checked_in_at) / 60))::BIGINT
+      ELSE 0
+    END
+  );
+
+  INSERT INTO venue_daily_visitors (venue_id, day, user_id, visits)
+  VALUES (p_check_in.venue_id, (p_check_in.checked_in_at AT TIME ZONE 'UTC')::DATE, p_check_in.user_id, p_sign)
+  ON CONFLICT (venue_id, day, user_id) DO UPDATE SET
+    visits = venue_daily_visitors.visits + EXCLUDED.visits;
+
+  DELETE FROM venue_daily_visitors
+  WHERE venue_id = p_check_in.venue_id
+  AND day = (p_check_in.checked_in_at AT TIME ZONE 'UTC')::DATE
+  AND user_id = p_check_in.user_id
+  AND visits <= 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_check_in_to_rollups(check_ins, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION update_check_in_rollups()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM apply_check_in_to_rollups(OLD, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM apply_check_in_to_rollups(NEW, 1);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_ins_update_rollups ON check_ins;
+CREATE TRIGGER check_ins_update_rollups
+  AFTER INSERT OR DELETE OR UPDATE OF venue_id, user_id, checked_in_at, checked_out_at ON check_ins
+  FOR EACH ROW
+  EXECUTE FUNCTION update_check_in_rollups();
+
+CREATE OR REPLACE FUNCTION update_favorite_rollups()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM bump_venue_hourly_stats(OLD.venue_id, OLD.created_at, p_new_favorites => -1);
+  ELSE
+    PERFORM bump_venue_hourly_stats(NEW.venue_id, NEW.created_at, p_new_favorites => 1);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS favorites_update_rollups ON favorites;
+CREATE TRIGGER favorites_update_rollups
+  AFTER INSERT OR DELETE ON favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_favorite_rollups();
+
+CREATE OR REPLACE FUNCTION update_review_rollups()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM bump_venue_hourly_stats(OLD.venue_id, OLD.created_at, p_reviews => -1, p_rating_sum => -OLD.rating);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM bump_venue_hourly_stats(NEW.venue_id, NEW.created_at, p_reviews => 1, p_rating_sum => NEW.rating);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reviews_update_rollups ON reviews;
+CREATE TRIGGER reviews_update_rollups
+  AFTER INSERT OR DELETE OR UPDATE OF venue_id, rating, created_at ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_review_rollups();
+
+-- Rebuild both rollups from the source tables. Run once below; can be re-run
+-- to repair drift.
+CREATE OR REPLACE FUNCTION rebuild_venue_analytics_rollups()
+RETURNS VOID AS $$
+BEGIN
+  TRUNCATE venue_hourly_stats, venue_daily_visitors;
+
+  INSERT INTO venue_hourly_stats (
+    venue_id, hour_start, check_ins, completed_visits, visit_minutes,
+    new_favorites, reviews, rating_sum
+  )
+  SELECT venue_id, hour_start,
+    SUM(check_ins), SUM(completed_visits), SUM(visit_minutes),
+    SUM(new_favorites), SUM(reviews), SUM(rating_sum)
+  FROM (
+    SELECT ci.venue_id, date_trunc('hour', ci.checked_in_at) AS hour_start,
+      1 AS check_ins,
+      CASE WHEN ci.checked_out_at IS NOT NULL THEN 1 ELSE 0 END AS completed_visits,
+      CASE
+        WHEN ci.checked_out_at IS NOT NULL
+        THEN GREATEST(0, ROUND(EXTRACT(EPOCH FROM ci.checked_out_at - ci.checked_in_at) / 60))::BIGINT
+        ELSE 0
+      END AS visit_minutes,
+      0 AS new_favorites, 0 AS reviews, 0 AS rating_sum
+    FROM check_ins ci
+    UNION ALL
+    SELECT f.venue_id, date_trunc('hour', f.created_at), 0, 0, 0, 1, 0, 0
+    FROM favorites f
+    WHERE f.created_at IS NOT NULL
+    UNION ALL
+    SELECT r.venue_id, date_trunc('hour', r.created_at), 0, 0, 0, 0, 1, r.rating
+    FROM reviews r
+  ) activity
+  WHERE venue_id IS NOT NULL
+  GROUP BY venue_id, hour_start;
+
+  INSERT INTO venue_daily_visitors (venue_id, day, user_id, visits)
+  SELECT ci.venue_id, (ci.checked_in_at AT TIME ZONE 'UTC')::DATE, ci.user_id, COUNT(*)
+  FROM check_ins ci
+  GROUP BY ci.venue_id, (ci.checked_in_at AT TIME ZONE 'UTC')::DATE, ci.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rebuild_venue_analytics_rollups() FROM PUBLIC, anon, authenticated;
+
+SELECT rebuild_venue_analytics_rollups();
+
+-- ============================================================================
+-- Analytics Functions
+-- ============================================================================
+
+-- Totals for one period. Unique and repeat customers use whole UTC days, so
+-- ranges that start or end mid-day include the rest of those days.
+CREATE OR REPLACE FUNCTION venue_period_stats(
+  p_venue_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+  WITH hourly AS (
+    SELECT
+      COALESCE(SUM(h.check_ins), 0) AS check_ins,
+      COALESCE(SUM(h.completed_visits), 0) AS completed_visits,
+      COALESCE(SUM(h.visit_minutes), 0) AS visit_minutes,
+      COALESCE(SUM(h.new_favorites), 0) AS new_favorites,
+      COALESCE(SUM(h.reviews), 0) AS reviews,
+      COALESCE(SUM(h.rating_sum), 0) AS rating_sum
+    FROM venue_hourly_stats h
+    WHERE h.venue_id = p_venue_id
+    AND h.hour_start >= date_trunc('hour', p_from)
+    AND h.hour_start < p_to
+  ),
+  customers AS (
+    SELECT d.user_id, SUM(d.visits) AS visits
+    FROM venue_daily_visitors d
+    WHERE d.venue_id = p_venue_id
+    AND d.day >= (p_from AT TIME ZONE 'UTC')::DATE
+    AND d.day <= (p_to AT TIME ZONE 'UTC')::DATE
+    GROUP BY d.user_id
+  )
+  SELECT jsonb_build_object(
+    'check_ins', hourly.check_ins,
+    'unique_customers', (SELECT COUNT(*) FROM customers),
+    'repeat_customers', (SELECT COUNT(*) FROM customers WHERE customers.visits > 1),
+    'new_favorites', hourly.new_favorites,
+    'reviews', hourly.reviews,
+    'rating_sum', hourly.rating_sum,
+    'completed_visits', hourly.completed_visits,
+    'visit_minutes', hourly.visit_minutes
+  )
+  FROM hourly;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- No role check here; clients go through get_venue_analytics
+REVOKE EXECUTE ON FUNCTION venue_period_stats(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Everything the venue dashboard shows, in one call. Daily series, peak hours
+-- and peak day use the caller's timezone; the previous period is the same
+-- length immediately before p_from.
+CREATE OR REPLACE FUNCTION get_venue_analytics(
+  p_venue_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone TEXT := COALESCE(NULLIF(p_timezone, ''), 'UTC');
+  v_previous_from TIMESTAMPTZ;
+  v_today_start TIMESTAMPTZ;
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'manager') THEN
+    RAISE EXCEPTION 'Not authorized to view this venue''s analytics';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from > INTERVAL '366 days' THEN
+    RAISE EXCEPTION 'Date range cannot be longer than a year';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  v_previous_from := p_from - (p_to - p_from);
+  v_today_start := date_trunc('day', NOW() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+  RETURN jsonb_build_object(
+    'range', jsonb_build_object('from', p_from, 'to', p_to),
+    'previous_range', jsonb_build_object('from', v_previous_from, 'to', p_from),
+    'current', venue_period_stats(p_venue_id, p_from, p_to),
+    'previous', venue_period_stats(p_venue_id, v_previous_from, p_from),
+    'today', venue_period_stats(p_venue_id, v_today_start, NOW() + INTERVAL '1 hour'),
+    'daily', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('date', d.day, 'check_ins', d.check_ins) ORDER BY d.day)
+      FROM (
+        SELECT (h.hour_start AT TIME ZONE v_timezone)::DATE AS day, SUM(h.check_ins) AS check_ins
+        FROM venue_hourly_stats h
+        WHERE h.venue_id = p_venue_id
+        AND h.hour_start >= date_trunc('hour', p_from)
+        AND h.hour_start < p_to
+        GROUP BY 1
+      ) d
+    ), '[]'::jsonb),
+    'peak_hours', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('hour', ph.hour, 'check_ins', ph.check_ins) ORDER BY ph.check_ins DESC, ph.hour)
+      FROM (
+        SELECT EXTRACT(HOUR FROM h.hour_start AT TIME ZONE v_timezone)::INTEGER AS hour, SUM(h.check_ins) AS check_ins
+        FROM venue_hourly_stats h
+        WHERE h.venue_id = p_venue_id
+        AND h.hour_start >= date_trunc('hour', p_from)
+        AND h.hour_start < p_to
+        GROUP BY 1
+        HAVING SUM(h.check_ins) > 0
+        ORDER BY 2 DESC, 1
+        LIMIT 3
+      ) ph
+    ), '[]'::jsonb),
+    'peak_day', (
+      SELECT trim(to_char(h.hour_start AT TIME ZONE v_timezone, 'Day'))
+      FROM venue_hourly_stats h
+      WHERE h.venue_id = p_venue_id
+      AND h.hour_start >= date_trunc('hour', p_from)
+      AND h.hour_start < p_to
+      GROUP BY 1
+      HAVING SUM(h.check_ins) > 0
+      ORDER BY SUM(h.check_ins) DESC
+      LIMIT 1
+    ),
+    'live', jsonb_build_object(
+      'active_check_ins', (
+        SELECT COUNT(*) FROM check_ins ci
+        WHERE ci.venue_id = p_venue_id AND ci.is_active = TRUE
+      ),
+      'capacity', (SELECT v.max_capacity FROM venues v WHERE v.id = p_venue_id)
+    ),
+    'aggregate_rating', (SELECT v.aggregate_rating FROM venues v WHERE v.id = p_venue_id),
+    'rating_distribution', (
+      SELECT jsonb_build_object(
+        '5', COUNT(*) FILTER (WHERE r.rating = 5),
+        '4', COUNT(*) FILTER (WHERE r.rating = 4),
+        '3', COUNT(*) FILTER (WHERE r.rating = 3),
+        '2', COUNT(*) FILTER (WHERE r.rating = 2),
+        '1', COUNT(*) FILTER (WHERE r.rating = 1)
+      )
+      FROM reviews r
+      WHERE r.venue_id = p_venue_id
+    ),
+    'recent_reviews', COALESCE((
+      SELECT jsonb_agg(rr ORDER BY rr.created_at DESC)
+      FROM (
+        SELECT r.id, r.user_id, r.rating, r.review_text, r.created_at,
+          COALESCE(p.display_name, 'Anonymous') AS reviewer_name,
+          p.profile_picture_url AS reviewer_picture,
+          EXISTS (SELECT 1 FROM venue_responses vr WHERE vr.review_id = r.id) AS has_response
+        FROM reviews r
+        LEFT JOIN profiles p ON p.id = r.user_id
+        WHERE r.venue_id = p_venue_id
+        ORDER BY r.created_at DESC
+        LIMIT 5
+      ) rr
+    ), '[]'::jsonb),
+    'recent_activity', COALESCE((
+      SELECT jsonb_agg(a ORDER BY a.created_at DESC)
+      FROM (
+        (
+          SELECT 'checkin' AS type, ci.checked_in_at AS created_at,
+            NULL::INTEGER AS rating, NULL::TEXT AS title, NULL::INTEGER AS sent_count, NULL::TEXT AS notification_type
+          FROM check_ins ci
+          WHERE ci.venue_id = p_venue_id
+          ORDER BY ci.checked_in_at DESC
+          LIMIT 5
+        )
+        UNION ALL
+        (
+          SELECT 'review', r.created_at, r.rating, NULL, NULL, NULL
+          FROM reviews r
+          WHERE r.venue_id = p_venue_id
+          ORDER BY r.created_at DESC
+          LIMIT 3
+        )
+        UNION ALL
+        (
+          SELECT 'favorite', f.created_at, NULL, NULL, NULL, NULL
+          FROM favorites f
+          WHERE f.venue_id = p_venue_id
+          ORDER BY f.created_at DESC
+          LIMIT 3
+        )
+        UNION ALL
+        (
+          SELECT 'push_notification', pn.sent_at, NULL, pn.title::TEXT, pn.actual_sent_count, pn.notification_type::TEXT
+          FROM venue_push_notifications pn
+          WHERE pn.venue_id = p_venue_id
+          AND pn.status = 'sent'
+          ORDER BY pn.sent_at DESC
+          LIMIT 3
+        )
+      ) a
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_venue_analytics(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+COMMENT ON FUNCTION get_venue_analytics IS 'Venue dashboard analytics for a date range with the previous period for comparison';
+
+-- Success message
+SELECT 'Venue analytics rollups added successfully!' as message;
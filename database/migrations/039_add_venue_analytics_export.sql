@@ -0,0 +1,220 @@
+-- Migration: Add Venue Analytics Export
+-- Description: export_venue_analytics returns a venue's check-in rollups,
+-- flash offer performance, claims with redemption times and staff, review
+-- history and rating distribution for a date range in one call, for the
+-- dashboard's CSV/JSON export. Customer names and contact details are never
+-- included, and user IDs never leave the database: customers appear as a
+-- keyed hash of their user ID that is stable within one venue's exports but
+-- can't be matched to a user or across venues.
+-- Requirements: Venue Dashboard - Data Export
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================================================
+-- Pseudonym Keys
+-- ============================================================================
+
+-- RLS is enabled with no policies, so keys are only readable by
+-- export_venue_analytics
+CREATE TABLE IF NOT EXISTS venue_export_keys (
+  venue_id UUID PRIMARY KEY REFERENCES venues(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE venue_export_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE venue_export_keys IS 'Per-venue HMAC key for customer pseudonyms in analytics exports';
+
+-- ============================================================================
+-- Export Function
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION export_venue_analytics(
+  p_venue_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_timezone TEXT := COALESCE(NULLIF(p_timezone, ''), 'UTC');
+  v_secret BYTEA;
+BEGIN
+  IF NOT has_venue_role(p_venue_id, 'manager') THEN
+    RAISE EXCEPTION 'Not authorized to export this venue''s analytics';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from > INTERVAL '366 days' THEN
+    RAISE EXCEPTION 'Date range cannot be longer than a year';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  INSERT INTO venue_export_keys (venue_id)
+  VALUES (p_venue_id)
+  ON CONFLICT (venue_id) DO NOTHING;
+
+  SELECT k.secret INTO v_secret
+  FROM venue_export_keys k
+  WHERE k.venue_id = p_venue_id;
+
+  RETURN jsonb_build_object(
+    'venue_id', p_venue_id,
+    'venue_name', (SELECT v.name FROM venues v WHERE v.id = p_venue_id),
+    'range', jsonb_build_object('from', p_from, 'to', p_to),
+    'timezone', v_timezone,
+    'generated_at', NOW(),
+
+    -- Check-in rollups, one row per local day with any activity
+    'daily_stats', COALESCE((
+      SELECT jsonb_agg(d ORDER BY d.date)
+      FROM (
+        SELECT
+          (h.hour_start AT TIME ZONE v_timezone)::DATE AS date,
+          SUM(h.check_ins)::INTEGER AS check_ins,
+          SUM(h.completed_visits)::INTEGER AS completed_visits,
+          SUM(h.visit_minutes)::BIGINT AS visit_minutes,
+          SUM(h.new_favorites)::INTEGER AS new_favorites,
+          SUM(h.reviews)::INTEGER AS reviews,
+          SUM(h.rating_sum)::INTEGER AS rating_sum
+        FROM venue_hourly_stats h
+        WHERE h.venue_id = p_venue_id
+        AND h.hour_start >= date_trunc('hour', p_from)
+        AND h.hour_start < p_to
+        GROUP BY 1
+      ) d
+    ), '[]'::jsonb),
+
+    -- Hourly check-ins, only hours with any
+    'hourly_check_ins', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'hour_start', h.hour_start,
+        'check_ins', h.check_ins
+      ) ORDER BY h.hour_start)
+      FROM venue_hourly_stats h
+      WHERE h.venue_id = p_venue_id
+      AND h.hour_start >= date_trunc('hour', p_from)
+      AND h.hour_start < p_to
+      AND h.check_ins > 0
+    ), '[]'::jsonb),
+
+    -- Offers that ran during the range, in FlashOfferAnalytics shape
+    'flash_offers', COALESCE((
+      SELECT jsonb_agg(o ORDER BY o.start_time)
+      FROM (
+        SELECT
+          fo.id AS offer_id,
+          fo.title,
+          fo.status,
+          fo.start_time,
+          fo.end_time,
+          fo.max_claims,
+          fo.claimed_count,
+          COALESCE(e.push_sent, 0) AS push_sent_count,
+          COALESCE(e.views, 0) AS views_count,
+          COALESCE(e.claims, 0) AS claims_count,
+          COALESCE(e.redemptions, 0) AS redemptions_count,
+          CASE WHEN COALESCE(e.push_sent, 0) > 0
+            THEN ROUND(e.views * 100.0 / e.push_sent, 2) ELSE 0 END AS open_rate,
+          CASE WHEN COALESCE(e.views, 0) > 0
+            THEN ROUND(e.claims * 100.0 / e.views, 2) ELSE 0 END AS claim_rate,
+          CASE WHEN COALESCE(e.claims, 0) > 0
+            THEN ROUND(e.redemptions * 100.0 / e.claims, 2) ELSE 0 END AS redemption_rate,
+          CASE WHEN fo.status = 'full' AND e.last_claim_at IS NOT NULL
+            THEN ROUND(EXTRACT(EPOCH FROM (e.last_claim_at - fo.created_at)) / 60)::INTEGER
+          END AS time_to_full_minutes
+        FROM flash_offers fo
+        LEFT JOIN LATERAL (
+          SELECT
+            COUNT(*) FILTER (WHERE ev.event_type = 'push_sent') AS push_sent,
+            COUNT(*) FILTER (WHERE ev.event_type = 'view') AS views,
+            COUNT(*) FILTER (WHERE ev.event_type = 'claim') AS claims,
+            COUNT(*) FILTER (WHERE ev.event_type = 'redeem') AS redemptions,
+            MAX(ev.created_at) FILTER (WHERE ev.event_type = 'claim') AS last_claim_at
+          FROM flash_offer_events ev
+          WHERE ev.offer_id = fo.id
+        ) e ON TRUE
+        WHERE fo.venue_id = p_venue_id
+        AND fo.start_time < p_to
+        AND fo.end_time >= p_from
+      ) o
+    ), '[]'::jsonb),
+
+    -- Claims made during the range; staff are the venue's own team
+    'claims', COALESCE((
+      SELECT jsonb_agg(c ORDER BY c.claimed_at)
+      FROM (
+        SELECT
+          fc.id AS claim_id,
+          fc.offer_id,
+          fo.title AS offer_title,
+          left(encode(hmac(fc.user_id::TEXT::BYTEA, v_secret, 'sha256'), 'hex'), 16) AS customer_id,
+          fc.status,
+          fc.created_at AS claimed_at,
+          fc.expires_at,
+          fc.redeemed_at,
+          sp.display_name AS redeemed_by_name
+        FROM flash_offer_claims fc
+        JOIN flash_offers fo ON fo.id = fc.offer_id
+        LEFT JOIN profiles sp ON sp.id = fc.redeemed_by_user_id
+        WHERE fo.venue_id = p_venue_id
+        AND fc.created_at >= p_from
+        AND fc.created_at < p_to
+      ) c
+    ), '[]'::jsonb),
+
+    -- Reviews written during the range, without reviewer names
+    'reviews', COALESCE((
+      SELECT jsonb_agg(r ORDER BY r.created_at)
+      FROM (
+        SELECT
+          rv.id AS review_id,
+          left(encode(hmac(rv.user_id::TEXT::BYTEA, v_secret, 'sha256'), 'hex'), 16) AS customer_id,
+          rv.rating,
+          rv.review_text,
+          rv.is_verified,
+          rv.helpful_count,
+          rv.created_at,
+          vr.response_text,
+          vr.created_at AS responded_at
+        FROM reviews rv
+        LEFT JOIN venue_responses vr ON vr.review_id = rv.id
+        WHERE rv.venue_id = p_venue_id
+        AND rv.created_at >= p_from
+        AND rv.created_at < p_to
+      ) r
+    ), '[]'::jsonb),
+
+    'rating_distribution', (
+      SELECT jsonb_build_object(
+        '5', COUNT(*) FILTER (WHERE rv.rating = 5),
+        '4', COUNT(*) FILTER (WHERE rv.rating = 4),
+        '3', COUNT(*) FILTER (WHERE rv.rating = 3),
+        '2', COUNT(*) FILTER (WHERE rv.rating = 2),
+        '1', COUNT(*) FILTER (WHERE rv.rating = 1)
+      )
+      FROM reviews rv
+      WHERE rv.venue_id = p_venue_id
+      AND rv.created_at >= p_from
+      AND rv.created_at < p_to
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION export_venue_analytics(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
+COMMENT ON FUNCTION export_venue_analytics IS 'Venue analytics, offer, claim and review data for a date range, for CSV/JSON export';
+
+-- Success message
+SELECT 'Venue analytics export added successfully!' as message;
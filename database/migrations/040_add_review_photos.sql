@@ -0,0 +1,135 @@
+-- Migration: Add Review Photos
+-- Description: Lets reviewers attach up to 4 photos to a review. Photos are
+-- stored in the public review-photos bucket under the reviewer's own folder
+-- and listed in review_photos. Review reports can now point at a single photo
+-- so users and venues can report an inappropriate photo without reporting the
+-- whole review.
+-- Requirements: Reviews - Photo Attachments
+
+-- ============================================================================
+-- Review Photos Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS review_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  venue_id UUID NOT NULL,
+  storage_path TEXT NOT NULL,
+  photo_url TEXT NOT NULL,
+  position SMALLINT NOT NULL DEFAULT 0 CHECK (position >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_review_photo_path UNIQUE (storage_path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_photos_review ON review_photos(review_id, position);
+CREATE INDEX IF NOT EXISTS idx_review_photos_venue_created ON review_photos(venue_id, created_at DESC);
+
+COMMENT ON TABLE review_photos IS 'Photos attached to reviews (max 4 per review)';
+COMMENT ON COLUMN review_photos.storage_path IS 'Object path in the review-photos storage bucket';
+COMMENT ON COLUMN review_photos.position IS 'Display order within the review';
+
+-- ============================================================================
+-- Photo Limit
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_review_photo_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_review reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_review FROM reviews WHERE id = NEW.review_id;
+
+  IF NOT FOUND OR v_review.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Photos can only be added to your own review';
+  END IF;
+
+  -- Photos always belong to the review's venue
+  NEW.venue_id := v_review.venue_id;
+
+  -- Serialize concurrent uploads to the same review
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.review_id::TEXT));
+
+  IF (SELECT COUNT(*) FROM review_photos WHERE review_id = NEW.review_id) >= 4 THEN
+    RAISE EXCEPTION 'A review can have at most 4 photos';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_review_photo_limit ON review_photos;
+CREATE TRIGGER trigger_enforce_review_photo_limit
+  BEFORE INSERT ON review_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_review_photo_limit();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE review_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view review photos" ON review_photos;
+CREATE POLICY "Anyone can view review photos"
+  ON review_photos FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can add photos to own reviews" ON review_photos;
+CREATE POLICY "Users can add photos to own reviews"
+  ON review_photos FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own review photos" ON review_photos;
+CREATE POLICY "Users can delete own review photos"
+  ON review_photos FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Storage Bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads go to <user_id>/<review_id>/<file>, so the first folder is the owner
+DROP POLICY IF EXISTS "Users can upload own review photos" ON storage.objects;
+CREATE POLICY "Users can upload own review photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can delete own review photo files" ON storage.objects;
+CREATE POLICY "Users can delete own review photo files"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- ============================================================================
+-- Photo Reports
+-- ============================================================================
+
+ALTER TABLE review_reports
+  ADD COLUMN IF NOT EXISTS photo_id UUID REFERENCES review_photos(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN review_reports.photo_id IS 'Reported photo, or NULL when the whole review is reported';
+
+-- A user can report a review once, and each of its photos once
+ALTER TABLE review_reports DROP CONSTRAINT IF EXISTS unique_user_review_report;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_reports_unique_review
+  ON review_reports(reporter_user_id, review_id)
+  WHERE photo_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_reports_unique_photo
+  ON review_reports(reporter_user_id, photo_id)
+  WHERE photo_id IS NOT NULL;
+
+-- Success message
+SELECT 'Review photos added successfully!' as message;
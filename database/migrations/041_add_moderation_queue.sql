@@ -0,0 +1,608 @@
+-- Migration: Add Moderation Queue
+-- Description: Gives platform admins a queue of pending review, photo and
+-- notification reports. Reported reviews and photos are hidden automatically
+-- once they collect enough pending reports, and admins can dismiss a report,
+-- remove the content, or warn or suspend its author. Reporters and authors are
+-- notified of the outcome.
+-- Requirements: Moderation - Report Queue
+
+-- ============================================================================
+-- Platform Admins
+-- ============================================================================
+
+-- Admins are marked with app_metadata.role = 'admin'. Unlike user_metadata,
+-- app_metadata can only be changed with the service role.
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role' = 'admin', false);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION is_platform_admin() TO authenticated;
+
+COMMENT ON FUNCTION is_platform_admin IS 'True when the current user has the admin role in app_metadata';
+
+-- ============================================================================
+-- Hidden Content
+-- ============================================================================
+
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT CHECK (hidden_reason IN ('reports', 'severe_content', 'removed')),
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+ALTER TABLE review_photos
+  ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT CHECK (hidden_reason IN ('reports', 'severe_content', 'removed')),
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN reviews.is_hidden IS 'Hidden from everyone except the author and admins while under moderation';
+COMMENT ON COLUMN reviews.hidden_reason IS 'Why the review was hidden: reports, severe_content or removed';
+COMMENT ON COLUMN review_photos.is_hidden IS 'Hidden from everyone except the author and admins while under moderation';
+
+-- Hidden content is only visible to its author and admins
+DROP POLICY IF EXISTS "Anyone can view reviews" ON reviews;
+CREATE POLICY "Anyone can view reviews"
+  ON reviews FOR SELECT
+  USING (NOT is_hidden OR auth.uid() = user_id OR is_platform_admin());
+
+DROP POLICY IF EXISTS "Anyone can view review photos" ON review_photos;
+CREATE POLICY "Anyone can view review photos"
+  ON review_photos FOR SELECT
+  USING (NOT is_hidden OR auth.uid() = user_id OR is_platform_admin());
+
+-- Authors can edit their reviews but not un-hide them. Moderation functions
+-- run as the table owner, so they are not affected.
+CREATE OR REPLACE FUNCTION protect_review_moderation_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND (NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+       OR NEW.hidden_reason IS DISTINCT FROM OLD.hidden_reason
+       OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at) THEN
+    RAISE EXCEPTION 'Moderation status can only be changed by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_review_moderation_columns ON reviews;
+CREATE TRIGGER trigger_protect_review_moderation_columns
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_review_moderation_columns();
+
+-- ============================================================================
+-- Venue Rating
+-- ============================================================================
+
+-- Hidden reviews don't count toward the venue's rating
+CREATE OR REPLACE FUNCTION refresh_venue_rating(p_venue_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE venues
+  SET
+    aggregate_rating = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 1) FROM reviews
+      WHERE venue_id = p_venue_id AND NOT is_hidden
+    ), 0.0),
+    review_count = (
+      SELECT COUNT(*) FROM reviews
+      WHERE venue_id = p_venue_id AND NOT is_hidden
+    )
+  WHERE id = p_venue_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_venue_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_venue_rating(COALESCE(NEW.venue_id, OLD.venue_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_venue_rating_on_hide ON reviews;
+CREATE TRIGGER trigger_update_venue_rating_on_hide
+  AFTER UPDATE OF is_hidden ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_venue_rating();
+
+-- The review RPCs recalculated the rating over every review; route them
+-- through refresh_venue_rating so hidden reviews stay excluded.
+CREATE OR REPLACE FUNCTION update_review_and_venue_rating(
+  p_review_id UUID,
+  p_user_id UUID,
+  p_rating INTEGER,
+  p_review_text TEXT DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  v_venue_id UUID;
+  v_updated_review json;
+BEGIN
+  IF p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  UPDATE reviews
+  SET
+    rating = p_rating,
+    review_text = COALESCE(p_review_text, review_text),
+    updated_at = timezone('utc'::text, now())
+  WHERE id = p_review_id AND user_id = p_user_id
+  RETURNING venue_id, row_to_json(reviews.*) INTO v_venue_id, v_updated_review;
+
+  IF v_venue_id IS NULL THEN
+    RAISE EXCEPTION 'Review not found or you do not have permission to update it';
+  END IF;
+
+  PERFORM refresh_venue_rating(v_venue_id);
+
+  RETURN v_updated_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_review_and_update_venue(
+  p_venue_id UUID,
+  p_user_id UUID,
+  p_rating INTEGER,
+  p_review_text TEXT DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  v_new_review json;
+  v_is_verified BOOLEAN;
+BEGIN
+  IF p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM check_ins
+    WHERE user_id = p_user_id AND venue_id = p_venue_id
+  ) INTO v_is_verified;
+
+  INSERT INTO reviews (venue_id, user_id, rating, review_text, is_verified)
+  VALUES (p_venue_id, p_user_id, p_rating, p_review_text, v_is_verified)
+  RETURNING row_to_json(reviews.*) INTO v_new_review;
+
+  PERFORM refresh_venue_rating(p_venue_id);
+
+  RETURN v_new_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION delete_review_and_update_venue(
+  p_review_id UUID,
+  p_user_id UUID
+)
+RETURNS json AS $$
+DECLARE
+  v_venue_id UUID;
+  v_deleted_review json;
+BEGIN
+  DELETE FROM reviews
+  WHERE id = p_review_id AND user_id = p_user_id
+  RETURNING venue_id, row_to_json(reviews.*) INTO v_venue_id, v_deleted_review;
+
+  IF v_venue_id IS NULL THEN
+    RAISE EXCEPTION 'Review not found or you do not have permission to delete it';
+  END IF;
+
+  PERFORM refresh_venue_rating(v_venue_id);
+
+  RETURN v_deleted_review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Report Review Columns
+-- ============================================================================
+
+-- Match notification_reports so both queues record who handled a report
+ALTER TABLE review_reports
+  ADD COLUMN IF NOT EXISTS admin_notes TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_photo ON review_reports(photo_id) WHERE photo_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "Admins can view all review reports" ON review_reports;
+CREATE POLICY "Admins can view all review reports"
+  ON review_reports FOR SELECT
+  USING (is_platform_admin());
+
+DROP POLICY IF EXISTS notification_reports_admin_all ON notification_reports;
+CREATE POLICY notification_reports_admin_all
+  ON notification_reports FOR SELECT
+  USING (is_platform_admin());
+
+-- ============================================================================
+-- Auto-Hide Threshold
+-- ============================================================================
+
+-- Hide a review or photo once this many users have reported it
+CREATE OR REPLACE FUNCTION hide_reported_content_on_threshold()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_threshold CONSTANT INTEGER := 3;
+BEGIN
+  IF NEW.photo_id IS NOT NULL THEN
+    IF (SELECT COUNT(*) FROM review_reports
+        WHERE photo_id = NEW.photo_id AND status = 'pending') >= v_threshold THEN
+      UPDATE review_photos
+      SET is_hidden = true, hidden_reason = 'reports', hidden_at = NOW()
+      WHERE id = NEW.photo_id AND NOT is_hidden;
+    END IF;
+  ELSIF (SELECT COUNT(*) FROM review_reports
+         WHERE review_id = NEW.review_id AND photo_id IS NULL AND status = 'pending') >= v_threshold THEN
+    UPDATE reviews
+    SET is_hidden = true, hidden_reason = 'reports', hidden_at = NOW()
+    WHERE id = NEW.review_id AND NOT is_hidden;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_hide_reported_content_on_threshold ON review_reports;
+CREATE TRIGGER trigger_hide_reported_content_on_threshold
+  AFTER INSERT ON review_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION hide_reported_content_on_threshold();
+
+-- ============================================================================
+-- Warnings and Suspensions
+-- ============================================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN profiles.suspended_until IS 'User cannot post reviews or photos until this time';
+
+CREATE TABLE IF NOT EXISTS user_moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('warn', 'suspend')),
+  content_type TEXT NOT NULL CHECK (content_type IN ('review', 'photo', 'notification')),
+  content_id UUID NOT NULL,
+  reason TEXT,
+  suspended_until TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_moderation_actions_user
+  ON user_moderation_actions(user_id, created_at DESC);
+
+ALTER TABLE user_moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own moderation actions" ON user_moderation_actions;
+CREATE POLICY "Users can view own moderation actions"
+  ON user_moderation_actions FOR SELECT
+  USING (auth.uid() = user_id OR is_platform_admin());
+
+COMMENT ON TABLE user_moderation_actions IS 'Warnings and suspensions issued to users by moderators';
+
+CREATE OR REPLACE FUNCTION block_suspended_posting()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_suspended_until TIMESTAMPTZ;
+BEGIN
+  SELECT suspended_until INTO v_suspended_until FROM profiles WHERE id = NEW.user_id;
+
+  IF v_suspended_until IS NOT NULL AND v_suspended_until > NOW() THEN
+    RAISE EXCEPTION 'Your account is suspended from posting until %',
+      to_char(v_suspended_until, 'Mon DD, YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_reviews ON reviews;
+CREATE TRIGGER trigger_block_suspended_reviews
+  BEFORE INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION block_suspended_posting();
+
+DROP TRIGGER IF EXISTS trigger_block_suspended_review_photos ON review_photos;
+CREATE TRIGGER trigger_block_suspended_review_photos
+  BEFORE INSERT ON review_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION block_suspended_posting();
+
+-- ============================================================================
+-- Moderation Queue
+-- ============================================================================
+
+-- One row per reported review, photo or notification with at least one
+-- pending report, oldest first
+CREATE OR REPLACE FUNCTION get_moderation_queue(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  content_type TEXT,
+  content_id UUID,
+  review_id UUID,
+  author_id UUID,
+  author_name TEXT,
+  venue_id UUID,
+  venue_name TEXT,
+  content_text TEXT,
+  photo_url TEXT,
+  rating INTEGER,
+  is_hidden BOOLEAN,
+  hidden_reason TEXT,
+  report_count BIGINT,
+  reasons TEXT[],
+  details TEXT[],
+  first_reported_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the moderation queue';
+  END IF;
+
+  RETURN QUERY
+  WITH pending AS (
+    SELECT
+      CASE WHEN rr.photo_id IS NULL THEN 'review' ELSE 'photo' END AS content_type,
+      COALESCE(rr.photo_id, rr.review_id) AS content_id,
+      rr.reason::TEXT AS reason,
+      rr.details,
+      rr.created_at
+    FROM review_reports rr
+    WHERE rr.status = 'pending'
+    UNION ALL
+    SELECT 'notification', nr.notification_id, nr.reason::TEXT, nr.details, nr.created_at
+    FROM notification_reports nr
+    WHERE nr.status = 'pending'
+  ),
+  grouped AS (
+    SELECT
+      p.content_type,
+      p.content_id,
+      COUNT(*) AS report_count,
+      ARRAY_AGG(DISTINCT p.reason) AS reasons,
+      ARRAY_REMOVE(ARRAY_AGG(p.details), NULL) AS details,
+      MIN(p.created_at) AS first_reported_at,
+      MAX(p.created_at) AS last_reported_at
+    FROM pending p
+    GROUP BY p.content_type, p.content_id
+  )
+  SELECT
+    g.content_type,
+    g.content_id,
+    COALESCE(r.id, rp.review_id),
+    COALESCE(r.user_id, rp.user_id, n.actor_id),
+    author.name::TEXT,
+    COALESCE(r.venue_id, rp.venue_id),
+    v.name::TEXT,
+    COALESCE(r.review_text, parent.review_text, n.body),
+    rp.photo_url,
+    COALESCE(r.rating, parent.rating),
+    COALESCE(r.is_hidden, rp.is_hidden, false),
+    COALESCE(r.hidden_reason, rp.hidden_reason),
+    g.report_count,
+    g.reasons,
+    g.details,
+    g.first_reported_at,
+    g.last_reported_at
+  FROM grouped g
+  LEFT JOIN reviews r ON g.content_type = 'review' AND r.id = g.content_id
+  LEFT JOIN review_photos rp ON g.content_type = 'photo' AND rp.id = g.content_id
+  LEFT JOIN reviews parent ON parent.id = rp.review_id
+  LEFT JOIN social_notifications n ON g.content_type = 'notification' AND n.id = g.content_id
+  LEFT JOIN profiles author ON author.id = COALESCE(r.user_id, rp.user_id, n.actor_id)
+  LEFT JOIN venues v ON v.id = COALESCE(r.venue_id, rp.venue_id)
+  ORDER BY g.first_reported_at ASC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_moderation_queue(INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION get_moderation_queue IS 'Admin-only list of reported content with pending reports';
+
+-- Hide a reported review or photo without resolving its reports
+CREATE OR REPLACE FUNCTION hide_reported_content(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_reason TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can hide content';
+  END IF;
+
+  IF p_content_type = 'review' THEN
+    UPDATE reviews
+    SET is_hidden = true, hidden_reason = p_reason, hidden_at = NOW()
+    WHERE id = p_content_id AND NOT is_hidden;
+  ELSIF p_content_type = 'photo' THEN
+    UPDATE review_photos
+    SET is_hidden = true, hidden_reason = p_reason, hidden_at = NOW()
+    WHERE id = p_content_id AND NOT is_hidden;
+  ELSE
+    RAISE EXCEPTION 'Only reviews and photos can be hidden';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION hide_reported_content(TEXT, UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION hide_reported_content IS 'Admin-only: hide a reported review or photo pending a decision';
+
+-- Resolve every pending report on a piece of content with one decision.
+-- Removing, warning and suspending all uphold the reports and keep the
+-- content hidden; dismissing restores it. Notifications are the reporter's
+-- own inbox items, so for those only the author can be acted on.
+CREATE OR REPLACE FUNCTION resolve_moderation_item(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_action TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_suspend_days INTEGER DEFAULT 7
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_status TEXT;
+  v_author_id UUID;
+  v_reporter_ids UUID[];
+  v_suspended_until TIMESTAMPTZ;
+  v_label TEXT;
+  v_reporter_body TEXT;
+  v_author_title TEXT;
+  v_author_body TEXT;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve reports';
+  END IF;
+
+  IF p_action NOT IN ('dismiss', 'remove', 'warn', 'suspend') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  v_status := CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'resolved' END;
+
+  IF p_content_type = 'review' THEN
+    v_label := 'review';
+    SELECT user_id INTO v_author_id FROM reviews WHERE id = p_content_id;
+
+    WITH updated AS (
+      UPDATE review_reports
+      SET status = v_status, admin_notes = p_notes, reviewed_by = v_admin_id, reviewed_at = NOW()
+      WHERE review_id = p_content_id AND photo_id IS NULL AND status = 'pending'
+      RETURNING reporter_user_id
+    )
+    SELECT ARRAY_AGG(DISTINCT reporter_user_id) INTO v_reporter_ids FROM updated;
+
+    IF p_action = 'dismiss' THEN
+      UPDATE reviews SET is_hidden = false, hidden_reason = NULL, hidden_at = NULL
+      WHERE id = p_content_id AND is_hidden;
+    ELSE
+      UPDATE reviews SET is_hidden = true, hidden_reason = 'removed', hidden_at = NOW()
+      WHERE id = p_content_id;
+    END IF;
+  ELSIF p_content_type = 'photo' THEN
+    v_label := 'photo';
+    SELECT user_id INTO v_author_id FROM review_photos WHERE id = p_content_id;
+
+    WITH updated AS (
+      UPDATE review_reports
+      SET status = v_status, admin_notes = p_notes, reviewed_by = v_admin_id, reviewed_at = NOW()
+      WHERE photo_id = p_content_id AND status = 'pending'
+      RETURNING reporter_user_id
+    )
+    SELECT ARRAY_AGG(DISTINCT reporter_user_id) INTO v_reporter_ids FROM updated;
+
+    IF p_action = 'dismiss' THEN
+      UPDATE review_photos SET is_hidden = false, hidden_reason = NULL, hidden_at = NULL
+      WHERE id = p_content_id AND is_hidden;
+    ELSE
+      UPDATE review_photos SET is_hidden = true, hidden_reason = 'removed', hidden_at = NOW()
+      WHERE id = p_content_id;
+    END IF;
+  ELSIF p_content_type = 'notification' THEN
+    v_label := 'notification';
+    SELECT actor_id INTO v_author_id FROM social_notifications WHERE id = p_content_id;
+
+    WITH updated AS (
+      UPDATE notification_reports
+      SET status = v_status, admin_notes = p_notes, reviewed_by = v_admin_id, reviewed_at = NOW()
+      WHERE notification_id = p_content_id AND status = 'pending'
+      RETURNING reporter_id
+    )
+    SELECT ARRAY_AGG(DISTINCT reporter_id) INTO v_reporter_ids FROM updated;
+  ELSE
+    RAISE EXCEPTION 'Unknown content type: %', p_content_type;
+  END IF;
+
+  IF v_reporter_ids IS NULL THEN
+    RAISE EXCEPTION 'No pending reports for this %', v_label;
+  END IF;
+
+  -- Warnings and suspensions
+  IF p_action IN ('warn', 'suspend') AND v_author_id IS NOT NULL THEN
+    IF p_action = 'suspend' THEN
+      v_suspended_until := NOW() + make_interval(days => GREATEST(p_suspend_days, 1));
+
+      UPDATE profiles
+      SET suspended_until = GREATEST(COALESCE(suspended_until, NOW()), v_suspended_until)
+      WHERE id = v_author_id;
+    END IF;
+
+    INSERT INTO user_moderation_actions (
+      user_id, action, content_type, content_id, reason, suspended_until, created_by
+    )
+    VALUES (
+      v_author_id, p_action, p_content_type, p_content_id, p_notes, v_suspended_until, v_admin_id
+    );
+  END IF;
+
+  -- Tell reporters what happened
+  v_reporter_body := CASE
+    WHEN p_action = 'dismiss' THEN 'We reviewed the ' || v_label || ' you reported and found it doesn''t break our community guidelines.'
+    ELSE 'We reviewed the ' || v_label || ' you reported and took action. Thanks for helping keep the community safe.'
+  END;
+
+  INSERT INTO social_notifications (user_id, type, reference_id, title, body, data, read)
+  SELECT
+    reporter_id,
+    'moderation_update',
+    p_content_id,
+    'Report Update',
+    v_reporter_body,
+    jsonb_build_object('content_type', p_content_type, 'action', p_action),
+    false
+  FROM UNNEST(v_reporter_ids) AS reporter_id;
+
+  -- Tell the author when their content was actioned
+  IF p_action <> 'dismiss' AND v_author_id IS NOT NULL THEN
+    v_author_title := CASE p_action
+      WHEN 'suspend' THEN 'Account Suspended'
+      WHEN 'warn' THEN 'Community Guidelines Warning'
+      ELSE 'Content Removed'
+    END;
+
+    v_author_body := CASE p_action
+      WHEN 'suspend' THEN 'Your ' || v_label || ' broke our community guidelines. You can''t post reviews or photos until ' || to_char(v_suspended_until, 'Mon DD, YYYY') || '.'
+      WHEN 'warn' THEN 'Your ' || v_label || ' broke our community guidelines and was removed. Further violations may lead to a suspension.'
+      ELSE 'Your ' || v_label || ' was removed because it broke our community guidelines.'
+    END;
+
+    INSERT INTO social_notifications (user_id, type, reference_id, title, body, data, read)
+    VALUES (
+      v_author_id,
+      'moderation_update',
+      p_content_id,
+      v_author_title,
+      v_author_body,
+      jsonb_build_object('content_type', p_content_type, 'action', p_action, 'suspended_until', v_suspended_until),
+      false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'resolved_count', COALESCE(array_length(v_reporter_ids, 1), 0),
+    'reporter_ids', to_jsonb(v_reporter_ids),
+    'author_id', v_author_id,
+    'reporter_message', v_reporter_body,
+    'author_title', v_author_title,
+    'author_message', v_author_body,
+    'suspended_until', v_suspended_until
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_moderation_item(TEXT, UUID, TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION resolve_moderation_item IS 'Admin-only: dismiss, remove, warn or suspend for all pending reports on a piece of content';
+
+-- Success message
+SELECT 'Moderation queue added successfully!' as message;
@@ -0,0 +1,282 @@
+-- Migration: Add Account Deletion
+-- Description: Lets users delete their account. A deletion request is only
+-- accepted right after the user signs in again, and the account can be
+-- restored for 30 days. After that an hourly job purges the account: check-ins,
+-- flash offer claims and review ratings are kept for venue analytics under a
+-- random pseudonym, everything else is deleted, and the auth user is removed
+-- (which also ends every session).
+-- Requirements: Privacy - Account Deletion
+
+-- ============================================================================
+-- Deletion Requests
+-- ============================================================================
+
+-- user_id has no foreign key so the request outlives the account as a
+-- record that the purge completed
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed', 'failed')),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  cancelled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  purge_summary JSONB
+);
+
+-- One open request per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletion_requests_pending_user
+  ON account_deletion_requests(user_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_due
+  ON account_deletion_requests(scheduled_for)
+  WHERE status IN ('pending', 'failed');
+
+ALTER TABLE account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and changed through the functions below
+DROP POLICY IF EXISTS "Users can view own deletion requests" ON account_deletion_requests;
+CREATE POLICY "Users can view own deletion requests"
+  ON account_deletion_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE account_deletion_requests IS 'Account deletion requests with a 30 day grace period';
+COMMENT ON COLUMN account_deletion_requests.scheduled_for IS 'When the purge job will delete the account';
+COMMENT ON COLUMN account_deletion_requests.purge_summary IS 'Rows deleted or anonymized per table';
+
+-- ============================================================================
+-- Request and Restore
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION request_account_deletion()
+RETURNS account_deletion_requests AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_last_sign_in TIMESTAMPTZ;
+  v_request account_deletion_requests;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to delete your account';
+  END IF;
+
+  -- The client signs in again with the password just before calling this
+  SELECT last_sign_in_at INTO v_last_sign_in FROM auth.users WHERE id = v_user_id;
+
+  IF v_last_sign_in IS NULL OR v_last_sign_in < NOW() - INTERVAL '10 minutes' THEN
+    RAISE EXCEPTION 'Please confirm your password to delete your account';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM venue_business_accounts
+    WHERE owner_user_id = v_user_id
+    AND account_status <> 'inactive'
+  ) THEN
+    RAISE EXCEPTION 'Close or transfer your venue accounts before deleting your account';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM account_deletion_requests
+  WHERE user_id = v_user_id AND status = 'pending';
+
+  IF FOUND THEN
+    RETURN v_request;
+  END IF;
+
+  INSERT INTO account_deletion_requests (user_id, scheduled_for)
+  VALUES (v_user_id, NOW() + INTERVAL '30 days')
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION request_account_deletion() TO authenticated;
+
+COMMENT ON FUNCTION request_account_deletion IS 'Schedule the current user''s account for deletion in 30 days; requires a sign-in in the last 10 minutes';
+
+CREATE OR REPLACE FUNCTION cancel_account_deletion()
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE account_deletion_requests
+  SET status = 'cancelled', cancelled_at = NOW()
+  WHERE user_id = auth.uid()
+  AND status IN ('pending', 'failed');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_account_deletion() TO authenticated;
+
+COMMENT ON FUNCTION cancel_account_deletion IS 'Restore the current user''s account during the grace period';
+
+-- ============================================================================
+-- Purge
+-- ============================================================================
+
+-- Mirrors PrivacyDataHandler.getAccountDeletionRules: check-ins, claims and
+-- review ratings are anonymized, everything else is deleted
+CREATE OR REPLACE FUNCTION purge_user_account(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_pseudonym UUID := gen_random_uuid();
+  v_summary JSONB := '{}'::JSONB;
+  v_count INTEGER;
+BEGIN
+  -- Anonymized for venue analytics. Moving check-ins to the pseudonym also
+  -- moves their venue_daily_visitors rows, so unique visitor counts hold.
+  UPDATE check_ins
+  SET
+    user_id = v_pseudonym,
+    is_active = false,
+    checked_out_at = COALESCE(checked_out_at, NOW())
+  WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('check_ins_anonymized', v_count);
+
+  UPDATE flash_offer_claims
+  SET
+    user_id = v_pseudonym,
+    status = CASE WHEN status = 'active' THEN 'expired' ELSE status END
+  WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('flash_offer_claims_anonymized', v_count);
+
+  UPDATE flash_offer_events SET user_id = v_pseudonym WHERE user_id = p_user_id;
+
+  -- Reviews keep their rating but lose their text and photos
+  DELETE FROM review_photos WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('review_photos_deleted', v_count);
+
+  UPDATE reviews SET user_id = v_pseudonym, review_text = NULL WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('reviews_anonymized', v_count);
+
+  UPDATE reviews r
+  SET helpful_count = GREATEST(r.helpful_count - 1, 0)
+  FROM helpful_votes hv
+  WHERE hv.review_id = r.id AND hv.user_id = p_user_id;
+
+  DELETE FROM helpful_votes WHERE user_id = p_user_id;
+  DELETE FROM review_reports WHERE reporter_user_id = p_user_id;
+
+  -- Deleted outright
+  DELETE FROM favorites WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('favorites_deleted', v_count);
+
+  DELETE FROM collections WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('collections_deleted', v_count);
+
+  DELETE FROM venue_shares WHERE from_user_id = p_user_id OR to_user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('venue_shares_deleted', v_count);
+
+  DELETE FROM device_tokens WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('device_tokens_deleted', v_count);
+
+  DELETE FROM social_notifications WHERE user_id = p_user_id OR actor_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('social_notifications_deleted', v_count);
+
+  -- The storage API only serves objects that still have a row here
+  DELETE FROM storage.objects
+  WHERE (bucket_id = 'review-photos' AND (storage.foldername(name))[1] = p_user_id::TEXT)
+  OR (bucket_id = 'avatars' AND name LIKE 'profile-photos/' || p_user_id::TEXT || '-%');
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('files_deleted', v_count);
+
+  -- Friendships, follows, activity, outings, preferences and privacy
+  -- settings cascade from the profile and the auth user. Removing the auth
+  -- user also removes its sessions and refresh tokens.
+  DELETE FROM profiles WHERE id = p_user_id;
+  DELETE FROM auth.users WHERE id = p_user_id;
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Supabase grants EXECUTE on new functions to anon and authenticated
+-- directly, so revoking from PUBLIC alone would leave this callable over RPC
+REVOKE EXECUTE ON FUNCTION purge_user_account(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION purge_user_account IS 'Delete or anonymize all data for a user and remove the auth user';
+
+-- Purge accounts whose grace period is over. Failed purges are retried on
+-- the next run, up to 5 attempts.
+CREATE OR REPLACE FUNCTION process_account_deletions(p_batch_size INTEGER DEFAULT 20)
+RETURNS INTEGER AS $$
+DECLARE
+  v_request account_deletion_requests;
+  v_summary JSONB;
+  v_completed INTEGER := 0;
+BEGIN
+  FOR v_request IN
+    SELECT * FROM account_deletion_requests
+    WHERE status IN ('pending', 'failed')
+    AND scheduled_for <= NOW()
+    AND attempts < 5
+    ORDER BY scheduled_for
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      v_summary := purge_user_account(v_request.user_id);
+
+      UPDATE account_deletion_requests
+      SET
+        status = 'completed',
+        completed_at = NOW(),
+        attempts = attempts + 1,
+        last_error = NULL,
+        purge_summary = v_summary
+      WHERE id = v_request.id;
+
+      v_completed := v_completed + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE account_deletion_requests
+      SET status = 'failed', attempts = attempts + 1, last_error = SQLERRM
+      WHERE id = v_request.id;
+
+      RAISE WARNING 'Account deletion % failed: %', v_request.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION process_account_deletions(INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION process_account_deletions IS 'Purge accounts whose deletion grace period has ended';
+
+-- ============================================================================
+-- Scheduling
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'account-deletions') THEN
+      PERFORM cron.unschedule('account-deletions');
+    END IF;
+
+    PERFORM cron.schedule(
+      'account-deletions',
+      '0 * * * *',
+      $cron$ SELECT process_account_deletions(); $cron$
+    );
+    RAISE NOTICE 'Scheduled account-deletions job (hourly)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule process_account_deletions() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Account deletion added successfully!' as message;
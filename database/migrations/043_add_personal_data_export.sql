@@ -0,0 +1,248 @@
+-- Migration: Add Personal Data Export
+-- Description: Lets users download a copy of their data. export_user_data()
+-- assembles the signed-in user's profile, settings, activity and social graph
+-- into one versioned JSON document; the export-user-data Edge Function turns
+-- it into a zip archive (JSON plus one CSV per table) in the private
+-- data-exports bucket and returns a short-lived download link. Archives are
+-- removed after 7 days.
+-- Requirements: Privacy - Data Portability
+
+-- ============================================================================
+-- Export Log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS personal_data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  format_version INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days'
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_data_exports_user
+  ON personal_data_exports(user_id, created_at DESC);
+
+ALTER TABLE personal_data_exports ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the Edge Function with the service role
+DROP POLICY IF EXISTS "Users can view own data exports" ON personal_data_exports;
+CREATE POLICY "Users can view own data exports"
+  ON personal_data_exports FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE personal_data_exports IS 'Personal data archives generated for users';
+COMMENT ON COLUMN personal_data_exports.storage_path IS 'Object path in the data-exports storage bucket';
+
+-- ============================================================================
+-- Storage Bucket
+-- ============================================================================
+
+-- Private: archives are only reachable through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- Export Document
+-- ============================================================================
+
+-- Everything the app stores about the signed-in user. Other people appear
+-- only by ID and display name; staff who redeemed claims are left out.
+-- Bump format_version when the shape of the document changes.
+CREATE OR REPLACE FUNCTION export_user_data()
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to export your data';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'format_version', 1,
+    'generated_at', NOW(),
+    'user_id', v_user_id,
+
+    'profile', (
+      SELECT to_jsonb(p) || jsonb_build_object('email', u.email)
+      FROM profiles p
+      JOIN auth.users u ON u.id = p.id
+      WHERE p.id = v_user_id
+    ),
+
+    'privacy_settings', (
+      SELECT to_jsonb(ps) FROM privacy_settings ps WHERE ps.user_id = v_user_id
+    ),
+
+    'notification_preferences', (
+      SELECT to_jsonb(np) FROM notification_preferences np WHERE np.user_id = v_user_id
+    ),
+
+    'check_ins', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) || jsonb_build_object('venue_name', v.name)
+        ORDER BY c.checked_in_at DESC
+      )
+      FROM check_ins c
+      LEFT JOIN venues v ON v.id = c.venue_id
+      WHERE c.user_id = v_user_id
+    ), '[]'::JSONB),
+
+    'favorites', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(f) || jsonb_build_object('venue_name', v.name)
+        ORDER BY f.created_at DESC
+      )
+      FROM favorites f
+      LEFT JOIN venues v ON v.id = f.venue_id
+      WHERE f.user_id = v_user_id
+    ), '[]'::JSONB),
+
+    'collections', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(col) || jsonb_build_object(
+          'venues', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object('venue_id', cv.venue_id, 'venue_name', v.name, 'added_at', cv.added_at)
+              ORDER BY cv."order"
+            )
+            FROM collection_venues cv
+            LEFT JOIN venues v ON v.id = cv.venue_id
+            WHERE cv.collection_id = col.id
+          ), '[]'::JSONB)
+        )
+        ORDER BY col.created_at
+      )
+      FROM collections col
+      WHERE col.user_id = v_user_id
+    ), '[]'::JSONB),
+
+    'reviews', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(r) || jsonb_build_object(
+          'venue_name', v.name,
+          'photos', COALESCE((
+            SELECT jsonb_agg(rp.photo_url ORDER BY rp.position)
+            FROM review_photos rp
+            WHERE rp.review_id = r.id
+          ), '[]'::JSONB)
+        )
+        ORDER BY r.created_at DESC
+      )
+      FROM reviews r
+      LEFT JOIN venues v ON v.id = r.venue_id
+      WHERE r.user_id = v_user_id
+    ), '[]'::JSONB),
+
+    'flash_offer_claims', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(fc) - 'redeemed_by_user_id') || jsonb_build_object(
+          'offer_title', fo.title,
+          'venue_id', fo.venue_id,
+          'venue_name', v.name
+        )
+        ORDER BY fc.created_at DESC
+      )
+      FROM flash_offer_claims fc
+      JOIN flash_offers fo ON fo.id = fc.offer_id
+      LEFT JOIN venues v ON v.id = fo.venue_id
+      WHERE fc.user_id = v_user_id
+    ), '[]'::JSONB),
+
+    'friendships', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'friend_id', fp.id,
+          'friend_name', fp.display_name,
+          'is_close_friend', CASE WHEN f.user_id_1 = v_user_id THEN f.is_close_friend_1 ELSE f.is_close_friend_2 END,
+          'created_at', f.created_at
+        )
+        ORDER BY f.created_at
+      )
+      FROM friendships f
+      JOIN profiles fp ON fp.id = CASE WHEN f.user_id_1 = v_user_id THEN f.user_id_2 ELSE f.user_id_1 END
+      WHERE v_user_id IN (f.user_id_1, f.user_id_2)
+    ), '[]'::JSONB),
+
+    'blocked_users', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(b) - 'blocker_id') || jsonb_build_object('name', bp.display_name)
+      )
+      FROM blocked_users b
+      LEFT JOIN profiles bp ON bp.id = b.blocked_id
+      WHERE b.blocker_id = v_user_id
+    ), '[]'::JSONB),
+
+    'notifications', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', n.id,
+          'type', n.type,
+          'title', n.title,
+          'body', n.body,
+          'actor_name', ap.display_name,
+          'read', n.read,
+          'read_at', n.read_at,
+          'created_at', n.created_at
+        )
+        ORDER BY n.created_at DESC
+      )
+      FROM social_notifications n
+      LEFT JOIN profiles ap ON ap.id = n.actor_id
+      WHERE n.user_id = v_user_id
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION export_user_data() TO authenticated;
+
+COMMENT ON FUNCTION export_user_data IS 'Versioned JSON document with all data stored about the current user';
+
+-- ============================================================================
+-- Cleanup
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cleanup_expired_data_exports()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- The storage API only serves objects that still have a row here. Going
+  -- by object age also catches archives of accounts that were deleted.
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'data-exports'
+  AND created_at <= NOW() - INTERVAL '7 days';
+
+  DELETE FROM personal_data_exports WHERE expires_at <= NOW();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cleanup_expired_data_exports() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION cleanup_expired_data_exports IS 'Remove personal data archives older than 7 days';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'cleanup-data-exports') THEN
+      PERFORM cron.unschedule('cleanup-data-exports');
+    END IF;
+
+    PERFORM cron.schedule(
+      'cleanup-data-exports',
+      '30 3 * * *',
+      $cron$ SELECT cleanup_expired_data_exports(); $cron$
+    );
+    RAISE NOTICE 'Scheduled cleanup-data-exports job (daily)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule cleanup_expired_data_exports() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Personal data export added successfully!' as message;
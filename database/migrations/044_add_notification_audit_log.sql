@@ -0,0 +1,223 @@
+-- Migration: Add Notification Audit Log and Data Retention
+-- Description: Moves the notification audit trail from app memory into the
+-- database. The push Edge Functions write one row per recipient of a flash
+-- offer or venue campaign, and the app logs pushes for the social
+-- notifications it sends through log_social_notification_audit. A daily job enforces the retention periods defined in
+-- PrivacyDataHandler (RETENTION_PERIODS): inactive device tokens after 30
+-- days, notification audit logs after 90 days, and records kept about
+-- deleted accounts after 365 days.
+-- Requirements: 15.8, 15.10
+
+-- ============================================================================
+-- Audit Log
+-- ============================================================================
+
+-- user_id has no foreign key so the trail survives account deletion until
+-- the retention job removes it
+CREATE TABLE IF NOT EXISTS notification_audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  sender_id UUID,
+  notification_type TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'flash_offer_push', 'venue_campaign_push')),
+  reference_id UUID,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  delivered_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_audit_logs_user
+  ON notification_audit_logs(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_audit_logs_type
+  ON notification_audit_logs(notification_type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_audit_logs_created
+  ON notification_audit_logs(created_at);
+
+-- One app entry per social notification
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_audit_logs_app_reference
+  ON notification_audit_logs(reference_id)
+  WHERE source = 'app';
+
+ALTER TABLE notification_audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification audit logs" ON notification_audit_logs;
+CREATE POLICY "Users can view own notification audit logs"
+  ON notification_audit_logs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view notification audit logs" ON notification_audit_logs;
+CREATE POLICY "Admins can view notification audit logs"
+  ON notification_audit_logs FOR SELECT
+  USING (is_platform_admin());
+
+-- Rows are written by log_social_notification_audit and by the Edge Functions
+-- with the service role; there is no INSERT policy
+DROP POLICY IF EXISTS "Users can log notifications they send" ON notification_audit_logs;
+
+COMMENT ON TABLE notification_audit_logs IS 'Audit trail of push notification sends, kept for 90 days';
+COMMENT ON COLUMN notification_audit_logs.user_id IS 'Recipient of the notification';
+COMMENT ON COLUMN notification_audit_logs.sender_id IS 'User who triggered the notification (venue owner for offers and campaigns)';
+COMMENT ON COLUMN notification_audit_logs.reference_id IS 'Flash offer or campaign ID for Edge Function sends, social notification ID for app sends';
+
+-- Log a push for a social notification the app sent. The entry must match a
+-- recent in-app notification to the same user, so callers can't add made-up
+-- entries to someone else's trail, and each notification is logged once.
+CREATE OR REPLACE FUNCTION log_social_notification_audit(
+  p_user_id UUID,
+  p_notification_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_recipient_count INTEGER,
+  p_delivered_count INTEGER,
+  p_failed_count INTEGER,
+  p_success BOOLEAN,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_notification_id UUID;
+  v_log_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT n.id INTO v_notification_id
+  FROM social_notifications n
+  WHERE n.user_id = p_user_id
+  AND n.type = p_notification_type
+  AND n.title = p_title
+  AND n.body = p_body
+  AND (n.actor_id IS NULL OR n.actor_id = auth.uid())
+  AND n.created_at > NOW() - INTERVAL '1 hour'
+  AND NOT EXISTS (
+    SELECT 1 FROM notification_audit_logs l
+    WHERE l.source = 'app' AND l.reference_id = n.id
+  )
+  ORDER BY n.created_at DESC
+  LIMIT 1;
+
+  IF v_notification_id IS NULL THEN
+    RAISE EXCEPTION 'No matching notification to log';
+  END IF;
+
+  INSERT INTO notification_audit_logs (
+    user_id, sender_id, notification_type, source, reference_id, title, body,
+    recipient_count, delivered_count, failed_count, success, metadata
+  )
+  VALUES (
+    p_user_id, auth.uid(), p_notification_type, 'app', v_notification_id, p_title, p_body,
+    GREATEST(p_recipient_count, 0), GREATEST(p_delivered_count, 0), GREATEST(p_failed_count, 0),
+    p_success, COALESCE(p_metadata, '{}')
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION log_social_notification_audit(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION log_social_notification_audit IS 'Audit a push for a social notification the caller sent';
+
+-- Totals for a date range, for compliance reporting
+CREATE OR REPLACE FUNCTION get_notification_audit_stats(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_notifications BIGINT,
+  successful_notifications BIGINT,
+  total_recipients BIGINT,
+  total_delivered BIGINT,
+  total_failed BIGINT
+) AS $$
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can view notification audit stats';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE l.success),
+    COALESCE(SUM(l.recipient_count), 0)::BIGINT,
+    COALESCE(SUM(l.delivered_count), 0)::BIGINT,
+    COALESCE(SUM(l.failed_count), 0)::BIGINT
+  FROM notification_audit_logs l
+  WHERE l.created_at >= p_from
+  AND l.created_at < p_to;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_notification_audit_stats(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION get_notification_audit_stats IS 'Notification send totals for a date range (admins only)';
+
+-- ============================================================================
+-- Retention
+-- ============================================================================
+
+-- Mirrors RETENTION_PERIODS in PrivacyDataHandler - keep them in sync
+CREATE OR REPLACE FUNCTION enforce_data_retention()
+RETURNS JSONB AS $$
+DECLARE
+  v_summary JSONB := '{}'::JSONB;
+  v_count INTEGER;
+BEGIN
+  -- DEVICE_TOKENS: inactive tokens are deleted after 30 days
+  DELETE FROM device_tokens
+  WHERE is_active = false
+  AND updated_at < NOW() - INTERVAL '30 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('device_tokens_deleted', v_count);
+
+  -- NOTIFICATION_LOGS: audit logs are kept for 90 days
+  DELETE FROM notification_audit_logs
+  WHERE created_at < NOW() - INTERVAL '90 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('notification_audit_logs_deleted', v_count);
+
+  -- USER_DATA: records of a deleted account are kept for 1 year
+  DELETE FROM account_deletion_requests
+  WHERE status = 'completed'
+  AND completed_at < NOW() - INTERVAL '365 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('account_deletion_records_deleted', v_count);
+
+  RAISE NOTICE 'Data retention: %', v_summary;
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enforce_data_retention() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION enforce_data_retention IS 'Delete device tokens, notification audit logs and deleted-account records past their retention period';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'enforce-data-retention') THEN
+      PERFORM cron.unschedule('enforce-data-retention');
+    END IF;
+
+    PERFORM cron.schedule(
+      'enforce-data-retention',
+      '0 4 * * *',
+      $cron$ SELECT enforce_data_retention(); $cron$
+    );
+    RAISE NOTICE 'Scheduled enforce-data-retention job (daily)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule enforce_data_retention() manually';
+  END IF;
+END $$;
+
+-- Success message
+SELECT 'Notification audit log and data retention added successfully!' as message;
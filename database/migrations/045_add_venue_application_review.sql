@@ -0,0 +1,176 @@
+-- Migration: Add Venue Application Review
+-- Description: Lets platform admins review venue applications: ask the
+-- applicant for more information (under_review), reject with a reason, or
+-- approve. Approving creates the venue and the owner's business account in
+-- the same transaction, which makes the applicant a venue owner, and every
+-- decision is sent to the applicant as an in-app notification.
+-- Requirements: Venue Onboarding - Application Review
+
+-- ============================================================================
+-- Admin Access
+-- ============================================================================
+
+-- The old policy compared the JWT's top-level role claim, which is always
+-- 'authenticated', so no admin could ever see the applications
+DROP POLICY IF EXISTS "Admins can manage all venue applications" ON venue_applications;
+CREATE POLICY "Admins can manage all venue applications"
+  ON venue_applications FOR ALL
+  USING (is_platform_admin());
+
+CREATE INDEX IF NOT EXISTS idx_venue_applications_owner_user
+  ON venue_applications(owner_user_id);
+
+-- Approval is handled by review_venue_application. The trigger ran as the
+-- reviewing admin, so its inserts into venues were rejected by RLS.
+DROP TRIGGER IF EXISTS create_business_account_on_approval_trigger ON venue_applications;
+DROP FUNCTION IF EXISTS create_business_account_on_approval();
+
+-- ============================================================================
+-- Review
+-- ============================================================================
+
+-- Record a decision on an application. Asking for more information and
+-- rejecting need a note, since the note is what the applicant is told.
+-- Approved and rejected applications are final.
+CREATE OR REPLACE FUNCTION review_venue_application(
+  p_application_id UUID,
+  p_decision TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_application venue_applications%ROWTYPE;
+  v_notes TEXT := NULLIF(TRIM(p_notes), '');
+  v_venue_id UUID;
+  v_business_account_id UUID;
+  v_title TEXT;
+  v_message TEXT;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can review venue applications';
+  END IF;
+
+  IF p_decision NOT IN ('under_review', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  IF p_decision <> 'approved' AND v_notes IS NULL THEN
+    RAISE EXCEPTION 'Add a note telling the applicant what is needed';
+  END IF;
+
+  SELECT * INTO v_application
+  FROM venue_applications
+  WHERE id = p_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue application not found';
+  END IF;
+
+  IF v_application.status IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'This application has already been %', v_application.status;
+  END IF;
+
+  UPDATE venue_applications
+  SET status = p_decision,
+      admin_notes = v_notes,
+      reviewed_by = v_admin_id,
+      reviewed_at = NOW()
+  WHERE id = p_application_id;
+
+  IF p_decision = 'approved' THEN
+    INSERT INTO venues (
+      name,
+      description,
+      category,
+      location,
+      address,
+      phone,
+      website,
+      rating,
+      review_count,
+      amenities,
+      hours,
+      price_range
+    )
+    VALUES (
+      v_application.venue_name,
+      COALESCE(v_application.description, 'Welcome to ' || v_application.venue_name),
+      v_application.venue_type,
+      v_application.city || ', ' || v_application.state,
+      v_application.address,
+      v_application.phone,
+      v_application.website,
+      0.0,
+      0,
+      '{}',
+      '{}',
+      '$$'
+    )
+    RETURNING id INTO v_venue_id;
+
+    -- The owner was vetted as part of the application
+    INSERT INTO venue_business_accounts (
+      venue_id,
+      owner_user_id,
+      application_id,
+      subscription_tier,
+      verification_status,
+      billing_email
+    )
+    VALUES (
+      v_venue_id,
+      v_application.owner_user_id,
+      v_application.id,
+      'free',
+      'verified',
+      v_application.owner_email
+    )
+    RETURNING id INTO v_business_account_id;
+  END IF;
+
+  v_title := CASE p_decision
+    WHEN 'approved' THEN 'Venue Application Approved'
+    WHEN 'rejected' THEN 'Venue Application Not Approved'
+    ELSE 'More Information Needed'
+  END;
+
+  v_message := CASE p_decision
+    WHEN 'approved' THEN v_application.venue_name || ' is live! Open the app to manage your venue.'
+      || COALESCE(' ' || v_notes, '')
+    WHEN 'rejected' THEN 'We couldn''t approve ' || v_application.venue_name || '. ' || v_notes
+    ELSE 'We need more information about ' || v_application.venue_name || ': ' || v_notes
+  END;
+
+  IF v_application.owner_user_id IS NOT NULL THEN
+    INSERT INTO social_notifications (user_id, type, reference_id, title, body, data, read)
+    VALUES (
+      v_application.owner_user_id,
+      'venue_application_update',
+      v_application.id,
+      v_title,
+      v_message,
+      jsonb_build_object('status', p_decision, 'venue_id', v_venue_id),
+      false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'application_id', v_application.id,
+    'status', p_decision,
+    'owner_user_id', v_application.owner_user_id,
+    'venue_id', v_venue_id,
+    'business_account_id', v_business_account_id,
+    'title', v_title,
+    'message', v_message
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION review_venue_application(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION review_venue_application IS 'Admin-only: request more information on, approve or reject a venue application; approving creates the venue and business account';
+
+-- Success message
+SELECT 'Venue application review added successfully!' as message;
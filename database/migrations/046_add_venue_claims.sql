@@ -0,0 +1,624 @@
+-- Migration: Add Venue Claims
+-- Description: Lets the owner of a venue that is already listed claim it
+-- instead of applying for a new one. A claim is a venue application linked to
+-- the existing venue. The claimant proves ownership with a 6-digit code sent
+-- to the venue's phone number or website contact, and only one claim per
+-- venue can be open at a time. A claim that is still unverified after 24
+-- hours is released so it can't hold the venue indefinitely. Admins review
+-- claims in the application console; approving a claim gives the claimant
+-- the existing venue rather than creating a new one.
+-- Requirements: Venue Onboarding - Claim Existing Venue
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================================================
+-- Claims
+-- ============================================================================
+
+ALTER TABLE venue_applications
+  ADD COLUMN IF NOT EXISTS venue_id UUID REFERENCES venues(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS claim_verified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN venue_applications.venue_id IS 'Existing venue being claimed (NULL for new venue applications)';
+COMMENT ON COLUMN venue_applications.claim_verified_at IS 'When the claimant entered the code sent to the venue contact';
+
+-- One open claim per venue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_applications_open_claim
+  ON venue_applications(venue_id)
+  WHERE venue_id IS NOT NULL AND status IN ('pending', 'under_review');
+
+-- Claims are created and verified by the functions below, which run as the
+-- table owner. Direct writes can't link an application to a venue or mark
+-- it verified.
+CREATE OR REPLACE FUNCTION protect_venue_claim_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.venue_id := NULL;
+    NEW.claim_verified_at := NULL;
+  ELSIF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+     OR NEW.claim_verified_at IS DISTINCT FROM OLD.claim_verified_at THEN
+    RAISE EXCEPTION 'Venue claims can only be changed through the claim flow';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_venue_claim_columns_trigger ON venue_applications;
+CREATE TRIGGER protect_venue_claim_columns_trigger
+  BEFORE INSERT OR UPDATE ON venue_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_venue_claim_columns();
+
+-- RLS is enabled with no policies, so codes are only readable by the
+-- SECURITY DEFINER functions below
+CREATE TABLE IF NOT EXISTS venue_claim_codes (
+  application_id UUID PRIMARY KEY REFERENCES venue_applications(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('phone', 'website')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  send_count INTEGER NOT NULL DEFAULT 1,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE venue_claim_codes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE venue_claim_codes IS 'Latest ownership code sent for each venue claim (bcrypt hash)';
+COMMENT ON COLUMN venue_claim_codes.send_count IS 'Codes sent for the claim so far, including the current one';
+
+-- ============================================================================
+-- Stale Claims
+-- ============================================================================
+
+-- Release pending claims that are still unverified 24 hours after they were
+-- opened, so a claim nobody verifies can't hold the venue's open-claim slot.
+-- Claims that are waiting on an admin are kept: the claimant used up their
+-- codes, or the venue has no phone or website to send a code to. Runs hourly,
+-- and for a single venue or claimant before claims are checked or created.
+CREATE OR REPLACE FUNCTION expire_stale_venue_claims(
+  p_venue_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_application RECORD;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_application IN
+    SELECT a.id, a.owner_user_id, a.venue_id, a.venue_name
+    FROM venue_applications a
+    JOIN venues v ON v.id = a.venue_id
+    WHERE a.venue_id IS NOT NULL
+    AND a.status = 'pending'
+    AND a.claim_verified_at IS NULL
+    AND a.created_at < NOW() - INTERVAL '24 hours'
+    AND (p_venue_id IS NULL OR a.venue_id = p_venue_id)
+    AND (p_user_id IS NULL OR a.owner_user_id = p_user_id)
+    AND (NULLIF(TRIM(v.phone), '') IS NOT NULL OR NULLIF(TRIM(v.website), '') IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM venue_claim_codes c
+      WHERE c.application_id = a.id
+      AND c.send_count >= 5
+    )
+    FOR UPDATE OF a SKIP LOCKED
+  LOOP
+    UPDATE venue_applications
+    SET status = 'rejected',
+        admin_notes = 'Ownership was not verified within 24 hours',
+        reviewed_at = NOW()
+    WHERE id = v_application.id;
+
+    DELETE FROM venue_claim_codes WHERE application_id = v_application.id;
+
+    IF v_application.owner_user_id IS NOT NULL THEN
+      INSERT INTO social_notifications (user_id, type, reference_id, title, body, data, read)
+      VALUES (
+        v_application.owner_user_id,
+        'venue_application_update',
+        v_application.id,
+        'Venue Claim Expired',
+        'Your claim on ' || v_application.venue_name || ' expired because ownership was not verified within 24 hours. You can start a new claim from the venue page.',
+        jsonb_build_object('status', 'rejected', 'venue_id', v_application.venue_id),
+        false
+      );
+    END IF;
+
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_venue_claims(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION expire_stale_venue_claims IS 'Reject pending venue claims left unverified for 24 hours';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-venue-claims') THEN
+      PERFORM cron.unschedule('expire-venue-claims');
+    END IF;
+
+    PERFORM cron.schedule(
+      'expire-venue-claims',
+      '15 * * * *',
+      $cron$ SELECT expire_stale_venue_claims(); $cron$
+    );
+    RAISE NOTICE 'Scheduled expire-venue-claims job (hourly)';
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; schedule expire_stale_venue_claims() manually';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Claim Status
+-- ============================================================================
+
+-- Whether the current user can claim a venue. Other users' open claims are
+-- not visible through RLS, so this reports them without exposing who made them.
+CREATE OR REPLACE FUNCTION get_venue_claim_status(p_venue_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_venue RECORD;
+  v_claim RECORD;
+  v_methods TEXT[] := '{}';
+BEGIN
+  SELECT id, phone, website INTO v_venue FROM venues WHERE id = p_venue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue not found';
+  END IF;
+
+  IF NULLIF(TRIM(v_venue.phone), '') IS NOT NULL THEN
+    v_methods := v_methods || 'phone';
+  END IF;
+
+  IF NULLIF(TRIM(v_venue.website), '') IS NOT NULL THEN
+    v_methods := v_methods || 'website';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM venue_business_accounts WHERE venue_id = p_venue_id) THEN
+    RETURN jsonb_build_object('status', 'claimed', 'contact_methods', to_jsonb(v_methods));
+  END IF;
+
+  PERFORM expire_stale_venue_claims(p_venue_id);
+
+  SELECT id, owner_user_id, claim_verified_at INTO v_claim
+  FROM venue_applications
+  WHERE venue_id = p_venue_id
+  AND status IN ('pending', 'under_review');
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'claimable', 'contact_methods', to_jsonb(v_methods));
+  END IF;
+
+  IF v_claim.owner_user_id = auth.uid() THEN
+    RETURN jsonb_build_object(
+      'status', 'own_claim',
+      'application_id', v_claim.id,
+      'verified', v_claim.claim_verified_at IS NOT NULL,
+      'contact_methods', to_jsonb(v_methods)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('status', 'claim_in_progress', 'contact_methods', to_jsonb(v_methods));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_venue_claim_status(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_venue_claim_status IS 'Whether a venue is claimed, has an open claim, or can be claimed by the current user';
+
+-- ============================================================================
+-- Create Claim
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_venue_claim(
+  p_venue_id UUID,
+  p_owner_name TEXT,
+  p_owner_email TEXT,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_venue venues%ROWTYPE;
+  v_application_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NULLIF(TRIM(p_owner_name), '') IS NULL OR NULLIF(TRIM(p_owner_email), '') IS NULL THEN
+    RAISE EXCEPTION 'Your name and email are required';
+  END IF;
+
+  SELECT * INTO v_venue FROM venues WHERE id = p_venue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM venue_business_accounts WHERE venue_id = p_venue_id) THEN
+    RAISE EXCEPTION 'This venue has already been claimed';
+  END IF;
+
+  PERFORM expire_stale_venue_claims(p_venue_id);
+  PERFORM expire_stale_venue_claims(NULL, v_user_id);
+
+  IF EXISTS (
+    SELECT 1 FROM venue_applications
+    WHERE venue_id = p_venue_id
+    AND status IN ('pending', 'under_review')
+  ) THEN
+    RAISE EXCEPTION 'Someone has already started a claim for this venue. Contact support if you are the owner.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM venue_applications
+    WHERE owner_user_id = v_user_id
+    AND status IN ('pending', 'under_review')
+  ) THEN
+    RAISE EXCEPTION 'You already have a pending venue application. Please wait for review.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM venue_applications
+    WHERE owner_email = TRIM(p_owner_email)
+    AND status IN ('pending', 'under_review')
+  ) THEN
+    RAISE EXCEPTION 'This email is already associated with a pending venue application';
+  END IF;
+
+  -- Listed venues only have a neighborhood, which goes in city
+  INSERT INTO venue_applications (
+    venue_name, venue_type, address, city, state, phone, website,
+    owner_name, owner_email, owner_user_id, description, status, venue_id
+  )
+  VALUES (
+    v_venue.name,
+    v_venue.category,
+    v_venue.address,
+    v_venue.location,
+    '',
+    v_venue.phone,
+    v_venue.website,
+    TRIM(p_owner_name),
+    TRIM(p_owner_email),
+    v_user_id,
+    NULLIF(TRIM(p_description), ''),
+    'pending',
+    p_venue_id
+  )
+  RETURNING id INTO v_application_id;
+
+  RETURN v_application_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_venue_claim(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION create_venue_claim IS 'Open a claim on a listed venue for the current user';
+
+-- ============================================================================
+-- Ownership Codes
+-- ============================================================================
+
+-- Send a new code to the venue's phone or website contact. No SMS or email
+-- provider is connected yet, so delivery is simulated: databases with
+-- app.simulate_venue_claim_codes = 'on' (local and staging) return the code
+-- to the app, which shows it in place of the message. Elsewhere the code is
+-- not returned and admins verify the claim by hand. Each claim gets at most 5
+-- codes, so guesses are capped at 25 however often codes are requested.
+CREATE OR REPLACE FUNCTION send_venue_claim_code(
+  p_application_id UUID,
+  p_method TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_application venue_applications%ROWTYPE;
+  v_venue venues%ROWTYPE;
+  v_last_code venue_claim_codes%ROWTYPE;
+  v_max_sends INTEGER := 5;
+  v_code TEXT;
+  v_destination TEXT;
+  v_expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  SELECT * INTO v_application FROM venue_applications WHERE id = p_application_id;
+
+  IF NOT FOUND OR v_application.owner_user_id <> auth.uid() OR v_application.venue_id IS NULL THEN
+    RAISE EXCEPTION 'Venue claim not found';
+  END IF;
+
+  IF v_application.status NOT IN ('pending', 'under_review') THEN
+    RAISE EXCEPTION 'This claim has already been %', v_application.status;
+  END IF;
+
+  IF v_application.claim_verified_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This claim has already been verified';
+  END IF;
+
+  SELECT * INTO v_venue FROM venues WHERE id = v_application.venue_id;
+
+  IF p_method NOT IN ('phone', 'website') THEN
+    RAISE EXCEPTION 'Unknown verification method: %', p_method;
+  END IF;
+
+  IF (p_method = 'phone' AND NULLIF(TRIM(v_venue.phone), '') IS NULL)
+     OR (p_method = 'website' AND NULLIF(TRIM(v_venue.website), '') IS NULL) THEN
+    RAISE EXCEPTION 'This venue has no % on file', p_method;
+  END IF;
+
+  -- Only the end of the contact is shown to the claimant
+  v_destination := CASE p_method
+    WHEN 'phone' THEN '•••' || RIGHT(regexp_replace(v_venue.phone, '\D', '', 'g'), 4)
+    ELSE regexp_replace(v_venue.website, '^(https?://)?(www\.)?([^/]*).*$', '\3')
+  END;
+
+  SELECT * INTO v_last_code
+  FROM venue_claim_codes
+  WHERE application_id = p_application_id
+  FOR UPDATE;
+
+  IF v_last_code.send_count >= v_max_sends THEN
+    RAISE EXCEPTION 'Too many codes requested. An admin will verify your claim instead.';
+  END IF;
+
+  IF v_last_code.sent_at > NOW() - INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'Please wait a minute before requesting another code';
+  END IF;
+
+  -- 32 random bits reduced to 6 digits; the modulo bias is negligible
+  v_code := LPAD(
+    (('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+
+  INSERT INTO venue_claim_codes (application_id, code_hash, method, attempts, send_count, sent_at, expires_at)
+  VALUES (p_application_id, crypt(v_code, gen_salt('bf')), p_method, 0, 1, NOW(), v_expires_at)
+  ON CONFLICT (application_id) DO UPDATE
+  SET code_hash = EXCLUDED.code_hash,
+      method = EXCLUDED.method,
+      attempts = 0,
+      send_count = venue_claim_codes.send_count + 1,
+      sent_at = EXCLUDED.sent_at,
+      expires_at = EXCLUDED.expires_at;
+
+  RETURN jsonb_build_object(
+    'method', p_method,
+    'destination', v_destination,
+    'expires_at', v_expires_at,
+    'simulated_code', CASE
+      WHEN current_setting('app.simulate_venue_claim_codes', true) = 'on' THEN v_code
+    END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION send_venue_claim_code(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION send_venue_claim_code IS 'Send a claim ownership code to the venue phone or website contact (delivery simulated)';
+
+-- Check a code. Wrong codes count against 5 attempts; after that, or once the
+-- code expires, a new one has to be sent.
+CREATE OR REPLACE FUNCTION verify_venue_claim_code(
+  p_application_id UUID,
+  p_code TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_application venue_applications%ROWTYPE;
+  v_code venue_claim_codes%ROWTYPE;
+  v_max_attempts INTEGER := 5;
+BEGIN
+  SELECT * INTO v_application FROM venue_applications WHERE id = p_application_id;
+
+  IF NOT FOUND OR v_application.owner_user_id <> auth.uid() OR v_application.venue_id IS NULL THEN
+    RAISE EXCEPTION 'Venue claim not found';
+  END IF;
+
+  IF v_application.claim_verified_at IS NOT NULL THEN
+    RETURN jsonb_build_object('verified', true, 'attempts_remaining', 0);
+  END IF;
+
+  SELECT * INTO v_code FROM venue_claim_codes WHERE application_id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND OR v_code.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This code has expired. Request a new one.';
+  END IF;
+
+  IF v_code.attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'Too many incorrect codes. Request a new one.';
+  END IF;
+
+  IF crypt(TRIM(p_code), v_code.code_hash) <> v_code.code_hash THEN
+    UPDATE venue_claim_codes SET attempts = attempts + 1 WHERE application_id = p_application_id;
+
+    RETURN jsonb_build_object(
+      'verified', false,
+      'attempts_remaining', v_max_attempts - v_code.attempts - 1
+    );
+  END IF;
+
+  UPDATE venue_applications SET claim_verified_at = NOW() WHERE id = p_application_id;
+
+  DELETE FROM venue_claim_codes WHERE application_id = p_application_id;
+
+  RETURN jsonb_build_object('verified', true, 'attempts_remaining', 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION verify_venue_claim_code(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION verify_venue_claim_code IS 'Check a claim ownership code and mark the claim verified';
+
+-- ============================================================================
+-- Review
+-- ============================================================================
+
+-- Same as 045, except that approving a claim hands over the existing venue.
+-- The business account is only marked verified when the claimant entered the
+-- ownership code.
+CREATE OR REPLACE FUNCTION review_venue_application(
+  p_application_id UUID,
+  p_decision TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_application venue_applications%ROWTYPE;
+  v_notes TEXT := NULLIF(TRIM(p_notes), '');
+  v_venue_id UUID;
+  v_business_account_id UUID;
+  v_title TEXT;
+  v_message TEXT;
+BEGIN
+  IF NOT is_platform_admin() THEN
+    RAISE EXCEPTION 'Only admins can review venue applications';
+  END IF;
+
+  IF p_decision NOT IN ('under_review', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  IF p_decision <> 'approved' AND v_notes IS NULL THEN
+    RAISE EXCEPTION 'Add a note telling the applicant what is needed';
+  END IF;
+
+  SELECT * INTO v_application
+  FROM venue_applications
+  WHERE id = p_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue application not found';
+  END IF;
+
+  IF v_application.status IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'This application has already been %', v_application.status;
+  END IF;
+
+  IF p_decision = 'approved' AND v_application.venue_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM venue_business_accounts WHERE venue_id = v_application.venue_id) THEN
+    RAISE EXCEPTION 'This venue already has an owner';
+  END IF;
+
+  UPDATE venue_applications
+  SET status = p_decision,
+      admin_notes = v_notes,
+      reviewed_by = v_admin_id,
+      reviewed_at = NOW()
+  WHERE id = p_application_id;
+
+  IF p_decision = 'approved' AND v_application.venue_id IS NOT NULL THEN
+    v_venue_id := v_application.venue_id;
+  ELSIF p_decision = 'approved' THEN
+    INSERT INTO venues (
+      name,
+      description,
+      category,
+      location,
+      address,
+      phone,
+      website,
+      rating,
+      review_count,
+      amenities,
+      hours,
+      price_range
+    )
+    VALUES (
+      v_application.venue_name,
+      COALESCE(v_application.description, 'Welcome to ' || v_application.venue_name),
+      v_application.venue_type,
+      v_application.city || ', ' || v_application.state,
+      v_application.address,
+      v_application.phone,
+      v_application.website,
+      0.0,
+      0,
+      '{}',
+      '{}',
+      '$$'
+    )
+    RETURNING id INTO v_venue_id;
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    INSERT INTO venue_business_accounts (
+      venue_id,
+      owner_user_id,
+      application_id,
+      subscription_tier,
+      verification_status,
+      billing_email
+    )
+    VALUES (
+      v_venue_id,
+      v_application.owner_user_id,
+      v_application.id,
+      'free',
+      CASE
+        WHEN v_application.venue_id IS NULL OR v_application.claim_verified_at IS NOT NULL THEN 'verified'
+        ELSE 'pending'
+      END,
+      v_application.owner_email
+    )
+    RETURNING id INTO v_business_account_id;
+  END IF;
+
+  v_title := CASE
+    WHEN p_decision = 'approved' AND v_application.venue_id IS NOT NULL THEN 'Venue Claim Approved'
+    WHEN p_decision = 'approved' THEN 'Venue Application Approved'
+    WHEN p_decision = 'rejected' THEN 'Venue Application Not Approved'
+    ELSE 'More Information Needed'
+  END;
+
+  v_message := CASE
+    WHEN p_decision = 'approved' AND v_application.venue_id IS NOT NULL THEN
+      'You can now manage ' || v_application.venue_name || '. Open the app to get started.'
+      || COALESCE(' ' || v_notes, '')
+    WHEN p_decision = 'approved' THEN
+      v_application.venue_name || ' is live! Open the app to manage your venue.'
+      || COALESCE(' ' || v_notes, '')
+    WHEN p_decision = 'rejected' THEN 'We couldn''t approve ' || v_application.venue_name || '. ' || v_notes
+    ELSE 'We need more information about ' || v_application.venue_name || ': ' || v_notes
+  END;
+
+  IF v_application.owner_user_id IS NOT NULL THEN
+    INSERT INTO social_notifications (user_id, type, reference_id, title, body, data, read)
+    VALUES (
+      v_application.owner_user_id,
+      'venue_application_update',
+      v_application.id,
+      v_title,
+      v_message,
+      jsonb_build_object('status', p_decision, 'venue_id', v_venue_id),
+      false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'application_id', v_application.id,
+    'status', p_decision,
+    'owner_user_id', v_application.owner_user_id,
+    'venue_id', v_venue_id,
+    'business_account_id', v_business_account_id,
+    'title', v_title,
+    'message', v_message
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Success message
+SELECT 'Venue claims added successfully!' as message;
@@ -171,6 +171,20 @@ jest.mock('react-native-image-picker', () => ({
   launchCamera: jest.fn(),
 }));
 
+// Mock react-native-qrcode-svg
+jest.mock('react-native-qrcode-svg', () => 'QRCode');
+
+// Mock react-native-vision-camera
+jest.mock('react-native-vision-camera', () => ({
+  Camera: 'Camera',
+  useCameraDevice: jest.fn(() => null),
+  useCameraPermission: jest.fn(() => ({
+    hasPermission: false,
+    requestPermission: jest.fn(() => Promise.resolve(false)),
+  })),
+  useCodeScanner: jest.fn((config) => config),
+}));
+
 // Mock @react-native-community/geolocation
 jest.mock('@react-native-community/geolocation', () => ({
   __esModule: true,
@@ -5,7 +5,8 @@
  * The button adapts its appearance and behavior based on eligibility and claim status.
  * 
  * Features:
- * - State-driven rendering (claimable, claimed, loading, not_checked_in, full, expired)
+ * - State-driven rendering (claimable, claimed, loading, not_checked_in, full, expired,
+ *   not_favorite, outside_radius)
  * - Integrates with useClaimFlashOfferMutation for claim operations
  * - Provides visual feedback for each state
  * - Handles errors and success states
@@ -28,12 +29,13 @@ import type { NavigationProp } from '@react-navigation/native';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useClaimFlashOfferMutation } from '../../hooks/mutations/useClaimFlashOfferMutation';
+import { ClaimIneligibleError } from '../../services/api/flashOfferClaims';
 import { deriveClaimButtonState } from '../../utils/claimButtonState';
 import { handleClaimError, type ClaimErrorResponse } from '../../utils/claimErrorHandler';
 import { triggerSuccessHaptic } from '../../utils/haptics';
 import ClaimFeedbackModal from '../ClaimFeedbackModal/ClaimFeedbackModal';
 import type { FlashOffer } from '../../types/flashOffer.types';
-import type { FlashOfferClaim } from '../../types/flashOfferClaim.types';
+import type { FlashOfferClaim, ClaimIneligibilityReason } from '../../types/flashOfferClaim.types';
 import type { ClaimButtonState, ClaimButtonVariant } from '../../types/claimButton.types';
 import type { RootTabParamList } from '../../types/navigation.types';
 
@@ -41,6 +43,7 @@ export interface ClaimButtonProps {
   offer: FlashOffer;
   userClaim: FlashOfferClaim | null;
   isCheckedIn: boolean;
+  ineligibilityReason?: ClaimIneligibilityReason | null;
   onClaimSuccess?: (claim: FlashOfferClaim) => void;
   onPress?: () => void;
   onNavigate?: (target: string) => void;
@@ -115,6 +118,24 @@ function getButtonConfig(
         accessibilityLabel: 'Offer expired',
         accessibilityHint: 'This offer is no longer available',
       };
+    case 'not_favorite':
+      return {
+        label: 'Favorites Only',
+        variant: 'secondary',
+        icon: 'heart-outline',
+        disabled: false,
+        accessibilityLabel: 'Offer for favorites only',
+        accessibilityHint: 'Double tap to view the venue. Add it to your favorites to claim this offer',
+      };
+    case 'outside_radius':
+      return {
+        label: 'Out of Range',
+        variant: 'disabled',
+        icon: 'navigate-outline',
+        disabled: true,
+        accessibilityLabel: 'Out of range',
+        accessibilityHint: "You're too far from the venue to claim this offer",
+      };
   }
 }
 
@@ -169,6 +190,7 @@ const ClaimButtonComponent: React.FC<ClaimButtonProps> = ({
   offer,
   userClaim,
   isCheckedIn,
+  ineligibilityReason = null,
   onClaimSuccess,
   onPress,
   onNavigate,
@@ -180,6 +202,7 @@ const ClaimButtonComponent: React.FC<ClaimButtonProps> = ({
   const [errorResponse, setErrorResponse] = useState<ClaimErrorResponse | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successClaim, setSuccessClaim] = useState<FlashOfferClaim | null>(null);
+  const [claimRejectionReason, setClaimRejectionReason] = useState<ClaimIneligibilityReason | null>(null);
 
   // Memoize mutation success handler to prevent recreation
   const handleMutationSuccess = useCallback(
@@ -212,6 +235,11 @@ const ClaimButtonComponent: React.FC<ClaimButtonProps> = ({
     // Handle error and get structured response
     const errorResp = handleClaimError(err);
     setErrorResponse(errorResp);
+
+    // Remember targeting rejections so the button stops offering the claim
+    if (err instanceof ClaimIneligibleError) {
+      setClaimRejectionReason(err.reason);
+    }
   }, []);
 
   // Set up claim mutation with callbacks
@@ -223,10 +251,14 @@ const ClaimButtonComponent: React.FC<ClaimButtonProps> = ({
   // Derive button state based on all inputs (memoized)
   const buttonState = useMemo(
     () =>
-      deriveClaimButtonState(offer, userClaim, isCheckedIn, {
-        isLoading: isPending,
-      }),
-    [offer, userClaim, isCheckedIn, isPending]
+      deriveClaimButtonState(
+        offer,
+        userClaim,
+        isCheckedIn,
+        { isLoading: isPending },
+        claimRejectionReason ?? ineligibilityReason
+      ),
+    [offer, userClaim, isCheckedIn, isPending, claimRejectionReason, ineligibilityReason]
   );
 
   // Get button configuration for current state (memoized)
@@ -58,9 +58,17 @@ const CheckInButton: React.FC<CheckInButtonProps> = ({
 
   // React Query mutations
   const checkInMutation = useCheckInMutation({
-    onSuccess: () => {
+    onSuccess: (checkIn) => {
       onCheckInChange(true, activeCheckIns + 1);
       setShowModal(false);
+
+      // Let the user know an unverified check-in may not unlock flash offers
+      if (checkIn.verification_status === 'unverified') {
+        Alert.alert(
+          'Check-In Not Verified',
+          `${CheckInService.getVerificationMessage(checkIn.verification_reason)} You're checked into ${venueName}, but some flash offers may require a verified check-in.`
+        );
+      }
     },
     onError: (error) => {
       console.error('Error checking in:', error);
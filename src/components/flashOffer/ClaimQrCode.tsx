@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { ClaimService } from '../../services/api/flashOfferClaims';
+
+// Request the next code this long before the current one expires
+const REFRESH_LEAD_MS = 5000;
+// Retry delay after a failed request
+const RETRY_DELAY_MS = 10000;
+
+interface ClaimQrCodeProps {
+  claimId: string;
+  size?: number;
+}
+
+/**
+ * ClaimQrCode component shows a rotating, server-signed QR code for a claim
+ *
+ * Features:
+ * - Fetches a new signed payload shortly before the current one expires (~30s)
+ * - Screenshots stop scanning once the payload they contain expires
+ * - Falls back to a message pointing at the numeric token if the code can't load
+ */
+export const ClaimQrCode: React.FC<ClaimQrCodeProps> = ({ claimId, size = 180 }) => {
+  const { theme } = useTheme();
+  const [payload, setPayload] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refresh = async () => {
+      try {
+        const qr = await ClaimService.getClaimQrPayload(claimId);
+        if (cancelled) return;
+
+        setPayload(qr.payload);
+        setFailed(false);
+
+        const delay = new Date(qr.expires_at).getTime() - Date.now() - REFRESH_LEAD_MS;
+        timer = setTimeout(refresh, Math.max(delay, REFRESH_LEAD_MS));
+      } catch (error) {
+        if (cancelled) return;
+
+        console.warn('Failed to refresh claim QR code:', error);
+        setPayload(null);
+        setFailed(true);
+        timer = setTimeout(refresh, RETRY_DELAY_MS);
+      }
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [claimId]);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.codeFrame, { width: size + 24, height: size + 24 }]}>
+        {payload ? (
+          <QRCode value={payload} size={size} backgroundColor="#FFFFFF" color="#000000" />
+        ) : failed ? (
+          <Icon name="qr-code-outline" size={size / 2} color={theme.colors.textSecondary} />
+        ) : (
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        )}
+      </View>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        {failed
+          ? 'QR code unavailable. Staff can enter your token instead.'
+          : "Code refreshes automatically. Screenshots won't work."}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  codeFrame: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  caption: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
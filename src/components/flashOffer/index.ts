@@ -6,6 +6,7 @@
 
 export { FlashOfferCard } from './FlashOfferCard';
 export { EmptyState } from './EmptyState';
+export { ClaimQrCode } from './ClaimQrCode';
 export { default as FlashOfferNotificationBanner } from './FlashOfferNotificationBanner';
 export {
   FlashOfferCardSkeleton,
@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatCheckInTime } from '../../utils/formatting/time';
+import { useActivityCommentsQuery } from '../../hooks/queries/useActivityCommentsQuery';
+import {
+  useAddActivityCommentMutation,
+  useDeleteActivityCommentMutation,
+} from '../../hooks/mutations/useActivityEngagementMutations';
+import type { ActivityComment, ActivityFeedEntry } from '../../types/social.types';
+
+const MAX_COMMENT_LENGTH = 500;
+
+interface ActivityCommentsModalProps {
+  visible: boolean;
+  activity: ActivityFeedEntry | null;
+  onClose: () => void;
+}
+
+/**
+ * ActivityCommentsModal Component
+ *
+ * Modal showing threaded comments on an activity feed entry, with an input
+ * for adding comments and replying to existing ones.
+ */
+const ActivityCommentsModal: React.FC<ActivityCommentsModalProps> = ({
+  visible,
+  activity,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  const [commentText, setCommentText] = useState('');
+  const [replyTo, setReplyTo] = useState<ActivityComment | null>(null);
+
+  const activityId = activity?.id || '';
+
+  const { data: comments = [], isLoading } = useActivityCommentsQuery({
+    activityId,
+    enabled: visible,
+  });
+
+  const addComment = useAddActivityCommentMutation({
+    onError: (error) => {
+      Alert.alert('Comment Not Posted', error.message || 'Please try again.');
+    },
+  });
+
+  const deleteComment = useDeleteActivityCommentMutation({
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to delete comment.');
+    },
+  });
+
+  const handleClose = () => {
+    setCommentText('');
+    setReplyTo(null);
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!user?.id || !activityId || !commentText.trim()) {
+      return;
+    }
+
+    addComment.mutate({
+      activityId,
+      userId: user.id,
+      commentText,
+      parentCommentId: replyTo?.id,
+    });
+
+    setCommentText('');
+    setReplyTo(null);
+  };
+
+  const handleDelete = (comment: ActivityComment) => {
+    if (!user?.id) {
+      return;
+    }
+
+    Alert.alert('Delete Comment', 'Delete this comment and its replies?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          deleteComment.mutate({ commentId: comment.id, activityId, userId: user.id }),
+      },
+    ]);
+  };
+
+  const renderComment = (comment: ActivityComment, isReply = false) => {
+    const canDelete =
+      !comment.id.startsWith('temp-') &&
+      (comment.user_id === user?.id || activity?.user_id === user?.id);
+
+    return (
+      <View key={comment.id} style={[styles.commentRow, isReply && styles.replyRow]}>
+        {comment.user?.avatar_url ? (
+          <Image source={{ uri: comment.user.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, { backgroundColor: theme.colors.primary + '30' }]}>
+            <Icon name="person" size={14} color={theme.colors.primary} />
+          </View>
+        )}
+
+        <View style={styles.commentBody}>
+          <Text style={[styles.commentText, { color: theme.colors.text }]}>
+            <Text style={styles.commentAuthor}>
+              {comment.user_id === user?.id ? 'You' : comment.user?.name || 'Someone'}
+            </Text>
+            {' '}
+            {comment.comment_text}
+          </Text>
+
+          <View style={styles.commentMeta}>
+            <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+              {formatCheckInTime(comment.created_at)}
+            </Text>
+            {!isReply && (
+              <TouchableOpacity onPress={() => setReplyTo(comment)}>
+                <Text style={[styles.metaAction, { color: theme.colors.textSecondary }]}>
+                  Reply
+                </Text>
+              </TouchableOpacity>
+            )}
+            {canDelete && (
+              <TouchableOpacity onPress={() => handleDelete(comment)}>
+                <Text style={[styles.metaAction, { color: theme.colors.textSecondary }]}>
+                  Delete
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {comment.replies?.map((reply) => renderComment(reply, true))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            Comments
+          </Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          {isLoading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={theme.colors.primary} />
+            </View>
+          ) : (
+            <FlatList
+              data={comments}
+              renderItem={({ item }) => renderComment(item)}
+              keyExtractor={(item) => item.id}
+              contentContainerStyle={[styles.listContent, comments.length === 0 && styles.centered]}
+              ListEmptyComponent={
+                <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                  No comments yet. Be the first!
+                </Text>
+              }
+              keyboardShouldPersistTaps="handled"
+            />
+          )}
+
+          {/* Reply indicator */}
+          {replyTo && (
+            <View style={[styles.replyBanner, { backgroundColor: theme.colors.surface }]}>
+              <Text style={[styles.metaText, { color: theme.colors.textSecondary }]}>
+                Replying to {replyTo.user_id === user?.id ? 'yourself' : replyTo.user?.name || 'comment'}
+              </Text>
+              <TouchableOpacity onPress={() => setReplyTo(null)}>
+                <Icon name="close-circle" size={18} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Input */}
+          <View style={[styles.inputRow, { borderTopColor: theme.colors.border }]}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+              placeholderTextColor={theme.colors.textSecondary}
+              value={commentText}
+              onChangeText={setCommentText}
+              maxLength={MAX_COMMENT_LENGTH}
+              multiline
+            />
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={handleSubmit}
+              disabled={!commentText.trim() || addComment.isPending}
+            >
+              <Icon
+                name="send"
+                size={22}
+                color={commentText.trim() ? theme.colors.primary : theme.colors.textSecondary}
+              />
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  centered: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  commentRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  replyRow: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  commentAuthor: {
+    fontFamily: 'Inter-SemiBold',
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 16,
+  },
+  metaText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  metaAction: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 14,
+    maxHeight: 100,
+  },
+  sendButton: {
+    padding: 10,
+  },
+});
+
+export default ActivityCommentsModal;
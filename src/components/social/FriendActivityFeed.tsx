@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { formatCheckInTime } from '../../utils/formatting/time';
 import type { ActivityFeedEntry } from '../../types/social.types';
 import { ActivityFeedSkeleton } from './SkeletonLoaders';
@@ -16,6 +17,11 @@ import { queryClient } from '../../lib/queryClient';
 import { queryKeys } from '../../lib/queryKeys';
 import { ProfileService } from '../../services/api/profile';
 import { VenueService } from '../../services/api/venues';
+import {
+  useLikeActivityMutation,
+  useUnlikeActivityMutation,
+} from '../../hooks/mutations/useActivityEngagementMutations';
+import ActivityCommentsModal from './ActivityCommentsModal';
 
 interface FriendActivityFeedProps {
   activities: ActivityFeedEntry[];
@@ -30,6 +36,7 @@ interface FriendActivityFeedProps {
  * 
  * Displays a compact vertical list of recent friend activities.
  * Shows 3-5 most recent items with "See More" button to expand.
+ * Each item can be liked and opens a threaded comments sheet.
  * 
  * Requirements: 3.1, 3.11
  */
@@ -41,6 +48,22 @@ const FriendActivityFeed: React.FC<FriendActivityFeedProps> = ({
   loading = false,
 }) => {
   const { theme } = useTheme();
+  const { user } = useAuth();
+  const [commentsActivity, setCommentsActivity] = useState<ActivityFeedEntry | null>(null);
+
+  const likeActivity = useLikeActivityMutation();
+  const unlikeActivity = useUnlikeActivityMutation();
+
+  const handleLikePress = (activity: ActivityFeedEntry) => {
+    if (!user?.id) return;
+
+    const variables = { activityId: activity.id, userId: user.id };
+    if (activity.user_has_liked) {
+      unlikeActivity.mutate(variables);
+    } else {
+      likeActivity.mutate(variables);
+    }
+  };
 
   // Show skeleton loader while loading
   if (loading) {
@@ -214,6 +237,40 @@ const FriendActivityFeed: React.FC<FriendActivityFeedProps> = ({
           >
             {formattedTime}
           </Text>
+
+          {/* Likes and Comments */}
+          <View style={styles.engagementRow}>
+            <TouchableOpacity
+              style={styles.engagementButton}
+              onPress={() => handleLikePress(activity)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              testID={`activity-like-${activity.id}`}
+            >
+              <Icon
+                name={activity.user_has_liked ? 'heart' : 'heart-outline'}
+                size={16}
+                color={activity.user_has_liked ? '#FF69B4' : theme.colors.textSecondary}
+              />
+              <Text style={[styles.engagementText, { color: theme.colors.textSecondary }]}>
+                {activity.like_count || 0}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.engagementButton}
+              onPress={() => setCommentsActivity(activity)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              testID={`activity-comments-${activity.id}`}
+            >
+              <Icon
+                name="chatbubble-outline"
+                size={16}
+                color={theme.colors.textSecondary}
+              />
+              <Text style={[styles.engagementText, { color: theme.colors.textSecondary }]}>
+                {activity.comment_count || 0}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Chevron */}
@@ -291,6 +348,12 @@ const FriendActivityFeed: React.FC<FriendActivityFeedProps> = ({
           />
         </TouchableOpacity>
       )}
+
+      <ActivityCommentsModal
+        visible={!!commentsActivity}
+        activity={commentsActivity}
+        onClose={() => setCommentsActivity(null)}
+      />
     </View>
   );
 };
@@ -377,6 +440,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: 'Inter-Regular',
   },
+  engagementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    gap: 16,
+  },
+  engagementButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  engagementText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
   seeMoreButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,409 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useFriendsQuery } from '../../hooks/queries/useFriendsQuery';
+import { useCreateGroupOutingMutation } from '../../hooks/mutations/useGroupOutingMutations';
+import FriendSelector from './FriendSelector';
+import type { GroupOuting } from '../../types/social.types';
+
+interface GroupOutingCreationModalProps {
+  visible: boolean;
+  venueId: string;
+  venueName: string;
+  onClose: () => void;
+  onSuccess?: (outing: GroupOuting) => void;
+}
+
+/**
+ * Default outing time: two hours from now, rounded down to the hour
+ */
+const getDefaultOutingDate = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 2, 0, 0, 0);
+  return date;
+};
+
+/**
+ * GroupOutingCreationModal Component
+ *
+ * Modal for planning a group outing at a venue: pick a title, date/time
+ * and the friends to invite.
+ */
+const GroupOutingCreationModal: React.FC<GroupOutingCreationModalProps> = ({
+  visible,
+  venueId,
+  venueName,
+  onClose,
+  onSuccess,
+}) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [scheduledDate, setScheduledDate] = useState<Date>(getDefaultOutingDate);
+  const [selectedFriendIds, setSelectedFriendIds] = useState<string[]>([]);
+
+  // UI state
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { data: friends = [], isLoading: friendsLoading } = useFriendsQuery({
+    userId: user?.id || '',
+    enabled: visible && !!user?.id,
+  });
+
+  const createOuting = useCreateGroupOutingMutation({
+    onSuccess: (outing) => {
+      Alert.alert('Outing Planned', `Invites sent to ${selectedFriendIds.length} friend(s).`);
+      onSuccess?.(outing);
+      handleClose();
+    },
+    onError: (error) => {
+      Alert.alert('Error', error.message || 'Failed to plan outing. Please try again.');
+    },
+  });
+
+  // Reset form when modal closes
+  const handleClose = () => {
+    setTitle('');
+    setDescription('');
+    setScheduledDate(getDefaultOutingDate());
+    setSelectedFriendIds([]);
+    setPickerMode(null);
+    setErrors({});
+    onClose();
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setPickerMode(null);
+    }
+
+    if (selectedDate) {
+      setScheduledDate(selectedDate);
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (title.trim().length < 3) {
+      newErrors.title = 'Title must be at least 3 characters';
+    }
+
+    if (scheduledDate.getTime() <= Date.now()) {
+      newErrors.scheduledDate = 'Pick a time in the future';
+    }
+
+    if (selectedFriendIds.length === 0) {
+      newErrors.friends = 'Invite at least one friend';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = () => {
+    if (!user?.id || !validate()) return;
+
+    createOuting.mutate({
+      creator_id: user.id,
+      venue_id: venueId,
+      title: title.trim(),
+      description: description.trim() || undefined,
+      scheduled_date: scheduledDate.toISOString(),
+      invited_friend_ids: selectedFriendIds,
+    });
+  };
+
+  const loading = createOuting.isPending;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            Plan an Outing
+          </Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={[styles.venueName, { color: theme.colors.textSecondary }]}>
+            at {venueName}
+          </Text>
+
+          {/* Title */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>
+              Title <Text style={styles.required}>*</Text>
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: errors.title ? '#FF6B6B' : theme.colors.border,
+                },
+              ]}
+              placeholder="e.g., Friday Night Drinks"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={title}
+              onChangeText={setTitle}
+              maxLength={100}
+            />
+            {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+          </View>
+
+          {/* Description */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Details</Text>
+            <TextInput
+              style={[
+                styles.input,
+                styles.textArea,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              placeholder="Anything your friends should know?"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={description}
+              onChangeText={setDescription}
+              maxLength={500}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
+          {/* Date & Time */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>
+              When <Text style={styles.required}>*</Text>
+            </Text>
+            <View style={styles.dateRow}>
+              <TouchableOpacity
+                style={[
+                  styles.dateButton,
+                  {
+                    backgroundColor: theme.colors.surface,
+                    borderColor: errors.scheduledDate ? '#FF6B6B' : theme.colors.border,
+                  },
+                ]}
+                onPress={() => setPickerMode('date')}
+              >
+                <Icon name="calendar-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                  {scheduledDate.toLocaleDateString()}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dateButton,
+                  {
+                    backgroundColor: theme.colors.surface,
+                    borderColor: errors.scheduledDate ? '#FF6B6B' : theme.colors.border,
+                  },
+                ]}
+                onPress={() => setPickerMode('time')}
+              >
+                <Icon name="time-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                  {scheduledDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {errors.scheduledDate && (
+              <Text style={styles.errorText}>{errors.scheduledDate}</Text>
+            )}
+            {pickerMode && (
+              <DateTimePicker
+                value={scheduledDate}
+                mode={pickerMode}
+                minimumDate={new Date()}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleDateChange}
+              />
+            )}
+          </View>
+
+          {/* Friends */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>
+              Invite Friends <Text style={styles.required}>*</Text>
+            </Text>
+            {friendsLoading ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : (
+              <FriendSelector
+                friends={friends}
+                selectedFriendIds={selectedFriendIds}
+                onSelectionChange={setSelectedFriendIds}
+                maxHeight={320}
+              />
+            )}
+            {errors.friends && <Text style={styles.errorText}>{errors.friends}</Text>}
+          </View>
+        </ScrollView>
+
+        {/* Footer Button */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: theme.colors.primary, opacity: loading ? 0.6 : 1 },
+            ]}
+            onPress={handleSubmit}
+            disabled={loading}
+            activeOpacity={0.8}
+          >
+            {loading ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <Text style={styles.buttonText}>Send Invites</Text>
+                <Icon name="paper-plane" size={20} color="#fff" />
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  venueName: {
+    fontSize: 16,
+    marginBottom: 24,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  required: {
+    color: '#FF6B6B',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    paddingTop: 12,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginTop: 4,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default GroupOutingCreationModal;
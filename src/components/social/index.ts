@@ -9,6 +9,7 @@
 export { default as FriendVenueCarousel } from './FriendVenueCarousel';
 export { default as SharedCollectionCarousel } from './SharedCollectionCarousel';
 export { default as FriendActivityFeed } from './FriendActivityFeed';
+export { default as ActivityCommentsModal } from './ActivityCommentsModal';
 export { default as QuickShareButton } from './QuickShareButton';
 export { default as CollectionManager } from './CollectionManager';
 export { default as FriendSelector } from './FriendSelector';
@@ -16,6 +17,7 @@ export { default as PrivacyBadge } from './PrivacyBadge';
 export { default as MutualFavoritesIndicator } from './MutualFavoritesIndicator';
 export { default as FriendRequestCard } from './FriendRequestCard';
 export { default as FriendRequestModal } from './FriendRequestModal';
+export { default as GroupOutingCreationModal } from './GroupOutingCreationModal';
 export { default as LoadingButton } from './LoadingButton';
 export { default as NotificationReportModal } from './NotificationReportModal';
 export * from './SkeletonLoaders';
@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { LocationAnalytics } from '../../services/venueAnalyticsService';
+
+interface AllLocationsOverviewProps {
+  locations: LocationAnalytics[];
+  onSelectLocation: (venueId: string) => void;
+}
+
+/**
+ * AllLocationsOverview Component
+ *
+ * Per-location breakdown shown under the combined totals when a multi-venue
+ * owner views "All Locations". Tapping a location switches the dashboard to it.
+ */
+export const AllLocationsOverview: React.FC<AllLocationsOverviewProps> = ({
+  locations,
+  onSelectLocation,
+}) => {
+  const { theme, isDark } = useTheme();
+
+  return (
+    <View>
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Locations</Text>
+      {locations.map(({ venueId, venueName, analytics }) => (
+        <TouchableOpacity
+          key={venueId}
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.colors.surface,
+              shadowColor: theme.colors.shadow,
+              shadowOpacity: isDark ? 0 : 0.05,
+              elevation: isDark ? 0 : 2,
+              borderWidth: isDark ? 0 : 1,
+              borderColor: theme.colors.border,
+            },
+          ]}
+          onPress={() => onSelectLocation(venueId)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.cardHeader}>
+            <Text style={[styles.venueName, { color: theme.colors.text }]} numberOfLines={1}>
+              {venueName}
+            </Text>
+            <Text style={[styles.activity, { color: theme.colors.textSecondary }]}>
+              {analytics.currentActivity.emoji} {analytics.currentActivity.level}
+            </Text>
+            <Icon name="chevron-forward" size={18} color={theme.colors.textSecondary} />
+          </View>
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: theme.colors.text }]}>{analytics.todayCheckIns}</Text>
+              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Today</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: theme.colors.text }]}>{analytics.weeklyCheckIns}</Text>
+              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>This Week</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                {analytics.weeklyAvgRating > 0 ? analytics.weeklyAvgRating.toFixed(1) : '–'}
+              </Text>
+              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Rating</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: theme.colors.text }]}>{analytics.weeklyNewFavorites}</Text>
+              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>Favorites</Text>
+            </View>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'Poppins-Bold',
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 2 },
+    shadowRadius: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  venueName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  activity: {
+    fontSize: 13,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type {
+  AnalyticsDateRange,
+  AnalyticsRangePreset,
+} from '../../services/venueAnalyticsService';
+import {
+  VenueAnalyticsExportService,
+  type AnalyticsExportFormat,
+} from '../../services/venueAnalyticsExportService';
+import { AnalyticsRangeSelector } from './AnalyticsRangeSelector';
+
+interface AnalyticsExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  venueId: string | undefined;
+  initialPreset: AnalyticsRangePreset;
+  initialRange: AnalyticsDateRange;
+}
+
+const FORMAT_OPTIONS: { label: string; value: AnalyticsExportFormat; description: string }[] = [
+  { label: 'CSV', value: 'csv', description: 'Opens in Excel, Numbers or Google Sheets' },
+  { label: 'JSON', value: 'json', description: 'For importing into other tools' },
+];
+
+const INCLUDED_SECTIONS = [
+  'Daily and hourly check-ins',
+  'Flash offer performance',
+  'Claims with redemption times and staff',
+  'Review history and rating distribution',
+];
+
+/**
+ * AnalyticsExportModal Component
+ *
+ * Exports the venue's analytics for a date range as CSV or JSON through the
+ * share sheet. Customers are pseudonymized in the export.
+ */
+export const AnalyticsExportModal: React.FC<AnalyticsExportModalProps> = ({
+  visible,
+  onClose,
+  venueId,
+  initialPreset,
+  initialRange,
+}) => {
+  const { theme } = useTheme();
+  const [preset, setPreset] = useState<AnalyticsRangePreset>(initialPreset);
+  const [range, setRange] = useState<AnalyticsDateRange>(initialRange);
+  const [format, setFormat] = useState<AnalyticsExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+
+  // Start from the range the dashboard is showing each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setPreset(initialPreset);
+      setRange(initialRange);
+    }
+  }, [visible, initialPreset, initialRange]);
+
+  const handleRangeChange = (nextPreset: AnalyticsRangePreset, nextRange: AnalyticsDateRange) => {
+    setPreset(nextPreset);
+    setRange(nextRange);
+  };
+
+  const handleExport = async () => {
+    if (!venueId) return;
+
+    setExporting(true);
+    try {
+      const shared = await VenueAnalyticsExportService.shareExport(venueId, range, format);
+      if (shared) {
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error exporting analytics:', error);
+      Alert.alert('Export Failed', 'Failed to export your analytics. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Export Data</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Date Range</Text>
+          <AnalyticsRangeSelector
+            preset={preset}
+            range={range}
+            onChange={handleRangeChange}
+            disabled={exporting}
+            style={styles.rangeSelector}
+          />
+
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Format</Text>
+          {FORMAT_OPTIONS.map((option) => {
+            const selected = option.value === format;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.option,
+                  {
+                    backgroundColor: theme.colors.surface,
+                    borderColor: selected ? theme.colors.primary : theme.colors.border,
+                  },
+                ]}
+                onPress={() => setFormat(option.value)}
+                disabled={exporting}
+              >
+                <View style={styles.optionInfo}>
+                  <Text style={[styles.optionTitle, { color: theme.colors.text }]}>{option.label}</Text>
+                  <Text style={[styles.optionSubtitle, { color: theme.colors.textSecondary }]}>
+                    {option.description}
+                  </Text>
+                </View>
+                {selected && <Icon name="checkmark-circle" size={22} color={theme.colors.primary} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Included</Text>
+          {INCLUDED_SECTIONS.map((section) => (
+            <View key={section} style={styles.includedRow}>
+              <Icon name="checkmark" size={16} color={theme.colors.success} />
+              <Text style={[styles.includedText, { color: theme.colors.text }]}>{section}</Text>
+            </View>
+          ))}
+
+          <View style={[styles.privacyNote, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+            <Icon name="shield-checkmark-outline" size={18} color={theme.colors.textSecondary} />
+            <Text style={[styles.privacyText, { color: theme.colors.textSecondary }]}>
+              Customer names and contact details are never exported. Customers appear as anonymous IDs
+              that stay the same across your exports.
+            </Text>
+          </View>
+        </ScrollView>
+
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[styles.exportButton, { backgroundColor: theme.colors.primary }, (exporting || !venueId) && styles.disabled]}
+            onPress={handleExport}
+            disabled={exporting || !venueId}
+          >
+            {exporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <Icon name="share-outline" size={20} color="#fff" />
+                <Text style={styles.exportButtonText}>Export {format.toUpperCase()}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  rangeSelector: {
+    width: '100%',
+    marginTop: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  includedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  includedText: {
+    fontSize: 14,
+  },
+  privacyNote: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 16,
+  },
+  privacyText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
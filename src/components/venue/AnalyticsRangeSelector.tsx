@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  VenueAnalyticsService,
+  type AnalyticsDateRange,
+  type AnalyticsRangePreset,
+} from '../../services/venueAnalyticsService';
+
+interface AnalyticsRangeSelectorProps {
+  preset: AnalyticsRangePreset;
+  range: AnalyticsDateRange;
+  onChange: (preset: AnalyticsRangePreset, range: AnalyticsDateRange) => void;
+  disabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+const PRESET_OPTIONS: { label: string; value: AnalyticsRangePreset }[] = [
+  { label: '7D', value: '7d' },
+  { label: '30D', value: '30d' },
+  { label: '90D', value: '90d' },
+  { label: 'Custom', value: 'custom' },
+];
+
+// Matches the longest range get_venue_analytics accepts
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Whole days from the start of `from` to the end of `to`, capped at now
+ */
+const toDayRange = (from: Date, to: Date): AnalyticsDateRange => {
+  const endOfDay = new Date(startOfDay(to).getTime() + DAY_MS);
+  return {
+    from: startOfDay(from),
+    to: new Date(Math.min(endOfDay.getTime(), Date.now())),
+  };
+};
+
+/**
+ * AnalyticsRangeSelector Component
+ *
+ * Preset date range chips (7, 30, 90 days) for the venue dashboard, plus a
+ * custom range picked day by day.
+ */
+export const AnalyticsRangeSelector: React.FC<AnalyticsRangeSelectorProps> = ({
+  preset,
+  range,
+  onChange,
+  disabled = false,
+  style,
+}) => {
+  const { theme } = useTheme();
+  const [editing, setEditing] = useState<'from' | 'to' | null>(null);
+
+  const handlePresetPress = (value: AnalyticsRangePreset) => {
+    if (value === 'custom') {
+      onChange('custom', toDayRange(range.from, range.to));
+      return;
+    }
+    onChange(value, VenueAnalyticsService.getPresetRange(value));
+  };
+
+  const handlePickerChange = (event: any, selectedDate?: Date) => {
+    const field = editing;
+    if (Platform.OS === 'android') {
+      setEditing(null);
+    }
+
+    if (!selectedDate || !field) return;
+
+    let from = field === 'from' ? selectedDate : range.from;
+    let to = field === 'to' ? selectedDate : range.to;
+
+    // Keep the range in order and within the allowed length
+    if (from > to) {
+      if (field === 'from') {
+        to = from;
+      } else {
+        from = to;
+      }
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      if (field === 'from') {
+        to = new Date(from.getTime() + (MAX_RANGE_DAYS - 1) * DAY_MS);
+      } else {
+        from = new Date(to.getTime() - (MAX_RANGE_DAYS - 1) * DAY_MS);
+      }
+    }
+
+    onChange('custom', toDayRange(from, to));
+  };
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+  // `to` is exclusive, so show the last day actually included
+  const lastDay = new Date(range.to.getTime() - 1);
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.chipRow}>
+        {PRESET_OPTIONS.map((option) => {
+          const active = option.value === preset;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.chip,
+                {
+                  backgroundColor: active ? theme.colors.primary : theme.colors.surface,
+                  borderColor: active ? theme.colors.primary : theme.colors.border,
+                },
+              ]}
+              onPress={() => handlePresetPress(option.value)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, { color: active ? '#fff' : theme.colors.text }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {preset === 'custom' && (
+        <View style={styles.customRow}>
+          {(['from', 'to'] as const).map((field) => (
+            <TouchableOpacity
+              key={field}
+              style={[styles.dateButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+              onPress={() => setEditing(editing === field ? null : field)}
+              disabled={disabled}
+            >
+              <Icon name="calendar-outline" size={16} color={theme.colors.primary} />
+              <Text style={[styles.dateText, { color: theme.colors.text }]}>
+                {formatDay(field === 'from' ? range.from : lastDay)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {preset === 'custom' && editing && (
+        <DateTimePicker
+          value={editing === 'from' ? range.from : lastDay}
+          mode="date"
+          maximumDate={new Date()}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handlePickerChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '90%',
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  dateText: {
+    fontSize: 14,
+  },
+});
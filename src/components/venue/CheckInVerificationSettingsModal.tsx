@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { VenueService } from '../../services/api/venues';
+import { CheckInService } from '../../services/api/checkins';
+import { getDeviceTimezone } from '../../utils/timezone';
+
+interface CheckInVerificationSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const RADIUS_OPTIONS = [50, 100, 150, 250, 500];
+
+/**
+ * CheckInVerificationSettingsModal Component
+ *
+ * Modal for venue owners to set how close customers must be to check in
+ * (verified check-ins) and whether unverified check-ins may claim flash offers.
+ */
+export const CheckInVerificationSettingsModal: React.FC<CheckInVerificationSettingsModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { venueBusinessAccount } = useAuth();
+
+  const [radiusMeters, setRadiusMeters] = useState(150);
+  const [allowUnverifiedClaims, setAllowUnverifiedClaims] = useState(false);
+  const [hasVenueLocation, setHasVenueLocation] = useState(true);
+  const [counts, setCounts] = useState<{ verified: number; unverified: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const venueId: string | undefined = venueBusinessAccount?.venues?.id;
+
+  const loadSettings = useCallback(async () => {
+    if (!venueId) return;
+
+    try {
+      setLoading(true);
+      const [venue, verificationCounts] = await Promise.all([
+        VenueService.getVenueById(venueId),
+        CheckInService.getVenueVerificationCounts(venueId).catch(() => null),
+      ]);
+      setRadiusMeters(venue.check_in_radius_meters ?? 150);
+      setAllowUnverifiedClaims(venue.allow_unverified_claims ?? false);
+      setHasVenueLocation(venue.latitude != null && venue.longitude != null);
+      setCounts(verificationCounts);
+    } catch (error) {
+      console.error('Error loading check-in settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [venueId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadSettings();
+    }
+  }, [visible, loadSettings]);
+
+  const handleSave = async () => {
+    if (!venueId) {
+      Alert.alert('Error', 'No venue found. Please try again.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await VenueService.updateCheckInSettings(venueId, {
+        check_in_radius_meters: radiusMeters,
+        allow_unverified_claims: allowUnverifiedClaims,
+        // Venue hours are local times; closing-time check-outs need the timezone
+        timezone: getDeviceTimezone(),
+      });
+      onClose();
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to save check-in settings. Please try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Check-In Verification</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator color={theme.colors.primary} />
+          </View>
+        ) : (
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {!hasVenueLocation && (
+              <View style={[styles.warningBox, { backgroundColor: '#FF980020' }]}>
+                <Icon name="warning-outline" size={20} color="#FF9800" />
+                <Text style={[styles.warningText, { color: theme.colors.text }]}>
+                  Your venue has no map location, so check-ins cannot be verified. Add your
+                  address coordinates to enable verification.
+                </Text>
+              </View>
+            )}
+
+            {/* Radius */}
+            <View style={styles.fieldContainer}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>Check-In Radius</Text>
+              <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+                Customers must be within this distance of your venue for a verified check-in.
+              </Text>
+              <View style={styles.chipRow}>
+                {RADIUS_OPTIONS.map((option) => {
+                  const selected = radiusMeters === option;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.chip,
+                        {
+                          backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                          borderColor: selected ? theme.colors.primary : theme.colors.border,
+                        },
+                      ]}
+                      onPress={() => setRadiusMeters(option)}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                        {option} m
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Unverified Claims */}
+            <View style={[styles.fieldContainer, styles.switchRow]}>
+              <View style={styles.switchInfo}>
+                <Text style={[styles.label, { color: theme.colors.text }]}>
+                  Allow Unverified Check-Ins to Claim
+                </Text>
+                <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+                  When off, customers whose location couldn't be verified must check in again
+                  from your venue before claiming flash offers.
+                </Text>
+              </View>
+              <Switch
+                value={allowUnverifiedClaims}
+                onValueChange={setAllowUnverifiedClaims}
+                trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+                thumbColor={allowUnverifiedClaims ? theme.colors.primary : '#f4f3f4'}
+              />
+            </View>
+
+            {/* Last 24 Hours */}
+            {counts && (
+              <View style={[styles.statsBox, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+                <Text style={[styles.label, { color: theme.colors.text }]}>Last 24 Hours</Text>
+                <View style={styles.statsRow}>
+                  <View style={styles.statItem}>
+                    <Icon name="checkmark-circle-outline" size={18} color="#4CAF50" />
+                    <Text style={[styles.statText, { color: theme.colors.text }]}>
+                      {counts.verified} verified
+                    </Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Icon name="alert-circle-outline" size={18} color="#FF9800" />
+                    <Text style={[styles.statText, { color: theme.colors.text }]}>
+                      {counts.unverified} unverified
+                    </Text>
+                  </View>
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        )}
+
+        {/* Footer Button */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: theme.colors.primary, opacity: saving || loading ? 0.6 : 1 },
+            ]}
+            onPress={handleSave}
+            disabled={saving || loading}
+            activeOpacity={0.8}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <Text style={styles.buttonText}>Save Settings</Text>
+                <Icon name="checkmark" size={20} color="#fff" />
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+    marginBottom: 24,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 16,
+  },
+  statsBox: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statText: {
+    fontSize: 14,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
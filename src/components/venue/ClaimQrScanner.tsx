@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  Camera,
+  useCameraDevice,
+  useCameraPermission,
+  useCodeScanner,
+} from 'react-native-vision-camera';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface ClaimQrScannerProps {
+  onPayload: (payload: string) => void;
+  verifying?: boolean;
+}
+
+/**
+ * ClaimQrScanner component scans a customer's claim QR code
+ *
+ * Features:
+ * - Back camera QR scanning (asks for camera permission when shown)
+ * - Paste field for codes shared as text or when the camera isn't available
+ * - Ignores repeat scans while a payload is being verified
+ */
+export const ClaimQrScanner: React.FC<ClaimQrScannerProps> = ({ onPayload, verifying = false }) => {
+  const { theme } = useTheme();
+  const device = useCameraDevice('back');
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const [pastedPayload, setPastedPayload] = useState('');
+  const lastScanned = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!hasPermission) {
+      requestPermission();
+    }
+  }, [hasPermission, requestPermission]);
+
+  const codeScanner = useCodeScanner({
+    codeTypes: ['qr'],
+    onCodeScanned: (codes) => {
+      const value = codes[0]?.value;
+      if (!value || verifying || value === lastScanned.current) {
+        return;
+      }
+
+      lastScanned.current = value;
+      onPayload(value);
+    },
+  });
+
+  const handleSubmitPasted = () => {
+    const value = pastedPayload.trim();
+    if (value) {
+      onPayload(value);
+    }
+  };
+
+  return (
+    <View>
+      <View style={[styles.cameraContainer, { borderColor: theme.colors.border }]}>
+        {device && hasPermission ? (
+          <Camera
+            style={StyleSheet.absoluteFill}
+            device={device}
+            isActive={!verifying}
+            codeScanner={codeScanner}
+          />
+        ) : (
+          <View style={styles.cameraPlaceholder}>
+            <Icon name="camera-outline" size={40} color={theme.colors.textSecondary} />
+            <Text style={[styles.placeholderText, { color: theme.colors.textSecondary }]}>
+              {hasPermission
+                ? 'No camera available. Paste the code below.'
+                : 'Allow camera access to scan QR codes, or paste the code below.'}
+            </Text>
+          </View>
+        )}
+        {verifying && (
+          <View style={styles.verifyingOverlay}>
+            <ActivityIndicator size="large" color="#fff" />
+          </View>
+        )}
+      </View>
+
+      <View
+        style={[
+          styles.pasteContainer,
+          { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+        ]}
+      >
+        <TextInput
+          style={[styles.pasteInput, { color: theme.colors.text }]}
+          value={pastedPayload}
+          onChangeText={setPastedPayload}
+          placeholder="Paste QR code text"
+          placeholderTextColor={theme.colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!verifying}
+          onSubmitEditing={handleSubmitPasted}
+        />
+        <TouchableOpacity
+          onPress={handleSubmitPasted}
+          disabled={!pastedPayload.trim() || verifying}
+          style={styles.pasteButton}
+        >
+          <Icon
+            name="arrow-forward-circle"
+            size={28}
+            color={pastedPayload.trim() ? theme.colors.primary : theme.colors.textSecondary}
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  cameraContainer: {
+    height: 280,
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  cameraPlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  placeholderText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  verifyingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pasteContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingLeft: 16,
+    marginBottom: 16,
+  },
+  pasteInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 12,
+  },
+  pasteButton: {
+    padding: 10,
+  },
+});
@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { FlashOfferService, type FlashOffer } from '../../services/api/flashOffers';
+import { VenueBusinessService } from '../../services/venueBusinessService';
+
+interface CloneOfferModalProps {
+  visible: boolean;
+  onClose: () => void;
+  offer: FlashOffer;
+  onSuccess?: () => void;
+}
+
+/**
+ * Other venues of the current user where they are allowed to run offers
+ */
+export const getCloneTargetAccounts = (accounts: any[], offer: FlashOffer): any[] =>
+  accounts.filter(
+    (account) =>
+      account.venue_id !== offer.venue_id &&
+      VenueBusinessService.hasPermission(account.team_role, 'manage_offers')
+  );
+
+/**
+ * CloneOfferModal Component
+ *
+ * Copies a flash offer to several of the user's other venues at once. Each
+ * copy keeps the offer's details, targeting and duration.
+ */
+export const CloneOfferModal: React.FC<CloneOfferModalProps> = ({
+  visible,
+  onClose,
+  offer,
+  onSuccess,
+}) => {
+  const { theme } = useTheme();
+  const { venueBusinessAccounts } = useAuth();
+  const [selectedVenueIds, setSelectedVenueIds] = useState<string[]>([]);
+  const [copying, setCopying] = useState(false);
+
+  const targets = useMemo(
+    () => getCloneTargetAccounts(venueBusinessAccounts, offer),
+    [venueBusinessAccounts, offer]
+  );
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedVenueIds([]);
+    }
+  }, [visible]);
+
+  const toggleVenue = (venueId: string) => {
+    setSelectedVenueIds((current) =>
+      current.includes(venueId) ? current.filter((id) => id !== venueId) : [...current, venueId]
+    );
+  };
+
+  const venueName = (venueId: string) =>
+    targets.find((account) => account.venue_id === venueId)?.venues?.name || 'Unknown venue';
+
+  const handleCopy = async () => {
+    if (selectedVenueIds.length === 0) return;
+
+    setCopying(true);
+    try {
+      const result = await FlashOfferService.cloneOfferToVenues(offer, selectedVenueIds);
+
+      if (result.created.length > 0) {
+        onSuccess?.();
+      }
+
+      if (result.failed.length === 0) {
+        Alert.alert(
+          'Offer Copied',
+          `"${offer.title}" was copied to ${result.created.length} location${result.created.length === 1 ? '' : 's'}.`
+        );
+      } else {
+        Alert.alert(
+          result.created.length > 0 ? 'Partially Copied' : 'Copy Failed',
+          [
+            result.created.length > 0 ? `Copied to ${result.created.length} location(s).` : null,
+            'Could not copy to:',
+            ...result.failed.map(({ venueId, error }) => `• ${venueName(venueId)}: ${error}`),
+          ]
+            .filter(Boolean)
+            .join('\n')
+        );
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Error copying offer:', error);
+      Alert.alert('Error', 'Failed to copy offer. Please try again.');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={copying}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Copy to Locations</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+            Choose the venues that should run "{offer.title}". Copies start now if this offer has
+            already started and run for the same length of time.
+          </Text>
+
+          {targets.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              You don't manage offers at any other venue.
+            </Text>
+          ) : (
+            targets.map((account) => {
+              const selected = selectedVenueIds.includes(account.venue_id);
+              return (
+                <TouchableOpacity
+                  key={account.venue_id}
+                  style={[
+                    styles.venueRow,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      borderColor: selected ? theme.colors.primary : theme.colors.border,
+                    },
+                  ]}
+                  onPress={() => toggleVenue(account.venue_id)}
+                  disabled={copying}
+                  activeOpacity={0.7}
+                >
+                  <Icon
+                    name={selected ? 'checkbox' : 'square-outline'}
+                    size={24}
+                    color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                  />
+                  <Text style={[styles.venueName, { color: theme.colors.text }]}>
+                    {account.venues?.name || 'Unnamed venue'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+
+        {/* Footer */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[
+              styles.copyButton,
+              {
+                backgroundColor: theme.colors.primary,
+                opacity: copying || selectedVenueIds.length === 0 ? 0.5 : 1,
+              },
+            ]}
+            onPress={handleCopy}
+            disabled={copying || selectedVenueIds.length === 0}
+          >
+            {copying ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.copyButtonText}>
+                {selectedVenueIds.length > 0
+                  ? `Copy to ${selectedVenueIds.length} Location${selectedVenueIds.length === 1 ? '' : 's'}`
+                  : 'Select Locations'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  venueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  venueName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+  },
+  copyButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  copyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -18,7 +18,9 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { FlashOfferService } from '../../services/api/flashOffers';
 import { FlashOfferNotificationService } from '../../services/api/flashOfferNotifications';
-import type { CreateFlashOfferInput } from '../../types/flashOffer.types';
+import { FlashOfferTemplateService } from '../../services/api/flashOfferTemplates';
+import type { CreateFlashOfferInput, FlashOfferVisitorAudience } from '../../types/flashOffer.types';
+import type { FlashOfferTemplate } from '../../types/flashOfferRecurrence.types';
 import { HelpTooltip, HelpText } from '../shared';
 
 interface FlashOfferCreationModalProps {
@@ -27,6 +29,12 @@ interface FlashOfferCreationModalProps {
   onSuccess?: () => void;
 }
 
+const VISITOR_AUDIENCE_OPTIONS: { value: FlashOfferVisitorAudience; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'first_time', label: 'First-time visitors' },
+  { value: 'returning', label: 'Returning customers' },
+];
+
 export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = ({
   visible,
   onClose,
@@ -46,12 +54,47 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
   const [useEndOfDay, setUseEndOfDay] = useState(false);
   const [radiusMiles, setRadiusMiles] = useState('1');
   const [targetFavoritesOnly, setTargetFavoritesOnly] = useState(false);
+  const [weeklyClaimLimit, setWeeklyClaimLimit] = useState('');
+  const [visitorAudience, setVisitorAudience] = useState<FlashOfferVisitorAudience>('all');
+  const [minVisitCount, setMinVisitCount] = useState('2');
   const [sendPushNotification, setSendPushNotification] = useState(true);
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+
+  // Saved templates
+  const [templates, setTemplates] = useState<FlashOfferTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
   
   // UI state
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  const venueId = venueBusinessAccount?.venues?.id;
+
+  // Load saved templates when the modal opens
+  useEffect(() => {
+    if (!visible || !venueId) return;
+
+    FlashOfferTemplateService.getVenueTemplates(venueId)
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+  }, [visible, venueId]);
+
+  // Prefill the form from a saved template
+  const applyTemplate = (template: FlashOfferTemplate) => {
+    setSelectedTemplateId(template.id);
+    setTitle(template.title);
+    setDescription(template.description);
+    setExpectedValue(String(template.claim_value));
+    setMaxClaims(String(template.max_claims));
+    setDurationHours(String(Math.floor(template.duration_minutes / 60)));
+    setDurationMinutes(String(template.duration_minutes % 60));
+    setUseEndOfDay(false);
+    setRadiusMiles(String(template.radius_miles));
+    setTargetFavoritesOnly(template.target_favorites_only);
+    setErrors({});
+  };
+
   // Handle claim value change with numeric validation
   const handleClaimValueChange = (text: string) => {
     // Allow only numbers and one decimal point with up to 2 decimal places
@@ -73,7 +116,13 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
     setUseEndOfDay(false);
     setRadiusMiles('1');
     setTargetFavoritesOnly(false);
+    setWeeklyClaimLimit('');
+    setVisitorAudience('all');
+    setMinVisitCount('2');
     setSendPushNotification(true);
+    setSaveAsTemplate(false);
+    setTemplateName('');
+    setSelectedTemplateId(null);
     setErrors({});
     onClose();
   };
@@ -151,6 +200,27 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
       newErrors.radius = 'Radius must be greater than 0';
     }
 
+    if (weeklyClaimLimit.trim()) {
+      const limit = parseInt(weeklyClaimLimit, 10);
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        newErrors.weeklyClaimLimit = 'Weekly limit must be between 1 and 100';
+      }
+    }
+
+    if (visitorAudience === 'returning') {
+      const visits = parseInt(minVisitCount, 10);
+      if (isNaN(visits) || visits < 2 || visits > 100) {
+        newErrors.minVisitCount = 'Minimum visits must be between 2 and 100';
+      }
+    }
+
+    if (saveAsTemplate) {
+      const name = templateName.trim();
+      if (name.length < 3 || name.length > 60) {
+        newErrors.templateName = 'Template name must be between 3 and 60 characters';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -207,7 +277,6 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
       return;
     }
 
-    const venueId = venueBusinessAccount?.venues?.id;
     if (!venueId) {
       Alert.alert('Error', 'No venue found. Please try again.');
       return;
@@ -229,10 +298,32 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
         end_time: endTime.toISOString(),
         radius_miles: parseFloat(radiusMiles),
         target_favorites_only: targetFavoritesOnly,
+        max_claims_per_user_per_week: weeklyClaimLimit.trim() ? parseInt(weeklyClaimLimit, 10) : null,
+        visitor_audience: visitorAudience,
+        min_visit_count: visitorAudience === 'returning' ? parseInt(minVisitCount, 10) : null,
       };
 
       const offer = await FlashOfferService.createFlashOffer(venueId, offerData);
 
+      // Save the offer as a template if requested
+      if (saveAsTemplate) {
+        try {
+          await FlashOfferTemplateService.createTemplate(venueId, {
+            name: templateName,
+            title: offerData.title,
+            description: offerData.description,
+            claim_value: offerData.claim_value,
+            max_claims: offerData.max_claims,
+            radius_miles: offerData.radius_miles,
+            target_favorites_only: offerData.target_favorites_only,
+            duration_minutes: Math.max(1, Math.min(1440, Math.round((endTime.getTime() - startTime.getTime()) / 60000))),
+          });
+        } catch (templateError) {
+          console.error('❌ Error saving template:', templateError);
+          // Don't block the success flow if the template fails to save
+        }
+      }
+
       // Send push notification if enabled
       if (sendPushNotification) {
         console.log('📲 Sending push notification for offer:', offer.id);
@@ -392,6 +483,40 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
                 What's your offer?
               </Text>
 
+              {/* Saved Templates */}
+              {templates.length > 0 && (
+                <View style={styles.fieldContainer}>
+                  <Text style={[styles.label, { color: theme.colors.text }]}>
+                    Start from a template
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {templates.map((template) => {
+                      const selected = selectedTemplateId === template.id;
+                      return (
+                        <TouchableOpacity
+                          key={template.id}
+                          style={[
+                            styles.templateChip,
+                            {
+                              backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                              borderColor: selected ? theme.colors.primary : theme.colors.border,
+                            },
+                          ]}
+                          onPress={() => applyTemplate(template)}
+                        >
+                          <Text
+                            style={[styles.templateChipText, { color: selected ? '#fff' : theme.colors.text }]}
+                            numberOfLines={1}
+                          >
+                            {template.name}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                </View>
+              )}
+
               {/* Title */}
               <View style={styles.fieldContainer}>
                 <View style={styles.labelRow}>
@@ -677,6 +802,98 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
                 />
               </View>
 
+              {/* Weekly Claim Limit */}
+              <View style={styles.fieldContainer}>
+                <View style={styles.labelRow}>
+                  <Text style={[styles.label, { color: theme.colors.text }]}>
+                    Claims per Customer per Week
+                  </Text>
+                  <HelpTooltip
+                    title="Weekly Claim Limit"
+                    content="Limit how many of your offers each customer can claim in a rolling 7 days. The limit counts claims on all of your offers, so regulars can't claim every back-to-back offer. Leave blank for no limit."
+                  />
+                </View>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      color: theme.colors.text,
+                      borderColor: errors.weeklyClaimLimit ? '#FF6B6B' : theme.colors.border,
+                    },
+                  ]}
+                  placeholder="No limit"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={weeklyClaimLimit}
+                  onChangeText={setWeeklyClaimLimit}
+                  keyboardType="number-pad"
+                />
+                {errors.weeklyClaimLimit && (
+                  <Text style={styles.errorText}>{errors.weeklyClaimLimit}</Text>
+                )}
+              </View>
+
+              {/* Visitor Audience */}
+              <View style={styles.fieldContainer}>
+                <View style={styles.labelRow}>
+                  <Text style={[styles.label, { color: theme.colors.text }]}>
+                    Who Can Claim
+                  </Text>
+                  <HelpTooltip
+                    title="Visitor Audience"
+                    content="Welcome new customers with an offer for first-time visitors only, or reward regulars with an offer for returning customers. Visits are counted from check-ins, including the current one."
+                  />
+                </View>
+                <View style={styles.audienceRow}>
+                  {VISITOR_AUDIENCE_OPTIONS.map((option) => {
+                    const selected = visitorAudience === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.templateChip,
+                          {
+                            backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                            borderColor: selected ? theme.colors.primary : theme.colors.border,
+                          },
+                        ]}
+                        onPress={() => setVisitorAudience(option.value)}
+                      >
+                        <Text style={[styles.templateChipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {visitorAudience === 'returning' && (
+                  <>
+                    <Text style={[styles.helperText, { color: theme.colors.textSecondary, marginTop: 12 }]}>
+                      Minimum visits, including this one
+                    </Text>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        {
+                          backgroundColor: theme.colors.surface,
+                          color: theme.colors.text,
+                          borderColor: errors.minVisitCount ? '#FF6B6B' : theme.colors.border,
+                          marginTop: 8,
+                        },
+                      ]}
+                      placeholder="2"
+                      placeholderTextColor={theme.colors.textSecondary}
+                      value={minVisitCount}
+                      onChangeText={setMinVisitCount}
+                      keyboardType="number-pad"
+                    />
+                    {errors.minVisitCount && (
+                      <Text style={styles.errorText}>{errors.minVisitCount}</Text>
+                    )}
+                  </>
+                )}
+              </View>
+
               {/* Send Push Notification */}
               <View style={[styles.fieldContainer, styles.switchContainer]}>
                 <View style={{ flex: 1, marginRight: 16 }}>
@@ -706,6 +923,46 @@ export const FlashOfferCreationModal: React.FC<FlashOfferCreationModalProps> = (
                   type="tip"
                 />
               )}
+
+              {/* Save as Template */}
+              <View style={[styles.fieldContainer, styles.switchContainer, { marginTop: 24 }]}>
+                <View style={{ flex: 1, marginRight: 16 }}>
+                  <Text style={[styles.label, { color: theme.colors.text }]}>
+                    Save as Template
+                  </Text>
+                  <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+                    Reuse this offer later or schedule it to repeat
+                  </Text>
+                </View>
+                <Switch
+                  value={saveAsTemplate}
+                  onValueChange={setSaveAsTemplate}
+                  trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+                  thumbColor={saveAsTemplate ? theme.colors.primary : '#f4f3f4'}
+                />
+              </View>
+              {saveAsTemplate && (
+                <View style={styles.fieldContainer}>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      {
+                        backgroundColor: theme.colors.surface,
+                        color: theme.colors.text,
+                        borderColor: errors.templateName ? '#FF6B6B' : theme.colors.border,
+                      },
+                    ]}
+                    placeholder="Template name, e.g., Weekday Happy Hour"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    value={templateName}
+                    onChangeText={setTemplateName}
+                    maxLength={60}
+                  />
+                  {errors.templateName && (
+                    <Text style={styles.errorText}>{errors.templateName}</Text>
+                  )}
+                </View>
+              )}
             </View>
           )}
         </ScrollView>
@@ -897,6 +1154,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  templateChip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    maxWidth: 180,
+  },
+  templateChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  audienceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
   durationContainer: {
     flexDirection: 'row',
     gap: 12,
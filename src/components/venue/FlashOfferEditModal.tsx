@@ -0,0 +1,367 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { FlashOfferService, type FlashOffer } from '../../services/api/flashOffers';
+
+interface FlashOfferEditModalProps {
+  visible: boolean;
+  offer: FlashOffer | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * FlashOfferEditModal Component
+ *
+ * Modal for editing a scheduled flash offer before it goes live, such as a
+ * single occurrence of a recurring offer. Changes apply to this offer only.
+ */
+export const FlashOfferEditModal: React.FC<FlashOfferEditModalProps> = ({
+  visible,
+  offer,
+  onClose,
+  onSuccess,
+}) => {
+  const { theme } = useTheme();
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [maxClaims, setMaxClaims] = useState('');
+  const [startTime, setStartTime] = useState(new Date());
+  const [durationMinutes, setDurationMinutes] = useState('60');
+
+  // UI state
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever a different offer is opened
+  useEffect(() => {
+    if (!offer) return;
+
+    const start = new Date(offer.start_time);
+    setTitle(offer.title);
+    setDescription(offer.description);
+    setMaxClaims(String(offer.max_claims));
+    setStartTime(start);
+    setDurationMinutes(
+      String(Math.round((new Date(offer.end_time).getTime() - start.getTime()) / 60000))
+    );
+    setPickerMode(null);
+  }, [offer]);
+
+  const handlePickerChange = (event: any, selectedDate?: Date) => {
+    const mode = pickerMode;
+    if (Platform.OS === 'android') {
+      setPickerMode(null);
+    }
+
+    if (!selectedDate || !mode) return;
+
+    const next = new Date(startTime);
+    if (mode === 'date') {
+      next.setFullYear(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate());
+    } else {
+      next.setHours(selectedDate.getHours(), selectedDate.getMinutes(), 0, 0);
+    }
+    setStartTime(next);
+  };
+
+  const handleSave = async () => {
+    if (!offer) return;
+
+    const claims = parseInt(maxClaims, 10);
+    const duration = parseInt(durationMinutes, 10);
+
+    if (title.trim().length < 3 || description.trim().length < 10) {
+      Alert.alert('Missing Details', 'Title needs 3+ characters and description 10+ characters.');
+      return;
+    }
+
+    if (isNaN(claims) || claims < 1 || claims > 1000) {
+      Alert.alert('Invalid Max Claims', 'Max claims must be between 1 and 1000.');
+      return;
+    }
+
+    if (isNaN(duration) || duration < 1 || duration > 1440) {
+      Alert.alert('Invalid Duration', 'Duration must be between 1 minute and 24 hours.');
+      return;
+    }
+
+    if (startTime.getTime() <= Date.now()) {
+      Alert.alert('Invalid Start Time', 'Start time must be in the future.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await FlashOfferService.updateFlashOffer(offer.id, {
+        title: title.trim(),
+        description: description.trim(),
+        max_claims: claims,
+        start_time: startTime.toISOString(),
+        end_time: new Date(startTime.getTime() + duration * 60000).toISOString(),
+      });
+
+      onSuccess?.();
+      onClose();
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to update offer. Please try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Edit Offer</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {offer?.recurrence_id && (
+            <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+              Changes apply to this occurrence only. Other occurrences keep the recurring schedule.
+            </Text>
+          )}
+
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Title</Text>
+            <TextInput
+              style={inputStyle}
+              value={title}
+              onChangeText={setTitle}
+              maxLength={100}
+            />
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Description</Text>
+            <TextInput
+              style={[inputStyle, styles.textArea]}
+              value={description}
+              onChangeText={setDescription}
+              maxLength={500}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Starts</Text>
+            <View style={styles.dateRow}>
+              <TouchableOpacity
+                style={[styles.dateButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+                onPress={() => setPickerMode('date')}
+              >
+                <Icon name="calendar-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                  {startTime.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dateButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+                onPress={() => setPickerMode('time')}
+              >
+                <Icon name="time-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                  {startTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {pickerMode && (
+              <DateTimePicker
+                value={startTime}
+                mode={pickerMode}
+                minimumDate={pickerMode === 'date' ? new Date() : undefined}
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handlePickerChange}
+              />
+            )}
+          </View>
+
+          <View style={styles.dateRow}>
+            <View style={[styles.fieldContainer, styles.flexField]}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>Duration (min)</Text>
+              <TextInput
+                style={inputStyle}
+                value={durationMinutes}
+                onChangeText={setDurationMinutes}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={[styles.fieldContainer, styles.flexField]}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>Max Claims</Text>
+              <TextInput
+                style={inputStyle}
+                value={maxClaims}
+                onChangeText={setMaxClaims}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+        </ScrollView>
+
+        {/* Footer Button */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: theme.colors.primary, opacity: saving ? 0.6 : 1 },
+            ]}
+            onPress={handleSave}
+            disabled={saving}
+            activeOpacity={0.8}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <Text style={styles.buttonText}>Save Changes</Text>
+                <Icon name="checkmark" size={20} color="#fff" />
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  flexField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    paddingTop: 12,
+  },
+  helperText: {
+    fontSize: 12,
+    marginBottom: 16,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,263 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  FUNNEL_DISTANCE_BANDS,
+  type FlashOfferFunnel,
+  type FlashOfferFunnelCounts,
+  type FunnelDistanceBand,
+} from '../../services/api/flashOfferAnalytics';
+
+interface FlashOfferFunnelChartProps {
+  funnel: FlashOfferFunnel;
+  checkInWindowHours: number;
+  showAttribution: boolean;
+}
+
+const DISTANCE_BAND_LABELS: Record<FunnelDistanceBand, string> = {
+  under_1_mi: 'Under 1 mi',
+  '1_to_3_mi': '1–3 mi',
+  '3_to_5_mi': '3–5 mi',
+  '5_plus_mi': '5+ mi',
+  unknown: 'Unknown',
+};
+
+const formatPercent = (value: number, total: number): string =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : '–';
+
+/**
+ * FlashOfferFunnelChart Component
+ *
+ * Renders a flash offer conversion funnel (pushes → opens → views → claims →
+ * redemptions → check-ins), its new vs returning and distance breakdowns, and
+ * the incremental visit estimate for plans with revenue attribution.
+ */
+export const FlashOfferFunnelChart: React.FC<FlashOfferFunnelChartProps> = ({
+  funnel,
+  checkInWindowHours,
+  showAttribution,
+}) => {
+  const { theme } = useTheme();
+
+  const stages = [
+    { label: 'Pushes delivered', value: funnel.pushes_delivered },
+    { label: 'Opens', value: funnel.opens },
+    { label: 'Views', value: funnel.views },
+    { label: 'Claims', value: funnel.claims },
+    { label: 'Redemptions', value: funnel.redemptions },
+    { label: `Check-ins within ${checkInWindowHours}h`, value: funnel.check_ins },
+  ];
+  const maxValue = Math.max(1, ...stages.map((stage) => stage.value));
+
+  const renderSegmentRow = (key: string, label: string, counts: FlashOfferFunnelCounts) => (
+    <View key={key} style={[styles.segmentRow, { borderTopColor: theme.colors.border }]}>
+      <Text style={[styles.segmentLabel, { color: theme.colors.text }]}>{label}</Text>
+      <Text style={[styles.segmentValue, { color: theme.colors.text }]}>{counts.opens}</Text>
+      <Text style={[styles.segmentValue, { color: theme.colors.text }]}>{counts.views}</Text>
+      <Text style={[styles.segmentValue, { color: theme.colors.text }]}>{counts.claims}</Text>
+      <Text style={[styles.segmentValue, { color: theme.colors.text }]}>{counts.check_ins}</Text>
+    </View>
+  );
+
+  const renderSegmentHeader = (title: string) => (
+    <View style={styles.segmentRow}>
+      <Text style={[styles.segmentLabel, styles.segmentHeader, { color: theme.colors.textSecondary }]}>
+        {title}
+      </Text>
+      {['Opens', 'Views', 'Claims', 'Visits'].map((column) => (
+        <Text
+          key={column}
+          style={[styles.segmentValue, styles.segmentHeader, { color: theme.colors.textSecondary }]}
+        >
+          {column}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const { attribution } = funnel;
+
+  return (
+    <View>
+      {/* Funnel Stages */}
+      {stages.map((stage, index) => (
+        <View key={stage.label} style={styles.stage}>
+          <View style={styles.stageHeader}>
+            <Text style={[styles.stageLabel, { color: theme.colors.text }]}>{stage.label}</Text>
+            <Text style={[styles.stageValue, { color: theme.colors.text }]}>
+              {stage.value}
+              {index > 0 && (
+                <Text style={{ color: theme.colors.textSecondary }}>
+                  {'  '}{formatPercent(stage.value, stages[index - 1].value)}
+                </Text>
+              )}
+            </Text>
+          </View>
+          <View style={[styles.barTrack, { backgroundColor: theme.colors.border }]}>
+            <View
+              style={[
+                styles.barFill,
+                {
+                  backgroundColor: theme.colors.primary,
+                  width: `${(stage.value / maxValue) * 100}%`,
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+
+      {/* New vs Returning */}
+      <View style={styles.segmentTable}>
+        {renderSegmentHeader('Customers')}
+        {renderSegmentRow('new', 'New', funnel.by_customer_type.new)}
+        {renderSegmentRow('returning', 'Returning', funnel.by_customer_type.returning)}
+      </View>
+
+      {/* Distance Bands */}
+      <View style={styles.segmentTable}>
+        {renderSegmentHeader('Distance')}
+        {FUNNEL_DISTANCE_BANDS.map((band) =>
+          renderSegmentRow(band, DISTANCE_BAND_LABELS[band], funnel.by_distance_band[band])
+        )}
+      </View>
+
+      {/* Incremental Visits */}
+      <View style={[styles.attributionCard, { backgroundColor: theme.colors.background, borderColor: theme.colors.border }]}>
+        <Text style={[styles.attributionTitle, { color: theme.colors.text }]}>Incremental Visits</Text>
+        {showAttribution ? (
+          <>
+            <View style={styles.attributionRow}>
+              <Text style={[styles.attributionLabel, { color: theme.colors.textSecondary }]}>
+                Check-ins during offer
+              </Text>
+              <Text style={[styles.attributionValue, { color: theme.colors.text }]}>
+                {attribution.window_check_ins}
+              </Text>
+            </View>
+            <View style={styles.attributionRow}>
+              <Text style={[styles.attributionLabel, { color: theme.colors.textSecondary }]}>
+                Typical for same day & time
+              </Text>
+              <Text style={[styles.attributionValue, { color: theme.colors.text }]}>
+                {attribution.baseline_check_ins}
+              </Text>
+            </View>
+            <View style={styles.attributionRow}>
+              <Text style={[styles.attributionLabel, { color: theme.colors.textSecondary }]}>
+                Estimated extra visits
+              </Text>
+              <Text
+                style={[
+                  styles.attributionValue,
+                  { color: attribution.incremental_visits >= 0 ? theme.colors.success : theme.colors.error },
+                ]}
+              >
+                {attribution.incremental_visits >= 0 ? '+' : ''}{attribution.incremental_visits}
+                {attribution.lift_percent !== null && ` (${attribution.lift_percent >= 0 ? '+' : ''}${attribution.lift_percent}%)`}
+              </Text>
+            </View>
+            <Text style={[styles.attributionNote, { color: theme.colors.textSecondary }]}>
+              Baseline is the average of the same weekday and hours over the previous four weeks.
+            </Text>
+          </>
+        ) : (
+          <View style={styles.lockedRow}>
+            <Icon name="lock-closed-outline" size={16} color={theme.colors.textSecondary} />
+            <Text style={[styles.attributionNote, { color: theme.colors.textSecondary }]}>
+              Upgrade to the Revenue plan to compare offer traffic with your usual check-ins.
+            </Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  stage: {
+    marginBottom: 12,
+  },
+  stageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  stageLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  stageValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'Inter-SemiBold',
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  segmentTable: {
+    marginTop: 16,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'transparent',
+  },
+  segmentHeader: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  segmentLabel: {
+    flex: 2,
+    fontSize: 14,
+  },
+  segmentValue: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  attributionCard: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  attributionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
+  attributionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  attributionLabel: {
+    fontSize: 14,
+  },
+  attributionValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  attributionNote: {
+    flex: 1,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  lockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  FlashOfferAnalyticsService,
+  type FlashOfferFunnelSummary,
+} from '../../services/api/flashOfferAnalytics';
+import { VenueBusinessService } from '../../services/venueBusinessService';
+import { FlashOfferFunnelChart } from './FlashOfferFunnelChart';
+
+interface FlashOfferFunnelModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const RANGE_OPTIONS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+const CHECK_IN_WINDOW_OPTIONS = [1, 3, 6, 24];
+
+/**
+ * FlashOfferFunnelModal Component
+ *
+ * Conversion funnel across all of the venue's flash offers in a time range,
+ * with a per-offer summary underneath.
+ */
+export const FlashOfferFunnelModal: React.FC<FlashOfferFunnelModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { venueBusinessAccount } = useAuth();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [checkInWindowHours, setCheckInWindowHours] = useState(3);
+  const [report, setReport] = useState<FlashOfferFunnelSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const venueId = venueBusinessAccount?.venues?.id;
+  const tier = venueBusinessAccount?.subscription_tier || 'free';
+  const showAttribution = VenueBusinessService.getSubscriptionLimits(tier)
+    .features.includes('revenue_attribution');
+
+  const loadReport = useCallback(async () => {
+    if (!venueId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - rangeDays * 24 * 60 * 60 * 1000);
+      const data = await FlashOfferAnalyticsService.getFunnelReport(venueId, {
+        from,
+        to,
+        checkInWindowHours,
+      });
+      setReport(data);
+    } catch (err) {
+      console.error('Error loading funnel report:', err);
+      setError('Failed to load the funnel report. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [venueId, rangeDays, checkInWindowHours]);
+
+  useEffect(() => {
+    if (visible) {
+      loadReport();
+    }
+  }, [visible, loadReport]);
+
+  const renderChips = <T extends number>(
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: active ? theme.colors.primary : theme.colors.surface,
+                borderColor: active ? theme.colors.primary : theme.colors.border,
+              },
+            ]}
+            onPress={() => onSelect(option.value)}
+            disabled={loading}
+          >
+            <Text style={[styles.chipText, { color: active ? '#fff' : theme.colors.text }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Offer Funnel</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Time Range</Text>
+          {renderChips(
+            RANGE_OPTIONS.map((option) => ({ label: option.label, value: option.days })),
+            rangeDays,
+            setRangeDays
+          )}
+
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Count Check-ins Within</Text>
+          {renderChips(
+            CHECK_IN_WINDOW_OPTIONS.map((hours) => ({ label: `${hours}h`, value: hours })),
+            checkInWindowHours,
+            setCheckInWindowHours
+          )}
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+          ) : error ? (
+            <Text style={[styles.emptyText, { color: theme.colors.error }]}>{error}</Text>
+          ) : !report || report.offers.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              No flash offers ran in this time range.
+            </Text>
+          ) : (
+            <>
+              <View style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+                <Text style={[styles.cardTitle, { color: theme.colors.text }]}>
+                  All Offers ({report.offers.length})
+                </Text>
+                <FlashOfferFunnelChart
+                  funnel={report.totals}
+                  checkInWindowHours={report.check_in_window_hours}
+                  showAttribution={showAttribution}
+                />
+              </View>
+
+              <Text style={[styles.label, { color: theme.colors.textSecondary }]}>By Offer</Text>
+              {report.offers.map((offer) => (
+                <View
+                  key={offer.offer_id}
+                  style={[styles.offerRow, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+                >
+                  <View style={styles.offerInfo}>
+                    <Text style={[styles.offerTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                      {offer.title}
+                    </Text>
+                    <Text style={[styles.offerMeta, { color: theme.colors.textSecondary }]}>
+                      {new Date(offer.start_time).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {' • '}{offer.claims} claims • {offer.check_ins} visits
+                    </Text>
+                  </View>
+                  {showAttribution && (
+                    <Text
+                      style={[
+                        styles.offerLift,
+                        { color: offer.attribution.incremental_visits >= 0 ? theme.colors.success : theme.colors.error },
+                      ]}
+                    >
+                      {offer.attribution.incremental_visits >= 0 ? '+' : ''}{offer.attribution.incremental_visits}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  loading: {
+    marginTop: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  card: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  offerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  offerInfo: {
+    flex: 1,
+  },
+  offerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  offerMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  offerLift: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
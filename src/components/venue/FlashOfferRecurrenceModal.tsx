@@ -0,0 +1,759 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { FlashOfferTemplateService } from '../../services/api/flashOfferTemplates';
+import type {
+  CreateFlashOfferRecurrenceInput,
+  FlashOfferRecurrenceWithTemplate,
+  FlashOfferTemplate,
+  RecurrenceFrequency,
+} from '../../types/flashOfferRecurrence.types';
+
+interface FlashOfferRecurrenceModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+type EndType = 'date' | 'count';
+type PickerField = 'time' | 'startsOn' | 'endsOn';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const FREQUENCY_OPTIONS: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const END_OPTIONS: Array<{ value: EndType; label: string }> = [
+  { value: 'count', label: 'After' },
+  { value: 'date', label: 'On Date' },
+];
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ */
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Parse a YYYY-MM-DD string as a local Date
+ */
+const fromDateString = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Build a Date on today's date at the given HH:MM[:SS] time
+ */
+const timeToDate = (time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const formatTime = (time: string): string =>
+  timeToDate(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const formatDate = (value: string): string =>
+  fromDateString(value).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Human-readable summary of a recurrence, e.g. "Mon, Wed, Fri at 5:00 PM · 4 of 10 scheduled"
+ */
+const describeRecurrence = (recurrence: FlashOfferRecurrenceWithTemplate): string => {
+  const days = recurrence.frequency === 'daily'
+    ? 'Every day'
+    : (recurrence.days_of_week || []).map(day => DAY_NAMES[day]).join(', ');
+  const ends = recurrence.ends_on
+    ? `until ${formatDate(recurrence.ends_on)}`
+    : `${recurrence.occurrences_created} of ${recurrence.occurrence_count} scheduled`;
+
+  return `${days} at ${formatTime(recurrence.start_time_of_day)} · ${ends}`;
+};
+
+/**
+ * FlashOfferRecurrenceModal Component
+ *
+ * Modal for scheduling a saved template to repeat daily or on chosen weekdays,
+ * ending on a date or after a number of occurrences. Lists existing
+ * recurrences and templates so they can be stopped or deleted.
+ */
+export const FlashOfferRecurrenceModal: React.FC<FlashOfferRecurrenceModalProps> = ({
+  visible,
+  onClose,
+  onSuccess,
+}) => {
+  const { theme } = useTheme();
+  const { venueBusinessAccount } = useAuth();
+
+  // List state
+  const [templates, setTemplates] = useState<FlashOfferTemplate[]>([]);
+  const [recurrences, setRecurrences] = useState<FlashOfferRecurrenceWithTemplate[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+
+  // Form state
+  const [formVisible, setFormVisible] = useState(false);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(WEEKDAYS);
+  const [startTime, setStartTime] = useState('17:00');
+  const [startsOn, setStartsOn] = useState(toDateString(new Date()));
+  const [endType, setEndType] = useState<EndType>('count');
+  const [endsOn, setEndsOn] = useState(toDateString(new Date(Date.now() + 28 * 24 * 60 * 60 * 1000)));
+  const [occurrenceCount, setOccurrenceCount] = useState('10');
+
+  // UI state
+  const [pickerField, setPickerField] = useState<PickerField | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const venueId: string | undefined = venueBusinessAccount?.venues?.id;
+
+  const loadData = useCallback(async () => {
+    if (!venueId) return;
+
+    try {
+      setListLoading(true);
+      const [venueTemplates, venueRecurrences] = await Promise.all([
+        FlashOfferTemplateService.getVenueTemplates(venueId),
+        FlashOfferTemplateService.getVenueRecurrences(venueId),
+      ]);
+      setTemplates(venueTemplates);
+      setRecurrences(venueRecurrences);
+    } catch (error) {
+      console.error('Error loading recurring offers:', error);
+    } finally {
+      setListLoading(false);
+    }
+  }, [venueId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadData();
+    }
+  }, [visible, loadData]);
+
+  const buildInput = (): CreateFlashOfferRecurrenceInput => ({
+    template_id: templateId || '',
+    frequency,
+    days_of_week: daysOfWeek,
+    start_time_of_day: startTime,
+    starts_on: startsOn,
+    ends_on: endType === 'date' ? endsOn : null,
+    occurrence_count: endType === 'count' ? parseInt(occurrenceCount, 10) : null,
+  });
+
+  const openForm = () => {
+    setTemplateId(templates[0]?.id ?? null);
+    setFrequency('weekly');
+    setDaysOfWeek(WEEKDAYS);
+    setStartTime('17:00');
+    setStartsOn(toDateString(new Date()));
+    setEndType('count');
+    setOccurrenceCount('10');
+    setPickerField(null);
+    setFormVisible(true);
+  };
+
+  const handleClose = () => {
+    if (formVisible) {
+      setFormVisible(false);
+      return;
+    }
+    onClose();
+  };
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handlePickerChange = (event: any, selectedDate?: Date) => {
+    const field = pickerField;
+    if (Platform.OS === 'android') {
+      setPickerField(null);
+    }
+
+    if (!selectedDate || !field) return;
+
+    if (field === 'time') {
+      setStartTime(
+        `${String(selectedDate.getHours()).padStart(2, '0')}:${String(selectedDate.getMinutes()).padStart(2, '0')}`
+      );
+    } else {
+      (field === 'startsOn' ? setStartsOn : setEndsOn)(toDateString(selectedDate));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!venueId) {
+      Alert.alert('Error', 'No venue found. Please try again.');
+      return;
+    }
+
+    if (!templateId) {
+      Alert.alert('Choose a Template', 'Select the offer template to repeat.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { occurrencesCreated } = await FlashOfferTemplateService.createRecurrence(
+        venueId,
+        buildInput()
+      );
+
+      setFormVisible(false);
+      loadData();
+      onSuccess?.();
+      Alert.alert(
+        'Recurring Offer Scheduled',
+        `${occurrencesCreated} offer${occurrencesCreated !== 1 ? 's' : ''} scheduled for the next week. ` +
+          'Later occurrences are added automatically.'
+      );
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to schedule recurring offer. Please try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStopRecurrence = (recurrence: FlashOfferRecurrenceWithTemplate) => {
+    Alert.alert(
+      'Stop Recurring Offer',
+      'Upcoming scheduled occurrences will be cancelled. Offers that already ran are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FlashOfferTemplateService.stopRecurrence(recurrence.id);
+              loadData();
+              onSuccess?.();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to stop recurrence.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteTemplate = (template: FlashOfferTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"? Recurring offers using it will stop; offers already scheduled are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FlashOfferTemplateService.deleteTemplate(template.id);
+              loadData();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete template.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.typeChip,
+        {
+          backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+          borderColor: selected ? theme.colors.primary : theme.colors.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#fff' : theme.colors.text }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderRecurrence = (recurrence: FlashOfferRecurrenceWithTemplate) => (
+    <View key={recurrence.id} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: theme.colors.text }]} numberOfLines={1}>
+          {recurrence.template?.name || 'Deleted template'}
+        </Text>
+        <Text style={[styles.rowMeta, { color: theme.colors.textSecondary }]}>
+          {describeRecurrence(recurrence)}
+        </Text>
+      </View>
+      {recurrence.is_active ? (
+        <TouchableOpacity
+          style={[styles.statusBadge, { backgroundColor: '#FF6B6B20' }]}
+          onPress={() => handleStopRecurrence(recurrence)}
+        >
+          <Text style={[styles.statusText, { color: '#FF6B6B' }]}>Stop</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={[styles.statusBadge, { backgroundColor: '#9E9E9E20' }]}>
+          <Text style={[styles.statusText, { color: '#9E9E9E' }]}>Ended</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderTemplate = (template: FlashOfferTemplate) => (
+    <TouchableOpacity
+      key={template.id}
+      style={[styles.row, { borderBottomColor: theme.colors.border }]}
+      onLongPress={() => handleDeleteTemplate(template)}
+    >
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: theme.colors.text }]} numberOfLines={1}>
+          {template.name}
+        </Text>
+        <Text style={[styles.rowMeta, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+          {template.title} · {template.duration_minutes} min · {template.max_claims} claims
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderList = () => (
+    <>
+      <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+        Recurring offers are scheduled a week ahead from a saved template. Skip or edit a
+        single occurrence from the Scheduled list.
+      </Text>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Recurring Offers</Text>
+      {listLoading && recurrences.length === 0 ? (
+        <ActivityIndicator color={theme.colors.primary} />
+      ) : recurrences.length === 0 ? (
+        <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+          No recurring offers yet.
+        </Text>
+      ) : (
+        recurrences.map(renderRecurrence)
+      )}
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Templates</Text>
+      {templates.length === 0 ? (
+        <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+          Turn on "Save as Template" when creating a flash offer to reuse it here.
+        </Text>
+      ) : (
+        <>
+          {templates.map(renderTemplate)}
+          <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+            Long-press a template to delete it.
+          </Text>
+        </>
+      )}
+    </>
+  );
+
+  const renderForm = () => {
+    const preview = FlashOfferTemplateService.getUpcomingOccurrences(buildInput());
+
+    return (
+      <>
+        {/* Template */}
+        <View style={styles.fieldContainer}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>
+            Template <Text style={styles.required}>*</Text>
+          </Text>
+          <View style={styles.wrapRow}>
+            {templates.map(template =>
+              renderChip(template.name, templateId === template.id, () => setTemplateId(template.id), template.id)
+            )}
+          </View>
+        </View>
+
+        {/* Frequency */}
+        <View style={styles.fieldContainer}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Repeats</Text>
+          <View style={styles.chipRow}>
+            {FREQUENCY_OPTIONS.map(option =>
+              renderChip(option.label, frequency === option.value, () => setFrequency(option.value), option.value)
+            )}
+          </View>
+          {frequency === 'weekly' && (
+            <View style={[styles.chipRow, styles.dayRow]}>
+              {DAY_LABELS.map((label, day) => {
+                const selected = daysOfWeek.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.dayChip,
+                      {
+                        backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                      },
+                    ]}
+                    onPress={() => toggleDay(day)}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        {/* Start Time and Date */}
+        <View style={styles.fieldContainer}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Starts</Text>
+          <View style={styles.dateRow}>
+            <TouchableOpacity
+              style={[styles.dateButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+              onPress={() => setPickerField('startsOn')}
+            >
+              <Icon name="calendar-outline" size={20} color={theme.colors.primary} />
+              <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                {formatDate(startsOn)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.dateButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
+              onPress={() => setPickerField('time')}
+            >
+              <Icon name="time-outline" size={20} color={theme.colors.primary} />
+              <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                {formatTime(startTime)}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* End Condition */}
+        <View style={styles.fieldContainer}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Ends</Text>
+          <View style={styles.chipRow}>
+            {END_OPTIONS.map(option =>
+              renderChip(option.label, endType === option.value, () => setEndType(option.value), option.value)
+            )}
+          </View>
+          {endType === 'count' ? (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.inlineInput,
+                  { backgroundColor: theme.colors.surface, color: theme.colors.text, borderColor: theme.colors.border },
+                ]}
+                value={occurrenceCount}
+                onChangeText={setOccurrenceCount}
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+              <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>occurrences</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.dateButton,
+                styles.endDateButton,
+                { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+              ]}
+              onPress={() => setPickerField('endsOn')}
+            >
+              <Icon name="calendar-outline" size={20} color={theme.colors.primary} />
+              <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                {formatDate(endsOn)}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {pickerField && (
+          <DateTimePicker
+            value={
+              pickerField === 'time'
+                ? timeToDate(startTime)
+                : fromDateString(pickerField === 'startsOn' ? startsOn : endsOn)
+            }
+            mode={pickerField === 'time' ? 'time' : 'date'}
+            minimumDate={pickerField === 'time' ? undefined : fromDateString(toDateString(new Date()))}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handlePickerChange}
+          />
+        )}
+
+        {/* Preview */}
+        {preview.length > 0 && (
+          <View style={[styles.previewBox, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+            <Text style={[styles.rowTitle, { color: theme.colors.text }]}>Next occurrences</Text>
+            {preview.map(date => (
+              <Text key={date.toISOString()} style={[styles.rowMeta, { color: theme.colors.textSecondary }]}>
+                {date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+              </Text>
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const canCreate = templates.length > 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Icon name={formVisible ? 'arrow-back' : 'close'} size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            {formVisible ? 'New Recurring Offer' : 'Recurring Offers'}
+          </Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {formVisible ? renderForm() : renderList()}
+        </ScrollView>
+
+        {/* Footer Button */}
+        {canCreate && (
+          <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: theme.colors.primary, opacity: saving ? 0.6 : 1 },
+              ]}
+              onPress={formVisible ? handleSave : openForm}
+              disabled={saving}
+              activeOpacity={0.8}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <>
+                  <Text style={styles.buttonText}>{formVisible ? 'Schedule' : 'New Recurring Offer'}</Text>
+                  <Icon name={formVisible ? 'checkmark' : 'repeat'} size={20} color="#fff" />
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  required: {
+    color: '#FF6B6B',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  wrapRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  dayRow: {
+    marginTop: 12,
+  },
+  dayChip: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  typeChip: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 12,
+  },
+  inlineInput: {
+    width: 80,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  endDateButton: {
+    marginTop: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  previewBox: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
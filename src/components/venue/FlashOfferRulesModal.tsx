@@ -0,0 +1,822 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { FlashOfferRuleService } from '../../services/api/flashOfferRules';
+import { VenueBusinessService } from '../../services/venueBusinessService';
+import type {
+  CapacityCondition,
+  CreateFlashOfferRuleInput,
+  FlashOfferRule,
+  FlashOfferRuleFiringWithRule,
+} from '../../types/flashOfferRule.types';
+
+interface FlashOfferRulesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const CAPACITY_OPTIONS: Array<{ value: CapacityCondition | null; label: string }> = [
+  { value: null, label: 'Any' },
+  { value: 'below', label: 'Below' },
+  { value: 'above', label: 'Above' },
+];
+
+const FIRING_COLORS: Record<FlashOfferRuleFiringWithRule['status'], string> = {
+  fired: '#4CAF50',
+  failed: '#FF6B6B',
+};
+
+/**
+ * Build a Date on today's date at the given HH:MM[:SS] time
+ */
+const timeToDate = (time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+/**
+ * Format a Date as HH:MM
+ */
+const dateToTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const formatTime = (time: string): string =>
+  timeToDate(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Human-readable summary of a rule's trigger, e.g. "Mon-Fri · 2:00 PM-5:00 PM · below 20%"
+ */
+const describeRule = (rule: FlashOfferRule): string => {
+  const days = rule.days_of_week.length === 7
+    ? 'Every day'
+    : rule.days_of_week.length === 5 && WEEKDAYS.every(day => rule.days_of_week.includes(day))
+      ? 'Mon-Fri'
+      : rule.days_of_week.map(day => DAY_NAMES[day]).join(', ');
+  const window = `${formatTime(rule.window_start)}-${formatTime(rule.window_end)}`;
+  const capacity = rule.capacity_condition
+    ? ` · ${rule.capacity_condition} ${rule.capacity_threshold_percent}%`
+    : '';
+
+  return `${days} · ${window}${capacity}`;
+};
+
+/**
+ * FlashOfferRulesModal Component
+ *
+ * Modal for managing automatic flash offer rules: lists rules with an enable
+ * toggle, edits a rule's trigger and offer template, and shows recent firings.
+ */
+export const FlashOfferRulesModal: React.FC<FlashOfferRulesModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const { user, venueBusinessAccount } = useAuth();
+
+  // List state
+  const [rules, setRules] = useState<FlashOfferRule[]>([]);
+  const [firings, setFirings] = useState<FlashOfferRuleFiringWithRule[]>([]);
+  const [listLoading, setListLoading] = useState(false);
+
+  // Form state (editingRule is null when creating a rule)
+  const [formVisible, setFormVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<FlashOfferRule | null>(null);
+  const [name, setName] = useState('');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(WEEKDAYS);
+  const [windowStart, setWindowStart] = useState('14:00');
+  const [windowEnd, setWindowEnd] = useState('17:00');
+  const [capacityCondition, setCapacityCondition] = useState<CapacityCondition | null>('below');
+  const [capacityThreshold, setCapacityThreshold] = useState('20');
+  const [offerTitle, setOfferTitle] = useState('');
+  const [offerDescription, setOfferDescription] = useState('');
+  const [claimValue, setClaimValue] = useState('');
+  const [maxClaims, setMaxClaims] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('60');
+  const [cooldownMinutes, setCooldownMinutes] = useState('1440');
+  const [sendPush, setSendPush] = useState(true);
+
+  // UI state
+  const [pickerField, setPickerField] = useState<'start' | 'end' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const venueId: string | undefined = venueBusinessAccount?.venues?.id;
+  const tier = venueBusinessAccount?.subscription_tier || 'free';
+  const canUseRules = VenueBusinessService.getSubscriptionLimits(tier)
+    .features.includes('time_capacity_triggers');
+
+  const loadRules = useCallback(async () => {
+    if (!venueId) return;
+
+    try {
+      setListLoading(true);
+      const [venueRules, recentFirings] = await Promise.all([
+        FlashOfferRuleService.getVenueRules(venueId),
+        FlashOfferRuleService.getRuleFirings(venueId, 10),
+      ]);
+      setRules(venueRules);
+      setFirings(recentFirings);
+    } catch (error) {
+      console.error('Error loading flash offer rules:', error);
+    } finally {
+      setListLoading(false);
+    }
+  }, [venueId]);
+
+  useEffect(() => {
+    if (visible && canUseRules) {
+      loadRules();
+    }
+  }, [visible, canUseRules, loadRules]);
+
+  const openForm = (rule: FlashOfferRule | null) => {
+    setEditingRule(rule);
+    setName(rule?.name ?? '');
+    setDaysOfWeek(rule?.days_of_week ?? WEEKDAYS);
+    setWindowStart(rule ? rule.window_start.slice(0, 5) : '14:00');
+    setWindowEnd(rule ? rule.window_end.slice(0, 5) : '17:00');
+    setCapacityCondition(rule ? rule.capacity_condition : 'below');
+    setCapacityThreshold(String(rule?.capacity_threshold_percent ?? 20));
+    setOfferTitle(rule?.offer_title ?? '');
+    setOfferDescription(rule?.offer_description ?? '');
+    setClaimValue(rule ? String(rule.claim_value) : '');
+    setMaxClaims(rule ? String(rule.max_claims) : '');
+    setDurationMinutes(String(rule?.duration_minutes ?? 60));
+    setCooldownMinutes(String(rule?.cooldown_minutes ?? 1440));
+    setSendPush(rule?.send_push ?? true);
+    setPickerField(null);
+    setFormVisible(true);
+  };
+
+  const handleClose = () => {
+    if (formVisible) {
+      setFormVisible(false);
+      return;
+    }
+    onClose();
+  };
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleTimeChange = (event: any, selectedDate?: Date) => {
+    const field = pickerField;
+    if (Platform.OS === 'android') {
+      setPickerField(null);
+    }
+
+    if (selectedDate && field) {
+      (field === 'start' ? setWindowStart : setWindowEnd)(dateToTime(selectedDate));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!venueId || !user?.id) {
+      Alert.alert('Error', 'No venue found. Please try again.');
+      return;
+    }
+
+    const input: CreateFlashOfferRuleInput = {
+      name,
+      days_of_week: daysOfWeek,
+      window_start: windowStart,
+      window_end: windowEnd,
+      capacity_condition: capacityCondition,
+      capacity_threshold_percent: capacityCondition ? parseInt(capacityThreshold, 10) : null,
+      offer_title: offerTitle,
+      offer_description: offerDescription,
+      claim_value: parseFloat(claimValue),
+      max_claims: parseInt(maxClaims, 10),
+      send_push: sendPush,
+      duration_minutes: parseInt(durationMinutes, 10),
+      cooldown_minutes: parseInt(cooldownMinutes, 10),
+    };
+
+    if (isNaN(input.claim_value) || isNaN(input.max_claims)) {
+      Alert.alert('Missing Details', 'Enter a claim value and max claims for the offer.');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      if (editingRule) {
+        await FlashOfferRuleService.updateRule(editingRule, input);
+      } else {
+        await FlashOfferRuleService.createRule(venueId, user.id, input);
+      }
+
+      setFormVisible(false);
+      loadRules();
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to save rule. Please try again.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: FlashOfferRule, isEnabled: boolean) => {
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_enabled: isEnabled } : r)));
+
+    try {
+      await FlashOfferRuleService.updateRule(rule, { is_enabled: isEnabled });
+    } catch (error) {
+      setRules(prev => prev.map(r => (r.id === rule.id ? rule : r)));
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update rule.');
+    }
+  };
+
+  const handleDeleteRule = (rule: FlashOfferRule) => {
+    Alert.alert('Delete Rule', `Delete "${rule.name}" and its firing history?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await FlashOfferRuleService.deleteRule(rule.id);
+            loadRules();
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete rule.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  const renderRule = (rule: FlashOfferRule) => (
+    <TouchableOpacity
+      key={rule.id}
+      style={[styles.row, { borderBottomColor: theme.colors.border }]}
+      onPress={() => openForm(rule)}
+      onLongPress={() => handleDeleteRule(rule)}
+    >
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: theme.colors.text }]} numberOfLines={1}>
+          {rule.name}
+        </Text>
+        <Text style={[styles.rowMeta, { color: theme.colors.textSecondary }]}>
+          {describeRule(rule)}
+        </Text>
+        <Text style={[styles.rowMeta, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+          {rule.offer_title} · {rule.duration_minutes} min
+        </Text>
+      </View>
+      <Switch
+        value={rule.is_enabled}
+        onValueChange={(value) => handleToggleRule(rule, value)}
+        trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+        thumbColor={rule.is_enabled ? theme.colors.primary : '#f4f3f4'}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderFiring = (firing: FlashOfferRuleFiringWithRule) => (
+    <View key={firing.id} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.rowInfo}>
+        <Text style={[styles.rowTitle, { color: theme.colors.text }]} numberOfLines={1}>
+          {firing.rule?.name || 'Deleted rule'}
+        </Text>
+        <Text style={[styles.rowMeta, { color: theme.colors.textSecondary }]}>
+          {new Date(firing.fired_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+          {` · ${firing.active_checkins}/${firing.max_capacity} checked in (${firing.occupancy_percent}%)`}
+        </Text>
+        {firing.error_message && (
+          <Text style={styles.errorText} numberOfLines={2}>{firing.error_message}</Text>
+        )}
+      </View>
+      <View style={[styles.statusBadge, { backgroundColor: FIRING_COLORS[firing.status] + '20' }]}>
+        <Text style={[styles.statusText, { color: FIRING_COLORS[firing.status] }]}>
+          {firing.status}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderList = () => (
+    <>
+      <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+        Rules publish a flash offer automatically when the time window and capacity
+        condition are met. Rules are checked every few minutes in your venue's local time.
+      </Text>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Rules</Text>
+      {listLoading && rules.length === 0 ? (
+        <ActivityIndicator color={theme.colors.primary} />
+      ) : rules.length === 0 ? (
+        <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+          No rules yet.
+        </Text>
+      ) : (
+        rules.map(renderRule)
+      )}
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Recent Firings</Text>
+      {firings.length === 0 ? (
+        <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+          No rules have fired yet.
+        </Text>
+      ) : (
+        firings.map(renderFiring)
+      )}
+    </>
+  );
+
+  const renderForm = () => (
+    <>
+      {/* Name */}
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>
+          Rule Name <Text style={styles.required}>*</Text>
+        </Text>
+        <TextInput
+          style={inputStyle}
+          placeholder="e.g., Slow Afternoon Boost"
+          placeholderTextColor={theme.colors.textSecondary}
+          value={name}
+          onChangeText={setName}
+          maxLength={60}
+        />
+      </View>
+
+      {/* Days */}
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Days</Text>
+        <View style={styles.chipRow}>
+          {DAY_LABELS.map((label, day) => {
+            const selected = daysOfWeek.includes(day);
+            return (
+              <TouchableOpacity
+                key={day}
+                style={[
+                  styles.dayChip,
+                  {
+                    backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                    borderColor: selected ? theme.colors.primary : theme.colors.border,
+                  },
+                ]}
+                onPress={() => toggleDay(day)}
+              >
+                <Text style={[styles.chipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {/* Time Window */}
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Time Window</Text>
+        <View style={styles.dateRow}>
+          {(['start', 'end'] as const).map((field) => (
+            <TouchableOpacity
+              key={field}
+              style={[
+                styles.dateButton,
+                { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+              ]}
+              onPress={() => setPickerField(field)}
+            >
+              <Icon name="time-outline" size={20} color={theme.colors.primary} />
+              <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                {formatTime(field === 'start' ? windowStart : windowEnd)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {pickerField && (
+          <DateTimePicker
+            value={timeToDate(pickerField === 'start' ? windowStart : windowEnd)}
+            mode="time"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleTimeChange}
+          />
+        )}
+      </View>
+
+      {/* Capacity */}
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Occupancy</Text>
+        <View style={styles.chipRow}>
+          {CAPACITY_OPTIONS.map((option) => {
+            const selected = capacityCondition === option.value;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.typeChip,
+                  {
+                    backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                    borderColor: selected ? theme.colors.primary : theme.colors.border,
+                  },
+                ]}
+                onPress={() => setCapacityCondition(option.value)}
+              >
+                <Text style={[styles.chipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {capacityCondition && (
+          <View style={styles.inlineRow}>
+            <TextInput
+              style={[inputStyle, styles.inlineInput]}
+              value={capacityThreshold}
+              onChangeText={setCapacityThreshold}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+              % of max capacity checked in
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Offer Template */}
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Offer</Text>
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>
+          Title <Text style={styles.required}>*</Text>
+        </Text>
+        <TextInput
+          style={inputStyle}
+          placeholder="e.g., Happy Hour Special"
+          placeholderTextColor={theme.colors.textSecondary}
+          value={offerTitle}
+          onChangeText={setOfferTitle}
+          maxLength={100}
+        />
+      </View>
+
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>
+          Description <Text style={styles.required}>*</Text>
+        </Text>
+        <TextInput
+          style={[inputStyle, styles.textArea]}
+          placeholder="Describe your offer..."
+          placeholderTextColor={theme.colors.textSecondary}
+          value={offerDescription}
+          onChangeText={setOfferDescription}
+          maxLength={500}
+          multiline
+          textAlignVertical="top"
+        />
+      </View>
+
+      <View style={styles.dateRow}>
+        <View style={[styles.fieldContainer, styles.flexField]}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Claim Value ($)</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="e.g., 10"
+            placeholderTextColor={theme.colors.textSecondary}
+            value={claimValue}
+            onChangeText={setClaimValue}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={[styles.fieldContainer, styles.flexField]}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Max Claims</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="e.g., 50"
+            placeholderTextColor={theme.colors.textSecondary}
+            value={maxClaims}
+            onChangeText={setMaxClaims}
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      <View style={styles.dateRow}>
+        <View style={[styles.fieldContainer, styles.flexField]}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Duration (min)</Text>
+          <TextInput
+            style={inputStyle}
+            value={durationMinutes}
+            onChangeText={setDurationMinutes}
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={[styles.fieldContainer, styles.flexField]}>
+          <Text style={[styles.label, { color: theme.colors.text }]}>Cooldown (min)</Text>
+          <TextInput
+            style={inputStyle}
+            value={cooldownMinutes}
+            onChangeText={setCooldownMinutes}
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text style={[styles.switchLabel, { color: theme.colors.text }]}>
+          Send push notification
+        </Text>
+        <Switch
+          value={sendPush}
+          onValueChange={setSendPush}
+          trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+          thumbColor={sendPush ? theme.colors.primary : '#f4f3f4'}
+        />
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Icon name={formVisible ? 'arrow-back' : 'close'} size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            {formVisible ? (editingRule ? 'Edit Rule' : 'New Rule') : 'Automatic Offers'}
+          </Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {!canUseRules ? (
+            <View style={styles.lockedContainer}>
+              <Icon name="lock-closed-outline" size={48} color={theme.colors.textSecondary} />
+              <Text style={[styles.lockedText, { color: theme.colors.text }]}>
+                Automatic offers are available on Pro and Revenue plans
+              </Text>
+            </View>
+          ) : formVisible ? (
+            renderForm()
+          ) : (
+            renderList()
+          )}
+        </ScrollView>
+
+        {/* Footer Button */}
+        {canUseRules && (
+          <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: theme.colors.primary, opacity: saving ? 0.6 : 1 },
+              ]}
+              onPress={formVisible ? handleSave : () => openForm(null)}
+              disabled={saving}
+              activeOpacity={0.8}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <>
+                  <Text style={styles.buttonText}>{formVisible ? 'Save Rule' : 'New Rule'}</Text>
+                  <Icon name={formVisible ? 'checkmark' : 'add'} size={20} color="#fff" />
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  flexField: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  required: {
+    color: '#FF6B6B',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dayChip: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  typeChip: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    paddingTop: 12,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 12,
+  },
+  inlineInput: {
+    width: 80,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF6B6B',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  lockedContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 16,
+  },
+  lockedText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
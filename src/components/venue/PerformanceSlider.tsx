@@ -19,11 +19,13 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 interface PerformanceSliderProps {
   analytics: VenueAnalytics | null;
   analyticsLoading: boolean;
+  periodLabel?: string;
 }
 
 export const PerformanceSlider: React.FC<PerformanceSliderProps> = ({
   analytics,
   analyticsLoading,
+  periodLabel,
 }) => {
   const { theme } = useTheme();
   const [activeIndex, setActiveIndex] = useState(0);
@@ -67,6 +69,7 @@ export const PerformanceSlider: React.FC<PerformanceSliderProps> = ({
           <ThisWeeksAnalysis
             analytics={analytics}
             analyticsLoading={analyticsLoading}
+            periodLabel={periodLabel}
           />
         </View>
       </ScrollView>
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  VenueAnalyticsService,
+  type AnalyticsPeriodStats,
+  type VenueAnalytics,
+} from '../../services/venueAnalyticsService';
+
+interface PeriodComparisonCardProps {
+  analytics: VenueAnalytics;
+}
+
+const METRICS: {
+  label: string;
+  pick: (stats: AnalyticsPeriodStats) => number;
+  format?: (value: number) => string;
+}[] = [
+  { label: 'Check-ins', pick: (stats) => stats.checkIns },
+  { label: 'Unique customers', pick: (stats) => stats.uniqueCustomers },
+  { label: 'New favorites', pick: (stats) => stats.newFavorites },
+  { label: 'Reviews', pick: (stats) => stats.reviews },
+  { label: 'Avg. rating', pick: (stats) => stats.avgRating, format: (value) => value.toFixed(1) },
+  { label: 'Repeat customers', pick: (stats) => stats.repeatCustomerPercentage, format: (value) => `${value}%` },
+  { label: 'Avg. visit', pick: (stats) => stats.avgVisitDuration, format: (value) => `${value} min` },
+];
+
+/**
+ * PeriodComparisonCard Component
+ *
+ * Daily check-ins for the selected range and each headline metric next to
+ * the previous period of the same length.
+ */
+export const PeriodComparisonCard: React.FC<PeriodComparisonCardProps> = ({ analytics }) => {
+  const { theme, isDark } = useTheme();
+  const { period, previousPeriod, dailyCheckIns } = analytics;
+  const maxDaily = Math.max(1, ...dailyCheckIns.map((day) => day.count));
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: theme.colors.surface,
+          borderWidth: isDark ? 0 : 1,
+          borderColor: theme.colors.border,
+        },
+      ]}
+    >
+      <Text style={[styles.title, { color: theme.colors.text }]}>Compared to Previous Period</Text>
+
+      {dailyCheckIns.length > 1 && (
+        <View style={styles.chart}>
+          {dailyCheckIns.map((day) => (
+            <View key={day.date} style={styles.barSlot}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    backgroundColor: theme.colors.primary,
+                    height: `${Math.max(2, (day.count / maxDaily) * 100)}%`,
+                  },
+                ]}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={[styles.metricLabel, styles.headerText, { color: theme.colors.textSecondary }]}>Metric</Text>
+        <Text style={[styles.value, styles.headerText, { color: theme.colors.textSecondary }]}>Now</Text>
+        <Text style={[styles.value, styles.headerText, { color: theme.colors.textSecondary }]}>Before</Text>
+        <Text style={[styles.value, styles.headerText, { color: theme.colors.textSecondary }]}>Change</Text>
+      </View>
+      {METRICS.map((metric) => {
+        const current = metric.pick(period);
+        const previous = metric.pick(previousPeriod);
+        const change = VenueAnalyticsService.getPeriodChange(current, previous);
+        const format = metric.format || ((value: number) => value.toString());
+
+        return (
+          <View key={metric.label} style={[styles.row, styles.metricRow, { borderTopColor: theme.colors.border }]}>
+            <Text style={[styles.metricLabel, { color: theme.colors.text }]}>{metric.label}</Text>
+            <Text style={[styles.value, { color: theme.colors.text }]}>{format(current)}</Text>
+            <Text style={[styles.value, { color: theme.colors.textSecondary }]}>{format(previous)}</Text>
+            <Text
+              style={[
+                styles.value,
+                styles.change,
+                {
+                  color: change === null || change === 0
+                    ? theme.colors.textSecondary
+                    : change > 0 ? theme.colors.success : theme.colors.error,
+                },
+              ]}
+            >
+              {change === null ? '–' : `${change > 0 ? '+' : ''}${change}%`}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: '90%',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 60,
+    gap: 1,
+    marginBottom: 12,
+  },
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderRadius: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  metricRow: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  metricLabel: {
+    flex: 2,
+    fontSize: 14,
+  },
+  value: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  change: {
+    fontWeight: '600',
+  },
+});
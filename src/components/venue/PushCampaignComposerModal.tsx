@@ -0,0 +1,697 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  VenuePushCampaignService,
+  type VenueCampaignType,
+  type VenuePushCampaign,
+} from '../../services/api/venuePushCampaigns';
+
+interface PushCampaignComposerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const CAMPAIGN_TYPES: Array<{ value: VenueCampaignType; label: string; icon: string }> = [
+  { value: 'general', label: 'Announcement', icon: 'megaphone-outline' },
+  { value: 'event', label: 'Event', icon: 'calendar-outline' },
+  { value: 'promotion', label: 'Promotion', icon: 'pricetag-outline' },
+];
+
+const STATUS_COLORS: Record<VenuePushCampaign['status'], string> = {
+  draft: '#9E9E9E',
+  scheduled: '#2196F3',
+  sent: '#4CAF50',
+  cancelled: '#9E9E9E',
+  failed: '#FF6B6B',
+};
+
+/**
+ * Default schedule time: one hour from now, rounded down to the hour
+ */
+const getDefaultScheduleDate = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+/**
+ * PushCampaignComposerModal Component
+ *
+ * Modal for composing venue push campaigns (announcements, events and
+ * promotions), sending them now or scheduling them, and cancelling
+ * scheduled campaigns.
+ */
+export const PushCampaignComposerModal: React.FC<PushCampaignComposerModalProps> = ({
+  visible,
+  onClose,
+  onSuccess,
+}) => {
+  const { theme } = useTheme();
+  const { user, venueBusinessAccount } = useAuth();
+
+  // Form state
+  const [campaignType, setCampaignType] = useState<VenueCampaignType>('general');
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [radiusMiles, setRadiusMiles] = useState('1');
+  const [targetFavoritesOnly, setTargetFavoritesOnly] = useState(false);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [scheduledDate, setScheduledDate] = useState<Date>(getDefaultScheduleDate);
+
+  // UI state
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [campaigns, setCampaigns] = useState<VenuePushCampaign[]>([]);
+  const [campaignsLoading, setCampaignsLoading] = useState(false);
+
+  const businessAccountId: string | undefined = venueBusinessAccount?.id;
+  const venueId: string | undefined = venueBusinessAccount?.venues?.id;
+  const isUnlimited = venueBusinessAccount?.subscription_tier === 'revenue';
+  const creditsRemaining: number = venueBusinessAccount?.push_credits_remaining || 0;
+
+  const loadCampaigns = useCallback(async () => {
+    if (!businessAccountId) return;
+
+    try {
+      setCampaignsLoading(true);
+      setCampaigns(await VenuePushCampaignService.getVenueCampaigns(businessAccountId, 10));
+    } catch (error) {
+      console.error('Error loading campaigns:', error);
+    } finally {
+      setCampaignsLoading(false);
+    }
+  }, [businessAccountId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadCampaigns();
+    }
+  }, [visible, loadCampaigns]);
+
+  // Reset form when modal closes
+  const handleClose = () => {
+    setCampaignType('general');
+    setTitle('');
+    setMessage('');
+    setRadiusMiles('1');
+    setTargetFavoritesOnly(false);
+    setScheduleLater(false);
+    setScheduledDate(getDefaultScheduleDate());
+    setPickerMode(null);
+    setErrors({});
+    onClose();
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setPickerMode(null);
+    }
+
+    if (selectedDate) {
+      setScheduledDate(selectedDate);
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (title.trim().length < 3) {
+      newErrors.title = 'Title must be at least 3 characters';
+    }
+
+    if (message.trim().length < 10) {
+      newErrors.message = 'Message must be at least 10 characters';
+    }
+
+    const radiusNum = parseFloat(radiusMiles);
+    if (!radiusMiles || isNaN(radiusNum) || radiusNum <= 0) {
+      newErrors.radius = 'Radius must be greater than 0';
+    }
+
+    if (scheduleLater && scheduledDate.getTime() <= Date.now()) {
+      newErrors.scheduledDate = 'Pick a time in the future';
+    }
+
+    if (!isUnlimited && creditsRemaining < 1) {
+      newErrors.credits = 'Out of push credits - upgrade to send more';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validate()) return;
+
+    if (!user?.id || !businessAccountId || !venueId) {
+      Alert.alert('Error', 'No venue found. Please try again.');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const campaign = await VenuePushCampaignService.createCampaign(businessAccountId, venueId, {
+        title,
+        message,
+        notification_type: campaignType,
+        target_radius_miles: parseFloat(radiusMiles),
+        target_favorites_only: targetFavoritesOnly,
+      });
+
+      if (scheduleLater) {
+        await VenuePushCampaignService.scheduleCampaign(campaign, scheduledDate);
+        Alert.alert(
+          'Campaign Scheduled',
+          `Your campaign will be sent ${scheduledDate.toLocaleString([], {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+          })}.`
+        );
+      } else {
+        const result = await VenuePushCampaignService.sendCampaign(campaign);
+        Alert.alert(
+          'Campaign Sent',
+          result.sentCount > 0
+            ? `Delivered to ${result.sentCount} customer${result.sentCount !== 1 ? 's' : ''} nearby.`
+            : 'No customers matched your targeting right now.'
+        );
+      }
+
+      onSuccess?.();
+      handleClose();
+    } catch (error) {
+      console.error('Error submitting campaign:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to send campaign. Please try again.'
+      );
+      loadCampaigns();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelCampaign = (campaign: VenuePushCampaign) => {
+    if (!user?.id) return;
+
+    Alert.alert(
+      'Cancel Campaign',
+      campaign.status === 'scheduled'
+        ? 'This campaign will not be sent and its credit will be returned.'
+        : 'Discard this draft?',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Campaign',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await VenuePushCampaignService.cancelCampaign(campaign);
+              onSuccess?.();
+              loadCampaigns();
+            } catch (error) {
+              Alert.alert(
+                'Error',
+                error instanceof Error ? error.message : 'Failed to cancel campaign.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCampaign = (campaign: VenuePushCampaign) => {
+    const canCancel = campaign.status === 'draft' || campaign.status === 'scheduled';
+    const when = campaign.status === 'scheduled' ? campaign.scheduled_for : campaign.sent_at;
+
+    return (
+      <View
+        key={campaign.id}
+        style={[styles.campaignRow, { borderBottomColor: theme.colors.border }]}
+      >
+        <View style={styles.campaignInfo}>
+          <Text style={[styles.campaignTitle, { color: theme.colors.text }]} numberOfLines={1}>
+            {campaign.title}
+          </Text>
+          <Text style={[styles.campaignMeta, { color: theme.colors.textSecondary }]}>
+            {when
+              ? new Date(when).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+              : 'Not sent'}
+            {campaign.status === 'sent' && ` · ${campaign.actual_sent_count} delivered`}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[campaign.status] + '20' }]}>
+          <Text style={[styles.statusText, { color: STATUS_COLORS[campaign.status] }]}>
+            {campaign.status}
+          </Text>
+        </View>
+        {canCancel && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => handleCancelCampaign(campaign)}
+          >
+            <Icon name="close-circle-outline" size={22} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+            Push Campaign
+          </Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={[styles.creditsText, { color: theme.colors.textSecondary }]}>
+            {isUnlimited
+              ? '∞ Unlimited push notifications'
+              : `${creditsRemaining} credit${creditsRemaining !== 1 ? 's' : ''} remaining · 1 credit per campaign`}
+          </Text>
+          {errors.credits && <Text style={styles.errorText}>{errors.credits}</Text>}
+
+          {/* Campaign Type */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Type</Text>
+            <View style={styles.typeRow}>
+              {CAMPAIGN_TYPES.map((type) => {
+                const selected = campaignType === type.value;
+                return (
+                  <TouchableOpacity
+                    key={type.value}
+                    style={[
+                      styles.typeChip,
+                      {
+                        backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                      },
+                    ]}
+                    onPress={() => setCampaignType(type.value)}
+                  >
+                    <Icon name={type.icon} size={16} color={selected ? '#fff' : theme.colors.text} />
+                    <Text style={[styles.typeChipText, { color: selected ? '#fff' : theme.colors.text }]}>
+                      {type.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Title */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>
+              Title <Text style={styles.required}>*</Text>
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: errors.title ? '#FF6B6B' : theme.colors.border,
+                },
+              ]}
+              placeholder="e.g., Live Jazz Tonight"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={title}
+              onChangeText={setTitle}
+              maxLength={60}
+            />
+            {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+          </View>
+
+          {/* Message */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>
+              Message <Text style={styles.required}>*</Text>
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                styles.textArea,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: errors.message ? '#FF6B6B' : theme.colors.border,
+                },
+              ]}
+              placeholder="What should nearby customers know?"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={message}
+              onChangeText={setMessage}
+              maxLength={200}
+              multiline
+              textAlignVertical="top"
+            />
+            {errors.message && <Text style={styles.errorText}>{errors.message}</Text>}
+            <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+              {message.length}/200 characters
+            </Text>
+          </View>
+
+          {/* Targeting */}
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.label, { color: theme.colors.text }]}>Radius (miles)</Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.colors.surface,
+                  color: theme.colors.text,
+                  borderColor: errors.radius ? '#FF6B6B' : theme.colors.border,
+                },
+              ]}
+              value={radiusMiles}
+              onChangeText={setRadiusMiles}
+              keyboardType="decimal-pad"
+            />
+            {errors.radius && <Text style={styles.errorText}>{errors.radius}</Text>}
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={[styles.switchLabel, { color: theme.colors.text }]}>
+              Favorites only
+            </Text>
+            <Switch
+              value={targetFavoritesOnly}
+              onValueChange={setTargetFavoritesOnly}
+              trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+              thumbColor={targetFavoritesOnly ? theme.colors.primary : '#f4f3f4'}
+            />
+          </View>
+
+          {/* Scheduling */}
+          <View style={styles.switchRow}>
+            <Text style={[styles.switchLabel, { color: theme.colors.text }]}>
+              Schedule for later
+            </Text>
+            <Switch
+              value={scheduleLater}
+              onValueChange={setScheduleLater}
+              trackColor={{ false: '#767577', true: theme.colors.primary + '80' }}
+              thumbColor={scheduleLater ? theme.colors.primary : '#f4f3f4'}
+            />
+          </View>
+
+          {scheduleLater && (
+            <View style={styles.fieldContainer}>
+              <View style={styles.dateRow}>
+                <TouchableOpacity
+                  style={[
+                    styles.dateButton,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      borderColor: errors.scheduledDate ? '#FF6B6B' : theme.colors.border,
+                    },
+                  ]}
+                  onPress={() => setPickerMode('date')}
+                >
+                  <Icon name="calendar-outline" size={20} color={theme.colors.primary} />
+                  <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                    {scheduledDate.toLocaleDateString()}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.dateButton,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      borderColor: errors.scheduledDate ? '#FF6B6B' : theme.colors.border,
+                    },
+                  ]}
+                  onPress={() => setPickerMode('time')}
+                >
+                  <Icon name="time-outline" size={20} color={theme.colors.primary} />
+                  <Text style={[styles.dateButtonText, { color: theme.colors.text }]}>
+                    {scheduledDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {errors.scheduledDate && (
+                <Text style={styles.errorText}>{errors.scheduledDate}</Text>
+              )}
+              {pickerMode && (
+                <DateTimePicker
+                  value={scheduledDate}
+                  mode={pickerMode}
+                  minimumDate={new Date()}
+                  display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                  onChange={handleDateChange}
+                />
+              )}
+            </View>
+          )}
+
+          {/* Recent Campaigns */}
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+            Recent Campaigns
+          </Text>
+          {campaignsLoading ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : campaigns.length === 0 ? (
+            <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+              No campaigns yet.
+            </Text>
+          ) : (
+            campaigns.map(renderCampaign)
+          )}
+        </ScrollView>
+
+        {/* Footer Button */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.border }]}>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: theme.colors.primary, opacity: loading ? 0.6 : 1 },
+            ]}
+            onPress={handleSubmit}
+            disabled={loading}
+            activeOpacity={0.8}
+          >
+            {loading ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <>
+                <Text style={styles.buttonText}>
+                  {scheduleLater ? 'Schedule Campaign' : 'Send Now'}
+                </Text>
+                <Icon name={scheduleLater ? 'time' : 'paper-plane'} size={20} color="#fff" />
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  creditsText: {
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  required: {
+    color: '#FF6B6B',
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeChip: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  typeChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 100,
+    paddingTop: 12,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  campaignRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  campaignInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  campaignTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  campaignMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statusBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  cancelButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
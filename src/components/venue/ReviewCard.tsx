@@ -11,6 +11,7 @@
  * - 8.2: Show verified badge if is_verified = true
  * - 6.8: Show "Edited" indicator if updated_at > created_at
  * - 9.3, 9.4, 9.8: Display venue owner response
+ * - Review photos: Show attached photos, each reportable on its own
  */
 
 import React, { useState } from 'react';
@@ -25,7 +26,8 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../contexts/ThemeContext';
-import type { ReviewWithReviewer } from '../../types';
+import type { ReviewPhoto, ReviewWithReviewer } from '../../types';
+import ReviewPhotoGallery from './ReviewPhotoGallery';
 
 interface ReviewCardProps {
   review: ReviewWithReviewer;
@@ -33,6 +35,7 @@ interface ReviewCardProps {
   onEdit?: () => void; // Only for user's own reviews
   onDelete?: () => void; // Only for user's own reviews
   onReport?: () => void;
+  onReportPhoto?: (photo: ReviewPhoto) => void;
   onVenueResponse?: () => void; // Only for venue owners
   currentUserId?: string;
   isVenueOwner?: boolean;
@@ -51,6 +54,7 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
   onEdit,
   onDelete,
   onReport,
+  onReportPhoto,
   onVenueResponse,
   currentUserId,
   isVenueOwner = false,
@@ -491,6 +495,17 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
       {/* Review Text */}
       {renderReviewText()}
 
+      {/* Review Photos */}
+      {review.photos && review.photos.length > 0 && (
+        <View style={styles.photosSection}>
+          <ReviewPhotoGallery
+            photos={review.photos}
+            onReportPhoto={onReportPhoto}
+            currentUserId={currentUserId}
+          />
+        </View>
+      )}
+
       {/* Actions Row */}
       <View style={styles.actionsRow}>
         {/* Helpful Button */}
@@ -625,6 +640,9 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginTop: 4,
   },
+  photosSection: {
+    marginBottom: 12,
+  },
   actionsRow: {
     flexDirection: 'row',
     alignItems: 'center',
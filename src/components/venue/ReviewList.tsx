@@ -25,6 +25,7 @@ import {
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { ReviewService } from '../../services/api/reviews';
+import { useReviewReporting } from '../../hooks/useReviewReporting';
 import ReviewCard from './ReviewCard';
 import type { ReviewWithReviewer, ReviewSortBy } from '../../types';
 
@@ -53,6 +54,7 @@ const ReviewList: React.FC<ReviewListProps> = ({
   onVenueResponse,
 }) => {
   const { theme } = useTheme();
+  const { reportReview, reportPhoto } = useReviewReporting();
 
   // State
   const [reviews, setReviews] = useState<ReviewWithReviewer[]>([]);
@@ -632,12 +634,10 @@ const ReviewList: React.FC<ReviewListProps> = ({
       }
       onReport={
         item.user_id !== currentUserId
-          ? () => {
-              // TODO: Implement report functionality
-              console.log('Report review:', item.id);
-            }
+          ? () => reportReview(item.id)
           : undefined
       }
+      onReportPhoto={reportPhoto}
       onVenueResponse={
         isVenueOwner && !item.venue_response && onVenueResponse
           ? () => onVenueResponse(item.id)
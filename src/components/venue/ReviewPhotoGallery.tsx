@@ -0,0 +1,183 @@
+/**
+ * ReviewPhotoGallery Component
+ *
+ * Horizontal strip of review photo thumbnails. Tapping a thumbnail opens a
+ * full-screen viewer that can be swiped through and, for other people's
+ * photos, offers a "Report Photo" action.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Modal,
+  ScrollView,
+  FlatList,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { ReviewPhoto } from '../../types';
+
+interface ReviewPhotoGalleryProps {
+  photos: ReviewPhoto[];
+  onReportPhoto?: (photo: ReviewPhoto) => void;
+  currentUserId?: string; // Own photos can't be reported
+  thumbnailSize?: number;
+}
+
+const ReviewPhotoGallery: React.FC<ReviewPhotoGalleryProps> = ({
+  photos,
+  onReportPhoto,
+  currentUserId,
+  thumbnailSize = 72,
+}) => {
+  const { theme } = useTheme();
+  const { width } = useWindowDimensions();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (photos.length === 0) return null;
+
+  const viewedPhoto = viewerIndex !== null ? photos[viewerIndex] : undefined;
+  const canReport = !!viewedPhoto && !!onReportPhoto && viewedPhoto.user_id !== currentUserId;
+
+  const handleReport = () => {
+    if (!viewedPhoto || !onReportPhoto) return;
+    setViewerIndex(null);
+    onReportPhoto(viewedPhoto);
+  };
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.thumbnailRow}
+      >
+        {photos.map((photo, index) => (
+          <TouchableOpacity
+            key={photo.id}
+            onPress={() => setViewerIndex(index)}
+            activeOpacity={0.8}
+            accessibilityRole="imagebutton"
+            accessibilityLabel={`Review photo ${index + 1} of ${photos.length}`}
+          >
+            <Image
+              source={{ uri: photo.photo_url }}
+              style={[
+                styles.thumbnail,
+                {
+                  width: thumbnailSize,
+                  height: thumbnailSize,
+                  backgroundColor: theme.colors.border,
+                },
+              ]}
+            />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Modal
+        visible={viewerIndex !== null}
+        animationType="fade"
+        transparent={false}
+        onRequestClose={() => setViewerIndex(null)}
+      >
+        <SafeAreaView style={styles.viewer}>
+          <View style={styles.viewerHeader}>
+            <TouchableOpacity onPress={() => setViewerIndex(null)} style={styles.viewerButton}>
+              <Icon name="close" size={28} color="#fff" />
+            </TouchableOpacity>
+            <Text style={styles.viewerCount}>
+              {(viewerIndex ?? 0) + 1} / {photos.length}
+            </Text>
+            <View style={styles.viewerButton} />
+          </View>
+
+          <FlatList
+            data={photos}
+            keyExtractor={(photo) => photo.id}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={viewerIndex ?? 0}
+            getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+            onMomentumScrollEnd={(event) =>
+              setViewerIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+            }
+            renderItem={({ item }) => (
+              <Image
+                source={{ uri: item.photo_url }}
+                style={[styles.viewerImage, { width }]}
+                resizeMode="contain"
+              />
+            )}
+          />
+
+          {canReport && (
+            <TouchableOpacity style={styles.reportButton} onPress={handleReport}>
+              <Icon name="flag-outline" size={18} color="#fff" />
+              <Text style={styles.reportText}>Report Photo</Text>
+            </TouchableOpacity>
+          )}
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  thumbnailRow: {
+    gap: 8,
+  },
+  thumbnail: {
+    borderRadius: 8,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  viewerButton: {
+    width: 36,
+    padding: 4,
+  },
+  viewerCount: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+  },
+  viewerImage: {
+    flex: 1,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginVertical: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  reportText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
+
+export default ReviewPhotoGallery;
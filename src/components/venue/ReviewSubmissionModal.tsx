@@ -10,6 +10,7 @@
  * - 1.9, 1.10: Success/error messages
  * - 6.2: Handle edit mode (pre-populate existing review)
  * - 13.2, 13.3, 13.4, 13.5: Character counter with warning color
+ * - 17.1, 17.2: Attach up to MAX_REVIEW_PHOTOS photos
  */
 
 import React, { useState, useEffect } from 'react';
@@ -24,13 +25,19 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  Image,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { ReviewService } from '../../services/api/reviews';
+import { ReviewService, MAX_REVIEW_PHOTOS } from '../../services/api/reviews';
 import { ContentModerationService } from '../../services/compliance/ContentModerationService';
-import type { Review } from '../../types';
+import {
+  selectPhotoFromLibrary,
+  takePhotoWithCamera,
+  type PhotoPickerResult,
+} from '../../utils/photoPicker';
+import type { Review, ReviewPhoto } from '../../types';
 
 interface ReviewSubmissionModalProps {
   visible: boolean;
@@ -41,6 +48,19 @@ interface ReviewSubmissionModalProps {
   onSubmitSuccess: () => void;
 }
 
+/**
+ * A photo shown in the picker: either already saved on the review, or
+ * picked on this device and waiting to be uploaded
+ */
+interface DraftPhoto {
+  key: string;
+  uri: string;
+  type?: string;
+  saved?: ReviewPhoto;
+}
+
+const PHOTO_PICKER_OPTIONS = { quality: 0.8, maxWidth: 1600, maxHeight: 1600 };
+
 /**
  * ReviewSubmissionModal Component
  * 
@@ -64,6 +84,8 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
   const [reviewText, setReviewText] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const [moderationMessage, setModerationMessage] = useState<string>('');
+  const [photos, setPhotos] = useState<DraftPhoto[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<ReviewPhoto[]>([]);
 
   const isEditMode = !!existingReview;
   const maxChars = 500;
@@ -77,11 +99,18 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
     if (visible && existingReview) {
       setRating(existingReview.rating);
       setReviewText(existingReview.review_text || '');
+      setPhotos((existingReview.photos || []).map((photo) => ({
+        key: photo.id,
+        uri: photo.photo_url,
+        saved: photo,
+      })));
     } else if (visible && !existingReview) {
       // Reset for new review
       setRating(0);
       setReviewText('');
+      setPhotos([]);
     }
+    setRemovedPhotos([]);
     setModerationMessage('');
   }, [visible, existingReview]);
 
@@ -105,6 +134,86 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
     }
   };
 
+  /**
+   * Add a picked photo, or explain why picking failed
+   */
+  const handlePhotoResult = (result: PhotoPickerResult) => {
+    if (!result.success || !result.uri) {
+      if (result.error && result.error !== 'User cancelled image selection') {
+        Alert.alert('Photo Error', result.error);
+      }
+      return;
+    }
+
+    const uri = result.uri;
+    setPhotos((current) =>
+      current.length >= MAX_REVIEW_PHOTOS
+        ? current
+        : [...current, { key: `${Date.now()}-${uri}`, uri, type: result.type }]
+    );
+  };
+
+  /**
+   * Offer camera or library for a new photo
+   */
+  const handleAddPhoto = () => {
+    Alert.alert('Add Photo', undefined, [
+      {
+        text: 'Take Photo',
+        onPress: async () => handlePhotoResult(await takePhotoWithCamera(PHOTO_PICKER_OPTIONS)),
+      },
+      {
+        text: 'Choose from Library',
+        onPress: async () => handlePhotoResult(await selectPhotoFromLibrary(PHOTO_PICKER_OPTIONS)),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRemovePhoto = (photo: DraftPhoto) => {
+    setPhotos((current) => current.filter((item) => item.key !== photo.key));
+    if (photo.saved) {
+      setRemovedPhotos((current) => [...current, photo.saved as ReviewPhoto]);
+    }
+  };
+
+  /**
+   * Apply photo changes to a saved review
+   * 
+   * @param reviewId - ID of the saved review
+   * @param userId - Review author
+   * @returns Number of photos that could not be saved
+   */
+  const savePhotos = async (reviewId: string, userId: string): Promise<number> => {
+    let failures = 0;
+
+    for (const photo of removedPhotos) {
+      try {
+        await ReviewService.deleteReviewPhoto(photo);
+      } catch {
+        failures++;
+      }
+    }
+
+    for (const [position, photo] of photos.entries()) {
+      if (photo.saved) continue;
+      try {
+        await ReviewService.uploadReviewPhoto({
+          reviewId,
+          userId,
+          venueId,
+          fileUri: photo.uri,
+          mimeType: photo.type,
+          position,
+        });
+      } catch {
+        failures++;
+      }
+    }
+
+    return failures;
+  };
+
   /**
    * Handle review submission
    * Requirements:
@@ -149,15 +258,16 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
       }
 
       // Submit or update review
+      let savedReview: Review;
       if (isEditMode && existingReview) {
-        await ReviewService.updateReview({
+        savedReview = await ReviewService.updateReview({
           reviewId: existingReview.id,
           userId: user.id,
           rating,
           reviewText: reviewText.trim() || undefined,
         });
       } else {
-        await ReviewService.submitReview({
+        savedReview = await ReviewService.submitReview({
           venueId,
           userId: user.id,
           rating,
@@ -165,10 +275,19 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
         });
       }
 
+      // Upload new photos and remove deleted ones once the review exists
+      const hasPhotoChanges = removedPhotos.length > 0 || photos.some((photo) => !photo.saved);
+      const photoFailures = hasPhotoChanges
+        ? await savePhotos(savedReview?.id ?? existingReview?.id ?? '', user.id)
+        : 0;
+      const successMessage = isEditMode ? 'Your review has been updated!' : 'Thank you for your review!';
+
       // Requirement 1.9: Show success message
       Alert.alert(
         'Success',
-        isEditMode ? 'Your review has been updated!' : 'Thank you for your review!',
+        photoFailures > 0
+          ? `${successMessage} Some photos couldn't be saved. You can add them by editing your review.`
+          : successMessage,
         [
           {
             text: 'OK',
@@ -342,43 +461,55 @@ const ReviewSubmissionModal: React.FC<ReviewSubmissionModalProps> = ({
             {/* Text Input (enabled when rating is selected) */}
             {renderTextInput()}
 
-            {/* Photo Upload Placeholder - Requirements 17.1, 17.2 */}
+            {/* Photos - Requirements 17.1, 17.2 */}
             <View style={styles.photoSection}>
-              <Text style={[styles.label, { color: theme.colors.text }]}>
-                Photos (Optional)
-              </Text>
-              <TouchableOpacity
-                style={[
-                  styles.photoButton,
-                  {
-                    backgroundColor: theme.colors.background,
-                    borderColor: theme.colors.border,
-                  },
-                ]}
-                onPress={() => {
-                  Alert.alert(
-                    'Photos Coming Soon',
-                    'Photo uploads will be available in a future update. Stay tuned!',
-                    [{ text: 'OK' }]
-                  );
-                }}
-                disabled={loading}
-              >
-                <Icon name="camera-outline" size={32} color={theme.colors.textSecondary} />
-                <Text style={[styles.photoButtonText, { color: theme.colors.textSecondary }]}>
-                  Add Photos
+              <View style={styles.labelRow}>
+                <Text style={[styles.label, { color: theme.colors.text }]}>
+                  Photos (Optional)
                 </Text>
-                <Text style={[styles.comingSoonBadge, { color: theme.colors.primary }]}>
-                  Coming Soon
-                </Text>
-              </TouchableOpacity>
-              
-              {/* Reserved space for photo thumbnails */}
-              <View style={styles.photoThumbnailsPlaceholder}>
-                <Text style={[styles.photoPlaceholderText, { color: theme.colors.textSecondary }]}>
-                  Photo thumbnails will appear here
+                <Text style={[styles.charCounter, { color: theme.colors.textSecondary }]}>
+                  {photos.length}/{MAX_REVIEW_PHOTOS}
                 </Text>
               </View>
+              <View style={styles.photoGrid}>
+                {photos.map((photo) => (
+                  <View key={photo.key} style={styles.photoThumbnailContainer}>
+                    <Image
+                      source={{ uri: photo.uri }}
+                      style={[styles.photoThumbnail, { backgroundColor: theme.colors.border }]}
+                    />
+                    <TouchableOpacity
+                      style={styles.removePhotoButton}
+                      onPress={() => handleRemovePhoto(photo)}
+                      disabled={loading}
+                      accessibilityLabel="Remove photo"
+                    >
+                      <Icon name="close-circle" size={22} color="white" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {photos.length < MAX_REVIEW_PHOTOS && (
+                  <TouchableOpacity
+                    style={[
+                      styles.photoButton,
+                      {
+                        backgroundColor: theme.colors.background,
+                        borderColor: theme.colors.border,
+                      },
+                    ]}
+                    onPress={handleAddPhoto}
+                    disabled={loading}
+                  >
+                    <Icon name="camera-outline" size={24} color={theme.colors.textSecondary} />
+                    <Text style={[styles.photoButtonText, { color: theme.colors.textSecondary }]}>
+                      Add
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={[styles.photoHintText, { color: theme.colors.textSecondary }]}>
+                Location data is removed from photos before they're uploaded.
+              </Text>
             </View>
 
             {/* Helper Text */}
@@ -554,39 +685,45 @@ const styles = StyleSheet.create({
   photoSection: {
     marginBottom: 16,
   },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  photoThumbnailContainer: {
+    width: 72,
+    height: 72,
+  },
+  photoThumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 11,
+  },
   photoButton: {
+    width: 72,
+    height: 72,
     borderWidth: 1,
-    borderRadius: 12,
+    borderRadius: 8,
     borderStyle: 'dashed',
-    paddingVertical: 24,
-    paddingHorizontal: 16,
     alignItems: 'center',
     justifyContent: 'center',
-    gap: 8,
-    marginBottom: 12,
+    gap: 2,
   },
   photoButtonText: {
-    fontSize: 15,
-    fontFamily: 'Inter-Medium',
-  },
-  comingSoonBadge: {
     fontSize: 12,
-    fontFamily: 'Inter-SemiBold',
-    marginTop: 4,
-  },
-  photoThumbnailsPlaceholder: {
-    minHeight: 80,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: 'transparent',
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingVertical: 16,
+    fontFamily: 'Inter-Medium',
   },
-  photoPlaceholderText: {
+  photoHintText: {
     fontSize: 12,
     fontFamily: 'Inter-Regular',
-    fontStyle: 'italic',
   },
   actions: {
     flexDirection: 'row',
@@ -7,13 +7,20 @@ import Icon from 'react-native-vector-icons/Ionicons';
 interface ThisWeeksAnalysisProps {
   analytics: VenueAnalytics | null;
   analyticsLoading: boolean;
+  periodLabel?: string;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export const ThisWeeksAnalysis: React.FC<ThisWeeksAnalysisProps> = ({
   analytics,
   analyticsLoading,
+  periodLabel = "This Week's Analysis",
 }) => {
   const { theme, isDark } = useTheme();
+  const rangeDays = analytics?.range
+    ? Math.max(1, Math.round((new Date(analytics.range.to).getTime() - new Date(analytics.range.from).getTime()) / DAY_MS))
+    : 7;
 
   const DashboardCard = ({ 
     title, 
@@ -54,7 +61,7 @@ export const ThisWeeksAnalysis: React.FC<ThisWeeksAnalysisProps> = ({
   return (
     <View style={styles.container}>
       <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-        This Week's Analysis {analyticsLoading && '(Updating...)'}
+        {periodLabel} {analyticsLoading && '(Updating...)'}
       </Text>
       
       <View style={styles.statsGrid}>
@@ -73,7 +80,7 @@ export const ThisWeeksAnalysis: React.FC<ThisWeeksAnalysisProps> = ({
         <DashboardCard
           title="Avg. Activity"
           value={analytics?.weeklyCheckIns ? 
-            `${Math.round((analytics.weeklyCheckIns / 7) * 100 / (analytics.currentActivity?.capacity || 100))}%` 
+            `${Math.round((analytics.weeklyCheckIns / rangeDays) * 100 / (analytics.currentActivity?.capacity || 100))}%` 
             : '0%'}
           icon="pulse-outline"
           color="#FF9800"
@@ -0,0 +1,519 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { VenueApplicationService } from '../../services/venueApplicationService';
+import type {
+  VenueClaimCodeDelivery,
+  VenueClaimInfo,
+  VenueClaimMethod,
+} from '../../services/venueApplicationService';
+
+interface VenueClaimModalProps {
+  visible: boolean;
+  onClose: () => void;
+  venueId: string;
+  venueName: string;
+  claimInfo: VenueClaimInfo;
+  onClaimUpdated: () => void;
+}
+
+type ClaimStep = 'details' | 'method' | 'code' | 'done';
+
+const METHOD_LABELS: Record<VenueClaimMethod, { title: string; description: string; icon: string }> = {
+  phone: {
+    title: 'Text the venue phone',
+    description: 'We send a code to the phone number listed for the venue',
+    icon: 'call-outline',
+  },
+  website: {
+    title: 'Email the website contact',
+    description: 'We send a code to the contact address on the venue website',
+    icon: 'globe-outline',
+  },
+};
+
+/**
+ * VenueClaimModal Component
+ *
+ * Lets the owner of a listed venue claim it. The claimant enters their
+ * details, then proves ownership with a code sent to the venue's phone or
+ * website contact. Verified claims go to an admin for approval; venues with
+ * no contact on file are verified by the admin instead.
+ */
+export const VenueClaimModal: React.FC<VenueClaimModalProps> = ({
+  visible,
+  onClose,
+  venueId,
+  venueName,
+  claimInfo,
+  onClaimUpdated,
+}) => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+
+  const [step, setStep] = useState<ClaimStep>('details');
+  const [applicationId, setApplicationId] = useState<string | null>(null);
+  const [ownerName, setOwnerName] = useState('');
+  const [ownerEmail, setOwnerEmail] = useState('');
+  const [description, setDescription] = useState('');
+  const [delivery, setDelivery] = useState<VenueClaimCodeDelivery | null>(null);
+  const [code, setCode] = useState('');
+  const [verified, setVerified] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const hasContactMethods = claimInfo.contact_methods.length > 0;
+
+  // Pick up an open claim where the user left it
+  useEffect(() => {
+    if (!visible) return;
+
+    if (claimInfo.status === 'own_claim' && claimInfo.application_id) {
+      setApplicationId(claimInfo.application_id);
+      setVerified(!!claimInfo.verified);
+      setStep(claimInfo.verified || !hasContactMethods ? 'done' : 'method');
+    } else {
+      setApplicationId(null);
+      setVerified(false);
+      setStep('details');
+      setOwnerEmail(user?.email || '');
+    }
+
+    setDelivery(null);
+    setCode('');
+  }, [visible, claimInfo, hasContactMethods, user?.email]);
+
+  const handleSubmitDetails = async () => {
+    if (!ownerName.trim() || !ownerEmail.trim()) {
+      Alert.alert('Missing Details', 'Enter your name and email.');
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await VenueApplicationService.submitClaim(venueId, {
+      ownerName,
+      ownerEmail,
+      description,
+    });
+    setSubmitting(false);
+
+    if (!result.success || !result.applicationId) {
+      Alert.alert('Could Not Claim Venue', result.error || 'Failed to submit claim');
+      return;
+    }
+
+    setApplicationId(result.applicationId);
+    setStep(hasContactMethods ? 'method' : 'done');
+    onClaimUpdated();
+  };
+
+  const handleSendCode = async (method: VenueClaimMethod) => {
+    if (!applicationId) return;
+
+    setSubmitting(true);
+    const result = await VenueApplicationService.sendClaimCode(applicationId, method);
+    setSubmitting(false);
+
+    if (!result.success || !result.delivery) {
+      Alert.alert('Could Not Send Code', result.error || 'Failed to send code');
+      return;
+    }
+
+    setDelivery(result.delivery);
+    setCode('');
+    setStep('code');
+  };
+
+  const handleVerifyCode = async () => {
+    if (!applicationId) return;
+
+    setSubmitting(true);
+    const result = await VenueApplicationService.verifyClaimCode(applicationId, code);
+    setSubmitting(false);
+
+    if (!result.success || !result.verification) {
+      Alert.alert('Could Not Verify', result.error || 'Failed to verify code');
+      return;
+    }
+
+    if (!result.verification.verified) {
+      const remaining = result.verification.attempts_remaining;
+      Alert.alert(
+        'Incorrect Code',
+        remaining > 0
+          ? `That code didn't match. ${remaining} attempt${remaining !== 1 ? 's' : ''} left.`
+          : 'That code didn\'t match. Request a new code to try again.'
+      );
+      return;
+    }
+
+    setVerified(true);
+    setStep('done');
+    onClaimUpdated();
+  };
+
+  const renderButton = (label: string, icon: string, onPress: () => void, disabled: boolean = false) => (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        { backgroundColor: theme.colors.primary, opacity: submitting || disabled ? 0.6 : 1 },
+      ]}
+      onPress={onPress}
+      disabled={submitting || disabled}
+      activeOpacity={0.8}
+    >
+      {submitting ? (
+        <ActivityIndicator color="#fff" size="small" />
+      ) : (
+        <>
+          <Icon name={icon} size={20} color="#fff" />
+          <Text style={styles.buttonText}>{label}</Text>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.surface,
+      borderColor: theme.colors.border,
+      color: theme.colors.text,
+    },
+  ];
+
+  const renderDetails = () => (
+    <>
+      <Text style={[styles.intro, { color: theme.colors.textSecondary }]}>
+        Claim {venueName} to post flash offers, reply to reviews and see analytics. You'll confirm
+        you own it with a code sent to the venue.
+      </Text>
+
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Your Name</Text>
+        <TextInput
+          style={inputStyle}
+          value={ownerName}
+          onChangeText={setOwnerName}
+          placeholder="Full name"
+          placeholderTextColor={theme.colors.textSecondary}
+          editable={!submitting}
+        />
+      </View>
+
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Business Email</Text>
+        <TextInput
+          style={inputStyle}
+          value={ownerEmail}
+          onChangeText={setOwnerEmail}
+          placeholder="you@yourvenue.com"
+          placeholderTextColor={theme.colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          editable={!submitting}
+        />
+      </View>
+
+      <View style={styles.fieldContainer}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>Your Role (Optional)</Text>
+        <TextInput
+          style={[...inputStyle, styles.multilineInput]}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="e.g. Owner since 2019"
+          placeholderTextColor={theme.colors.textSecondary}
+          multiline
+          maxLength={500}
+          editable={!submitting}
+        />
+      </View>
+
+      {!hasContactMethods && (
+        <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+          This venue has no phone number or website on file, so our team will verify your claim.
+        </Text>
+      )}
+
+      {renderButton('Claim Venue', 'storefront', handleSubmitDetails)}
+    </>
+  );
+
+  const renderMethod = () => (
+    <>
+      <Text style={[styles.intro, { color: theme.colors.textSecondary }]}>
+        Where should we send your verification code? Verify within 24 hours or your
+        claim will be released.
+      </Text>
+
+      {claimInfo.contact_methods.map((method) => (
+        <TouchableOpacity
+          key={method}
+          style={[
+            styles.methodOption,
+            { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+          ]}
+          onPress={() => handleSendCode(method)}
+          disabled={submitting}
+          activeOpacity={0.7}
+        >
+          <Icon name={METHOD_LABELS[method].icon} size={22} color={theme.colors.primary} />
+          <View style={styles.methodInfo}>
+            <Text style={[styles.methodTitle, { color: theme.colors.text }]}>
+              {METHOD_LABELS[method].title}
+            </Text>
+            <Text style={[styles.methodDescription, { color: theme.colors.textSecondary }]}>
+              {METHOD_LABELS[method].description}
+            </Text>
+          </View>
+          <Icon name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+        </TouchableOpacity>
+      ))}
+
+      {submitting && <ActivityIndicator color={theme.colors.primary} style={styles.loading} />}
+    </>
+  );
+
+  const renderCode = () => (
+    <>
+      <Text style={[styles.intro, { color: theme.colors.textSecondary }]}>
+        Enter the 6-digit code we sent to {delivery?.destination}. It expires in 15 minutes.
+      </Text>
+
+      {delivery?.simulated_code && (
+        <View style={[styles.simulatedBox, { backgroundColor: theme.colors.primary + '15' }]}>
+          <Icon name="information-circle" size={18} color={theme.colors.primary} />
+          <Text style={[styles.simulatedText, { color: theme.colors.text }]}>
+            Code delivery is simulated. Your code is {delivery.simulated_code}.
+          </Text>
+        </View>
+      )}
+
+      <TextInput
+        style={[...inputStyle, styles.codeInput]}
+        value={code}
+        onChangeText={(value) => setCode(value.replace(/\D/g, ''))}
+        placeholder="000000"
+        placeholderTextColor={theme.colors.textSecondary}
+        keyboardType="number-pad"
+        maxLength={6}
+        editable={!submitting}
+        onSubmitEditing={handleVerifyCode}
+      />
+
+      {renderButton('Verify', 'checkmark-circle', handleVerifyCode, code.length !== 6)}
+
+      <TouchableOpacity style={styles.linkButton} onPress={() => setStep('method')} disabled={submitting}>
+        <Text style={[styles.linkText, { color: theme.colors.primary }]}>Send a new code</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderDone = () => (
+    <View style={styles.doneContainer}>
+      <Icon
+        name={verified ? 'checkmark-circle' : 'time-outline'}
+        size={64}
+        color={verified ? '#34C759' : theme.colors.primary}
+      />
+      <Text style={[styles.doneTitle, { color: theme.colors.text }]}>
+        {verified ? 'Ownership Verified' : 'Claim Submitted'}
+      </Text>
+      <Text style={[styles.doneText, { color: theme.colors.textSecondary }]}>
+        {verified
+          ? `Our team will review your claim on ${venueName} and notify you when you can manage it.`
+          : `Our team will verify your claim on ${venueName} and notify you of the outcome.`}
+      </Text>
+      {renderButton('Done', 'checkmark', onClose)}
+    </View>
+  );
+
+  const steps: Record<ClaimStep, () => React.ReactNode> = {
+    details: renderDetails,
+    method: renderMethod,
+    code: renderCode,
+    done: renderDone,
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Claim Venue</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {steps[step]()}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  methodOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  methodInfo: {
+    flex: 1,
+  },
+  methodTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  methodDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  simulatedBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  simulatedText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  doneContainer: {
+    alignItems: 'center',
+    paddingTop: 24,
+  },
+  doneTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  doneText: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+});
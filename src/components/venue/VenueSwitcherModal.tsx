@@ -0,0 +1,177 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface VenueSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+  allLocationsSelected: boolean;
+  onSelectAllLocations: () => void;
+  onSelectVenue: (venueId: string) => void;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+/**
+ * VenueSwitcherModal Component
+ *
+ * Lets users with several venues switch the dashboard between them, or pick
+ * "All Locations" for a combined overview.
+ */
+export const VenueSwitcherModal: React.FC<VenueSwitcherModalProps> = ({
+  visible,
+  onClose,
+  allLocationsSelected,
+  onSelectAllLocations,
+  onSelectVenue,
+}) => {
+  const { theme } = useTheme();
+  const { venueBusinessAccount, venueBusinessAccounts } = useAuth();
+
+  const renderOption = (
+    key: string,
+    icon: string,
+    title: string,
+    subtitle: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.option,
+        {
+          backgroundColor: theme.colors.surface,
+          borderColor: selected ? theme.colors.primary : theme.colors.border,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Icon name={icon} size={24} color={theme.colors.primary} />
+      <View style={styles.optionInfo}>
+        <Text style={[styles.optionTitle, { color: theme.colors.text }]}>{title}</Text>
+        <Text style={[styles.optionSubtitle, { color: theme.colors.textSecondary }]}>{subtitle}</Text>
+      </View>
+      {selected && <Icon name="checkmark-circle" size={22} color={theme.colors.primary} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Switch Venue</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {renderOption(
+            'all',
+            'business-outline',
+            'All Locations',
+            `Combined overview of ${venueBusinessAccounts.length} venues`,
+            allLocationsSelected,
+            onSelectAllLocations
+          )}
+
+          <Text style={[styles.label, { color: theme.colors.textSecondary }]}>Venues</Text>
+          {venueBusinessAccounts.map((account) =>
+            renderOption(
+              account.venue_id,
+              'storefront-outline',
+              account.venues?.name || 'Unnamed venue',
+              [ROLE_LABELS[account.team_role] || 'Owner', account.subscription_tier?.toUpperCase()]
+                .filter(Boolean)
+                .join(' • '),
+              !allLocationsSelected && account.venue_id === venueBusinessAccount?.venue_id,
+              () => onSelectVenue(account.venue_id)
+            )
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,429 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { VenueBusinessService } from '../../services/venueBusinessService';
+import type { VenueRole, VenueTeamMember } from '../../types/venueTeam.types';
+
+interface VenueTeamModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<VenueRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+const ROLE_DESCRIPTIONS: Record<Exclude<VenueRole, 'owner'>, string> = {
+  manager: 'Create offers, reply to reviews, view analytics and manage staff',
+  staff: 'Look up and redeem customer tokens',
+};
+
+const ROLE_COLORS: Record<VenueRole, string> = {
+  owner: '#9C27B0',
+  manager: '#2196F3',
+  staff: '#4CAF50',
+};
+
+/**
+ * VenueTeamModal Component
+ *
+ * Modal for managing who can work on the venue account. Owners and managers
+ * add users by email or username; owners can also switch members between
+ * manager and staff. Any non-owner member can leave the team from here.
+ */
+export const VenueTeamModal: React.FC<VenueTeamModalProps> = ({ visible, onClose }) => {
+  const { theme } = useTheme();
+  const { user, venueBusinessAccount, refreshUserType } = useAuth();
+
+  const [members, setMembers] = useState<VenueTeamMember[]>([]);
+  const [identifier, setIdentifier] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<VenueRole, 'owner'>>('staff');
+  const [loading, setLoading] = useState(false);
+  const [inviting, setInviting] = useState(false);
+
+  const venueId: string | undefined = venueBusinessAccount?.venues?.id;
+  const myRole = VenueBusinessService.getTeamRole(venueBusinessAccount, user?.id);
+  const canManageTeam = VenueBusinessService.hasPermission(myRole, 'manage_team');
+
+  const loadTeam = useCallback(async () => {
+    if (!venueId) return;
+
+    setLoading(true);
+    const team = await VenueBusinessService.getTeamMembers(venueId);
+    setMembers(team);
+    setLoading(false);
+  }, [venueId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadTeam();
+    }
+  }, [visible, loadTeam]);
+
+  const handleInvite = async () => {
+    if (!venueId) {
+      Alert.alert('Error', 'No venue found. Please try again.');
+      return;
+    }
+
+    setInviting(true);
+    const result = await VenueBusinessService.inviteTeamMember(venueId, myRole, identifier, inviteRole);
+    setInviting(false);
+
+    if (!result.success) {
+      Alert.alert('Could Not Add Member', result.error || 'Failed to add team member');
+      return;
+    }
+
+    setIdentifier('');
+    loadTeam();
+  };
+
+  const removeMember = async (member: VenueTeamMember) => {
+    if (!user) return;
+
+    const result = await VenueBusinessService.removeTeamMember(member, myRole, user.id);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to remove team member');
+      return;
+    }
+
+    if (member.user_id === user.id) {
+      // Leaving the team drops access to this venue
+      onClose();
+      await refreshUserType();
+      return;
+    }
+
+    loadTeam();
+  };
+
+  const changeRole = async (member: VenueTeamMember, role: Exclude<VenueRole, 'owner'>) => {
+    const result = await VenueBusinessService.updateTeamMemberRole(member.id, myRole, role);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update role');
+      return;
+    }
+
+    loadTeam();
+  };
+
+  const handleMemberPress = (member: VenueTeamMember) => {
+    if (member.role === 'owner') return;
+
+    const name = getMemberName(member);
+    const isSelf = member.user_id === user?.id;
+    const canRemove =
+      isSelf || myRole === 'owner' || (member.role === 'staff' && canManageTeam);
+
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+
+    if (myRole === 'owner') {
+      const nextRole = member.role === 'manager' ? 'staff' : 'manager';
+      buttons.push({
+        text: `Make ${ROLE_LABELS[nextRole]}`,
+        onPress: () => changeRole(member, nextRole),
+      });
+    }
+
+    if (canRemove) {
+      buttons.push({
+        text: isSelf ? 'Leave Team' : 'Remove from Team',
+        style: 'destructive',
+        onPress: () => removeMember(member),
+      });
+    }
+
+    if (buttons.length === 0) return;
+
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(name, ROLE_LABELS[member.role], buttons);
+  };
+
+  const getMemberName = (member: VenueTeamMember): string =>
+    member.display_name || (member.username ? `@${member.username}` : member.email || 'Team member');
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="close" size={28} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Team</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Add Member */}
+          {canManageTeam && (
+            <View style={styles.fieldContainer}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>Add Team Member</Text>
+              <Text style={[styles.helperText, { color: theme.colors.textSecondary }]}>
+                Enter the email or username of someone with an account.
+              </Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.colors.surface,
+                    borderColor: theme.colors.border,
+                    color: theme.colors.text,
+                  },
+                ]}
+                value={identifier}
+                onChangeText={setIdentifier}
+                placeholder="email@example.com or @username"
+                placeholderTextColor={theme.colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!inviting}
+                onSubmitEditing={handleInvite}
+              />
+
+              {(['staff', 'manager'] as const).map((role) => {
+                const selected = inviteRole === role;
+                const disabled = role === 'manager' && myRole !== 'owner';
+                return (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.roleOption,
+                      {
+                        backgroundColor: theme.colors.surface,
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                        opacity: disabled ? 0.5 : 1,
+                      },
+                    ]}
+                    onPress={() => setInviteRole(role)}
+                    disabled={disabled}
+                  >
+                    <Icon
+                      name={selected ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                    />
+                    <View style={styles.roleInfo}>
+                      <Text style={[styles.roleTitle, { color: theme.colors.text }]}>
+                        {ROLE_LABELS[role]}
+                      </Text>
+                      <Text style={[styles.roleDescription, { color: theme.colors.textSecondary }]}>
+                        {disabled ? 'Only the owner can add managers' : ROLE_DESCRIPTIONS[role]}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  {
+                    backgroundColor: theme.colors.primary,
+                    opacity: inviting || !identifier.trim() ? 0.6 : 1,
+                  },
+                ]}
+                onPress={handleInvite}
+                disabled={inviting || !identifier.trim()}
+                activeOpacity={0.8}
+              >
+                {inviting ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <>
+                    <Icon name="person-add" size={20} color="#fff" />
+                    <Text style={styles.buttonText}>Add to Team</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Members */}
+          <Text style={[styles.label, { color: theme.colors.text }]}>Members</Text>
+          {loading ? (
+            <ActivityIndicator color={theme.colors.primary} style={styles.loading} />
+          ) : (
+            members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              return (
+                <TouchableOpacity
+                  key={member.id}
+                  style={[
+                    styles.memberRow,
+                    { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                  ]}
+                  onPress={() => handleMemberPress(member)}
+                  disabled={member.role === 'owner'}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.memberInfo}>
+                    <Text style={[styles.memberName, { color: theme.colors.text }]}>
+                      {getMemberName(member)}
+                      {isSelf ? ' (you)' : ''}
+                    </Text>
+                    {member.email && member.email !== getMemberName(member) && (
+                      <Text style={[styles.memberEmail, { color: theme.colors.textSecondary }]}>
+                        {member.email}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={[styles.roleBadge, { backgroundColor: ROLE_COLORS[member.role] + '20' }]}>
+                    <Text style={[styles.roleBadgeText, { color: ROLE_COLORS[member.role] }]}>
+                      {ROLE_LABELS[member.role]}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 36,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  fieldContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  roleOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  roleInfo: {
+    flex: 1,
+  },
+  roleTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  roleDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+    minHeight: 50,
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  memberInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  memberEmail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  roleBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
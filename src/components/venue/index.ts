@@ -4,16 +4,33 @@
  * This module exports all venue-related components.
  */
 
+export { CheckInVerificationSettingsModal } from './CheckInVerificationSettingsModal';
+export { ClaimQrScanner } from './ClaimQrScanner';
+export { CloneOfferModal } from './CloneOfferModal';
 export { FlashOfferCreationModal } from './FlashOfferCreationModal';
+export { FlashOfferEditModal } from './FlashOfferEditModal';
+export { FlashOfferFunnelChart } from './FlashOfferFunnelChart';
+export { FlashOfferFunnelModal } from './FlashOfferFunnelModal';
+export { FlashOfferRecurrenceModal } from './FlashOfferRecurrenceModal';
+export { FlashOfferRulesModal } from './FlashOfferRulesModal';
+export { PushCampaignComposerModal } from './PushCampaignComposerModal';
+export { VenueClaimModal } from './VenueClaimModal';
+export { VenueSwitcherModal } from './VenueSwitcherModal';
+export { VenueTeamModal } from './VenueTeamModal';
 export { default as VenueCardDialog } from './VenueCardDialog';
 export { VenueInfoComponents } from './VenueInfoComponents';
 export { default as VenueSignUpForm } from './VenueSignUpForm';
 export { default as ReviewSubmissionModal } from './ReviewSubmissionModal';
 export { default as ReviewPromptModal } from './ReviewPromptModal';
 export { default as ReviewCard } from './ReviewCard';
+export { default as ReviewPhotoGallery } from './ReviewPhotoGallery';
 export { default as ReviewList } from './ReviewList';
 export { default as AggregateRatingDisplay } from './AggregateRatingDisplay';
 export { default as VenueSearchCard } from './VenueSearchCard';
 export { TodaysPerformance } from './TodaysPerformance';
 export { ThisWeeksAnalysis } from './ThisWeeksAnalysis';
 export { PerformanceSlider } from './PerformanceSlider';
+export { AllLocationsOverview } from './AllLocationsOverview';
+export { AnalyticsExportModal } from './AnalyticsExportModal';
+export { AnalyticsRangeSelector } from './AnalyticsRangeSelector';
+export { PeriodComparisonCard } from './PeriodComparisonCard';
@@ -13,14 +13,16 @@ interface AuthContextType {
   user: User | null;
   userType: UserType | null;
   venueBusinessAccount: any | null;
+  venueBusinessAccounts: any[];
   loading: boolean;
   initializing: boolean;
   authError: string | null;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, name?: string) => Promise<{ user: User | null; session: Session | null; autoSignedIn?: boolean; needsManualLogin?: boolean; }>;
-  signOut: () => Promise<void>;
+  signOut: (options?: { allDevices?: boolean }) => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   refreshUserType: () => Promise<void>;
+  selectVenueAccount: (venueId: string) => Promise<void>;
   clearAuthError: () => void;
 }
 
@@ -43,6 +45,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [userType, setUserType] = useState<UserType | null>(null);
   const [venueBusinessAccount, setVenueBusinessAccount] = useState<any | null>(null);
+  // Every venue the user owns or works at; venueBusinessAccount is the selected one
+  const [venueBusinessAccounts, setVenueBusinessAccounts] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [initializing, setInitializing] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null);
@@ -50,15 +54,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Cache keys for AsyncStorage
   const USER_TYPE_CACHE_KEY = '@user_type_cache';
   const VENUE_ACCOUNT_CACHE_KEY = '@venue_account_cache';
+  const VENUE_ACCOUNTS_CACHE_KEY = '@venue_accounts_cache';
+  const SELECTED_VENUE_CACHE_KEY = '@selected_venue_id';
 
   // Function to cache user type
-  const cacheUserType = async (type: UserType, account: any | null) => {
+  const cacheUserType = async (type: UserType, account: any | null, accounts: any[] = account ? [account] : []) => {
     try {
       await AsyncStorage.setItem(USER_TYPE_CACHE_KEY, type);
       if (account) {
         await AsyncStorage.setItem(VENUE_ACCOUNT_CACHE_KEY, JSON.stringify(account));
+        await AsyncStorage.setItem(VENUE_ACCOUNTS_CACHE_KEY, JSON.stringify(accounts));
       } else {
-        await AsyncStorage.removeItem(VENUE_ACCOUNT_CACHE_KEY);
+        await AsyncStorage.multiRemove([VENUE_ACCOUNT_CACHE_KEY, VENUE_ACCOUNTS_CACHE_KEY]);
       }
       console.log('💾 User type cached:', type);
     } catch (error) {
@@ -67,29 +74,51 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   // Function to load cached user type
-  const loadCachedUserType = async (): Promise<{ type: UserType | null; account: any | null }> => {
+  const loadCachedUserType = async (): Promise<{ type: UserType | null; account: any | null; accounts: any[] }> => {
     try {
       const cachedType = await AsyncStorage.getItem(USER_TYPE_CACHE_KEY);
       const cachedAccount = await AsyncStorage.getItem(VENUE_ACCOUNT_CACHE_KEY);
+      const cachedAccounts = await AsyncStorage.getItem(VENUE_ACCOUNTS_CACHE_KEY);
       
       if (cachedType) {
         console.log('📦 Loaded cached user type:', cachedType);
+        const account = cachedAccount ? JSON.parse(cachedAccount) : null;
         return {
           type: cachedType as UserType,
-          account: cachedAccount ? JSON.parse(cachedAccount) : null,
+          account,
+          accounts: cachedAccounts ? JSON.parse(cachedAccounts) : account ? [account] : [],
         };
       }
     } catch (error) {
       console.error('❌ Error loading cached user type:', error);
     }
-    return { type: null, account: null };
+    return { type: null, account: null, accounts: [] };
+  };
+
+  // Pick the venue the user last switched to, or their first venue
+  const pickVenueAccount = async (accounts: any[]): Promise<any | null> => {
+    if (accounts.length === 0) {
+      return null;
+    }
+    try {
+      const selectedVenueId = await AsyncStorage.getItem(SELECTED_VENUE_CACHE_KEY);
+      return accounts.find((account) => account.venue_id === selectedVenueId) || accounts[0];
+    } catch (error) {
+      console.error('❌ Error loading selected venue:', error);
+      return accounts[0];
+    }
+  };
+
+  const clearVenueAccounts = () => {
+    setVenueBusinessAccount(null);
+    setVenueBusinessAccounts([]);
   };
 
   // Function to clear cached user type
   const clearCachedUserType = async () => {
     try {
       await AsyncStorage.removeItem(USER_TYPE_CACHE_KEY);
-      await AsyncStorage.removeItem(VENUE_ACCOUNT_CACHE_KEY);
+      await AsyncStorage.multiRemove([VENUE_ACCOUNT_CACHE_KEY, VENUE_ACCOUNTS_CACHE_KEY, SELECTED_VENUE_CACHE_KEY]);
       console.log('🗑️ User type cache cleared');
     } catch (error) {
       console.error('❌ Error clearing user type cache:', error);
@@ -108,25 +137,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           console.log('⚡ Using cached user type:', cached.type);
           setUserType(cached.type);
           setVenueBusinessAccount(cached.account);
+          setVenueBusinessAccounts(cached.accounts);
           // Still verify in background, but don't block
           verifyUserTypeInBackground(userId);
           return;
         }
       }
       
-      // Check if user has a venue business account
-      const businessAccount = await VenueBusinessService.getBusinessAccount(userId);
+      // Check if user owns or works at any venues
+      const businessAccounts = await VenueBusinessService.getUserBusinessAccounts(userId);
+      const businessAccount = await pickVenueAccount(businessAccounts);
       
       if (businessAccount) {
         console.log('🏢 User is a venue owner:', businessAccount);
         setUserType('venue_owner');
         setVenueBusinessAccount(businessAccount);
-        await cacheUserType('venue_owner', businessAccount);
+        setVenueBusinessAccounts(businessAccounts);
+        await cacheUserType('venue_owner', businessAccount, businessAccounts);
         console.log('✅ UserType state updated to venue_owner');
       } else {
         console.log('👤 User is a regular customer');
         setUserType('customer');
-        setVenueBusinessAccount(null);
+        clearVenueAccounts();
         await cacheUserType('customer', null);
         console.log('✅ UserType state updated to customer');
       }
@@ -143,12 +175,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const verifyUserTypeInBackground = async (userId: string) => {
     try {
       console.log('🔄 Verifying cached user type in background...');
-      const businessAccount = await VenueBusinessService.getBusinessAccount(userId);
+      const businessAccounts = await VenueBusinessService.getUserBusinessAccounts(userId);
+      const businessAccount = await pickVenueAccount(businessAccounts);
       
       const actualType: UserType = businessAccount ? 'venue_owner' : 'customer';
       
       // Update cache if it changed
-      await cacheUserType(actualType, businessAccount);
+      await cacheUserType(actualType, businessAccount, businessAccounts);
+      setVenueBusinessAccounts(businessAccounts);
       
       // Update state if it changed
       if (actualType !== userType) {
@@ -168,6 +202,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Switch the dashboard to another of the user's venues
+  const selectVenueAccount = async (venueId: string) => {
+    const account = venueBusinessAccounts.find((a) => a.venue_id === venueId);
+    if (!account) {
+      console.warn('⚠️ Venue not found in business accounts:', venueId);
+      return;
+    }
+
+    setVenueBusinessAccount(account);
+    try {
+      await AsyncStorage.setItem(SELECTED_VENUE_CACHE_KEY, venueId);
+      await cacheUserType('venue_owner', account, venueBusinessAccounts);
+    } catch (error) {
+      console.error('❌ Error saving selected venue:', error);
+    }
+  };
+
   const clearAuthError = () => {
     setAuthError(null);
   };
@@ -199,7 +250,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           // We'll determine user type after initialization completes
           if (!authSession?.user?.id) {
             setUserType(null);
-            setVenueBusinessAccount(null);
+            clearVenueAccounts();
             // Remove token refresh listener on sign out
             FCMTokenService.removeTokenRefreshListener();
           } else {
@@ -297,7 +348,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             setSession(null);
             setUser(null);
             setUserType(null);
-            setVenueBusinessAccount(null);
+            clearVenueAccounts();
           } else if (hasValidSession && mounted) {
             // Determine user type AFTER auth listener completes
             const { data: { session: currentSession } } = await supabase.auth.getSession();
@@ -320,11 +371,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                   console.log('✅ Using cached user type:', cached.type);
                   setUserType(cached.type);
                   setVenueBusinessAccount(cached.account);
+                  setVenueBusinessAccounts(cached.accounts);
                 } else {
                   // Default to customer as last resort to unblock UI
                   console.log('⚠️ No cached type, defaulting to customer');
                   setUserType('customer');
-                  setVenueBusinessAccount(null);
+                  clearVenueAccounts();
                 }
                 // Clear error after setting fallback type
                 setAuthError(null);
@@ -357,7 +409,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setSession(null);
           setUser(null);
           setUserType(null);
-          setVenueBusinessAccount(null);
+          clearVenueAccounts();
         }
       } finally {
         if (mounted) {
@@ -413,7 +465,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setAuthError('Unable to load account information. Please check your connection and try again.');
           // Still set a default to allow app usage
           setUserType('customer');
-          setVenueBusinessAccount(null);
+          clearVenueAccounts();
         }
       }
     } catch (error) {
@@ -476,7 +528,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const signOut = async () => {
+  const signOut = async (options: { allDevices?: boolean } = {}) => {
     console.log('🚪 Sign out initiated...');
     setLoading(true);
     setAuthError(null);
@@ -506,7 +558,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Don't block sign out if token deletion fails
       }
       
-      const { error } = await supabase.auth.signOut();
+      // 'global' also revokes the sessions on the user's other devices
+      const { error } = await supabase.auth.signOut(
+        options.allDevices ? { scope: 'global' } : undefined
+      );
       if (error) {
         console.error('❌ Sign out error:', error);
         throw new Error(`Sign out failed: ${error.message}`);
@@ -516,7 +571,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       // Clear user type data and cache on sign out
       setUserType(null);
-      setVenueBusinessAccount(null);
+      clearVenueAccounts();
       await clearCachedUserType();
       
       // Verify session is cleared from AsyncStorage
@@ -562,6 +617,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user,
     userType,
     venueBusinessAccount,
+    venueBusinessAccounts,
     loading,
     initializing,
     authError,
@@ -570,6 +626,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     signOut,
     resetPassword,
     refreshUserType,
+    selectVenueAccount,
     clearAuthError,
   };
 
@@ -349,6 +349,19 @@ export type { UsePhotoSelectionOptions, UsePhotoSelectionReturn } from './usePho
 export { useProfilePhotoUpload } from './useProfilePhotoUpload';
 export type { UseProfilePhotoUploadOptions, UseProfilePhotoUploadReturn } from './useProfilePhotoUpload';
 
+/**
+ * useReviewReporting - Reports reviews and individual review photos for moderation
+ * 
+ * @example
+ * ```tsx
+ * const { reportReview, reportPhoto } = useReviewReporting();
+ * reportReview(review.id);
+ * reportPhoto(photo);
+ * ```
+ */
+export { useReviewReporting } from './useReviewReporting';
+export type { UseReviewReportingReturn } from './useReviewReporting';
+
 /**
  * useAboutMe - Manages About Me section state and operations
  * 
@@ -464,3 +477,29 @@ export { useSubscriptionManager } from './useSubscriptionManager';
  */
 export { useFeedbackManager } from './useFeedbackManager';
 export type { UseFeedbackManagerReturn } from './useFeedbackManager';
+
+/**
+ * usePendingAccountDeletion - Offers to restore an account scheduled for deletion
+ * 
+ * @example
+ * ```tsx
+ * function AppNavigator() {
+ *   usePendingAccountDeletion();
+ *   ...
+ * }
+ * ```
+ */
+export { usePendingAccountDeletion } from './usePendingAccountDeletion';
+
+/**
+ * useVenueApplicationApproval - Switches approved applicants to the venue dashboard
+ * 
+ * @example
+ * ```tsx
+ * function AppNavigator() {
+ *   useVenueApplicationApproval();
+ *   ...
+ * }
+ * ```
+ */
+export { useVenueApplicationApproval } from './useVenueApplicationApproval';
@@ -123,6 +123,9 @@ describe('Feature: react-query-integration, Property 12: Optimistic UI updates',
             image_url: 'https://test.com/image.jpg',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             is_active: true,
             is_featured: false,
             tags: [],
@@ -251,6 +254,9 @@ describe('Feature: react-query-integration, Property 12: Optimistic UI updates',
             image_url: 'https://test.com/image.jpg',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             is_active: true,
             is_featured: false,
             tags: [],
@@ -365,6 +371,9 @@ describe('Feature: react-query-integration, Property 12: Optimistic UI updates',
             image_url: 'https://test.com/image.jpg',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             is_active: true,
             is_featured: false,
             tags: [],
@@ -481,6 +490,9 @@ describe('Feature: react-query-integration, Property 12: Optimistic UI updates',
             image_url: 'https://test.com/image.jpg',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             is_active: true,
             is_featured: false,
             tags: [],
@@ -624,6 +636,9 @@ describe('Feature: react-query-integration, Property 13: Optimistic update rollb
             price_range: '$$',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             aggregate_rating: 4.5,
@@ -738,6 +753,9 @@ describe('Feature: react-query-integration, Property 13: Optimistic update rollb
             price_range: '$$',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             aggregate_rating: 4.5,
@@ -824,6 +842,9 @@ describe('Feature: react-query-integration, Property 13: Optimistic update rollb
             price_range: '$$',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             aggregate_rating: rating,
@@ -912,6 +933,9 @@ describe('Feature: react-query-integration, Property 13: Optimistic update rollb
             price_range: '$$',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             aggregate_rating: 4.5,
@@ -1008,6 +1032,9 @@ describe('Feature: react-query-integration, Property 13: Optimistic update rollb
             price_range: '$$',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
             aggregate_rating: 4.5,
@@ -1144,6 +1171,9 @@ describe('Feature: react-query-integration, Property 6: Check-in mutation invali
             image_url: 'https://test.com/image.jpg',
             latitude: 40.7128,
             longitude: -74.0060,
+            check_in_radius_meters: 150,
+            allow_unverified_claims: false,
+            timezone: null,
             is_active: true,
             is_featured: false,
             tags: [],
@@ -1382,6 +1412,9 @@ describe('Feature: react-query-integration, Property 6: Check-in mutation invali
               image_url: 'https://test.com/image.jpg',
               latitude: 40.7128,
               longitude: -74.0060,
+              check_in_radius_meters: 150,
+              allow_unverified_claims: false,
+              timezone: null,
               is_active: true,
               is_featured: false,
               tags: [],
@@ -1506,6 +1539,9 @@ describe('Feature: react-query-integration, Property 6: Check-in mutation invali
               image_url: 'https://test.com/image.jpg',
               latitude: 40.7128,
               longitude: -74.0060,
+              check_in_radius_meters: 150,
+              allow_unverified_claims: false,
+              timezone: null,
               is_active: true,
               is_featured: false,
               tags: [],
@@ -42,3 +42,46 @@ export type {
   UnfollowCollectionData,
   UseUnfollowCollectionMutationOptions,
 } from './useCollectionMutations';
+
+export {
+  useCreateGroupOutingMutation,
+  useRespondToOutingMutation,
+  useCancelGroupOutingMutation,
+} from './useGroupOutingMutations';
+export type {
+  UseCreateGroupOutingMutationOptions,
+  RespondToOutingData,
+  UseRespondToOutingMutationOptions,
+  CancelGroupOutingData,
+  UseCancelGroupOutingMutationOptions,
+} from './useGroupOutingMutations';
+
+export {
+  useFollowUserMutation,
+  useUnfollowUserMutation,
+  useApproveFollowRequestMutation,
+  useDenyFollowRequestMutation,
+} from './useFollowMutations';
+export type {
+  FollowUserData,
+  UseFollowUserMutationOptions,
+  UseUnfollowUserMutationOptions,
+  FollowRequestActionData,
+  UseApproveFollowRequestMutationOptions,
+  UseDenyFollowRequestMutationOptions,
+} from './useFollowMutations';
+
+export {
+  useLikeActivityMutation,
+  useUnlikeActivityMutation,
+  useAddActivityCommentMutation,
+  useDeleteActivityCommentMutation,
+} from './useActivityEngagementMutations';
+export type {
+  ActivityLikeData,
+  UseActivityLikeMutationOptions,
+  AddActivityCommentData,
+  UseAddActivityCommentMutationOptions,
+  DeleteActivityCommentData,
+  UseDeleteActivityCommentMutationOptions,
+} from './useActivityEngagementMutations';
@@ -0,0 +1,374 @@
+/**
+ * useActivityEngagementMutations Hooks
+ *
+ * React Query mutation hooks for activity feed engagement:
+ * - Like activity (optimistic)
+ * - Unlike activity (optimistic)
+ * - Add comment or reply (optimistic)
+ * - Delete comment
+ *
+ * Optimistic updates patch the viewer's cached activity feed so like and comment
+ * counts respond immediately, and roll back if the request fails.
+ */
+
+import {
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type UseMutationResult,
+} from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { ActivityFeedService } from '../../services/api/activityFeed';
+import type {
+  ActivityComment,
+  ActivityFeedEntry,
+  ActivityFeedResponse,
+} from '../../types/social.types';
+
+type ActivityFeedData = InfiniteData<ActivityFeedResponse>;
+
+/**
+ * Apply an update to a single activity in the viewer's cached feed
+ */
+function updateCachedActivity(
+  queryClient: QueryClient,
+  userId: string,
+  activityId: string,
+  update: (activity: ActivityFeedEntry) => ActivityFeedEntry
+): void {
+  queryClient.setQueryData<ActivityFeedData>(queryKeys.activityFeed.byUser(userId), (feed) => {
+    if (!feed) {
+      return feed;
+    }
+
+    return {
+      ...feed,
+      pages: feed.pages.map((page) => ({
+        ...page,
+        activities: page.activities.map((activity) =>
+          activity.id === activityId ? update(activity) : activity
+        ),
+      })),
+    };
+  });
+}
+
+// ============================================================================
+// Like / Unlike Activity Mutations
+// ============================================================================
+
+/**
+ * Data required for liking or unliking an activity
+ */
+export interface ActivityLikeData {
+  activityId: string;
+  userId: string;
+}
+
+/**
+ * Options for useLikeActivityMutation and useUnlikeActivityMutation hooks
+ */
+export interface UseActivityLikeMutationOptions {
+  onSuccess?: (variables: ActivityLikeData) => void;
+  onError?: (error: Error, variables: ActivityLikeData) => void;
+}
+
+/**
+ * Context for optimistic update rollback
+ */
+interface ActivityFeedContext {
+  previousFeed?: ActivityFeedData;
+}
+
+/**
+ * Build a like or unlike mutation with an optimistic feed update
+ */
+function useActivityLikeMutation(
+  liked: boolean,
+  options?: UseActivityLikeMutationOptions
+): UseMutationResult<void, Error, ActivityLikeData, ActivityFeedContext> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ activityId, userId }: ActivityLikeData) =>
+      liked
+        ? ActivityFeedService.likeActivity(activityId, userId)
+        : ActivityFeedService.unlikeActivity(activityId, userId),
+    onMutate: async (variables) => {
+      const feedKey = queryKeys.activityFeed.byUser(variables.userId);
+
+      // Cancel outgoing refetches so they don't overwrite the optimistic update
+      await queryClient.cancelQueries({ queryKey: feedKey, exact: true });
+
+      const previousFeed = queryClient.getQueryData<ActivityFeedData>(feedKey);
+
+      updateCachedActivity(queryClient, variables.userId, variables.activityId, (activity) => {
+        if (!!activity.user_has_liked === liked) {
+          return activity;
+        }
+
+        return {
+          ...activity,
+          user_has_liked: liked,
+          like_count: Math.max(0, (activity.like_count || 0) + (liked ? 1 : -1)),
+        };
+      });
+
+      return { previousFeed };
+    },
+    onError: (error, variables, context) => {
+      // Rollback optimistic update
+      if (context?.previousFeed) {
+        queryClient.setQueryData(
+          queryKeys.activityFeed.byUser(variables.userId),
+          context.previousFeed
+        );
+      }
+
+      console.error(`${liked ? 'Like' : 'Unlike'} activity error:`, error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+    onSuccess: (_data, variables) => {
+      // Call custom success callback if provided
+      options?.onSuccess?.(variables);
+    },
+  });
+}
+
+/**
+ * Hook for liking an activity
+ *
+ * Features:
+ * - Optimistic update of like state and count in the viewer's feed
+ * - Automatic rollback on error
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ *
+ * @example
+ * ```tsx
+ * const likeActivity = useLikeActivityMutation();
+ * likeActivity.mutate({ activityId: activity.id, userId: user.id });
+ * ```
+ */
+export function useLikeActivityMutation(
+  options?: UseActivityLikeMutationOptions
+): UseMutationResult<void, Error, ActivityLikeData, ActivityFeedContext> {
+  return useActivityLikeMutation(true, options);
+}
+
+/**
+ * Hook for removing a like from an activity
+ *
+ * Features:
+ * - Optimistic update of like state and count in the viewer's feed
+ * - Automatic rollback on error
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useUnlikeActivityMutation(
+  options?: UseActivityLikeMutationOptions
+): UseMutationResult<void, Error, ActivityLikeData, ActivityFeedContext> {
+  return useActivityLikeMutation(false, options);
+}
+
+// ============================================================================
+// Add Comment Mutation
+// ============================================================================
+
+/**
+ * Data required for commenting on an activity
+ */
+export interface AddActivityCommentData {
+  activityId: string;
+  userId: string;
+  commentText: string;
+  parentCommentId?: string;
+}
+
+/**
+ * Options for useAddActivityCommentMutation hook
+ */
+export interface UseAddActivityCommentMutationOptions {
+  onSuccess?: (data: ActivityComment, variables: AddActivityCommentData) => void;
+  onError?: (error: Error, variables: AddActivityCommentData) => void;
+}
+
+/**
+ * Context for optimistic update rollback
+ */
+interface AddActivityCommentContext extends ActivityFeedContext {
+  previousComments?: ActivityComment[];
+}
+
+/**
+ * Hook for commenting on an activity or replying to a comment
+ *
+ * Features:
+ * - Optimistic insert into the comment thread and comment count bump
+ * - Automatic rollback on error (e.g. comment rejected by moderation)
+ * - Refetches comments after the mutation settles to pick up the stored text
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ *
+ * @example
+ * ```tsx
+ * const addComment = useAddActivityCommentMutation({
+ *   onSuccess: () => setCommentText(''),
+ * });
+ *
+ * addComment.mutate({ activityId, userId: user.id, commentText });
+ * ```
+ */
+export function useAddActivityCommentMutation(
+  options?: UseAddActivityCommentMutationOptions
+): UseMutationResult<
+  ActivityComment,
+  Error,
+  AddActivityCommentData,
+  AddActivityCommentContext
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ activityId, userId, commentText, parentCommentId }: AddActivityCommentData) =>
+      ActivityFeedService.addActivityComment(activityId, userId, commentText, parentCommentId),
+    onMutate: async (variables) => {
+      const commentsKey = queryKeys.activityFeed.comments(variables.activityId);
+      const feedKey = queryKeys.activityFeed.byUser(variables.userId);
+
+      // Cancel outgoing refetches so they don't overwrite the optimistic update
+      await queryClient.cancelQueries({ queryKey: commentsKey, exact: true });
+      await queryClient.cancelQueries({ queryKey: feedKey, exact: true });
+
+      const previousComments = queryClient.getQueryData<ActivityComment[]>(commentsKey);
+      const previousFeed = queryClient.getQueryData<ActivityFeedData>(feedKey);
+
+      const optimisticComment: ActivityComment = {
+        id: `temp-${Date.now()}`,
+        activity_id: variables.activityId,
+        user_id: variables.userId,
+        parent_comment_id: variables.parentCommentId || null,
+        comment_text: variables.commentText.trim(),
+        created_at: new Date().toISOString(),
+        replies: [],
+      };
+
+      if (previousComments) {
+        queryClient.setQueryData<ActivityComment[]>(
+          commentsKey,
+          variables.parentCommentId
+            ? previousComments.map((comment) =>
+                comment.id === variables.parentCommentId
+                  ? { ...comment, replies: [...(comment.replies || []), optimisticComment] }
+                  : comment
+              )
+            : [...previousComments, optimisticComment]
+        );
+      }
+
+      updateCachedActivity(queryClient, variables.userId, variables.activityId, (activity) => ({
+        ...activity,
+        comment_count: (activity.comment_count || 0) + 1,
+      }));
+
+      return { previousComments, previousFeed };
+    },
+    onError: (error, variables, context) => {
+      // Rollback optimistic updates
+      if (context?.previousComments) {
+        queryClient.setQueryData(
+          queryKeys.activityFeed.comments(variables.activityId),
+          context.previousComments
+        );
+      }
+      if (context?.previousFeed) {
+        queryClient.setQueryData(
+          queryKeys.activityFeed.byUser(variables.userId),
+          context.previousFeed
+        );
+      }
+
+      console.error('Add activity comment error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+    onSuccess: (data, variables) => {
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onSettled: (_data, _error, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.activityFeed.comments(variables.activityId),
+        exact: true, // Only invalidate this activity's comments
+      });
+    },
+  });
+}
+
+// ============================================================================
+// Delete Comment Mutation
+// ============================================================================
+
+/**
+ * Data required for deleting a comment
+ */
+export interface DeleteActivityCommentData {
+  commentId: string;
+  activityId: string;
+  userId: string;
+}
+
+/**
+ * Options for useDeleteActivityCommentMutation hook
+ */
+export interface UseDeleteActivityCommentMutationOptions {
+  onSuccess?: (variables: DeleteActivityCommentData) => void;
+  onError?: (error: Error, variables: DeleteActivityCommentData) => void;
+}
+
+/**
+ * Hook for deleting a comment (and its replies)
+ *
+ * Invalidation Strategy:
+ * - Invalidates the activity's comments
+ * - Invalidates the viewer's activity feed to refresh comment counts
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useDeleteActivityCommentMutation(
+  options?: UseDeleteActivityCommentMutationOptions
+): UseMutationResult<void, Error, DeleteActivityCommentData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId }: DeleteActivityCommentData) =>
+      ActivityFeedService.deleteActivityComment(commentId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.activityFeed.comments(variables.activityId),
+        exact: true,
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.activityFeed.byUser(variables.userId),
+        exact: true,
+      });
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(variables);
+    },
+    onError: (error, variables) => {
+      console.error('Delete activity comment error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
@@ -0,0 +1,255 @@
+/**
+ * useFollowMutations Hooks
+ *
+ * React Query mutation hooks for follow operations:
+ * - Follow user (direct follow or follow request)
+ * - Unfollow user
+ * - Approve follow request
+ * - Deny follow request
+ *
+ * Automatically invalidates appropriate queries for each mutation type.
+ */
+
+import { useMutation, useQueryClient, type UseMutationResult } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { FollowService } from '../../services/api/follows';
+import type { Follow, FollowStatus } from '../../types/social.types';
+
+// ============================================================================
+// Follow User Mutation
+// ============================================================================
+
+/**
+ * Data required for following or unfollowing a user
+ */
+export interface FollowUserData {
+  followerId: string;
+  followingId: string;
+}
+
+/**
+ * Options for useFollowUserMutation hook
+ */
+export interface UseFollowUserMutationOptions {
+  onSuccess?: (data: FollowStatus, variables: FollowUserData) => void;
+  onError?: (error: Error, variables: FollowUserData) => void;
+}
+
+/**
+ * Hook for following a user
+ * Public profiles are followed immediately; other profiles receive a follow request
+ *
+ * Invalidation Strategy:
+ * - Invalidates the follower's following list and counts
+ * - Invalidates the followed user's followers list and counts
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ *
+ * @example
+ * ```tsx
+ * const followUser = useFollowUserMutation({
+ *   onSuccess: (status) => setFollowStatus(status),
+ * });
+ *
+ * followUser.mutate({ followerId: user.id, followingId: profileId });
+ * ```
+ */
+export function useFollowUserMutation(
+  options?: UseFollowUserMutationOptions
+): UseMutationResult<FollowStatus, Error, FollowUserData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ followerId, followingId }: FollowUserData) =>
+      FollowService.followUser(followerId, followingId),
+    onSuccess: (data, variables) => {
+      invalidateFollowQueries(queryClient, variables);
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onError: (error, variables) => {
+      console.error('Follow user error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
+
+// ============================================================================
+// Unfollow User Mutation
+// ============================================================================
+
+/**
+ * Options for useUnfollowUserMutation hook
+ */
+export interface UseUnfollowUserMutationOptions {
+  onSuccess?: (data: void, variables: FollowUserData) => void;
+  onError?: (error: Error, variables: FollowUserData) => void;
+}
+
+/**
+ * Hook for unfollowing a user or cancelling a pending follow request
+ *
+ * Invalidation Strategy:
+ * - Invalidates the follower's following list and counts
+ * - Invalidates the unfollowed user's followers list and counts
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useUnfollowUserMutation(
+  options?: UseUnfollowUserMutationOptions
+): UseMutationResult<void, Error, FollowUserData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ followerId, followingId }: FollowUserData) =>
+      FollowService.unfollowUser(followerId, followingId),
+    onSuccess: (data, variables) => {
+      invalidateFollowQueries(queryClient, variables);
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onError: (error, variables) => {
+      console.error('Unfollow user error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
+
+// ============================================================================
+// Approve / Deny Follow Request Mutations
+// ============================================================================
+
+/**
+ * Data required for approving or denying a follow request
+ */
+export interface FollowRequestActionData {
+  requestId: string;
+  userId: string; // ID of the user who received the request
+}
+
+/**
+ * Options for useApproveFollowRequestMutation hook
+ */
+export interface UseApproveFollowRequestMutationOptions {
+  onSuccess?: (data: Follow, variables: FollowRequestActionData) => void;
+  onError?: (error: Error, variables: FollowRequestActionData) => void;
+}
+
+/**
+ * Hook for approving a follow request
+ *
+ * Invalidation Strategy:
+ * - Invalidates the user's follow requests, followers list and counts
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useApproveFollowRequestMutation(
+  options?: UseApproveFollowRequestMutationOptions
+): UseMutationResult<Follow, Error, FollowRequestActionData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId }: FollowRequestActionData) =>
+      FollowService.approveFollowRequest(requestId),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.follows.requests(variables.userId),
+        exact: true,
+      });
+      invalidateFollowQueries(queryClient, {
+        followerId: data.follower_id,
+        followingId: data.following_id,
+      });
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onError: (error, variables) => {
+      console.error('Approve follow request error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
+
+/**
+ * Options for useDenyFollowRequestMutation hook
+ */
+export interface UseDenyFollowRequestMutationOptions {
+  onSuccess?: (data: void, variables: FollowRequestActionData) => void;
+  onError?: (error: Error, variables: FollowRequestActionData) => void;
+}
+
+/**
+ * Hook for denying a follow request
+ *
+ * Invalidation Strategy:
+ * - Invalidates the user's follow requests
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useDenyFollowRequestMutation(
+  options?: UseDenyFollowRequestMutationOptions
+): UseMutationResult<void, Error, FollowRequestActionData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId }: FollowRequestActionData) =>
+      FollowService.denyFollowRequest(requestId),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.follows.requests(variables.userId),
+        exact: true,
+      });
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onError: (error, variables) => {
+      console.error('Deny follow request error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Invalidate follow lists and counts on both sides of a follow relationship
+ */
+function invalidateFollowQueries(
+  queryClient: ReturnType<typeof useQueryClient>,
+  { followerId, followingId }: FollowUserData
+): void {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.follows.following(followerId),
+    exact: true,
+  });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.follows.counts(followerId),
+    exact: true,
+  });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.follows.followers(followingId),
+    exact: true,
+  });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.follows.counts(followingId),
+    exact: true,
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * useGroupOutingMutations Hooks
+ *
+ * React Query mutation hooks for group outing operations:
+ * - Create outing
+ * - Respond to outing invite (optimistic)
+ * - Cancel outing
+ *
+ * Automatically invalidates appropriate queries for each mutation type.
+ */
+
+import { useMutation, useQueryClient, type UseMutationResult } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { GroupOutingService } from '../../services/api/groupOutings';
+import type {
+  GroupOuting,
+  GroupOutingCreate,
+  GroupOutingInvite,
+  OutingResponse,
+} from '../../types/social.types';
+
+// ============================================================================
+// Create Group Outing Mutation
+// ============================================================================
+
+/**
+ * Options for useCreateGroupOutingMutation hook
+ */
+export interface UseCreateGroupOutingMutationOptions {
+  onSuccess?: (data: GroupOuting, variables: GroupOutingCreate) => void;
+  onError?: (error: Error, variables: GroupOutingCreate) => void;
+}
+
+/**
+ * Hook for creating a group outing and inviting friends
+ *
+ * Invalidation Strategy:
+ * - Invalidates the creator's outings list
+ * - Invalidates the creator's activity feed
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ *
+ * @example
+ * ```tsx
+ * const createOuting = useCreateGroupOutingMutation({
+ *   onSuccess: () => onClose(),
+ * });
+ *
+ * createOuting.mutate({
+ *   creator_id: user.id,
+ *   venue_id: venueId,
+ *   title: 'Friday drinks',
+ *   scheduled_date: date.toISOString(),
+ *   invited_friend_ids: selectedFriendIds,
+ * });
+ * ```
+ */
+export function useCreateGroupOutingMutation(
+  options?: UseCreateGroupOutingMutationOptions
+): UseMutationResult<GroupOuting, Error, GroupOutingCreate> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: GroupOutingCreate) => GroupOutingService.createGroupOuting(data),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groupOutings.byUser(variables.creator_id),
+        exact: true, // Only invalidate this user's outings
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.activityFeed.byUser(variables.creator_id),
+        exact: true, // Only invalidate this user's activity feed
+      });
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onError: (error, variables) => {
+      console.error('Create group outing error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
+
+// ============================================================================
+// Respond To Group Outing Mutation
+// ============================================================================
+
+/**
+ * Data required for responding to a group outing invite
+ */
+export interface RespondToOutingData {
+  outingId: string;
+  userId: string;
+  response: OutingResponse;
+}
+
+/**
+ * Options for useRespondToOutingMutation hook
+ */
+export interface UseRespondToOutingMutationOptions {
+  onSuccess?: (data: GroupOutingInvite, variables: RespondToOutingData) => void;
+  onError?: (error: Error, variables: RespondToOutingData) => void;
+}
+
+/**
+ * Context for optimistic update rollback
+ */
+interface RespondToOutingContext {
+  previousOuting?: GroupOuting;
+}
+
+/**
+ * Hook for responding to a group outing invite
+ *
+ * Features:
+ * - Optimistic update of the invite response and response counts
+ * - Automatic rollback on error
+ * - Refetches the outing after the mutation settles
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ *
+ * @example
+ * ```tsx
+ * const respond = useRespondToOutingMutation();
+ * respond.mutate({ outingId, userId: user.id, response: 'going' });
+ * ```
+ */
+export function useRespondToOutingMutation(
+  options?: UseRespondToOutingMutationOptions
+): UseMutationResult<GroupOutingInvite, Error, RespondToOutingData, RespondToOutingContext> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ outingId, userId, response }: RespondToOutingData) =>
+      GroupOutingService.respondToOuting(outingId, userId, response),
+    onMutate: async (variables) => {
+      const detailKey = queryKeys.groupOutings.detail(variables.outingId);
+
+      // Cancel outgoing refetches so they don't overwrite the optimistic update
+      await queryClient.cancelQueries({ queryKey: detailKey });
+
+      const previousOuting = queryClient.getQueryData<GroupOuting>(detailKey);
+
+      if (previousOuting) {
+        const invites = (previousOuting.invites || []).map((invite) =>
+          invite.user_id === variables.userId
+            ? { ...invite, response: variables.response, responded_at: new Date().toISOString() }
+            : invite
+        );
+
+        queryClient.setQueryData<GroupOuting>(detailKey, {
+          ...previousOuting,
+          invites,
+          response_counts: GroupOutingService.calculateResponseCounts(invites),
+        });
+      }
+
+      return { previousOuting };
+    },
+    onError: (error, variables, context) => {
+      // Rollback optimistic update
+      if (context?.previousOuting) {
+        queryClient.setQueryData(
+          queryKeys.groupOutings.detail(variables.outingId),
+          context.previousOuting
+        );
+      }
+
+      console.error('Respond to group outing error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+    onSuccess: (data, variables) => {
+      // Call custom success callback if provided
+      options?.onSuccess?.(data, variables);
+    },
+    onSettled: (_data, _error, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groupOutings.detail(variables.outingId),
+        exact: true, // Only invalidate this outing
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groupOutings.byUser(variables.userId),
+        exact: true, // Only invalidate this user's outings
+      });
+    },
+  });
+}
+
+// ============================================================================
+// Cancel Group Outing Mutation
+// ============================================================================
+
+/**
+ * Data required for cancelling a group outing
+ */
+export interface CancelGroupOutingData {
+  outingId: string;
+  userId: string;
+}
+
+/**
+ * Options for useCancelGroupOutingMutation hook
+ */
+export interface UseCancelGroupOutingMutationOptions {
+  onSuccess?: (variables: CancelGroupOutingData) => void;
+  onError?: (error: Error, variables: CancelGroupOutingData) => void;
+}
+
+/**
+ * Hook for cancelling a group outing (organizer only)
+ *
+ * Invalidation Strategy:
+ * - Removes the cached outing detail
+ * - Invalidates the organizer's outings list
+ *
+ * @param options - Mutation options including success/error callbacks
+ * @returns Mutation result with mutate function and states
+ */
+export function useCancelGroupOutingMutation(
+  options?: UseCancelGroupOutingMutationOptions
+): UseMutationResult<void, Error, CancelGroupOutingData> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ outingId, userId }: CancelGroupOutingData) =>
+      GroupOutingService.cancelGroupOuting(outingId, userId),
+    onSuccess: (_data, variables) => {
+      queryClient.removeQueries({
+        queryKey: queryKeys.groupOutings.detail(variables.outingId),
+        exact: true,
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groupOutings.byUser(variables.userId),
+        exact: true, // Only invalidate this user's outings
+      });
+
+      // Call custom success callback if provided
+      options?.onSuccess?.(variables);
+    },
+    onError: (error, variables) => {
+      console.error('Cancel group outing error:', error);
+
+      // Call custom error callback if provided
+      options?.onError?.(error, variables);
+    },
+  });
+}
@@ -10,9 +10,12 @@ export * from './useVenueQuery';
 export * from './useUserProfileQuery';
 export * from './useFriendsQuery';
 export * from './useActivityFeedQuery';
+export * from './useActivityCommentsQuery';
 export * from './useFlashOffersQuery';
 export * from './useUserClaimsQuery';
 export * from './useCollectionsQuery';
 export * from './useCollectionQuery';
 export * from './useUsersQuery';
 
+export * from './useGroupOutingsQuery';
+export * from './useFollowsQuery';
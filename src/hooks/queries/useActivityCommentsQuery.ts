@@ -0,0 +1,48 @@
+/**
+ * useActivityCommentsQuery Hook
+ *
+ * React Query hook for fetching threaded comments on an activity feed entry.
+ * Provides automatic caching, background refetching, and loading/error states.
+ */
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { ActivityFeedService } from '../../services/api/activityFeed';
+import type { ActivityComment } from '../../types/social.types';
+
+/**
+ * Options for useActivityCommentsQuery hook
+ */
+export interface UseActivityCommentsQueryOptions {
+  activityId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for fetching comments on an activity
+ *
+ * Comments are returned as threads: top-level comments oldest first,
+ * each with its replies nested under `replies`.
+ *
+ * @param options - Query options including activityId and enabled flag
+ * @returns Query result with comment threads and states
+ *
+ * @example
+ * ```tsx
+ * const { data: comments = [], isLoading } = useActivityCommentsQuery({
+ *   activityId: activity.id,
+ * });
+ * ```
+ */
+export function useActivityCommentsQuery(
+  options: UseActivityCommentsQueryOptions
+): UseQueryResult<ActivityComment[], Error> {
+  const { activityId, enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.activityFeed.comments(activityId),
+    queryFn: () => ActivityFeedService.getActivityComments(activityId),
+    enabled: enabled && !!activityId,
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * useFollowersQuery, useFollowingQuery, useFollowRequestsQuery and useFollowCountsQuery Hooks
+ *
+ * React Query hooks for fetching follow relationships, pending follow requests and counts.
+ * Provides automatic caching, background refetching, and loading/error states.
+ */
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { FollowService, type FollowCounts } from '../../services/api/follows';
+import type { FollowRequest, PaginationOptions, SocialProfile } from '../../types/social.types';
+
+// ============================================================================
+// Followers / Following
+// ============================================================================
+
+/**
+ * Options for useFollowersQuery and useFollowingQuery hooks
+ */
+export interface UseFollowListQueryOptions extends PaginationOptions {
+  userId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for fetching a user's followers, most recent first
+ *
+ * @param options - Query options including userId, pagination, and enabled flag
+ * @returns Query result with follower profiles and states
+ *
+ * @example
+ * ```tsx
+ * const { data: followers } = useFollowersQuery({ userId: user.id, limit: 4 });
+ * ```
+ */
+export function useFollowersQuery(
+  options: UseFollowListQueryOptions
+): UseQueryResult<SocialProfile[], Error> {
+  const { userId, enabled = true, limit, offset } = options;
+
+  return useQuery({
+    queryKey: queryKeys.follows.followers(userId),
+    queryFn: () => FollowService.getFollowers(userId, { limit, offset }),
+    enabled: enabled && !!userId,
+    staleTime: 60000, // 1 minute
+  });
+}
+
+/**
+ * Hook for fetching the users a user follows, most recent first
+ *
+ * @param options - Query options including userId, pagination, and enabled flag
+ * @returns Query result with followed user profiles and states
+ *
+ * @example
+ * ```tsx
+ * const { data: following } = useFollowingQuery({ userId: user.id });
+ * ```
+ */
+export function useFollowingQuery(
+  options: UseFollowListQueryOptions
+): UseQueryResult<SocialProfile[], Error> {
+  const { userId, enabled = true, limit, offset } = options;
+
+  return useQuery({
+    queryKey: queryKeys.follows.following(userId),
+    queryFn: () => FollowService.getFollowing(userId, { limit, offset }),
+    enabled: enabled && !!userId,
+    staleTime: 60000, // 1 minute
+  });
+}
+
+// ============================================================================
+// Follow Requests
+// ============================================================================
+
+/**
+ * Options for useFollowRequestsQuery hook
+ */
+export interface UseFollowRequestsQueryOptions {
+  userId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for fetching pending follow requests received by a user
+ *
+ * @param options - Query options including userId and enabled flag
+ * @returns Query result with pending follow requests and states
+ *
+ * @example
+ * ```tsx
+ * const { data: requests, refetch } = useFollowRequestsQuery({ userId: user.id });
+ * ```
+ */
+export function useFollowRequestsQuery(
+  options: UseFollowRequestsQueryOptions
+): UseQueryResult<FollowRequest[], Error> {
+  const { userId, enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.follows.requests(userId),
+    queryFn: () => FollowService.getFollowRequests(userId),
+    enabled: enabled && !!userId,
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+// ============================================================================
+// Follow Counts
+// ============================================================================
+
+/**
+ * Options for useFollowCountsQuery hook
+ */
+export interface UseFollowCountsQueryOptions {
+  userId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for fetching follower and following counts for a user
+ *
+ * @param options - Query options including userId and enabled flag
+ * @returns Query result with follower/following counts and states
+ *
+ * @example
+ * ```tsx
+ * const { data: counts } = useFollowCountsQuery({ userId: user.id });
+ * ```
+ */
+export function useFollowCountsQuery(
+  options: UseFollowCountsQueryOptions
+): UseQueryResult<FollowCounts, Error> {
+  const { userId, enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.follows.counts(userId),
+    queryFn: () => FollowService.getFollowCounts(userId),
+    enabled: enabled && !!userId,
+    staleTime: 60000, // 1 minute
+  });
+}
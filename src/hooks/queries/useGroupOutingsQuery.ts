@@ -0,0 +1,115 @@
+/**
+ * useGroupOutingsQuery and useGroupOutingQuery Hooks
+ *
+ * React Query hooks for fetching a user's group outings and a single outing.
+ * Provides automatic caching, background refetching, and loading/error states.
+ */
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { GroupOutingService } from '../../services/api/groupOutings';
+import type { GroupOuting, GroupOutingQueryOptions } from '../../types/social.types';
+
+// ============================================================================
+// User Group Outings
+// ============================================================================
+
+/**
+ * Options for useGroupOutingsQuery hook
+ */
+export interface UseGroupOutingsQueryOptions extends GroupOutingQueryOptions {
+  userId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Fetch group outings a user created or was invited to
+ *
+ * @param userId - ID of the user whose outings to fetch
+ * @param options - Pagination and past-outing options
+ * @returns Array of group outings
+ */
+async function fetchGroupOutings(
+  userId: string,
+  options?: GroupOutingQueryOptions
+): Promise<GroupOuting[]> {
+  return await GroupOutingService.getUserGroupOutings(userId, options);
+}
+
+/**
+ * Hook for fetching a user's group outings
+ *
+ * Features:
+ * - Automatic caching with 30s stale time
+ * - Background refetching on window focus
+ * - Loading and error state management
+ * - Type-safe query key generation
+ *
+ * @param options - Query options including userId, pagination, and enabled flag
+ * @returns Query result with group outings array and states
+ *
+ * @example
+ * ```tsx
+ * const { data: outings, isLoading, refetch } = useGroupOutingsQuery({
+ *   userId: user.id,
+ * });
+ * ```
+ */
+export function useGroupOutingsQuery(
+  options: UseGroupOutingsQueryOptions
+): UseQueryResult<GroupOuting[], Error> {
+  const { userId, enabled = true, limit, offset, includePast } = options;
+
+  return useQuery({
+    queryKey: queryKeys.groupOutings.byUser(userId),
+    queryFn: () => fetchGroupOutings(userId, { limit, offset, includePast }),
+    enabled: enabled && !!userId,
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+// ============================================================================
+// Single Group Outing
+// ============================================================================
+
+/**
+ * Options for useGroupOutingQuery hook
+ */
+export interface UseGroupOutingQueryOptions {
+  outingId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Fetch a single group outing with invites and response counts
+ *
+ * @param outingId - ID of the group outing
+ * @returns Group outing
+ */
+async function fetchGroupOuting(outingId: string): Promise<GroupOuting> {
+  return await GroupOutingService.getGroupOuting(outingId);
+}
+
+/**
+ * Hook for fetching a single group outing
+ *
+ * @param options - Query options including outingId and enabled flag
+ * @returns Query result with group outing data and states
+ *
+ * @example
+ * ```tsx
+ * const { data: outing, isLoading } = useGroupOutingQuery({ outingId });
+ * ```
+ */
+export function useGroupOutingQuery(
+  options: UseGroupOutingQueryOptions
+): UseQueryResult<GroupOuting, Error> {
+  const { outingId, enabled = true } = options;
+
+  return useQuery({
+    queryKey: queryKeys.groupOutings.detail(outingId),
+    queryFn: () => fetchGroupOuting(outingId),
+    enabled: enabled && !!outingId,
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { AccountDeletionService } from '../services/api/accountDeletion';
+
+/**
+ * Custom hook that offers to restore an account scheduled for deletion
+ *
+ * Checks once per signed-in user. If the account is in its deletion grace
+ * period, asks whether to restore it; declining signs the user out again.
+ *
+ * @example
+ * ```tsx
+ * function AppNavigator() {
+ *   usePendingAccountDeletion();
+ *   ...
+ * }
+ * ```
+ */
+export function usePendingAccountDeletion(): void {
+  const { user, signOut } = useAuth();
+  const checkedUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || checkedUserId.current === user.id) return;
+    checkedUserId.current = user.id;
+
+    AccountDeletionService.getPendingDeletion(user.id)
+      .then((request) => {
+        if (!request) return;
+
+        const deletionDate = new Date(request.scheduled_for).toLocaleDateString(undefined, {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+        });
+
+        Alert.alert(
+          'Restore Your Account?',
+          `Your account is scheduled to be deleted on ${deletionDate}. Restore it to keep using the app.`,
+          [
+            {
+              text: 'Keep Deleting',
+              style: 'destructive',
+              onPress: () => {
+                signOut().catch((error) => console.error('Error signing out:', error));
+              },
+            },
+            {
+              text: 'Restore',
+              onPress: async () => {
+                try {
+                  await AccountDeletionService.cancelDeletion();
+                  Alert.alert('Account Restored', 'Welcome back! Your account will not be deleted.');
+                } catch (error) {
+                  Alert.alert(
+                    'Error',
+                    error instanceof Error ? error.message : 'Failed to restore account'
+                  );
+                }
+              },
+            },
+          ],
+          { cancelable: false }
+        );
+      })
+      .catch(() => {
+        // Logged by the service; try again next sign-in
+        checkedUserId.current = null;
+      });
+  }, [user, signOut]);
+}
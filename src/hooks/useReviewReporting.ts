@@ -0,0 +1,90 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { ReviewService } from '../services/api/reviews';
+import type { ReportReviewParams, ReviewPhoto } from '../types';
+
+export interface UseReviewReportingReturn {
+  reportReview: (reviewId: string) => void;
+  reportPhoto: (photo: ReviewPhoto) => void;
+}
+
+const REPORT_REASONS: { label: string; value: ReportReviewParams['reason'] }[] = [
+  { label: 'Spam', value: 'spam' },
+  { label: 'Offensive', value: 'offensive' },
+  { label: 'Fake', value: 'fake' },
+  { label: 'Other', value: 'other' },
+];
+
+/**
+ * Custom hook for reporting reviews and review photos
+ *
+ * Asks the user for a reason, then files the report for moderation.
+ *
+ * @returns Functions that start the report flow for a review or a single photo
+ *
+ * @example
+ * ```tsx
+ * const { reportReview, reportPhoto } = useReviewReporting();
+ *
+ * <ReviewCard
+ *   review={review}
+ *   onReport={() => reportReview(review.id)}
+ *   onReportPhoto={reportPhoto}
+ * />
+ * ```
+ */
+export function useReviewReporting(): UseReviewReportingReturn {
+  const { user } = useAuth();
+
+  const startReport = useCallback(
+    (reviewId: string, photoId?: string) => {
+      if (!user) {
+        Alert.alert('Sign In Required', 'Please sign in to report content.');
+        return;
+      }
+
+      const subject = photoId ? 'photo' : 'review';
+
+      Alert.alert(
+        `Report ${photoId ? 'Photo' : 'Review'}`,
+        `Why are you reporting this ${subject}?`,
+        [
+          ...REPORT_REASONS.map((reason) => ({
+            text: reason.label,
+            onPress: async () => {
+              try {
+                await ReviewService.reportReview({
+                  reviewId,
+                  userId: user.id,
+                  reason: reason.value,
+                  photoId,
+                });
+                Alert.alert('Thanks for Reporting', `We'll review this ${subject} shortly.`);
+              } catch (error) {
+                Alert.alert(
+                  'Error',
+                  error instanceof Error ? error.message : `Failed to report ${subject}`
+                );
+              }
+            },
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]
+      );
+    },
+    [user]
+  );
+
+  const reportReview = useCallback(
+    (reviewId: string) => startReport(reviewId),
+    [startReport]
+  );
+
+  const reportPhoto = useCallback(
+    (photo: ReviewPhoto) => startReport(photo.review_id, photo.id),
+    [startReport]
+  );
+
+  return { reportReview, reportPhoto };
+}
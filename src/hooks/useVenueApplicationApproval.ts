@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { getMessaging, onMessage, onNotificationOpenedApp } from '@react-native-firebase/messaging';
+import type { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { useAuth } from '../contexts/AuthContext';
+import { NotificationHandler } from '../services/NotificationHandler';
+
+/**
+ * Custom hook that switches an applicant to the venue dashboard as soon as
+ * their venue application is approved
+ *
+ * Approval creates the owner's business account, so refreshing the user type
+ * is all it takes. Listens while the app is open and when the approval push
+ * brings it back from the background; on a cold start the user type is
+ * already loaded fresh.
+ *
+ * @example
+ * ```tsx
+ * function AppNavigator() {
+ *   useVenueApplicationApproval();
+ *   ...
+ * }
+ * ```
+ */
+export function useVenueApplicationApproval(): void {
+  const { user, refreshUserType } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const handleMessage = (remoteMessage: FirebaseMessagingTypes.RemoteMessage) => {
+      if (!NotificationHandler.isVenueApplicationApproval(remoteMessage)) return;
+
+      console.log('🏢 Venue application approved, refreshing user type');
+      refreshUserType().catch((error) => console.error('Error refreshing user type:', error));
+    };
+
+    const foregroundUnsubscribe = onMessage(getMessaging(), handleMessage);
+    const openedUnsubscribe = onNotificationOpenedApp(getMessaging(), handleMessage);
+
+    return () => {
+      foregroundUnsubscribe();
+      openedUnsubscribe();
+    };
+  }, [user, refreshUserType]);
+}
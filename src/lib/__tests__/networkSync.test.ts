@@ -15,7 +15,14 @@ jest.mock('@react-native-community/netinfo', () => ({
   fetch: jest.fn(),
 }));
 
+jest.mock('../../services/api/flashOfferClaims', () => ({
+  ClaimService: {
+    syncPendingRedemptions: jest.fn(),
+  },
+}));
+
 import NetInfo from '@react-native-community/netinfo';
+import { ClaimService } from '../../services/api/flashOfferClaims';
 import { setupNetworkSync, getNetworkState, isConnected } from '../networkSync';
 
 describe('Network Connectivity Monitoring', () => {
@@ -35,6 +42,12 @@ describe('Network Connectivity Monitoring', () => {
       isInternetReachable: true,
     });
 
+    (ClaimService.syncPendingRedemptions as jest.Mock).mockResolvedValue({
+      synced: 0,
+      conflicts: [],
+      remaining: 0,
+    });
+
     // Spy on queryClient methods
     jest.spyOn(queryClient, 'resumePausedMutations');
     jest.spyOn(queryClient, 'invalidateQueries');
@@ -90,6 +103,16 @@ describe('Network Connectivity Monitoring', () => {
       expect(queryClient.invalidateQueries).toHaveBeenCalledTimes(1);
     });
 
+    it('should sync offline redemptions when device comes online', () => {
+      setupNetworkSync(queryClient);
+
+      const callback = (NetInfo.addEventListener as jest.Mock).mock.calls[0][0];
+
+      callback({ isConnected: true });
+
+      expect(ClaimService.syncPendingRedemptions).toHaveBeenCalledTimes(1);
+    });
+
     it('should not resume mutations when device is offline', () => {
       setupNetworkSync(queryClient);
 
@@ -101,6 +124,7 @@ describe('Network Connectivity Monitoring', () => {
 
       expect(queryClient.resumePausedMutations).not.toHaveBeenCalled();
       expect(queryClient.invalidateQueries).not.toHaveBeenCalled();
+      expect(ClaimService.syncPendingRedemptions).not.toHaveBeenCalled();
     });
   });
 
@@ -5,6 +5,7 @@
  * - Detect network connectivity changes
  * - Resume paused mutations when online
  * - Invalidate all queries when connectivity is restored
+ * - Sync claim redemptions venue staff queued while offline
  * - Provide network status to the application
  * 
  * This ensures that queries and mutations behave correctly when
@@ -13,6 +14,7 @@
 
 import NetInfo from '@react-native-community/netinfo';
 import { QueryClient } from '@tanstack/react-query';
+import { ClaimService } from '../services/api/flashOfferClaims';
 
 /**
  * Sets up network connectivity monitoring for React Query
@@ -20,6 +22,7 @@ import { QueryClient } from '@tanstack/react-query';
  * When the device comes back online:
  * 1. Resumes any paused mutations
  * 2. Invalidates all queries to trigger refetch
+ * 3. Syncs offline claim redemptions (conflicts are stored for the redemption screen)
  * 
  * @param queryClient - The QueryClient instance to monitor
  * @returns Cleanup function to unsubscribe from network events
@@ -42,6 +45,11 @@ export function setupNetworkSync(queryClient: QueryClient): () => void {
       
       // Invalidate all queries to trigger refetch with fresh data
       queryClient.invalidateQueries();
+
+      // Send redemptions venue staff made while offline
+      ClaimService.syncPendingRedemptions().catch((error) => {
+        console.error('Error syncing offline redemptions:', error);
+      });
     }
   });
   
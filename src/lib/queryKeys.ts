@@ -91,10 +91,33 @@ export const collectionKeys = {
 
 /**
  * Activity feed query keys
- * Supports activity feeds by user
+ * Supports activity feeds by user and comments by activity
  */
 export const activityFeedKeys = {
   byUser: (userId: string) => ['activity-feed', userId] as const,
+  comments: (activityId: string) => ['activity-feed', 'comments', activityId] as const,
+} as const;
+
+/**
+ * Group outing query keys
+ * Supports outings by user and individual outing details
+ */
+export const groupOutingKeys = {
+  all: ['group-outings'] as const,
+  byUser: (userId: string) => [...groupOutingKeys.all, 'user', userId] as const,
+  detail: (outingId: string) => [...groupOutingKeys.all, outingId] as const,
+} as const;
+
+/**
+ * Follow query keys
+ * Supports follower/following lists, follow requests, and counts by user
+ */
+export const followKeys = {
+  all: ['follows'] as const,
+  followers: (userId: string) => [...followKeys.all, 'followers', userId] as const,
+  following: (userId: string) => [...followKeys.all, 'following', userId] as const,
+  requests: (userId: string) => [...followKeys.all, 'requests', userId] as const,
+  counts: (userId: string) => [...followKeys.all, 'counts', userId] as const,
 } as const;
 
 /**
@@ -109,4 +132,6 @@ export const queryKeys = {
   users: userKeys,
   collections: collectionKeys,
   activityFeed: activityFeedKeys,
+  groupOutings: groupOutingKeys,
+  follows: followKeys,
 } as const;
@@ -72,6 +72,9 @@ export interface Database {
             cost?: string; // "Free", "$5/hour", "Validated"
           } | null;
           max_capacity: number | null; // Maximum capacity for activity level calculation
+          check_in_radius_meters: number; // Geofence radius for verified check-ins
+          allow_unverified_claims: boolean; // Whether unverified check-ins may claim offers
+          timezone: string | null; // IANA timezone the hours are expressed in
           created_at: string;
           updated_at: string;
         };
@@ -102,6 +105,9 @@ export interface Database {
             cost?: string;
           } | null;
           max_capacity?: number | null;
+          check_in_radius_meters?: number;
+          allow_unverified_claims?: boolean;
+          timezone?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -132,6 +138,9 @@ export interface Database {
             cost?: string;
           } | null;
           max_capacity?: number | null;
+          check_in_radius_meters?: number;
+          allow_unverified_claims?: boolean;
+          timezone?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -157,6 +166,8 @@ export interface Database {
           admin_notes: string | null;
           reviewed_by: string | null;
           reviewed_at: string | null;
+          venue_id: string | null; // Existing venue being claimed, set by create_venue_claim
+          claim_verified_at: string | null; // Set by verify_venue_claim_code
           created_at: string;
           updated_at: string;
         };
@@ -278,12 +289,14 @@ export interface Database {
           message: string;
           notification_type: 'general' | 'flash_offer' | 'event' | 'promotion';
           target_radius_miles: number;
+          target_favorites_only: boolean;
           target_user_count: number;
           actual_sent_count: number;
           scheduled_for: string | null;
           sent_at: string | null;
           status: 'draft' | 'scheduled' | 'sent' | 'cancelled' | 'failed';
           credits_used: number;
+          credits_charged: boolean;
           delivery_stats: Record<string, any>;
           created_at: string;
           updated_at: string;
@@ -296,12 +309,14 @@ export interface Database {
           message: string;
           notification_type?: 'general' | 'flash_offer' | 'event' | 'promotion';
           target_radius_miles?: number;
+          target_favorites_only?: boolean;
           target_user_count?: number;
           actual_sent_count?: number;
           scheduled_for?: string | null;
           sent_at?: string | null;
           status?: 'draft' | 'scheduled' | 'sent' | 'cancelled' | 'failed';
           credits_used?: number;
+          credits_charged?: boolean;
           delivery_stats?: Record<string, any>;
           created_at?: string;
           updated_at?: string;
@@ -314,12 +329,14 @@ export interface Database {
           message?: string;
           notification_type?: 'general' | 'flash_offer' | 'event' | 'promotion';
           target_radius_miles?: number;
+          target_favorites_only?: boolean;
           target_user_count?: number;
           actual_sent_count?: number;
           scheduled_for?: string | null;
           sent_at?: string | null;
           status?: 'draft' | 'scheduled' | 'sent' | 'cancelled' | 'failed';
           credits_used?: number;
+          credits_charged?: boolean;
           delivery_stats?: Record<string, any>;
           created_at?: string;
           updated_at?: string;
@@ -463,6 +480,13 @@ export interface Database {
           checked_in_at: string;
           checked_out_at: string | null;
           is_active: boolean;
+          verification_status: 'verified' | 'unverified';
+          verification_reason: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          location_accuracy_meters: number | null;
+          distance_meters: number | null;
+          checkout_reason: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -483,6 +507,7 @@ export interface Database {
           checked_in_at?: string;
           checked_out_at?: string | null;
           is_active?: boolean;
+          checkout_reason?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -785,6 +810,7 @@ export interface Database {
           title: string;
           description: string | null;
           scheduled_date: string;
+          reminder_sent_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -795,6 +821,7 @@ export interface Database {
           title: string;
           description?: string | null;
           scheduled_date: string;
+          reminder_sent_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -805,6 +832,7 @@ export interface Database {
           title?: string;
           description?: string | null;
           scheduled_date?: string;
+          reminder_sent_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -927,6 +955,7 @@ export interface Database {
           id: string;
           activity_id: string;
           user_id: string;
+          parent_comment_id: string | null;
           comment_text: string;
           created_at: string;
         };
@@ -934,6 +963,7 @@ export interface Database {
           id?: string;
           activity_id: string;
           user_id: string;
+          parent_comment_id?: string | null;
           comment_text: string;
           created_at?: string;
         };
@@ -941,6 +971,7 @@ export interface Database {
           id?: string;
           activity_id?: string;
           user_id?: string;
+          parent_comment_id?: string | null;
           comment_text?: string;
           created_at?: string;
         };
@@ -1041,6 +1072,23 @@ export interface Database {
       };
     };
     Views: {
+      venue_team_business_accounts: {
+        Row: {
+          id: string;
+          venue_id: string;
+          owner_user_id: string;
+          subscription_tier: 'free' | 'core' | 'pro' | 'revenue';
+          subscription_status: 'active' | 'inactive' | 'suspended' | 'cancelled';
+          subscription_start_date: string;
+          subscription_end_date: string | null;
+          push_credits_remaining: number;
+          push_credits_used: number;
+          account_status: 'active' | 'inactive' | 'suspended' | 'pending_verification';
+          verification_status: 'pending' | 'verified' | 'rejected';
+          created_at: string;
+          updated_at: string;
+        };
+      };
       venue_contribution_counts: {
         Row: {
           venue_id: string;
@@ -7,6 +7,8 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useNavigationStyle } from '../contexts/NavigationStyleContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import { NotificationHandler } from '../services/NotificationHandler';
+import { usePendingAccountDeletion } from '../hooks/usePendingAccountDeletion';
+import { useVenueApplicationApproval } from '../hooks/useVenueApplicationApproval';
 import { NewFloatingTabBar, AnimatedTabBar } from '../components/navigation';
 import { FriendRequestModal } from '../components/social';
 import { FlashOfferNotificationBanner } from '../components/flashOffer';
@@ -29,6 +31,12 @@ import MyClaimsScreen from '../screens/customer/MyClaimsScreen';
 import ClaimDetailScreen from '../screens/customer/ClaimDetailScreen';
 import NotificationSettingsScreen from '../screens/customer/NotificationSettingsScreen';
 import FlashOffersHelpScreen from '../screens/customer/FlashOffersHelpScreen';
+import GroupOutingsScreen from '../screens/customer/GroupOutingsScreen';
+import GroupOutingDetailScreen from '../screens/customer/GroupOutingDetailScreen';
+import FollowRequestsScreen from '../screens/customer/FollowRequestsScreen';
+import ModerationQueueScreen from '../screens/customer/ModerationQueueScreen';
+import VenueApplicationsScreen from '../screens/customer/VenueApplicationsScreen';
+import DeleteAccountScreen from '../screens/customer/DeleteAccountScreen';
 import { SplashScreen, AuthScreen } from '../screens/auth';
 import { VenueDashboardScreen, FlashOfferListScreen, FlashOfferDetailScreen as VenueFlashOfferDetailScreen, TokenRedemptionScreen } from '../screens/venue';
 
@@ -99,6 +107,13 @@ function HomeStackNavigator() {
           animation: 'slide_from_bottom',
         }}
       />
+      <HomeStack.Screen
+        name="GroupOutingDetail"
+        component={GroupOutingDetailScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
     </HomeStack.Navigator>
   );
 }
@@ -306,6 +321,48 @@ function SettingsStackNavigator() {
           animation: 'slide_from_right',
         }}
       />
+      <SettingsStack.Screen
+        name="GroupOutings"
+        component={GroupOutingsScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
+      <SettingsStack.Screen
+        name="GroupOutingDetail"
+        component={GroupOutingDetailScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
+      <SettingsStack.Screen
+        name="FollowRequests"
+        component={FollowRequestsScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
+      <SettingsStack.Screen
+        name="ModerationQueue"
+        component={ModerationQueueScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
+      <SettingsStack.Screen
+        name="VenueApplications"
+        component={VenueApplicationsScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
+      <SettingsStack.Screen
+        name="DeleteAccount"
+        component={DeleteAccountScreen}
+        options={{
+          animation: 'slide_from_right',
+        }}
+      />
     </SettingsStack.Navigator>
   );
 }
@@ -390,6 +447,23 @@ function MainTabNavigator() {
           }
           break;
 
+        case 'follow_request':
+          // Navigate to follow requests screen
+          if (navigationRef.current) {
+            navigationRef.current.navigate('Profile', {
+              screen: 'Settings',
+              params: { screen: 'FollowRequests' },
+            });
+          }
+          break;
+
+        case 'new_follower':
+          // Navigate to own profile where followers are shown
+          if (navigationRef.current) {
+            navigationRef.current.navigate('Profile');
+          }
+          break;
+
         case 'venue_share':
           // Navigate to venue detail screen
           const venueId = notification.data?.venue_id;
@@ -402,6 +476,27 @@ function MainTabNavigator() {
           }
           break;
 
+        case 'group_outing_invite':
+        case 'group_outing_response':
+        case 'group_outing_reminder':
+          // Navigate to group outing detail screen
+          const outingId = notification.data?.outing_id || notification.reference_id;
+          if (outingId && navigationRef.current) {
+            navigationRef.current.navigate('Home', {
+              screen: 'GroupOutingDetail',
+              params: { outingId },
+            });
+          }
+          break;
+
+        case 'activity_like':
+        case 'activity_comment':
+          // Navigate to home where the friend activity feed is shown
+          if (navigationRef.current) {
+            navigationRef.current.navigate('Home');
+          }
+          break;
+
         default:
           console.log('Unhandled notification type:', notification.type);
       }
@@ -429,6 +524,13 @@ function MainTabNavigator() {
           setFriendRequestModalVisible(true);
           break;
 
+        case 'FollowRequests':
+          navigationRef.current.navigate('Profile', {
+            screen: 'Settings',
+            params: { screen: 'FollowRequests' },
+          });
+          break;
+
         case 'Settings':
           navigationRef.current.navigate('Settings');
           break;
@@ -467,6 +569,15 @@ function MainTabNavigator() {
           }
           break;
 
+        case 'GroupOutingDetail':
+          if (params?.outingId) {
+            navigationRef.current.navigate('Home', {
+              screen: 'GroupOutingDetail',
+              params: { outingId: params.outingId },
+            });
+          }
+          break;
+
         case 'Home':
         default:
           navigationRef.current.navigate('Home');
@@ -699,6 +810,12 @@ function AppNavigator() {
   const { session, loading, initializing, user, userType } = useAuth();
   const [waitingForUserType, setWaitingForUserType] = useState(false);
 
+  // Offer to restore accounts that are in their deletion grace period
+  usePendingAccountDeletion();
+
+  // Move applicants to the venue dashboard when their venue is approved
+  useVenueApplicationApproval();
+
   console.log('🧭 AppNavigator render:', {
     hasSession: !!session,
     loading,
@@ -20,6 +20,7 @@ import type { RootTabParamList } from '../../types/navigation.types';
 import { RESPONSIVE_SPACING } from '../../utils/responsive';
 import { useClaimExpirationTimer } from '../../hooks/useCountdownTimer';
 import { DetailScreenSkeleton } from '../../components/flashOffer/SkeletonLoaders';
+import { ClaimQrCode } from '../../components/flashOffer/ClaimQrCode';
 import { useSubscriptionManager } from '../../hooks/useSubscriptionManager';
 import { useFeedbackManager } from '../../hooks/useFeedbackManager';
 import { stateCache } from '../../utils/cache/StateCache';
@@ -317,13 +318,14 @@ const ClaimDetailScreen: React.FC = () => {
         {/* Token Display (if not redeemed) */}
         {!isRedeemed && (
           <View style={[styles.tokenCard, { backgroundColor: theme.colors.card }]}>
+            {isActive && <ClaimQrCode claimId={claim.id} />}
             <Text
               style={[
                 styles.tokenLabel,
                 { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
               ]}
             >
-              Your Token
+              {isActive ? 'Or use your token' : 'Your Token'}
             </Text>
             <Text
               style={[
@@ -339,7 +341,7 @@ const ClaimDetailScreen: React.FC = () => {
                 { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
               ]}
             >
-              Show this code to venue staff
+              {isActive ? 'Show the QR code or this token to venue staff' : 'Show this code to venue staff'}
             </Text>
           </View>
         )}
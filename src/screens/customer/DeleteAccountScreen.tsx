@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { AccountDeletionService } from '../../services/api/accountDeletion';
+import { PrivacyDataHandler } from '../../utils/security';
+import type { SettingsStackParamList } from '../../types/navigation.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+const DELETED_DATA = PrivacyDataHandler.getAccountDeletionRules('delete');
+const ANONYMIZED_DATA = PrivacyDataHandler.getAccountDeletionRules('anonymize');
+
+const DeleteAccountScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user, signOut } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const [password, setPassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const gracePeriodDays = AccountDeletionService.GRACE_PERIOD_DAYS;
+
+  const deleteAccount = async () => {
+    if (!user?.email) return;
+
+    setIsDeleting(true);
+    try {
+      const request = await AccountDeletionService.requestDeletion(user.email, password);
+      const deletionDate = new Date(request.scheduled_for).toLocaleDateString(undefined, {
+        month: 'long',
+        day: 'numeric',
+        year: 'numeric',
+      });
+
+      await signOut({ allDevices: true });
+
+      Alert.alert(
+        'Account Scheduled for Deletion',
+        `You've been signed out on all devices. Your account will be permanently deleted on ${deletionDate}. Sign in before then to restore it.`
+      );
+    } catch (error) {
+      setIsDeleting(false);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete account');
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Account',
+      `Your account will be deleted in ${gracePeriodDays} days and you'll be signed out on all devices.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: deleteAccount },
+      ]
+    );
+  };
+
+  const renderRules = (title: string, icon: string, rules: typeof DELETED_DATA) => (
+    <View style={[styles.section, { backgroundColor: theme.colors.card }]}>
+      <Text style={[styles.sectionTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}>
+        {title}
+      </Text>
+      {rules.map((rule) => (
+        <View key={rule.category} style={styles.ruleRow}>
+          <Icon name={icon} size={16} color={theme.colors.textSecondary} />
+          <Text style={[styles.ruleText, { color: theme.colors.text, fontFamily: theme.fonts.secondary.regular }]}>
+            {rule.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton} disabled={isDeleting}>
+          <Icon name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold }]}>
+          Delete Account
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.intro, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}>
+          Your account will be permanently deleted after {gracePeriodDays} days. Until then you can
+          sign in to restore it.
+        </Text>
+
+        {renderRules('What gets deleted', 'trash-outline', DELETED_DATA)}
+        {renderRules('Kept anonymously for venue statistics', 'eye-off-outline', ANONYMIZED_DATA)}
+
+        <Text style={[styles.label, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}>
+          Confirm your password
+        </Text>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              color: theme.colors.text,
+              borderColor: theme.colors.border,
+              backgroundColor: theme.colors.card,
+              fontFamily: theme.fonts.secondary.regular,
+            },
+          ]}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Password"
+          placeholderTextColor={theme.colors.textSecondary}
+          secureTextEntry
+          autoCapitalize="none"
+          autoComplete="password"
+          editable={!isDeleting}
+        />
+
+        <TouchableOpacity
+          style={[styles.deleteButton, (!password || isDeleting) && styles.deleteButtonDisabled]}
+          onPress={handleDelete}
+          disabled={!password || isDeleting}
+          activeOpacity={0.7}
+        >
+          {isDeleting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={[styles.deleteButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+              Delete My Account
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: RESPONSIVE_SPACING.elementGap + 8,
+  },
+  section: {
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  deleteButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: RESPONSIVE_SPACING.buttonVertical,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#FF3B30',
+  },
+  deleteButtonDisabled: {
+    opacity: 0.5,
+  },
+  deleteButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default DeleteAccountScreen;
@@ -36,6 +36,16 @@ import { fadeIn, scaleIn, countdownPulse, pulse } from '../../utils/animations';
 import { triggerSuccessHaptic, triggerLightHaptic } from '../../utils/haptics';
 import { HelpText } from '../../components/shared';
 import Icon from 'react-native-vector-icons/Ionicons';
+import type { ClaimIneligibilityReason } from '../../types/flashOfferClaim.types';
+
+// Ineligibility reasons shown as an info card instead of the claim button
+const TARGETING_REASONS: ClaimIneligibilityReason[] = [
+  'not_favorite',
+  'outside_radius',
+  'not_first_visit',
+  'not_returning_customer',
+  'user_claim_limit_reached',
+];
 
 type FlashOfferDetailScreenProps = {
   navigation: any;
@@ -53,6 +63,7 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
   const [claiming, setClaiming] = useState(false);
   const [isCheckedIn, setIsCheckedIn] = useState(false);
   const [alreadyClaimed, setAlreadyClaimed] = useState(false);
+  const [targetingMessage, setTargetingMessage] = useState<string | null>(null);
   const [networkError, setNetworkError] = useState(false);
 
   // Animation values
@@ -151,12 +162,17 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
       // Check if user already claimed this offer
       if (user) {
         const eligibility = await ClaimService.validateClaimEligibility(offerId, user.id);
-        setAlreadyClaimed(!eligibility.eligible && eligibility.reason === 'You have already claimed this offer');
+        setAlreadyClaimed(!eligibility.eligible && eligibility.reason === 'already_claimed');
         
         // Check if user is checked in by looking at the reason
         const isCheckedInAtVenue = eligibility.eligible || 
-          eligibility.reason !== 'You must be checked in to this venue to claim this offer';
+          eligibility.reason !== 'not_checked_in';
         setIsCheckedIn(isCheckedInAtVenue);
+
+        // Targeting rules and per-user limits can't be fixed by checking in
+        const isExcludedByTargeting = !!eligibility.reason &&
+          TARGETING_REASONS.includes(eligibility.reason);
+        setTargetingMessage(isExcludedByTargeting ? eligibility.message || null : null);
       }
     } catch (error) {
       console.error('Error loading offer details:', error);
@@ -356,7 +372,7 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
 
   const isExpired = offer.status === 'expired' || timerExpired;
   const isFull = offer.status === 'full' || offer.claimed_count >= offer.max_claims;
-  const canClaim = !isExpired && !isFull && !alreadyClaimed && isCheckedIn;
+  const canClaim = !isExpired && !isFull && !alreadyClaimed && isCheckedIn && !targetingMessage;
   const remainingClaims = offer.max_claims - offer.claimed_count;
 
   return (
@@ -502,6 +518,16 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
             </>
           )}
 
+          {/* Offer Targeting (favorites-only, radius, audience or weekly limit) */}
+          {targetingMessage && isCheckedIn && !alreadyClaimed && !isExpired && !isFull && (
+            <View style={[styles.infoCard, { backgroundColor: theme.colors.card }]}>
+              <Icon name="information-circle" size={24} color={theme.colors.primary} />
+              <Text style={[styles.infoText, { color: theme.colors.textSecondary }]}>
+                {targetingMessage}
+              </Text>
+            </View>
+          )}
+
           {/* Already Claimed */}
           {alreadyClaimed && (
             <View style={[styles.infoCard, { backgroundColor: theme.colors.card }]}>
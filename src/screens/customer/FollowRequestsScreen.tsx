@@ -0,0 +1,339 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Text,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useFollowRequestsQuery } from '../../hooks/queries/useFollowsQuery';
+import {
+  useApproveFollowRequestMutation,
+  useDenyFollowRequestMutation,
+} from '../../hooks/mutations/useFollowMutations';
+import type { FollowRequest } from '../../types/social.types';
+import type { SettingsStackParamList } from '../../types/navigation.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+const AVATAR_SIZE = 44;
+
+const FollowRequestsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const { data: requests = [], isLoading, isError, error, refetch } = useFollowRequestsQuery({
+    userId: user?.id || '',
+  });
+
+  const handleActionError = (actionError: Error) => {
+    Alert.alert('Error', actionError.message || 'Something went wrong. Please try again.');
+  };
+
+  const approveRequest = useApproveFollowRequestMutation({ onError: handleActionError });
+  const denyRequest = useDenyFollowRequestMutation({ onError: handleActionError });
+
+  const isProcessing = approveRequest.isPending || denyRequest.isPending;
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refetch();
+    setIsRefreshing(false);
+  }, [refetch]);
+
+  const renderRequestItem = ({ item }: { item: FollowRequest }) => {
+    const followerName = item.follower?.name || 'Someone';
+
+    return (
+      <View style={[styles.requestCard, { backgroundColor: theme.colors.card }]}>
+        {item.follower?.avatar_url ? (
+          <Image source={{ uri: item.follower.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, { backgroundColor: theme.colors.border }]}>
+            <Icon name="person" size={20} color={theme.colors.textSecondary} />
+          </View>
+        )}
+
+        <Text
+          style={[
+            styles.requestName,
+            { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+          ]}
+          numberOfLines={1}
+        >
+          {followerName}
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: theme.colors.primary }]}
+          onPress={() => approveRequest.mutate({ requestId: item.id, userId: item.following_id })}
+          disabled={isProcessing}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.actionButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+            Approve
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.denyButton, { borderColor: theme.colors.border }]}
+          onPress={() => denyRequest.mutate({ requestId: item.id, userId: item.following_id })}
+          disabled={isProcessing}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[
+              styles.denyButtonText,
+              { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+            ]}
+          >
+            Deny
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Icon name="person-add-outline" size={64} color={theme.colors.textSecondary} />
+      <Text
+        style={[
+          styles.emptyTitle,
+          { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+        ]}
+      >
+        No Follow Requests
+      </Text>
+      <Text
+        style={[
+          styles.emptySubtitle,
+          { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+        ]}
+      >
+        When someone asks to follow your private profile, they'll appear here
+      </Text>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+
+    if (isError) {
+      return (
+        <View style={styles.errorContainer}>
+          <Icon name="alert-circle-outline" size={64} color={theme.colors.textSecondary} />
+          <Text
+            style={[
+              styles.errorTitle,
+              { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+            ]}
+          >
+            Failed to Load Requests
+          </Text>
+          <Text
+            style={[
+              styles.errorSubtitle,
+              { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+            ]}
+          >
+            {error?.message}
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => refetch()}
+          >
+            <Text style={[styles.retryButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+              Retry
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={requests}
+        renderItem={renderRequestItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContent, requests.length === 0 && styles.emptyList]}
+        ListEmptyComponent={renderEmptyState}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+            colors={[theme.colors.primary]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text
+          style={[
+            styles.headerTitle,
+            { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold },
+          ]}
+        >
+          Follow Requests
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+  },
+  errorTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  errorSubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: RESPONSIVE_SPACING.buttonVertical,
+    paddingHorizontal: RESPONSIVE_SPACING.buttonHorizontal,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  requestCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  avatar: {
+    width: AVATAR_SIZE,
+    height: AVATAR_SIZE,
+    borderRadius: AVATAR_SIZE / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  requestName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    marginHorizontal: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  denyButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+  },
+  denyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 80,
+  },
+  emptyTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  emptySubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
+
+export default FollowRequestsScreen;
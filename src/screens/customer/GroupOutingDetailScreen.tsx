@@ -0,0 +1,508 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useGroupOutingQuery } from '../../hooks/queries/useGroupOutingsQuery';
+import {
+  useRespondToOutingMutation,
+  useCancelGroupOutingMutation,
+} from '../../hooks/mutations/useGroupOutingMutations';
+import type { GroupOutingInvite, OutingResponse } from '../../types/social.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+type GroupOutingDetailScreenRouteProp = RouteProp<
+  { GroupOutingDetail: { outingId: string } },
+  'GroupOutingDetail'
+>;
+
+const RSVP_OPTIONS: { response: OutingResponse; label: string; icon: string }[] = [
+  { response: 'going', label: 'Going', icon: 'checkmark-circle' },
+  { response: 'interested', label: 'Interested', icon: 'star' },
+  { response: 'cant_go', label: "Can't Go", icon: 'close-circle' },
+];
+
+const RESPONSE_LABELS: Record<GroupOutingInvite['response'], string> = {
+  going: 'Going',
+  interested: 'Interested',
+  cant_go: "Can't Go",
+  no_response: 'Not Responded',
+};
+
+const GroupOutingDetailScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<any>();
+  const route = useRoute<GroupOutingDetailScreenRouteProp>();
+  const { outingId } = route.params;
+
+  const { data: outing, isLoading, isError, error, refetch } = useGroupOutingQuery({ outingId });
+
+  const respondMutation = useRespondToOutingMutation({
+    onError: (err) => {
+      Alert.alert('Error', err.message || 'Failed to update your response');
+    },
+  });
+
+  const cancelMutation = useCancelGroupOutingMutation({
+    onSuccess: () => navigation.goBack(),
+    onError: (err) => {
+      Alert.alert('Error', err.message || 'Failed to cancel outing');
+    },
+  });
+
+  const handleRespond = (response: OutingResponse) => {
+    if (!user?.id) return;
+    respondMutation.mutate({ outingId, userId: user.id, response });
+  };
+
+  const handleCancel = () => {
+    if (!user?.id) return;
+
+    Alert.alert(
+      'Cancel Outing',
+      'Are you sure you want to cancel this outing? Everyone invited will lose access to it.',
+      [
+        { text: 'Keep Outing', style: 'cancel' },
+        {
+          text: 'Cancel Outing',
+          style: 'destructive',
+          onPress: () => cancelMutation.mutate({ outingId, userId: user.id }),
+        },
+      ]
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+        <Icon name="arrow-back" size={24} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text
+        style={[
+          styles.headerTitle,
+          { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold },
+        ]}
+      >
+        Group Outing
+      </Text>
+      <View style={styles.headerSpacer} />
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        edges={['top']}
+      >
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (isError || !outing) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+        edges={['top']}
+      >
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          <Icon name="alert-circle-outline" size={64} color={theme.colors.textSecondary} />
+          <Text
+            style={[
+              styles.errorTitle,
+              { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+            ]}
+          >
+            Outing Not Available
+          </Text>
+          <Text
+            style={[
+              styles.errorSubtitle,
+              { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+            ]}
+          >
+            {error?.message || 'This outing may have been cancelled.'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => refetch()}
+          >
+            <Text style={[styles.retryButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+              Retry
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isOrganizer = outing.creator_id === user?.id;
+  const myInvite = outing.invites?.find((invite) => invite.user_id === user?.id);
+  const scheduledDate = new Date(outing.scheduled_date);
+  const counts = outing.response_counts;
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      {renderHeader()}
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Outing Summary */}
+        <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+          <Text
+            style={[
+              styles.outingTitle,
+              { color: theme.colors.text, fontFamily: theme.fonts.primary.bold },
+            ]}
+          >
+            {outing.title}
+          </Text>
+          <TouchableOpacity
+            style={styles.infoRow}
+            onPress={() =>
+              outing.venue &&
+              navigation.navigate('Home', {
+                screen: 'VenueDetail',
+                params: { venueId: outing.venue_id, venueName: outing.venue.name },
+              })
+            }
+          >
+            <Icon name="location" size={18} color={theme.colors.primary} />
+            <Text style={[styles.infoText, { color: theme.colors.text }]}>
+              {outing.venue?.name || 'Venue'}
+            </Text>
+          </TouchableOpacity>
+          <View style={styles.infoRow}>
+            <Icon name="calendar" size={18} color={theme.colors.primary} />
+            <Text style={[styles.infoText, { color: theme.colors.text }]}>
+              {scheduledDate.toLocaleDateString([], {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+              })}{' '}
+              at {scheduledDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Icon name="person" size={18} color={theme.colors.primary} />
+            <Text style={[styles.infoText, { color: theme.colors.text }]}>
+              Organized by {isOrganizer ? 'you' : outing.creator?.name || 'a friend'}
+            </Text>
+          </View>
+          {outing.description && (
+            <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+              {outing.description}
+            </Text>
+          )}
+        </View>
+
+        {/* Response Counts */}
+        <View style={[styles.card, styles.countsRow, { backgroundColor: theme.colors.card }]}>
+          {RSVP_OPTIONS.map((option) => (
+            <View key={option.response} style={styles.countItem}>
+              <Text
+                style={[
+                  styles.countValue,
+                  { color: theme.colors.text, fontFamily: theme.fonts.primary.bold },
+                ]}
+              >
+                {counts?.[option.response] || 0}
+              </Text>
+              <Text style={[styles.countLabel, { color: theme.colors.textSecondary }]}>
+                {option.label}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* RSVP */}
+        {myInvite && (
+          <View style={styles.section}>
+            <Text
+              style={[
+                styles.sectionTitle,
+                { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+              ]}
+            >
+              Your Response
+            </Text>
+            <View style={styles.rsvpRow}>
+              {RSVP_OPTIONS.map((option) => {
+                const selected = myInvite.response === option.response;
+                return (
+                  <TouchableOpacity
+                    key={option.response}
+                    style={[
+                      styles.rsvpButton,
+                      {
+                        backgroundColor: selected ? theme.colors.primary : theme.colors.surface,
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                      },
+                    ]}
+                    onPress={() => handleRespond(option.response)}
+                    disabled={respondMutation.isPending || selected}
+                    activeOpacity={0.8}
+                  >
+                    <Icon
+                      name={option.icon}
+                      size={18}
+                      color={selected ? '#fff' : theme.colors.text}
+                    />
+                    <Text
+                      style={[
+                        styles.rsvpButtonText,
+                        {
+                          color: selected ? '#fff' : theme.colors.text,
+                          fontFamily: theme.fonts.secondary.semiBold,
+                        },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Invitees */}
+        <View style={styles.section}>
+          <Text
+            style={[
+              styles.sectionTitle,
+              { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+            ]}
+          >
+            Invited ({outing.invites?.length || 0})
+          </Text>
+          {(outing.invites || []).map((invite) => (
+            <View
+              key={invite.id}
+              style={[styles.inviteeRow, { borderBottomColor: theme.colors.border }]}
+            >
+              {invite.user?.avatar_url ? (
+                <Image source={{ uri: invite.user.avatar_url }} style={styles.avatar} />
+              ) : (
+                <View
+                  style={[
+                    styles.avatar,
+                    styles.avatarPlaceholder,
+                    { backgroundColor: theme.colors.primary + '20' },
+                  ]}
+                >
+                  <Icon name="person" size={18} color={theme.colors.primary} />
+                </View>
+              )}
+              <Text style={[styles.inviteeName, { color: theme.colors.text }]} numberOfLines={1}>
+                {invite.user_id === user?.id ? 'You' : invite.user?.name || 'Friend'}
+              </Text>
+              <Text style={[styles.inviteeResponse, { color: theme.colors.textSecondary }]}>
+                {RESPONSE_LABELS[invite.response]}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Organizer Actions */}
+        {isOrganizer && (
+          <TouchableOpacity
+            style={[styles.cancelButton, { borderColor: '#FF6B6B' }]}
+            onPress={handleCancel}
+            disabled={cancelMutation.isPending}
+          >
+            {cancelMutation.isPending ? (
+              <ActivityIndicator color="#FF6B6B" size="small" />
+            ) : (
+              <Text style={[styles.cancelButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+                Cancel Outing
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+  },
+  errorTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  errorSubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: RESPONSIVE_SPACING.buttonVertical,
+    paddingHorizontal: RESPONSIVE_SPACING.buttonHorizontal,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  card: {
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  outingTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  description: {
+    fontSize: 14,
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  countsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  countItem: {
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  countLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  section: {
+    marginTop: RESPONSIVE_SPACING.cardMargin,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+  },
+  rsvpRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rsvpButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 6,
+  },
+  rsvpButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  inviteeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  inviteeName: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 12,
+  },
+  inviteeResponse: {
+    fontSize: 13,
+  },
+  cancelButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default GroupOutingDetailScreen;
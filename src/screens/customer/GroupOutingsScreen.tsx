@@ -0,0 +1,340 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Text,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useGroupOutingsQuery } from '../../hooks/queries/useGroupOutingsQuery';
+import type { GroupOuting, GroupOutingInvite } from '../../types/social.types';
+import type { SettingsStackParamList } from '../../types/navigation.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+const RESPONSE_LABELS: Record<GroupOutingInvite['response'], string> = {
+  going: 'Going',
+  interested: 'Interested',
+  cant_go: "Can't Go",
+  no_response: 'Not Responded',
+};
+
+/**
+ * Format an outing date for list display, e.g. "Fri, Mar 7 · 8:00 PM"
+ */
+const formatOutingDate = (isoDate: string): string => {
+  const date = new Date(isoDate);
+  const day = date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `${day} · ${time}`;
+};
+
+const GroupOutingsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const { data: outings = [], isLoading, isError, error, refetch } = useGroupOutingsQuery({
+    userId: user?.id || '',
+  });
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await refetch();
+    setIsRefreshing(false);
+  }, [refetch]);
+
+  const renderOutingItem = ({ item }: { item: GroupOuting }) => {
+    const isOrganizer = item.creator_id === user?.id;
+    const myInvite = item.invites?.find((invite) => invite.user_id === user?.id);
+    const statusLabel = isOrganizer
+      ? 'Organizer'
+      : RESPONSE_LABELS[myInvite?.response || 'no_response'];
+
+    return (
+      <TouchableOpacity
+        style={[styles.outingCard, { backgroundColor: theme.colors.card }]}
+        onPress={() => navigation.navigate('GroupOutingDetail', { outingId: item.id })}
+        activeOpacity={0.7}
+      >
+        <View style={styles.outingHeader}>
+          <View style={styles.outingTitleContainer}>
+            <Text
+              style={[
+                styles.outingTitle,
+                { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+              ]}
+              numberOfLines={1}
+            >
+              {item.title}
+            </Text>
+            <Text
+              style={[
+                styles.venueName,
+                { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+              ]}
+              numberOfLines={1}
+            >
+              {item.venue?.name || 'Venue'} · {formatOutingDate(item.scheduled_date)}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: theme.colors.primary + '20' }]}>
+            <Text
+              style={[
+                styles.statusText,
+                { color: theme.colors.primary, fontFamily: theme.fonts.secondary.semiBold },
+              ]}
+            >
+              {statusLabel}
+            </Text>
+          </View>
+        </View>
+
+        <Text
+          style={[
+            styles.countsText,
+            { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+          ]}
+        >
+          {item.response_counts?.going || 0} going · {item.response_counts?.interested || 0} interested
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Icon name="people-outline" size={64} color={theme.colors.textSecondary} />
+      <Text
+        style={[
+          styles.emptyTitle,
+          { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+        ]}
+      >
+        No Upcoming Outings
+      </Text>
+      <Text
+        style={[
+          styles.emptySubtitle,
+          { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+        ]}
+      >
+        Plan an outing from any venue page to invite your friends
+      </Text>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+
+    if (isError) {
+      return (
+        <View style={styles.errorContainer}>
+          <Icon name="alert-circle-outline" size={64} color={theme.colors.textSecondary} />
+          <Text
+            style={[
+              styles.errorTitle,
+              { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold },
+            ]}
+          >
+            Failed to Load Outings
+          </Text>
+          <Text
+            style={[
+              styles.errorSubtitle,
+              { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular },
+            ]}
+          >
+            {error?.message}
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => refetch()}
+          >
+            <Text style={[styles.retryButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+              Retry
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={outings}
+        renderItem={renderOutingItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContent, outings.length === 0 && styles.emptyList]}
+        ListEmptyComponent={renderEmptyState}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+            colors={[theme.colors.primary]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text
+          style={[
+            styles.headerTitle,
+            { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold },
+          ]}
+        >
+          Group Outings
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+  },
+  errorTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  errorSubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: RESPONSIVE_SPACING.buttonVertical,
+    paddingHorizontal: RESPONSIVE_SPACING.buttonHorizontal,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  outingCard: {
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  outingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: RESPONSIVE_SPACING.elementGap,
+  },
+  outingTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  outingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  venueName: {
+    fontSize: 14,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  countsText: {
+    fontSize: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 80,
+  },
+  emptyTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  emptySubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
+
+export default GroupOutingsScreen;
@@ -0,0 +1,474 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Text,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { ModerationService, DEFAULT_SUSPENSION_DAYS } from '../../services/api/moderation';
+import type {
+  ModerationAction,
+  ModerationContentType,
+  ModerationHiddenReason,
+  ModerationQueueItem,
+} from '../../types/moderation.types';
+import type { SettingsStackParamList } from '../../types/navigation.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+const CONTENT_LABELS: Record<ModerationContentType, string> = {
+  review: 'Review',
+  photo: 'Photo',
+  notification: 'Notification',
+};
+
+const HIDDEN_LABELS: Record<ModerationHiddenReason, string> = {
+  reports: 'Hidden: report threshold',
+  severe_content: 'Hidden: severe content',
+  removed: 'Removed',
+};
+
+const ACTIONS: { action: ModerationAction; label: string; destructive: boolean }[] = [
+  { action: 'dismiss', label: 'Dismiss', destructive: false },
+  { action: 'remove', label: 'Remove', destructive: true },
+  { action: 'warn', label: 'Warn', destructive: true },
+  { action: 'suspend', label: 'Suspend', destructive: true },
+];
+
+const SUSPENSION_OPTIONS = [1, DEFAULT_SUSPENSION_DAYS, 30];
+
+const itemKey = (item: ModerationQueueItem) => `${item.content_type}:${item.content_id}`;
+
+const ModerationQueueScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const isAdmin = ModerationService.isAdmin(user);
+
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [processingKey, setProcessingKey] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setError(null);
+      setItems(await ModerationService.getQueue());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load reports');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      setIsLoading(false);
+      return;
+    }
+
+    loadQueue().finally(() => setIsLoading(false));
+  }, [isAdmin, loadQueue]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadQueue();
+    setIsRefreshing(false);
+  }, [loadQueue]);
+
+  const resolve = async (item: ModerationQueueItem, action: ModerationAction, suspendDays?: number) => {
+    const key = itemKey(item);
+    setProcessingKey(key);
+
+    try {
+      const resolution = await ModerationService.resolveItem({
+        contentType: item.content_type,
+        contentId: item.content_id,
+        action,
+        suspendDays,
+      });
+
+      setItems((current) => current.filter((queued) => itemKey(queued) !== key));
+      Alert.alert(
+        action === 'dismiss' ? 'Reports Dismissed' : 'Action Taken',
+        `${resolution.resolved_count} report${resolution.resolved_count !== 1 ? 's' : ''} closed and reporters notified.`
+      );
+    } catch (resolveError) {
+      Alert.alert(
+        'Error',
+        resolveError instanceof Error ? resolveError.message : 'Failed to resolve reports'
+      );
+    } finally {
+      setProcessingKey(null);
+    }
+  };
+
+  const confirmAction = (item: ModerationQueueItem, action: ModerationAction) => {
+    const label = CONTENT_LABELS[item.content_type].toLowerCase();
+    const author = item.author_name || 'the author';
+
+    if (action === 'suspend') {
+      Alert.alert(
+        'Suspend Author',
+        `Remove this ${label} and stop ${author} from posting reviews and photos for:`,
+        [
+          ...SUSPENSION_OPTIONS.map((days) => ({
+            text: `${days} day${days !== 1 ? 's' : ''}`,
+            onPress: () => resolve(item, action, days),
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]
+      );
+      return;
+    }
+
+    const messages: Record<Exclude<ModerationAction, 'suspend'>, string> = {
+      dismiss: `Close the reports and show this ${label} again?`,
+      remove: `Remove this ${label}? ${author} will be notified.`,
+      warn: `Remove this ${label} and send ${author} a warning?`,
+    };
+
+    Alert.alert(ACTIONS.find((entry) => entry.action === action)?.label || 'Confirm', messages[action], [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Confirm',
+        style: action === 'dismiss' ? 'default' : 'destructive',
+        onPress: () => resolve(item, action),
+      },
+    ]);
+  };
+
+  const renderBadge = (text: string, color: string) => (
+    <View style={[styles.badge, { backgroundColor: color + '20' }]}>
+      <Text style={[styles.badgeText, { color, fontFamily: theme.fonts.secondary.semiBold }]}>
+        {text}
+      </Text>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: ModerationQueueItem }) => {
+    const isProcessing = processingKey === itemKey(item);
+    // Notifications live in the reporter's inbox, so there's nothing to remove
+    const actions = item.content_type === 'notification'
+      ? ACTIONS.filter((entry) => entry.action !== 'remove')
+      : ACTIONS;
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+        <View style={styles.badgeRow}>
+          {renderBadge(CONTENT_LABELS[item.content_type], theme.colors.primary)}
+          {item.has_severe_content && renderBadge('Severe content', '#FF3B30')}
+          {item.is_hidden && item.hidden_reason && renderBadge(HIDDEN_LABELS[item.hidden_reason], '#FF9500')}
+        </View>
+
+        <Text
+          style={[styles.meta, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}
+          numberOfLines={1}
+        >
+          {[item.author_name || 'Unknown user', item.venue_name].filter(Boolean).join(' • ')}
+          {item.rating ? ` • ${item.rating}★` : ''}
+        </Text>
+
+        {item.photo_url && (
+          <Image
+            source={{ uri: item.photo_url }}
+            style={[styles.photo, { backgroundColor: theme.colors.border }]}
+          />
+        )}
+
+        {item.content_text ? (
+          <Text
+            style={[styles.contentText, { color: theme.colors.text, fontFamily: theme.fonts.secondary.regular }]}
+            numberOfLines={6}
+          >
+            {item.content_text}
+          </Text>
+        ) : null}
+
+        <View style={[styles.reportSummary, { borderTopColor: theme.colors.border }]}>
+          <Icon name="flag" size={14} color={theme.colors.textSecondary} />
+          <Text
+            style={[styles.reportText, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.medium }]}
+          >
+            {item.report_count} report{item.report_count !== 1 ? 's' : ''} • {item.reasons.join(', ')}
+          </Text>
+        </View>
+
+        {item.details.slice(0, 2).map((detail, index) => (
+          <Text
+            key={index}
+            style={[styles.detailText, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}
+            numberOfLines={2}
+          >
+            “{detail}”
+          </Text>
+        ))}
+
+        <View style={styles.actionRow}>
+          {isProcessing ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : (
+            actions.map((entry) => (
+              <TouchableOpacity
+                key={entry.action}
+                style={[
+                  styles.actionButton,
+                  entry.destructive
+                    ? { borderColor: '#FF3B30' }
+                    : { borderColor: theme.colors.border },
+                ]}
+                onPress={() => confirmAction(item, entry.action)}
+                disabled={processingKey !== null}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    {
+                      color: entry.destructive ? '#FF3B30' : theme.colors.text,
+                      fontFamily: theme.fonts.secondary.semiBold,
+                    },
+                  ]}
+                >
+                  {entry.label}
+                </Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderMessage = (icon: string, title: string, subtitle?: string) => (
+    <View style={styles.messageContainer}>
+      <Icon name={icon} size={64} color={theme.colors.textSecondary} />
+      <Text style={[styles.messageTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}>
+        {title}
+      </Text>
+      {subtitle && (
+        <Text
+          style={[styles.messageSubtitle, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}
+        >
+          {subtitle}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!isAdmin) {
+      return renderMessage('lock-closed-outline', 'Admins Only', 'You do not have access to the moderation queue');
+    }
+
+    if (isLoading) {
+      return (
+        <View style={styles.messageContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.messageContainer}>
+          {renderMessage('alert-circle-outline', 'Failed to Load Reports', error)}
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.colors.primary }]}
+            onPress={() => {
+              setIsLoading(true);
+              loadQueue().finally(() => setIsLoading(false));
+            }}
+          >
+            <Text style={[styles.retryButtonText, { fontFamily: theme.fonts.secondary.semiBold }]}>
+              Retry
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={itemKey}
+        contentContainerStyle={[styles.listContent, items.length === 0 && styles.emptyList]}
+        ListEmptyComponent={() =>
+          renderMessage('shield-checkmark-outline', 'All Caught Up', 'There are no pending reports')
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+            colors={[theme.colors.primary]}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold }]}>
+          Moderation Queue
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  listContent: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  card: {
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap + 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  photo: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  contentText: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  reportSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  reportText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  detailText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    minHeight: 34,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+  },
+  messageTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  messageSubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: RESPONSIVE_SPACING.cardMargin + 8,
+    paddingVertical: RESPONSIVE_SPACING.buttonVertical,
+    paddingHorizontal: RESPONSIVE_SPACING.buttonHorizontal,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ModerationQueueScreen;
@@ -8,6 +8,7 @@ import {
   Image,
   ActivityIndicator,
   Modal,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/Ionicons';
@@ -17,7 +18,8 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import type { NavigationProp } from '@react-navigation/native';
 import type { ProfileStackParamList } from '../../types';
 import { ProfileService } from '../../services/api/profile';
-import { StatsGrid, type StatConfig } from '../../components/profile';
+import { StatsGrid, FollowersCard, type StatConfig } from '../../components/profile';
+import { useFollowersQuery } from '../../hooks/queries';
 import { formatCurrency } from '../../utils/currency';
 
 const ProfileScreen: React.FC = () => {
@@ -29,6 +31,11 @@ const ProfileScreen: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
 
+  const { data: recentFollowers = [], refetch: refetchFollowers } = useFollowersQuery({
+    userId: user?.id || '',
+    limit: 4,
+  });
+
   useEffect(() => {
     loadProfile();
   }, [user?.id]);
@@ -49,6 +56,7 @@ const ProfileScreen: React.FC = () => {
       if (response.success && response.profile) {
         setProfileData(response.profile);
       }
+      refetchFollowers();
     } catch (error) {
       console.error('Failed to load profile:', error);
     } finally {
@@ -65,6 +73,16 @@ const ProfileScreen: React.FC = () => {
     setShowLogoutModal(true);
   };
 
+  const handleInviteFriend = async () => {
+    try {
+      await Share.share({
+        message: 'Join me on OTW to discover venues and see where friends are heading!',
+      });
+    } catch (error) {
+      console.error('Failed to share invite:', error);
+    }
+  };
+
   const confirmLogout = async () => {
     setShowLogoutModal(false);
     await signOut();
@@ -234,6 +252,15 @@ const ProfileScreen: React.FC = () => {
             {user?.email || 'Loading...'}
           </Text>
 
+          {/* Followers */}
+          <View style={styles.followersContainer}>
+            <FollowersCard
+              followerCount={profileData?.followerCount || 0}
+              recentFollowers={recentFollowers}
+              onInvitePress={handleInviteFriend}
+            />
+          </View>
+
           {/* Stats Grid */}
           <StatsGrid stats={stats} />
 
@@ -347,6 +374,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 4,
   },
+  followersContainer: {
+    paddingHorizontal: 16,
+    marginTop: 24,
+  },
   statsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
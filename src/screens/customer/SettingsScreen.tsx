@@ -19,6 +19,8 @@ import { useNotificationPreferences } from '../../hooks';
 import { useFriendsQuery } from '../../hooks/queries/useFriendsQuery';
 import { PushPermissionService, PermissionStatus } from '../../services/PushPermissionService';
 import { ClaimService } from '../../services/api/flashOfferClaims';
+import { ModerationService } from '../../services/api/moderation';
+import { DataExportService } from '../../services/api/dataExport';
 import Icon from 'react-native-vector-icons/Ionicons';
 
 const SettingsScreen: React.FC = () => {
@@ -27,6 +29,7 @@ const SettingsScreen: React.FC = () => {
   const [pushPermissionStatus, setPushPermissionStatus] = useState<PermissionStatus>('not_determined');
   const [pushEnabled, setPushEnabled] = useState(false);
   const [activeClaimsCount, setActiveClaimsCount] = useState(0);
+  const [isExportingData, setIsExportingData] = useState(false);
 
   const { signOut, user } = useAuth();
   const { theme, themeMode, setThemeMode } = useTheme();
@@ -186,15 +189,21 @@ const SettingsScreen: React.FC = () => {
     );
   };
 
+  const handleDownloadData = async () => {
+    if (isExportingData) return;
+
+    setIsExportingData(true);
+    try {
+      await DataExportService.shareExport();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export your data');
+    } finally {
+      setIsExportingData(false);
+    }
+  };
+
   const handleDeleteAccount = () => {
-    Alert.alert(
-      'Delete Account',
-      'This action cannot be undone. Are you sure you want to delete your account?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Delete', style: 'destructive', onPress: () => console.log('Delete account pressed') },
-      ]
-    );
+    navigation.navigate('DeleteAccount');
   };
 
   const SettingItem = ({
@@ -354,6 +363,18 @@ const SettingsScreen: React.FC = () => {
             subtitle={activeClaimsCount > 0 ? `${activeClaimsCount} active claim${activeClaimsCount !== 1 ? 's' : ''}` : 'View your claimed offers'}
             onPress={() => navigation.navigate('MyClaims')}
           />
+          <SettingItem
+            icon="people"
+            title="Group Outings"
+            subtitle="Plans you've made or been invited to"
+            onPress={() => navigation.navigate('GroupOutings')}
+          />
+          <SettingItem
+            icon="person-add"
+            title="Follow Requests"
+            subtitle="Approve who can follow your private profile"
+            onPress={() => navigation.navigate('FollowRequests')}
+          />
           <SettingItem
             icon="help-circle"
             title="Flash Offers Help"
@@ -774,6 +795,27 @@ const SettingsScreen: React.FC = () => {
           )}
         </View>
 
+        {/* Admin tools */}
+        {ModerationService.isAdmin(user) && (
+          <>
+            <SectionHeader title="Admin" />
+            <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+              <SettingItem
+                icon="shield-checkmark"
+                title="Moderation Queue"
+                subtitle="Review reported reviews, photos and notifications"
+                onPress={() => navigation.navigate('ModerationQueue')}
+              />
+              <SettingItem
+                icon="storefront"
+                title="Venue Applications"
+                subtitle="Approve new venues and request more information"
+                onPress={() => navigation.navigate('VenueApplications')}
+              />
+            </View>
+          </>
+        )}
+
         {/* Support & Legal */}
         <SectionHeader title="Support & Legal" />
         <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
@@ -816,6 +858,12 @@ const SettingsScreen: React.FC = () => {
         {/* Account Actions */}
         <SectionHeader title="Account" />
         <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+          <SettingItem
+            icon="download"
+            title="Download My Data"
+            subtitle={isExportingData ? 'Preparing your archive...' : 'Get a copy of your data as JSON and CSV'}
+            onPress={handleDownloadData}
+          />
           <SettingItem
             icon="log-out"
             title="Logout"
@@ -0,0 +1,609 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { ModerationService } from '../../services/api/moderation';
+import { VenueApplicationService } from '../../services/venueApplicationService';
+import type {
+  VenueApplication,
+  VenueApplicationDecision,
+  VenueApplicationStatus,
+} from '../../services/venueApplicationService';
+import type { SettingsStackParamList } from '../../types/navigation.types';
+import { RESPONSIVE_SPACING } from '../../utils/responsive';
+
+const STATUS_FILTERS: { status: VenueApplicationStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'under_review', label: 'More Info' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_COLORS: Record<VenueApplicationStatus, string> = {
+  pending: '#FF9500',
+  under_review: '#007AFF',
+  approved: '#34C759',
+  rejected: '#FF3B30',
+};
+
+const DECISIONS: { decision: VenueApplicationDecision; label: string; color: string }[] = [
+  { decision: 'under_review', label: 'Request Info', color: '#007AFF' },
+  { decision: 'rejected', label: 'Reject', color: '#FF3B30' },
+  { decision: 'approved', label: 'Approve', color: '#34C759' },
+];
+
+const NOTE_PLACEHOLDERS: Record<VenueApplicationDecision, string> = {
+  under_review: 'What do you need from the applicant?',
+  rejected: 'Why is the application being rejected?',
+  approved: 'Optional welcome note',
+};
+
+const VenueApplicationsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList>>();
+  const isAdmin = ModerationService.isAdmin(user);
+
+  const [status, setStatus] = useState<VenueApplicationStatus>('pending');
+  const [applications, setApplications] = useState<VenueApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [activeReview, setActiveReview] = useState<{
+    applicationId: string;
+    decision: VenueApplicationDecision;
+  } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadApplications = useCallback(async () => {
+    setApplications(await VenueApplicationService.getAllApplications(status));
+  }, [status]);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setActiveReview(null);
+    loadApplications().finally(() => setIsLoading(false));
+  }, [isAdmin, loadApplications]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadApplications();
+    setIsRefreshing(false);
+  }, [loadApplications]);
+
+  const startReview = (application: VenueApplication, decision: VenueApplicationDecision) => {
+    setActiveReview({ applicationId: application.id, decision });
+    setNotes('');
+  };
+
+  const submitReview = async (application: VenueApplication, decision: VenueApplicationDecision) => {
+    setProcessingId(application.id);
+
+    const result = await VenueApplicationService.reviewApplication(application.id, decision, notes);
+
+    setProcessingId(null);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to review application');
+      return;
+    }
+
+    setActiveReview(null);
+    setApplications((current) => current.filter((queued) => queued.id !== application.id));
+
+    const messages: Record<VenueApplicationDecision, string> = {
+      under_review: `${application.owner_name} has been asked for more information.`,
+      rejected: `${application.owner_name} has been told the application was not approved.`,
+      approved: application.venue_id
+        ? `${application.owner_name} can now manage ${application.venue_name}.`
+        : `${application.venue_name} is now live and ${application.owner_name} can manage it.`,
+    };
+
+    Alert.alert(
+      decision === 'approved' ? 'Venue Approved' : 'Applicant Notified',
+      messages[decision]
+    );
+  };
+
+  const confirmReview = (application: VenueApplication, decision: VenueApplicationDecision) => {
+    if (decision !== 'approved' && !notes.trim()) {
+      Alert.alert('Add a Note', 'Tell the applicant what they need to know.');
+      return;
+    }
+
+    if (decision !== 'approved') {
+      submitReview(application, decision);
+      return;
+    }
+
+    const prompt = application.venue_id
+      ? `Make ${application.owner_name} the owner of the listed venue ${application.venue_name}?${
+        application.claim_verified_at ? '' : ' They have not verified ownership with a code.'
+      }`
+      : `Create ${application.venue_name} and make ${application.owner_name} its owner?`;
+
+    Alert.alert(
+      'Approve Venue',
+      prompt,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve', onPress: () => submitReview(application, decision) },
+      ]
+    );
+  };
+
+  const renderDetail = (icon: string, text: string | null) => {
+    if (!text) return null;
+
+    return (
+      <View style={styles.detailRow}>
+        <Icon name={icon} size={14} color={theme.colors.textSecondary} />
+        <Text
+          style={[styles.detailText, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}
+          numberOfLines={2}
+        >
+          {text}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderReviewForm = (application: VenueApplication, decision: VenueApplicationDecision) => {
+    const isProcessing = processingId === application.id;
+    const entry = DECISIONS.find((candidate) => candidate.decision === decision);
+
+    return (
+      <View style={[styles.reviewForm, { borderTopColor: theme.colors.border }]}>
+        <TextInput
+          style={[
+            styles.notesInput,
+            {
+              color: theme.colors.text,
+              borderColor: theme.colors.border,
+              backgroundColor: theme.colors.background,
+              fontFamily: theme.fonts.secondary.regular,
+            },
+          ]}
+          placeholder={NOTE_PLACEHOLDERS[decision]}
+          placeholderTextColor={theme.colors.textSecondary}
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+          maxLength={500}
+          editable={!isProcessing}
+        />
+        <View style={styles.actionRow}>
+          {isProcessing ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: theme.colors.border }]}
+                onPress={() => setActiveReview(null)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[styles.actionButtonText, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}
+                >
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: entry?.color, backgroundColor: entry?.color }]}
+                onPress={() => confirmReview(application, decision)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.actionButtonText, { color: '#fff', fontFamily: theme.fonts.secondary.semiBold }]}>
+                  {entry?.label}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderItem = ({ item }: { item: VenueApplication }) => {
+    const isReviewable = item.status === 'pending' || item.status === 'under_review';
+    const review = activeReview?.applicationId === item.id ? activeReview : null;
+    const statusLabel = STATUS_FILTERS.find((filter) => filter.status === item.status)?.label || item.status;
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+        <View style={styles.cardHeader}>
+          <Text
+            style={[styles.venueName, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}
+            numberOfLines={1}
+          >
+            {item.venue_name}
+          </Text>
+          <View style={[styles.badge, { backgroundColor: STATUS_COLORS[item.status] + '20' }]}>
+            <Text
+              style={[styles.badgeText, { color: STATUS_COLORS[item.status], fontFamily: theme.fonts.secondary.semiBold }]}
+            >
+              {statusLabel}
+            </Text>
+          </View>
+        </View>
+
+        {/* Claims on listed venues, and whether ownership was proven */}
+        {item.venue_id && (
+          <View style={styles.claimRow}>
+            <Icon
+              name={item.claim_verified_at ? 'shield-checkmark' : 'shield-outline'}
+              size={14}
+              color={item.claim_verified_at ? '#34C759' : '#FF9500'}
+            />
+            <Text
+              style={[
+                styles.claimText,
+                {
+                  color: item.claim_verified_at ? '#34C759' : '#FF9500',
+                  fontFamily: theme.fonts.secondary.semiBold,
+                },
+              ]}
+            >
+              {item.claim_verified_at
+                ? 'Claim on listed venue • Ownership code verified'
+                : 'Claim on listed venue • Not verified'}
+            </Text>
+          </View>
+        )}
+
+        <Text style={[styles.meta, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.medium }]}>
+          {item.venue_type} • Submitted {new Date(item.created_at).toLocaleDateString()}
+        </Text>
+
+        {renderDetail(
+          'location-outline',
+          [item.address, item.city, [item.state, item.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+        )}
+        {renderDetail('person-outline', `${item.owner_name} • ${item.owner_email}`)}
+        {renderDetail('call-outline', item.phone)}
+        {renderDetail('globe-outline', item.website)}
+
+        {item.description ? (
+          <Text
+            style={[styles.description, { color: theme.colors.text, fontFamily: theme.fonts.secondary.regular }]}
+            numberOfLines={4}
+          >
+            {item.description}
+          </Text>
+        ) : null}
+
+        {item.admin_notes ? (
+          <View style={[styles.notesBox, { backgroundColor: theme.colors.background }]}>
+            <Text
+              style={[styles.notesLabel, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.semiBold }]}
+            >
+              Admin notes
+            </Text>
+            <Text style={[styles.notesText, { color: theme.colors.text, fontFamily: theme.fonts.secondary.regular }]}>
+              {item.admin_notes}
+            </Text>
+          </View>
+        ) : null}
+
+        {isReviewable && review && renderReviewForm(item, review.decision)}
+
+        {isReviewable && !review && (
+          <View style={styles.actionRow}>
+            {DECISIONS.filter((entry) => !(item.status === 'under_review' && entry.decision === 'under_review')).map(
+              (entry) => (
+                <TouchableOpacity
+                  key={entry.decision}
+                  style={[styles.actionButton, { borderColor: entry.color }]}
+                  onPress={() => startReview(item, entry.decision)}
+                  disabled={processingId !== null}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[styles.actionButtonText, { color: entry.color, fontFamily: theme.fonts.secondary.semiBold }]}
+                  >
+                    {entry.label}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderMessage = (icon: string, title: string, subtitle?: string) => (
+    <View style={styles.messageContainer}>
+      <Icon name={icon} size={64} color={theme.colors.textSecondary} />
+      <Text style={[styles.messageTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.semiBold }]}>
+        {title}
+      </Text>
+      {subtitle && (
+        <Text
+          style={[styles.messageSubtitle, { color: theme.colors.textSecondary, fontFamily: theme.fonts.secondary.regular }]}
+        >
+          {subtitle}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!isAdmin) {
+      return renderMessage('lock-closed-outline', 'Admins Only', 'You do not have access to venue applications');
+    }
+
+    if (isLoading) {
+      return (
+        <View style={styles.messageContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={applications}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContent, applications.length === 0 && styles.emptyList]}
+        ListEmptyComponent={() =>
+          renderMessage('storefront-outline', 'No Applications', 'There are no applications with this status')
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+            colors={[theme.colors.primary]}
+          />
+        }
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Icon name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text, fontFamily: theme.fonts.secondary.bold }]}>
+          Venue Applications
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isAdmin && (
+        <View style={styles.filterRow}>
+          {STATUS_FILTERS.map((filter) => {
+            const isSelected = filter.status === status;
+
+            return (
+              <TouchableOpacity
+                key={filter.status}
+                style={[
+                  styles.filterChip,
+                  isSelected
+                    ? { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary }
+                    : { borderColor: theme.colors.border },
+                ]}
+                onPress={() => setStatus(filter.status)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.filterChipText,
+                    {
+                      color: isSelected ? '#fff' : theme.colors.text,
+                      fontFamily: theme.fonts.secondary.semiBold,
+                    },
+                  ]}
+                >
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingVertical: RESPONSIVE_SPACING.elementGap + 4,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: RESPONSIVE_SPACING.elementGap,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+    paddingBottom: 100,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  card: {
+    padding: RESPONSIVE_SPACING.elementGap + 4,
+    borderRadius: 12,
+    marginBottom: RESPONSIVE_SPACING.elementGap + 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  venueName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  claimRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  claimText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginTop: 10,
+  },
+  notesBox: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+  },
+  notesLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  notesText: {
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  reviewForm: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  notesInput: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    minHeight: 34,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: RESPONSIVE_SPACING.sectionHorizontal,
+  },
+  messageTitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap + 8,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  messageSubtitle: {
+    marginTop: RESPONSIVE_SPACING.elementGap,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
+
+export default VenueApplicationsScreen;
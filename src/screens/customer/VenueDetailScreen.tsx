@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -25,14 +25,17 @@ import { ModernVenueCards } from '../../components/venue/VenueInfoComponents';
 import { VenueCustomerCountChip, VenueCategoryBadge } from '../../components/ui';
 import { UserFeedback } from '../../components/checkin';
 import { CheckInButton } from '../../components/checkin';
-import { MutualFavoritesIndicator } from '../../components/social';
-import { AggregateRatingDisplay, ReviewSubmissionModal, ReviewCard } from '../../components/venue';
+import { MutualFavoritesIndicator, GroupOutingCreationModal } from '../../components/social';
+import { AggregateRatingDisplay, ReviewSubmissionModal, ReviewCard, ReviewPhotoGallery, VenueClaimModal } from '../../components/venue';
+import { useReviewReporting } from '../../hooks/useReviewReporting';
 import { ReviewService } from '../../services/api/reviews';
 import { FlashOfferService } from '../../services/api/flashOffers';
+import { VenueApplicationService } from '../../services/venueApplicationService';
+import type { VenueClaimInfo } from '../../services/venueApplicationService';
 import { FlashOfferCard, EmptyState } from '../../components/flashOffer';
 import { getActivityLevel } from '../../utils/formatting';
 import Icon from 'react-native-vector-icons/Ionicons';
-import type { Review, ReviewWithReviewer } from '../../types';
+import type { Review, ReviewPhoto, ReviewWithReviewer } from '../../types';
 import type { FlashOffer } from '../../types/flashOffer.types';
 import { useNavigation, NavigationProp } from '@react-navigation/native';
 
@@ -172,6 +175,7 @@ const VenueDetailScreen: React.FC = () => {
   const { venueId } = route.params;
   const { theme, isDark } = useTheme();
   const { user } = useAuth();
+  const { reportReview, reportPhoto } = useReviewReporting();
   const scrollViewRef = useRef<ScrollView>(null);
 
   // Use React Query hooks for data management
@@ -182,15 +186,21 @@ const VenueDetailScreen: React.FC = () => {
 
   const [userReview, setUserReview] = useState<Review | null>(null);
   const [reviewModalVisible, setReviewModalVisible] = useState(false);
+  const [outingModalVisible, setOutingModalVisible] = useState(false);
   const [loadingUserReview, setLoadingUserReview] = useState(false);
   const [recentReviews, setRecentReviews] = useState<ReviewWithReviewer[]>([]);
   const [loadingReviews, setLoadingReviews] = useState(false);
+  const [reviewPhotos, setReviewPhotos] = useState<ReviewPhoto[]>([]);
   const [refreshing, setRefreshing] = useState(false);
 
   // Flash offers state
   const [flashOffers, setFlashOffers] = useState<FlashOffer[]>([]);
   const [loadingFlashOffers, setLoadingFlashOffers] = useState(false);
 
+  // Venue claim state
+  const [claimInfo, setClaimInfo] = useState<VenueClaimInfo | null>(null);
+  const [claimModalVisible, setClaimModalVisible] = useState(false);
+
   // Use useCheckInStats hook for check-in statistics
   const { stats, refetch: refetchCheckInStats } = useCheckInStats({
     venueIds: venueId,
@@ -258,6 +268,15 @@ const VenueDetailScreen: React.FC = () => {
     fetchRecentReviews();
   }, [venueId]);
 
+  // Fetch recent photos from reviews
+  useEffect(() => {
+    if (!venueId) return;
+
+    ReviewService.getVenueReviewPhotos(venueId)
+      .then(setReviewPhotos)
+      .catch((error) => console.error('Error fetching review photos:', error));
+  }, [venueId]);
+
   // Fetch active flash offers for this venue
   useEffect(() => {
     const fetchFlashOffers = async () => {
@@ -277,6 +296,16 @@ const VenueDetailScreen: React.FC = () => {
     fetchFlashOffers();
   }, [venueId]);
 
+  // Check whether the user can claim this venue
+  const fetchClaimStatus = useCallback(async () => {
+    if (!user?.id || !venueId) return;
+    setClaimInfo(await VenueApplicationService.getClaimStatus(venueId));
+  }, [user?.id, venueId]);
+
+  useEffect(() => {
+    fetchClaimStatus();
+  }, [fetchClaimStatus]);
+
   // Review handlers
   const handleOpenReviewModal = () => {
     setReviewModalVisible(true);
@@ -317,6 +346,13 @@ const VenueDetailScreen: React.FC = () => {
     } catch (error) {
       console.error('Error refreshing recent reviews:', error);
     }
+
+    // Refresh review photos
+    try {
+      setReviewPhotos(await ReviewService.getVenueReviewPhotos(venueId));
+    } catch (error) {
+      console.error('Error refreshing review photos:', error);
+    }
   };
 
   const handleSeeAllReviews = () => {
@@ -389,6 +425,13 @@ const VenueDetailScreen: React.FC = () => {
       } catch (error) {
         console.error('Error refreshing recent reviews:', error);
       }
+
+      // Refresh review photos
+      try {
+        setReviewPhotos(await ReviewService.getVenueReviewPhotos(venueId));
+      } catch (error) {
+        console.error('Error refreshing review photos:', error);
+      }
       
       // Refresh flash offers
       try {
@@ -572,6 +615,20 @@ const VenueDetailScreen: React.FC = () => {
               />
             )}
           </View>
+
+          {/* Row 6: Plan a group outing with friends */}
+          {user && (
+            <TouchableOpacity
+              style={[styles.planOutingButton, { borderColor: theme.colors.primary }]}
+              onPress={() => setOutingModalVisible(true)}
+              activeOpacity={0.7}
+            >
+              <Icon name="people-outline" size={20} color={theme.colors.primary} />
+              <Text style={[styles.planOutingButtonText, { color: theme.colors.primary }]}>
+                Plan an Outing
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Flash Offers Section */}
@@ -645,6 +702,20 @@ const VenueDetailScreen: React.FC = () => {
                 <Text style={[styles.contactText, { color: theme.colors.text }]}>{venue.website}</Text>
               </TouchableOpacity>
             )}
+            {claimInfo?.status === 'claimable' && (
+              <TouchableOpacity style={[styles.contactItem, { borderBottomColor: theme.colors.border }]} onPress={() => setClaimModalVisible(true)}>
+                <Icon name="storefront" size={20} color={theme.colors.primary} />
+                <Text style={[styles.contactText, { color: theme.colors.primary }]}>Own this venue? Claim it</Text>
+              </TouchableOpacity>
+            )}
+            {claimInfo?.status === 'own_claim' && (
+              <TouchableOpacity style={[styles.contactItem, { borderBottomColor: theme.colors.border }]} onPress={() => setClaimModalVisible(true)}>
+                <Icon name="time-outline" size={20} color={theme.colors.primary} />
+                <Text style={[styles.contactText, { color: theme.colors.text }]}>
+                  {claimInfo.verified ? 'Your claim is waiting for review' : 'Finish verifying your claim'}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {venue.hours && Object.keys(venue.hours).length > 0 && (
@@ -682,6 +753,21 @@ const VenueDetailScreen: React.FC = () => {
             )}
           </View>
 
+          {/* Photos from Reviews */}
+          {reviewPhotos.length > 0 && (
+            <View style={styles.reviewPhotosSection}>
+              <Text style={[styles.reviewPhotosTitle, { color: theme.colors.textSecondary }]}>
+                Photos from Reviews
+              </Text>
+              <ReviewPhotoGallery
+                photos={reviewPhotos}
+                onReportPhoto={user ? reportPhoto : undefined}
+                currentUserId={user?.id}
+                thumbnailSize={96}
+              />
+            </View>
+          )}
+
           {loadingReviews ? (
             <View style={styles.reviewsLoading}>
               <ActivityIndicator size="small" color={theme.colors.primary} />
@@ -729,6 +815,12 @@ const VenueDetailScreen: React.FC = () => {
                       }
                       : undefined
                   }
+                  onReport={
+                    user?.id && review.user_id !== user.id
+                      ? () => reportReview(review.id)
+                      : undefined
+                  }
+                  onReportPhoto={user ? reportPhoto : undefined}
                   currentUserId={user?.id}
                 />
               ))}
@@ -773,6 +865,28 @@ const VenueDetailScreen: React.FC = () => {
           onSubmitSuccess={handleReviewSubmitSuccess}
         />
       )}
+
+      {/* Venue Claim Modal */}
+      {user && venue && claimInfo && (
+        <VenueClaimModal
+          visible={claimModalVisible}
+          onClose={() => setClaimModalVisible(false)}
+          venueId={venue.id}
+          venueName={venue.name}
+          claimInfo={claimInfo}
+          onClaimUpdated={fetchClaimStatus}
+        />
+      )}
+
+      {/* Group Outing Creation Modal */}
+      {user && venue && (
+        <GroupOutingCreationModal
+          visible={outingModalVisible}
+          onClose={() => setOutingModalVisible(false)}
+          venueId={venue.id}
+          venueName={venue.name}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -837,6 +951,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 10
   },
+  planOutingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    gap: 6,
+  },
+  planOutingButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
   modernContentContainer: {
     marginHorizontal: 15,
     marginVertical: 5,
@@ -990,6 +1118,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-SemiBold',
   },
+  reviewPhotosSection: {
+    marginBottom: 16,
+  },
+  reviewPhotosTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
   reviewsLoading: {
     paddingVertical: 20,
     alignItems: 'center',
@@ -12,5 +12,11 @@ export { default as MyClaimsScreen } from './MyClaimsScreen';
 export { default as ClaimDetailScreen } from './ClaimDetailScreen';
 export { default as FlashOfferDetailScreen } from './FlashOfferDetailScreen';
 export { default as ClaimConfirmationScreen } from './ClaimConfirmationScreen';
+export { default as GroupOutingsScreen } from './GroupOutingsScreen';
+export { default as GroupOutingDetailScreen } from './GroupOutingDetailScreen';
+export { default as FollowRequestsScreen } from './FollowRequestsScreen';
+export { default as ModerationQueueScreen } from './ModerationQueueScreen';
+export { default as VenueApplicationsScreen } from './VenueApplicationsScreen';
+export { default as DeleteAccountScreen } from './DeleteAccountScreen';
 export { NotificationDebugScreen } from './NotificationDebugScreen';
 export { DebugLogsScreen } from './DebugLogsScreen';
@@ -12,14 +12,25 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { FlashOfferService, type FlashOfferWithStats } from '../../services/api/flashOffers';
-import { FlashOfferAnalyticsService, type FlashOfferAnalytics } from '../../services/api/flashOfferAnalytics';
+import {
+  FlashOfferAnalyticsService,
+  type FlashOfferAnalytics,
+  type FlashOfferFunnelReport,
+} from '../../services/api/flashOfferAnalytics';
 import { type FlashOfferClaim } from '../../services/api/flashOfferClaims';
 import { supabase } from '../../lib/supabase';
 import { DetailScreenSkeleton } from '../../components/flashOffer/SkeletonLoaders';
+import { CloneOfferModal, getCloneTargetAccounts } from '../../components/venue/CloneOfferModal';
+import { FlashOfferFunnelChart } from '../../components/venue/FlashOfferFunnelChart';
+import { VenueBusinessService } from '../../services/venueBusinessService';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { formatCurrency } from '../../utils/currency';
 
+/** Check-ins within this many hours of engaging count as offer visits */
+const FUNNEL_CHECK_IN_WINDOW_HOURS = 3;
+
 type FlashOfferDetailScreenProps = {
   navigation: any;
   route: any;
@@ -27,13 +38,16 @@ type FlashOfferDetailScreenProps = {
 
 const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigation, route }) => {
   const { theme, isDark } = useTheme();
+  const { venueBusinessAccount, venueBusinessAccounts } = useAuth();
   const { offerId } = route.params;
   const [offer, setOffer] = useState<FlashOfferWithStats | null>(null);
   const [analytics, setAnalytics] = useState<FlashOfferAnalytics | null>(null);
+  const [funnel, setFunnel] = useState<FlashOfferFunnelReport | null>(null);
   const [claims, setClaims] = useState<FlashOfferClaim[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [cancelling, setCancelling] = useState(false);
+  const [cloneModalVisible, setCloneModalVisible] = useState(false);
 
   const loadOfferDetails = useCallback(async () => {
     try {
@@ -44,6 +58,19 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
       const analyticsData = await FlashOfferAnalyticsService.getOfferAnalytics(offerId);
       setAnalytics(analyticsData);
 
+      // Funnel report is supplementary; keep the screen usable if it fails
+      try {
+        const funnelData = await FlashOfferAnalyticsService.getFunnelReport(offerData.venue_id, {
+          from: new Date(offerData.start_time),
+          to: new Date(offerData.end_time),
+          offerId,
+          checkInWindowHours: FUNNEL_CHECK_IN_WINDOW_HOURS,
+        });
+        setFunnel(funnelData.offers[0] ?? null);
+      } catch (funnelError) {
+        console.error('Error loading funnel report:', funnelError);
+      }
+
       // Load claims for this offer
       const { data: claimsData, error: claimsError } = await supabase
         .from('flash_offer_claims')
@@ -486,6 +513,30 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
           </View>
         )}
 
+        {/* Conversion Funnel */}
+        {funnel && (
+          <View
+            style={[
+              styles.analyticsCard,
+              {
+                backgroundColor: theme.colors.surface,
+                borderColor: theme.colors.border,
+              },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Conversion Funnel
+            </Text>
+            <FlashOfferFunnelChart
+              funnel={funnel}
+              checkInWindowHours={FUNNEL_CHECK_IN_WINDOW_HOURS}
+              showAttribution={VenueBusinessService.getSubscriptionLimits(
+                venueBusinessAccount?.subscription_tier || 'free'
+              ).features.includes('revenue_attribution')}
+            />
+          </View>
+        )}
+
         {/* Time & Claims Info */}
         <View
           style={[
@@ -563,6 +614,22 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
           </View>
         )}
 
+        {/* Copy to Other Locations */}
+        {offer.status !== 'cancelled' && getCloneTargetAccounts(venueBusinessAccounts, offer).length > 0 && (
+          <TouchableOpacity
+            style={[
+              styles.copyButton,
+              { backgroundColor: theme.colors.surface, borderColor: theme.colors.primary },
+            ]}
+            onPress={() => setCloneModalVisible(true)}
+          >
+            <Icon name="copy-outline" size={20} color={theme.colors.primary} />
+            <Text style={[styles.copyButtonText, { color: theme.colors.primary }]}>
+              Copy to Other Locations
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Cancel Button */}
         {offer.status === 'active' && (
           <TouchableOpacity
@@ -587,6 +654,12 @@ const FlashOfferDetailScreen: React.FC<FlashOfferDetailScreenProps> = ({ navigat
           </TouchableOpacity>
         )}
       </ScrollView>
+
+      <CloneOfferModal
+        visible={cloneModalVisible}
+        onClose={() => setCloneModalVisible(false)}
+        offer={offer}
+      />
     </SafeAreaView>
   );
 };
@@ -788,6 +861,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'Inter-SemiBold',
   },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+    marginTop: 8,
+  },
+  copyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Inter-SemiBold',
+  },
   cancelButton: {
     flexDirection: 'row',
     alignItems: 'center',
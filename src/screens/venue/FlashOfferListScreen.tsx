@@ -7,14 +7,21 @@ import {
   TouchableOpacity,
   RefreshControl,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { FlashOfferService, type FlashOffer, type FlashOfferStatus } from '../../services/api/flashOffers';
-import { FlashOfferCreationModal } from '../../components/venue';
+import {
+  FlashOfferCreationModal,
+  FlashOfferEditModal,
+  FlashOfferFunnelModal,
+  FlashOfferRecurrenceModal,
+} from '../../components/venue';
 import { OfferListItemSkeleton } from '../../components/flashOffer/SkeletonLoaders';
 import { FlashOfferAnalyticsService } from '../../services/api/flashOfferAnalytics';
+import { FlashOfferTemplateService } from '../../services/api/flashOfferTemplates';
 import Icon from 'react-native-vector-icons/Ionicons';
 
 type FlashOfferListScreenProps = {
@@ -42,6 +49,9 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
+  const [recurrenceModalVisible, setRecurrenceModalVisible] = useState(false);
+  const [funnelModalVisible, setFunnelModalVisible] = useState(false);
+  const [editingOffer, setEditingOffer] = useState<FlashOffer | null>(null);
 
   const venueId = venueBusinessAccount?.venues?.id;
 
@@ -126,6 +136,28 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
     return `${minutes}m`;
   };
 
+  const handleSkipOccurrence = (offer: FlashOffer) => {
+    Alert.alert(
+      'Skip Offer',
+      `Skip "${offer.title}" on ${new Date(offer.start_time).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FlashOfferTemplateService.skipOccurrence(offer.id);
+              loadOffers();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to skip offer.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const getStatusColor = (status: FlashOfferStatus): string => {
     switch (status) {
       case 'active':
@@ -220,6 +252,19 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
               </Text>
             </View>
           </View>
+          {item.status === 'scheduled' && (
+            <View style={styles.scheduleRow}>
+              <Text style={[styles.scheduleText, { color: theme.colors.textSecondary }]}>
+                Starts {new Date(item.start_time).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+              </Text>
+              {item.recurrence_id && (
+                <View style={[styles.statusBadge, { backgroundColor: theme.colors.primary + '20' }]}>
+                  <Icon name="repeat" size={12} color={theme.colors.primary} />
+                  <Text style={[styles.statusText, { color: theme.colors.primary }]}>REPEATS</Text>
+                </View>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Description */}
@@ -297,6 +342,20 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
           </View>
         )}
 
+        {/* Scheduled Offer Actions */}
+        {item.status === 'scheduled' && (
+          <View style={[styles.occurrenceActions, { borderTopColor: theme.colors.border }]}>
+            <TouchableOpacity style={styles.occurrenceAction} onPress={() => setEditingOffer(item)}>
+              <Icon name="create-outline" size={16} color={theme.colors.primary} />
+              <Text style={[styles.occurrenceActionText, { color: theme.colors.primary }]}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.occurrenceAction} onPress={() => handleSkipOccurrence(item)}>
+              <Icon name="play-skip-forward-outline" size={16} color="#F44336" />
+              <Text style={[styles.occurrenceActionText, { color: '#F44336' }]}>Skip</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Chevron */}
         <View style={styles.chevronContainer}>
           <Icon name="chevron-forward" size={20} color={theme.colors.textSecondary} />
@@ -364,12 +423,17 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
           <Icon name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Flash Offers</Text>
-        <TouchableOpacity
-          onPress={() => setModalVisible(true)}
-          style={styles.headerRight}
-        >
-          <Icon name="add" size={24} color={theme.colors.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => setFunnelModalVisible(true)}>
+            <Icon name="funnel-outline" size={24} color={theme.colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setRecurrenceModalVisible(true)}>
+            <Icon name="repeat" size={24} color={theme.colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setModalVisible(true)}>
+            <Icon name="add" size={24} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Offer List */}
@@ -403,6 +467,27 @@ const FlashOfferListScreen: React.FC<FlashOfferListScreenProps> = ({ navigation
           loadOffers();
         }}
       />
+
+      {/* Recurring Offers Modal */}
+      <FlashOfferRecurrenceModal
+        visible={recurrenceModalVisible}
+        onClose={() => setRecurrenceModalVisible(false)}
+        onSuccess={loadOffers}
+      />
+
+      {/* Conversion Funnel Report */}
+      <FlashOfferFunnelModal
+        visible={funnelModalVisible}
+        onClose={() => setFunnelModalVisible(false)}
+      />
+
+      {/* Scheduled Offer Edit Modal */}
+      <FlashOfferEditModal
+        visible={editingOffer !== null}
+        offer={editingOffer}
+        onClose={() => setEditingOffer(null)}
+        onSuccess={loadOffers}
+      />
     </SafeAreaView>
   );
 };
@@ -435,6 +520,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'flex-end',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -497,6 +587,15 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     letterSpacing: 0.5,
   },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  scheduleText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
   offerDescription: {
     fontSize: 14,
     fontFamily: 'Inter-Regular',
@@ -539,6 +638,25 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'Inter-SemiBold',
   },
+  occurrenceActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    paddingRight: 30,
+  },
+  occurrenceAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  occurrenceActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: 'Inter-SemiBold',
+  },
   chevronContainer: {
     position: 'absolute',
     right: 16,
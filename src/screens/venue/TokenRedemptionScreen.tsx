@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,42 +12,106 @@ import {
   ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import NetInfo from '@react-native-community/netinfo';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { ClaimService, type FlashOfferClaim } from '../../services/api/flashOfferClaims';
+import { VenueBusinessService } from '../../services/venueBusinessService';
+import { FlashOfferCache, type RedemptionConflict } from '../../utils/cache/FlashOfferCache';
 import { detectRaceCondition } from '../../utils/errors/RaceConditionHandler';
 import { triggerSuccessHaptic, triggerLightHaptic, triggerErrorHaptic } from '../../utils/haptics';
 import { HelpText } from '../../components/shared';
+import { ClaimQrScanner } from '../../components/venue/ClaimQrScanner';
 import Icon from 'react-native-vector-icons/Ionicons';
 
 type TokenRedemptionScreenProps = {
   navigation: any;
 };
 
+type RedemptionMode = 'qr' | 'token';
+
 const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigation }) => {
   const { theme, isDark } = useTheme();
   const { venueBusinessAccount, user } = useAuth();
+  const [mode, setMode] = useState<RedemptionMode>('qr');
   const [token, setToken] = useState('');
   const [validating, setValidating] = useState(false);
   const [redeeming, setRedeeming] = useState(false);
+  const [reversing, setReversing] = useState(false);
   const [claim, setClaim] = useState<FlashOfferClaim | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [redeemSuccess, setRedeemSuccess] = useState(false);
   const [redeemError, setRedeemError] = useState<string | null>(null);
+  const [redeemedOffline, setRedeemedOffline] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [snapshotTime, setSnapshotTime] = useState<number | null>(null);
+  const [conflicts, setConflicts] = useState<RedemptionConflict[]>([]);
   
   const inputRef = useRef<TextInput>(null);
   const shakeAnimation = useRef(new Animated.Value(0)).current;
 
   const venueId = venueBusinessAccount?.venues?.id;
 
+  // Staff redeem tokens; undoing a redemption needs a manager
+  const teamRole = VenueBusinessService.getTeamRole(venueBusinessAccount, user?.id);
+  const canUndoRedemption = VenueBusinessService.hasPermission(teamRole, 'manage_offers');
+
   useEffect(() => {
-    // Auto-focus the input when screen loads
+    // Auto-focus the input when switching to token entry
+    if (mode !== 'token') {
+      return;
+    }
+
     const timer = setTimeout(() => {
       inputRef.current?.focus();
     }, 300);
 
     return () => clearTimeout(timer);
-  }, []);
+  }, [mode]);
+
+  // Load this venue's queued redemptions, conflicts and offline snapshot age
+  const refreshOfflineStatus = useCallback(async () => {
+    if (!venueId) {
+      return;
+    }
+
+    const [pending, storedConflicts, snapshot] = await Promise.all([
+      FlashOfferCache.getPendingRedemptions(),
+      FlashOfferCache.getRedemptionConflicts(),
+      FlashOfferCache.getCachedVenueClaims(venueId),
+    ]);
+
+    setPendingCount(pending.filter((item) => item.venueId === venueId).length);
+    setConflicts(storedConflicts.filter((conflict) => conflict.venueId === venueId));
+    setSnapshotTime(snapshot?.timestamp ?? null);
+  }, [venueId]);
+
+  useEffect(() => {
+    if (!venueId) {
+      return;
+    }
+
+    // Fires immediately with the current state, then on every change
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const offline = state.isConnected === false;
+      setIsOffline(offline);
+
+      if (offline) {
+        refreshOfflineStatus();
+        return;
+      }
+
+      // Online: send anything queued and refresh the offline snapshot
+      ClaimService.syncPendingRedemptions()
+        .catch((err) => console.error('Error syncing offline redemptions:', err))
+        .then(() => ClaimService.prefetchVenueClaims(venueId))
+        .catch((err) => console.warn('Failed to prefetch venue claims:', err))
+        .finally(refreshOfflineStatus);
+    });
+
+    return unsubscribe;
+  }, [venueId, refreshOfflineStatus]);
 
   const formatToken = (value: string): string => {
     // Remove non-numeric characters
@@ -100,6 +164,87 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
     ]).start();
   };
 
+  // Check a looked-up claim's status and show it if it can be redeemed
+  const showFoundClaim = (foundClaim: FlashOfferClaim | null, notFoundMessage: string) => {
+    if (!foundClaim) {
+      setError(notFoundMessage);
+      shakeInput();
+      setClaim(null);
+      return;
+    }
+
+    // Check claim status
+    if (foundClaim.status === 'redeemed') {
+      setError('This token has already been redeemed.');
+      shakeInput();
+      setClaim(null);
+      return;
+    }
+
+    if (foundClaim.status === 'expired') {
+      setError('This token has expired.');
+      shakeInput();
+      setClaim(null);
+      return;
+    }
+
+    // Check if token is expired by time
+    if (new Date(foundClaim.expires_at) < new Date()) {
+      setError('This token has expired.');
+      shakeInput();
+      setClaim(null);
+      return;
+    }
+
+    // Token is valid, show claim details
+    // Trigger success haptic feedback for valid token
+    triggerSuccessHaptic();
+    setClaim(foundClaim);
+    setError(null);
+  };
+
+  // Verify a scanned or pasted QR payload server-side, then show the claim
+  const handleQrPayload = async (payload: string) => {
+    if (!venueId) {
+      setError('Venue information not available');
+      return;
+    }
+
+    if (!ClaimService.isClaimQrPayload(payload)) {
+      setError("This isn't a claim QR code. Ask the customer to open their claim.");
+      shakeInput();
+      return;
+    }
+
+    // The signature can only be checked by the server
+    if (isOffline) {
+      setError("QR codes can't be verified offline. Enter the customer's token instead.");
+      shakeInput();
+      return;
+    }
+
+    triggerLightHaptic();
+    setValidating(true);
+    setError(null);
+
+    try {
+      const foundClaim = await ClaimService.verifyClaimQrPayload(venueId, payload);
+      showFoundClaim(foundClaim, 'Claim not found. Ask the customer to refresh their claim.');
+    } catch (err) {
+      console.error('Error verifying QR code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify QR code. Please try again.');
+      shakeInput();
+      setClaim(null);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleModeChange = (nextMode: RedemptionMode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
   const handleValidateToken = async () => {
     if (!venueId) {
       setError('Venue information not available');
@@ -123,44 +268,22 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
       // Format token with leading zeros
       const formattedToken = token.padStart(6, '0');
       
-      // Validate token with API
-      const foundClaim = await ClaimService.getClaimByToken(venueId, formattedToken);
-
-      if (!foundClaim) {
-        setError('Token not found. Please check and try again.');
-        shakeInput();
-        setClaim(null);
-        return;
-      }
-
-      // Check claim status
-      if (foundClaim.status === 'redeemed') {
-        setError('This token has already been redeemed.');
-        shakeInput();
-        setClaim(null);
-        return;
-      }
-
-      if (foundClaim.status === 'expired') {
-        setError('This token has expired.');
-        shakeInput();
-        setClaim(null);
+      if (isOffline) {
+        // Validate against the claims saved on this device
+        const cachedClaim = await ClaimService.getCachedClaimByToken(venueId, formattedToken);
+        showFoundClaim(
+          cachedClaim,
+          snapshotTime
+            ? "Token not found in this device's offline list. Check the token or try again once back online."
+            : "You're offline and no claims are saved on this device. Try again once back online."
+        );
         return;
       }
 
-      // Check if token is expired by time
-      if (new Date(foundClaim.expires_at) < new Date()) {
-        setError('This token has expired.');
-        shakeInput();
-        setClaim(null);
-        return;
-      }
+      // Validate token with API
+      const foundClaim = await ClaimService.getClaimByToken(venueId, formattedToken);
 
-      // Token is valid, show claim details
-      // Trigger success haptic feedback for valid token
-      triggerSuccessHaptic();
-      setClaim(foundClaim);
-      setError(null);
+      showFoundClaim(foundClaim, 'Token not found. Please check and try again.');
     } catch (err) {
       console.error('Error validating token:', err);
       
@@ -194,18 +317,24 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
     setRedeemSuccess(false);
 
     try {
-      await ClaimService.redeemClaim(claim.id, user.id);
+      if (isOffline && venueId) {
+        const queuedClaim = await ClaimService.queueOfflineRedemption(claim, venueId, user.id);
+        triggerSuccessHaptic();
+        setClaim(queuedClaim);
+        setRedeemedOffline(true);
+        setRedeemSuccess(true);
+        refreshOfflineStatus();
+        return;
+      }
+
+      const redeemedClaim = await ClaimService.redeemClaim(claim.id, user.id);
       
       // Trigger success haptic feedback for successful redemption
       triggerSuccessHaptic();
       
-      // Show success state
+      // Show success state; staff stay here so a mistaken redemption can be undone
+      setClaim(redeemedClaim);
       setRedeemSuccess(true);
-      
-      // Navigate back after a short delay to show success state
-      setTimeout(() => {
-        navigation.goBack();
-      }, 2000);
     } catch (err) {
       console.error('Error redeeming claim:', err);
       
@@ -235,12 +364,55 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
     }
   };
 
+  const handleUndoRedemption = () => {
+    if (!claim) {
+      return;
+    }
+
+    Alert.alert(
+      'Undo Redemption?',
+      'The claim will become active again so the customer can use it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Undo',
+          style: 'destructive',
+          onPress: async () => {
+            setReversing(true);
+
+            try {
+              const reversedClaim = await ClaimService.reverseRedemption(claim.id);
+              triggerSuccessHaptic();
+              setClaim(reversedClaim);
+              setRedeemSuccess(false);
+            } catch (err) {
+              console.error('Error undoing redemption:', err);
+              triggerErrorHaptic();
+              Alert.alert(
+                'Undo Failed',
+                err instanceof Error ? err.message : 'Failed to undo redemption'
+              );
+            } finally {
+              setReversing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismissConflicts = async () => {
+    await FlashOfferCache.clearRedemptionConflicts(venueId);
+    refreshOfflineStatus();
+  };
+
   const handleClear = () => {
     setToken('');
     setClaim(null);
     setError(null);
     setRedeemSuccess(false);
     setRedeemError(null);
+    setRedeemedOffline(false);
     inputRef.current?.focus();
   };
 
@@ -277,7 +449,7 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Icon name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
-        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Redeem Token</Text>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Redeem Claim</Text>
         <View style={styles.headerRight} />
       </View>
 
@@ -286,54 +458,150 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
         contentContainerStyle={styles.content}
         keyboardShouldPersistTaps="handled"
       >
+        {/* Offline Banner */}
+        {(isOffline || pendingCount > 0) && (
+          <View style={[styles.offlineBanner, { backgroundColor: '#FF9800' + '20' }]}>
+            <Icon
+              name={isOffline ? 'cloud-offline-outline' : 'sync-outline'}
+              size={20}
+              color="#FF9800"
+            />
+            <Text style={[styles.offlineBannerText, { color: theme.colors.text }]}>
+              {isOffline
+                ? snapshotTime
+                  ? `Offline. Checking tokens against claims saved at ${formatDate(new Date(snapshotTime).toISOString())}.`
+                  : 'Offline. No claims are saved on this device, so tokens can\'t be checked.'
+                : 'Syncing redemptions made while offline...'}
+              {pendingCount > 0 &&
+                ` ${pendingCount} redemption${pendingCount === 1 ? '' : 's'} waiting to sync.`}
+            </Text>
+          </View>
+        )}
+
+        {/* Sync Conflicts */}
+        {conflicts.length > 0 && (
+          <View style={[styles.conflictsContainer, { backgroundColor: '#F44336' + '20' }]}>
+            <View style={styles.conflictsHeader}>
+              <Icon name="warning-outline" size={20} color="#F44336" />
+              <Text style={[styles.conflictsTitle, { color: '#F44336' }]}>
+                {conflicts.length === 1
+                  ? '1 offline redemption was rejected'
+                  : `${conflicts.length} offline redemptions were rejected`}
+              </Text>
+            </View>
+            {conflicts.map((conflict) => (
+              <Text
+                key={`${conflict.claimId}-${conflict.detectedAt}`}
+                style={[styles.conflictText, { color: theme.colors.text }]}
+              >
+                {conflict.token} ({formatDate(conflict.redeemedAt)}):{' '}
+                {ClaimService.getRedemptionConflictMessage(conflict)}
+              </Text>
+            ))}
+            <TouchableOpacity onPress={handleDismissConflicts} style={styles.conflictsDismiss}>
+              <Text style={[styles.conflictsDismissText, { color: theme.colors.primary }]}>
+                Dismiss
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Mode Toggle */}
+        {!claim && (
+          <View style={[styles.modeToggle, { backgroundColor: theme.colors.surface }]}>
+            {(['qr', 'token'] as RedemptionMode[]).map((option) => {
+              const selected = mode === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.modeOption, selected && { backgroundColor: theme.colors.primary }]}
+                  onPress={() => handleModeChange(option)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Icon
+                    name={option === 'qr' ? 'qr-code-outline' : 'keypad-outline'}
+                    size={18}
+                    color={selected ? '#fff' : theme.colors.textSecondary}
+                  />
+                  <Text
+                    style={[
+                      styles.modeOptionText,
+                      { color: selected ? '#fff' : theme.colors.textSecondary },
+                    ]}
+                  >
+                    {option === 'qr' ? 'Scan QR' : 'Enter Token'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
         {/* Instructions */}
         <View style={styles.instructionsContainer}>
           <Icon name="information-circle-outline" size={24} color={theme.colors.primary} />
           <Text style={[styles.instructionsText, { color: theme.colors.textSecondary }]}>
-            Enter the 6-digit token shown on the customer's device
+            {mode === 'qr'
+              ? "Scan the QR code shown on the customer's claim"
+              : "Enter the 6-digit token shown on the customer's device"}
           </Text>
         </View>
 
-        <HelpText
-          text="Tokens are case-sensitive and must be entered exactly as shown. Leading zeros are important!"
-          type="info"
-        />
+        {mode === 'qr' ? (
+          <HelpText
+            text="QR codes refresh every 30 seconds, so screenshots won't scan. Use the token if the customer can't show a live code."
+            type="info"
+          />
+        ) : (
+          <HelpText
+            text="Tokens are case-sensitive and must be entered exactly as shown. Leading zeros are important!"
+            type="info"
+          />
+        )}
+
+        {/* QR Scanner */}
+        {mode === 'qr' && !claim && (
+          <ClaimQrScanner onPayload={handleQrPayload} verifying={validating} />
+        )}
 
         {/* Token Input */}
-        <Animated.View
-          style={[
-            styles.tokenInputContainer,
-            {
-              backgroundColor: theme.colors.surface,
-              borderColor: error ? '#F44336' : theme.colors.border,
-              transform: [{ translateX: shakeAnimation }],
-            },
-          ]}
-        >
-          <TextInput
-            ref={inputRef}
+        {mode === 'token' && (
+          <Animated.View
             style={[
-              styles.tokenInput,
+              styles.tokenInputContainer,
               {
-                color: theme.colors.text,
+                backgroundColor: theme.colors.surface,
+                borderColor: error ? '#F44336' : theme.colors.border,
+                transform: [{ translateX: shakeAnimation }],
               },
             ]}
-            value={token}
-            onChangeText={handleTokenChange}
-            placeholder="000000"
-            placeholderTextColor={theme.colors.textSecondary + '60'}
-            keyboardType="number-pad"
-            maxLength={6}
-            autoFocus
-            selectTextOnFocus
-            editable={!validating && !claim}
-          />
-          {token.length > 0 && !claim && (
-            <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
-              <Icon name="close-circle" size={24} color={theme.colors.textSecondary} />
-            </TouchableOpacity>
-          )}
-        </Animated.View>
+          >
+            <TextInput
+              ref={inputRef}
+              style={[
+                styles.tokenInput,
+                {
+                  color: theme.colors.text,
+                },
+              ]}
+              value={token}
+              onChangeText={handleTokenChange}
+              placeholder="000000"
+              placeholderTextColor={theme.colors.textSecondary + '60'}
+              keyboardType="number-pad"
+              maxLength={6}
+              autoFocus
+              selectTextOnFocus
+              editable={!validating && !claim}
+            />
+            {token.length > 0 && !claim && (
+              <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
+                <Icon name="close-circle" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </Animated.View>
+        )}
 
         {/* Error Message */}
         {error && (
@@ -344,7 +612,7 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
         )}
 
         {/* Validate Button */}
-        {!claim && (
+        {mode === 'token' && !claim && (
           <TouchableOpacity
             style={[
               styles.validateButton,
@@ -396,7 +664,14 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
             {redeemSuccess ? (
               <View style={[styles.successHeader, { backgroundColor: '#4CAF50' + '20' }]}>
                 <Icon name="checkmark-circle" size={32} color="#4CAF50" />
-                <Text style={[styles.successTitle, { color: '#4CAF50' }]}>Redeemed Successfully!</Text>
+                <Text style={[styles.successTitle, { color: '#4CAF50' }]}>
+                  {redeemedOffline ? 'Redeemed Offline' : 'Redeemed Successfully!'}
+                </Text>
+                {redeemedOffline && (
+                  <Text style={[styles.successSubtitle, { color: theme.colors.textSecondary }]}>
+                    This redemption will sync when the connection returns.
+                  </Text>
+                )}
               </View>
             ) : redeemError ? (
               <View style={[styles.errorHeader, { backgroundColor: '#F44336' + '20' }]}>
@@ -515,6 +790,29 @@ const TokenRedemptionScreen: React.FC<TokenRedemptionScreenProps> = ({ navigatio
               </TouchableOpacity>
             )}
 
+            {/* Success State - Undo Button (managers, within the undo window) */}
+            {redeemSuccess && !redeemedOffline && canUndoRedemption && ClaimService.canReverseRedemption(claim) && (
+              <TouchableOpacity
+                style={[
+                  styles.cancelButton,
+                  {
+                    borderColor: theme.colors.border,
+                    opacity: reversing ? 0.6 : 1,
+                  },
+                ]}
+                onPress={handleUndoRedemption}
+                disabled={reversing}
+              >
+                {reversing ? (
+                  <ActivityIndicator size="small" color={theme.colors.text} />
+                ) : (
+                  <Text style={[styles.cancelButtonText, { color: theme.colors.text }]}>
+                    Undo Redemption
+                  </Text>
+                )}
+              </TouchableOpacity>
+            )}
+
             {/* Error State - Try Again Button */}
             {redeemError && (
               <TouchableOpacity
@@ -570,6 +868,67 @@ const styles = StyleSheet.create({
     paddingTop: 20,
     paddingBottom: 40,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 8,
+  },
+  offlineBannerText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+  conflictsContainer: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 6,
+  },
+  conflictsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  conflictsTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  conflictText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
+  conflictsDismiss: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+  },
+  conflictsDismissText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    gap: 6,
+  },
+  modeOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   instructionsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -648,6 +1007,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontFamily: 'Poppins-Bold',
   },
+  successSubtitle: {
+    fontSize: 13,
+    marginTop: 4,
+    textAlign: 'center',
+  },
   errorHeader: {
     alignItems: 'center',
     justifyContent: 'center',
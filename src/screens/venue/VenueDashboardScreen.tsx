@@ -12,10 +12,29 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { VenueAnalyticsService, type VenueAnalytics } from '../../services/venueAnalyticsService';
-import { FlashOfferCreationModal, PerformanceSlider } from '../../components/venue';
+import {
+  VenueAnalyticsService,
+  type AnalyticsDateRange,
+  type AnalyticsRangePreset,
+  type LocationAnalytics,
+  type VenueAnalytics,
+} from '../../services/venueAnalyticsService';
+import {
+  AllLocationsOverview,
+  AnalyticsExportModal,
+  AnalyticsRangeSelector,
+  CheckInVerificationSettingsModal,
+  FlashOfferCreationModal,
+  FlashOfferRulesModal,
+  PerformanceSlider,
+  PeriodComparisonCard,
+  PushCampaignComposerModal,
+  VenueSwitcherModal,
+  VenueTeamModal,
+} from '../../components/venue';
 import { FlashOfferService, type FlashOffer } from '../../services/api/flashOffers';
 import { RateLimitsService, type VenueRateLimitStatus } from '../../services/api/rateLimits';
+import { VenueBusinessService } from '../../services/venueBusinessService';
 import Icon from 'react-native-vector-icons/Ionicons';
 
 type TabType = 'overview' | 'activity' | 'actions' | 'hints' | 'profile' | 'settings';
@@ -23,16 +42,43 @@ type TabType = 'overview' | 'activity' | 'actions' | 'hints' | 'profile' | 'sett
 const VenueDashboardScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const { theme, isDark, themeMode, setThemeMode } = useTheme();
-  const { user, venueBusinessAccount, signOut } = useAuth();
+  const {
+    user,
+    venueBusinessAccount,
+    venueBusinessAccounts,
+    selectVenueAccount,
+    signOut,
+    refreshUserType,
+  } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [autoAcceptReservations, setAutoAcceptReservations] = useState(false);
-  const [analytics, setAnalytics] = useState<VenueAnalytics | null>(VenueAnalyticsService.getMockAnalytics());
+  const [analytics, setAnalytics] = useState<VenueAnalytics | null>(null);
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [rangePreset, setRangePreset] = useState<AnalyticsRangePreset>('7d');
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsDateRange>(() =>
+    VenueAnalyticsService.getPresetRange('7d')
+  );
   const [flashOfferModalVisible, setFlashOfferModalVisible] = useState(false);
+  const [campaignModalVisible, setCampaignModalVisible] = useState(false);
+  const [rulesModalVisible, setRulesModalVisible] = useState(false);
+  const [checkInSettingsModalVisible, setCheckInSettingsModalVisible] = useState(false);
+  const [teamModalVisible, setTeamModalVisible] = useState(false);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
   const [activeOffersCount, setActiveOffersCount] = useState<number>(0);
   const [flashOffersLoading, setFlashOffersLoading] = useState(false);
   const [rateLimitStatus, setRateLimitStatus] = useState<VenueRateLimitStatus | null>(null);
+  const [venueSwitcherVisible, setVenueSwitcherVisible] = useState(false);
+  const [allLocations, setAllLocations] = useState(false);
+  const [locationAnalytics, setLocationAnalytics] = useState<LocationAnalytics[]>([]);
+  const hasMultipleVenues = venueBusinessAccounts.length > 1;
+  const showAllLocations = allLocations && hasMultipleVenues;
+
+  // Staff only redeem tokens; offers need a manager and billing needs the owner
+  const teamRole = VenueBusinessService.getTeamRole(venueBusinessAccount, user?.id);
+  const canManageOffers = VenueBusinessService.hasPermission(teamRole, 'manage_offers');
+  const canManageBilling = VenueBusinessService.hasPermission(teamRole, 'manage_billing');
+  const canViewAnalytics = VenueBusinessService.hasPermission(teamRole, 'view_analytics');
 
   // Calculate monthly push credits info
   const getMonthlyCreditsInfo = () => {
@@ -62,38 +108,69 @@ const VenueDashboardScreen: React.FC = () => {
       console.log('🔍 Loading analytics for venue business account:', venueBusinessAccount);
       
       try {
-        let venueId = venueBusinessAccount?.venues?.id;
-        
-        // TEMPORARY: For testing, use test venue if no business account
-        if (!venueId) {
-          // Replace this with your actual test venue ID from get-venue-id.sql
-          const testVenueId = 'e8bbe779-5f94-4b82-933c-ad2b2c318d0b'; // TODO: Replace with actual ID
-          console.log('⚠️ No venue business account found, using test venue ID:', testVenueId);
-          venueId = testVenueId;
+        if (showAllLocations) {
+          console.log('📊 Fetching combined analytics for', venueBusinessAccounts.length, 'venues');
+          setAnalyticsLoading(true);
+
+          const { combined, locations } = await VenueAnalyticsService.getCombinedAnalytics(
+            venueBusinessAccounts.map((account) => ({
+              id: account.venues?.id ?? account.venue_id,
+              name: account.venues?.name ?? 'Unnamed venue',
+            })),
+            analyticsRange
+          );
+
+          setAnalytics(combined);
+          setLocationAnalytics(locations);
+          return;
         }
 
+        const venueId = venueBusinessAccount?.venues?.id;
         if (!venueId) {
-          console.log('⚠️ No valid venue ID found, keeping mock data');
-          return; // Keep the mock data that's already loaded
+          console.log('⚠️ No venue business account found, skipping analytics');
+          return;
         }
 
-        console.log('📊 Fetching real analytics for venue ID:', venueId);
+        console.log('📊 Fetching analytics for venue ID:', venueId);
         setAnalyticsLoading(true);
-        
-        const data = await VenueAnalyticsService.getVenueAnalytics(venueId);
-        console.log('✅ Real analytics loaded successfully:', data);
-        
+
+        const data = await VenueAnalyticsService.getVenueAnalytics(venueId, analyticsRange);
+        console.log('✅ Analytics loaded successfully');
+
         setAnalytics(data);
       } catch (error) {
-        console.error('❌ Failed to load real analytics, keeping mock data:', error);
-        // Keep the existing mock data
+        console.error('❌ Failed to load analytics:', error);
       } finally {
         setAnalyticsLoading(false);
       }
     };
 
     loadAnalytics();
-  }, [venueBusinessAccount?.venues?.id]);
+  }, [venueBusinessAccount?.venues?.id, showAllLocations, venueBusinessAccounts, analyticsRange]);
+
+  const handleRangeChange = (preset: AnalyticsRangePreset, range: AnalyticsDateRange) => {
+    setRangePreset(preset);
+    setAnalyticsRange(range);
+  };
+
+  const periodLabel = {
+    '7d': 'Last 7 Days',
+    '30d': 'Last 30 Days',
+    '90d': 'Last 90 Days',
+    custom: 'Selected Range',
+  }[rangePreset];
+
+  const handleSelectVenue = async (venueId: string) => {
+    setVenueSwitcherVisible(false);
+    setAllLocations(false);
+    await selectVenueAccount(venueId);
+  };
+
+  const handleSelectAllLocations = () => {
+    setVenueSwitcherVisible(false);
+    setAllLocations(true);
+    setActiveTab('overview');
+  };
 
   // Load flash offers count
   useEffect(() => {
@@ -255,47 +332,34 @@ const VenueDashboardScreen: React.FC = () => {
     );
   };
 
-  const DashboardCard = ({ 
-    title, 
-    value, 
-    icon, 
-    color = theme.colors.primary,
-    onPress 
-  }: {
-    title: string;
-    value: string | number;
-    icon: string;
-    color?: string;
-    onPress?: () => void;
-  }) => (
-    <TouchableOpacity 
-      style={[
-        styles.card, 
-        { 
-          backgroundColor: theme.colors.surface,
-          shadowColor: theme.colors.shadow,
-          shadowOffset: { width: 0, height: 2 },
-          shadowOpacity: isDark ? 0 : 0.05,
-          shadowRadius: 4,
-          elevation: isDark ? 0 : 2,
-          borderWidth: isDark ? 0 : 1,
-          borderColor: theme.colors.border,
-        }
-      ]}
-      onPress={onPress}
-      disabled={!onPress}
-    >
-      <View style={styles.cardHeader}>
-        <Icon name={icon} size={24} color={color} />
-        <Text style={[styles.cardTitle, { color: theme.colors.text }]}>{title}</Text>
-      </View>
-      <Text style={[styles.cardValue, { color: theme.colors.text }]}>{value}</Text>
-    </TouchableOpacity>
-  );
-
   const renderTabContent = () => {
     switch (activeTab) {
       case 'overview':
+        if (showAllLocations) {
+          return (
+            <View style={styles.overviewContainer}>
+              {/* Combined totals across every venue */}
+              <AnalyticsRangeSelector
+                preset={rangePreset}
+                range={analyticsRange}
+                onChange={handleRangeChange}
+                disabled={analyticsLoading}
+              />
+              <PerformanceSlider
+                analytics={analytics}
+                analyticsLoading={analyticsLoading}
+                periodLabel={periodLabel}
+              />
+              {analytics && <PeriodComparisonCard analytics={analytics} />}
+
+              <AllLocationsOverview
+                locations={locationAnalytics}
+                onSelectLocation={handleSelectVenue}
+              />
+            </View>
+          );
+        }
+
         return (
           <View style={styles.overviewContainer}>
             {/* Status Card */}
@@ -430,18 +494,20 @@ const VenueDashboardScreen: React.FC = () => {
               )}
               
               <View style={[styles.flashOffersActions, { borderTopColor: theme.colors.border }]}>
-                <TouchableOpacity
-                  style={styles.flashOffersActionButton}
-                  onPress={(e) => {
-                    e.stopPropagation();
-                    setFlashOfferModalVisible(true);
-                  }}
-                >
-                  <Icon name="add-circle-outline" size={20} color={theme.colors.primary} />
-                  <Text style={[styles.flashOffersActionText, { color: theme.colors.primary }]}>
-                    Create Offer
-                  </Text>
-                </TouchableOpacity>
+                {canManageOffers && (
+                  <TouchableOpacity
+                    style={styles.flashOffersActionButton}
+                    onPress={(e) => {
+                      e.stopPropagation();
+                      setFlashOfferModalVisible(true);
+                    }}
+                  >
+                    <Icon name="add-circle-outline" size={20} color={theme.colors.primary} />
+                    <Text style={[styles.flashOffersActionText, { color: theme.colors.primary }]}>
+                      Create Offer
+                    </Text>
+                  </TouchableOpacity>
+                )}
                 <TouchableOpacity
                   style={styles.flashOffersActionButton}
                   onPress={() => navigation.navigate('FlashOfferList')}
@@ -455,11 +521,19 @@ const VenueDashboardScreen: React.FC = () => {
               </TouchableOpacity>
             </View>
 
-            {/* Performance Slider - Today's Performance & This Week's Analysis */}
-            <PerformanceSlider 
-              analytics={analytics} 
-              analyticsLoading={analyticsLoading} 
+            {/* Date Range, Performance Slider & Period Comparison */}
+            <AnalyticsRangeSelector
+              preset={rangePreset}
+              range={analyticsRange}
+              onChange={handleRangeChange}
+              disabled={analyticsLoading}
+            />
+            <PerformanceSlider
+              analytics={analytics}
+              analyticsLoading={analyticsLoading}
+              periodLabel={periodLabel}
             />
+            {analytics && <PeriodComparisonCard analytics={analytics} />}
 
             {/* Peak Hours Section */}
             <View>
@@ -784,54 +858,113 @@ const VenueDashboardScreen: React.FC = () => {
             </Text>
             
             <View style={styles.actionsContainer}>
-              <TouchableOpacity 
-                style={[
-                  styles.actionButton, 
-                  { 
-                    backgroundColor: theme.colors.surface,
-                    shadowColor: theme.colors.shadow,
-                    shadowOffset: { width: 0, height: 2 },
-                    shadowOpacity: isDark ? 0 : 0.05,
-                    shadowRadius: 4,
-                    elevation: isDark ? 0 : 2,
-                    borderWidth: isDark ? 0 : 1,
-                    borderColor: theme.colors.border,
-                  }
-                ]}
-              >
-                <Icon name="notifications-outline" size={32} color={theme.colors.primary} />
-                <Text style={[styles.actionText, { color: theme.colors.text }]}>
-                  Send Push Notification
-                </Text>
-                <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
-                  Promote to nearby customers
-                </Text>
-              </TouchableOpacity>
+              {canManageBilling && (
+                <TouchableOpacity 
+                  style={[
+                    styles.actionButton, 
+                    { 
+                      backgroundColor: theme.colors.surface,
+                      shadowColor: theme.colors.shadow,
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: isDark ? 0 : 0.05,
+                      shadowRadius: 4,
+                      elevation: isDark ? 0 : 2,
+                      borderWidth: isDark ? 0 : 1,
+                      borderColor: theme.colors.border,
+                    }
+                  ]}
+                  onPress={() => setCampaignModalVisible(true)}
+                >
+                  <Icon name="notifications-outline" size={32} color={theme.colors.primary} />
+                  <Text style={[styles.actionText, { color: theme.colors.text }]}>
+                    Send Push Notification
+                  </Text>
+                  <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
+                    Promote to nearby customers
+                  </Text>
+                </TouchableOpacity>
+              )}
 
-              <TouchableOpacity 
-                style={[
-                  styles.actionButton, 
-                  { 
-                    backgroundColor: theme.colors.surface,
-                    shadowColor: theme.colors.shadow,
-                    shadowOffset: { width: 0, height: 2 },
-                    shadowOpacity: isDark ? 0 : 0.05,
-                    shadowRadius: 4,
-                    elevation: isDark ? 0 : 2,
-                    borderWidth: isDark ? 0 : 1,
-                    borderColor: theme.colors.border,
-                  }
-                ]}
-                onPress={() => setFlashOfferModalVisible(true)}
-              >
-                <Icon name="flash-outline" size={32} color="#FF9800" />
-                <Text style={[styles.actionText, { color: theme.colors.text }]}>
-                  Create Flash Offer
-                </Text>
-                <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
-                  Limited-time promotion
-                </Text>
-              </TouchableOpacity>
+              {canManageOffers && (
+                <TouchableOpacity 
+                  style={[
+                    styles.actionButton, 
+                    { 
+                      backgroundColor: theme.colors.surface,
+                      shadowColor: theme.colors.shadow,
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: isDark ? 0 : 0.05,
+                      shadowRadius: 4,
+                      elevation: isDark ? 0 : 2,
+                      borderWidth: isDark ? 0 : 1,
+                      borderColor: theme.colors.border,
+                    }
+                  ]}
+                  onPress={() => setFlashOfferModalVisible(true)}
+                >
+                  <Icon name="flash-outline" size={32} color="#FF9800" />
+                  <Text style={[styles.actionText, { color: theme.colors.text }]}>
+                    Create Flash Offer
+                  </Text>
+                  <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
+                    Limited-time promotion
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              {canManageOffers && (
+                <TouchableOpacity 
+                  style={[
+                    styles.actionButton, 
+                    { 
+                      backgroundColor: theme.colors.surface,
+                      shadowColor: theme.colors.shadow,
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: isDark ? 0 : 0.05,
+                      shadowRadius: 4,
+                      elevation: isDark ? 0 : 2,
+                      borderWidth: isDark ? 0 : 1,
+                      borderColor: theme.colors.border,
+                    }
+                  ]}
+                  onPress={() => setRulesModalVisible(true)}
+                >
+                  <Icon name="timer-outline" size={32} color="#FF5722" />
+                  <Text style={[styles.actionText, { color: theme.colors.text }]}>
+                    Automatic Offers
+                  </Text>
+                  <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
+                    Time & capacity triggers
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              {canViewAnalytics && (
+                <TouchableOpacity 
+                  style={[
+                    styles.actionButton, 
+                    { 
+                      backgroundColor: theme.colors.surface,
+                      shadowColor: theme.colors.shadow,
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: isDark ? 0 : 0.05,
+                      shadowRadius: 4,
+                      elevation: isDark ? 0 : 2,
+                      borderWidth: isDark ? 0 : 1,
+                      borderColor: theme.colors.border,
+                    }
+                  ]}
+                  onPress={() => setExportModalVisible(true)}
+                >
+                  <Icon name="download-outline" size={32} color="#607D8B" />
+                  <Text style={[styles.actionText, { color: theme.colors.text }]}>
+                    Export Data
+                  </Text>
+                  <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
+                    CSV or JSON spreadsheets
+                  </Text>
+                </TouchableOpacity>
+              )}
 
               <TouchableOpacity 
                 style={[
@@ -858,6 +991,33 @@ const VenueDashboardScreen: React.FC = () => {
                 </Text>
               </TouchableOpacity>
 
+              {canManageOffers && (
+                <TouchableOpacity 
+                  style={[
+                    styles.actionButton, 
+                    { 
+                      backgroundColor: theme.colors.surface,
+                      shadowColor: theme.colors.shadow,
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: isDark ? 0 : 0.05,
+                      shadowRadius: 4,
+                      elevation: isDark ? 0 : 2,
+                      borderWidth: isDark ? 0 : 1,
+                      borderColor: theme.colors.border,
+                    }
+                  ]}
+                  onPress={() => setCheckInSettingsModalVisible(true)}
+                >
+                  <Icon name="location-outline" size={32} color="#00BCD4" />
+                  <Text style={[styles.actionText, { color: theme.colors.text }]}>
+                    Check-In Rules
+                  </Text>
+                  <Text style={[styles.actionSubtext, { color: theme.colors.textSecondary }]}>
+                    Location verification
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               <TouchableOpacity 
                 style={[
                   styles.actionButton, 
@@ -1016,35 +1176,6 @@ const VenueDashboardScreen: React.FC = () => {
               </View>
             </View>
 
-            {/* Profile Performance Stats */}
-            <SectionHeader title="Profile Performance" />
-            <View style={styles.statsGrid}>
-              <DashboardCard
-                title="Profile Views"
-                value={analytics?.profileViews ? `${(analytics.profileViews / 1000).toFixed(1)}k` : '0'}
-                icon="eye-outline"
-                color="#9C27B0"
-              />
-              <DashboardCard
-                title="Photo Views"
-                value={analytics?.photoViews?.toString() || '0'}
-                icon="image-outline"
-                color="#FF9800"
-              />
-              <DashboardCard
-                title="Menu Views"
-                value={analytics?.menuViews?.toString() || '0'}
-                icon="restaurant-outline"
-                color="#4CAF50"
-              />
-              <DashboardCard
-                title="Completeness"
-                value={`${analytics?.profileCompleteness || 0}%`}
-                icon="checkmark-circle-outline"
-                color="#2196F3"
-              />
-            </View>
-
             {/* Venue Profile Management */}
             <SectionHeader title="Venue Profile" />
             <View style={[
@@ -1164,12 +1295,14 @@ const VenueDashboardScreen: React.FC = () => {
                 }
                 showArrow={false}
               />
-              <SettingItem
-                icon="flash-outline"
-                title="Flash Offers"
-                subtitle="Create time-limited promotions"
-                onPress={() => setFlashOfferModalVisible(true)}
-              />
+              {canManageOffers && (
+                <SettingItem
+                  icon="flash-outline"
+                  title="Flash Offers"
+                  subtitle="Create time-limited promotions"
+                  onPress={() => setFlashOfferModalVisible(true)}
+                />
+              )}
             </View>
 
             {/* App Preferences */}
@@ -1221,8 +1354,8 @@ const VenueDashboardScreen: React.FC = () => {
               />
             </View>
 
-            {/* Subscription & Billing */}
-            <SectionHeader title="Subscription & Billing" />
+            {/* Team */}
+            <SectionHeader title="Team" />
             <View style={[
               styles.section, 
               { 
@@ -1237,25 +1370,52 @@ const VenueDashboardScreen: React.FC = () => {
               }
             ]}>
               <SettingItem
-                icon="card-outline"
-                title="Subscription Plan"
-                subtitle={`${venueBusinessAccount?.subscription_tier?.toUpperCase() || 'FREE'} - Manage your plan`}
-                onPress={() => showAlert('Coming Soon', 'Subscription management is being developed')}
-              />
-              <SettingItem
-                icon="receipt-outline"
-                title="Billing History"
-                subtitle="View past invoices and payments"
-                onPress={() => showAlert('Coming Soon', 'Billing history is being developed')}
-              />
-              <SettingItem
-                icon="wallet-outline"
-                title="Payment Methods"
-                subtitle="Manage your payment options"
-                onPress={() => showAlert('Coming Soon', 'Payment management is being developed')}
+                icon="people-outline"
+                title="Team Members"
+                subtitle={`Your role: ${teamRole ? teamRole.charAt(0).toUpperCase() + teamRole.slice(1) : 'Staff'}`}
+                onPress={() => setTeamModalVisible(true)}
               />
             </View>
 
+            {canManageBilling && (
+              <>
+                {/* Subscription & Billing */}
+                <SectionHeader title="Subscription & Billing" />
+                <View style={[
+                  styles.section, 
+                  { 
+                    backgroundColor: theme.colors.surface,
+                    shadowColor: theme.colors.shadow,
+                    shadowOffset: { width: 0, height: 2 },
+                    shadowOpacity: isDark ? 0 : 0.05,
+                    shadowRadius: 4,
+                    elevation: isDark ? 0 : 2,
+                    borderWidth: isDark ? 0 : 1,
+                    borderColor: theme.colors.border,
+                  }
+                ]}>
+                  <SettingItem
+                    icon="card-outline"
+                    title="Subscription Plan"
+                    subtitle={`${venueBusinessAccount?.subscription_tier?.toUpperCase() || 'FREE'} - Manage your plan`}
+                    onPress={() => showAlert('Coming Soon', 'Subscription management is being developed')}
+                  />
+                  <SettingItem
+                    icon="receipt-outline"
+                    title="Billing History"
+                    subtitle="View past invoices and payments"
+                    onPress={() => showAlert('Coming Soon', 'Billing history is being developed')}
+                  />
+                  <SettingItem
+                    icon="wallet-outline"
+                    title="Payment Methods"
+                    subtitle="Manage your payment options"
+                    onPress={() => showAlert('Coming Soon', 'Payment management is being developed')}
+                  />
+                </View>
+              </>
+            )}
+
             {/* Support & Legal */}
             <SectionHeader title="Support & Legal" />
             <View style={[
@@ -1306,9 +1466,19 @@ const VenueDashboardScreen: React.FC = () => {
           <Text style={[styles.welcomeText, { color: theme.colors.textSecondary }]}>
             Welcome back,
           </Text>
-          <Text style={[styles.venueName, { color: theme.colors.text }]}>
-            {venueBusinessAccount?.venues?.name || 'Demo Venue'}
-          </Text>
+          <TouchableOpacity
+            style={styles.venueSwitcher}
+            onPress={() => setVenueSwitcherVisible(true)}
+            disabled={!hasMultipleVenues}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.venueName, { color: theme.colors.text }]}>
+              {showAllLocations ? 'All Locations' : venueBusinessAccount?.venues?.name || 'Demo Venue'}
+            </Text>
+            {hasMultipleVenues && (
+              <Icon name="chevron-down" size={20} color={theme.colors.textSecondary} style={styles.venueSwitcherIcon} />
+            )}
+          </TouchableOpacity>
         </View>
         <View style={styles.headerButtons}>
           <TouchableOpacity 
@@ -1391,6 +1561,52 @@ const VenueDashboardScreen: React.FC = () => {
         <View style={styles.bottomSpacing} />
       </ScrollView>
 
+      {/* Push Campaign Composer Modal */}
+      <PushCampaignComposerModal
+        visible={campaignModalVisible}
+        onClose={() => setCampaignModalVisible(false)}
+        onSuccess={() => {
+          // Refresh the business account so remaining push credits update
+          refreshUserType();
+        }}
+      />
+
+      {/* Automatic Flash Offer Rules Modal */}
+      <FlashOfferRulesModal
+        visible={rulesModalVisible}
+        onClose={() => setRulesModalVisible(false)}
+      />
+
+      {/* Venue Team Modal */}
+      <VenueTeamModal
+        visible={teamModalVisible}
+        onClose={() => setTeamModalVisible(false)}
+      />
+
+      {/* Analytics Export Modal */}
+      <AnalyticsExportModal
+        visible={exportModalVisible}
+        onClose={() => setExportModalVisible(false)}
+        venueId={venueBusinessAccount?.venues?.id}
+        initialPreset={rangePreset}
+        initialRange={analyticsRange}
+      />
+
+      {/* Venue Switcher Modal */}
+      <VenueSwitcherModal
+        visible={venueSwitcherVisible}
+        onClose={() => setVenueSwitcherVisible(false)}
+        allLocationsSelected={showAllLocations}
+        onSelectAllLocations={handleSelectAllLocations}
+        onSelectVenue={handleSelectVenue}
+      />
+
+      {/* Check-In Verification Settings Modal */}
+      <CheckInVerificationSettingsModal
+        visible={checkInSettingsModalVisible}
+        onClose={() => setCheckInSettingsModalVisible(false)}
+      />
+
       {/* Flash Offer Creation Modal */}
       <FlashOfferCreationModal
         visible={flashOfferModalVisible}
@@ -1432,6 +1648,14 @@ const styles = StyleSheet.create({
     fontFamily: 'Poppins-Bold',
     marginTop: 4,
   },
+  venueSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  venueSwitcherIcon: {
+    marginTop: 4,
+    marginLeft: 6,
+  },
   headerButtons: {
     flexDirection: 'row',
     gap: 8,
@@ -1530,33 +1754,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Poppins-Bold',
     marginBottom: 12,
   },
-  statsGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    justifyContent: 'space-between',
-    marginBottom: 32,
-  },
-  card: {
-    width: '48%',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 12,
-  },
-  cardHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  cardTitle: {
-    fontSize: 14,
-    fontFamily: 'Inter-Medium',
-    marginLeft: 8,
-  },
-  cardValue: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    fontFamily: 'Poppins-Bold',
-  },
   peakHoursCard: {
     padding: 20,
     borderRadius: 16,
@@ -0,0 +1,112 @@
+/**
+ * CheckInExpiryMonitor
+ *
+ * Periodically checks the signed-in user's active check-in and ends it when the
+ * venue category's maximum dwell time has passed, the venue has closed, or the
+ * device has left the venue geofence. The expire_stale_check_ins() database job
+ * covers dwell time and closing for users whose app isn't running; only the
+ * device can tell when the user has walked away.
+ *
+ * Requirements: Check-Ins - Automatic Check-Out
+ */
+
+import { CheckInService } from './api/checkins';
+import { LocationService } from './locationService';
+import type { CheckOutReason } from '../types';
+
+type CheckOutListener = (venueId: string, reason: CheckOutReason) => void;
+
+export class CheckInExpiryMonitor {
+  private static checkInterval: NodeJS.Timeout | null = null;
+  private static userId: string | null = null;
+  private static isChecking = false;
+  private static listeners = new Set<CheckOutListener>();
+  private static readonly CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Start monitoring a user's active check-in
+   * Runs a check immediately and then every 5 minutes
+   * @param userId - Signed-in user
+   */
+  static start(userId: string): void {
+    if (this.checkInterval && this.userId === userId) {
+      console.log('⚠️ Check-in expiry monitor already running');
+      return;
+    }
+
+    this.stop();
+
+    console.log('📍 Starting check-in expiry monitor for user:', userId);
+    this.userId = userId;
+
+    // Run check immediately
+    this.runCheck();
+
+    // Schedule periodic checks
+    this.checkInterval = setInterval(() => {
+      this.runCheck();
+    }, this.CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the check-in expiry monitor
+   */
+  static stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      this.userId = null;
+      console.log('✅ Check-in expiry monitor stopped');
+    }
+  }
+
+  /**
+   * Subscribe to automatic check-outs, e.g. to refresh check-in state
+   * @param listener - Called with the venue and reason after a check-in is ended
+   * @returns Unsubscribe function
+   */
+  static addListener(listener: CheckOutListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Check the active check-in and end it if it has expired
+   * Skips a tick if the previous check is still running
+   */
+  private static async runCheck(): Promise<void> {
+    const userId = this.userId;
+    if (!userId || this.isChecking) {
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      const context = await CheckInService.getActiveCheckInExpiryContext(userId);
+      if (!context) {
+        return;
+      }
+
+      // Location is only needed for the geofence check, so never prompt for it here
+      const hasPermission = await LocationService.checkLocationPermission();
+      const location = hasPermission
+        ? await LocationService.getCurrentLocation().catch(() => null)
+        : null;
+      const reason = CheckInService.getAutoCheckOutReason(context, location);
+      if (!reason) {
+        return;
+      }
+
+      await CheckInService.checkOut(context.checkIn.id, userId, reason);
+      console.log('✅ Automatically checked out:', reason);
+      this.listeners.forEach(listener => listener(context.checkIn.venue_id, reason));
+    } catch (error) {
+      console.error('❌ Error checking check-in expiry:', error);
+      // Don't throw - monitoring failures shouldn't crash the app
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
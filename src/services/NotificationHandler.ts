@@ -9,6 +9,8 @@
 
 import type { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
 import { NotificationService } from './api/notifications';
+import { FlashOfferAnalyticsService } from './api/flashOfferAnalytics';
+import { supabase } from '../lib/supabase';
 import { DebugLogger } from './DebugLogger';
 import type { NotificationType } from '../types/social.types';
 
@@ -81,6 +83,11 @@ export class NotificationHandler {
       // Track notification open event
       this.trackNotificationOpen(data.type);
 
+      // Flash offer opens feed the offer's conversion funnel
+      if (data.type === 'flash_offer' && data.navigationParams?.offerId) {
+        this.trackFlashOfferOpen(String(data.navigationParams.offerId));
+      }
+
       // Navigate to appropriate screen
       this.navigateFromNotification(data.type, data.navigationParams || {});
     } catch (error) {
@@ -161,6 +168,20 @@ export class NotificationHandler {
     }
   }
 
+  /**
+   * Check whether a notification tells the user their venue application was
+   * approved, so the app can switch them to the venue dashboard
+   * 
+   * @param notification - FCM remote message
+   * @returns True for venue application approvals
+   */
+  static isVenueApplicationApproval(
+    notification: FirebaseMessagingTypes.RemoteMessage
+  ): boolean {
+    const data = this.parseNotificationData(notification);
+    return data?.type === 'venue_application_update' && data.navigationParams?.status === 'approved';
+  }
+
   /**
    * Navigate to appropriate screen based on notification type
    * 
@@ -201,6 +222,22 @@ export class NotificationHandler {
         }
         break;
 
+      case 'follow_request':
+        // Navigate to follow requests screen
+        DebugLogger.logNavigationEvent(type, 'FollowRequests');
+        this.navigationHandler('FollowRequests');
+        break;
+
+      case 'new_follower':
+        // Navigate to follower's profile
+        if (params.userId) {
+          DebugLogger.logNavigationEvent(type, 'Profile', { userId: params.userId });
+          this.navigationHandler('Profile', { userId: params.userId });
+        } else {
+          this.navigationHandler('Profile');
+        }
+        break;
+
       case 'venue_share':
         // Navigate to venue detail screen
         if (params.venueId) {
@@ -291,6 +328,32 @@ export class NotificationHandler {
         }
         break;
 
+      case 'venue_campaign':
+        // Navigate to the venue that sent the campaign
+        if (params.venueId) {
+          DebugLogger.logNavigationEvent(type, 'VenueDetail', {
+            venueId: params.venueId,
+          });
+          this.navigationHandler('VenueDetail', {
+            venueId: params.venueId,
+            venueName: params.venueName || 'Venue',
+          });
+        }
+        break;
+
+      case 'moderation_update':
+        // Report outcomes and warnings are read in place; open the app home
+        DebugLogger.logNavigationEvent(type, 'Home', {});
+        this.navigationHandler('Home');
+        break;
+
+      case 'venue_application_update':
+        // Approved owners are switched to the venue dashboard by AppNavigator;
+        // requests for information and rejections are read in place
+        DebugLogger.logNavigationEvent(type, 'Home', params);
+        this.navigationHandler('Home');
+        break;
+
       default:
         console.warn('⚠️ Unknown notification type:', type);
         DebugLogger.logError('NAVIGATION', `Unknown notification type: ${type}`);
@@ -387,6 +450,24 @@ export class NotificationHandler {
     }
   }
 
+  /**
+   * Record a push_open event for the signed-in user
+   * 
+   * @param offerId - ID of the flash offer in the notification
+   */
+  private static async trackFlashOfferOpen(offerId: string): Promise<void> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (session?.user) {
+        await FlashOfferAnalyticsService.trackPushOpen(offerId, session.user.id);
+      }
+    } catch (error) {
+      console.error('❌ Error tracking flash offer open:', error);
+      // Don't throw - this is not critical
+    }
+  }
+
   /**
    * Track notification receipt
    * 
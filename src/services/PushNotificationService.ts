@@ -72,6 +72,9 @@ const NOTIFICATION_TYPE_TO_PREFERENCE: Record<NotificationType, keyof import('..
   friend_checkin_nearby: 'friend_checkins_nearby',
   flash_offer: 'friend_requests', // Use friend_requests as default for now
   venue_response: 'friend_requests', // Use friend_requests as default for now
+  venue_campaign: 'friend_requests', // Use friend_requests as default for now
+  moderation_update: 'friend_requests', // Use friend_requests as default for now
+  venue_application_update: 'friend_requests', // Use friend_requests as default for now
 };
 
 export class PushNotificationService {
@@ -0,0 +1,206 @@
+/**
+ * VenueAnalyticsExportService Tests
+ *
+ * Unit tests for venue analytics export:
+ * - Customer pseudonyms from the database are kept and review text is masked
+ * - CSV tables are escaped correctly
+ * - Exports are shared through the OS share sheet
+ */
+
+import { Share } from 'react-native';
+import { VenueAnalyticsExportService } from '../venueAnalyticsExportService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/timezone', () => ({
+  getDeviceTimezone: () => 'America/Chicago',
+}));
+
+const rawExport = {
+  venue_id: 'venue-1',
+  venue_name: 'The Blue Bar',
+  range: { from: '2026-10-01T05:00:00+00:00', to: '2026-10-08T05:00:00+00:00' },
+  timezone: 'America/Chicago',
+  generated_at: '2026-10-08T12:00:00+00:00',
+  daily_stats: [{
+    date: '2026-10-01',
+    check_ins: 12,
+    completed_visits: 10,
+    visit_minutes: 455,
+    new_favorites: 2,
+    reviews: 2,
+    rating_sum: 9,
+  }],
+  hourly_check_ins: [{ hour_start: '2026-10-01T23:00:00+00:00', check_ins: 5 }],
+  flash_offers: [{
+    offer_id: 'offer-1',
+    title: 'Wings, half off',
+    status: 'expired',
+    start_time: '2026-10-02T22:00:00+00:00',
+    end_time: '2026-10-03T00:00:00+00:00',
+    max_claims: 50,
+    claimed_count: 20,
+    push_sent_count: 1,
+    views_count: 40,
+    claims_count: 20,
+    redemptions_count: 15,
+    open_rate: 4000,
+    claim_rate: 50,
+    redemption_rate: 75,
+    time_to_full_minutes: null,
+  }],
+  claims: [
+    {
+      claim_id: 'claim-1',
+      offer_id: 'offer-1',
+      offer_title: 'Wings, half off',
+      customer_id: '3f9a0c1d2e4b5a67',
+      status: 'redeemed',
+      claimed_at: '2026-10-02T22:10:00+00:00',
+      expires_at: '2026-10-03T00:00:00+00:00',
+      redeemed_at: '2026-10-02T22:40:00+00:00',
+      redeemed_by_name: 'Sam',
+    },
+    {
+      claim_id: 'claim-2',
+      offer_id: 'offer-1',
+      offer_title: 'Wings, half off',
+      customer_id: '3f9a0c1d2e4b5a67',
+      status: 'active',
+      claimed_at: '2026-10-02T23:10:00+00:00',
+      expires_at: '2026-10-03T00:00:00+00:00',
+      redeemed_at: null,
+      redeemed_by_name: null,
+    },
+  ],
+  reviews: [{
+    review_id: 'review-1',
+    customer_id: '8b7c6d5e4f3a2b1c',
+    rating: 4,
+    review_text: 'Ask for Jane Smith, she said "best wings" in town',
+    is_verified: true,
+    helpful_count: 3,
+    created_at: '2026-10-03T01:00:00+00:00',
+    response_text: null,
+    responded_at: null,
+  }],
+  rating_distribution: { '5': 1, '4': 1, '3': 0, '2': 0, '1': 0 },
+};
+
+describe('VenueAnalyticsExportService', () => {
+  const range = {
+    from: new Date('2026-10-01T05:00:00Z'),
+    to: new Date('2026-10-08T05:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: rawExport, error: null });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getExportData', () => {
+    it('requests the range from the database in the device timezone', async () => {
+      await VenueAnalyticsExportService.getExportData('venue-1', range);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('export_venue_analytics', {
+        p_venue_id: 'venue-1',
+        p_from: range.from.toISOString(),
+        p_to: range.to.toISOString(),
+        p_timezone: 'America/Chicago',
+      });
+    });
+
+    it('keeps the database pseudonyms and never adds user IDs', async () => {
+      const exportData = await VenueAnalyticsExportService.getExportData('venue-1', range);
+      const json = VenueAnalyticsExportService.toJSON(exportData);
+
+      expect(json).not.toContain('user_id');
+      expect(exportData.claims.map((claim) => claim.customer_id)).toEqual([
+        '3f9a0c1d2e4b5a67',
+        '3f9a0c1d2e4b5a67',
+      ]);
+      expect(exportData.reviews[0].customer_id).toBe('8b7c6d5e4f3a2b1c');
+      expect(exportData.claims[0].redeemed_by_name).toBe('Sam');
+    });
+
+    it('masks names written into review text', async () => {
+      const exportData = await VenueAnalyticsExportService.getExportData('venue-1', range);
+
+      expect(exportData.reviews[0].review_text).toBe('Ask for [NAME], she said "best wings" in town');
+    });
+
+    it('throws when the export cannot be generated', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Not authorized to export this venue\'s analytics' },
+      });
+
+      await expect(
+        VenueAnalyticsExportService.getExportData('venue-1', range)
+      ).rejects.toThrow('Failed to generate analytics export: Not authorized to export this venue\'s analytics');
+    });
+  });
+
+  describe('toCSV', () => {
+    it('writes one titled table per section', async () => {
+      const exportData = await VenueAnalyticsExportService.getExportData('venue-1', range);
+      const tables = VenueAnalyticsExportService.toCSV(exportData).trim().split('\n\n');
+
+      expect(tables.map((table) => table.split('\n')[0])).toEqual([
+        '# Export',
+        '# Daily Stats',
+        '# Hourly Check-ins',
+        '# Flash Offers',
+        '# Claims',
+        '# Reviews',
+        '# Rating Distribution',
+      ]);
+      expect(tables[1].split('\n')[2]).toBe('2026-10-01,12,10,46,2,2,4.5');
+      expect(tables[6].split('\n').slice(1)).toEqual([
+        'rating,count', '5,1', '4,1', '3,0', '2,0', '1,0',
+      ]);
+    });
+
+    it('quotes fields containing commas and quotes', async () => {
+      const exportData = await VenueAnalyticsExportService.getExportData('venue-1', range);
+      const csv = VenueAnalyticsExportService.toCSV(exportData);
+
+      expect(csv).toContain('offer-1,"Wings, half off",expired');
+      expect(csv).toContain('"Ask for [NAME], she said ""best wings"" in town"');
+    });
+  });
+
+  describe('shareExport', () => {
+    it('opens the share sheet with the export', async () => {
+      const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.sharedAction });
+
+      const shared = await VenueAnalyticsExportService.shareExport('venue-1', range, 'json');
+
+      expect(shared).toBe(true);
+      const [content, options] = shareSpy.mock.calls[0];
+      expect(content.title).toBe('The Blue Bar analytics 2026-10-01 to 2026-10-07.json');
+      expect(JSON.parse((content as { message: string }).message).venue_name).toBe('The Blue Bar');
+      expect(options).toEqual({ subject: content.title });
+    });
+
+    it('reports a dismissed share sheet', async () => {
+      jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.dismissedAction });
+
+      await expect(
+        VenueAnalyticsExportService.shareExport('venue-1', range, 'csv')
+      ).resolves.toBe(false);
+    });
+  });
+});
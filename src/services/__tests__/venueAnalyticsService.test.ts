@@ -0,0 +1,254 @@
+/**
+ * VenueAnalyticsService Tests
+ *
+ * Unit tests for dashboard analytics:
+ * - Mapping the get_venue_analytics response for a date range
+ * - Period-over-period change
+ * - Combining locations' periods and recent activity
+ */
+
+import { VenueAnalyticsService } from '../venueAnalyticsService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/timezone', () => ({
+  getDeviceTimezone: () => 'America/New_York',
+}));
+
+const period = (overrides: Record<string, number> = {}) => ({
+  check_ins: 0,
+  unique_customers: 0,
+  repeat_customers: 0,
+  new_favorites: 0,
+  reviews: 0,
+  rating_sum: 0,
+  completed_visits: 0,
+  visit_minutes: 0,
+  ...overrides,
+});
+
+const analyticsRow = (overrides: Record<string, any> = {}) => ({
+  range: { from: '2026-10-01T00:00:00Z', to: '2026-10-08T00:00:00Z' },
+  previous_range: { from: '2026-09-24T00:00:00Z', to: '2026-10-01T00:00:00Z' },
+  current: period({
+    check_ins: 40,
+    unique_customers: 20,
+    repeat_customers: 5,
+    new_favorites: 6,
+    reviews: 4,
+    rating_sum: 18,
+    completed_visits: 30,
+    visit_minutes: 1350,
+  }),
+  previous: period({ check_ins: 32, unique_customers: 16, new_favorites: 6 }),
+  today: period({ check_ins: 3, new_favorites: 1 }),
+  daily: [
+    { date: '2026-10-01', check_ins: 10 },
+    { date: '2026-10-02', check_ins: 30 },
+  ],
+  peak_hours: [{ hour: 19, check_ins: 12 }],
+  peak_day: 'Friday',
+  live: { active_check_ins: 45, capacity: 60 },
+  aggregate_rating: '4.2',
+  rating_distribution: { '5': 2, '4': 1, '3': 1, '2': 0, '1': 0 },
+  recent_reviews: [],
+  recent_activity: [
+    {
+      type: 'review',
+      created_at: '2026-10-07T12:00:00Z',
+      rating: 5,
+      title: null,
+      sent_count: null,
+      notification_type: null,
+    },
+    {
+      type: 'push_notification',
+      created_at: '2026-10-06T12:00:00Z',
+      rating: null,
+      title: 'Happy Hour',
+      sent_count: 120,
+      notification_type: 'flash_offer',
+    },
+  ],
+  ...overrides,
+});
+
+describe('VenueAnalyticsService', () => {
+  const range = {
+    from: new Date('2026-10-01T00:00:00Z'),
+    to: new Date('2026-10-08T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getVenueAnalytics', () => {
+    it('loads the range in one request with the device timezone', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: analyticsRow(), error: null });
+
+      await VenueAnalyticsService.getVenueAnalytics('venue-1', range);
+
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(supabase.rpc).toHaveBeenCalledWith('get_venue_analytics', {
+        p_venue_id: 'venue-1',
+        p_from: range.from.toISOString(),
+        p_to: range.to.toISOString(),
+        p_timezone: 'America/New_York',
+      });
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('maps rollup totals to dashboard metrics', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: analyticsRow(), error: null });
+
+      const analytics = await VenueAnalyticsService.getVenueAnalytics('venue-1', range);
+
+      expect(analytics.weeklyCheckIns).toBe(40);
+      expect(analytics.weeklyAvgRating).toBe(4.5);
+      expect(analytics.todayCheckIns).toBe(3);
+      // No reviews today, so fall back to the venue's overall rating
+      expect(analytics.todayRating).toBe(4.2);
+      expect(analytics.repeatCustomerPercentage).toBe(25);
+      expect(analytics.avgVisitDuration).toBe(45);
+      expect(analytics.currentActivity).toEqual({
+        level: 'Lit',
+        emoji: '🔥',
+        count: 45,
+        capacity: 60,
+        percentage: 75,
+      });
+      expect(analytics.peakHours).toEqual([
+        { time: '7:00 PM', label: 'Dinner Peak', activity: 'Lit 🔥', count: 12 },
+      ]);
+      expect(analytics.peakDay).toBe('Friday');
+      expect(analytics.previousPeriod.checkIns).toBe(32);
+      expect(analytics.dailyCheckIns).toEqual([
+        { date: '2026-10-01', count: 10 },
+        { date: '2026-10-02', count: 30 },
+      ]);
+      expect(analytics.ratingDistribution).toEqual({ 5: 2, 4: 1, 3: 1, 2: 0, 1: 0 });
+      expect(analytics.recentActivities.map((activity) => activity.title)).toEqual([
+        'New 5-star review received',
+        'Flash offer sent to 120 customers',
+      ]);
+    });
+
+    it('describes check-ins without inventing details', async () => {
+      const checkIn = {
+        type: 'checkin' as const,
+        created_at: '2026-10-07T12:00:00Z',
+        rating: null,
+        title: null,
+        sent_count: null,
+        notification_type: null,
+      };
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: analyticsRow({ recent_activity: [checkIn, checkIn, checkIn] }),
+        error: null,
+      });
+
+      const analytics = await VenueAnalyticsService.getVenueAnalytics('venue-1', range);
+
+      expect(analytics.recentActivities.map((activity) => activity.title)).toEqual([
+        'Customer checked in',
+        'Customer checked in',
+        'Customer checked in',
+      ]);
+    });
+
+    it('throws instead of falling back to mock data', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Not authorized to view this venue\'s analytics' },
+      });
+
+      await expect(
+        VenueAnalyticsService.getVenueAnalytics('venue-1', range)
+      ).rejects.toThrow('Failed to fetch venue analytics: Not authorized to view this venue\'s analytics');
+    });
+  });
+
+  describe('getPeriodChange', () => {
+    it('returns the percent change from the previous period', () => {
+      expect(VenueAnalyticsService.getPeriodChange(40, 32)).toBe(25);
+      expect(VenueAnalyticsService.getPeriodChange(10, 30)).toBe(-66.7);
+    });
+
+    it('returns null when there is no previous value', () => {
+      expect(VenueAnalyticsService.getPeriodChange(5, 0)).toBeNull();
+    });
+  });
+
+  describe('getCombinedAnalytics', () => {
+    it('combines periods and orders activity across locations', async () => {
+      (supabase.rpc as jest.Mock)
+        .mockResolvedValueOnce({ data: analyticsRow(), error: null })
+        .mockResolvedValueOnce({
+          data: analyticsRow({
+            current: period({
+              check_ins: 10,
+              unique_customers: 5,
+              repeat_customers: 5,
+              reviews: 1,
+              rating_sum: 3,
+              completed_visits: 10,
+              visit_minutes: 200,
+            }),
+            daily: [{ date: '2026-10-02', check_ins: 10 }],
+            recent_activity: [{
+              type: 'favorite',
+              created_at: '2026-10-06T18:00:00Z',
+              rating: null,
+              title: null,
+              sent_count: null,
+              notification_type: null,
+            }],
+          }),
+          error: null,
+        });
+
+      const { combined, locations } = await VenueAnalyticsService.getCombinedAnalytics(
+        [
+          { id: 'venue-1', name: 'Downtown' },
+          { id: 'venue-2', name: 'Uptown' },
+        ],
+        range
+      );
+
+      expect(locations).toHaveLength(2);
+      expect(combined.period).toMatchObject({
+        checkIns: 50,
+        uniqueCustomers: 25,
+        reviews: 5,
+        // (4.5 * 4 + 3 * 1) / 5 reviews
+        avgRating: 4.2,
+        // (25% * 20 + 100% * 5) / 25 customers
+        repeatCustomerPercentage: 40,
+        // (45 * 40 + 20 * 10) / 50 check-ins
+        avgVisitDuration: 40,
+      });
+      expect(combined.dailyCheckIns).toEqual([
+        { date: '2026-10-01', count: 10 },
+        { date: '2026-10-02', count: 40 },
+      ]);
+      expect(combined.recentActivities.map((activity) => activity.title)).toEqual([
+        'Downtown: New 5-star review received',
+        'Uptown: New favorite added',
+        'Downtown: Flash offer sent to 120 customers',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * VenueApplicationService Review Tests
+ *
+ * Unit tests for the admin review of venue applications:
+ * - Decisions are recorded through the review RPC
+ * - The applicant gets a push with the outcome
+ * - Review errors and push failures are reported correctly
+ * - Claims on listed venues go through the claim RPCs
+ */
+
+import { VenueApplicationService } from '../venueApplicationService';
+import type { VenueApplicationReview } from '../venueApplicationService';
+import { PushNotificationService } from '../PushNotificationService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../PushNotificationService', () => ({
+  PushNotificationService: {
+    sendSocialNotification: jest.fn(),
+  },
+}));
+
+const approval: VenueApplicationReview = {
+  application_id: 'application-1',
+  status: 'approved',
+  owner_user_id: 'owner-1',
+  venue_id: 'venue-1',
+  business_account_id: 'account-1',
+  title: 'Venue Application Approved',
+  message: 'The Local is live! Open the app to manage your venue.',
+};
+
+describe('VenueApplicationService review', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (PushNotificationService.sendSocialNotification as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('approves through the review RPC and pushes the outcome to the applicant', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: approval, error: null });
+
+    const result = await VenueApplicationService.reviewApplication('application-1', 'approved', '  ');
+
+    expect(supabase.rpc).toHaveBeenCalledWith('review_venue_application', {
+      p_application_id: 'application-1',
+      p_decision: 'approved',
+      p_notes: null,
+    });
+    expect(result).toEqual({ success: true, review: approval });
+    expect(PushNotificationService.sendSocialNotification).toHaveBeenCalledWith(
+      'owner-1',
+      'venue_application_update',
+      {
+        title: 'Venue Application Approved',
+        body: approval.message,
+        data: {
+          type: 'venue_application_update',
+          referenceId: 'application-1',
+          navigationTarget: 'Home',
+          navigationParams: { status: 'approved', venueId: 'venue-1' },
+        },
+      }
+    );
+  });
+
+  it('passes trimmed notes when asking for more information', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: { ...approval, status: 'under_review', venue_id: null, business_account_id: null },
+      error: null,
+    });
+
+    await VenueApplicationService.reviewApplication('application-1', 'under_review', ' Send a copy of your license ');
+
+    expect(supabase.rpc).toHaveBeenCalledWith(
+      'review_venue_application',
+      expect.objectContaining({ p_decision: 'under_review', p_notes: 'Send a copy of your license' })
+    );
+  });
+
+  it('returns the database error and sends no push when the review fails', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: null,
+      error: { message: 'This application has already been approved' },
+    });
+
+    const result = await VenueApplicationService.reviewApplication('application-1', 'rejected', 'Duplicate');
+
+    expect(result).toEqual({ success: false, error: 'This application has already been approved' });
+    expect(PushNotificationService.sendSocialNotification).not.toHaveBeenCalled();
+  });
+
+  it('still succeeds when the push fails', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: approval, error: null });
+    (PushNotificationService.sendSocialNotification as jest.Mock).mockRejectedValue(new Error('FCM down'));
+
+    const result = await VenueApplicationService.reviewApplication('application-1', 'approved');
+
+    expect(result.success).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Failed to send application update push:', expect.any(Error));
+  });
+});
+
+describe('VenueApplicationService claims', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens a claim with trimmed details', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: 'application-2', error: null });
+
+    const result = await VenueApplicationService.submitClaim('venue-1', {
+      ownerName: ' Sam Rivera ',
+      ownerEmail: 'sam@thelocal.com ',
+      description: '',
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('create_venue_claim', {
+      p_venue_id: 'venue-1',
+      p_owner_name: 'Sam Rivera',
+      p_owner_email: 'sam@thelocal.com',
+      p_description: null,
+    });
+    expect(result).toEqual({ success: true, applicationId: 'application-2' });
+  });
+
+  it('returns the reason a duplicate claim was blocked', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: null,
+      error: { message: 'This venue has already been claimed' },
+    });
+
+    const result = await VenueApplicationService.submitClaim('venue-1', {
+      ownerName: 'Sam Rivera',
+      ownerEmail: 'sam@thelocal.com',
+    });
+
+    expect(result).toEqual({ success: false, error: 'This venue has already been claimed' });
+  });
+
+  it('sends a code to the chosen venue contact', async () => {
+    const delivery = {
+      method: 'phone',
+      destination: '•••4567',
+      expires_at: '2026-10-19T12:15:00Z',
+      simulated_code: '042137',
+    };
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: delivery, error: null });
+
+    const result = await VenueApplicationService.sendClaimCode('application-2', 'phone');
+
+    expect(supabase.rpc).toHaveBeenCalledWith('send_venue_claim_code', {
+      p_application_id: 'application-2',
+      p_method: 'phone',
+    });
+    expect(result).toEqual({ success: true, delivery });
+  });
+
+  it('reports remaining attempts for a wrong code', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: { verified: false, attempts_remaining: 3 },
+      error: null,
+    });
+
+    const result = await VenueApplicationService.verifyClaimCode('application-2', ' 123456 ');
+
+    expect(supabase.rpc).toHaveBeenCalledWith('verify_venue_claim_code', {
+      p_application_id: 'application-2',
+      p_code: '123456',
+    });
+    expect(result).toEqual({ success: true, verification: { verified: false, attempts_remaining: 3 } });
+  });
+
+  it('returns null when the claim status cannot be loaded', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: { message: 'Venue not found' } });
+
+    await expect(VenueApplicationService.getClaimStatus('venue-404')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * VenueBusinessService Team Tests
+ *
+ * Unit tests for venue team roles:
+ * - Role permissions (owner > manager > staff)
+ * - Business account lookup for owners and team members
+ * - Client-side checks before team management RPCs
+ */
+
+import { VenueBusinessService } from '../venueBusinessService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+/**
+ * Query builder that resolves to the given result when awaited
+ */
+const mockQuery = (result: { data: any; error: any }) => {
+  const query: any = {};
+  ['select', 'eq', 'in', 'order'].forEach((method) => {
+    query[method] = jest.fn(() => query);
+  });
+  query.then = (resolve: (value: any) => any, reject: (reason: any) => any) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query;
+};
+
+describe('VenueBusinessService team roles', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('hasPermission', () => {
+    it('limits staff to redeeming claims', () => {
+      expect(VenueBusinessService.hasPermission('staff', 'redeem_claims')).toBe(true);
+      expect(VenueBusinessService.hasPermission('staff', 'manage_offers')).toBe(false);
+      expect(VenueBusinessService.hasPermission('staff', 'reply_to_reviews')).toBe(false);
+      expect(VenueBusinessService.hasPermission('staff', 'manage_team')).toBe(false);
+    });
+
+    it('lets managers run offers and replies but not billing', () => {
+      expect(VenueBusinessService.hasPermission('manager', 'redeem_claims')).toBe(true);
+      expect(VenueBusinessService.hasPermission('manager', 'manage_offers')).toBe(true);
+      expect(VenueBusinessService.hasPermission('manager', 'reply_to_reviews')).toBe(true);
+      expect(VenueBusinessService.hasPermission('manager', 'manage_billing')).toBe(false);
+    });
+
+    it('gives owners every permission', () => {
+      expect(VenueBusinessService.hasPermission('owner', 'manage_billing')).toBe(true);
+      expect(VenueBusinessService.hasPermission('owner', 'manage_team')).toBe(true);
+    });
+
+    it('denies everything without a role', () => {
+      expect(VenueBusinessService.hasPermission(null, 'redeem_claims')).toBe(false);
+    });
+  });
+
+  describe('getTeamRole', () => {
+    it('uses the team role on the account', () => {
+      expect(VenueBusinessService.getTeamRole({ owner_user_id: 'owner-1', team_role: 'manager' }, 'user-1'))
+        .toBe('manager');
+    });
+
+    it('falls back to ownership for accounts without a team role', () => {
+      expect(VenueBusinessService.getTeamRole({ owner_user_id: 'user-1' }, 'user-1')).toBe('owner');
+      expect(VenueBusinessService.getTeamRole({ owner_user_id: 'owner-1' }, 'user-1')).toBe('staff');
+    });
+  });
+
+  describe('getBusinessAccount', () => {
+    it('returns the owned account with the owner role', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: [{ id: 'account-1', venue_id: 'venue-1' }], error: null }))
+        .mockReturnValueOnce(mockQuery({ data: [{ venue_id: 'venue-1', role: 'owner' }], error: null }));
+
+      const account = await VenueBusinessService.getBusinessAccount('user-1');
+
+      expect(account).toEqual({ id: 'account-1', venue_id: 'venue-1', team_role: 'owner' });
+    });
+
+    it('falls back to a team membership', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: [], error: null }))
+        .mockReturnValueOnce(mockQuery({ data: [{ venue_id: 'venue-1', role: 'staff' }], error: null }))
+        .mockReturnValueOnce(mockQuery({ data: [{ id: 'account-1', venue_id: 'venue-1' }], error: null }));
+
+      const account = await VenueBusinessService.getBusinessAccount('user-2');
+
+      expect(supabase.from).toHaveBeenNthCalledWith(2, 'venue_team_members');
+      // Team members read the account without billing columns
+      expect(supabase.from).toHaveBeenNthCalledWith(3, 'venue_team_business_accounts');
+      expect(account).toEqual({ id: 'account-1', venue_id: 'venue-1', team_role: 'staff' });
+    });
+
+    it('returns null for customers', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: [], error: null }))
+        .mockReturnValueOnce(mockQuery({ data: [], error: null }));
+
+      expect(await VenueBusinessService.getBusinessAccount('user-3')).toBeNull();
+    });
+  });
+
+  describe('getUserBusinessAccounts', () => {
+    it('lists owned venues first, then team venues in membership order', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({
+          data: [
+            { id: 'account-2', venue_id: 'venue-2' },
+            { id: 'account-1', venue_id: 'venue-1' },
+          ],
+          error: null,
+        }))
+        .mockReturnValueOnce(mockQuery({
+          data: [
+            { venue_id: 'venue-1', role: 'owner' },
+            { venue_id: 'venue-4', role: 'manager' },
+            { venue_id: 'venue-3', role: 'staff' },
+          ],
+          error: null,
+        }))
+        .mockReturnValueOnce(mockQuery({
+          data: [
+            { id: 'account-3', venue_id: 'venue-3' },
+            { id: 'account-4', venue_id: 'venue-4' },
+          ],
+          error: null,
+        }));
+
+      const accounts = await VenueBusinessService.getUserBusinessAccounts('user-1');
+
+      expect(accounts.map((a) => [a.id, a.team_role])).toEqual([
+        ['account-2', 'owner'],
+        ['account-1', 'owner'],
+        ['account-4', 'manager'],
+        ['account-3', 'staff'],
+      ]);
+    });
+
+    it('loads team venues for managers and staff who own none', async () => {
+      const accountQuery = mockQuery({
+        data: [
+          { id: 'account-5', venue_id: 'venue-5', owner_user_id: 'owner-1' },
+          { id: 'account-6', venue_id: 'venue-6', owner_user_id: 'owner-2' },
+        ],
+        error: null,
+      });
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: [], error: null }))
+        .mockReturnValueOnce(mockQuery({
+          data: [
+            { venue_id: 'venue-5', role: 'manager' },
+            { venue_id: 'venue-6', role: 'staff' },
+          ],
+          error: null,
+        }))
+        .mockReturnValueOnce(accountQuery);
+
+      const accounts = await VenueBusinessService.getUserBusinessAccounts('user-2');
+
+      expect(supabase.from).toHaveBeenNthCalledWith(3, 'venue_team_business_accounts');
+      expect(accountQuery.in).toHaveBeenCalledWith('venue_id', ['venue-5', 'venue-6']);
+      expect(accounts.map((a) => [a.id, a.team_role])).toEqual([
+        ['account-5', 'manager'],
+        ['account-6', 'staff'],
+      ]);
+      expect(VenueBusinessService.getTeamRole(accounts[1], 'user-2')).toBe('staff');
+    });
+
+    it('keeps owned venues when team memberships fail to load', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockQuery({ data: [{ id: 'account-1', venue_id: 'venue-1' }], error: null }))
+        .mockReturnValueOnce(mockQuery({ data: null, error: { message: 'relation does not exist' } }));
+
+      const accounts = await VenueBusinessService.getUserBusinessAccounts('user-1');
+
+      expect(accounts).toEqual([{ id: 'account-1', venue_id: 'venue-1', team_role: 'owner' }]);
+    });
+  });
+
+  describe('inviteTeamMember', () => {
+    it('rejects staff without calling the server', async () => {
+      const result = await VenueBusinessService.inviteTeamMember('venue-1', 'staff', 'a@b.com', 'staff');
+
+      expect(result.success).toBe(false);
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('only lets owners add managers', async () => {
+      const result = await VenueBusinessService.inviteTeamMember('venue-1', 'manager', 'a@b.com', 'manager');
+
+      expect(result).toEqual({ success: false, error: 'Only owners can add managers' });
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('invites by email or username', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: { id: 'member-1' }, error: null });
+
+      const result = await VenueBusinessService.inviteTeamMember('venue-1', 'manager', ' @sam ', 'staff');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('invite_venue_team_member', {
+        p_venue_id: 'venue-1',
+        p_identifier: '@sam',
+        p_role: 'staff',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('surfaces server errors', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'No user found with that email or username' },
+      });
+
+      const result = await VenueBusinessService.inviteTeamMember('venue-1', 'owner', 'nobody', 'staff');
+
+      expect(result).toEqual({ success: false, error: 'No user found with that email or username' });
+    });
+  });
+
+  describe('removeTeamMember', () => {
+    const staffMember = { id: 'member-2', user_id: 'user-2', role: 'staff' as const };
+    const managerMember = { id: 'member-3', user_id: 'user-3', role: 'manager' as const };
+
+    beforeEach(() => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: null });
+    });
+
+    it('lets managers remove staff but not other managers', async () => {
+      expect((await VenueBusinessService.removeTeamMember(staffMember, 'manager', 'user-1')).success).toBe(true);
+      expect((await VenueBusinessService.removeTeamMember(managerMember, 'manager', 'user-1')).success).toBe(false);
+    });
+
+    it('lets any member leave the team', async () => {
+      const result = await VenueBusinessService.removeTeamMember(staffMember, 'staff', 'user-2');
+
+      expect(result.success).toBe(true);
+      expect(supabase.rpc).toHaveBeenCalledWith('remove_venue_team_member', { p_member_id: 'member-2' });
+    });
+
+    it('never removes the owner', async () => {
+      const owner = { id: 'member-1', user_id: 'user-1', role: 'owner' as const };
+
+      expect((await VenueBusinessService.removeTeamMember(owner, 'owner', 'user-1')).success).toBe(false);
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
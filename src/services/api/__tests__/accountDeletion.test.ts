@@ -0,0 +1,135 @@
+/**
+ * Tests for AccountDeletionService
+ *
+ * - Deletion is only requested after the password is confirmed
+ * - Pending and failed requests count as an account being deleted
+ * - Restoring cancels the pending request
+ */
+
+import { AccountDeletionService } from '../accountDeletion';
+import { supabase } from '../../../lib/supabase';
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      signInWithPassword: jest.fn(),
+    },
+    rpc: jest.fn(),
+    from: jest.fn(),
+  },
+}));
+
+const pendingRequest = {
+  id: 'request-1',
+  user_id: 'user-1',
+  status: 'pending',
+  requested_at: '2026-10-01T10:00:00Z',
+  scheduled_for: '2026-10-31T10:00:00Z',
+  cancelled_at: null,
+  completed_at: null,
+};
+
+describe('AccountDeletionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the privacy retention period as the grace period', () => {
+    expect(AccountDeletionService.GRACE_PERIOD_DAYS).toBe(30);
+  });
+
+  describe('requestDeletion', () => {
+    it('confirms the password before scheduling the deletion', async () => {
+      (supabase.auth.signInWithPassword as jest.Mock).mockResolvedValue({ data: {}, error: null });
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: pendingRequest, error: null });
+
+      const request = await AccountDeletionService.requestDeletion('sam@example.com', 'secret');
+
+      expect(supabase.auth.signInWithPassword).toHaveBeenCalledWith({
+        email: 'sam@example.com',
+        password: 'secret',
+      });
+      expect(supabase.rpc).toHaveBeenCalledWith('request_account_deletion');
+      expect(request.scheduled_for).toBe('2026-10-31T10:00:00Z');
+    });
+
+    it('rejects a wrong password without scheduling anything', async () => {
+      (supabase.auth.signInWithPassword as jest.Mock).mockResolvedValue({
+        data: {},
+        error: { message: 'Invalid login credentials' },
+      });
+
+      await expect(
+        AccountDeletionService.requestDeletion('sam@example.com', 'wrong')
+      ).rejects.toThrow('Incorrect password');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('surfaces database rejections', async () => {
+      (supabase.auth.signInWithPassword as jest.Mock).mockResolvedValue({ data: {}, error: null });
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Close or transfer your venue accounts before deleting your account' },
+      });
+
+      await expect(
+        AccountDeletionService.requestDeletion('sam@example.com', 'secret')
+      ).rejects.toThrow('Failed to delete account: Close or transfer your venue accounts');
+    });
+  });
+
+  describe('getPendingDeletion', () => {
+    const mockQuery = (result: { data: unknown; error: unknown }) => {
+      const query = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        in: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue(result),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(query);
+      return query;
+    };
+
+    it('looks for pending and failed requests', async () => {
+      const query = mockQuery({ data: pendingRequest, error: null });
+
+      const request = await AccountDeletionService.getPendingDeletion('user-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('account_deletion_requests');
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(query.in).toHaveBeenCalledWith('status', ['pending', 'failed']);
+      expect(request).toEqual(pendingRequest);
+    });
+
+    it('returns null when the account is not being deleted', async () => {
+      mockQuery({ data: null, error: null });
+
+      await expect(AccountDeletionService.getPendingDeletion('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('cancels the pending request', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: true, error: null });
+
+      await expect(AccountDeletionService.cancelDeletion()).resolves.toBe(true);
+      expect(supabase.rpc).toHaveBeenCalledWith('cancel_account_deletion');
+    });
+
+    it('throws when the request fails', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+      await expect(AccountDeletionService.cancelDeletion()).rejects.toThrow(
+        'Failed to restore account: boom'
+      );
+    });
+  });
+});
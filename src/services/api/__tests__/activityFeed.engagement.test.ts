@@ -0,0 +1,238 @@
+/**
+ * Tests for Activity Likes and Comments
+ * Feature: social-friend-system
+ *
+ * Tests cover:
+ * - Liking activities and owner notifications
+ * - Comment moderation and validation
+ * - Reply notifications to activity owner and parent comment author
+ * - Threading comments into nested replies
+ */
+
+import { ActivityFeedService } from '../activityFeed';
+import { supabase } from '../../../lib/supabase';
+import { NotificationService } from '../notifications';
+import type { ActivityComment } from '../../../types/social.types';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}));
+
+// Mock NotificationService
+jest.mock('../notifications', () => ({
+  NotificationService: {
+    sendActivityLikeNotification: jest.fn(),
+    sendActivityCommentNotification: jest.fn()
+  }
+}));
+
+const mockActivity = {
+  id: 'activity-1',
+  user_id: 'owner-1',
+  activity_type: 'checkin',
+  venue_id: 'venue-1',
+  collection_id: null,
+  group_outing_id: null,
+  privacy_level: 'friends',
+  metadata: {},
+  created_at: new Date().toISOString()
+};
+
+/**
+ * Mock the activity_feed lookup used before likes and comments
+ */
+const mockActivityFetch = () => ({
+  select: jest.fn().mockReturnThis(),
+  eq: jest.fn().mockReturnThis(),
+  maybeSingle: jest.fn().mockResolvedValue({ data: mockActivity, error: null })
+});
+
+const makeComment = (overrides: Partial<ActivityComment> = {}): ActivityComment => ({
+  id: 'comment-1',
+  activity_id: 'activity-1',
+  user_id: 'user-1',
+  parent_comment_id: null,
+  comment_text: 'Nice spot',
+  created_at: new Date().toISOString(),
+  ...overrides
+});
+
+describe('ActivityFeedService engagement', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('likeActivity', () => {
+    it('should like the activity and notify the owner', async () => {
+      const upsert = jest.fn().mockReturnThis();
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'activity_feed'
+          ? mockActivityFetch()
+          : {
+              upsert,
+              select: jest.fn().mockResolvedValue({ data: [{ id: 'like-1' }], error: null })
+            }
+      );
+
+      await ActivityFeedService.likeActivity('activity-1', 'liker-1');
+
+      expect(upsert).toHaveBeenCalledWith(
+        { activity_id: 'activity-1', user_id: 'liker-1' },
+        { onConflict: 'activity_id,user_id', ignoreDuplicates: true }
+      );
+      expect(NotificationService.sendActivityLikeNotification).toHaveBeenCalledWith(
+        mockActivity,
+        'liker-1'
+      );
+    });
+
+    it('should not notify again when the activity was already liked', async () => {
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'activity_feed'
+          ? mockActivityFetch()
+          : {
+              upsert: jest.fn().mockReturnThis(),
+              select: jest.fn().mockResolvedValue({ data: [], error: null })
+            }
+      );
+
+      await ActivityFeedService.likeActivity('activity-1', 'liker-1');
+
+      expect(NotificationService.sendActivityLikeNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not notify owners who like their own activity', async () => {
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'activity_feed'
+          ? mockActivityFetch()
+          : {
+              upsert: jest.fn().mockReturnThis(),
+              select: jest.fn().mockResolvedValue({ data: [{ id: 'like-1' }], error: null })
+            }
+      );
+
+      await ActivityFeedService.likeActivity('activity-1', 'owner-1');
+
+      expect(NotificationService.sendActivityLikeNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addActivityComment', () => {
+    it('should reject empty comments', async () => {
+      await expect(
+        ActivityFeedService.addActivityComment('activity-1', 'user-1', '   ')
+      ).rejects.toThrow('Comment cannot be empty');
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should reject severe content before saving', async () => {
+      await expect(
+        ActivityFeedService.addActivityComment('activity-1', 'user-1', 'I will kill you')
+      ).rejects.toThrow();
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should notify the activity owner and parent comment author of a reply', async () => {
+      const reply = makeComment({
+        id: 'comment-2',
+        user_id: 'replier-1',
+        parent_comment_id: 'comment-1'
+      });
+      const insert = jest.fn().mockReturnThis();
+
+      let commentCalls = 0;
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'activity_feed') {
+          return mockActivityFetch();
+        }
+        commentCalls++;
+        if (commentCalls === 1) {
+          // Parent comment lookup
+          return {
+            select: jest.fn().mockReturnThis(),
+            eq: jest.fn().mockReturnThis(),
+            maybeSingle: jest.fn().mockResolvedValue({
+              data: { user_id: 'commenter-1', activity_id: 'activity-1' },
+              error: null
+            })
+          };
+        }
+        return {
+          insert,
+          select: jest.fn().mockReturnThis(),
+          single: jest.fn().mockResolvedValue({ data: reply, error: null })
+        };
+      });
+
+      const result = await ActivityFeedService.addActivityComment(
+        'activity-1',
+        'replier-1',
+        '  Agreed!  ',
+        'comment-1'
+      );
+
+      expect(result).toEqual(reply);
+      expect(insert).toHaveBeenCalledWith({
+        activity_id: 'activity-1',
+        user_id: 'replier-1',
+        parent_comment_id: 'comment-1',
+        comment_text: 'Agreed!'
+      });
+      expect(NotificationService.sendActivityCommentNotification).toHaveBeenCalledTimes(2);
+      expect(NotificationService.sendActivityCommentNotification).toHaveBeenCalledWith(
+        mockActivity,
+        reply,
+        'owner-1'
+      );
+      expect(NotificationService.sendActivityCommentNotification).toHaveBeenCalledWith(
+        mockActivity,
+        reply,
+        'commenter-1'
+      );
+    });
+
+    it('should reject replies to comments on a different activity', async () => {
+      let commentCalls = 0;
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'activity_feed') {
+          return mockActivityFetch();
+        }
+        commentCalls++;
+        return {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          maybeSingle: jest.fn().mockResolvedValue({
+            data: { user_id: 'commenter-1', activity_id: 'other-activity' },
+            error: null
+          })
+        };
+      });
+
+      await expect(
+        ActivityFeedService.addActivityComment('activity-1', 'user-1', 'Hello', 'comment-1')
+      ).rejects.toThrow('Comment being replied to was not found');
+      expect(commentCalls).toBe(1);
+    });
+  });
+
+  describe('buildCommentThreads', () => {
+    it('should nest replies under their parent comment', () => {
+      const threads = ActivityFeedService.buildCommentThreads([
+        makeComment({ id: 'c1' }),
+        makeComment({ id: 'c2' }),
+        makeComment({ id: 'r1', parent_comment_id: 'c1' }),
+        makeComment({ id: 'r2', parent_comment_id: 'c1' })
+      ]);
+
+      expect(threads.map((comment) => comment.id)).toEqual(['c1', 'c2']);
+      expect(threads[0].replies?.map((reply) => reply.id)).toEqual(['r1', 'r2']);
+      expect(threads[1].replies).toEqual([]);
+    });
+  });
+});
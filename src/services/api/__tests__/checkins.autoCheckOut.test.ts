@@ -0,0 +1,196 @@
+/**
+ * Tests for CheckInService Automatic Check-Out
+ * Feature: automatic-check-out
+ *
+ * Tests cover:
+ * - Recording the check-out reason
+ * - Loading the active check-in with its category dwell limit
+ * - Dwell time, closing time and geofence exit rules
+ */
+
+import { CheckInService } from '../checkins';
+import { supabase } from '../../../lib/supabase';
+import type { CheckInExpiryContext } from '../../../types';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+// Wednesday Jan 14 2026, 9:00 PM local time
+const now = new Date(2026, 0, 14, 21, 0);
+
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000).toISOString();
+
+const buildContext = (overrides: Partial<CheckInExpiryContext['checkIn']> = {}): CheckInExpiryContext => ({
+  checkIn: {
+    id: 'checkin-1',
+    venue_id: 'venue-1',
+    user_id: 'user-1',
+    checked_in_at: minutesAgo(60),
+    checked_out_at: null,
+    is_active: true,
+    created_at: minutesAgo(60),
+    updated_at: minutesAgo(60),
+    verification_status: 'verified',
+    ...overrides,
+  },
+  venue: {
+    category: 'Restaurants',
+    hours: { wednesday: '11:00 AM - 10:00 PM' },
+    latitude: 40.7128,
+    longitude: -74.006,
+    check_in_radius_meters: 150,
+  },
+  maxDwellMinutes: 180,
+});
+
+describe('CheckInService - Automatic Check-Out', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkOut', () => {
+    it('should record a manual check-out by default', async () => {
+      const mockQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+      };
+      mockQuery.eq
+        .mockReturnValueOnce(mockQuery)
+        .mockReturnValueOnce(mockQuery)
+        .mockResolvedValueOnce({ error: null });
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+
+      await CheckInService.checkOut('checkin-1', 'user-1');
+
+      expect(mockQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ is_active: false, checkout_reason: 'manual' })
+      );
+      expect(mockQuery.eq).toHaveBeenCalledWith('is_active', true);
+    });
+  });
+
+  describe('getActiveCheckInExpiryContext', () => {
+    it('should return the check-in with its category dwell limit', async () => {
+      const checkInQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: { ...buildContext().checkIn, venues: buildContext().venue },
+          error: null,
+        }),
+      };
+      const dwellQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: { max_dwell_minutes: 180 }, error: null }),
+      };
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'check_in_dwell_limits' ? dwellQuery : checkInQuery
+      );
+
+      const context = await CheckInService.getActiveCheckInExpiryContext('user-1');
+
+      expect(dwellQuery.eq).toHaveBeenCalledWith('category', 'Restaurants');
+      expect(context?.checkIn.id).toBe('checkin-1');
+      expect(context?.checkIn).not.toHaveProperty('venues');
+      expect(context?.maxDwellMinutes).toBe(180);
+    });
+
+    it('should fall back to the default dwell limit for unlisted categories', async () => {
+      const checkInQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: { ...buildContext().checkIn, venues: { ...buildContext().venue, category: 'Arcades' } },
+          error: null,
+        }),
+      };
+      const dwellQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'check_in_dwell_limits' ? dwellQuery : checkInQuery
+      );
+
+      const context = await CheckInService.getActiveCheckInExpiryContext('user-1');
+
+      expect(context?.maxDwellMinutes).toBe(240);
+    });
+
+    it('should return null when the user is not checked in', async () => {
+      const checkInQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(checkInQuery);
+
+      await expect(CheckInService.getActiveCheckInExpiryContext('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('getAutoCheckOutReason', () => {
+    const atVenue = { latitude: 40.7128, longitude: -74.006, accuracy: 10 };
+    // Roughly 1.1 km north of the venue
+    const awayFromVenue = { latitude: 40.7228, longitude: -74.006, accuracy: 10 };
+
+    it('should keep a recent check-in at an open venue', () => {
+      expect(CheckInService.getAutoCheckOutReason(buildContext(), atVenue, now)).toBeNull();
+    });
+
+    it('should check out after the dwell limit', () => {
+      const context = buildContext({ checked_in_at: minutesAgo(181) });
+
+      expect(CheckInService.getAutoCheckOutReason(context, atVenue, now)).toBe('max_dwell');
+    });
+
+    it('should check out when the venue has closed', () => {
+      const context = buildContext();
+      const afterClose = new Date(2026, 0, 14, 22, 30);
+
+      expect(CheckInService.getAutoCheckOutReason(context, atVenue, afterClose)).toBe('venue_closed');
+    });
+
+    it('should not apply closing time to check-ins younger than the grace period', () => {
+      const context = buildContext({ checked_in_at: minutesAgo(10) });
+      context.venue.hours = { wednesday: 'Closed' };
+
+      expect(CheckInService.getAutoCheckOutReason(context, atVenue, now)).toBeNull();
+    });
+
+    it('should ignore hours it cannot interpret', () => {
+      const context = buildContext();
+      context.venue.hours = { wednesday: 'By appointment' };
+
+      expect(CheckInService.getAutoCheckOutReason(context, atVenue, now)).toBeNull();
+    });
+
+    it('should check out when the device leaves the geofence', () => {
+      expect(CheckInService.getAutoCheckOutReason(buildContext(), awayFromVenue, now)).toBe('left_geofence');
+    });
+
+    it('should not use the geofence for unverified check-ins or inaccurate fixes', () => {
+      const unverified = buildContext({ verification_status: 'unverified' });
+
+      expect(CheckInService.getAutoCheckOutReason(unverified, awayFromVenue, now)).toBeNull();
+      expect(
+        CheckInService.getAutoCheckOutReason(buildContext(), { ...awayFromVenue, accuracy: 500 }, now)
+      ).toBeNull();
+      expect(CheckInService.getAutoCheckOutReason(buildContext(), null, now)).toBeNull();
+    });
+  });
+});
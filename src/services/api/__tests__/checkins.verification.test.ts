@@ -0,0 +1,141 @@
+/**
+ * Tests for CheckInService Location Verification
+ * Feature: geo-fenced-check-ins
+ *
+ * Tests cover:
+ * - Submitting the device location to the check_in_with_location RPC
+ * - Checking in without a location when it is unavailable
+ * - Counting verified and unverified check-ins
+ * - User-facing verification messages
+ */
+
+import { CheckInService } from '../checkins';
+import { supabase } from '../../../lib/supabase';
+import { LocationService } from '../../locationService';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../locationService', () => ({
+  LocationService: {
+    getCurrentLocation: jest.fn(),
+  },
+}));
+
+describe('CheckInService - Location Verification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkIn', () => {
+    it('should submit the device location for server-side verification', async () => {
+      (LocationService.getCurrentLocation as jest.Mock).mockResolvedValue({
+        latitude: 40.7128,
+        longitude: -74.006,
+        accuracy: 12,
+      });
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: { id: 'checkin-1', verification_status: 'verified', verification_reason: null },
+        error: null,
+      });
+
+      const checkIn = await CheckInService.checkIn('venue-1', 'user-1');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('check_in_with_location', {
+        p_venue_id: 'venue-1',
+        p_user_id: 'user-1',
+        p_latitude: 40.7128,
+        p_longitude: -74.006,
+        p_accuracy_meters: 12,
+      });
+      expect(checkIn.verification_status).toBe('verified');
+    });
+
+    it('should check in without coordinates when location is unavailable', async () => {
+      (LocationService.getCurrentLocation as jest.Mock).mockRejectedValue(
+        new Error('Location permission denied')
+      );
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: { id: 'checkin-1', verification_status: 'unverified', verification_reason: 'location_unavailable' },
+        error: null,
+      });
+
+      const checkIn = await CheckInService.checkIn('venue-1', 'user-1');
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'check_in_with_location',
+        expect.objectContaining({ p_latitude: null, p_longitude: null, p_accuracy_meters: null })
+      );
+      expect(checkIn.verification_status).toBe('unverified');
+      expect(checkIn.verification_reason).toBe('location_unavailable');
+    });
+
+    it('should use a provided location instead of looking it up', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: { id: 'checkin-1', verification_status: 'verified' },
+        error: null,
+      });
+
+      await CheckInService.checkIn('venue-1', 'user-1', { latitude: 1, longitude: 2, accuracy: 5 });
+
+      expect(LocationService.getCurrentLocation).not.toHaveBeenCalled();
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'check_in_with_location',
+        expect.objectContaining({ p_latitude: 1, p_longitude: 2, p_accuracy_meters: 5 })
+      );
+    });
+
+    it('should throw when the RPC fails', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Venue not found' },
+      });
+
+      await expect(CheckInService.checkIn('venue-1', 'user-1', null)).rejects.toThrow(
+        'Failed to check in: Venue not found'
+      );
+    });
+  });
+
+  describe('getVenueVerificationCounts', () => {
+    it('should count verified and unverified check-ins', async () => {
+      const mockQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        gte: jest.fn().mockResolvedValue({
+          data: [
+            { verification_status: 'verified' },
+            { verification_status: 'unverified' },
+            { verification_status: 'verified' },
+          ],
+          error: null,
+        }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+
+      const counts = await CheckInService.getVenueVerificationCounts('venue-1');
+
+      expect(counts).toEqual({ verified: 2, unverified: 1 });
+    });
+  });
+
+  describe('getVerificationMessage', () => {
+    it('should explain each unverified reason', () => {
+      expect(CheckInService.getVerificationMessage('outside_radius')).toContain("doesn't appear to be at this venue");
+      expect(CheckInService.getVerificationMessage('low_accuracy')).toContain('precise');
+      expect(CheckInService.getVerificationMessage(null)).toBe('Your location was not verified.');
+    });
+  });
+});
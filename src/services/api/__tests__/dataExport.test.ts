@@ -0,0 +1,128 @@
+/**
+ * Tests for DataExportService
+ *
+ * - The export function is called with the user's session token
+ * - Function errors are surfaced to the caller
+ * - The download link is handed to the share sheet
+ */
+
+import { Share } from 'react-native';
+import { DataExportService } from '../dataExport';
+import { supabase } from '../../../lib/supabase';
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    supabaseUrl: 'https://test.supabase.co',
+    auth: {
+      getSession: jest.fn(),
+    },
+  },
+}));
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+/**
+ * Mock the Edge Function response
+ */
+const mockFunctionResponse = (status: number, body: Record<string, unknown>) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    json: jest.fn().mockResolvedValue(body),
+  });
+};
+
+const exportResponse = {
+  success: true,
+  url: 'https://test.supabase.co/storage/v1/object/sign/data-exports/user-1/archive.zip?token=abc',
+  fileName: 'my-data-2026-10-19.zip',
+  expiresAt: '2026-10-20T12:00:00Z',
+  formatVersion: 1,
+  reused: false,
+};
+
+describe('DataExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (supabase.auth.getSession as jest.Mock).mockResolvedValue({
+      data: { session: { access_token: 'jwt-token' } },
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requestExport', () => {
+    it('calls the export function with the session token', async () => {
+      mockFunctionResponse(200, exportResponse);
+
+      const result = await DataExportService.requestExport();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.supabase.co/functions/v1/export-user-data',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer jwt-token' }),
+        })
+      );
+      expect(result).toEqual({
+        url: exportResponse.url,
+        fileName: 'my-data-2026-10-19.zip',
+        expiresAt: '2026-10-20T12:00:00Z',
+        formatVersion: 1,
+        reused: false,
+      });
+    });
+
+    it('requires a signed-in user', async () => {
+      (supabase.auth.getSession as jest.Mock).mockResolvedValue({
+        data: { session: null },
+        error: null,
+      });
+
+      await expect(DataExportService.requestExport()).rejects.toThrow('Authentication required');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('surfaces function errors', async () => {
+      mockFunctionResponse(500, {
+        success: false,
+        error: 'Failed to collect your data',
+        code: 'DATABASE_ERROR',
+      });
+
+      await expect(DataExportService.requestExport()).rejects.toThrow(
+        'Failed to export your data: Failed to collect your data'
+      );
+    });
+  });
+
+  describe('shareExport', () => {
+    it('shares the download link', async () => {
+      mockFunctionResponse(200, exportResponse);
+      const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.sharedAction });
+
+      await expect(DataExportService.shareExport()).resolves.toBe(true);
+      expect(share).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'my-data-2026-10-19.zip',
+          url: exportResponse.url,
+          message: expect.stringContaining(exportResponse.url),
+        }),
+        { subject: 'my-data-2026-10-19.zip' }
+      );
+    });
+
+    it('returns false when the share sheet is dismissed', async () => {
+      mockFunctionResponse(200, exportResponse);
+      jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.dismissedAction });
+
+      await expect(DataExportService.shareExport()).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * FlashOfferAnalyticsService Funnel Tests
+ *
+ * Tests for the conversion funnel report:
+ * - Segment rows are grouped into per-offer funnels and totals
+ * - Incremental visits against the four-week baseline
+ */
+
+import { FlashOfferAnalyticsService } from '../flashOfferAnalytics';
+import { supabase } from '../../../lib/supabase';
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const offerRow = {
+  offer_id: 'offer-1',
+  title: 'Happy Hour',
+  start_time: '2026-10-02T17:00:00Z',
+  end_time: '2026-10-02T19:00:00Z',
+  pushes_delivered: 200,
+  window_check_ins: 30,
+  baseline_check_ins: '20.00',
+};
+
+const segment = (
+  customerType: string | null,
+  distanceBand: string | null,
+  counts: number[]
+) => ({
+  ...offerRow,
+  customer_type: customerType,
+  distance_band: distanceBand,
+  opens: counts[0],
+  views: counts[1],
+  claims: counts[2],
+  redemptions: counts[3],
+  attributed_check_ins: counts[4],
+});
+
+describe('FlashOfferAnalyticsService.getFunnelReport', () => {
+  const from = new Date('2026-10-01T00:00:00Z');
+  const to = new Date('2026-10-08T00:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes the range and check-in window to the database', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({ data: [], error: null });
+
+    const report = await FlashOfferAnalyticsService.getFunnelReport('venue-1', {
+      from,
+      to,
+      checkInWindowHours: 6,
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_flash_offer_funnel', {
+      p_venue_id: 'venue-1',
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+      p_check_in_window_hours: 6,
+      p_offer_id: null,
+    });
+    expect(report.offers).toEqual([]);
+    expect(report.check_in_window_hours).toBe(6);
+  });
+
+  it('sums segments into the offer funnel and both breakdowns', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: [
+        segment('new', 'under_1_mi', [10, 12, 5, 4, 3]),
+        segment('new', '3_to_5_mi', [6, 6, 2, 1, 1]),
+        segment('returning', 'under_1_mi', [8, 9, 6, 6, 5]),
+      ],
+      error: null,
+    });
+
+    const { offers, totals } = await FlashOfferAnalyticsService.getFunnelReport('venue-1', { from, to });
+
+    expect(offers).toHaveLength(1);
+    expect(offers[0]).toMatchObject({
+      offer_id: 'offer-1',
+      pushes_delivered: 200,
+      opens: 24,
+      views: 27,
+      claims: 13,
+      redemptions: 11,
+      check_ins: 9,
+    });
+    expect(offers[0].by_customer_type.new).toEqual({
+      opens: 16, views: 18, claims: 7, redemptions: 5, check_ins: 4,
+    });
+    expect(offers[0].by_distance_band.under_1_mi.check_ins).toBe(8);
+    expect(offers[0].by_distance_band['3_to_5_mi'].check_ins).toBe(1);
+    expect(totals.check_ins).toBe(9);
+    expect(totals.pushes_delivered).toBe(200);
+  });
+
+  it('estimates incremental visits against the baseline', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: [
+        segment(null, null, [0, 0, 0, 0, 0]),
+        {
+          ...segment(null, null, [0, 0, 0, 0, 0]),
+          offer_id: 'offer-2',
+          pushes_delivered: 50,
+          window_check_ins: 5,
+          baseline_check_ins: '0.00',
+        },
+      ],
+      error: null,
+    });
+
+    const { offers, totals } = await FlashOfferAnalyticsService.getFunnelReport('venue-1', { from, to });
+
+    expect(offers[0].attribution).toEqual({
+      window_check_ins: 30,
+      baseline_check_ins: 20,
+      incremental_visits: 10,
+      lift_percent: 50,
+    });
+    // No usual traffic to compare against
+    expect(offers[1].attribution.lift_percent).toBeNull();
+    expect(totals.attribution).toEqual({
+      window_check_ins: 35,
+      baseline_check_ins: 20,
+      incremental_visits: 15,
+      lift_percent: 75,
+    });
+    expect(totals.opens).toBe(0);
+  });
+
+  it('throws when the report fails to load', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValue({
+      data: null,
+      error: { message: 'Not authorized to view this venue\'s analytics' },
+    });
+
+    await expect(
+      FlashOfferAnalyticsService.getFunnelReport('venue-1', { from, to })
+    ).rejects.toThrow('Failed to fetch funnel report: Not authorized to view this venue\'s analytics');
+  });
+});
@@ -15,6 +15,9 @@ import { ClaimService } from '../flashOfferClaims';
 import { supabase } from '../../../lib/supabase';
 import { generateFlashOfferToken } from '../../../utils/tokenGenerator';
 import { FlashOfferAnalyticsService } from '../flashOfferAnalytics';
+import { CheckInService } from '../checkins';
+import { FlashOfferCache } from '../../../utils/cache/FlashOfferCache';
+import { NetworkErrorHandler } from '../../../utils/errors/NetworkErrorHandler';
 
 // Mock Supabase
 jest.mock('../../../lib/supabase', () => ({
@@ -49,7 +52,14 @@ jest.mock('../../../utils/errors/NetworkErrorHandler', () => ({
 jest.mock('../../../utils/cache/FlashOfferCache', () => ({
   FlashOfferCache: {
     cacheUserClaims: jest.fn(),
-    getCachedUserClaims: jest.fn()
+    getCachedUserClaims: jest.fn(),
+    cacheVenueClaims: jest.fn(),
+    getCachedVenueClaims: jest.fn(),
+    addPendingRedemption: jest.fn(),
+    getPendingRedemptions: jest.fn(),
+    removePendingRedemption: jest.fn(),
+    recordPendingRedemptionFailure: jest.fn(),
+    addRedemptionConflicts: jest.fn()
   }
 }));
 
@@ -659,64 +669,270 @@ describe('ClaimService - Claim Flow (Task 16.2)', () => {
 
   });
 
-  describe('Redemption flow (Task 16.3)', () => {
-    it('should successfully redeem a valid token', async () => {
-      const claimId = 'claim-123';
-      const staffUserId = 'staff-123';
-      const offerId = 'offer-123';
-      const userId = 'user-123';
+  describe('Offer targeting and per-user limits', () => {
+    const offerId = 'offer-123';
+    const userId = 'user-123';
+    const venueId = 'venue-123';
 
-      const mockActiveClaim = {
-        id: claimId,
-        offer_id: offerId,
-        user_id: userId,
-        token: '123456',
+    // Venue in lower Manhattan
+    const venue = { id: venueId, allow_unverified_claims: false, latitude: 40.7128, longitude: -74.006 };
+
+    const mockTables = (
+      offerOverrides: Record<string, unknown>,
+      favorite: unknown,
+      lastLocation: unknown,
+      weeklyClaims = 0
+    ) => {
+      const mockOffer = {
+        id: offerId,
+        venue_id: venueId,
         status: 'active',
-        expires_at: new Date(Date.now() + 86400000).toISOString(), // Valid for 24 hours
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        redeemed_at: null,
-        redeemed_by_user_id: null
+        end_time: new Date(Date.now() + 3600000).toISOString(),
+        claimed_count: 5,
+        max_claims: 10,
+        target_favorites_only: false,
+        radius_miles: null,
+        venues: venue,
+        ...offerOverrides
       };
 
-      const mockRedeemedClaim = {
-        ...mockActiveClaim,
-        status: 'redeemed',
-        redeemed_at: new Date().toISOString(),
-        redeemed_by_user_id: staffUserId
+      const mockOfferQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: mockOffer, error: null })
       };
 
-      const mockFetchQuery = {
+      const mockExistingClaimQuery = {
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockActiveClaim, error: null })
+        gte: jest.fn().mockResolvedValue({ count: weeklyClaims, error: null }),
+        single: jest.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
       };
 
-      const mockUpdateQuery = {
-        update: jest.fn().mockReturnThis(),
+      const mockCheckInQuery = {
+        select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'checkin-123', verification_status: 'verified' },
+          error: null
+        })
+      };
+
+      const mockLocationQuery = {
         select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockRedeemedClaim, error: null })
+        eq: jest.fn().mockReturnThis(),
+        not: jest.fn().mockReturnThis(),
+        gte: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: lastLocation, error: null })
       };
 
-      let callCount = 0;
+      const mockFavoriteQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: favorite, error: null })
+      };
+
+      let checkInCalls = 0;
       (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        if (table === 'flash_offer_claims') {
-          callCount++;
-          if (callCount === 1) {
-            return mockFetchQuery; // First call fetches the claim
-          } else {
-            return mockUpdateQuery; // Second call updates the claim
-          }
+        if (table === 'flash_offers') {
+          return mockOfferQuery;
+        } else if (table === 'flash_offer_claims') {
+          return mockExistingClaimQuery;
+        } else if (table === 'favorites') {
+          return mockFavoriteQuery;
+        } else if (table === 'check_ins') {
+          checkInCalls++;
+          return checkInCalls === 1 ? mockCheckInQuery : mockLocationQuery;
         }
-        return mockFetchQuery;
+        return mockOfferQuery;
+      });
+    };
+
+    it('should return typed reason codes with messages', async () => {
+      mockTables({ status: 'cancelled' }, null, null);
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result).toEqual({
+        eligible: false,
+        reason: 'offer_not_active',
+        message: 'This offer is not currently active'
+      });
+    });
+
+    it('should reject favorites-only offers for users who have not favorited the venue', async () => {
+      mockTables({ target_favorites_only: true }, null, null);
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result.eligible).toBe(false);
+      expect(result.reason).toBe('not_favorite');
+
+      mockTables({ target_favorites_only: true }, null, null);
+      await expect(ClaimService.claimOffer(offerId, userId)).rejects.toMatchObject({
+        reason: 'not_favorite'
+      });
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should allow favorites-only offers for users who favorited the venue', async () => {
+      mockTables({ target_favorites_only: true }, { id: 'favorite-123' }, null);
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result).toEqual({ eligible: true });
+    });
+
+    it('should reject users whose last known location is outside the radius', async () => {
+      // Roughly 7 miles north of the venue
+      mockTables({ radius_miles: 2 }, null, { latitude: 40.8128, longitude: -74.006 });
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result.eligible).toBe(false);
+      expect(result.reason).toBe('outside_radius');
+      expect(result.message).toBe("You are outside this offer's radius");
+    });
+
+    it('should allow users inside the radius or without a recent location', async () => {
+      mockTables({ radius_miles: 2 }, null, { latitude: 40.7228, longitude: -74.006 });
+      await expect(ClaimService.validateClaimEligibility(offerId, userId)).resolves.toEqual({
+        eligible: true
+      });
+
+      mockTables({ radius_miles: 2 }, null, null);
+      await expect(ClaimService.validateClaimEligibility(offerId, userId)).resolves.toEqual({
+        eligible: true
+      });
+    });
+
+    it('should reject users who reached the weekly claim limit for the venue', async () => {
+      mockTables({ max_claims_per_user_per_week: 2 }, null, null, 2);
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result.eligible).toBe(false);
+      expect(result.reason).toBe('user_claim_limit_reached');
+    });
+
+    it('should allow users under the weekly claim limit', async () => {
+      mockTables({ max_claims_per_user_per_week: 2 }, null, null, 1);
+
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result).toEqual({ eligible: true });
+    });
+
+    it('should count the current visit for first-time visitor offers', async () => {
+      const visitCount = jest.spyOn(CheckInService, 'getUserVenueVisitCount');
+
+      visitCount.mockResolvedValueOnce(1);
+      mockTables({ visitor_audience: 'first_time' }, null, null);
+      await expect(ClaimService.validateClaimEligibility(offerId, userId)).resolves.toEqual({
+        eligible: true
+      });
+
+      visitCount.mockResolvedValueOnce(2);
+      mockTables({ visitor_audience: 'first_time' }, null, null);
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result.reason).toBe('not_first_visit');
+      expect(visitCount).toHaveBeenCalledWith(userId, venueId);
+      visitCount.mockRestore();
+    });
+
+    it('should require the minimum visits for returning customer offers', async () => {
+      const visitCount = jest.spyOn(CheckInService, 'getUserVenueVisitCount');
+
+      visitCount.mockResolvedValueOnce(2);
+      mockTables({ visitor_audience: 'returning', min_visit_count: 3 }, null, null);
+      const result = await ClaimService.validateClaimEligibility(offerId, userId);
+
+      expect(result.reason).toBe('not_returning_customer');
+
+      visitCount.mockResolvedValueOnce(3);
+      mockTables({ visitor_audience: 'returning', min_visit_count: 3 }, null, null);
+      await expect(ClaimService.validateClaimEligibility(offerId, userId)).resolves.toEqual({
+        eligible: true
+      });
+      visitCount.mockRestore();
+    });
+
+    it('should map per-user limit errors from the claim RPC to reason codes', async () => {
+      mockTables({}, null, null);
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: "You have reached this venue's weekly claim limit" }
+      });
+
+      await expect(ClaimService.claimOffer(offerId, userId)).rejects.toMatchObject({
+        reason: 'user_claim_limit_reached'
+      });
+    });
+
+    it('should map targeting errors from the claim RPC to reason codes', async () => {
+      mockTables({}, null, null);
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: "You are outside this offer's radius" }
+      });
+
+      await expect(ClaimService.claimOffer(offerId, userId)).rejects.toMatchObject({
+        reason: 'outside_radius'
+      });
+    });
+  });
+
+  describe('Redemption flow (Task 16.3)', () => {
+    const mockClaim = (overrides: Record<string, any> = {}) => ({
+      id: 'claim-123',
+      offer_id: 'offer-123',
+      user_id: 'user-123',
+      token: '123456',
+      status: 'active',
+      expires_at: new Date(Date.now() + 86400000).toISOString(), // Valid for 24 hours
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      redeemed_at: null,
+      redeemed_by_user_id: null,
+      ...overrides
+    });
+
+    const mockRedemptionResult = (
+      outcome: 'success' | 'failed',
+      failureReason: string | null,
+      claim: Record<string, any> | null
+    ) => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [{ outcome, failure_reason: failureReason, ...claim }],
+        error: null
       });
+    };
+
+    it('should successfully redeem a valid token', async () => {
+      const claimId = 'claim-123';
+      const staffUserId = 'staff-123';
+      const offerId = 'offer-123';
+      const userId = 'user-123';
+
+      mockRedemptionResult('success', null, mockClaim({
+        status: 'redeemed',
+        redeemed_at: new Date().toISOString(),
+        redeemed_by_user_id: staffUserId
+      }));
 
       const result = await ClaimService.redeemClaim(claimId, staffUserId);
 
+      expect(supabase.rpc).toHaveBeenCalledWith('redeem_claim_atomic', {
+        p_claim_id: claimId,
+        p_device_info: expect.any(String)
+      });
       expect(result.status).toBe('redeemed');
       expect(result.redeemed_by_user_id).toBe(staffUserId);
       expect(result.redeemed_at).toBeTruthy();
+      expect(result).not.toHaveProperty('outcome');
       expect(FlashOfferAnalyticsService.trackRedeem).toHaveBeenCalledWith(
         offerId,
         userId,
@@ -751,7 +967,6 @@ describe('ClaimService - Claim Flow (Task 16.2)', () => {
     });
 
     it('should handle invalid token (wrong venue)', async () => {
-      const venueId = 'venue-123';
       const wrongVenueId = 'venue-456';
       const token = '123456';
 
@@ -778,192 +993,333 @@ describe('ClaimService - Claim Flow (Task 16.2)', () => {
     });
 
     it('should prevent redeeming expired claim', async () => {
-      const claimId = 'claim-123';
-      const staffUserId = 'staff-123';
+      mockRedemptionResult('failed', 'expired', mockClaim({
+        expires_at: new Date(Date.now() - 3600000).toISOString() // Expired 1 hour ago
+      }));
 
-      const mockExpiredClaim = {
-        id: claimId,
-        offer_id: 'offer-123',
-        user_id: 'user-123',
-        token: '123456',
-        status: 'active',
-        expires_at: new Date(Date.now() - 3600000).toISOString(), // Expired 1 hour ago
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        redeemed_at: null,
-        redeemed_by_user_id: null
-      };
+      await expect(ClaimService.redeemClaim('claim-123', 'staff-123')).rejects.toThrow(
+        'This claim has expired'
+      );
+      expect(FlashOfferAnalyticsService.trackRedeem).not.toHaveBeenCalled();
+    });
 
-      const mockClaimQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockExpiredClaim, error: null })
-      };
+    it('should prevent redeeming already redeemed claim', async () => {
+      mockRedemptionResult('failed', 'already_redeemed', mockClaim({
+        status: 'redeemed',
+        redeemed_at: new Date().toISOString(),
+        redeemed_by_user_id: 'other-staff-123'
+      }));
 
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        if (table === 'flash_offer_claims') {
-          return mockClaimQuery;
-        }
-        return mockClaimQuery;
-      });
+      await expect(ClaimService.redeemClaim('claim-123', 'staff-123')).rejects.toThrow(
+        'This claim has already been redeemed'
+      );
+    });
 
-      await expect(ClaimService.redeemClaim(claimId, staffUserId)).rejects.toThrow(
-        'This claim has expired'
+    it('should prevent redeeming a claim for another venue', async () => {
+      mockRedemptionResult('failed', 'not_authorized', null);
+
+      await expect(ClaimService.redeemClaim('claim-123', 'staff-123')).rejects.toThrow(
+        'not authorized to redeem claims for this venue'
       );
+      expect(FlashOfferAnalyticsService.trackRedeem).not.toHaveBeenCalled();
     });
 
-    it('should prevent redeeming claim with expired status', async () => {
-      const claimId = 'claim-123';
-      const staffUserId = 'staff-123';
+    it('should surface RPC errors', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Not authenticated' }
+      });
 
-      const mockExpiredClaim = {
-        id: claimId,
-        offer_id: 'offer-123',
-        user_id: 'user-123',
-        token: '123456',
-        status: 'expired',
-        expires_at: new Date(Date.now() - 3600000).toISOString(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        redeemed_at: null,
-        redeemed_by_user_id: null
-      };
+      await expect(ClaimService.redeemClaim('claim-123', 'staff-123')).rejects.toThrow(
+        'Failed to redeem claim: Not authenticated'
+      );
+    });
 
-      const mockClaimQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockExpiredClaim, error: null })
-      };
+    it('should reverse a redemption within the undo window', async () => {
+      mockRedemptionResult('success', null, mockClaim());
 
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        if (table === 'flash_offer_claims') {
-          return mockClaimQuery;
-        }
-        return mockClaimQuery;
+      const result = await ClaimService.reverseRedemption('claim-123', ' Wrong customer ');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('reverse_claim_redemption', {
+        p_claim_id: 'claim-123',
+        p_note: 'Wrong customer',
+        p_device_info: expect.any(String)
       });
+      expect(result.status).toBe('active');
+      expect(result.redeemed_at).toBeNull();
+    });
 
-      await expect(ClaimService.redeemClaim(claimId, staffUserId)).rejects.toThrow(
-        'This claim has expired'
+    it('should reject a reversal after the undo window', async () => {
+      mockRedemptionResult('failed', 'undo_window_passed', mockClaim({
+        status: 'redeemed',
+        redeemed_at: new Date(Date.now() - 20 * 60 * 1000).toISOString(),
+        redeemed_by_user_id: 'staff-123'
+      }));
+
+      await expect(ClaimService.reverseRedemption('claim-123')).rejects.toThrow(
+        'can no longer be undone'
       );
     });
 
-    it('should prevent redeeming already redeemed claim', async () => {
-      const claimId = 'claim-123';
-      const staffUserId = 'staff-123';
+    it('should only offer undo for recent redemptions', () => {
+      const now = new Date();
+      const redeemedAt = (minutesAgo: number) =>
+        new Date(now.getTime() - minutesAgo * 60 * 1000).toISOString();
+
+      expect(ClaimService.canReverseRedemption(
+        mockClaim({ status: 'redeemed', redeemed_at: redeemedAt(2), redeemed_by_user_id: 'staff-123' }) as any,
+        now
+      )).toBe(true);
+      expect(ClaimService.canReverseRedemption(
+        mockClaim({ status: 'redeemed', redeemed_at: redeemedAt(11), redeemed_by_user_id: 'staff-123' }) as any,
+        now
+      )).toBe(false);
+      expect(ClaimService.canReverseRedemption(mockClaim() as any, now)).toBe(false);
+    });
+  });
 
-      const mockRedeemedClaim = {
-        id: claimId,
-        offer_id: 'offer-123',
-        user_id: 'user-123',
-        token: '123456',
-        status: 'redeemed',
-        expires_at: new Date(Date.now() + 86400000).toISOString(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        redeemed_at: new Date().toISOString(),
-        redeemed_by_user_id: 'other-staff-123'
-      };
+  /**
+   * Edge Case Tests (Task 16.4)
+   * Tests for edge cases that can occur during the claim flow:
+   * - Offer expires during claim
+   * - Offer fills up during claim
+   * - User checks out during claim
+   * - Network interruption during claim
+   */
+  describe('Offline redemption queue', () => {
+    const venueId = 'venue-123';
+    const activeClaim = {
+      id: 'claim-123',
+      offer_id: 'offer-123',
+      user_id: 'user-123',
+      token: '123456',
+      status: 'active',
+      expires_at: new Date(Date.now() + 86400000).toISOString(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      redeemed_at: null,
+      redeemed_by_user_id: null
+    };
+    const queued = (claimId: string, token: string) => ({
+      claimId,
+      venueId,
+      token,
+      staffUserId: 'staff-123',
+      redeemedAt: new Date(Date.now() - 60000).toISOString()
+    });
 
-      const mockClaimQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockRedeemedClaim, error: null })
-      };
+    it('should prefetch and cache the venue\'s redeemable claims', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: [activeClaim], error: null });
 
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        if (table === 'flash_offer_claims') {
-          return mockClaimQuery;
-        }
-        return mockClaimQuery;
+      const claims = await ClaimService.prefetchVenueClaims(venueId);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_offline_redemption_claims', {
+        p_venue_id: venueId
       });
+      expect(FlashOfferCache.cacheVenueClaims).toHaveBeenCalledWith(venueId, [activeClaim]);
+      expect(claims).toHaveLength(1);
+    });
+
+    it('should validate tokens against the cached snapshot', async () => {
+      (FlashOfferCache.getCachedVenueClaims as jest.Mock).mockResolvedValue({
+        claims: [activeClaim],
+        timestamp: Date.now()
+      });
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([]);
+
+      await expect(ClaimService.getCachedClaimByToken(venueId, '123456')).resolves.toEqual(activeClaim);
+      await expect(ClaimService.getCachedClaimByToken(venueId, '654321')).resolves.toBeNull();
+    });
+
+    it('should treat claims already queued on this device as redeemed', async () => {
+      (FlashOfferCache.getCachedVenueClaims as jest.Mock).mockResolvedValue({
+        claims: [activeClaim],
+        timestamp: Date.now()
+      });
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([
+        queued('claim-123', '123456')
+      ]);
+
+      const claim = await ClaimService.getCachedClaimByToken(venueId, '123456');
+
+      expect(claim?.status).toBe('redeemed');
+      expect(claim?.redeemed_by_user_id).toBe('staff-123');
+    });
+
+    it('should queue a redemption made offline', async () => {
+      const claim = await ClaimService.queueOfflineRedemption(activeClaim as any, venueId, 'staff-123');
+
+      expect(FlashOfferCache.addPendingRedemption).toHaveBeenCalledWith({
+        claimId: 'claim-123',
+        venueId,
+        token: '123456',
+        staffUserId: 'staff-123',
+        redeemedAt: expect.any(String)
+      });
+      expect(claim.status).toBe('redeemed');
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should sync queued redemptions and report conflicts', async () => {
+      const first = queued('claim-1', '111111');
+      const second = queued('claim-2', '222222');
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([first, second]);
+      (supabase.rpc as jest.Mock)
+        .mockResolvedValueOnce({
+          data: [{ outcome: 'success', failure_reason: null, ...activeClaim, id: 'claim-1', status: 'redeemed' }],
+          error: null
+        })
+        .mockResolvedValueOnce({
+          data: [{ outcome: 'failed', failure_reason: 'already_redeemed', ...activeClaim, id: 'claim-2' }],
+          error: null
+        });
+
+      const result = await ClaimService.syncPendingRedemptions();
 
-      await expect(ClaimService.redeemClaim(claimId, staffUserId)).rejects.toThrow(
+      expect(supabase.rpc).toHaveBeenCalledWith('redeem_claim_atomic', {
+        p_claim_id: 'claim-1',
+        p_device_info: expect.any(String),
+        p_redeemed_at: first.redeemedAt
+      });
+      expect(result.synced).toBe(1);
+      expect(result.remaining).toBe(0);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ claimId: 'claim-2', token: '222222', reason: 'already_redeemed' })
+      ]);
+      expect(ClaimService.getRedemptionConflictMessage(result.conflicts[0])).toBe(
         'This claim has already been redeemed'
       );
+      expect(FlashOfferAnalyticsService.trackRedeem).toHaveBeenCalledTimes(1);
+      expect(FlashOfferCache.removePendingRedemption).toHaveBeenCalledWith('claim-1');
+      expect(FlashOfferCache.removePendingRedemption).toHaveBeenCalledWith('claim-2');
+      expect(FlashOfferCache.addRedemptionConflicts).toHaveBeenCalledWith(result.conflicts);
     });
 
-    it('should verify redemption updates claim status and timestamps', async () => {
-      const claimId = 'claim-123';
-      const staffUserId = 'staff-123';
-      const offerId = 'offer-123';
-      const userId = 'user-123';
+    it('should keep the rest of the queue when the connection drops mid-sync', async () => {
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([
+        queued('claim-1', '111111'),
+        queued('claim-2', '222222')
+      ]);
+      (supabase.rpc as jest.Mock).mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Network request failed' }
+      });
+      (NetworkErrorHandler.isNetworkError as jest.Mock).mockReturnValueOnce(true);
 
-      const mockActiveClaim = {
-        id: claimId,
-        offer_id: offerId,
-        user_id: userId,
-        token: '123456',
-        status: 'active',
-        expires_at: new Date(Date.now() + 86400000).toISOString(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        redeemed_at: null,
-        redeemed_by_user_id: null
-      };
+      const result = await ClaimService.syncPendingRedemptions();
 
-      const redemptionTime = new Date().toISOString();
-      const mockRedeemedClaim = {
-        ...mockActiveClaim,
-        status: 'redeemed',
-        redeemed_at: redemptionTime,
-        redeemed_by_user_id: staffUserId
-      };
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ synced: 0, conflicts: [], remaining: 2 });
+      expect(FlashOfferCache.removePendingRedemption).not.toHaveBeenCalled();
+      expect(FlashOfferCache.recordPendingRedemptionFailure).not.toHaveBeenCalled();
+    });
 
-      const mockFetchQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockActiveClaim, error: null })
-      };
+    it('should record a server error on the redemption and sync the rest', async () => {
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([
+        queued('claim-1', '111111'),
+        queued('claim-2', '222222')
+      ]);
+      (FlashOfferCache.recordPendingRedemptionFailure as jest.Mock).mockResolvedValue(1);
+      (supabase.rpc as jest.Mock)
+        .mockResolvedValueOnce({ data: null, error: { message: 'permission denied for function' } })
+        .mockResolvedValueOnce({
+          data: [{ outcome: 'success', failure_reason: null, ...activeClaim, id: 'claim-2', status: 'redeemed' }],
+          error: null
+        });
 
-      const mockUpdateQuery = {
-        update: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        select: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({ data: mockRedeemedClaim, error: null })
-      };
+      const result = await ClaimService.syncPendingRedemptions();
 
-      let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        if (table === 'flash_offer_claims') {
-          callCount++;
-          if (callCount === 1) {
-            return mockFetchQuery;
-          } else {
-            return mockUpdateQuery;
-          }
-        }
-        return mockFetchQuery;
+      expect(supabase.rpc).toHaveBeenCalledTimes(2);
+      expect(FlashOfferCache.recordPendingRedemptionFailure).toHaveBeenCalledWith(
+        'claim-1',
+        'Failed to redeem claim: permission denied for function'
+      );
+      expect(FlashOfferCache.removePendingRedemption).not.toHaveBeenCalledWith('claim-1');
+      expect(result).toEqual({ synced: 1, conflicts: [], remaining: 1 });
+    });
+
+    it('should give up on a redemption after repeated server errors', async () => {
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([
+        { ...queued('claim-1', '111111'), attempts: 4 }
+      ]);
+      (FlashOfferCache.recordPendingRedemptionFailure as jest.Mock).mockResolvedValue(5);
+      (supabase.rpc as jest.Mock).mockResolvedValueOnce({
+        data: null,
+        error: { message: 'permission denied for function' }
       });
 
-      const result = await ClaimService.redeemClaim(claimId, staffUserId);
+      const result = await ClaimService.syncPendingRedemptions();
 
-      // Verify status changed from active to redeemed
-      expect(result.status).toBe('redeemed');
-      
-      // Verify redeemed_at timestamp was set
-      expect(result.redeemed_at).toBeTruthy();
-      expect(result.redeemed_at).toBe(redemptionTime);
-      
-      // Verify redeemed_by_user_id was set to staff user
-      expect(result.redeemed_by_user_id).toBe(staffUserId);
-      
-      // Verify update was called with correct parameters
-      expect(mockUpdateQuery.update).toHaveBeenCalledWith({
-        status: 'redeemed',
-        redeemed_at: expect.any(String),
-        redeemed_by_user_id: staffUserId,
+      expect(result.remaining).toBe(0);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ claimId: 'claim-1', reason: 'sync_failed' })
+      ]);
+      expect(FlashOfferCache.removePendingRedemption).toHaveBeenCalledWith('claim-1');
+      expect(ClaimService.getRedemptionConflictMessage(result.conflicts[0])).toMatch(
+        /could not be synced/
+      );
+    });
+
+    it('should share one sync between concurrent callers', async () => {
+      (FlashOfferCache.getPendingRedemptions as jest.Mock).mockResolvedValue([]);
+
+      const [a, b] = [ClaimService.syncPendingRedemptions(), ClaimService.syncPendingRedemptions()];
+
+      expect(a).toBe(b);
+      await a;
+      expect(FlashOfferCache.getPendingRedemptions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('QR code redemption', () => {
+    const claimId = '3f2a7c1e-9b4d-4e8a-a1c2-7d5e6f8a9b0c';
+    const offerId = '8c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+    const signature = 'a'.repeat(64);
+    const payload = `otw1.${claimId}.${offerId}.1792400000.0f1e2d3c4b5a6978.${signature}`;
+
+    it('should request a signed payload for the claim', async () => {
+      const qr = { payload, expires_at: new Date(Date.now() + 30000).toISOString() };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: [qr], error: null });
+
+      const result = await ClaimService.getClaimQrPayload(claimId);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('issue_claim_qr_payload', { p_claim_id: claimId });
+      expect(result).toEqual(qr);
+    });
+
+    it('should recognize the payload format', () => {
+      expect(ClaimService.isClaimQrPayload(payload)).toBe(true);
+      expect(ClaimService.isClaimQrPayload(` ${payload}\n`)).toBe(true);
+      expect(ClaimService.isClaimQrPayload('123456')).toBe(false);
+      expect(ClaimService.isClaimQrPayload(payload.replace('otw1', 'otw2'))).toBe(false);
+      expect(ClaimService.isClaimQrPayload(payload.slice(0, -1))).toBe(false);
+    });
+
+    it('should verify the payload for the venue and return the claim', async () => {
+      const claim = { id: claimId, offer_id: offerId, status: 'active', token: '123456' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: [claim], error: null });
+
+      const result = await ClaimService.verifyClaimQrPayload('venue-123', `${payload} `);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('verify_claim_qr_payload', {
+        p_payload: payload,
+        p_venue_id: 'venue-123'
       });
+      expect(result).toEqual(claim);
+    });
+
+    it('should surface expired or invalid codes', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'QR code has expired' }
+      });
+
+      await expect(ClaimService.verifyClaimQrPayload('venue-123', payload)).rejects.toThrow(
+        'QR code has expired. Ask the customer to show their claim again.'
+      );
     });
   });
 
-  /**
-   * Edge Case Tests (Task 16.4)
-   * Tests for edge cases that can occur during the claim flow:
-   * - Offer expires during claim
-   * - Offer fills up during claim
-   * - User checks out during claim
-   * - Network interruption during claim
-   */
   describe('Edge Cases (Task 16.4)', () => {
     describe('Offer expires during claim', () => {
       it('should reject claim when offer expires between validation and claim', async () => {
@@ -0,0 +1,144 @@
+/**
+ * Tests for FlashOfferRuleService
+ * Feature: flash-offer-rules
+ *
+ * Tests cover:
+ * - Rule input validation
+ * - Storing window times and the rule timezone
+ *
+ * Rule evaluation runs in the evaluate_flash_offer_rules database job.
+ */
+
+import { FlashOfferRuleService } from '../flashOfferRules';
+import { supabase } from '../../../lib/supabase';
+import type { FlashOfferRule } from '../../../types/flashOfferRule.types';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../../utils/timezone', () => ({
+  getDeviceTimezone: jest.fn(() => 'America/Chicago'),
+}));
+
+const makeRule = (overrides: Partial<FlashOfferRule> = {}): FlashOfferRule => ({
+  id: 'rule-1',
+  venue_id: 'venue-1',
+  created_by: 'owner-1',
+  name: 'Slow Afternoon Boost',
+  is_enabled: true,
+  days_of_week: [1, 2, 3, 4, 5],
+  window_start: '14:00:00',
+  window_end: '17:00:00',
+  timezone: 'America/Chicago',
+  capacity_condition: 'below',
+  capacity_threshold_percent: 20,
+  offer_title: 'Afternoon Special',
+  offer_description: 'Half price appetizers until 5pm',
+  claim_value: 10,
+  max_claims: 50,
+  radius_miles: 1,
+  target_favorites_only: false,
+  send_push: true,
+  duration_minutes: 60,
+  cooldown_minutes: 1440,
+  last_fired_at: null,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+const validInput = {
+  name: 'Slow Afternoon Boost',
+  days_of_week: [1, 2, 3, 4, 5],
+  window_start: '14:00',
+  window_end: '17:00',
+  capacity_condition: 'below' as const,
+  capacity_threshold_percent: 20,
+  offer_title: 'Afternoon Special',
+  offer_description: 'Half price appetizers until 5pm',
+  claim_value: 10,
+  max_claims: 50,
+  duration_minutes: 60,
+  cooldown_minutes: 1440,
+};
+
+describe('FlashOfferRuleService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRule', () => {
+    it('should reject a cooldown shorter than the offer duration', async () => {
+      await expect(
+        FlashOfferRuleService.createRule('venue-1', 'owner-1', {
+          ...validInput,
+          duration_minutes: 120,
+          cooldown_minutes: 60,
+        })
+      ).rejects.toThrow('Cooldown must be at least the offer duration');
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should reject a window that ends before it starts', async () => {
+      await expect(
+        FlashOfferRuleService.createRule('venue-1', 'owner-1', {
+          ...validInput,
+          window_start: '17:00',
+          window_end: '14:00',
+        })
+      ).rejects.toThrow('Window end must be after window start');
+    });
+
+    it('should store window times in HH:MM:SS format', async () => {
+      const insert = jest.fn().mockReturnThis();
+      (supabase.from as jest.Mock).mockReturnValue({
+        insert,
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: makeRule(), error: null }),
+      });
+
+      await FlashOfferRuleService.createRule('venue-1', 'owner-1', validInput);
+
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          venue_id: 'venue-1',
+          created_by: 'owner-1',
+          window_start: '14:00:00',
+          window_end: '17:00:00',
+          capacity_condition: 'below',
+          capacity_threshold_percent: 20,
+        })
+      );
+    });
+
+    it('should default the timezone to the device timezone', async () => {
+      const insert = jest.fn().mockReturnThis();
+      (supabase.from as jest.Mock).mockReturnValue({
+        insert,
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: makeRule(), error: null }),
+      });
+
+      await FlashOfferRuleService.createRule('venue-1', 'owner-1', validInput);
+      await FlashOfferRuleService.createRule('venue-1', 'owner-1', {
+        ...validInput,
+        timezone: 'Europe/London',
+      });
+
+      expect(insert).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ timezone: 'America/Chicago' })
+      );
+      expect(insert).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ timezone: 'Europe/London' })
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for FlashOfferTemplateService
+ * Feature: flash-offer-recurrences
+ *
+ * Tests cover:
+ * - Recurrence input validation and normalization
+ * - Materializing occurrences after a recurrence is created
+ * - Skipping a single scheduled occurrence
+ * - Stopping a recurrence and cancelling its scheduled occurrences
+ * - Upcoming occurrence previews
+ */
+
+import { FlashOfferTemplateService } from '../flashOfferTemplates';
+import { supabase } from '../../../lib/supabase';
+import type { CreateFlashOfferRecurrenceInput } from '../../../types/flashOfferRecurrence.types';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../../utils/timezone', () => ({
+  getDeviceTimezone: jest.fn(() => 'America/Chicago'),
+}));
+
+const weeklyInput: CreateFlashOfferRecurrenceInput = {
+  template_id: 'template-1',
+  frequency: 'weekly',
+  days_of_week: [5, 1, 3, 1],
+  start_time_of_day: '17:00',
+  starts_on: '2026-01-12',
+  occurrence_count: 6,
+};
+
+describe('FlashOfferTemplateService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createRecurrence', () => {
+    it('should normalize the schedule and materialize the first week', async () => {
+      const mockQuery = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: { id: 'recurrence-1' }, error: null }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: 3, error: null });
+
+      const result = await FlashOfferTemplateService.createRecurrence('venue-1', weeklyInput);
+
+      expect(mockQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          venue_id: 'venue-1',
+          days_of_week: [1, 3, 5],
+          start_time_of_day: '17:00:00',
+          timezone: 'America/Chicago',
+          ends_on: null,
+          occurrence_count: 6,
+        })
+      );
+      expect(supabase.rpc).toHaveBeenCalledWith('materialize_flash_offer_recurrences', {
+        p_recurrence_id: 'recurrence-1',
+        p_days_ahead: 7,
+      });
+      expect(result.occurrencesCreated).toBe(3);
+    });
+
+    it('should still return the recurrence when materialization fails', async () => {
+      const mockQuery = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: { id: 'recurrence-1' }, error: null }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: { message: 'timeout' } });
+
+      const result = await FlashOfferTemplateService.createRecurrence('venue-1', weeklyInput);
+
+      expect(result.recurrence.id).toBe('recurrence-1');
+      expect(result.occurrencesCreated).toBe(0);
+    });
+
+    it('should reject weekly recurrences without days', async () => {
+      await expect(
+        FlashOfferTemplateService.createRecurrence('venue-1', { ...weeklyInput, days_of_week: [] })
+      ).rejects.toThrow('Select at least one day of the week');
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should require an end date or occurrence count', async () => {
+      await expect(
+        FlashOfferTemplateService.createRecurrence('venue-1', {
+          ...weeklyInput,
+          occurrence_count: null,
+        })
+      ).rejects.toThrow('Choose an end date or a number of occurrences');
+    });
+
+    it('should reject an end date before the start date', async () => {
+      await expect(
+        FlashOfferTemplateService.createRecurrence('venue-1', {
+          ...weeklyInput,
+          ends_on: '2026-01-01',
+        })
+      ).rejects.toThrow('End date must be on or after the start date');
+    });
+  });
+
+  describe('skipOccurrence', () => {
+    it('should cancel only a scheduled occurrence', async () => {
+      const mockQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: { id: 'offer-1', status: 'cancelled' },
+          error: null,
+        }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+
+      const offer = await FlashOfferTemplateService.skipOccurrence('offer-1');
+
+      expect(mockQuery.update).toHaveBeenCalledWith({ status: 'cancelled' });
+      expect(mockQuery.eq).toHaveBeenCalledWith('status', 'scheduled');
+      expect(offer.status).toBe('cancelled');
+    });
+
+    it('should throw when the occurrence has already started', async () => {
+      const mockQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(mockQuery);
+
+      await expect(FlashOfferTemplateService.skipOccurrence('offer-1')).rejects.toThrow(
+        'Only occurrences that have not started can be skipped'
+      );
+    });
+  });
+
+  describe('stopRecurrence', () => {
+    it('should deactivate the recurrence and cancel scheduled occurrences', async () => {
+      const recurrenceQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockResolvedValue({ error: null }),
+      };
+      const offersQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue({ data: [{ id: 'offer-1' }, { id: 'offer-2' }], error: null }),
+      };
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'flash_offer_recurrences' ? recurrenceQuery : offersQuery
+      );
+
+      const cancelled = await FlashOfferTemplateService.stopRecurrence('recurrence-1');
+
+      expect(recurrenceQuery.update).toHaveBeenCalledWith({ is_active: false });
+      expect(offersQuery.eq).toHaveBeenCalledWith('recurrence_id', 'recurrence-1');
+      expect(offersQuery.eq).toHaveBeenCalledWith('status', 'scheduled');
+      expect(cancelled).toBe(2);
+    });
+  });
+
+  describe('getUpcomingOccurrences', () => {
+    it('should list weekly occurrences on the chosen days', () => {
+      // Monday Jan 12 2026, before 5pm
+      const dates = FlashOfferTemplateService.getUpcomingOccurrences(
+        { ...weeklyInput, days_of_week: [1, 3, 5] },
+        3,
+        new Date(2026, 0, 12, 9, 0)
+      );
+
+      expect(dates.map(d => d.getDate())).toEqual([12, 14, 16]);
+      expect(dates.every(d => d.getHours() === 17)).toBe(true);
+    });
+
+    it('should stop after the occurrence count, including past occurrences', () => {
+      const dates = FlashOfferTemplateService.getUpcomingOccurrences(
+        { ...weeklyInput, frequency: 'daily', occurrence_count: 4 },
+        10,
+        new Date(2026, 0, 14, 9, 0)
+      );
+
+      // Jan 12 and 13 already happened, leaving Jan 14 and 15
+      expect(dates.map(d => d.getDate())).toEqual([14, 15]);
+    });
+
+    it('should stop at the end date', () => {
+      const dates = FlashOfferTemplateService.getUpcomingOccurrences(
+        { ...weeklyInput, frequency: 'daily', ends_on: '2026-01-13', occurrence_count: null },
+        10,
+        new Date(2026, 0, 1)
+      );
+
+      expect(dates.map(d => d.getDate())).toEqual([12, 13]);
+    });
+  });
+});
@@ -356,6 +356,93 @@ describe('FlashOfferService - Offer Creation Flow', () => {
       expect(result.redemptions_count).toBe(1);
     });
   });
+
+  describe('cloneOfferToVenues', () => {
+    const now = Date.now();
+    const sourceOffer = {
+      id: 'offer-123',
+      venue_id: 'venue-1',
+      title: 'Happy Hour Special',
+      description: 'Get 50% off all drinks from 5-7pm',
+      claim_value: 20,
+      max_claims: 50,
+      claimed_count: 12,
+      start_time: new Date(now - 3600000).toISOString(), // started 1 hour ago
+      end_time: new Date(now + 3600000).toISOString(), // 2 hour offer
+      radius_miles: 2,
+      target_favorites_only: true,
+      max_claims_per_user_per_week: 3,
+      visitor_audience: 'returning' as const,
+      min_visit_count: 3,
+      status: 'active' as FlashOfferStatus,
+      push_sent: true,
+      push_sent_at: new Date().toISOString(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const mockInsert = (result: { data: any; error: any }) => {
+      const query = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue(result)
+      };
+      return query;
+    };
+
+    it('should create a copy for each venue with the same details', async () => {
+      const queries = [
+        mockInsert({ data: { ...sourceOffer, id: 'offer-2', venue_id: 'venue-2' }, error: null }),
+        mockInsert({ data: { ...sourceOffer, id: 'offer-3', venue_id: 'venue-3' }, error: null })
+      ];
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(queries[0])
+        .mockReturnValueOnce(queries[1]);
+
+      const result = await FlashOfferService.cloneOfferToVenues(sourceOffer, ['venue-2', 'venue-3']);
+
+      expect(result.created.map((offer) => offer.venue_id)).toEqual(['venue-2', 'venue-3']);
+      expect(result.failed).toEqual([]);
+
+      const inserted = queries[0].insert.mock.calls[0][0];
+      expect(inserted).toMatchObject({
+        venue_id: 'venue-2',
+        title: sourceOffer.title,
+        claim_value: 20,
+        target_favorites_only: true,
+        max_claims_per_user_per_week: 3,
+        visitor_audience: 'returning',
+        min_visit_count: 3,
+        status: 'active'
+      });
+    });
+
+    it('should start copies of an offer that already started now, keeping its duration', async () => {
+      const query = mockInsert({ data: { ...sourceOffer, id: 'offer-2' }, error: null });
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      const before = Date.now();
+      await FlashOfferService.cloneOfferToVenues(sourceOffer, ['venue-2']);
+
+      const inserted = query.insert.mock.calls[0][0];
+      const start = new Date(inserted.start_time).getTime();
+      expect(start).toBeGreaterThanOrEqual(before);
+      expect(new Date(inserted.end_time).getTime() - start).toBe(2 * 3600000);
+    });
+
+    it('should report venues that failed without stopping the others', async () => {
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(mockInsert({ data: null, error: { message: 'Daily offer limit reached' } }))
+        .mockReturnValueOnce(mockInsert({ data: { ...sourceOffer, id: 'offer-3', venue_id: 'venue-3' }, error: null }));
+
+      const result = await FlashOfferService.cloneOfferToVenues(sourceOffer, ['venue-2', 'venue-3']);
+
+      expect(result.created).toHaveLength(1);
+      expect(result.failed).toEqual([
+        { venueId: 'venue-2', error: 'Failed to create flash offer: Daily offer limit reached' }
+      ]);
+    });
+  });
 });
 
 /**
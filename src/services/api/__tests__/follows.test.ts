@@ -0,0 +1,196 @@
+/**
+ * Tests for Follows
+ * Feature: social-friend-system
+ *
+ * Tests cover:
+ * - Direct follows for public profiles with new follower notifications
+ * - Follow requests for non-public profiles
+ * - Closed profiles and self/blocked follow validation
+ * - Follow request approval
+ * - Follower/following counts
+ */
+
+import { FollowService } from '../follows';
+import { supabase } from '../../../lib/supabase';
+import { PrivacyService } from '../privacy';
+import { NotificationService } from '../notifications';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}));
+
+// Mock PrivacyService
+jest.mock('../privacy', () => ({
+  PrivacyService: {
+    isBlocked: jest.fn()
+  }
+}));
+
+// Mock NotificationService
+jest.mock('../notifications', () => ({
+  NotificationService: {
+    sendNewFollowerNotification: jest.fn(),
+    sendFollowRequestNotification: jest.fn()
+  }
+}));
+
+/**
+ * Build a query mock whose status lookups (maybeSingle) find nothing
+ */
+const mockEmptyStatusQuery = (overrides: Record<string, any> = {}) => ({
+  select: jest.fn().mockReturnThis(),
+  eq: jest.fn().mockReturnThis(),
+  maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+  ...overrides
+});
+
+describe('FollowService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PrivacyService.isBlocked as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('followUser', () => {
+    it('should reject following yourself', async () => {
+      await expect(FollowService.followUser('user-1', 'user-1')).rejects.toThrow(
+        'Cannot follow yourself'
+      );
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should reject following a blocked user', async () => {
+      (PrivacyService.isBlocked as jest.Mock).mockResolvedValue(true);
+
+      await expect(FollowService.followUser('user-1', 'user-2')).rejects.toThrow(
+        'Cannot follow blocked user'
+      );
+    });
+
+    it('should follow public profiles directly and notify the followed user', async () => {
+      const insert = jest.fn().mockResolvedValue({ error: null });
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'follows' ? mockEmptyStatusQuery({ insert }) : mockEmptyStatusQuery()
+      );
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: 'direct', error: null });
+
+      const status = await FollowService.followUser('user-1', 'user-2');
+
+      expect(status).toEqual({ type: 'following' });
+      expect(supabase.rpc).toHaveBeenCalledWith('get_follow_policy', { p_user_id: 'user-2' });
+      expect(insert).toHaveBeenCalledWith({ follower_id: 'user-1', following_id: 'user-2' });
+      expect(NotificationService.sendNewFollowerNotification).toHaveBeenCalledWith(
+        'user-1',
+        'user-2'
+      );
+      expect(NotificationService.sendFollowRequestNotification).not.toHaveBeenCalled();
+    });
+
+    it('should send a follow request for non-public profiles', async () => {
+      const request = {
+        id: 'request-1',
+        follower_id: 'user-1',
+        following_id: 'user-2',
+        status: 'pending'
+      };
+      (supabase.from as jest.Mock).mockImplementation(() => mockEmptyStatusQuery());
+      (supabase.rpc as jest.Mock).mockImplementation((fn: string) =>
+        Promise.resolve(
+          fn === 'get_follow_policy'
+            ? { data: 'request', error: null }
+            : { data: request, error: null }
+        )
+      );
+
+      const status = await FollowService.followUser('user-1', 'user-2');
+
+      expect(status).toEqual({ type: 'pending' });
+      expect(supabase.rpc).toHaveBeenCalledWith('send_follow_request', {
+        p_following_id: 'user-2'
+      });
+      expect(NotificationService.sendFollowRequestNotification).toHaveBeenCalledWith(
+        'user-1',
+        'user-2',
+        'request-1'
+      );
+      expect(NotificationService.sendNewFollowerNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject profiles that do not accept follow requests', async () => {
+      (supabase.from as jest.Mock).mockImplementation(() => mockEmptyStatusQuery());
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: 'closed', error: null });
+
+      await expect(FollowService.followUser('user-1', 'user-2')).rejects.toThrow(
+        'This user is not accepting follow requests'
+      );
+    });
+
+    it('should not create a duplicate follow when already following', async () => {
+      (supabase.from as jest.Mock).mockImplementation(() =>
+        mockEmptyStatusQuery({
+          maybeSingle: jest.fn().mockResolvedValue({ data: { id: 'follow-1' }, error: null })
+        })
+      );
+
+      const status = await FollowService.followUser('user-1', 'user-2');
+
+      expect(status).toEqual({ type: 'following' });
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveFollowRequest', () => {
+    it('should approve the request through the RPC', async () => {
+      const follow = {
+        id: 'follow-1',
+        follower_id: 'user-1',
+        following_id: 'user-2',
+        created_at: new Date().toISOString()
+      };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: follow, error: null });
+
+      const result = await FollowService.approveFollowRequest('request-1');
+
+      expect(result).toEqual(follow);
+      expect(supabase.rpc).toHaveBeenCalledWith('approve_follow_request', {
+        p_request_id: 'request-1'
+      });
+    });
+
+    it('should surface RPC errors', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Follow request not found or already processed' }
+      });
+
+      await expect(FollowService.approveFollowRequest('request-1')).rejects.toThrow(
+        'Failed to approve follow request: Follow request not found or already processed'
+      );
+    });
+  });
+
+  describe('getFollowCounts', () => {
+    it('should count followers and following separately', async () => {
+      (supabase.from as jest.Mock).mockImplementation(() => {
+        const query: Record<string, jest.Mock> = {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn((column: string) =>
+            Promise.resolve({
+              count: column === 'following_id' ? 12 : 5,
+              error: null
+            })
+          )
+        };
+        return query;
+      });
+
+      const counts = await FollowService.getFollowCounts('counts-user');
+
+      expect(counts).toEqual({ follower_count: 12, following_count: 5 });
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Tests for Group Outings
+ * Feature: social-friend-system
+ *
+ * Tests cover:
+ * - Outing creation validation
+ * - Invites and invite notifications on creation
+ * - RSVP responses and organizer notification
+ * - Response count calculation
+ */
+
+import { GroupOutingService } from '../groupOutings';
+import { supabase } from '../../../lib/supabase';
+import { NotificationService } from '../notifications';
+import { ActivityFeedService } from '../activityFeed';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}));
+
+// Mock NotificationService
+jest.mock('../notifications', () => ({
+  NotificationService: {
+    sendGroupOutingInviteNotification: jest.fn(),
+    sendGroupOutingResponseNotification: jest.fn()
+  }
+}));
+
+// Mock ActivityFeedService
+jest.mock('../activityFeed', () => ({
+  ActivityFeedService: {
+    createGroupOutingActivity: jest.fn()
+  }
+}));
+
+const futureDate = () => new Date(Date.now() + 86400000).toISOString();
+
+const mockOutingRow = (overrides: Record<string, any> = {}) => ({
+  id: 'outing-123',
+  creator_id: 'creator-123',
+  venue_id: 'venue-123',
+  title: 'Friday Drinks',
+  description: null,
+  scheduled_date: futureDate(),
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  venue: { id: 'venue-123', name: 'The Pub' },
+  creator: { id: 'creator-123', email: 'c@example.com', name: 'Creator', avatar_url: null, created_at: '' },
+  invites: [],
+  ...overrides
+});
+
+describe('GroupOutingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createGroupOuting', () => {
+    it('should reject titles shorter than 3 characters', async () => {
+      await expect(
+        GroupOutingService.createGroupOuting({
+          creator_id: 'creator-123',
+          venue_id: 'venue-123',
+          title: 'Hi',
+          scheduled_date: futureDate(),
+          invited_friend_ids: ['friend-1']
+        })
+      ).rejects.toThrow('Title must be between 3 and 100 characters');
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should reject outings scheduled in the past', async () => {
+      await expect(
+        GroupOutingService.createGroupOuting({
+          creator_id: 'creator-123',
+          venue_id: 'venue-123',
+          title: 'Friday Drinks',
+          scheduled_date: new Date(Date.now() - 60000).toISOString(),
+          invited_friend_ids: ['friend-1']
+        })
+      ).rejects.toThrow('Outing must be scheduled in the future');
+    });
+
+    it('should require at least one invitee other than the creator', async () => {
+      await expect(
+        GroupOutingService.createGroupOuting({
+          creator_id: 'creator-123',
+          venue_id: 'venue-123',
+          title: 'Friday Drinks',
+          scheduled_date: futureDate(),
+          invited_friend_ids: ['creator-123']
+        })
+      ).rejects.toThrow('Must invite at least one friend');
+    });
+
+    it('should create the outing, invite friends and notify each invitee', async () => {
+      const outing = mockOutingRow();
+
+      const mockOutingInsert = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: outing, error: null })
+      };
+
+      const mockInvitesInsert = {
+        insert: jest.fn().mockResolvedValue({ error: null })
+      };
+
+      const mockOutingFetch = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({
+          data: mockOutingRow({
+            invites: [
+              { id: 'inv-1', group_outing_id: outing.id, user_id: 'friend-1', response: 'no_response' },
+              { id: 'inv-2', group_outing_id: outing.id, user_id: 'friend-2', response: 'no_response' }
+            ]
+          }),
+          error: null
+        })
+      };
+
+      let outingCalls = 0;
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'group_outing_invites') {
+          return mockInvitesInsert;
+        }
+        outingCalls++;
+        return outingCalls === 1 ? mockOutingInsert : mockOutingFetch;
+      });
+
+      const result = await GroupOutingService.createGroupOuting({
+        creator_id: 'creator-123',
+        venue_id: 'venue-123',
+        title: '  Friday Drinks  ',
+        scheduled_date: outing.scheduled_date,
+        invited_friend_ids: ['friend-1', 'friend-2', 'friend-1']
+      });
+
+      expect(mockOutingInsert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Friday Drinks', creator_id: 'creator-123' })
+      );
+      expect(mockInvitesInsert.insert).toHaveBeenCalledWith([
+        { group_outing_id: outing.id, user_id: 'friend-1', response: 'no_response' },
+        { group_outing_id: outing.id, user_id: 'friend-2', response: 'no_response' }
+      ]);
+      expect(ActivityFeedService.createGroupOutingActivity).toHaveBeenCalledWith(outing);
+      expect(NotificationService.sendGroupOutingInviteNotification).toHaveBeenCalledTimes(2);
+      expect(result.response_counts).toEqual({
+        interested: 0,
+        going: 0,
+        cant_go: 0,
+        no_response: 2
+      });
+    });
+
+    it('should still create the outing when invite notifications fail', async () => {
+      const outing = mockOutingRow();
+
+      (NotificationService.sendGroupOutingInviteNotification as jest.Mock).mockRejectedValue(
+        new Error('Push failed')
+      );
+
+      let outingCalls = 0;
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'group_outing_invites') {
+          return { insert: jest.fn().mockResolvedValue({ error: null }) };
+        }
+        outingCalls++;
+        return {
+          insert: jest.fn().mockReturnThis(),
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          single: jest.fn().mockResolvedValue({
+            data: outingCalls === 1 ? outing : mockOutingRow(),
+            error: null
+          })
+        };
+      });
+
+      const result = await GroupOutingService.createGroupOuting({
+        creator_id: 'creator-123',
+        venue_id: 'venue-123',
+        title: 'Friday Drinks',
+        scheduled_date: outing.scheduled_date,
+        invited_friend_ids: ['friend-1']
+      });
+
+      expect(result.id).toBe(outing.id);
+    });
+  });
+
+  describe('respondToOuting', () => {
+    it('should update the invite and notify the organizer', async () => {
+      const invite = {
+        id: 'inv-1',
+        group_outing_id: 'outing-123',
+        user_id: 'friend-1',
+        response: 'going',
+        responded_at: new Date().toISOString(),
+        created_at: new Date().toISOString()
+      };
+
+      const mockInviteUpdate = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: invite, error: null })
+      };
+
+      const mockOutingFetch = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: mockOutingRow(), error: null })
+      };
+
+      (supabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'group_outing_invites' ? mockInviteUpdate : mockOutingFetch
+      );
+
+      const result = await GroupOutingService.respondToOuting('outing-123', 'friend-1', 'going');
+
+      expect(result).toEqual(invite);
+      expect(mockInviteUpdate.update).toHaveBeenCalledWith(
+        expect.objectContaining({ response: 'going' })
+      );
+      expect(NotificationService.sendGroupOutingResponseNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'outing-123' }),
+        'friend-1',
+        'going'
+      );
+    });
+
+    it('should reject responses from users who were not invited', async () => {
+      (supabase.from as jest.Mock).mockReturnValue({
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null })
+      });
+
+      await expect(
+        GroupOutingService.respondToOuting('outing-123', 'stranger', 'going')
+      ).rejects.toThrow('You are not invited to this outing');
+
+      expect(NotificationService.sendGroupOutingResponseNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calculateResponseCounts', () => {
+    it('should count each response type', () => {
+      const counts = GroupOutingService.calculateResponseCounts([
+        { response: 'going' },
+        { response: 'going' },
+        { response: 'interested' },
+        { response: 'cant_go' },
+        { response: 'no_response' }
+      ]);
+
+      expect(counts).toEqual({
+        interested: 1,
+        going: 2,
+        cant_go: 1,
+        no_response: 1
+      });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Tests for ModerationService
+ *
+ * - Only admins (app_metadata.role) are treated as moderators
+ * - Severe content in the queue is hidden and listed first
+ * - Resolving reports pushes the outcome to reporters and the author
+ */
+
+import type { User } from '@supabase/supabase-js';
+import { ModerationService } from '../moderation';
+import { supabase } from '../../../lib/supabase';
+import { PushNotificationService } from '../../PushNotificationService';
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../PushNotificationService', () => ({
+  PushNotificationService: {
+    sendSocialNotification: jest.fn(),
+  },
+}));
+
+const queueRow = (overrides: Record<string, unknown> = {}) => ({
+  content_type: 'review',
+  content_id: 'review-1',
+  review_id: 'review-1',
+  author_id: 'author-1',
+  author_name: 'Sam',
+  venue_id: 'venue-1',
+  venue_name: 'The Local',
+  content_text: 'Slow service and cold fries.',
+  photo_url: null,
+  rating: 2,
+  is_hidden: false,
+  hidden_reason: null,
+  report_count: '1',
+  reasons: ['fake'],
+  details: [],
+  first_reported_at: '2026-10-01T10:00:00Z',
+  last_reported_at: '2026-10-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('ModerationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (PushNotificationService.sendSocialNotification as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isAdmin', () => {
+    it('only accepts the admin role from app_metadata', () => {
+      expect(ModerationService.isAdmin({ app_metadata: { role: 'admin' } } as unknown as User)).toBe(true);
+      expect(ModerationService.isAdmin({
+        app_metadata: {},
+        user_metadata: { role: 'admin' },
+      } as unknown as User)).toBe(false);
+      expect(ModerationService.isAdmin(null)).toBe(false);
+    });
+  });
+
+  describe('getQueue', () => {
+    it('hides severe content and lists it first', async () => {
+      (supabase.rpc as jest.Mock).mockImplementation((fn: string) => {
+        if (fn === 'get_moderation_queue') {
+          return Promise.resolve({
+            data: [
+              queueRow(),
+              queueRow({
+                content_id: 'review-2',
+                review_id: 'review-2',
+                content_text: 'I will hurt the bartender next time',
+                first_reported_at: '2026-10-02T10:00:00Z',
+              }),
+            ],
+            error: null,
+          });
+        }
+        return Promise.resolve({ data: null, error: null });
+      });
+
+      const queue = await ModerationService.getQueue();
+
+      expect(supabase.rpc).toHaveBeenCalledWith('hide_reported_content', {
+        p_content_type: 'review',
+        p_content_id: 'review-2',
+        p_reason: 'severe_content',
+      });
+      expect(queue.map((item) => item.content_id)).toEqual(['review-2', 'review-1']);
+      expect(queue[0]).toMatchObject({ is_hidden: true, hidden_reason: 'severe_content', has_severe_content: true });
+      expect(queue[1]).toMatchObject({ is_hidden: false, has_severe_content: false, report_count: 1 });
+    });
+
+    it('does not try to hide notifications', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [queueRow({ content_type: 'notification', content_text: 'You should die' })],
+        error: null,
+      });
+
+      const queue = await ModerationService.getQueue();
+
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(queue[0].has_severe_content).toBe(true);
+    });
+
+    it('throws when the queue cannot be loaded', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'Only admins can view the moderation queue' },
+      });
+
+      await expect(ModerationService.getQueue()).rejects.toThrow(
+        'Failed to load moderation queue: Only admins can view the moderation queue'
+      );
+    });
+  });
+
+  describe('resolveItem', () => {
+    it('resolves the reports and notifies reporters and the author', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: {
+          status: 'resolved',
+          resolved_count: 2,
+          reporter_ids: ['reporter-1', 'reporter-2'],
+          author_id: 'author-1',
+          reporter_message: 'We reviewed the review you reported and took action.',
+          author_title: 'Account Suspended',
+          author_message: 'Your review broke our community guidelines.',
+          suspended_until: '2026-10-15T00:00:00Z',
+        },
+        error: null,
+      });
+
+      const resolution = await ModerationService.resolveItem({
+        contentType: 'review',
+        contentId: 'review-1',
+        action: 'suspend',
+        notes: '  Threats  ',
+        suspendDays: 14,
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('resolve_moderation_item', {
+        p_content_type: 'review',
+        p_content_id: 'review-1',
+        p_action: 'suspend',
+        p_notes: 'Threats',
+        p_suspend_days: 14,
+      });
+      expect(resolution.resolved_count).toBe(2);
+      expect(PushNotificationService.sendSocialNotification).toHaveBeenCalledTimes(3);
+      expect(PushNotificationService.sendSocialNotification).toHaveBeenCalledWith(
+        'author-1',
+        'moderation_update',
+        expect.objectContaining({ title: 'Account Suspended' })
+      );
+    });
+
+    it('only notifies reporters when the reports are dismissed', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: {
+          status: 'dismissed',
+          resolved_count: 1,
+          reporter_ids: ['reporter-1'],
+          author_id: 'author-1',
+          reporter_message: 'We reviewed the photo you reported.',
+          author_title: null,
+          author_message: null,
+          suspended_until: null,
+        },
+        error: null,
+      });
+
+      await ModerationService.resolveItem({
+        contentType: 'photo',
+        contentId: 'photo-1',
+        action: 'dismiss',
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('resolve_moderation_item', expect.objectContaining({
+        p_notes: null,
+        p_suspend_days: 7,
+      }));
+      expect(PushNotificationService.sendSocialNotification).toHaveBeenCalledTimes(1);
+      expect(PushNotificationService.sendSocialNotification).toHaveBeenCalledWith(
+        'reporter-1',
+        'moderation_update',
+        expect.any(Object)
+      );
+    });
+
+    it('still resolves when a push notification fails', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: {
+          status: 'resolved',
+          resolved_count: 1,
+          reporter_ids: ['reporter-1'],
+          author_id: null,
+          reporter_message: 'Thanks',
+          author_title: null,
+          author_message: null,
+          suspended_until: null,
+        },
+        error: null,
+      });
+      (PushNotificationService.sendSocialNotification as jest.Mock).mockRejectedValue(new Error('offline'));
+
+      await expect(ModerationService.resolveItem({
+        contentType: 'notification',
+        contentId: 'notification-1',
+        action: 'remove',
+      })).resolves.toMatchObject({ status: 'resolved' });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for ReviewService review photos
+ *
+ * - Photos are uploaded to the reviewer's own folder without metadata
+ * - Invalid images are rejected before upload
+ * - Single photos can be reported through reportReview
+ */
+
+import { ReviewService } from '../reviews';
+import { supabase } from '../../../lib/supabase';
+import { stripImageMetadata } from '../../../utils/imageMetadata';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    storage: {
+      from: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../../utils/imageMetadata', () => ({
+  stripImageMetadata: jest.fn((bytes: Uint8Array) => bytes.subarray(1)),
+}));
+
+jest.mock('../reviewNotifications', () => ({
+  ReviewNotificationService: {},
+}));
+
+const mockFetchResponse = (size: number, contentType = 'image/jpeg') => {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    headers: { get: () => contentType },
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(size)),
+  });
+};
+
+describe('ReviewService review photos', () => {
+  const originalFetch = global.fetch;
+  const savedPhoto = {
+    id: 'photo-1',
+    review_id: 'review-123',
+    user_id: 'user-456',
+    venue_id: 'venue-789',
+    storage_path: 'user-456/review-123/1700000000000-0.jpg',
+    photo_url: 'https://cdn.example.com/review-photos/user-456/review-123/1700000000000-0.jpg',
+    position: 0,
+    created_at: '2026-10-01T00:00:00Z',
+  };
+
+  let mockUpload: jest.Mock;
+  let mockRemove: jest.Mock;
+  let mockInsert: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockUpload = jest.fn().mockResolvedValue({ data: {}, error: null });
+    mockRemove = jest.fn().mockResolvedValue({ data: [], error: null });
+    (supabase.storage.from as jest.Mock).mockReturnValue({
+      upload: mockUpload,
+      remove: mockRemove,
+      getPublicUrl: jest.fn().mockReturnValue({ data: { publicUrl: savedPhoto.photo_url } }),
+    });
+
+    mockInsert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: jest.fn().mockResolvedValue({ data: savedPhoto, error: null }),
+      }),
+    });
+    (supabase.from as jest.Mock).mockReturnValue({ insert: mockInsert });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  const upload = () => ReviewService.uploadReviewPhoto({
+    reviewId: 'review-123',
+    userId: 'user-456',
+    venueId: 'venue-789',
+    fileUri: 'file:///photo.jpg',
+    mimeType: 'image/jpeg',
+    position: 0,
+  });
+
+  describe('uploadReviewPhoto', () => {
+    it('uploads the stripped image to the reviewer\'s folder and saves it', async () => {
+      mockFetchResponse(1024);
+
+      const photo = await upload();
+
+      expect(stripImageMetadata).toHaveBeenCalledWith(expect.any(Uint8Array), 'image/jpeg');
+      expect(supabase.storage.from).toHaveBeenCalledWith('review-photos');
+      const [path, body, options] = mockUpload.mock.calls[0];
+      expect(path).toBe('user-456/review-123/1700000000000-0.jpg');
+      expect(body.length).toBe(1023);
+      expect(options).toEqual({ contentType: 'image/jpeg', upsert: false });
+      expect(mockInsert).toHaveBeenCalledWith({
+        review_id: 'review-123',
+        user_id: 'user-456',
+        venue_id: 'venue-789',
+        storage_path: path,
+        photo_url: savedPhoto.photo_url,
+        position: 0,
+      });
+      expect(photo).toEqual(savedPhoto);
+    });
+
+    it('rejects images over 5MB', async () => {
+      mockFetchResponse(5 * 1024 * 1024 + 1);
+
+      await expect(upload()).rejects.toThrow('Image is too large');
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsupported formats', async () => {
+      mockFetchResponse(1024);
+
+      await expect(ReviewService.uploadReviewPhoto({
+        reviewId: 'review-123',
+        userId: 'user-456',
+        venueId: 'venue-789',
+        fileUri: 'file:///photo.heic',
+        mimeType: 'image/heic',
+        position: 0,
+      })).rejects.toThrow('Please select a valid image file');
+      expect(mockUpload).not.toHaveBeenCalled();
+    });
+
+    it('removes the uploaded file when the photo cannot be saved', async () => {
+      mockFetchResponse(1024);
+      mockInsert.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: null,
+            error: { message: 'A review can have at most 4 photos' },
+          }),
+        }),
+      });
+
+      await expect(upload()).rejects.toThrow('Failed to save photo: A review can have at most 4 photos');
+      expect(mockRemove).toHaveBeenCalledWith(['user-456/review-123/1700000000000-0.jpg']);
+    });
+  });
+
+  describe('deleteReviewPhoto', () => {
+    it('deletes the photo row and its file', async () => {
+      const mockEq2 = jest.fn().mockResolvedValue({ error: null });
+      const mockEq1 = jest.fn().mockReturnValue({ eq: mockEq2 });
+      (supabase.from as jest.Mock).mockReturnValue({
+        delete: jest.fn().mockReturnValue({ eq: mockEq1 }),
+      });
+
+      await ReviewService.deleteReviewPhoto(savedPhoto);
+
+      expect(supabase.from).toHaveBeenCalledWith('review_photos');
+      expect(mockEq1).toHaveBeenCalledWith('id', 'photo-1');
+      expect(mockEq2).toHaveBeenCalledWith('user_id', 'user-456');
+      expect(mockRemove).toHaveBeenCalledWith([savedPhoto.storage_path]);
+    });
+  });
+
+  describe('reportReview with a photo', () => {
+    it('reports the single photo', async () => {
+      const mockReportInsert = jest.fn().mockResolvedValue({ error: null });
+      (supabase.from as jest.Mock).mockReturnValue({ insert: mockReportInsert });
+
+      await ReviewService.reportReview({
+        reviewId: 'review-123',
+        userId: 'user-999',
+        reason: 'offensive',
+        photoId: 'photo-1',
+      });
+
+      expect(mockReportInsert).toHaveBeenCalledWith({
+        review_id: 'review-123',
+        reporter_user_id: 'user-999',
+        reason: 'offensive',
+        details: undefined,
+        photo_id: 'photo-1',
+      });
+    });
+
+    it('prevents reporting the same photo twice', async () => {
+      (supabase.from as jest.Mock).mockReturnValue({
+        insert: jest.fn().mockResolvedValue({
+          error: { code: '23505', message: 'duplicate key value violates unique constraint' },
+        }),
+      });
+
+      await expect(ReviewService.reportReview({
+        reviewId: 'review-123',
+        userId: 'user-999',
+        reason: 'offensive',
+        photoId: 'photo-1',
+      })).rejects.toThrow('You have already reported this photo');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for VenuePushCampaignService
+ * Feature: venue-push-campaigns
+ *
+ * Tests cover:
+ * - Draft validation
+ * - Sending, scheduling and cancelling through the Edge Function
+ * - Surfacing the function's error messages
+ *
+ * Push credits are charged and refunded by the Edge Function.
+ */
+
+import { VenuePushCampaignService, type VenuePushCampaign } from '../venuePushCampaigns';
+import { supabase } from '../../../lib/supabase';
+
+// Mock Supabase
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    functions: {
+      invoke: jest.fn(),
+    },
+  },
+}));
+
+const makeCampaign = (overrides: Partial<VenuePushCampaign> = {}): VenuePushCampaign => ({
+  id: 'campaign-1',
+  venue_business_account_id: 'account-1',
+  venue_id: 'venue-1',
+  title: 'Live Jazz Tonight',
+  message: 'Doors open at 8pm. No cover before 9!',
+  notification_type: 'event',
+  target_radius_miles: 1,
+  target_favorites_only: false,
+  target_user_count: 0,
+  actual_sent_count: 0,
+  scheduled_for: null,
+  sent_at: null,
+  status: 'draft',
+  credits_used: 1,
+  credits_charged: false,
+  delivery_stats: {},
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+/**
+ * Mock the Edge Function response
+ */
+const mockFunctionResponse = (response: { data: unknown; error: unknown }) => {
+  (supabase.functions.invoke as jest.Mock).mockResolvedValueOnce(response);
+};
+
+describe('VenuePushCampaignService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCampaign', () => {
+    it('should reject messages that are too short', async () => {
+      await expect(
+        VenuePushCampaignService.createCampaign('account-1', 'venue-1', {
+          title: 'Jazz',
+          message: 'Tonight',
+          notification_type: 'event',
+          target_radius_miles: 1,
+        })
+      ).rejects.toThrow('Message must be between 10 and 200 characters');
+
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should insert a trimmed draft', async () => {
+      const insert = jest.fn().mockReturnThis();
+      (supabase.from as jest.Mock).mockReturnValue({
+        insert,
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: makeCampaign(), error: null }),
+      });
+
+      await VenuePushCampaignService.createCampaign('account-1', 'venue-1', {
+        title: '  Live Jazz Tonight ',
+        message: 'Doors open at 8pm. No cover before 9!',
+        notification_type: 'event',
+        target_radius_miles: 2,
+      });
+
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          venue_business_account_id: 'account-1',
+          venue_id: 'venue-1',
+          title: 'Live Jazz Tonight',
+          target_radius_miles: 2,
+          target_favorites_only: false,
+        })
+      );
+    });
+  });
+
+  describe('sendCampaign', () => {
+    it('should invoke the function and return delivery counts', async () => {
+      mockFunctionResponse({
+        data: { success: true, status: 'sent', targetedUserCount: 12, sentCount: 10, failedCount: 2 },
+        error: null,
+      });
+
+      const result = await VenuePushCampaignService.sendCampaign(makeCampaign());
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('send-venue-campaign-push', {
+        body: { action: 'send', campaignId: 'campaign-1' },
+      });
+      expect(result).toEqual({ status: 'sent', targetedUserCount: 12, sentCount: 10, failedCount: 2 });
+    });
+
+    it("should surface the function's error message", async () => {
+      mockFunctionResponse({
+        data: null,
+        error: {
+          message: 'Edge Function returned a non-2xx status code',
+          context: {
+            json: jest.fn().mockResolvedValue({
+              success: false,
+              error: 'Insufficient push credits',
+              code: 'INSUFFICIENT_CREDITS',
+            }),
+          },
+        },
+      });
+
+      await expect(
+        VenuePushCampaignService.sendCampaign(makeCampaign())
+      ).rejects.toThrow('Insufficient push credits');
+    });
+  });
+
+  describe('scheduleCampaign', () => {
+    it('should reject a time in the past without calling the function', async () => {
+      await expect(
+        VenuePushCampaignService.scheduleCampaign(makeCampaign(), new Date(Date.now() - 60000))
+      ).rejects.toThrow('Scheduled time must be in the future');
+
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelCampaign', () => {
+    it('should invoke the function with the cancel action', async () => {
+      mockFunctionResponse({
+        data: { success: true, status: 'cancelled', previousStatus: 'scheduled' },
+        error: null,
+      });
+
+      await VenuePushCampaignService.cancelCampaign(makeCampaign({ status: 'scheduled' }));
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('send-venue-campaign-push', {
+        body: { action: 'cancel', campaignId: 'campaign-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * AccountDeletionService
+ *
+ * Account deletion with a grace period. Requesting deletion requires the
+ * user's password, schedules the purge and signs the user out; signing back
+ * in before the scheduled date lets them restore the account. The purge
+ * itself runs in the database (process_account_deletions) and follows
+ * PrivacyDataHandler.getAccountDeletionRules.
+ *
+ * Requirements: Privacy - Account Deletion
+ */
+
+import { supabase } from '../../lib/supabase';
+import { PrivacyDataHandler } from '../../utils/security';
+import type { AccountDeletionRequest } from '../../types';
+
+export class AccountDeletionService {
+  /**
+   * Number of days a deleted account can be restored
+   */
+  static readonly GRACE_PERIOD_DAYS = PrivacyDataHandler.getRetentionPeriod('account_deletion_grace');
+
+  /**
+   * Confirm the user's password and schedule their account for deletion
+   *
+   * The caller should sign the user out on all devices afterwards.
+   *
+   * @param email - Signed-in user's email
+   * @param password - Password entered to confirm the deletion
+   * @returns The pending deletion request
+   * @throws Error if the password is wrong or the request is rejected
+   *
+   * @example
+   * ```typescript
+   * const request = await AccountDeletionService.requestDeletion(user.email, password);
+   * await signOut({ allDevices: true });
+   * ```
+   */
+  static async requestDeletion(email: string, password: string): Promise<AccountDeletionRequest> {
+    try {
+      // Signing in again proves the user knows the password and refreshes
+      // last_sign_in_at, which request_account_deletion checks
+      const { error: authError } = await supabase.auth.signInWithPassword({ email, password });
+
+      if (authError) {
+        throw new Error('Incorrect password');
+      }
+
+      const { data, error } = await supabase.rpc('request_account_deletion');
+
+      if (error) {
+        throw new Error(`Failed to delete account: ${error.message}`);
+      }
+
+      console.log('✅ Account deletion scheduled for', data.scheduled_for);
+      return data as AccountDeletionRequest;
+    } catch (error) {
+      console.error('Error requesting account deletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's pending deletion request, if any
+   * @param userId - User ID
+   * @returns Pending request, or null when the account isn't being deleted
+   */
+  static async getPendingDeletion(userId: string): Promise<AccountDeletionRequest | null> {
+    try {
+      const { data, error } = await supabase
+        .from('account_deletion_requests')
+        .select('id, user_id, status, requested_at, scheduled_for, cancelled_at, completed_at')
+        .eq('user_id', userId)
+        .in('status', ['pending', 'failed'])
+        .order('requested_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to check account deletion: ${error.message}`);
+      }
+
+      return data as AccountDeletionRequest | null;
+    } catch (error) {
+      console.error('Error checking account deletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an account that is scheduled for deletion
+   * @returns True if a pending deletion was cancelled
+   * @throws Error if the request fails
+   */
+  static async cancelDeletion(): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_account_deletion');
+
+      if (error) {
+        throw new Error(`Failed to restore account: ${error.message}`);
+      }
+
+      console.log('✅ Account deletion cancelled');
+      return !!data;
+    } catch (error) {
+      console.error('Error cancelling account deletion:', error);
+      throw error;
+    }
+  }
+}
@@ -1,15 +1,24 @@
 import { supabase } from '../../lib/supabase';
 import type {
+  ActivityComment,
   ActivityFeedEntry,
   ActivityFeedOptions,
   ActivityFeedResponse,
+  GroupOuting,
   PrivacyLevel,
 } from '../../types/social.types';
 import type { CheckIn } from '../../types/checkin.types';
+import { ContentModerationService } from '../compliance/ContentModerationService';
+import { NotificationService } from './notifications';
+
+/**
+ * Maximum length of an activity comment
+ */
+const MAX_COMMENT_LENGTH = 500;
 
 /**
  * ActivityFeedService - Handles activity feed operations
- * Implements activity creation, retrieval, and privacy filtering
+ * Implements activity creation, retrieval, privacy filtering, likes and comments
  */
 export class ActivityFeedService {
   // ============================================================================
@@ -80,12 +89,18 @@ export class ActivityFeedService {
         userId
       );
 
+      // Attach like/comment counts for the visible activities
+      const activitiesWithEngagement = await this.attachEngagement(
+        filteredActivities,
+        userId
+      );
+
       // Calculate hasMore based on total count
       const total = count || 0;
       const hasMore = offset + limit < total;
 
       return {
-        activities: filteredActivities,
+        activities: activitiesWithEngagement,
         hasMore,
         total,
       };
@@ -188,6 +203,348 @@ export class ActivityFeedService {
     return false;
   }
 
+  // ============================================================================
+  // Activity Engagement Methods
+  // ============================================================================
+
+  /**
+   * Like an activity
+   * Liking an already-liked activity is a no-op
+   * @param activityId - ID of the activity to like
+   * @param userId - ID of the user liking the activity
+   * @throws Error if the activity isn't visible or the like fails
+   */
+  static async likeActivity(activityId: string, userId: string): Promise<void> {
+    try {
+      const activity = await this.getActivity(activityId);
+
+      const { data, error } = await supabase
+        .from('activity_likes')
+        .upsert(
+          { activity_id: activityId, user_id: userId },
+          { onConflict: 'activity_id,user_id', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to like activity: ${error.message}`);
+      }
+
+      // No row returned means the activity was already liked
+      if (!data || data.length === 0) {
+        return;
+      }
+
+      console.log('✅ Activity liked successfully');
+
+      // Notify the activity owner (not for liking your own activity)
+      if (activity.user_id !== userId) {
+        try {
+          await NotificationService.sendActivityLikeNotification(activity, userId);
+        } catch (notificationError) {
+          // Log notification failure but don't throw - like was created successfully
+          console.error('⚠️ Failed to send activity like notification:', notificationError);
+        }
+      }
+    } catch (error) {
+      console.error('Error liking activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a like from an activity
+   * @param activityId - ID of the activity to unlike
+   * @param userId - ID of the user removing their like
+   * @throws Error if unlike fails
+   */
+  static async unlikeActivity(activityId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('activity_likes')
+        .delete()
+        .eq('activity_id', activityId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to unlike activity: ${error.message}`);
+      }
+
+      console.log('✅ Activity unliked successfully');
+    } catch (error) {
+      console.error('Error unliking activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get comments on an activity as threads
+   * Top-level comments are returned oldest first, each with its replies nested under it
+   * @param activityId - ID of the activity
+   * @returns Top-level comments with nested replies
+   * @throws Error if query fails
+   */
+  static async getActivityComments(activityId: string): Promise<ActivityComment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('activity_comments')
+        .select(`
+          id,
+          activity_id,
+          user_id,
+          parent_comment_id,
+          comment_text,
+          created_at,
+          user:profiles!activity_comments_user_id_fkey (
+            id,
+            email,
+            name,
+            avatar_url,
+            created_at
+          )
+        `)
+        .eq('activity_id', activityId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get activity comments: ${error.message}`);
+      }
+
+      return this.buildCommentThreads(
+        (data || []).map((comment: any) => ({
+          ...comment,
+          user: comment.user
+            ? { ...comment.user, username: null, bio: null }
+            : undefined,
+        }))
+      );
+    } catch (error) {
+      console.error('Error getting activity comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Comment on an activity, or reply to an existing comment
+   * Comment text is run through content moderation before it is stored
+   * @param activityId - ID of the activity
+   * @param userId - ID of the commenting user
+   * @param commentText - Comment text (1-500 characters)
+   * @param parentCommentId - ID of the comment being replied to, if any
+   * @returns The created comment
+   * @throws Error if validation, moderation, or creation fails
+   */
+  static async addActivityComment(
+    activityId: string,
+    userId: string,
+    commentText: string,
+    parentCommentId?: string
+  ): Promise<ActivityComment> {
+    try {
+      const trimmedText = commentText.trim();
+      if (trimmedText.length === 0) {
+        throw new Error('Comment cannot be empty');
+      }
+      if (trimmedText.length > MAX_COMMENT_LENGTH) {
+        throw new Error(`Comment must be ${MAX_COMMENT_LENGTH} characters or less`);
+      }
+
+      // Apply content moderation
+      const moderation = ContentModerationService.filterProfanity(trimmedText);
+
+      // Reject severe content
+      if (moderation.wasRejected) {
+        throw new Error(moderation.message || 'Content violates community guidelines');
+      }
+
+      const activity = await this.getActivity(activityId);
+
+      // Look up the parent comment author so they can be notified of the reply
+      let parentAuthorId: string | null = null;
+      if (parentCommentId) {
+        const { data: parent, error: parentError } = await supabase
+          .from('activity_comments')
+          .select('user_id, activity_id')
+          .eq('id', parentCommentId)
+          .maybeSingle();
+
+        if (parentError) {
+          throw new Error(`Failed to get parent comment: ${parentError.message}`);
+        }
+
+        if (!parent || parent.activity_id !== activityId) {
+          throw new Error('Comment being replied to was not found');
+        }
+
+        parentAuthorId = parent.user_id;
+      }
+
+      const { data, error } = await supabase
+        .from('activity_comments')
+        .insert({
+          activity_id: activityId,
+          user_id: userId,
+          parent_comment_id: parentCommentId || null,
+          comment_text: moderation.filtered,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to add comment: ${error.message}`);
+      }
+
+      console.log('✅ Activity comment added successfully');
+
+      // Notify the activity owner and, for replies, the author of the parent comment
+      const recipientIds = [activity.user_id, parentAuthorId].filter(
+        (id, index, ids): id is string => !!id && id !== userId && ids.indexOf(id) === index
+      );
+
+      for (const recipientId of recipientIds) {
+        try {
+          await NotificationService.sendActivityCommentNotification(activity, data, recipientId);
+        } catch (notificationError) {
+          // Log notification failure but don't throw - comment was created successfully
+          console.error('⚠️ Failed to send activity comment notification:', notificationError);
+        }
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error adding activity comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a comment (and its replies)
+   * Allowed for the comment author and the activity owner
+   * @param commentId - ID of the comment to delete
+   * @throws Error if deletion fails
+   */
+  static async deleteActivityComment(commentId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('activity_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) {
+        throw new Error(`Failed to delete comment: ${error.message}`);
+      }
+
+      console.log('✅ Activity comment deleted successfully');
+    } catch (error) {
+      console.error('Error deleting activity comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Nest replies under the comment they respond to
+   * @param comments - Flat list of comments, oldest first
+   * @returns Top-level comments with replies attached
+   */
+  static buildCommentThreads(comments: ActivityComment[]): ActivityComment[] {
+    const byId = new Map<string, ActivityComment>();
+    comments.forEach((comment) => byId.set(comment.id, { ...comment, replies: [] }));
+
+    const threads: ActivityComment[] = [];
+    byId.forEach((comment) => {
+      const parent = comment.parent_comment_id ? byId.get(comment.parent_comment_id) : undefined;
+      if (parent) {
+        parent.replies!.push(comment);
+      } else {
+        threads.push(comment);
+      }
+    });
+
+    return threads;
+  }
+
+  /**
+   * Fetch a single activity the current user can see
+   * @param activityId - ID of the activity
+   * @returns The activity
+   * @throws Error if the activity doesn't exist or isn't visible
+   */
+  private static async getActivity(activityId: string): Promise<ActivityFeedEntry> {
+    const { data, error } = await supabase
+      .from('activity_feed')
+      .select('*')
+      .eq('id', activityId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get activity: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Activity not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Attach like count, comment count, and viewer like state to activities
+   * @param activities - Activities to enrich
+   * @param viewerId - ID of the viewer
+   * @returns Activities with engagement fields populated
+   */
+  private static async attachEngagement(
+    activities: ActivityFeedEntry[],
+    viewerId: string
+  ): Promise<ActivityFeedEntry[]> {
+    if (activities.length === 0) {
+      return activities;
+    }
+
+    const activityIds = activities.map((activity) => activity.id);
+
+    const [likesResult, commentsResult] = await Promise.all([
+      supabase
+        .from('activity_likes')
+        .select('activity_id, user_id')
+        .in('activity_id', activityIds),
+      supabase
+        .from('activity_comments')
+        .select('activity_id')
+        .in('activity_id', activityIds),
+    ]);
+
+    if (likesResult.error || commentsResult.error) {
+      // Engagement is supplementary - return the feed without it rather than failing
+      console.warn(
+        'Warning: Failed to load activity engagement:',
+        likesResult.error?.message || commentsResult.error?.message
+      );
+      return activities;
+    }
+
+    const likeCounts = new Map<string, number>();
+    const likedByViewer = new Set<string>();
+    (likesResult.data || []).forEach((like: { activity_id: string; user_id: string }) => {
+      likeCounts.set(like.activity_id, (likeCounts.get(like.activity_id) || 0) + 1);
+      if (like.user_id === viewerId) {
+        likedByViewer.add(like.activity_id);
+      }
+    });
+
+    const commentCounts = new Map<string, number>();
+    (commentsResult.data || []).forEach((comment: { activity_id: string }) => {
+      commentCounts.set(comment.activity_id, (commentCounts.get(comment.activity_id) || 0) + 1);
+    });
+
+    return activities.map((activity) => ({
+      ...activity,
+      like_count: likeCounts.get(activity.id) || 0,
+      comment_count: commentCounts.get(activity.id) || 0,
+      user_has_liked: likedByViewer.has(activity.id),
+    }));
+  }
+
   // ============================================================================
   // Activity Creation Methods
   // ============================================================================
@@ -309,4 +666,41 @@ export class ActivityFeedService {
       throw error;
     }
   }
+
+  /**
+   * Create an activity entry for a newly planned group outing
+   * @param outing - The group outing that was created
+   * @param privacyLevel - Privacy level for the activity
+   * @throws Error if creation fails
+   */
+  static async createGroupOutingActivity(
+    outing: GroupOuting,
+    privacyLevel: PrivacyLevel = 'friends'
+  ): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('activity_feed')
+        .insert({
+          user_id: outing.creator_id,
+          activity_type: 'group_outing',
+          venue_id: outing.venue_id,
+          collection_id: null,
+          group_outing_id: outing.id,
+          privacy_level: privacyLevel,
+          metadata: {
+            outing_title: outing.title,
+            scheduled_date: outing.scheduled_date,
+          },
+        });
+
+      if (error) {
+        throw new Error(`Failed to create group outing activity: ${error.message}`);
+      }
+
+      console.log('✅ Group outing activity created successfully');
+    } catch (error) {
+      console.error('Error creating group outing activity:', error);
+      throw error;
+    }
+  }
 }
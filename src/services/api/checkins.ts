@@ -1,48 +1,92 @@
 import { supabase } from '../../lib/supabase';
-import type { CheckIn, VenueCheckInStats, CheckInWithVenue, CheckInHistoryOptions, CheckInHistoryResponse } from '../../types';
+import { LocationService, type LocationCoordinates } from '../locationService';
+import type {
+  CheckIn,
+  VenueCheckInStats,
+  CheckInWithVenue,
+  CheckInHistoryOptions,
+  CheckInHistoryResponse,
+  CheckInVerificationReason,
+  CheckInExpiryContext,
+  CheckOutReason,
+} from '../../types';
+import { isVenueOpenAt } from '../../utils/venue/venueHours';
+
+const VERIFICATION_MESSAGES: Record<CheckInVerificationReason, string> = {
+  outside_radius: "Your location doesn't appear to be at this venue.",
+  low_accuracy: "We couldn't get a precise enough location fix.",
+  location_unavailable: "We couldn't access your location.",
+  venue_location_missing: "This venue hasn't set its location yet.",
+  not_verified: 'Your location was not verified.',
+};
+
+// Matches the defaults in expire_stale_check_ins() (migration 030)
+const DEFAULT_MAX_DWELL_MINUTES = 240;
+const CLOSED_VENUE_GRACE_MINUTES = 30;
+
+// Distance beyond the check-in radius before a device counts as having left,
+// so GPS drift near the edge doesn't end a check-in
+const GEOFENCE_EXIT_BUFFER_METERS = 100;
+const MAX_GEOFENCE_ACCURACY_METERS = 100;
 
 export class CheckInService {
-  // Check into a venue
-  static async checkIn(venueId: string, userId: string): Promise<CheckIn> {
+  // Check into a venue, verifying the user's location against the venue geofence.
+  // Pass a location to skip the GPS lookup, or null to check in without one.
+  // Check-ins that fail verification are still created but flagged unverified.
+  static async checkIn(
+    venueId: string,
+    userId: string,
+    location?: LocationCoordinates | null
+  ): Promise<CheckIn> {
     try {
-      // First, check out any existing active check-ins for this user
-      await this.checkOutUser(userId);
-
-      // Create new check-in
-      const { data, error } = await supabase
-        .from('check_ins')
-        .insert({
-          venue_id: venueId,
-          user_id: userId,
-          is_active: true
-        })
-        .select()
-        .single();
+      const coords = location !== undefined ? location : await this.getCheckInLocation();
+
+      // The RPC checks out other active check-ins and re-validates the coordinates
+      const { data, error } = await supabase.rpc('check_in_with_location', {
+        p_venue_id: venueId,
+        p_user_id: userId,
+        p_latitude: coords?.latitude ?? null,
+        p_longitude: coords?.longitude ?? null,
+        p_accuracy_meters: coords?.accuracy ?? null,
+      });
 
       if (error) {
         throw new Error(`Failed to check in: ${error.message}`);
       }
 
-      console.log('✅ User checked in successfully:', data);
-      return data;
+      const checkIn = data as CheckIn;
+
+      if (checkIn.verification_status === 'unverified') {
+        console.warn('⚠️ Check-in could not be verified:', checkIn.verification_reason);
+      }
+
+      console.log('✅ User checked in successfully:', checkIn);
+      return checkIn;
     } catch (error) {
       console.error('Error checking in:', error);
       throw error;
     }
   }
 
-  // Check out of a venue
-  static async checkOut(checkInId: string, userId: string): Promise<void> {
+  // User-facing explanation for an unverified check-in
+  static getVerificationMessage(reason: CheckInVerificationReason | null | undefined): string {
+    return VERIFICATION_MESSAGES[reason ?? 'not_verified'];
+  }
+
+  // Check out of a venue, recording why the check-in ended
+  static async checkOut(checkInId: string, userId: string, reason: CheckOutReason = 'manual'): Promise<void> {
     try {
       const { error } = await supabase
         .from('check_ins')
         .update({
           is_active: false,
           checked_out_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          updated_at: new Date().toISOString(),
+          checkout_reason: reason
         })
         .eq('id', checkInId)
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('is_active', true);
 
       if (error) {
         throw new Error(`Failed to check out: ${error.message}`);
@@ -63,7 +107,8 @@ export class CheckInService {
         .update({
           is_active: false,
           checked_out_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
+          updated_at: new Date().toISOString(),
+          checkout_reason: 'switched_venue'
         })
         .eq('user_id', userId)
         .eq('is_active', true);
@@ -145,6 +190,30 @@ export class CheckInService {
     }
   }
 
+  // Count a venue's verified and unverified check-ins over the last 24 hours
+  static async getVenueVerificationCounts(venueId: string): Promise<{ verified: number; unverified: number }> {
+    try {
+      const twentyFourHoursAgo = new Date();
+      twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24);
+
+      const { data, error } = await supabase
+        .from('check_ins')
+        .select('verification_status')
+        .eq('venue_id', venueId)
+        .gte('checked_in_at', twentyFourHoursAgo.toISOString());
+
+      if (error) {
+        throw new Error(`Failed to get check-in verification counts: ${error.message}`);
+      }
+
+      const unverified = (data || []).filter(checkIn => checkIn.verification_status === 'unverified').length;
+      return { verified: (data?.length || 0) - unverified, unverified };
+    } catch (error) {
+      console.error('Error getting check-in verification counts:', error);
+      throw error;
+    }
+  }
+
   // Get check-in stats for multiple venues (for feed)
   static async getMultipleVenueStats(venueIds: string[], userId?: string): Promise<Map<string, VenueCheckInStats>> {
     const statsMap = new Map<string, VenueCheckInStats>();
@@ -270,7 +339,9 @@ export class CheckInService {
           checked_out_at: data.checked_out_at,
           is_active: data.is_active,
           created_at: data.created_at,
-          updated_at: data.updated_at
+          updated_at: data.updated_at,
+          verification_status: data.verification_status,
+          verification_reason: data.verification_reason
         },
         venueName: data.venues.name
       };
@@ -417,4 +488,96 @@ export class CheckInService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Get the user's active check-in with the venue details needed to decide
+  // whether it should end automatically
+  static async getActiveCheckInExpiryContext(userId: string): Promise<CheckInExpiryContext | null> {
+    try {
+      const { data, error } = await supabase
+        .from('check_ins')
+        .select(`
+          *,
+          venues!inner(category, hours, latitude, longitude, check_in_radius_meters)
+        `)
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get active check-in: ${error.message}`);
+      }
+
+      if (!data) {
+        return null;
+      }
+
+      const { venues: venue, ...checkIn } = data;
+
+      const { data: dwellLimit } = await supabase
+        .from('check_in_dwell_limits')
+        .select('max_dwell_minutes')
+        .eq('category', venue.category)
+        .maybeSingle();
+
+      return {
+        checkIn: checkIn as CheckIn,
+        venue,
+        maxDwellMinutes: dwellLimit?.max_dwell_minutes ?? DEFAULT_MAX_DWELL_MINUTES,
+      };
+    } catch (error) {
+      console.error('Error getting active check-in expiry context:', error);
+      throw error;
+    }
+  }
+
+  // Decide whether an active check-in should end automatically. The geofence is
+  // only checked for verified check-ins with an accurate device location, since
+  // anything else can't reliably show the user was there to begin with.
+  static getAutoCheckOutReason(
+    context: CheckInExpiryContext,
+    location: LocationCoordinates | null,
+    now: Date = new Date()
+  ): CheckOutReason | null {
+    const { checkIn, venue, maxDwellMinutes } = context;
+    const minutesCheckedIn = (now.getTime() - new Date(checkIn.checked_in_at).getTime()) / 60000;
+
+    if (minutesCheckedIn >= maxDwellMinutes) {
+      return 'max_dwell';
+    }
+
+    if (minutesCheckedIn >= CLOSED_VENUE_GRACE_MINUTES && isVenueOpenAt(venue.hours, now) === false) {
+      return 'venue_closed';
+    }
+
+    if (
+      checkIn.verification_status === 'verified' &&
+      location?.accuracy != null &&
+      location.accuracy <= MAX_GEOFENCE_ACCURACY_METERS &&
+      venue.latitude != null &&
+      venue.longitude != null
+    ) {
+      const distanceMeters = LocationService.calculateDistance(
+        location.latitude,
+        location.longitude,
+        venue.latitude,
+        venue.longitude
+      ) * 1000;
+
+      if (distanceMeters > venue.check_in_radius_meters + GEOFENCE_EXIT_BUFFER_METERS) {
+        return 'left_geofence';
+      }
+    }
+
+    return null;
+  }
+
+  // Get the user's location for a check-in, or null if it is unavailable
+  private static async getCheckInLocation(): Promise<LocationCoordinates | null> {
+    try {
+      return await LocationService.getCurrentLocation();
+    } catch (error) {
+      console.warn('Warning: Could not get location for check-in:', error);
+      return null;
+    }
+  }
+}
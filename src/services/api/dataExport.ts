@@ -0,0 +1,95 @@
+/**
+ * DataExportService
+ *
+ * Self-service download of a user's personal data. The archive (data.json
+ * plus one CSV per table) is built server-side by the export-user-data Edge
+ * Function and handed to the OS share sheet as a download link.
+ *
+ * Requirements: Privacy - Data Portability
+ */
+
+import { Share } from 'react-native';
+import { supabase } from '../../lib/supabase';
+import type { PersonalDataExport } from '../../types';
+
+const EXPORT_FUNCTION_NAME = 'export-user-data';
+
+export class DataExportService {
+  /**
+   * Generate an archive of the signed-in user's data
+   *
+   * Requests within an hour of the previous export return a fresh link to
+   * that archive instead of building a new one.
+   *
+   * @returns Download link for the archive, valid for 24 hours
+   * @throws Error if the user isn't signed in or the export fails
+   */
+  static async requestExport(): Promise<PersonalDataExport> {
+    try {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+      if (sessionError || !session?.access_token) {
+        throw new Error('Authentication required');
+      }
+
+      // @ts-ignore - accessing internal property
+      const supabaseUrl: string = supabase.supabaseUrl;
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/${EXPORT_FUNCTION_NAME}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const responseData = await response.json().catch(() => ({}));
+
+      if (!response.ok || !responseData.success) {
+        throw new Error(
+          `Failed to export your data: ${responseData.error || `status ${response.status}`}`
+        );
+      }
+
+      console.log('✅ Data export ready:', responseData.fileName);
+
+      return {
+        url: responseData.url,
+        fileName: responseData.fileName,
+        expiresAt: responseData.expiresAt,
+        formatVersion: responseData.formatVersion,
+        reused: !!responseData.reused,
+      };
+    } catch (error) {
+      console.error('Error exporting user data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate an archive and open the OS share sheet with its download link
+   *
+   * @returns True if the user shared the link, false if they dismissed the sheet
+   * @throws Error if the export fails
+   *
+   * @example
+   * ```typescript
+   * await DataExportService.shareExport();
+   * ```
+   */
+  static async shareExport(): Promise<boolean> {
+    const dataExport = await this.requestExport();
+
+    const result = await Share.share(
+      {
+        title: dataExport.fileName,
+        // Android only shares the message, so the link goes there too
+        message: `Your data export (${dataExport.fileName}). The link expires in 24 hours: ${dataExport.url}`,
+        url: dataExport.url,
+      },
+      { subject: dataExport.fileName }
+    );
+
+    return result.action === Share.sharedAction;
+  }
+}
@@ -2,7 +2,7 @@
  * FlashOfferAnalyticsService
  * 
  * Service for tracking and analyzing flash offer events.
- * Handles event tracking (push_sent, view, claim, redeem) and analytics queries.
+ * Handles event tracking (push_sent, push_open, view, claim, redeem) and analytics queries.
  * 
  * Requirements: Flash Offers MVP - Analytics & Tracking (Task 14)
  */
@@ -12,7 +12,7 @@ import { supabase } from '../../lib/supabase';
 /**
  * Event types for flash offer analytics
  */
-export type FlashOfferEventType = 'push_sent' | 'view' | 'claim' | 'redeem';
+export type FlashOfferEventType = 'push_sent' | 'push_open' | 'view' | 'claim' | 'redeem';
 
 /**
  * Flash offer event interface
@@ -50,6 +50,149 @@ export interface TimeSeriesDataPoint {
   count: number;
 }
 
+/**
+ * Customer counts at each funnel stage after the push
+ */
+export interface FlashOfferFunnelCounts {
+  opens: number;
+  views: number;
+  claims: number;
+  redemptions: number;
+  check_ins: number; // Check-ins at the venue within the window after first engagement
+}
+
+/**
+ * Whether the customer had checked in at the venue before the offer started
+ */
+export type FunnelCustomerType = 'new' | 'returning';
+
+/**
+ * Distance from the venue when the customer first engaged with the offer
+ */
+export type FunnelDistanceBand = 'under_1_mi' | '1_to_3_mi' | '3_to_5_mi' | '5_plus_mi' | 'unknown';
+
+export const FUNNEL_DISTANCE_BANDS: FunnelDistanceBand[] = [
+  'under_1_mi',
+  '1_to_3_mi',
+  '3_to_5_mi',
+  '5_plus_mi',
+  'unknown',
+];
+
+/**
+ * Check-ins during the offer compared with the same weekday/hours in the
+ * previous four weeks
+ */
+export interface FlashOfferAttribution {
+  window_check_ins: number;
+  baseline_check_ins: number;
+  incremental_visits: number;
+  lift_percent: number | null; // null when there is no baseline traffic
+}
+
+/**
+ * Funnel from pushes delivered to check-ins, with segment breakdowns
+ */
+export interface FlashOfferFunnel extends FlashOfferFunnelCounts {
+  pushes_delivered: number;
+  by_customer_type: Record<FunnelCustomerType, FlashOfferFunnelCounts>;
+  by_distance_band: Record<FunnelDistanceBand, FlashOfferFunnelCounts>;
+  attribution: FlashOfferAttribution;
+}
+
+/**
+ * Funnel for a single offer
+ */
+export interface FlashOfferFunnelReport extends FlashOfferFunnel {
+  offer_id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * Funnel for every offer in a time range, plus totals across them
+ */
+export interface FlashOfferFunnelSummary {
+  totals: FlashOfferFunnel;
+  offers: FlashOfferFunnelReport[];
+  check_in_window_hours: number;
+}
+
+/**
+ * Options for a funnel report
+ */
+export interface FlashOfferFunnelOptions {
+  from: Date;
+  to: Date;
+  offerId?: string;
+  checkInWindowHours?: number; // Default 3, max 72
+}
+
+/**
+ * Row returned by the get_flash_offer_funnel database function
+ */
+interface FunnelRow {
+  offer_id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  pushes_delivered: number;
+  window_check_ins: number;
+  baseline_check_ins: number | string;
+  customer_type: FunnelCustomerType | null;
+  distance_band: FunnelDistanceBand | null;
+  opens: number;
+  views: number;
+  claims: number;
+  redemptions: number;
+  attributed_check_ins: number;
+}
+
+const emptyFunnelCounts = (): FlashOfferFunnelCounts => ({
+  opens: 0,
+  views: 0,
+  claims: 0,
+  redemptions: 0,
+  check_ins: 0,
+});
+
+const emptyFunnel = (): FlashOfferFunnel => ({
+  ...emptyFunnelCounts(),
+  pushes_delivered: 0,
+  by_customer_type: { new: emptyFunnelCounts(), returning: emptyFunnelCounts() },
+  by_distance_band: {
+    under_1_mi: emptyFunnelCounts(),
+    '1_to_3_mi': emptyFunnelCounts(),
+    '3_to_5_mi': emptyFunnelCounts(),
+    '5_plus_mi': emptyFunnelCounts(),
+    unknown: emptyFunnelCounts(),
+  },
+  attribution: {
+    window_check_ins: 0,
+    baseline_check_ins: 0,
+    incremental_visits: 0,
+    lift_percent: null,
+  },
+});
+
+const addFunnelCounts = (target: FlashOfferFunnelCounts, source: FlashOfferFunnelCounts): void => {
+  target.opens += source.opens;
+  target.views += source.views;
+  target.claims += source.claims;
+  target.redemptions += source.redemptions;
+  target.check_ins += source.check_ins;
+};
+
+const finishAttribution = (attribution: FlashOfferAttribution): void => {
+  attribution.baseline_check_ins = Math.round(attribution.baseline_check_ins * 100) / 100;
+  attribution.incremental_visits =
+    Math.round((attribution.window_check_ins - attribution.baseline_check_ins) * 100) / 100;
+  attribution.lift_percent = attribution.baseline_check_ins > 0
+    ? Math.round((attribution.incremental_visits / attribution.baseline_check_ins) * 10000) / 100
+    : null;
+};
+
 export class FlashOfferAnalyticsService {
   /**
    * Track a push_sent event when notification is sent
@@ -84,6 +227,35 @@ export class FlashOfferAnalyticsService {
     }
   }
 
+  /**
+   * Track a push_open event when user opens a flash offer notification
+   * 
+   * @param offerId - ID of the flash offer
+   * @param userId - ID of the user opening the notification
+   */
+  static async trackPushOpen(offerId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('flash_offer_events').insert({
+        offer_id: offerId,
+        user_id: userId,
+        event_type: 'push_open',
+        metadata: {
+          opened_at: new Date().toISOString(),
+        },
+      });
+
+      if (error) {
+        console.error('Error tracking push_open event:', error);
+        throw error;
+      }
+
+      console.log('✅ Tracked push_open event for offer:', offerId);
+    } catch (error) {
+      console.error('Error tracking push_open event:', error);
+      // Don't throw - analytics failures shouldn't break the main flow
+    }
+  }
+
   /**
    * Track a view event when user views offer detail
    * 
@@ -338,6 +510,7 @@ export class FlashOfferAnalyticsService {
 
       const counts: Record<FlashOfferEventType, number> = {
         push_sent: 0,
+        push_open: 0,
         view: 0,
         claim: 0,
         redeem: 0,
@@ -354,4 +527,115 @@ export class FlashOfferAnalyticsService {
       throw error;
     }
   }
+
+  /**
+   * Get the conversion funnel for a venue's offers in a time range
+   * 
+   * Follows each offer from pushes delivered through opens, views, claims and
+   * redemptions to check-ins at the venue within `checkInWindowHours` of the
+   * customer's first engagement. Customers are broken down by new vs returning
+   * and by distance band. Check-ins during the offer are compared with the
+   * same weekday/hours in the previous four weeks to estimate incremental
+   * visits (revenue attribution).
+   * 
+   * @param venueId - ID of the venue
+   * @param options - Time range, optional single offer and check-in window
+   * @returns Per-offer funnels and totals across them
+   * @throws {Error} If the report cannot be loaded
+   * 
+   * @example
+   * ```typescript
+   * const { totals } = await FlashOfferAnalyticsService.getFunnelReport(venueId, {
+   *   from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+   *   to: new Date(),
+   * });
+   * console.log(`${totals.attribution.incremental_visits} extra visits`);
+   * ```
+   */
+  static async getFunnelReport(
+    venueId: string,
+    options: FlashOfferFunnelOptions
+  ): Promise<FlashOfferFunnelSummary> {
+    const checkInWindowHours = options.checkInWindowHours ?? 3;
+
+    try {
+      const { data, error } = await supabase.rpc('get_flash_offer_funnel', {
+        p_venue_id: venueId,
+        p_from: options.from.toISOString(),
+        p_to: options.to.toISOString(),
+        p_check_in_window_hours: checkInWindowHours,
+        p_offer_id: options.offerId ?? null,
+      });
+
+      if (error) {
+        throw new Error(`Failed to fetch funnel report: ${error.message}`);
+      }
+
+      return {
+        ...this.buildFunnelSummary((data || []) as FunnelRow[]),
+        check_in_window_hours: checkInWindowHours,
+      };
+    } catch (error) {
+      console.error('Error getting funnel report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Group segment rows into per-offer funnels and totals
+   * 
+   * @param rows - One row per offer and customer segment
+   * @returns Offers in row order and totals across them
+   */
+  private static buildFunnelSummary(
+    rows: FunnelRow[]
+  ): Omit<FlashOfferFunnelSummary, 'check_in_window_hours'> {
+    const offers = new Map<string, FlashOfferFunnelReport>();
+    const totals = emptyFunnel();
+
+    rows.forEach((row) => {
+      let offer = offers.get(row.offer_id);
+      if (!offer) {
+        offer = {
+          ...emptyFunnel(),
+          offer_id: row.offer_id,
+          title: row.title,
+          start_time: row.start_time,
+          end_time: row.end_time,
+          pushes_delivered: row.pushes_delivered,
+        };
+        offer.attribution.window_check_ins = row.window_check_ins;
+        offer.attribution.baseline_check_ins = Number(row.baseline_check_ins);
+        offers.set(row.offer_id, offer);
+
+        totals.pushes_delivered += offer.pushes_delivered;
+        totals.attribution.window_check_ins += offer.attribution.window_check_ins;
+        totals.attribution.baseline_check_ins += offer.attribution.baseline_check_ins;
+      }
+
+      // Offers nobody engaged with come back as a single row without a segment
+      if (!row.customer_type || !row.distance_band) {
+        return;
+      }
+
+      const counts: FlashOfferFunnelCounts = {
+        opens: row.opens,
+        views: row.views,
+        claims: row.claims,
+        redemptions: row.redemptions,
+        check_ins: row.attributed_check_ins,
+      };
+
+      [offer, totals].forEach((funnel) => {
+        addFunnelCounts(funnel, counts);
+        addFunnelCounts(funnel.by_customer_type[row.customer_type!], counts);
+        addFunnelCounts(funnel.by_distance_band[row.distance_band!], counts);
+      });
+    });
+
+    offers.forEach((offer) => finishAttribution(offer.attribution));
+    finishAttribution(totals.attribution);
+
+    return { totals, offers: Array.from(offers.values()) };
+  }
 }
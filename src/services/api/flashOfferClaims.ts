@@ -10,11 +10,22 @@
  * @subcategory API
  */
 
+import { Platform } from 'react-native';
 import { supabase } from '../../lib/supabase';
 import { generateFlashOfferToken } from '../../utils/tokenGenerator';
 import { FlashOfferAnalyticsService } from './flashOfferAnalytics';
 import { NetworkErrorHandler } from '../../utils/errors/NetworkErrorHandler';
 import { FlashOfferCache } from '../../utils/cache/FlashOfferCache';
+import type { RedemptionConflict } from '../../utils/cache/FlashOfferCache';
+import { LocationService } from '../locationService';
+import { CheckInService } from './checkins';
+import type {
+  ClaimIneligibilityReason,
+  ClaimQrPayload,
+  ClaimRedemptionEvent,
+  RedemptionFailureReason,
+  RedemptionOutcome,
+} from '../../types/flashOfferClaim.types';
 
 /**
  * Status of a flash offer claim
@@ -50,16 +61,101 @@ export interface FlashOfferClaim {
   updated_at: string;
 }
 
+/**
+ * Row returned by redeem_claim_atomic and reverse_claim_redemption
+ * The claim columns are only meaningful when outcome is 'success'
+ */
+interface RedemptionRpcRow extends FlashOfferClaim {
+  /** Whether the attempt succeeded */
+  outcome: RedemptionOutcome;
+  /** Why the attempt was rejected (null on success) */
+  failure_reason: RedemptionFailureReason | null;
+}
+
+/** The RPCs return a table, but a single row is accepted as well */
+type RedemptionRpcResult = RedemptionRpcRow[] | RedemptionRpcRow | null;
+
 /**
  * Result of claim eligibility validation
  */
 export interface ClaimValidationResult {
   /** Whether the user is eligible to claim the offer */
   eligible: boolean;
-  /** Reason for ineligibility (undefined if eligible) */
-  reason?: string;
+  /** Reason code for ineligibility (undefined if eligible) */
+  reason?: ClaimIneligibilityReason;
+  /** User-facing explanation of the reason (undefined if eligible) */
+  message?: string;
 }
 
+/**
+ * Result of syncing redemptions queued while offline
+ */
+export interface RedemptionSyncResult {
+  /** Number of queued redemptions the server accepted */
+  synced: number;
+  /** Queued redemptions the server rejected (already redeemed, expired, ...) */
+  conflicts: RedemptionConflict[];
+  /** Number of redemptions still queued (sync interrupted, or failed and to be retried) */
+  remaining: number;
+}
+
+/**
+ * Failed sync attempts before a queued redemption is given up on and reported
+ * as a conflict
+ */
+const MAX_REDEMPTION_SYNC_ATTEMPTS = 5;
+
+/**
+ * User-facing messages for each ineligibility reason
+ * claimErrorHandler matches on these, so keep them in sync
+ */
+export const CLAIM_INELIGIBILITY_MESSAGES: Record<ClaimIneligibilityReason, string> = {
+  offer_not_found: 'Offer not found',
+  not_checked_in: 'You must be checked in to this venue to claim this offer',
+  check_in_unverified: 'Your check-in could not be verified. Check in again from the venue to claim this offer',
+  already_claimed: 'You have already claimed this offer',
+  offer_full: 'This offer has reached its maximum claims',
+  offer_expired: 'This offer has expired',
+  offer_not_active: 'This offer is not currently active',
+  offer_not_started: 'This offer has not started yet',
+  outside_radius: "You are outside this offer's radius",
+  not_favorite: 'This offer is only available to customers who have favorited this venue',
+  user_claim_limit_reached: "You have reached this venue's weekly claim limit",
+  not_first_visit: 'This offer is only available to first-time visitors',
+  not_returning_customer: 'This offer is only available to returning customers',
+  unknown_error: 'An error occurred while validating eligibility',
+};
+
+/**
+ * Error thrown when a user is not eligible to claim an offer
+ * Carries the typed reason so the UI can show reason-specific states
+ */
+export class ClaimIneligibleError extends Error {
+  constructor(public readonly reason: ClaimIneligibilityReason, message?: string) {
+    super(message || CLAIM_INELIGIBILITY_MESSAGES[reason]);
+    this.name = 'ClaimIneligibleError';
+  }
+}
+
+/** Miles per kilometer, for comparing LocationService distances with radius_miles */
+const MILES_PER_KM = 0.621371;
+
+/** How long after redemption a venue manager can reverse it (matches reverse_claim_redemption) */
+export const REDEMPTION_UNDO_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Staff-facing messages for each redemption failure reason
+ * The existing 'already been redeemed' / 'expired' wording is kept for callers that match on it
+ */
+const REDEMPTION_FAILURE_MESSAGES: Record<RedemptionFailureReason, string> = {
+  claim_not_found: 'Claim not found',
+  not_authorized: 'You are not authorized to redeem claims for this venue',
+  already_redeemed: 'This claim has already been redeemed',
+  expired: 'This claim has expired',
+  not_redeemed: 'This claim has not been redeemed',
+  undo_window_passed: 'This redemption can no longer be undone',
+};
+
 /**
  * Service for managing flash offer claims
  * 
@@ -90,6 +186,9 @@ export interface ClaimValidationResult {
  * ```
  */
 export class ClaimService {
+  /** In-flight offline redemption sync, shared by concurrent callers */
+  private static redemptionSync: Promise<RedemptionSyncResult> | null = null;
+
   /**
    * Claim an offer for a user with full validation
    * 
@@ -100,7 +199,8 @@ export class ClaimService {
    * @param offerId - ID of the offer to claim
    * @param userId - ID of the user claiming the offer
    * @returns Promise resolving to the created claim with 6-digit token
-   * @throws {Error} If user is not eligible or claim creation fails
+   * @throws {ClaimIneligibleError} If user is not eligible (see error.reason)
+   * @throws {Error} If claim creation fails
    * 
    * @example
    * ```typescript
@@ -127,7 +227,7 @@ export class ClaimService {
       // First, validate eligibility
       const validation = await this.validateClaimEligibility(offerId, userId);
       if (!validation.eligible) {
-        throw new Error(validation.reason || 'User is not eligible to claim this offer');
+        throw new ClaimIneligibleError(validation.reason || 'unknown_error', validation.message);
       }
 
       // Generate a unique token
@@ -205,6 +305,21 @@ export class ClaimService {
         if (error.message.includes('not active')) {
           throw new Error('This offer is not currently active');
         }
+        if (error.message.includes('favorited this venue')) {
+          throw new ClaimIneligibleError('not_favorite');
+        }
+        if (error.message.includes("offer's radius")) {
+          throw new ClaimIneligibleError('outside_radius');
+        }
+        if (error.message.includes('weekly claim limit')) {
+          throw new ClaimIneligibleError('user_claim_limit_reached');
+        }
+        if (error.message.includes('first-time visitors')) {
+          throw new ClaimIneligibleError('not_first_visit');
+        }
+        if (error.message.includes('returning customers')) {
+          throw new ClaimIneligibleError('not_returning_customer');
+        }
         throw new Error(`Failed to claim offer: ${error.message}`);
       }
 
@@ -682,16 +797,116 @@ export class ClaimService {
     }
   }
 
+  /**
+   * Get a signed QR code payload for one of the user's active claims
+   * 
+   * The payload is signed server-side and expires after 30 seconds, so callers
+   * should request a new one before `expires_at` to keep the code scannable.
+   * 
+   * @param claimId - ID of the claim
+   * @returns Promise resolving to the payload and its expiry
+   * @throws {Error} If the claim isn't the user's or is no longer active
+   * 
+   * @example
+   * ```typescript
+   * const { payload, expires_at } = await ClaimService.getClaimQrPayload('claim-123');
+   * // Render payload as a QR code and refresh it before expires_at
+   * ```
+   */
+  static async getClaimQrPayload(claimId: string): Promise<ClaimQrPayload> {
+    try {
+      const { data, error } = await supabase.rpc('issue_claim_qr_payload', {
+        p_claim_id: claimId,
+      });
+
+      if (error) {
+        throw new Error(`Failed to get claim QR code: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        throw new Error('Failed to get claim QR code');
+      }
+
+      return data[0] as ClaimQrPayload;
+    } catch (error) {
+      console.error('Error getting claim QR code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether scanned or pasted text looks like a claim QR payload
+   * 
+   * Only checks the format; use verifyClaimQrPayload to check the signature.
+   * 
+   * @param value - Scanned or pasted text
+   * @returns True if the text has the claim QR payload format
+   */
+  static isClaimQrPayload(value: string): boolean {
+    return /^otw1\.[0-9a-f-]{36}\.[0-9a-f-]{36}\.\d+\.[0-9a-f]+\.[0-9a-f]{64}$/i.test(value.trim());
+  }
+
+  /**
+   * Verify a scanned claim QR payload for a venue
+   * 
+   * The server checks the signature, that the payload hasn't expired and that
+   * the offer belongs to the venue, then returns the claim. Redeem it with
+   * redeemClaim once staff confirm.
+   * 
+   * @param venueId - ID of the venue redeeming the claim
+   * @param payload - Scanned or pasted QR payload
+   * @returns Promise resolving to the claim, or null if it no longer exists
+   * @throws {Error} If the payload is invalid, expired, or for another venue
+   * 
+   * @example
+   * ```typescript
+   * const claim = await ClaimService.verifyClaimQrPayload('venue-123', scannedText);
+   * if (claim) {
+   *   await ClaimService.redeemClaim(claim.id, staffUserId);
+   * }
+   * ```
+   */
+  static async verifyClaimQrPayload(
+    venueId: string,
+    payload: string
+  ): Promise<FlashOfferClaim | null> {
+    try {
+      const { data, error } = await supabase.rpc('verify_claim_qr_payload', {
+        p_payload: payload.trim(),
+        p_venue_id: venueId,
+      });
+
+      if (error) {
+        if (error.message.includes('QR code')) {
+          throw new Error(`${error.message}. Ask the customer to show their claim again.`);
+        }
+        throw new Error(`Failed to verify QR code: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        return null;
+      }
+
+      return data[0] as FlashOfferClaim;
+    } catch (error) {
+      console.error('Error verifying claim QR code:', error);
+      throw error;
+    }
+  }
+
   /**
    * Redeem a claim by marking it as redeemed
    * 
-   * Marks a claim as redeemed by venue staff. Validates that the claim is active
-   * and not expired before redeeming. Tracks redemption event for analytics.
+   * Runs the redeem_claim_atomic RPC, which locks the claim, checks that the
+   * caller manages the offer's venue and that the claim is active and not
+   * expired, then marks it redeemed. Every attempt, including rejected ones, is
+   * recorded in claim_redemption_events with this device's description.
+   * Tracks the redemption event for analytics on success.
    * 
    * @param claimId - ID of the claim to redeem
    * @param staffUserId - ID of the staff member redeeming the claim
    * @returns Promise resolving to the updated claim
-   * @throws {Error} If claim is already redeemed, expired, or redemption fails
+   * @throws {Error} If claim is already redeemed, expired, not for the staff member's venue, or redemption fails
    * 
    * @example
    * ```typescript
@@ -718,61 +933,354 @@ export class ClaimService {
     staffUserId: string
   ): Promise<FlashOfferClaim> {
     try {
-      // Get the claim first to validate
-      const { data: claim, error: fetchError } = await supabase
-        .from('flash_offer_claims')
+      const result = this.getRedemptionResult(await this.callRedeemRpc(claimId));
+
+      // Track the redemption event
+      await FlashOfferAnalyticsService.trackRedeem(
+        result.offer_id,
+        result.user_id,
+        claimId,
+        staffUserId
+      );
+
+      console.log('✅ Claim redeemed successfully:', result);
+      return result;
+    } catch (error) {
+      console.error('Error redeeming claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a mistaken redemption
+   * 
+   * Puts a redeemed claim back to active so the customer can use it again.
+   * Only allowed for the venue's manager within REDEMPTION_UNDO_WINDOW_MS of
+   * redemption. The reversal is recorded in claim_redemption_events and the
+   * redeem analytics event is removed.
+   * 
+   * @param claimId - ID of the redeemed claim
+   * @param note - Optional explanation for the audit log
+   * @returns Promise resolving to the reactivated claim
+   * @throws {Error} If the claim isn't redeemed, the undo window has passed, or the caller doesn't manage the venue
+   * 
+   * @example
+   * ```typescript
+   * if (ClaimService.canReverseRedemption(claim)) {
+   *   await ClaimService.reverseRedemption(claim.id, 'Redeemed the wrong token');
+   * }
+   * ```
+   */
+  static async reverseRedemption(
+    claimId: string,
+    note?: string
+  ): Promise<FlashOfferClaim> {
+    try {
+      const { data, error } = await supabase.rpc('reverse_claim_redemption', {
+        p_claim_id: claimId,
+        p_note: note?.trim() || null,
+        p_device_info: this.getDeviceInfo(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to undo redemption: ${error.message}`);
+      }
+
+      const result = this.getRedemptionResult(data as RedemptionRpcResult);
+      console.log('✅ Redemption reversed:', result);
+      return result;
+    } catch (error) {
+      console.error('Error reversing redemption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a redeemed claim can still be reversed
+   * 
+   * Mirrors the server's undo window so the UI can hide the undo action once
+   * it would be rejected.
+   * 
+   * @param claim - Claim to check
+   * @param now - Current time (defaults to now)
+   * @returns True if the claim is redeemed and within the undo window
+   */
+  static canReverseRedemption(claim: FlashOfferClaim, now: Date = new Date()): boolean {
+    if (claim.status !== 'redeemed' || !claim.redeemed_at) {
+      return false;
+    }
+
+    return now.getTime() - new Date(claim.redeemed_at).getTime() < REDEMPTION_UNDO_WINDOW_MS;
+  }
+
+  /**
+   * Get the redemption audit log for a venue
+   * 
+   * Returns redemption and reversal attempts, newest first, including failed
+   * attempts and the device they were made from.
+   * 
+   * @param venueId - ID of the venue
+   * @param limit - Maximum number of events to return (default 50)
+   * @returns Promise resolving to audit events
+   * @throws {Error} If the query fails
+   */
+  static async getRedemptionEvents(
+    venueId: string,
+    limit: number = 50
+  ): Promise<ClaimRedemptionEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('claim_redemption_events')
         .select('*')
-        .eq('id', claimId)
-        .single();
+        .eq('venue_id', venueId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
 
-      if (fetchError) {
-        throw new Error(`Failed to fetch claim: ${fetchError.message}`);
+      if (error) {
+        throw new Error(`Failed to fetch redemption events: ${error.message}`);
       }
 
-      // Validate claim status
-      if (claim.status === 'redeemed') {
-        throw new Error('This claim has already been redeemed');
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching redemption events:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Offline Redemption
+  // ============================================================================
+
+  /**
+   * Prefetch a venue's redeemable claims for offline token validation
+   * 
+   * Fetches every active, unexpired claim on the venue's offers and caches the
+   * snapshot so staff can keep validating tokens if the connection drops. The
+   * server records the fetch, and only accepts a queued redemption's offline
+   * time if it falls within a snapshot the caller fetched.
+   * 
+   * @param venueId - ID of the venue
+   * @returns Promise resolving to the cached claims
+   * @throws {Error} If the query fails
+   * 
+   * @example
+   * ```typescript
+   * // When the redemption screen opens while online
+   * await ClaimService.prefetchVenueClaims(venueId);
+   * ```
+   */
+  static async prefetchVenueClaims(venueId: string): Promise<FlashOfferClaim[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_offline_redemption_claims', {
+        p_venue_id: venueId,
+      });
+
+      if (error) {
+        throw new Error(`Failed to prefetch venue claims: ${error.message}`);
       }
 
-      if (claim.status === 'expired') {
-        throw new Error('This claim has expired');
+      const claims = (data || []) as FlashOfferClaim[];
+      await FlashOfferCache.cacheVenueClaims(venueId, claims);
+      return claims;
+    } catch (error) {
+      console.error('Error prefetching venue claims:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look up a token in the venue's cached claims snapshot
+   * 
+   * Used instead of getClaimByToken while offline. Claims already queued for
+   * redemption on this device are returned as redeemed so they can't be used
+   * twice before the queue syncs.
+   * 
+   * @param venueId - ID of the venue
+   * @param token - 6-digit token to look up
+   * @returns Promise resolving to the cached claim, or null if not in the snapshot
+   */
+  static async getCachedClaimByToken(
+    venueId: string,
+    token: string
+  ): Promise<FlashOfferClaim | null> {
+    const snapshot = await FlashOfferCache.getCachedVenueClaims(venueId);
+    const claim = snapshot?.claims.find((item) => item.token === token);
+
+    if (!claim) {
+      return null;
+    }
+
+    const pending = await FlashOfferCache.getPendingRedemptions();
+    const queued = pending.find((item) => item.claimId === claim.id);
+
+    if (queued) {
+      return {
+        ...claim,
+        status: 'redeemed',
+        redeemed_at: queued.redeemedAt,
+        redeemed_by_user_id: queued.staffUserId,
+      };
+    }
+
+    return claim;
+  }
+
+  /**
+   * Queue a redemption made while offline
+   * 
+   * The redemption is stored on the device and sent to the server by
+   * syncPendingRedemptions when the connection returns.
+   * 
+   * @param claim - Claim found in the cached snapshot
+   * @param venueId - ID of the venue redeeming the claim
+   * @param staffUserId - ID of the staff member redeeming the claim
+   * @returns Promise resolving to the claim as it will look once synced
+   * @throws {Error} If the redemption can't be saved on the device
+   */
+  static async queueOfflineRedemption(
+    claim: FlashOfferClaim,
+    venueId: string,
+    staffUserId: string
+  ): Promise<FlashOfferClaim> {
+    const redeemedAt = new Date().toISOString();
+
+    await FlashOfferCache.addPendingRedemption({
+      claimId: claim.id,
+      venueId,
+      token: claim.token,
+      staffUserId,
+      redeemedAt,
+    });
+
+    console.log('📥 Queued offline redemption:', claim.id);
+    return {
+      ...claim,
+      status: 'redeemed',
+      redeemed_at: redeemedAt,
+      redeemed_by_user_id: staffUserId,
+    };
+  }
+
+  /**
+   * Send redemptions queued while offline to the server
+   * 
+   * Each queued redemption is sent with the time it happened. Redemptions the
+   * server rejects (claim already redeemed or expired at that time) are removed
+   * from the queue and stored as conflicts for staff to review. If the server
+   * errors on a redemption, the failure is recorded on it and the sync moves on;
+   * it is retried on later syncs and becomes a sync_failed conflict after
+   * MAX_REDEMPTION_SYNC_ATTEMPTS failures. If the connection drops, the rest of
+   * the queue is kept for the next sync. Concurrent calls share the same sync.
+   * 
+   * @returns Promise resolving to counts of synced and remaining redemptions and the conflicts found
+   * 
+   * @example
+   * ```typescript
+   * const { synced, conflicts } = await ClaimService.syncPendingRedemptions();
+   * if (conflicts.length > 0) {
+   *   // Show conflicts to staff
+   * }
+   * ```
+   */
+  static syncPendingRedemptions(): Promise<RedemptionSyncResult> {
+    if (!this.redemptionSync) {
+      this.redemptionSync = this.runRedemptionSync().finally(() => {
+        this.redemptionSync = null;
+      });
+    }
+
+    return this.redemptionSync;
+  }
+
+  private static async runRedemptionSync(): Promise<RedemptionSyncResult> {
+    const pending = await FlashOfferCache.getPendingRedemptions();
+    const conflicts: RedemptionConflict[] = [];
+    let synced = 0;
+
+    for (const redemption of pending) {
+      let row: RedemptionRpcRow | null | undefined;
+
+      try {
+        const data = await this.callRedeemRpc(redemption.claimId, redemption.redeemedAt);
+        row = Array.isArray(data) ? data[0] : data;
+      } catch (error) {
+        if (NetworkErrorHandler.isNetworkError(error)) {
+          console.warn('Redemption sync interrupted, will retry later:', error);
+          break;
+        }
+
+        // The server errored on this redemption; keep going with the rest
+        const message = error instanceof Error ? error.message : String(error);
+        const attempts = await FlashOfferCache.recordPendingRedemptionFailure(
+          redemption.claimId,
+          message
+        );
+
+        if (attempts < MAX_REDEMPTION_SYNC_ATTEMPTS) {
+          console.warn(`Redemption ${redemption.claimId} failed to sync (attempt ${attempts}):`, error);
+          continue;
+        }
+
+        console.warn(`Giving up on redemption ${redemption.claimId} after ${attempts} attempts:`, error);
+        conflicts.push({
+          claimId: redemption.claimId,
+          venueId: redemption.venueId,
+          token: redemption.token,
+          reason: 'sync_failed',
+          error: message,
+          redeemedAt: redemption.redeemedAt,
+          detectedAt: new Date().toISOString(),
+        });
+        await FlashOfferCache.removePendingRedemption(redemption.claimId);
+        continue;
       }
 
-      // Check if claim is expired
-      if (new Date(claim.expires_at) < new Date()) {
-        throw new Error('This claim has expired');
+      if (row?.outcome === 'success') {
+        await FlashOfferAnalyticsService.trackRedeem(
+          row.offer_id,
+          row.user_id,
+          redemption.claimId,
+          redemption.staffUserId
+        );
+        synced++;
+      } else {
+        conflicts.push({
+          claimId: redemption.claimId,
+          venueId: redemption.venueId,
+          token: redemption.token,
+          reason: row?.failure_reason ?? 'claim_not_found',
+          redeemedAt: redemption.redeemedAt,
+          detectedAt: new Date().toISOString(),
+        });
       }
 
-      // Update the claim
-      const { data: updatedClaim, error: updateError } = await supabase
-        .from('flash_offer_claims')
-        .update({
-          status: 'redeemed',
-          redeemed_at: new Date().toISOString(),
-          redeemed_by_user_id: staffUserId,
-        })
-        .eq('id', claimId)
-        .select()
-        .single();
+      await FlashOfferCache.removePendingRedemption(redemption.claimId);
+    }
 
-      if (updateError) {
-        throw new Error(`Failed to redeem claim: ${updateError.message}`);
-      }
+    await FlashOfferCache.addRedemptionConflicts(conflicts);
 
-      // Track the redemption event
-      await FlashOfferAnalyticsService.trackRedeem(
-        claim.offer_id,
-        claim.user_id,
-        claimId,
-        staffUserId
+    const remaining = pending.length - synced - conflicts.length;
+    if (pending.length > 0) {
+      console.log(
+        `🔄 Redemption sync: ${synced} synced, ${conflicts.length} conflicts, ${remaining} remaining`
       );
+    }
 
-      console.log('✅ Claim redeemed successfully:', updatedClaim);
-      return updatedClaim;
-    } catch (error) {
-      console.error('Error redeeming claim:', error);
-      throw error;
+    return { synced, conflicts, remaining };
+  }
+
+  /**
+   * Get a staff-facing message for a redemption conflict
+   * 
+   * @param conflict - Conflict found during sync
+   * @returns Message describing why the queued redemption was rejected
+   */
+  static getRedemptionConflictMessage(conflict: RedemptionConflict): string {
+    if (conflict.reason === 'sync_failed') {
+      return 'This redemption could not be synced. Look up the claim and redeem it again if it is still active';
     }
+
+    return REDEMPTION_FAILURE_MESSAGES[conflict.reason] ?? 'Failed to redeem claim';
   }
 
   /**
@@ -784,10 +1292,18 @@ export class ClaimService {
    * - Offer has available claims (not full)
    * - User has not already claimed this offer
    * - User is currently checked in to the venue
+   * - User's check-in passed location verification (unless the venue allows unverified claims)
+   * - User has favorited the venue (favorites-only offers)
+   * - User's last known location is within the offer's radius_miles
+   * - User's visits to the venue match the offer's visitor_audience
+   * - User is under the offer's weekly claim limit for the venue
+   * 
+   * The claim_flash_offer_atomic RPC repeats the favorites, radius, audience and
+   * weekly limit checks, so they can't be bypassed by calling it directly.
    * 
    * @param offerId - ID of the offer
    * @param userId - ID of the user
-   * @returns Promise resolving to validation result with eligibility status and reason
+   * @returns Promise resolving to validation result with eligibility status, reason code and message
    * 
    * @example
    * ```typescript
@@ -799,17 +1315,12 @@ export class ClaimService {
    * if (validation.eligible) {
    *   // Show "Claim Now" button
    *   console.log('You can claim this offer!');
+   * } else if (validation.reason === 'not_checked_in') {
+   *   // Prompt the user to check in
    * } else {
    *   // Show reason why user cannot claim
-   *   console.log(`Cannot claim: ${validation.reason}`);
+   *   console.log(`Cannot claim: ${validation.message}`);
    * }
-   * 
-   * // Example reasons:
-   * // - "This offer is not currently active"
-   * // - "This offer has expired"
-   * // - "This offer has reached its maximum claims"
-   * // - "You have already claimed this offer"
-   * // - "You must be checked in to this venue to claim this offer"
    * ```
    */
   static async validateClaimEligibility(
@@ -820,43 +1331,31 @@ export class ClaimService {
       // Get the offer
       const { data: offer, error: offerError } = await supabase
         .from('flash_offers')
-        .select('*, venues!inner(id)')
+        .select('*, venues!inner(id, allow_unverified_claims, latitude, longitude)')
         .eq('id', offerId)
         .single();
 
       if (offerError) {
-        return {
-          eligible: false,
-          reason: 'Offer not found',
-        };
+        return this.ineligible('offer_not_found');
       }
 
       // Check if offer is active
       if (offer.status !== 'active') {
-        return {
-          eligible: false,
-          reason: 'This offer is not currently active',
-        };
+        return this.ineligible('offer_not_active');
       }
 
       // Check if offer has expired
       if (new Date(offer.end_time) < new Date()) {
-        return {
-          eligible: false,
-          reason: 'This offer has expired',
-        };
+        return this.ineligible('offer_expired');
       }
 
       // Check if offer is full
       if (offer.claimed_count >= offer.max_claims) {
-        return {
-          eligible: false,
-          reason: 'This offer has reached its maximum claims',
-        };
+        return this.ineligible('offer_full');
       }
 
       // Check if user has already claimed
-      const { data: existingClaim, error: claimError } = await supabase
+      const { data: existingClaim } = await supabase
         .from('flash_offer_claims')
         .select('id')
         .eq('offer_id', offerId)
@@ -864,27 +1363,85 @@ export class ClaimService {
         .single();
 
       if (existingClaim) {
-        return {
-          eligible: false,
-          reason: 'You have already claimed this offer',
-        };
+        return this.ineligible('already_claimed');
       }
 
       // Check if user is checked in to the venue
-      const venueId = (offer.venues as any).id;
+      const venue = offer.venues as any;
+      const venueId = venue.id;
       const { data: checkIn, error: checkInError } = await supabase
         .from('check_ins')
-        .select('id')
+        .select('id, verification_status')
         .eq('user_id', userId)
         .eq('venue_id', venueId)
         .eq('is_active', true)
         .single();
 
       if (checkInError || !checkIn) {
-        return {
-          eligible: false,
-          reason: 'You must be checked in to this venue to claim this offer',
-        };
+        return this.ineligible('not_checked_in');
+      }
+
+      // Check-ins that failed location verification can only claim if the venue allows it
+      if (checkIn.verification_status === 'unverified' && !venue.allow_unverified_claims) {
+        return this.ineligible('check_in_unverified');
+      }
+
+      // Favorites-only offers require the user to have favorited the venue
+      if (offer.target_favorites_only) {
+        const { data: favorite, error: favoriteError } = await supabase
+          .from('favorites')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('venue_id', venueId)
+          .maybeSingle();
+
+        if (favoriteError) {
+          throw new Error(`Failed to check favorite: ${favoriteError.message}`);
+        }
+
+        if (!favorite) {
+          return this.ineligible('not_favorite');
+        }
+      }
+
+      // The user's last known location must be within the offer radius
+      if (offer.radius_miles != null && venue.latitude != null && venue.longitude != null) {
+        const location = await this.getLastKnownLocation(userId);
+
+        if (location) {
+          const distanceMiles = LocationService.calculateDistance(
+            location.latitude,
+            location.longitude,
+            venue.latitude,
+            venue.longitude
+          ) * MILES_PER_KM;
+
+          if (distanceMiles > offer.radius_miles) {
+            return this.ineligible('outside_radius');
+          }
+        }
+      }
+
+      // Visits include the active check-in, so a first-time visitor has exactly one
+      if (offer.visitor_audience && offer.visitor_audience !== 'all') {
+        const visitCount = await CheckInService.getUserVenueVisitCount(userId, venueId);
+
+        if (offer.visitor_audience === 'first_time' && visitCount > 1) {
+          return this.ineligible('not_first_visit');
+        }
+
+        if (offer.visitor_audience === 'returning' && visitCount < (offer.min_visit_count ?? 2)) {
+          return this.ineligible('not_returning_customer');
+        }
+      }
+
+      // Weekly limit applies across all of the venue's offers
+      if (offer.max_claims_per_user_per_week != null) {
+        const weeklyClaims = await this.getUserWeeklyVenueClaimCount(userId, venueId);
+
+        if (weeklyClaims >= offer.max_claims_per_user_per_week) {
+          return this.ineligible('user_claim_limit_reached');
+        }
       }
 
       // All checks passed
@@ -893,10 +1450,140 @@ export class ClaimService {
       };
     } catch (error) {
       console.error('Error validating claim eligibility:', error);
-      return {
-        eligible: false,
-        reason: 'An error occurred while validating eligibility',
-      };
+      return this.ineligible('unknown_error');
     }
   }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Describe this device for the redemption audit log
+   */
+  private static getDeviceInfo(): string {
+    return `${Platform.OS} ${Platform.Version}`;
+  }
+
+  /**
+   * Call redeem_claim_atomic, passing the offline redemption time when syncing the queue
+   */
+  private static async callRedeemRpc(
+    claimId: string,
+    redeemedAt?: string
+  ): Promise<RedemptionRpcResult> {
+    const { data, error } = await supabase.rpc('redeem_claim_atomic', {
+      p_claim_id: claimId,
+      p_device_info: this.getDeviceInfo(),
+      ...(redeemedAt ? { p_redeemed_at: redeemedAt } : {}),
+    });
+
+    if (error) {
+      throw new Error(`Failed to redeem claim: ${error.message}`);
+    }
+
+    return data as RedemptionRpcResult;
+  }
+
+  /**
+   * Unwrap a redeem_claim_atomic / reverse_claim_redemption result
+   * 
+   * The RPCs return failures instead of raising them so the audit row is kept;
+   * this turns a failure back into an error with a staff-facing message.
+   */
+  private static getRedemptionResult(data: RedemptionRpcResult): FlashOfferClaim {
+    const row = Array.isArray(data) ? data[0] : data;
+
+    if (!row) {
+      throw new Error('Failed to redeem claim: no result returned');
+    }
+
+    if (row.outcome === 'failed') {
+      throw new Error(
+        (row.failure_reason && REDEMPTION_FAILURE_MESSAGES[row.failure_reason]) ??
+          'Failed to redeem claim'
+      );
+    }
+
+    const claim: Partial<RedemptionRpcRow> = { ...row };
+    delete claim.outcome;
+    delete claim.failure_reason;
+    return claim as FlashOfferClaim;
+  }
+
+  /**
+   * Build an ineligible validation result for a reason
+   * @private
+   */
+  private static ineligible(reason: ClaimIneligibilityReason): ClaimValidationResult {
+    return {
+      eligible: false,
+      reason,
+      message: CLAIM_INELIGIBILITY_MESSAGES[reason],
+    };
+  }
+
+  /**
+   * Count the user's claims on any of a venue's offers in the past 7 days
+   * (matches the weekly limit check in claim_flash_offer_atomic)
+   * 
+   * @param userId - ID of the user
+   * @param venueId - ID of the venue
+   * @returns Number of claims
+   * @private
+   */
+  private static async getUserWeeklyVenueClaimCount(
+    userId: string,
+    venueId: string
+  ): Promise<number> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const { count, error } = await supabase
+      .from('flash_offer_claims')
+      .select('id, flash_offers!inner(venue_id)', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('flash_offers.venue_id', venueId)
+      .gte('created_at', since.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to count weekly claims: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Get the user's last known location: the most recent check-in from the past
+   * 24 hours that recorded coordinates (matches get_user_last_known_location)
+   * 
+   * @param userId - ID of the user
+   * @returns Coordinates, or null if the user has no recent location
+   * @private
+   */
+  private static async getLastKnownLocation(
+    userId: string
+  ): Promise<{ latitude: number; longitude: number } | null> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('check_ins')
+      .select('latitude, longitude')
+      .eq('user_id', userId)
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .gte('checked_in_at', since.toISOString())
+      .order('checked_in_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get last known location: ${error.message}`);
+    }
+
+    if (!data || data.latitude == null || data.longitude == null) {
+      return null;
+    }
+
+    return { latitude: data.latitude, longitude: data.longitude };
+  }
 }
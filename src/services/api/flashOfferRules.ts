@@ -0,0 +1,314 @@
+/**
+ * FlashOfferRuleService
+ *
+ * Service for automatic flash offers - venue rules that publish an offer template
+ * when the local time is inside a daily window and occupancy crosses a capacity
+ * threshold (e.g. "below 20% of max capacity between 2-5pm on weekdays").
+ *
+ * Rules are evaluated every two minutes by the evaluate_flash_offer_rules database job
+ * in the venue's timezone, which also enforces cooldowns and writes the firing
+ * audit trail. This service only manages rules and reads firings.
+ *
+ * Requirements: Flash Offers - Time and Capacity Triggers
+ */
+
+import { supabase } from '../../lib/supabase';
+import type {
+  CreateFlashOfferRuleInput,
+  FlashOfferRule,
+  FlashOfferRuleFiringWithRule,
+  UpdateFlashOfferRuleInput,
+} from '../../types/flashOfferRule.types';
+import { getDeviceTimezone } from '../../utils/timezone';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export class FlashOfferRuleService {
+  // ============================================================================
+  // Rule Management
+  // ============================================================================
+
+  /**
+   * Create an automatic flash offer rule
+   * @param venueId - Venue the rule publishes offers for
+   * @param userId - ID of the venue owner creating the rule
+   * @param input - Rule trigger, offer template and limits
+   * @returns Created rule
+   * @throws Error if validation or the insert fails
+   */
+  static async createRule(
+    venueId: string,
+    userId: string,
+    input: CreateFlashOfferRuleInput
+  ): Promise<FlashOfferRule> {
+    try {
+      this.validateRuleInput(input);
+
+      const { data, error } = await supabase
+        .from('flash_offer_rules')
+        .insert({
+          venue_id: venueId,
+          created_by: userId,
+          name: input.name.trim(),
+          days_of_week: [...new Set(input.days_of_week)].sort((a, b) => a - b),
+          window_start: this.normalizeTime(input.window_start),
+          window_end: this.normalizeTime(input.window_end),
+          timezone: input.timezone || getDeviceTimezone(),
+          capacity_condition: input.capacity_condition ?? null,
+          capacity_threshold_percent: input.capacity_condition
+            ? input.capacity_threshold_percent
+            : null,
+          offer_title: input.offer_title.trim(),
+          offer_description: input.offer_description.trim(),
+          claim_value: input.claim_value,
+          max_claims: input.max_claims,
+          radius_miles: input.radius_miles || 1.0,
+          target_favorites_only: input.target_favorites_only || false,
+          send_push: input.send_push ?? true,
+          duration_minutes: input.duration_minutes,
+          cooldown_minutes: input.cooldown_minutes,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create rule: ${error.message}`);
+      }
+
+      console.log('✅ Flash offer rule created:', data.id);
+      return data;
+    } catch (error) {
+      console.error('Error creating flash offer rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all rules for a venue, newest first
+   * @param venueId - Venue ID
+   * @returns Rules
+   */
+  static async getVenueRules(venueId: string): Promise<FlashOfferRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('flash_offer_rules')
+        .select('*')
+        .eq('venue_id', venueId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch rules: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching flash offer rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule
+   * The merged rule is re-validated so partial updates cannot break constraints
+   * @param rule - Current rule
+   * @param updates - Fields to change
+   * @returns Updated rule
+   * @throws Error if validation or the update fails
+   */
+  static async updateRule(
+    rule: FlashOfferRule,
+    updates: UpdateFlashOfferRuleInput
+  ): Promise<FlashOfferRule> {
+    try {
+      const { is_enabled, ...ruleUpdates } = updates;
+      const hasRuleUpdates = Object.keys(ruleUpdates).length > 0;
+      const changes: Record<string, unknown> = {};
+
+      if (hasRuleUpdates) {
+        const merged: CreateFlashOfferRuleInput = {
+          name: rule.name,
+          days_of_week: rule.days_of_week,
+          window_start: rule.window_start,
+          window_end: rule.window_end,
+          capacity_condition: rule.capacity_condition,
+          capacity_threshold_percent: rule.capacity_threshold_percent,
+          offer_title: rule.offer_title,
+          offer_description: rule.offer_description,
+          claim_value: rule.claim_value,
+          max_claims: rule.max_claims,
+          radius_miles: rule.radius_miles,
+          target_favorites_only: rule.target_favorites_only,
+          send_push: rule.send_push,
+          duration_minutes: rule.duration_minutes,
+          cooldown_minutes: rule.cooldown_minutes,
+          ...ruleUpdates,
+        };
+
+        this.validateRuleInput(merged);
+
+        Object.assign(changes, ruleUpdates);
+        if (ruleUpdates.name !== undefined) changes.name = ruleUpdates.name.trim();
+        if (ruleUpdates.window_start !== undefined) {
+          changes.window_start = this.normalizeTime(ruleUpdates.window_start);
+        }
+        if (ruleUpdates.window_end !== undefined) {
+          changes.window_end = this.normalizeTime(ruleUpdates.window_end);
+        }
+        if (ruleUpdates.capacity_condition === null) {
+          changes.capacity_threshold_percent = null;
+        }
+      }
+
+      if (is_enabled !== undefined) {
+        changes.is_enabled = is_enabled;
+      }
+
+      const { data, error } = await supabase
+        .from('flash_offer_rules')
+        .update(changes)
+        .eq('id', rule.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update rule: ${error.message}`);
+      }
+
+      console.log('✅ Flash offer rule updated:', rule.id);
+      return data;
+    } catch (error) {
+      console.error('Error updating flash offer rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a rule (its firing history is deleted with it)
+   * @param ruleId - Rule ID
+   * @throws Error if the delete fails
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('flash_offer_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) {
+        throw new Error(`Failed to delete rule: ${error.message}`);
+      }
+
+      console.log('✅ Flash offer rule deleted:', ruleId);
+    } catch (error) {
+      console.error('Error deleting flash offer rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the firing audit trail for a venue, newest first
+   * @param venueId - Venue ID
+   * @param limit - Maximum firings to return (default 20)
+   * @returns Firings with rule names
+   */
+  static async getRuleFirings(
+    venueId: string,
+    limit: number = 20
+  ): Promise<FlashOfferRuleFiringWithRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('flash_offer_rule_firings')
+        .select('*, rule:flash_offer_rules(id, name)')
+        .eq('venue_id', venueId)
+        .order('fired_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch rule firings: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching rule firings:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Validate rule input before writing
+   * @throws Error describing the first invalid field
+   */
+  private static validateRuleInput(input: CreateFlashOfferRuleInput): void {
+    const name = input.name.trim();
+    if (name.length < 3 || name.length > 60) {
+      throw new Error('Rule name must be between 3 and 60 characters');
+    }
+
+    if (
+      input.days_of_week.length === 0 ||
+      input.days_of_week.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new Error('Select at least one day of the week');
+    }
+
+    if (!TIME_PATTERN.test(input.window_start) || !TIME_PATTERN.test(input.window_end)) {
+      throw new Error('Window times must be in HH:MM format');
+    }
+
+    if (this.toMinutes(input.window_start) >= this.toMinutes(input.window_end)) {
+      throw new Error('Window end must be after window start');
+    }
+
+    if (input.capacity_condition) {
+      const threshold = input.capacity_threshold_percent;
+      if (threshold == null || !Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+        throw new Error('Capacity threshold must be between 1 and 100 percent');
+      }
+    }
+
+    const title = input.offer_title.trim();
+    if (title.length < 3 || title.length > 100) {
+      throw new Error('Offer title must be between 3 and 100 characters');
+    }
+
+    const description = input.offer_description.trim();
+    if (description.length < 10 || description.length > 500) {
+      throw new Error('Offer description must be between 10 and 500 characters');
+    }
+
+    if (input.claim_value < 0 || input.claim_value > 10000) {
+      throw new Error('Claim value must be between $0 and $10,000');
+    }
+
+    if (!Number.isInteger(input.max_claims) || input.max_claims < 1 || input.max_claims > 1000) {
+      throw new Error('Max claims must be between 1 and 1000');
+    }
+
+    if (input.duration_minutes < 15 || input.duration_minutes > 720) {
+      throw new Error('Offer duration must be between 15 minutes and 12 hours');
+    }
+
+    if (input.cooldown_minutes < input.duration_minutes || input.cooldown_minutes > 10080) {
+      throw new Error('Cooldown must be at least the offer duration and at most 7 days');
+    }
+  }
+
+  /**
+   * Normalize HH:MM to the HH:MM:SS format stored in TIME columns
+   */
+  private static normalizeTime(time: string): string {
+    return time.length === 5 ? `${time}:00` : time;
+  }
+
+  /**
+   * Convert HH:MM[:SS] to minutes since midnight
+   */
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * FlashOfferTemplateService
+ *
+ * Service for saved flash offer templates and recurring offers. A recurrence
+ * (daily, or weekly on chosen weekdays, ending on a date or after a number of
+ * occurrences) materializes scheduled flash_offers rows a week ahead, so each
+ * occurrence can be skipped or edited on its own.
+ *
+ * Requirements: Flash Offers - Recurring and Templated Offers
+ */
+
+import { supabase } from '../../lib/supabase';
+import type {
+  CreateFlashOfferRecurrenceInput,
+  CreateFlashOfferTemplateInput,
+  FlashOfferRecurrence,
+  FlashOfferRecurrenceWithTemplate,
+  FlashOfferTemplate,
+} from '../../types/flashOfferRecurrence.types';
+import { getDeviceTimezone } from '../../utils/timezone';
+import type { FlashOffer } from './flashOffers';
+
+/**
+ * How many days ahead occurrences are materialized
+ * (the scheduled job keeps this window filled)
+ */
+const MATERIALIZE_DAYS_AHEAD = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export class FlashOfferTemplateService {
+  // ============================================================================
+  // Templates
+  // ============================================================================
+
+  /**
+   * Save a flash offer template
+   * @param venueId - Venue the template belongs to
+   * @param input - Template name and offer details
+   * @returns Created template
+   * @throws Error if validation or the insert fails
+   */
+  static async createTemplate(
+    venueId: string,
+    input: CreateFlashOfferTemplateInput
+  ): Promise<FlashOfferTemplate> {
+    try {
+      const name = input.name.trim();
+      const title = input.title.trim();
+      const description = input.description.trim();
+
+      if (name.length < 3 || name.length > 60) {
+        throw new Error('Template name must be between 3 and 60 characters');
+      }
+
+      if (title.length < 3 || title.length > 100) {
+        throw new Error('Title must be between 3 and 100 characters');
+      }
+
+      if (description.length < 10 || description.length > 500) {
+        throw new Error('Description must be between 10 and 500 characters');
+      }
+
+      if (input.duration_minutes < 1 || input.duration_minutes > 1440) {
+        throw new Error('Duration must be between 1 minute and 24 hours');
+      }
+
+      const { data, error } = await supabase
+        .from('flash_offer_templates')
+        .insert({
+          venue_id: venueId,
+          name,
+          title,
+          description,
+          claim_value: input.claim_value,
+          max_claims: input.max_claims,
+          radius_miles: input.radius_miles || 1.0,
+          target_favorites_only: input.target_favorites_only || false,
+          duration_minutes: input.duration_minutes,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save template: ${error.message}`);
+      }
+
+      console.log('✅ Flash offer template saved:', data.id);
+      return data;
+    } catch (error) {
+      console.error('Error saving flash offer template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a venue's saved templates, alphabetically
+   * @param venueId - Venue ID
+   * @returns Templates
+   */
+  static async getVenueTemplates(venueId: string): Promise<FlashOfferTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('flash_offer_templates')
+        .select('*')
+        .eq('venue_id', venueId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch templates: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching flash offer templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template
+   * Recurrences using the template are deleted with it; offers already
+   * materialized from them are kept
+   * @param templateId - Template ID
+   * @throws Error if the delete fails
+   */
+  static async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('flash_offer_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) {
+        throw new Error(`Failed to delete template: ${error.message}`);
+      }
+
+      console.log('✅ Flash offer template deleted:', templateId);
+    } catch (error) {
+      console.error('Error deleting flash offer template:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Recurrences
+  // ============================================================================
+
+  /**
+   * Create a recurrence and materialize its first week of occurrences
+   * @param venueId - Venue ID
+   * @param input - Template, schedule and end condition
+   * @returns Created recurrence and the number of offers scheduled
+   * @throws Error if validation or the insert fails
+   */
+  static async createRecurrence(
+    venueId: string,
+    input: CreateFlashOfferRecurrenceInput
+  ): Promise<{ recurrence: FlashOfferRecurrence; occurrencesCreated: number }> {
+    try {
+      this.validateRecurrenceInput(input);
+
+      const { data: recurrence, error } = await supabase
+        .from('flash_offer_recurrences')
+        .insert({
+          venue_id: venueId,
+          template_id: input.template_id,
+          frequency: input.frequency,
+          days_of_week: input.frequency === 'weekly'
+            ? [...new Set(input.days_of_week)].sort((a, b) => a - b)
+            : null,
+          start_time_of_day: input.start_time_of_day.length === 5
+            ? `${input.start_time_of_day}:00`
+            : input.start_time_of_day,
+          timezone: input.timezone || getDeviceTimezone(),
+          starts_on: input.starts_on,
+          ends_on: input.ends_on || null,
+          occurrence_count: input.ends_on ? null : input.occurrence_count,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create recurrence: ${error.message}`);
+      }
+
+      const { data: occurrencesCreated, error: materializeError } = await supabase.rpc(
+        'materialize_flash_offer_recurrences',
+        {
+          p_recurrence_id: recurrence.id,
+          p_days_ahead: MATERIALIZE_DAYS_AHEAD,
+        }
+      );
+
+      if (materializeError) {
+        // The scheduled job will materialize occurrences on its next run
+        console.warn('⚠️ Failed to materialize recurrence:', materializeError);
+      }
+
+      console.log(`✅ Recurrence created: ${recurrence.id} (${occurrencesCreated || 0} offers scheduled)`);
+      return { recurrence, occurrencesCreated: occurrencesCreated || 0 };
+    } catch (error) {
+      console.error('Error creating recurrence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a venue's recurrences with their templates, newest first
+   * @param venueId - Venue ID
+   * @returns Recurrences
+   */
+  static async getVenueRecurrences(venueId: string): Promise<FlashOfferRecurrenceWithTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('flash_offer_recurrences')
+        .select('*, template:flash_offer_templates(*)')
+        .eq('venue_id', venueId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch recurrences: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recurrences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a recurrence and cancel its occurrences that have not started yet
+   * @param recurrenceId - Recurrence ID
+   * @returns Number of scheduled occurrences cancelled
+   * @throws Error if the update fails
+   */
+  static async stopRecurrence(recurrenceId: string): Promise<number> {
+    try {
+      const { error } = await supabase
+        .from('flash_offer_recurrences')
+        .update({ is_active: false })
+        .eq('id', recurrenceId);
+
+      if (error) {
+        throw new Error(`Failed to stop recurrence: ${error.message}`);
+      }
+
+      const { data: cancelled, error: cancelError } = await supabase
+        .from('flash_offers')
+        .update({ status: 'cancelled' })
+        .eq('recurrence_id', recurrenceId)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (cancelError) {
+        throw new Error(`Failed to cancel scheduled occurrences: ${cancelError.message}`);
+      }
+
+      console.log(`✅ Recurrence stopped: ${recurrenceId} (${cancelled?.length || 0} occurrences cancelled)`);
+      return cancelled?.length || 0;
+    } catch (error) {
+      console.error('Error stopping recurrence:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Occurrences
+  // ============================================================================
+
+  /**
+   * Skip a single scheduled occurrence
+   * The cancelled row stays in place so the recurrence does not recreate it
+   * @param offerId - ID of the scheduled offer
+   * @returns Cancelled offer
+   * @throws Error if the offer has already started or the update fails
+   */
+  static async skipOccurrence(offerId: string): Promise<FlashOffer> {
+    try {
+      const { data, error } = await supabase
+        .from('flash_offers')
+        .update({ status: 'cancelled' })
+        .eq('id', offerId)
+        .eq('status', 'scheduled')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to skip occurrence: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new Error('Only occurrences that have not started can be skipped');
+      }
+
+      console.log('✅ Occurrence skipped:', offerId);
+      return data;
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the next local start dates of a recurrence (for previews)
+   * @param input - Recurrence schedule
+   * @param limit - Maximum dates to return (default 3)
+   * @param from - Earliest date to consider (default now)
+   * @returns Start dates in device local time
+   */
+  static getUpcomingOccurrences(
+    input: Pick<
+      CreateFlashOfferRecurrenceInput,
+      'frequency' | 'days_of_week' | 'start_time_of_day' | 'starts_on' | 'ends_on' | 'occurrence_count'
+    >,
+    limit: number = 3,
+    from: Date = new Date()
+  ): Date[] {
+    const [year, month, day] = input.starts_on.split('-').map(Number);
+    const [hours, minutes] = input.start_time_of_day.split(':').map(Number);
+    const endsOn = input.ends_on ? new Date(`${input.ends_on}T23:59:59`) : null;
+    const maxCount = input.ends_on ? Infinity : input.occurrence_count ?? Infinity;
+
+    const dates: Date[] = [];
+    const cursor = new Date(year, month - 1, day, hours, minutes, 0, 0);
+    let counted = 0;
+
+    // Look at most a year ahead
+    for (let i = 0; i < 366 && dates.length < limit && counted < maxCount; i++) {
+      if (endsOn && cursor > endsOn) break;
+
+      const matches = input.frequency === 'daily' ||
+        (input.days_of_week || []).includes(cursor.getDay());
+
+      if (matches) {
+        counted++;
+        if (cursor >= from) {
+          dates.push(new Date(cursor));
+        }
+      }
+
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return dates;
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Validate recurrence input before writing
+   * @throws Error describing the first invalid field
+   */
+  private static validateRecurrenceInput(input: CreateFlashOfferRecurrenceInput): void {
+    if (input.frequency === 'weekly') {
+      const days = input.days_of_week || [];
+      if (days.length === 0 || days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+        throw new Error('Select at least one day of the week');
+      }
+    }
+
+    if (!TIME_PATTERN.test(input.start_time_of_day)) {
+      throw new Error('Start time must be in HH:MM format');
+    }
+
+    if (!DATE_PATTERN.test(input.starts_on)) {
+      throw new Error('Start date must be in YYYY-MM-DD format');
+    }
+
+    if (input.ends_on) {
+      if (!DATE_PATTERN.test(input.ends_on)) {
+        throw new Error('End date must be in YYYY-MM-DD format');
+      }
+      if (input.ends_on < input.starts_on) {
+        throw new Error('End date must be on or after the start date');
+      }
+    } else {
+      const count = input.occurrence_count;
+      if (count == null || !Number.isInteger(count) || count < 1 || count > 365) {
+        throw new Error('Choose an end date or a number of occurrences (1-365)');
+      }
+    }
+  }
+}
@@ -23,6 +23,14 @@ import { FlashOfferCache } from '../../utils/cache/FlashOfferCache';
  */
 export type FlashOfferStatus = 'scheduled' | 'active' | 'expired' | 'cancelled' | 'full';
 
+/**
+ * Which customers can claim an offer, based on their visits to the venue
+ * - `all`: Anyone who meets the other requirements
+ * - `first_time`: Only customers on their first visit
+ * - `returning`: Only customers with at least `min_visit_count` visits
+ */
+export type FlashOfferVisitorAudience = 'all' | 'first_time' | 'returning';
+
 /**
  * Input data for creating a new flash offer
  */
@@ -43,6 +51,12 @@ export interface CreateFlashOfferInput {
   radius_miles?: number;
   /** Whether to only target users who favorited the venue (default: false) */
   target_favorites_only?: boolean;
+  /** Max claims per user across all of the venue's offers in a rolling week (1-100, default: no limit) */
+  max_claims_per_user_per_week?: number | null;
+  /** Which customers can claim, based on visits to the venue (default: 'all') */
+  visitor_audience?: FlashOfferVisitorAudience;
+  /** Minimum visits, including the current one, for returning-customer offers (2-100, default: 2) */
+  min_visit_count?: number | null;
 }
 
 /**
@@ -67,6 +81,12 @@ export interface UpdateFlashOfferInput {
   radius_miles?: number;
   /** Updated targeting preference */
   target_favorites_only?: boolean;
+  /** Updated weekly per-user claim limit (null removes the limit) */
+  max_claims_per_user_per_week?: number | null;
+  /** Updated visitor audience */
+  visitor_audience?: FlashOfferVisitorAudience;
+  /** Updated minimum visits for returning-customer offers */
+  min_visit_count?: number | null;
 }
 
 /**
@@ -95,12 +115,22 @@ export interface FlashOffer {
   radius_miles: number;
   /** Whether to only target users who favorited the venue */
   target_favorites_only: boolean;
+  /** Max claims per user across all of the venue's offers in a rolling week (null = no limit) */
+  max_claims_per_user_per_week?: number | null;
+  /** Which customers can claim, based on visits to the venue */
+  visitor_audience?: FlashOfferVisitorAudience;
+  /** Minimum visits, including the current one, for returning-customer offers */
+  min_visit_count?: number | null;
   /** Current status of the offer */
   status: FlashOfferStatus;
   /** Whether push notification has been sent */
   push_sent: boolean;
   /** ISO 8601 timestamp when push was sent */
   push_sent_at: string | null;
+  /** Recurrence that created the offer (null for one-off offers) */
+  recurrence_id?: string | null;
+  /** Local date of the occurrence within its recurrence (YYYY-MM-DD) */
+  occurrence_date?: string | null;
   /** ISO 8601 timestamp when offer was created */
   created_at: string;
   /** ISO 8601 timestamp when offer was last updated */
@@ -119,6 +149,16 @@ export interface FlashOfferWithStats extends FlashOffer {
   redemptions_count: number;
 }
 
+/**
+ * Result of copying an offer to several venues
+ */
+export interface CloneFlashOfferResult {
+  /** Offers created, one per venue that succeeded */
+  created: FlashOffer[];
+  /** Venues the offer couldn't be created for, with the reason */
+  failed: Array<{ venueId: string; error: string }>;
+}
+
 /**
  * Service for managing flash offers
  * 
@@ -192,6 +232,11 @@ export class FlashOfferService {
           end_time: offerData.end_time,
           radius_miles: offerData.radius_miles || 1.0,
           target_favorites_only: offerData.target_favorites_only || false,
+          max_claims_per_user_per_week: offerData.max_claims_per_user_per_week ?? null,
+          visitor_audience: offerData.visitor_audience || 'all',
+          min_visit_count: offerData.visitor_audience === 'returning'
+            ? offerData.min_visit_count ?? 2
+            : null,
           status: new Date(offerData.start_time) <= new Date() ? 'active' : 'scheduled',
         })
         .select()
@@ -449,6 +494,123 @@ export class FlashOfferService {
     }
   }
 
+  /**
+   * Update the details of a scheduled flash offer
+   *
+   * Only offers that have not started yet can be edited. Used to change a single
+   * occurrence of a recurring offer without affecting the rest of the series.
+   *
+   * @param offerId - ID of the offer to update
+   * @param updates - Fields to change
+   * @returns Promise resolving to the updated flash offer
+   * @throws {Error} If the offer is not scheduled or the update fails
+   *
+   * @example
+   * ```typescript
+   * // Move Friday's happy hour an hour later
+   * const updated = await FlashOfferService.updateFlashOffer('offer-789', {
+   *   start_time: '2026-01-16T18:00:00.000Z',
+   *   end_time: '2026-01-16T20:00:00.000Z'
+   * });
+   * ```
+   */
+  static async updateFlashOffer(
+    offerId: string,
+    updates: UpdateFlashOfferInput
+  ): Promise<FlashOffer> {
+    try {
+      const { status, ...details } = updates;
+
+      if (status !== undefined) {
+        throw new Error('Use updateOfferStatus to change an offer status');
+      }
+
+      if (details.start_time && details.end_time && new Date(details.end_time) <= new Date(details.start_time)) {
+        throw new Error('End time must be after start time');
+      }
+
+      const { data, error } = await supabase
+        .from('flash_offers')
+        .update(details)
+        .eq('id', offerId)
+        .eq('status', 'scheduled')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update flash offer: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new Error('Only scheduled offers can be edited');
+      }
+
+      console.log('✅ Flash offer updated:', data.id);
+      return data;
+    } catch (error) {
+      console.error('Error updating flash offer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an offer to several venues (e.g. other locations of a multi-venue owner)
+   * 
+   * Each copy keeps the offer's details, targeting and duration. Copies start at the
+   * original start time, or now if that has already passed. Venues are created
+   * independently, so one failure (e.g. a daily offer limit) doesn't stop the rest.
+   * 
+   * @param offer - Offer to copy
+   * @param venueIds - Venues to create the copies for
+   * @returns Promise resolving to the created offers and the venues that failed
+   * 
+   * @example
+   * ```typescript
+   * const result = await FlashOfferService.cloneOfferToVenues(offer, ['venue-2', 'venue-3']);
+   * console.log(`Copied to ${result.created.length} venues, ${result.failed.length} failed`);
+   * ```
+   */
+  static async cloneOfferToVenues(
+    offer: FlashOffer,
+    venueIds: string[]
+  ): Promise<CloneFlashOfferResult> {
+    const durationMs = new Date(offer.end_time).getTime() - new Date(offer.start_time).getTime();
+    const startMs = Math.max(new Date(offer.start_time).getTime(), Date.now());
+
+    const input: CreateFlashOfferInput = {
+      title: offer.title,
+      description: offer.description,
+      claim_value: offer.claim_value,
+      max_claims: offer.max_claims,
+      start_time: new Date(startMs).toISOString(),
+      end_time: new Date(startMs + durationMs).toISOString(),
+      radius_miles: offer.radius_miles,
+      target_favorites_only: offer.target_favorites_only,
+      max_claims_per_user_per_week: offer.max_claims_per_user_per_week ?? null,
+      visitor_audience: offer.visitor_audience,
+      min_visit_count: offer.min_visit_count ?? null,
+    };
+
+    const results = await Promise.allSettled(
+      venueIds.map((venueId) => this.createFlashOffer(venueId, input))
+    );
+
+    const result: CloneFlashOfferResult = { created: [], failed: [] };
+    results.forEach((settled, index) => {
+      if (settled.status === 'fulfilled') {
+        result.created.push(settled.value);
+      } else {
+        result.failed.push({
+          venueId: venueIds[index],
+          error: settled.reason instanceof Error ? settled.reason.message : 'Failed to copy offer',
+        });
+      }
+    });
+
+    console.log(`✅ Offer ${offer.id} copied to ${result.created.length}/${venueIds.length} venues`);
+    return result;
+  }
+
   /**
    * Get detailed information about a specific offer including analytics stats
    * 
@@ -0,0 +1,534 @@
+import { supabase } from '../../lib/supabase';
+import type {
+  Follow,
+  FollowRequest,
+  FollowStatus,
+  SocialProfile,
+  SocialStats,
+  PaginationOptions,
+} from '../../types/social.types';
+import { cacheManager, CACHE_TTL } from '../../utils/cache/CacheManager';
+import { PrivacyService } from './privacy';
+import { NotificationService } from './notifications';
+
+/**
+ * How a user can be followed, as returned by the get_follow_policy RPC
+ * - direct: public profile, follow is created immediately
+ * - request: non-public profile, follow needs approval
+ * - closed: non-public profile that doesn't accept follow requests
+ */
+type FollowPolicy = 'direct' | 'request' | 'closed';
+
+/**
+ * Follower and following counts for a user
+ */
+export type FollowCounts = Pick<SocialStats, 'follower_count' | 'following_count'>;
+
+/**
+ * FollowService - Handles one-way follow relationships
+ * Implements follows, follow requests for non-public profiles, and follower/following lists
+ */
+export class FollowService {
+  // ============================================================================
+  // Follow Methods
+  // ============================================================================
+
+  /**
+   * Follow a user
+   * Public profiles are followed immediately; other profiles receive a follow request
+   * @param followerId - ID of the user following
+   * @param followingId - ID of the user to follow
+   * @returns Resulting follow status ('following' or 'pending')
+   * @throws Error if follow fails, the user is blocked, or the user doesn't accept requests
+   */
+  static async followUser(followerId: string, followingId: string): Promise<FollowStatus> {
+    try {
+      // Validate: prevent self-follows
+      if (followerId === followingId) {
+        throw new Error('Cannot follow yourself');
+      }
+
+      // Check if either user has blocked the other
+      const isBlocked = await PrivacyService.isBlocked(followerId, followingId);
+      if (isBlocked) {
+        throw new Error('Cannot follow blocked user');
+      }
+
+      // Already following or requested - nothing to do
+      const currentStatus = await this.getFollowStatus(followerId, followingId);
+      if (currentStatus.type !== 'not_following') {
+        return currentStatus;
+      }
+
+      const policy = await this.getFollowPolicy(followingId);
+
+      if (policy === 'closed') {
+        throw new Error('This user is not accepting follow requests');
+      }
+
+      if (policy === 'request') {
+        const request = await this.createFollowRequest(followingId);
+
+        // Send notification (in-app and push)
+        try {
+          await NotificationService.sendFollowRequestNotification(
+            followerId,
+            followingId,
+            request.id
+          );
+        } catch (notificationError) {
+          // Log notification failure but don't throw - follow request was created successfully
+          console.error('⚠️ Failed to send follow request notification:', notificationError);
+        }
+
+        return { type: 'pending' };
+      }
+
+      const { error } = await supabase
+        .from('follows')
+        .insert({
+          follower_id: followerId,
+          following_id: followingId,
+        });
+
+      if (error) {
+        throw new Error(`Failed to follow user: ${error.message}`);
+      }
+
+      this.invalidateFollowsCache(followerId);
+      this.invalidateFollowsCache(followingId);
+
+      console.log('✅ Followed user successfully');
+
+      // Send notification (in-app and push)
+      try {
+        await NotificationService.sendNewFollowerNotification(followerId, followingId);
+      } catch (notificationError) {
+        // Log notification failure but don't throw - follow was created successfully
+        console.error('⚠️ Failed to send new follower notification:', notificationError);
+      }
+
+      return { type: 'following' };
+    } catch (error) {
+      console.error('Error following user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unfollow a user, or cancel a pending follow request
+   * @param followerId - ID of the user unfollowing
+   * @param followingId - ID of the user to unfollow
+   * @throws Error if unfollow fails
+   */
+  static async unfollowUser(followerId: string, followingId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId);
+
+      if (error) {
+        throw new Error(`Failed to unfollow user: ${error.message}`);
+      }
+
+      const { error: requestError } = await supabase
+        .from('follow_requests')
+        .delete()
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId)
+        .eq('status', 'pending');
+
+      if (requestError) {
+        console.warn('Warning: Failed to cancel follow request:', requestError.message);
+      }
+
+      this.invalidateFollowsCache(followerId);
+      this.invalidateFollowsCache(followingId);
+
+      console.log('✅ Unfollowed user successfully');
+    } catch (error) {
+      console.error('Error unfollowing user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove one of the user's followers
+   * @param userId - ID of the user removing the follower
+   * @param followerId - ID of the follower to remove
+   * @throws Error if removal fails
+   */
+  static async removeFollower(userId: string, followerId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('follows')
+        .delete()
+        .eq('follower_id', followerId)
+        .eq('following_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to remove follower: ${error.message}`);
+      }
+
+      this.invalidateFollowsCache(userId);
+      this.invalidateFollowsCache(followerId);
+
+      console.log('✅ Follower removed successfully');
+    } catch (error) {
+      console.error('Error removing follower:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the follow status from one user to another
+   * @param followerId - ID of the (potential) follower
+   * @param followingId - ID of the (potentially) followed user
+   * @returns Follow status object
+   */
+  static async getFollowStatus(followerId: string, followingId: string): Promise<FollowStatus> {
+    try {
+      const { data: follow, error: followError } = await supabase
+        .from('follows')
+        .select('id')
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId)
+        .maybeSingle();
+
+      if (followError) {
+        throw new Error(`Failed to check follow status: ${followError.message}`);
+      }
+
+      if (follow) {
+        return { type: 'following' };
+      }
+
+      const { data: request, error: requestError } = await supabase
+        .from('follow_requests')
+        .select('id')
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (requestError) {
+        throw new Error(`Failed to check follow requests: ${requestError.message}`);
+      }
+
+      return request ? { type: 'pending' } : { type: 'not_following' };
+    } catch (error) {
+      console.error('Error getting follow status:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Follow Request Methods
+  // ============================================================================
+
+  /**
+   * Get pending follow requests received by a user
+   * @param userId - ID of the user whose incoming requests to retrieve
+   * @returns Array of follow requests with follower profile data, newest first
+   */
+  static async getFollowRequests(userId: string): Promise<FollowRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('follow_requests')
+        .select(`
+          id,
+          follower_id,
+          following_id,
+          status,
+          created_at,
+          updated_at,
+          follower:follower_id (
+            id,
+            email,
+            name,
+            avatar_url
+          )
+        `)
+        .eq('following_id', userId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to get follow requests: ${error.message}`);
+      }
+
+      return (data || []).map((request: any) => ({
+        ...request,
+        follower: request.follower || undefined,
+      }));
+    } catch (error) {
+      console.error('Error getting follow requests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a follow request
+   * Creates the follow and marks the request approved in a single transaction
+   * @param requestId - ID of the follow request to approve
+   * @returns The created follow
+   * @throws Error if request not found, already processed, or approval fails
+   */
+  static async approveFollowRequest(requestId: string): Promise<Follow> {
+    try {
+      const { data, error } = await supabase.rpc('approve_follow_request', {
+        p_request_id: requestId,
+      });
+
+      if (error) {
+        throw new Error(`Failed to approve follow request: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new Error('Failed to approve follow request: No data returned');
+      }
+
+      this.invalidateFollowsCache(data.follower_id);
+      this.invalidateFollowsCache(data.following_id);
+
+      console.log('✅ Follow request approved successfully');
+      return data;
+    } catch (error) {
+      console.error('Error approving follow request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deny a follow request
+   * @param requestId - ID of the follow request to deny
+   * @throws Error if denial fails
+   */
+  static async denyFollowRequest(requestId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('follow_requests')
+        .update({ status: 'denied', updated_at: new Date().toISOString() })
+        .eq('id', requestId)
+        .eq('status', 'pending');
+
+      if (error) {
+        throw new Error(`Failed to deny follow request: ${error.message}`);
+      }
+
+      console.log('✅ Follow request denied successfully');
+    } catch (error) {
+      console.error('Error denying follow request:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Follower/Following List Methods
+  // ============================================================================
+
+  /**
+   * Get a user's followers, most recent first
+   * @param userId - ID of the user whose followers to retrieve
+   * @param options - Pagination options
+   * @returns Array of social profiles for followers
+   */
+  static async getFollowers(
+    userId: string,
+    options?: PaginationOptions
+  ): Promise<SocialProfile[]> {
+    return this.getFollowProfiles(userId, 'followers', options);
+  }
+
+  /**
+   * Get the users a user follows, most recent first
+   * @param userId - ID of the user whose followed users to retrieve
+   * @param options - Pagination options
+   * @returns Array of social profiles for followed users
+   */
+  static async getFollowing(
+    userId: string,
+    options?: PaginationOptions
+  ): Promise<SocialProfile[]> {
+    return this.getFollowProfiles(userId, 'following', options);
+  }
+
+  /**
+   * Get follower and following counts for a user
+   * @param userId - ID of the user
+   * @returns Follower and following counts
+   */
+  static async getFollowCounts(userId: string): Promise<FollowCounts> {
+    try {
+      const cacheKey = `follows:${userId}:counts`;
+      const cached = cacheManager.get<FollowCounts>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const [followersResult, followingResult] = await Promise.all([
+        supabase
+          .from('follows')
+          .select('id', { count: 'exact', head: true })
+          .eq('following_id', userId),
+        supabase
+          .from('follows')
+          .select('id', { count: 'exact', head: true })
+          .eq('follower_id', userId),
+      ]);
+
+      if (followersResult.error) {
+        throw new Error(`Failed to count followers: ${followersResult.error.message}`);
+      }
+
+      if (followingResult.error) {
+        throw new Error(`Failed to count following: ${followingResult.error.message}`);
+      }
+
+      const counts: FollowCounts = {
+        follower_count: followersResult.count || 0,
+        following_count: followingResult.count || 0,
+      };
+
+      cacheManager.set(cacheKey, counts, CACHE_TTL.FRIENDS_LIST);
+
+      return counts;
+    } catch (error) {
+      console.error('Error getting follow counts:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Look up how a user can be followed
+   * @param userId - ID of the user to follow
+   * @returns Follow policy for the user
+   */
+  private static async getFollowPolicy(userId: string): Promise<FollowPolicy> {
+    const { data, error } = await supabase.rpc('get_follow_policy', {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to check follow policy: ${error.message}`);
+    }
+
+    return (data as FollowPolicy) || 'direct';
+  }
+
+  /**
+   * Create a pending follow request from the current user, reopening a
+   * previously denied one
+   * @param followingId - ID of the requested user
+   * @returns The pending follow request
+   */
+  private static async createFollowRequest(followingId: string): Promise<FollowRequest> {
+    const { data, error } = await supabase.rpc('send_follow_request', {
+      p_following_id: followingId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to send follow request: ${error.message}`);
+    }
+
+    console.log('✅ Follow request sent successfully:', data);
+    return data;
+  }
+
+  /**
+   * Fetch follower or following profiles for a user
+   * @param userId - ID of the user
+   * @param direction - 'followers' (users following userId) or 'following' (users userId follows)
+   * @param options - Pagination options
+   * @returns Array of social profiles in follow order
+   */
+  private static async getFollowProfiles(
+    userId: string,
+    direction: 'followers' | 'following',
+    options?: PaginationOptions
+  ): Promise<SocialProfile[]> {
+    try {
+      const limit = options?.limit || 50;
+      const offset = options?.offset || 0;
+
+      const cacheKey = `follows:${userId}:${direction}:${limit}:${offset}`;
+      const cached = cacheManager.get<SocialProfile[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const [matchColumn, profileColumn] =
+        direction === 'followers'
+          ? ['following_id', 'follower_id']
+          : ['follower_id', 'following_id'];
+
+      const { data: follows, error } = await supabase
+        .from('follows')
+        .select('follower_id, following_id, created_at')
+        .eq(matchColumn, userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to get ${direction}: ${error.message}`);
+      }
+
+      if (!follows || follows.length === 0) {
+        return [];
+      }
+
+      const profileIds: string[] = follows.map((follow: any) => follow[profileColumn]);
+
+      const { data: profiles, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, email, name, avatar_url, created_at')
+        .in('id', profileIds);
+
+      if (profileError) {
+        throw new Error(`Failed to get ${direction} profiles: ${profileError.message}`);
+      }
+
+      // Preserve follow order (most recent first)
+      const profilesById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+      const socialProfiles: SocialProfile[] = profileIds
+        .map((id) => profilesById.get(id))
+        .filter((profile): profile is NonNullable<typeof profile> => !!profile)
+        .map((profile) => ({
+          id: profile.id,
+          email: profile.email,
+          name: profile.name,
+          username: null, // Not implemented yet
+          bio: null, // Not implemented yet
+          avatar_url: profile.avatar_url,
+          created_at: profile.created_at,
+        }));
+
+      cacheManager.set(cacheKey, socialProfiles, CACHE_TTL.FRIENDS_LIST);
+
+      return socialProfiles;
+    } catch (error) {
+      console.error(`Error getting ${direction}:`, error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Cache Management Methods
+  // ============================================================================
+
+  /**
+   * Invalidate all cached follow data for a user
+   * Called after mutations that affect follow relationships
+   * @param userId - ID of the user whose cache to invalidate
+   */
+  private static invalidateFollowsCache(userId: string): void {
+    cacheManager.invalidatePattern(`follows:${userId}:*`);
+    console.log(`✅ Invalidated follows cache for user: ${userId}`);
+  }
+}
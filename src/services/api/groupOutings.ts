@@ -0,0 +1,506 @@
+import { supabase } from '../../lib/supabase';
+import type {
+  GroupOuting,
+  GroupOutingCreate,
+  GroupOutingInvite,
+  GroupOutingQueryOptions,
+  GroupOutingUpdate,
+  OutingResponse,
+} from '../../types/social.types';
+import { ActivityFeedService } from './activityFeed';
+import { NotificationService } from './notifications';
+
+/**
+ * Columns selected for a group outing with its venue, creator and invites joined
+ */
+const GROUP_OUTING_SELECT = `
+  *,
+  venue:venues(
+    id,
+    name,
+    address,
+    city,
+    state,
+    image_url,
+    latitude,
+    longitude
+  ),
+  creator:profiles!group_outings_creator_id_fkey(
+    id,
+    email,
+    name,
+    avatar_url,
+    created_at
+  ),
+  invites:group_outing_invites(
+    *,
+    user:profiles!group_outing_invites_user_id_fkey(
+      id,
+      email,
+      name,
+      avatar_url,
+      created_at
+    )
+  )
+`;
+
+/**
+ * GroupOutingService - Handles group outing planning between friends
+ * Implements outing creation, invitations, RSVP responses and response counts
+ */
+export class GroupOutingService {
+  // ============================================================================
+  // Group Outing Methods
+  // ============================================================================
+
+  /**
+   * Create a group outing at a venue and invite friends
+   * @param outingData - Outing details and the friends to invite
+   * @returns The created group outing with invites and response counts
+   * @throws Error if validation or creation fails
+   */
+  static async createGroupOuting(outingData: GroupOutingCreate): Promise<GroupOuting> {
+    try {
+      const title = outingData.title.trim();
+      if (title.length < 3 || title.length > 100) {
+        throw new Error('Title must be between 3 and 100 characters');
+      }
+
+      if (new Date(outingData.scheduled_date).getTime() <= Date.now()) {
+        throw new Error('Outing must be scheduled in the future');
+      }
+
+      const inviteeIds = Array.from(new Set(outingData.invited_friend_ids)).filter(
+        (id) => id !== outingData.creator_id
+      );
+      if (inviteeIds.length === 0) {
+        throw new Error('Must invite at least one friend');
+      }
+
+      const { data: outing, error } = await supabase
+        .from('group_outings')
+        .insert({
+          creator_id: outingData.creator_id,
+          venue_id: outingData.venue_id,
+          title,
+          description: outingData.description?.trim() || null,
+          scheduled_date: outingData.scheduled_date,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create group outing: ${error.message}`);
+      }
+
+      if (!outing) {
+        throw new Error('Failed to create group outing: No data returned');
+      }
+
+      const { error: inviteError } = await supabase
+        .from('group_outing_invites')
+        .insert(
+          inviteeIds.map((userId) => ({
+            group_outing_id: outing.id,
+            user_id: userId,
+            response: 'no_response',
+          }))
+        );
+
+      if (inviteError) {
+        // Roll back the outing so we don't leave an outing nobody was invited to
+        await supabase.from('group_outings').delete().eq('id', outing.id);
+        throw new Error(`Failed to invite friends: ${inviteError.message}`);
+      }
+
+      console.log(`✅ Group outing created with ${inviteeIds.length} invite(s)`);
+
+      // Post to the activity feed - failures don't affect the outing itself
+      try {
+        await ActivityFeedService.createGroupOutingActivity(outing);
+      } catch (activityError) {
+        console.error('⚠️ Failed to create group outing activity:', activityError);
+      }
+
+      await this.notifyInvitees(outing, inviteeIds);
+
+      return await this.getGroupOuting(outing.id);
+    } catch (error) {
+      console.error('Error creating group outing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a group outing with venue, creator, invites and response counts
+   * @param outingId - ID of the group outing
+   * @returns The group outing
+   * @throws Error if the outing is not found or query fails
+   */
+  static async getGroupOuting(outingId: string): Promise<GroupOuting> {
+    try {
+      const { data, error } = await supabase
+        .from('group_outings')
+        .select(GROUP_OUTING_SELECT)
+        .eq('id', outingId)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to get group outing: ${error.message}`);
+      }
+
+      return this.mapGroupOuting(data);
+    } catch (error) {
+      console.error('Error getting group outing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get group outings a user created or was invited to
+   * @param userId - ID of the user
+   * @param options - Pagination options and whether to include past outings
+   * @returns Outings ordered by scheduled date (soonest first)
+   */
+  static async getUserGroupOutings(
+    userId: string,
+    options?: GroupOutingQueryOptions
+  ): Promise<GroupOuting[]> {
+    try {
+      const limit = options?.limit || 50;
+      const offset = options?.offset || 0;
+
+      // Find outings the user was invited to
+      const { data: invites, error: inviteError } = await supabase
+        .from('group_outing_invites')
+        .select('group_outing_id')
+        .eq('user_id', userId);
+
+      if (inviteError) {
+        throw new Error(`Failed to get outing invites: ${inviteError.message}`);
+      }
+
+      const invitedIds = (invites || []).map((invite) => invite.group_outing_id);
+      const memberFilter = invitedIds.length > 0
+        ? `creator_id.eq.${userId},id.in.(${invitedIds.join(',')})`
+        : `creator_id.eq.${userId}`;
+
+      let query = supabase
+        .from('group_outings')
+        .select(GROUP_OUTING_SELECT)
+        .or(memberFilter);
+
+      if (!options?.includePast) {
+        query = query.gte('scheduled_date', new Date().toISOString());
+      }
+
+      const { data, error } = await query
+        .order('scheduled_date', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to get group outings: ${error.message}`);
+      }
+
+      return (data || []).map((outing) => this.mapGroupOuting(outing));
+    } catch (error) {
+      console.error('Error getting user group outings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a group outing's details
+   * @param outingId - ID of the group outing
+   * @param userId - ID of the user making the change (must be the creator)
+   * @param updates - Fields to update
+   * @returns The updated group outing
+   * @throws Error if the user is not the creator or update fails
+   */
+  static async updateGroupOuting(
+    outingId: string,
+    userId: string,
+    updates: GroupOutingUpdate
+  ): Promise<GroupOuting> {
+    try {
+      if (updates.title !== undefined) {
+        const title = updates.title.trim();
+        if (title.length < 3 || title.length > 100) {
+          throw new Error('Title must be between 3 and 100 characters');
+        }
+      }
+
+      if (
+        updates.scheduled_date !== undefined &&
+        new Date(updates.scheduled_date).getTime() <= Date.now()
+      ) {
+        throw new Error('Outing must be scheduled in the future');
+      }
+
+      const { data, error } = await supabase
+        .from('group_outings')
+        .update({
+          ...updates,
+          ...(updates.title !== undefined && { title: updates.title.trim() }),
+          // Rescheduling re-arms the reminder
+          ...(updates.scheduled_date !== undefined && { reminder_sent_at: null }),
+        })
+        .eq('id', outingId)
+        .eq('creator_id', userId)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to update group outing: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        throw new Error('Only the organizer can update this outing');
+      }
+
+      console.log('✅ Group outing updated successfully');
+
+      return await this.getGroupOuting(outingId);
+    } catch (error) {
+      console.error('Error updating group outing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel (delete) a group outing
+   * @param outingId - ID of the group outing
+   * @param userId - ID of the user cancelling (must be the creator)
+   * @throws Error if the user is not the creator or deletion fails
+   */
+  static async cancelGroupOuting(outingId: string, userId: string): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('group_outings')
+        .delete()
+        .eq('id', outingId)
+        .eq('creator_id', userId)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to cancel group outing: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        throw new Error('Only the organizer can cancel this outing');
+      }
+
+      console.log('✅ Group outing cancelled successfully');
+    } catch (error) {
+      console.error('Error cancelling group outing:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Invite Methods
+  // ============================================================================
+
+  /**
+   * Invite additional friends to an existing outing
+   * @param outingId - ID of the group outing
+   * @param inviterId - ID of the user inviting (must be the creator)
+   * @param friendIds - IDs of the friends to invite
+   * @returns The newly created invites (already-invited friends are skipped)
+   * @throws Error if invite creation fails
+   */
+  static async inviteFriends(
+    outingId: string,
+    inviterId: string,
+    friendIds: string[]
+  ): Promise<GroupOutingInvite[]> {
+    try {
+      const outing = await this.getGroupOuting(outingId);
+
+      if (outing.creator_id !== inviterId) {
+        throw new Error('Only the organizer can invite friends');
+      }
+
+      const alreadyInvited = new Set((outing.invites || []).map((invite) => invite.user_id));
+      const newInviteeIds = Array.from(new Set(friendIds)).filter(
+        (id) => id !== inviterId && !alreadyInvited.has(id)
+      );
+
+      if (newInviteeIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('group_outing_invites')
+        .insert(
+          newInviteeIds.map((userId) => ({
+            group_outing_id: outingId,
+            user_id: userId,
+            response: 'no_response',
+          }))
+        )
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to invite friends: ${error.message}`);
+      }
+
+      console.log(`✅ Invited ${newInviteeIds.length} friend(s) to group outing`);
+
+      await this.notifyInvitees(outing, newInviteeIds);
+
+      return data || [];
+    } catch (error) {
+      console.error('Error inviting friends to group outing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Respond to a group outing invitation
+   * @param outingId - ID of the group outing
+   * @param userId - ID of the invited user
+   * @param response - RSVP response
+   * @returns The updated invite
+   * @throws Error if the user was not invited or update fails
+   */
+  static async respondToOuting(
+    outingId: string,
+    userId: string,
+    response: OutingResponse
+  ): Promise<GroupOutingInvite> {
+    try {
+      const { data, error } = await supabase
+        .from('group_outing_invites')
+        .update({
+          response,
+          responded_at: new Date().toISOString(),
+        })
+        .eq('group_outing_id', outingId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to respond to group outing: ${error.message}`);
+      }
+
+      if (!data) {
+        throw new Error('You are not invited to this outing');
+      }
+
+      console.log(`✅ Responded "${response}" to group outing`);
+
+      // Let the organizer know - failures don't affect the response itself
+      try {
+        const outing = await this.getGroupOuting(outingId);
+        await NotificationService.sendGroupOutingResponseNotification(outing, userId, response);
+      } catch (notificationError) {
+        console.error('⚠️ Failed to send group outing response notification:', notificationError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error responding to group outing:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Count invite responses for an outing
+   * @param invites - Invites for the outing
+   * @returns Number of invites per response type
+   */
+  static calculateResponseCounts(
+    invites: Pick<GroupOutingInvite, 'response'>[]
+  ): NonNullable<GroupOuting['response_counts']> {
+    const counts = {
+      interested: 0,
+      going: 0,
+      cant_go: 0,
+      no_response: 0,
+    };
+
+    for (const invite of invites) {
+      if (invite.response in counts) {
+        counts[invite.response] += 1;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Send invite notifications to each invitee
+   * @param outing - The group outing
+   * @param inviteeIds - IDs of the invited users
+   */
+  private static async notifyInvitees(
+    outing: GroupOuting,
+    inviteeIds: string[]
+  ): Promise<void> {
+    for (const inviteeId of inviteeIds) {
+      try {
+        await NotificationService.sendGroupOutingInviteNotification(outing, inviteeId);
+      } catch (notificationError) {
+        // Log notification failure but don't throw - invite was created successfully
+        console.error('⚠️ Failed to send group outing invite notification:', notificationError);
+      }
+    }
+  }
+
+  /**
+   * Map a joined group outing row to the GroupOuting type
+   * @param row - Row returned by GROUP_OUTING_SELECT
+   * @returns Group outing with computed response counts
+   */
+  private static mapGroupOuting(row: any): GroupOuting {
+    const invites: GroupOutingInvite[] = (row.invites || []).map((invite: any) => ({
+      id: invite.id,
+      group_outing_id: invite.group_outing_id,
+      user_id: invite.user_id,
+      response: invite.response,
+      responded_at: invite.responded_at,
+      created_at: invite.created_at,
+      user: invite.user
+        ? {
+            id: invite.user.id,
+            email: invite.user.email,
+            name: invite.user.name,
+            username: null,
+            bio: null,
+            avatar_url: invite.user.avatar_url,
+            created_at: invite.user.created_at,
+          }
+        : undefined,
+    }));
+
+    return {
+      id: row.id,
+      creator_id: row.creator_id,
+      venue_id: row.venue_id,
+      title: row.title,
+      description: row.description,
+      scheduled_date: row.scheduled_date,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      creator: row.creator
+        ? {
+            id: row.creator.id,
+            email: row.creator.email,
+            name: row.creator.name,
+            username: null,
+            bio: null,
+            avatar_url: row.creator.avatar_url,
+            created_at: row.creator.created_at,
+          }
+        : undefined,
+      venue: row.venue || undefined,
+      invites,
+      response_counts: this.calculateResponseCounts(invites),
+    };
+  }
+}
@@ -11,6 +11,8 @@ export { AuthService } from './auth';
 export { FavoriteService } from './favorites';
 export { UserFeedbackService } from './feedback';
 export { FriendsService } from './friends';
+export { FollowService } from './follows';
+export { GroupOutingService } from './groupOutings';
 export { NotificationService } from './notifications';
 export { ProfileService } from './profile';
 export { FlashOfferService } from './flashOffers';
@@ -20,3 +22,9 @@ export { FlashOfferAnalyticsService } from './flashOfferAnalytics';
 export { NotificationPreferencesService } from './notificationPreferences';
 export { ReviewService } from './reviews';
 export { ReviewNotificationService } from './reviewNotifications';
+export { VenuePushCampaignService } from './venuePushCampaigns';
+export { FlashOfferTemplateService } from './flashOfferTemplates';
+export { FlashOfferRuleService } from './flashOfferRules';
+export { ModerationService } from './moderation';
+export { AccountDeletionService } from './accountDeletion';
+export { DataExportService } from './dataExport';
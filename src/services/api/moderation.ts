@@ -0,0 +1,208 @@
+/**
+ * ModerationService
+ *
+ * Admin moderation queue for review, review photo and notification reports.
+ * Reports are grouped per piece of content. Reviews and photos are hidden
+ * automatically once they collect 3 pending reports (database trigger) or
+ * when their text trips ContentModerationService.containsSevereContent.
+ * Admins then dismiss the reports, remove the content, or warn or suspend
+ * its author; reporters and authors are notified of the outcome.
+ *
+ * Only users with app_metadata.role = 'admin' can use this service - the
+ * database functions reject everyone else.
+ *
+ * Requirements: Moderation - Report Queue
+ */
+
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { ContentModerationService } from '../compliance/ContentModerationService';
+import { PushNotificationService } from '../PushNotificationService';
+import type {
+  ModerationQueueItem,
+  ModerationResolution,
+  ResolveModerationItemParams,
+} from '../../types/moderation.types';
+
+/**
+ * Default number of days a suspension lasts
+ */
+export const DEFAULT_SUSPENSION_DAYS = 7;
+
+export class ModerationService {
+  /**
+   * Check whether a user is a platform admin
+   * @param user - Signed-in Supabase user
+   * @returns True when the user has the admin role in app_metadata
+   */
+  static isAdmin(user: User | null | undefined): boolean {
+    return user?.app_metadata?.role === 'admin';
+  }
+
+  /**
+   * Get reported content with pending reports
+   *
+   * Content with severe text is hidden straight away and listed first;
+   * everything else stays oldest first.
+   *
+   * @param limit - Maximum number of items to return
+   * @returns Queue items with their report summary
+   * @throws Error if the user is not an admin or the query fails
+   *
+   * @example
+   * ```typescript
+   * const queue = await ModerationService.getQueue();
+   * ```
+   */
+  static async getQueue(limit: number = 50): Promise<ModerationQueueItem[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_moderation_queue', {
+        p_limit: limit,
+      });
+
+      if (error) {
+        throw new Error(`Failed to load moderation queue: ${error.message}`);
+      }
+
+      const items: ModerationQueueItem[] = await Promise.all(
+        (data || []).map(async (row: Omit<ModerationQueueItem, 'has_severe_content'>) => {
+          const item: ModerationQueueItem = {
+            ...row,
+            report_count: Number(row.report_count),
+            reasons: row.reasons || [],
+            details: row.details || [],
+            has_severe_content: !!row.content_text &&
+              ContentModerationService.containsSevereContent(row.content_text),
+          };
+
+          if (item.has_severe_content && !item.is_hidden && item.content_type !== 'notification') {
+            return this.hideSevereContent(item);
+          }
+
+          return item;
+        })
+      );
+
+      return items.sort((a, b) => Number(b.has_severe_content) - Number(a.has_severe_content));
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve every pending report on a piece of content
+   *
+   * Dismissing restores hidden content. Removing, warning and suspending keep
+   * it hidden; warning and suspending also record the action against the
+   * author, and suspended authors can't post reviews or photos until the
+   * suspension ends.
+   *
+   * @param params - Content, action, notes and suspension length
+   * @returns Outcome, including who was notified
+   * @throws Error if the user is not an admin or there are no pending reports
+   *
+   * @example
+   * ```typescript
+   * await ModerationService.resolveItem({
+   *   contentType: 'review',
+   *   contentId: item.content_id,
+   *   action: 'suspend',
+   *   suspendDays: 14,
+   * });
+   * ```
+   */
+  static async resolveItem(params: ResolveModerationItemParams): Promise<ModerationResolution> {
+    const { contentType, contentId, action, notes, suspendDays = DEFAULT_SUSPENSION_DAYS } = params;
+
+    try {
+      const { data, error } = await supabase.rpc('resolve_moderation_item', {
+        p_content_type: contentType,
+        p_content_id: contentId,
+        p_action: action,
+        p_notes: notes?.trim() || null,
+        p_suspend_days: suspendDays,
+      });
+
+      if (error) {
+        throw new Error(`Failed to resolve reports: ${error.message}`);
+      }
+
+      const resolution = data as ModerationResolution;
+
+      console.log(`✅ Moderation ${action} on ${contentType} ${contentId}: ${resolution.resolved_count} report(s) closed`);
+
+      // In-app notifications are created by the database; push is best effort
+      await this.sendPushUpdates(resolution, contentId);
+
+      return resolution;
+    } catch (error) {
+      console.error('Error resolving moderation item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hide content flagged as severe while it waits for a decision
+   * @param item - Queue item with severe content
+   * @returns The item marked as hidden, or unchanged if hiding failed
+   */
+  private static async hideSevereContent(item: ModerationQueueItem): Promise<ModerationQueueItem> {
+    const { error } = await supabase.rpc('hide_reported_content', {
+      p_content_type: item.content_type,
+      p_content_id: item.content_id,
+      p_reason: 'severe_content',
+    });
+
+    if (error) {
+      console.warn('⚠️ Failed to hide severe content:', error.message);
+      return item;
+    }
+
+    console.log(`✅ Hid ${item.content_type} ${item.content_id} with severe content`);
+    return { ...item, is_hidden: true, hidden_reason: 'severe_content' };
+  }
+
+  /**
+   * Push the outcome to reporters and, when actioned, the author
+   * @param resolution - Result returned by resolve_moderation_item
+   * @param contentId - Resolved content
+   */
+  private static async sendPushUpdates(
+    resolution: ModerationResolution,
+    contentId: string
+  ): Promise<void> {
+    const sends = resolution.reporter_ids.map((reporterId) =>
+      PushNotificationService.sendSocialNotification(reporterId, 'moderation_update', {
+        title: 'Report Update',
+        body: resolution.reporter_message,
+        data: {
+          type: 'moderation_update',
+          referenceId: contentId,
+          navigationTarget: 'Home',
+        },
+      })
+    );
+
+    if (resolution.author_id && resolution.author_title && resolution.author_message) {
+      sends.push(
+        PushNotificationService.sendSocialNotification(resolution.author_id, 'moderation_update', {
+          title: resolution.author_title,
+          body: resolution.author_message,
+          data: {
+            type: 'moderation_update',
+            referenceId: contentId,
+            navigationTarget: 'Home',
+          },
+        })
+      );
+    }
+
+    const results = await Promise.allSettled(sends);
+    const failed = results.filter((result) => result.status === 'rejected').length;
+
+    if (failed > 0) {
+      console.warn(`⚠️ ${failed} moderation push notification(s) failed`);
+    }
+  }
+}
@@ -4,6 +4,10 @@ import type {
   NotificationPreferences,
   PaginationOptions,
   VenueShare,
+  GroupOuting,
+  OutingResponse,
+  ActivityFeedEntry,
+  ActivityComment,
 } from '../../types/social.types';
 import { PushNotificationService } from '../PushNotificationService';
 
@@ -294,6 +298,604 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a group outing invite notification to an invited friend
+   * @param outing - The group outing the user was invited to
+   * @param inviteeId - ID of the invited user
+   * @returns The created notification, or null if the invitee disabled outing invites
+   * @throws Error if notification creation fails
+   */
+  static async sendGroupOutingInviteNotification(
+    outing: GroupOuting,
+    inviteeId: string
+  ): Promise<SocialNotification | null> {
+    try {
+      // Check if user has group outing invite notifications enabled
+      const preferences = await this.getNotificationPreferences(inviteeId);
+      if (!preferences.group_outing_invites) {
+        console.log('Group outing invite notifications disabled for user:', inviteeId);
+        return null;
+      }
+
+      // Get creator's profile for notification content
+      const { data: creatorProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', outing.creator_id)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get creator profile: ${profileError.message}`);
+      }
+
+      const creatorName = creatorProfile.name || creatorProfile.email;
+
+      // Get venue details for notification content
+      const { data: venue, error: venueError } = await supabase
+        .from('venues')
+        .select('name')
+        .eq('id', outing.venue_id)
+        .single();
+
+      if (venueError) {
+        throw new Error(`Failed to get venue details: ${venueError.message}`);
+      }
+
+      const body = `${creatorName} invited you to "${outing.title}" at ${venue.name}`;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: inviteeId,
+          type: 'group_outing_invite',
+          actor_id: outing.creator_id,
+          reference_id: outing.id,
+          title: 'Group Outing Invitation',
+          body,
+          data: {
+            outing_id: outing.id,
+            outing_title: outing.title,
+            venue_id: outing.venue_id,
+            venue_name: venue.name,
+            scheduled_date: outing.scheduled_date,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create group outing invite notification: ${error.message}`);
+      }
+
+      console.log('✅ Group outing invite notification created:', data);
+
+      // Send push notification
+      // Push delivery failures are handled gracefully and don't affect in-app notification
+      try {
+        await PushNotificationService.sendSocialNotification(
+          inviteeId,
+          'group_outing_invite',
+          {
+            title: 'Group Outing Invitation',
+            body,
+            data: {
+              type: 'group_outing_invite',
+              actorId: outing.creator_id,
+              referenceId: data.id,
+              navigationTarget: 'GroupOutingDetail',
+              navigationParams: {
+                outingId: outing.id,
+              },
+            },
+            imageUrl: creatorProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for group outing invite');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for group outing invite:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending group outing invite notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notify the outing creator that an invitee responded
+   * @param outing - The group outing that was responded to
+   * @param responderId - ID of the user who responded
+   * @param response - The RSVP response
+   * @returns The created notification, or null if the creator disabled outing notifications
+   * @throws Error if notification creation fails
+   */
+  static async sendGroupOutingResponseNotification(
+    outing: GroupOuting,
+    responderId: string,
+    response: OutingResponse
+  ): Promise<SocialNotification | null> {
+    try {
+      // Responses use the same preference as invites
+      const preferences = await this.getNotificationPreferences(outing.creator_id);
+      if (!preferences.group_outing_invites) {
+        console.log('Group outing notifications disabled for user:', outing.creator_id);
+        return null;
+      }
+
+      // Get responder's profile for notification content
+      const { data: responderProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', responderId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get responder profile: ${profileError.message}`);
+      }
+
+      const responderName = responderProfile.name || responderProfile.email;
+      const responseText: Record<OutingResponse, string> = {
+        going: 'is going to',
+        interested: 'is interested in',
+        cant_go: "can't make it to",
+      };
+      const body = `${responderName} ${responseText[response]} "${outing.title}"`;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: outing.creator_id,
+          type: 'group_outing_response',
+          actor_id: responderId,
+          reference_id: outing.id,
+          title: 'Outing Response',
+          body,
+          data: {
+            outing_id: outing.id,
+            outing_title: outing.title,
+            response,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create group outing response notification: ${error.message}`);
+      }
+
+      console.log('✅ Group outing response notification created:', data);
+
+      try {
+        await PushNotificationService.sendSocialNotification(
+          outing.creator_id,
+          'group_outing_response',
+          {
+            title: 'Outing Response',
+            body,
+            data: {
+              type: 'group_outing_response',
+              actorId: responderId,
+              referenceId: data.id,
+              navigationTarget: 'GroupOutingDetail',
+              navigationParams: {
+                outingId: outing.id,
+              },
+            },
+            imageUrl: responderProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for group outing response');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for group outing response:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending group outing response notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a new follower notification to the followed user
+   * @param followerId - ID of the user who followed
+   * @param followingId - ID of the user who was followed
+   * @returns The created notification, or null if the user disabled new follower notifications
+   * @throws Error if notification creation fails
+   */
+  static async sendNewFollowerNotification(
+    followerId: string,
+    followingId: string
+  ): Promise<SocialNotification | null> {
+    try {
+      // Check if user has new follower notifications enabled
+      const preferences = await this.getNotificationPreferences(followingId);
+      if (!preferences.new_followers) {
+        console.log('New follower notifications disabled for user:', followingId);
+        return null;
+      }
+
+      // Get follower's profile for notification content
+      const { data: followerProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', followerId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get follower profile: ${profileError.message}`);
+      }
+
+      const followerName = followerProfile.name || followerProfile.email;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: followingId,
+          type: 'new_follower',
+          actor_id: followerId,
+          reference_id: null,
+          title: 'New Follower',
+          body: `${followerName} started following you`,
+          data: {
+            follower_id: followerId,
+            follower_name: followerName,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create new follower notification: ${error.message}`);
+      }
+
+      console.log('✅ New follower notification created:', data);
+
+      try {
+        await PushNotificationService.sendSocialNotification(
+          followingId,
+          'new_follower',
+          {
+            title: 'New Follower',
+            body: `${followerName} started following you`,
+            data: {
+              type: 'new_follower',
+              actorId: followerId,
+              referenceId: data.id,
+              navigationTarget: 'Profile',
+              navigationParams: {
+                userId: followerId,
+              },
+            },
+            imageUrl: followerProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for new follower');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for new follower:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending new follower notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a follow request notification to the requested user
+   * @param followerId - ID of the user requesting to follow
+   * @param followingId - ID of the user being requested
+   * @param requestId - ID of the follow request
+   * @returns The created notification, or null if the user disabled follow request notifications
+   * @throws Error if notification creation fails
+   */
+  static async sendFollowRequestNotification(
+    followerId: string,
+    followingId: string,
+    requestId: string
+  ): Promise<SocialNotification | null> {
+    try {
+      // Check if user has follow request notifications enabled
+      const preferences = await this.getNotificationPreferences(followingId);
+      if (!preferences.follow_requests) {
+        console.log('Follow request notifications disabled for user:', followingId);
+        return null;
+      }
+
+      // Get requester's profile for notification content
+      const { data: followerProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', followerId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get requester profile: ${profileError.message}`);
+      }
+
+      const followerName = followerProfile.name || followerProfile.email;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: followingId,
+          type: 'follow_request',
+          actor_id: followerId,
+          reference_id: requestId,
+          title: 'New Follow Request',
+          body: `${followerName} requested to follow you`,
+          data: {
+            follower_id: followerId,
+            follower_name: followerName,
+            request_id: requestId,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create follow request notification: ${error.message}`);
+      }
+
+      console.log('✅ Follow request notification created:', data);
+
+      try {
+        await PushNotificationService.sendSocialNotification(
+          followingId,
+          'follow_request',
+          {
+            title: 'New Follow Request',
+            body: `${followerName} requested to follow you`,
+            data: {
+              type: 'follow_request',
+              actorId: followerId,
+              referenceId: data.id,
+              navigationTarget: 'FollowRequests',
+            },
+            imageUrl: followerProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for follow request');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for follow request:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending follow request notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notify the activity owner that someone liked their activity
+   * @param activity - The activity that was liked
+   * @param likerId - ID of the user who liked the activity
+   * @returns The created notification, or null if the owner disabled like notifications
+   * @throws Error if notification creation fails
+   */
+  static async sendActivityLikeNotification(
+    activity: ActivityFeedEntry,
+    likerId: string
+  ): Promise<SocialNotification | null> {
+    try {
+      // Check if user has activity like notifications enabled
+      const preferences = await this.getNotificationPreferences(activity.user_id);
+      if (!preferences.activity_likes) {
+        console.log('Activity like notifications disabled for user:', activity.user_id);
+        return null;
+      }
+
+      // Get liker's profile for notification content
+      const { data: likerProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', likerId)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get liker profile: ${profileError.message}`);
+      }
+
+      const likerName = likerProfile.name || likerProfile.email;
+      const body = `${likerName} liked your ${this.describeActivity(activity)}`;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: activity.user_id,
+          type: 'activity_like',
+          actor_id: likerId,
+          reference_id: activity.id,
+          title: 'New Like',
+          body,
+          data: {
+            activity_id: activity.id,
+            activity_type: activity.activity_type,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create activity like notification: ${error.message}`);
+      }
+
+      console.log('✅ Activity like notification created:', data);
+
+      try {
+        await PushNotificationService.sendSocialNotification(
+          activity.user_id,
+          'activity_like',
+          {
+            title: 'New Like',
+            body,
+            data: {
+              type: 'activity_like',
+              actorId: likerId,
+              referenceId: data.id,
+              navigationTarget: 'ActivityDetail',
+              navigationParams: {
+                activityId: activity.id,
+              },
+            },
+            imageUrl: likerProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for activity like');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for activity like:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending activity like notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notify a user about a comment on their activity, or a reply to their comment
+   * @param activity - The activity that was commented on
+   * @param comment - The new comment
+   * @param recipientId - ID of the activity owner or the author of the comment replied to
+   * @returns The created notification, or null if the recipient disabled comment notifications
+   * @throws Error if notification creation fails
+   */
+  static async sendActivityCommentNotification(
+    activity: ActivityFeedEntry,
+    comment: ActivityComment,
+    recipientId: string
+  ): Promise<SocialNotification | null> {
+    try {
+      // Check if user has activity comment notifications enabled
+      const preferences = await this.getNotificationPreferences(recipientId);
+      if (!preferences.activity_comments) {
+        console.log('Activity comment notifications disabled for user:', recipientId);
+        return null;
+      }
+
+      // Get commenter's profile for notification content
+      const { data: commenterProfile, error: profileError } = await supabase
+        .from('profiles')
+        .select('name, email, avatar_url')
+        .eq('id', comment.user_id)
+        .single();
+
+      if (profileError) {
+        throw new Error(`Failed to get commenter profile: ${profileError.message}`);
+      }
+
+      const commenterName = commenterProfile.name || commenterProfile.email;
+      const isReply = recipientId !== activity.user_id;
+      const title = isReply ? 'New Reply' : 'New Comment';
+      const body = isReply
+        ? `${commenterName} replied to your comment: "${comment.comment_text}"`
+        : `${commenterName} commented on your ${this.describeActivity(activity)}: "${comment.comment_text}"`;
+
+      // Create the in-app notification
+      const { data, error } = await supabase
+        .from('social_notifications')
+        .insert({
+          user_id: recipientId,
+          type: 'activity_comment',
+          actor_id: comment.user_id,
+          reference_id: activity.id,
+          title,
+          body,
+          data: {
+            activity_id: activity.id,
+            activity_type: activity.activity_type,
+            comment_id: comment.id,
+            parent_comment_id: comment.parent_comment_id,
+          },
+          read: false,
+          read_at: null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create activity comment notification: ${error.message}`);
+      }
+
+      console.log('✅ Activity comment notification created:', data);
+
+      try {
+        await PushNotificationService.sendSocialNotification(
+          recipientId,
+          'activity_comment',
+          {
+            title,
+            body,
+            data: {
+              type: 'activity_comment',
+              actorId: comment.user_id,
+              referenceId: data.id,
+              navigationTarget: 'ActivityDetail',
+              navigationParams: {
+                activityId: activity.id,
+              },
+            },
+            imageUrl: commenterProfile.avatar_url || undefined,
+          }
+        );
+        console.log('✅ Push notification sent for activity comment');
+      } catch (pushError) {
+        // Log push delivery failure but don't throw - in-app notification was created successfully
+        console.error('⚠️ Failed to send push notification for activity comment:', pushError);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error sending activity comment notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Describe an activity for notification copy, e.g. "check-in"
+   * @param activity - The activity to describe
+   * @returns Short human-readable description of the activity type
+   */
+  private static describeActivity(activity: ActivityFeedEntry): string {
+    switch (activity.activity_type) {
+      case 'checkin':
+        return 'check-in';
+      case 'favorite':
+        return 'favorite';
+      case 'collection_created':
+      case 'collection_updated':
+        return 'collection';
+      case 'group_outing':
+        return 'group outing';
+      default:
+        return 'activity';
+    }
+  }
+
   // ============================================================================
   // Notification Management Methods
   // ============================================================================
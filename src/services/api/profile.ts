@@ -352,9 +352,9 @@ export class ProfileService {
       let followerCount = 0;
       try {
         const { count, error: followerError } = await supabase
-          .from('friendships')
-          .select('user_id_1, user_id_2', { count: 'exact', head: true })
-          .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`);
+          .from('follows')
+          .select('id', { count: 'exact', head: true })
+          .eq('following_id', userId);
 
         if (followerError) {
           console.warn('⚠️ ProfileService: Follower count fetch error:', followerError.message);
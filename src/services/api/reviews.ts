@@ -10,14 +10,17 @@
  * - 6.3, 6.5, 6.6, 6.7: Review editing and deletion
  * - 13.1, 13.2, 13.6, 13.7: Review text validation
  * - 14.7: Pagination support
+ * - Review photos: up to MAX_REVIEW_PHOTOS per review, metadata stripped before upload
  */
 
 import { supabase } from '../../lib/supabase';
 import { ContentModerationService } from '../compliance/ContentModerationService';
 import { ReviewNotificationService } from './reviewNotifications';
 import { cacheManager, CACHE_TTL } from '../../utils/cache/CacheManager';
+import { stripImageMetadata } from '../../utils/imageMetadata';
 import type {
   Review,
+  ReviewPhoto,
   ReviewWithReviewer,
   SubmitReviewParams,
   UpdateReviewParams,
@@ -30,6 +33,22 @@ import type {
   ToggleHelpfulVoteResult,
 } from '../../types';
 
+/**
+ * Maximum number of photos on one review (also enforced by the database)
+ */
+export const MAX_REVIEW_PHOTOS = 4;
+
+const REVIEW_PHOTOS_BUCKET = 'review-photos';
+const REVIEW_PHOTO_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+const REVIEW_PHOTO_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+const REVIEW_PHOTO_COLUMNS = 'id, review_id, user_id, venue_id, storage_path, photo_url, position, is_hidden, created_at';
+
+/**
+ * Sort embedded review_photos rows into display order
+ */
+const sortPhotos = (photos: ReviewPhoto[] | null | undefined): ReviewPhoto[] =>
+  [...(photos || [])].sort((a, b) => a.position - b.position);
+
 export class ReviewService {
   /**
    * Generate cache key for venue reviews
@@ -250,6 +269,9 @@ export class ReviewService {
 
       console.log('✅ Review deleted successfully via RPC');
 
+      // Photo rows are removed with the review; remove their files too
+      await this.removeReviewPhotoFiles(userId, reviewId);
+
       // Requirement 14.6: Invalidate cache on review deletion
       if (data && data.venue_id) {
         this.invalidateVenueReviewsCache(data.venue_id);
@@ -295,10 +317,10 @@ export class ReviewService {
         verifiedOnly = false,
       } = params;
 
-      // Build query - fetch reviews without profiles join
+      // Build query - fetch reviews and their photos without profiles join
       let query = supabase
         .from('reviews')
-        .select('*', { count: 'exact' })
+        .select(`*, photos:review_photos(${REVIEW_PHOTO_COLUMNS})`, { count: 'exact' })
         .eq('venue_id', venueId);
 
       // Apply rating filter
@@ -367,6 +389,7 @@ export class ReviewService {
         helpful_count: item.helpful_count,
         created_at: item.created_at,
         updated_at: item.updated_at,
+        photos: sortPhotos(item.photos),
         reviewer: profilesMap[item.user_id] ? {
           id: profilesMap[item.user_id].id,
           display_name: profilesMap[item.user_id].name || 'Anonymous',
@@ -478,7 +501,7 @@ export class ReviewService {
     try {
       const { data, error } = await supabase
         .from('reviews')
-        .select('*')
+        .select(`*, photos:review_photos(${REVIEW_PHOTO_COLUMNS})`)
         .eq('user_id', userId)
         .eq('venue_id', venueId)
         .single();
@@ -491,7 +514,7 @@ export class ReviewService {
         throw new Error(`Failed to fetch user review: ${error.message}`);
       }
 
-      return data;
+      return data ? { ...data, photos: sortPhotos(data.photos) } : data;
     } catch (error) {
       console.error('Error fetching user review:', error);
       return null;
@@ -784,17 +807,203 @@ export class ReviewService {
   }
 
   /**
-   * Report a review
+   * Upload a photo to a review
+   * 
+   * The image is read from the device, checked for size and format, and has
+   * its EXIF/XMP metadata (including GPS location) removed before upload.
+   * 
+   * @param params - Review, owner, local file and display position
+   * @returns The saved photo
+   * @throws {Error} If the image is invalid or the upload fails
+   * 
+   * @example
+   * ```typescript
+   * const photo = await ReviewService.uploadReviewPhoto({
+   *   reviewId: review.id,
+   *   userId: user.id,
+   *   venueId: review.venue_id,
+   *   fileUri: result.uri,
+   *   mimeType: result.type,
+   *   position: 0,
+   * });
+   * ```
+   */
+  static async uploadReviewPhoto(params: {
+    reviewId: string;
+    userId: string;
+    venueId: string;
+    fileUri: string;
+    mimeType?: string;
+    position: number;
+  }): Promise<ReviewPhoto> {
+    const { reviewId, userId, venueId, fileUri, position } = params;
+
+    try {
+      const response = await fetch(fileUri);
+      if (!response.ok) {
+        throw new Error('Failed to read image file. Please try again.');
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      const mimeType = (params.mimeType || response.headers.get('content-type') || 'image/jpeg').toLowerCase();
+
+      if (bytes.length > REVIEW_PHOTO_MAX_BYTES) {
+        throw new Error('Image is too large. Please select a smaller image (max 5MB).');
+      }
+      if (!REVIEW_PHOTO_TYPES.includes(mimeType)) {
+        throw new Error('Please select a valid image file (JPEG, PNG, GIF, WEBP)');
+      }
+
+      // Never upload the camera's location or device details
+      const cleaned = stripImageMetadata(bytes, mimeType);
+
+      // First folder must be the uploader's ID (storage policy)
+      const fileExt = mimeType.split('/')[1].replace('jpeg', 'jpg');
+      const storagePath = `${userId}/${reviewId}/${Date.now()}-${position}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(REVIEW_PHOTOS_BUCKET)
+        .upload(storagePath, cleaned, {
+          contentType: mimeType,
+          upsert: false,
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload photo: ${uploadError.message}`);
+      }
+
+      const { data: urlData } = supabase.storage
+        .from(REVIEW_PHOTOS_BUCKET)
+        .getPublicUrl(storagePath);
+
+      const { data, error } = await supabase
+        .from('review_photos')
+        .insert({
+          review_id: reviewId,
+          user_id: userId,
+          venue_id: venueId,
+          storage_path: storagePath,
+          photo_url: urlData.publicUrl,
+          position,
+        })
+        .select(REVIEW_PHOTO_COLUMNS)
+        .single();
+
+      if (error) {
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(REVIEW_PHOTOS_BUCKET).remove([storagePath]);
+        throw new Error(`Failed to save photo: ${error.message}`);
+      }
+
+      console.log('✅ Review photo uploaded successfully');
+
+      this.invalidateVenueReviewsCache(venueId);
+
+      return data as ReviewPhoto;
+    } catch (error) {
+      console.error('Error uploading review photo:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a photo from a review
+   * 
+   * @param photo - Photo to delete (must belong to the current user)
+   */
+  static async deleteReviewPhoto(photo: ReviewPhoto): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('review_photos')
+        .delete()
+        .eq('id', photo.id)
+        .eq('user_id', photo.user_id);
+
+      if (error) {
+        throw new Error(`Failed to delete photo: ${error.message}`);
+      }
+
+      const { error: storageError } = await supabase.storage
+        .from(REVIEW_PHOTOS_BUCKET)
+        .remove([photo.storage_path]);
+
+      if (storageError) {
+        console.warn('Warning: Could not remove photo file:', storageError.message);
+      }
+
+      console.log('✅ Review photo deleted successfully');
+
+      this.invalidateVenueReviewsCache(photo.venue_id);
+    } catch (error) {
+      console.error('Error deleting review photo:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the stored files of a review's photos (best effort)
+   * 
+   * @param userId - Review author's user ID
+   * @param reviewId - Review ID
+   */
+  private static async removeReviewPhotoFiles(userId: string, reviewId: string): Promise<void> {
+    try {
+      const folder = `${userId}/${reviewId}`;
+      const { data: files, error } = await supabase.storage
+        .from(REVIEW_PHOTOS_BUCKET)
+        .list(folder);
+
+      if (error || !files || files.length === 0) {
+        return;
+      }
+
+      await supabase.storage
+        .from(REVIEW_PHOTOS_BUCKET)
+        .remove(files.map((file) => `${folder}/${file.name}`));
+    } catch (error) {
+      console.warn('Warning: Could not remove review photo files:', error);
+    }
+  }
+
+  /**
+   * Get the most recent review photos for a venue
+   * 
+   * @param venueId - Venue ID
+   * @param limit - Maximum number of photos (default 12)
+   * @returns Photos, newest first
+   */
+  static async getVenueReviewPhotos(venueId: string, limit: number = 12): Promise<ReviewPhoto[]> {
+    try {
+      const { data, error } = await supabase
+        .from('review_photos')
+        .select(REVIEW_PHOTO_COLUMNS)
+        .eq('venue_id', venueId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch review photos: ${error.message}`);
+      }
+
+      return (data || []) as ReviewPhoto[];
+    } catch (error) {
+      console.error('Error fetching review photos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report a review, or a single photo on it
    * 
    * Requirements:
    * - 10.4: Create moderation ticket
    * - 10.6: Prevent duplicate reports
    * 
-   * @param params - Report parameters
+   * @param params - Report parameters (pass photoId to report one photo)
    */
   static async reportReview(params: ReportReviewParams): Promise<void> {
     try {
-      const { reviewId, userId, reason, details } = params;
+      const { reviewId, userId, reason, details, photoId } = params;
 
       // Insert report
       const { error } = await supabase
@@ -804,16 +1013,19 @@ export class ReviewService {
           reporter_user_id: userId,
           reason,
           details,
+          ...(photoId ? { photo_id: photoId } : {}),
         });
 
       if (error) {
         if (error.code === '23505') {
-          throw new Error('You have already reported this review');
+          throw new Error(photoId
+            ? 'You have already reported this photo'
+            : 'You have already reported this review');
         }
         throw new Error(`Failed to report review: ${error.message}`);
       }
 
-      console.log('✅ Review reported successfully');
+      console.log(photoId ? '✅ Review photo reported successfully' : '✅ Review reported successfully');
     } catch (error) {
       console.error('Error reporting review:', error);
       throw error;
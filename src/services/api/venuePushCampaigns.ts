@@ -0,0 +1,249 @@
+/**
+ * VenuePushCampaignService
+ *
+ * Service for venue push campaigns - general announcements, events and
+ * promotions that venue owners broadcast to nearby customers. Campaigns are
+ * stored in venue_push_notifications; delivery, scheduling, cancellation and
+ * push credits are handled by the send-venue-campaign-push Edge Function.
+ *
+ * Requirements: Venue Push Campaigns - Events and Promotions
+ */
+
+import { supabase } from '../../lib/supabase';
+import type { Database } from '../../lib/supabase';
+
+/**
+ * Stored venue push campaign
+ */
+export type VenuePushCampaign = Database['public']['Tables']['venue_push_notifications']['Row'];
+
+/**
+ * Campaign types venue owners can compose (flash offers have their own flow)
+ */
+export type VenueCampaignType = 'general' | 'event' | 'promotion';
+
+/**
+ * Input data for creating a campaign draft
+ */
+export interface CreateVenueCampaignInput {
+  /** Title shown after the venue name (3-60 characters) */
+  title: string;
+  /** Notification body (10-200 characters) */
+  message: string;
+  notification_type: VenueCampaignType;
+  /** Targeting radius in miles */
+  target_radius_miles: number;
+  /** Only target users who favorited the venue */
+  target_favorites_only?: boolean;
+}
+
+/**
+ * Result of sending a campaign
+ */
+export interface VenueCampaignSendResult {
+  status: VenuePushCampaign['status'];
+  targetedUserCount: number;
+  sentCount: number;
+  failedCount: number;
+}
+
+const CAMPAIGN_FUNCTION_NAME = 'send-venue-campaign-push';
+
+export class VenuePushCampaignService {
+  // ============================================================================
+  // Campaign Drafts
+  // ============================================================================
+
+  /**
+   * Create a campaign draft
+   * @param businessAccountId - Business account that owns the venue
+   * @param venueId - Venue sending the campaign
+   * @param input - Campaign content and targeting
+   * @returns Created draft campaign
+   * @throws Error if validation or the insert fails
+   */
+  static async createCampaign(
+    businessAccountId: string,
+    venueId: string,
+    input: CreateVenueCampaignInput
+  ): Promise<VenuePushCampaign> {
+    try {
+      const title = input.title.trim();
+      const message = input.message.trim();
+
+      if (title.length < 3 || title.length > 60) {
+        throw new Error('Title must be between 3 and 60 characters');
+      }
+
+      if (message.length < 10 || message.length > 200) {
+        throw new Error('Message must be between 10 and 200 characters');
+      }
+
+      if (!(input.target_radius_miles > 0)) {
+        throw new Error('Radius must be greater than 0');
+      }
+
+      const { data, error } = await supabase
+        .from('venue_push_notifications')
+        .insert({
+          venue_business_account_id: businessAccountId,
+          venue_id: venueId,
+          title,
+          message,
+          notification_type: input.notification_type,
+          target_radius_miles: input.target_radius_miles,
+          target_favorites_only: input.target_favorites_only ?? false,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create campaign: ${error.message}`);
+      }
+
+      console.log('✅ Campaign draft created:', data.id);
+      return data;
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get campaigns for a business account, newest first
+   * Flash offer pushes are excluded
+   * @param businessAccountId - Business account ID
+   * @param limit - Maximum campaigns to return (default 20)
+   * @returns Campaigns
+   */
+  static async getVenueCampaigns(
+    businessAccountId: string,
+    limit: number = 20
+  ): Promise<VenuePushCampaign[]> {
+    try {
+      const { data, error } = await supabase
+        .from('venue_push_notifications')
+        .select('*')
+        .eq('venue_business_account_id', businessAccountId)
+        .neq('notification_type', 'flash_offer')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch campaigns: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Send, Schedule and Cancel
+  // ============================================================================
+
+  /**
+   * Send a draft campaign now
+   * The Edge Function charges push credits and refunds them if the send fails
+   * @param campaign - Draft campaign
+   * @returns Delivery counts
+   * @throws Error if credits are insufficient or the send fails
+   */
+  static async sendCampaign(campaign: VenuePushCampaign): Promise<VenueCampaignSendResult> {
+    try {
+      const result = await this.invokeCampaignFunction({
+        action: 'send',
+        campaignId: campaign.id,
+      });
+
+      console.log(`✅ Campaign sent: ${result.sentCount} delivered, ${result.failedCount} failed`);
+      return {
+        status: result.status,
+        targetedUserCount: result.targetedUserCount || 0,
+        sentCount: result.sentCount || 0,
+        failedCount: result.failedCount || 0,
+      };
+    } catch (error) {
+      console.error('Error sending campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Schedule a draft campaign for later delivery
+   * Credits are charged when scheduling and refunded if the campaign is
+   * cancelled or fails to send
+   * @param campaign - Draft campaign
+   * @param scheduledFor - When to send the campaign (must be in the future)
+   * @throws Error if credits are insufficient or scheduling fails
+   */
+  static async scheduleCampaign(
+    campaign: VenuePushCampaign,
+    scheduledFor: Date
+  ): Promise<void> {
+    try {
+      if (scheduledFor.getTime() <= Date.now()) {
+        throw new Error('Scheduled time must be in the future');
+      }
+
+      await this.invokeCampaignFunction({
+        action: 'schedule',
+        campaignId: campaign.id,
+        scheduledFor: scheduledFor.toISOString(),
+      });
+
+      console.log(`✅ Campaign ${campaign.id} scheduled for ${scheduledFor.toISOString()}`);
+    } catch (error) {
+      console.error('Error scheduling campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a draft or scheduled campaign
+   * Credits charged when a campaign was scheduled are refunded
+   * @param campaign - Campaign to cancel
+   * @throws Error if the campaign was already sent or cancellation fails
+   */
+  static async cancelCampaign(campaign: VenuePushCampaign): Promise<void> {
+    try {
+      await this.invokeCampaignFunction({
+        action: 'cancel',
+        campaignId: campaign.id,
+      });
+
+      console.log(`✅ Campaign ${campaign.id} cancelled`);
+    } catch (error) {
+      console.error('Error cancelling campaign:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Call the campaign Edge Function with the user's session
+   * @throws Error with the function's error message if the call fails
+   */
+  private static async invokeCampaignFunction(
+    body: Record<string, unknown>
+  ): Promise<Record<string, any>> {
+    const { data, error } = await supabase.functions.invoke(CAMPAIGN_FUNCTION_NAME, { body });
+
+    if (error) {
+      // Error responses carry the function's message in their JSON body
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Campaign request failed');
+    }
+
+    return data;
+  }
+}
@@ -115,6 +115,30 @@ export class VenueService {
     return data;
   }
 
+  // Update a venue's check-in settings: geofence, unverified claims and hours timezone (venue owners only, enforced by RLS)
+  static async updateCheckInSettings(
+    venueId: string,
+    settings: { check_in_radius_meters?: number; allow_unverified_claims?: boolean; timezone?: string }
+  ) {
+    const radius = settings.check_in_radius_meters;
+    if (radius !== undefined && (!Number.isInteger(radius) || radius < 25 || radius > 2000)) {
+      throw new Error('Check-in radius must be between 25 and 2000 meters');
+    }
+
+    const { data, error } = await supabase
+      .from('venues')
+      .update(settings)
+      .eq('id', venueId)
+      .select('id, check_in_radius_meters, allow_unverified_claims, timezone')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update check-in settings: ${error.message}`);
+    }
+
+    return data;
+  }
+
   // Update venue rating (called after new reviews)
   static async updateVenueRating(venueId: string) {
     // Get average rating from reviews
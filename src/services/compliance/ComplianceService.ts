@@ -8,8 +8,16 @@
  */
 
 import { NotificationType } from '../../types/social.types';
+import type { VenueCampaignType } from '../api/venuePushCampaigns';
+import { supabase } from '../../lib/supabase';
 import { DebugLogger } from '../DebugLogger';
 
+/**
+ * Where an audit entry was written: by the app for social notifications, or
+ * by a push Edge Function for flash offers and venue campaigns
+ */
+export type NotificationAuditSource = 'app' | 'flash_offer_push' | 'venue_campaign_push';
+
 /**
  * Notification audit log entry
  */
@@ -17,7 +25,10 @@ export interface NotificationAuditLog {
   id: string;
   timestamp: Date;
   userId: string;
-  notificationType: NotificationType;
+  notificationType: NotificationType | 'flash_offer' | VenueCampaignType;
+  source?: NotificationAuditSource;
+  senderId?: string | null;
+  referenceId?: string | null;
   title: string;
   body: string;
   recipientCount: number;
@@ -27,6 +38,38 @@ export interface NotificationAuditLog {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Filters for querying the notification audit log. Dates are an inclusive
+ * start and exclusive end.
+ */
+export interface NotificationAuditQuery {
+  userId?: string;
+  notificationType?: NotificationAuditLog['notificationType'];
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * Row in notification_audit_logs
+ */
+interface NotificationAuditRow {
+  id: string;
+  user_id: string;
+  sender_id: string | null;
+  notification_type: NotificationAuditLog['notificationType'];
+  source: NotificationAuditSource;
+  reference_id: string | null;
+  title: string;
+  body: string;
+  recipient_count: number;
+  delivered_count: number;
+  failed_count: number;
+  success: boolean;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
 /**
  * Content validation result
  */
@@ -60,8 +103,7 @@ export interface ComplianceCheckResult {
  * - Must handle token errors properly
  */
 export class ComplianceService {
-  private static auditLogs: NotificationAuditLog[] = [];
-  private static readonly MAX_AUDIT_LOGS = 10000; // Keep last 10,000 logs in memory
+  private static readonly DEFAULT_AUDIT_QUERY_LIMIT = 100;
   private static readonly MAX_PAYLOAD_SIZE_BYTES = 4096; // 4KB limit for both APNs and FCM
   
   // Prohibited content patterns (spam/abuse detection)
@@ -199,21 +241,14 @@ export class ComplianceService {
 
   /**
    * Log notification send for audit trail
-   * Maintains audit log for compliance reviews
+   * Writes the entry to notification_audit_logs, where it is kept for the
+   * notification log retention period (90 days)
    * 
    * Requirements: 15.8
    * 
    * @param log - Audit log entry
    */
   static logNotificationAudit(log: NotificationAuditLog): void {
-    // Add to in-memory audit log
-    this.auditLogs.push(log);
-
-    // Trim logs if exceeding max
-    if (this.auditLogs.length > this.MAX_AUDIT_LOGS) {
-      this.auditLogs = this.auditLogs.slice(-this.MAX_AUDIT_LOGS);
-    }
-
     // Log to debug logger
     DebugLogger.logNotificationSend(
       log.userId,
@@ -229,8 +264,6 @@ export class ComplianceService {
       }
     );
 
-    // In production, this should also write to persistent storage (database)
-    // For now, we log to console for audit trail
     console.log('📋 Audit Log:', {
       id: log.id,
       timestamp: log.timestamp.toISOString(),
@@ -240,6 +273,62 @@ export class ComplianceService {
       delivered: log.deliveredCount,
       failed: log.failedCount,
     });
+
+    // Persist without blocking the send
+    this.persistAuditLog(log);
+  }
+
+  /**
+   * Query the notification audit log, newest first
+   * 
+   * Users can read entries for notifications sent to them; admins can read
+   * all entries.
+   * 
+   * @param query - Filters to apply
+   * @returns Matching audit logs
+   * @throws Error if the query fails
+   * 
+   * @example
+   * ```typescript
+   * const logs = await ComplianceService.getAuditLogs({
+   *   notificationType: 'flash_offer',
+   *   startDate: new Date('2026-10-01'),
+   *   endDate: new Date('2026-10-08'),
+   * });
+   * ```
+   */
+  static async getAuditLogs(query: NotificationAuditQuery = {}): Promise<NotificationAuditLog[]> {
+    try {
+      let request = supabase
+        .from('notification_audit_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(query.limit ?? this.DEFAULT_AUDIT_QUERY_LIMIT);
+
+      if (query.userId) {
+        request = request.eq('user_id', query.userId);
+      }
+      if (query.notificationType) {
+        request = request.eq('notification_type', query.notificationType);
+      }
+      if (query.startDate) {
+        request = request.gte('created_at', query.startDate.toISOString());
+      }
+      if (query.endDate) {
+        request = request.lt('created_at', query.endDate.toISOString());
+      }
+
+      const { data, error } = await request;
+
+      if (error) {
+        throw new Error(`Failed to fetch audit logs: ${error.message}`);
+      }
+
+      return ((data || []) as NotificationAuditRow[]).map((row) => this.toAuditLog(row));
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      throw error;
+    }
   }
 
   /**
@@ -249,10 +338,11 @@ export class ComplianceService {
    * @param limit - Maximum number of logs to return
    * @returns Array of audit logs
    */
-  static getAuditLogsForUser(userId: string, limit: number = 100): NotificationAuditLog[] {
-    return this.auditLogs
-      .filter(log => log.userId === userId)
-      .slice(-limit);
+  static async getAuditLogsForUser(
+    userId: string,
+    limit: number = this.DEFAULT_AUDIT_QUERY_LIMIT
+  ): Promise<NotificationAuditLog[]> {
+    return this.getAuditLogs({ userId, limit });
   }
 
   /**
@@ -262,56 +352,50 @@ export class ComplianceService {
    * @param limit - Maximum number of logs to return
    * @returns Array of audit logs
    */
-  static getAuditLogsByType(
-    notificationType: NotificationType,
-    limit: number = 100
-  ): NotificationAuditLog[] {
-    return this.auditLogs
-      .filter(log => log.notificationType === notificationType)
-      .slice(-limit);
+  static async getAuditLogsByType(
+    notificationType: NotificationAuditLog['notificationType'],
+    limit: number = this.DEFAULT_AUDIT_QUERY_LIMIT
+  ): Promise<NotificationAuditLog[]> {
+    return this.getAuditLogs({ notificationType, limit });
   }
 
   /**
-   * Get all audit logs within a time range
+   * Get audit logs within a time range
    * 
-   * @param startDate - Start date
-   * @param endDate - End date
+   * @param startDate - Start date (inclusive)
+   * @param endDate - End date (exclusive)
+   * @param limit - Maximum number of logs to return
    * @returns Array of audit logs
    */
-  static getAuditLogsByDateRange(
+  static async getAuditLogsByDateRange(
     startDate: Date,
-    endDate: Date
-  ): NotificationAuditLog[] {
-    return this.auditLogs.filter(
-      log => log.timestamp >= startDate && log.timestamp <= endDate
-    );
+    endDate: Date,
+    limit: number = this.DEFAULT_AUDIT_QUERY_LIMIT
+  ): Promise<NotificationAuditLog[]> {
+    return this.getAuditLogs({ startDate, endDate, limit });
   }
 
   /**
    * Export audit logs as JSON
    * For compliance reporting and audits
    * 
-   * @returns JSON string of all audit logs
+   * @param query - Filters to apply
+   * @returns JSON string of the matching audit logs
    */
-  static exportAuditLogs(): string {
-    return JSON.stringify(this.auditLogs, null, 2);
+  static async exportAuditLogs(query: NotificationAuditQuery = {}): Promise<string> {
+    const logs = await this.getAuditLogs(query);
+    return JSON.stringify(logs, null, 2);
   }
 
   /**
-   * Clear audit logs
-   * Should only be used for testing
-   */
-  static clearAuditLogs(): void {
-    this.auditLogs = [];
-    console.log('📋 Audit logs cleared');
-  }
-
-  /**
-   * Get compliance statistics
+   * Get compliance statistics for a time range (admins only)
    * 
+   * @param startDate - Start date (inclusive)
+   * @param endDate - End date (exclusive)
    * @returns Statistics about notifications and compliance
+   * @throws Error if the caller is not an admin or the query fails
    */
-  static getComplianceStats(): {
+  static async getComplianceStats(startDate: Date, endDate: Date): Promise<{
     totalNotifications: number;
     successfulNotifications: number;
     failedNotifications: number;
@@ -319,33 +403,35 @@ export class ComplianceService {
     totalDelivered: number;
     totalFailed: number;
     successRate: number;
-  } {
-    const total = this.auditLogs.length;
-    const successful = this.auditLogs.filter(log => log.success).length;
-    const failed = total - successful;
-    
-    const totalRecipients = this.auditLogs.reduce(
-      (sum, log) => sum + log.recipientCount,
-      0
-    );
-    const totalDelivered = this.auditLogs.reduce(
-      (sum, log) => sum + log.deliveredCount,
-      0
-    );
-    const totalFailedDeliveries = this.auditLogs.reduce(
-      (sum, log) => sum + log.failedCount,
-      0
-    );
+  }> {
+    try {
+      const { data, error } = await supabase.rpc('get_notification_audit_stats', {
+        p_from: startDate.toISOString(),
+        p_to: endDate.toISOString(),
+      });
 
-    return {
-      totalNotifications: total,
-      successfulNotifications: successful,
-      failedNotifications: failed,
-      totalRecipients,
-      totalDelivered,
-      totalFailed: totalFailedDeliveries,
-      successRate: total > 0 ? (successful / total) * 100 : 0,
-    };
+      if (error) {
+        throw new Error(`Failed to fetch compliance stats: ${error.message}`);
+      }
+
+      const stats = (Array.isArray(data) ? data[0] : data) || {};
+      // BIGINT columns arrive as strings
+      const total = Number(stats.total_notifications) || 0;
+      const successful = Number(stats.successful_notifications) || 0;
+
+      return {
+        totalNotifications: total,
+        successfulNotifications: successful,
+        failedNotifications: total - successful,
+        totalRecipients: Number(stats.total_recipients) || 0,
+        totalDelivered: Number(stats.total_delivered) || 0,
+        totalFailed: Number(stats.total_failed) || 0,
+        successRate: total > 0 ? (successful / total) * 100 : 0,
+      };
+    } catch (error) {
+      console.error('Error fetching compliance stats:', error);
+      throw error;
+    }
   }
 
   /**
@@ -407,6 +493,58 @@ export class ComplianceService {
   // Private Helper Methods
   // ============================================================================
 
+  /**
+   * Write an audit entry to the database
+   * The server only accepts entries that match a recent in-app notification
+   * sent to the same user, so pushes without one are not persisted.
+   * Failures are logged, not thrown - auditing must not break notification sends
+   * 
+   * @param log - Audit log entry
+   */
+  private static async persistAuditLog(log: NotificationAuditLog): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('log_social_notification_audit', {
+        p_user_id: log.userId,
+        p_notification_type: log.notificationType,
+        p_title: log.title,
+        p_body: log.body,
+        p_recipient_count: log.recipientCount,
+        p_delivered_count: log.deliveredCount,
+        p_failed_count: log.failedCount,
+        p_success: log.success,
+        p_metadata: { ...log.metadata, client_log_id: log.id },
+      });
+
+      if (error) {
+        console.warn('⚠️ Failed to persist audit log:', error.message);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to persist audit log:', error);
+    }
+  }
+
+  /**
+   * Map a notification_audit_logs row to an audit log entry
+   */
+  private static toAuditLog(row: NotificationAuditRow): NotificationAuditLog {
+    return {
+      id: row.id,
+      timestamp: new Date(row.created_at),
+      userId: row.user_id,
+      notificationType: row.notification_type,
+      source: row.source,
+      senderId: row.sender_id,
+      referenceId: row.reference_id,
+      title: row.title,
+      body: row.body,
+      recipientCount: row.recipient_count,
+      success: row.success,
+      deliveredCount: row.delivered_count,
+      failedCount: row.failed_count,
+      metadata: row.metadata,
+    };
+  }
+
   /**
    * Calculate payload size in bytes
    * Estimates the size of the notification payload
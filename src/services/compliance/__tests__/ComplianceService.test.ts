@@ -0,0 +1,186 @@
+/**
+ * Unit Tests for ComplianceService audit log
+ *
+ * Requirements:
+ * - 15.8: Audit entries are persisted and can be queried by user, type and
+ *   date range
+ */
+
+import { ComplianceService, NotificationAuditLog } from '../ComplianceService';
+import { supabase } from '../../../lib/supabase';
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../DebugLogger', () => ({
+  DebugLogger: {
+    logNotificationSend: jest.fn(),
+    logFCMEvent: jest.fn(),
+  },
+}));
+
+const auditLog: NotificationAuditLog = {
+  id: 'recipient-1-friend_request-1760000000000',
+  timestamp: new Date('2026-10-19T12:00:00Z'),
+  userId: 'recipient-1',
+  notificationType: 'friend_request',
+  title: 'New friend request',
+  body: 'Sam wants to be friends',
+  recipientCount: 2,
+  success: true,
+  deliveredCount: 2,
+  failedCount: 0,
+  metadata: { latencyMs: 120 },
+};
+
+const auditRow = {
+  id: 'audit-1',
+  user_id: 'recipient-1',
+  sender_id: 'sender-1',
+  notification_type: 'flash_offer',
+  source: 'flash_offer_push',
+  reference_id: 'offer-1',
+  title: '🔥 20% Off at The Local!',
+  body: 'Half-price wings until 9pm',
+  recipient_count: 1,
+  delivered_count: 1,
+  failed_count: 0,
+  success: true,
+  metadata: {},
+  created_at: '2026-10-19T12:00:00Z',
+};
+
+/**
+ * Mock a notification_audit_logs query that resolves to rows
+ */
+const mockAuditQuery = (rows: unknown[]) => {
+  const query: Record<string, jest.Mock> = {};
+  for (const method of ['select', 'order', 'limit', 'eq', 'gte', 'lt']) {
+    query[method] = jest.fn().mockReturnValue(query);
+  }
+  (query as any).then = (resolve: (value: unknown) => void) => resolve({ data: rows, error: null });
+  (supabase.from as jest.Mock).mockReturnValue(query);
+  return query;
+};
+
+describe('ComplianceService audit log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('logNotificationAudit', () => {
+    it('should persist the entry through the audit RPC', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: 'audit-1', error: null });
+
+      ComplianceService.logNotificationAudit(auditLog);
+      await new Promise(process.nextTick);
+
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(supabase.rpc).toHaveBeenCalledWith('log_social_notification_audit', {
+        p_user_id: 'recipient-1',
+        p_notification_type: 'friend_request',
+        p_title: 'New friend request',
+        p_body: 'Sam wants to be friends',
+        p_recipient_count: 2,
+        p_delivered_count: 2,
+        p_failed_count: 0,
+        p_success: true,
+        p_metadata: { latencyMs: 120, client_log_id: auditLog.id },
+      });
+    });
+
+    it('should not throw when persisting fails', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: { message: 'No matching notification to log' },
+      });
+
+      expect(() => ComplianceService.logNotificationAudit(auditLog)).not.toThrow();
+      await new Promise(process.nextTick);
+
+      expect(console.warn).toHaveBeenCalledWith('⚠️ Failed to persist audit log:', 'No matching notification to log');
+    });
+  });
+
+  describe('getAuditLogs', () => {
+    it('should filter by user, type and date range', async () => {
+      const query = mockAuditQuery([auditRow]);
+      const startDate = new Date('2026-10-01T00:00:00Z');
+      const endDate = new Date('2026-10-08T00:00:00Z');
+
+      const logs = await ComplianceService.getAuditLogs({
+        userId: 'recipient-1',
+        notificationType: 'flash_offer',
+        startDate,
+        endDate,
+        limit: 50,
+      });
+
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'recipient-1');
+      expect(query.eq).toHaveBeenCalledWith('notification_type', 'flash_offer');
+      expect(query.gte).toHaveBeenCalledWith('created_at', startDate.toISOString());
+      expect(query.lt).toHaveBeenCalledWith('created_at', endDate.toISOString());
+      expect(query.limit).toHaveBeenCalledWith(50);
+      expect(logs[0]).toEqual(
+        expect.objectContaining({
+          id: 'audit-1',
+          userId: 'recipient-1',
+          notificationType: 'flash_offer',
+          source: 'flash_offer_push',
+          referenceId: 'offer-1',
+          timestamp: new Date('2026-10-19T12:00:00Z'),
+        })
+      );
+    });
+
+    it('should query by user', async () => {
+      const query = mockAuditQuery([]);
+
+      await ComplianceService.getAuditLogsForUser('recipient-1');
+
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'recipient-1');
+      expect(query.limit).toHaveBeenCalledWith(100);
+    });
+  });
+
+  describe('getComplianceStats', () => {
+    it('should convert totals and compute the success rate', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [{
+          total_notifications: '4',
+          successful_notifications: '3',
+          total_recipients: '10',
+          total_delivered: '8',
+          total_failed: '2',
+        }],
+        error: null,
+      });
+
+      const stats = await ComplianceService.getComplianceStats(
+        new Date('2026-10-01T00:00:00Z'),
+        new Date('2026-10-08T00:00:00Z')
+      );
+
+      expect(stats).toEqual({
+        totalNotifications: 4,
+        successfulNotifications: 3,
+        failedNotifications: 1,
+        totalRecipients: 10,
+        totalDelivered: 8,
+        totalFailed: 2,
+        successRate: 75,
+      });
+    });
+  });
+});
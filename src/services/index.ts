@@ -26,6 +26,18 @@ export type {
   VenueSharePayloadOptions,
 } from './NotificationPayloadBuilder';
 export type { FlashOfferNotificationPreferences } from './api/notificationPreferences';
+export type {
+  VenueApplication,
+  VenueApplicationStatus,
+  VenueApplicationDecision,
+  VenueApplicationReview,
+  VenueClaimStatus,
+  VenueClaimMethod,
+  VenueClaimInfo,
+  VenueClaimData,
+  VenueClaimCodeDelivery,
+  VenueClaimVerification,
+} from './venueApplicationService';
 
 // Real-time subscription exports
 export { SubscriptionManager, getSubscriptionManager } from './SubscriptionManager';
@@ -56,6 +68,8 @@ export type {
 export { ComplianceService } from './compliance/ComplianceService';
 export type {
   NotificationAuditLog,
+  NotificationAuditQuery,
+  NotificationAuditSource,
   ContentValidationResult,
   ComplianceCheckResult,
 } from './compliance/ComplianceService';
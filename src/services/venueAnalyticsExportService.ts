@@ -0,0 +1,299 @@
+import { Share } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { getDeviceTimezone } from '../utils/timezone';
+import { PrivacyDataHandler, PrivacyDataType } from '../utils/security';
+import type { FlashOfferAnalytics } from './api/flashOfferAnalytics';
+import type { AnalyticsDateRange } from './venueAnalyticsService';
+
+export type AnalyticsExportFormat = 'csv' | 'json';
+
+/**
+ * One local day of check-in rollups
+ */
+export interface ExportDailyStats {
+  date: string;
+  check_ins: number;
+  completed_visits: number;
+  visit_minutes: number;
+  new_favorites: number;
+  reviews: number;
+  rating_sum: number;
+}
+
+export interface ExportFlashOffer extends FlashOfferAnalytics {
+  title: string;
+  status: string;
+  start_time: string;
+  end_time: string;
+  max_claims: number;
+  claimed_count: number;
+}
+
+/**
+ * A flash offer claim. `customer_id` is a pseudonym generated by the database
+ * that is stable within one venue's exports, so repeat customers can be
+ * counted without being identified.
+ */
+export interface ExportClaim {
+  claim_id: string;
+  offer_id: string;
+  offer_title: string;
+  customer_id: string;
+  status: string;
+  claimed_at: string;
+  expires_at: string;
+  redeemed_at: string | null;
+  redeemed_by_name: string | null;
+}
+
+export interface ExportReview {
+  review_id: string;
+  customer_id: string;
+  rating: number;
+  review_text: string | null;
+  is_verified: boolean;
+  helpful_count: number;
+  created_at: string;
+  response_text: string | null;
+  responded_at: string | null;
+}
+
+/**
+ * Everything included in a venue analytics export
+ */
+export interface VenueAnalyticsExport {
+  venue_id: string;
+  venue_name: string;
+  range: { from: string; to: string };
+  timezone: string;
+  generated_at: string;
+  daily_stats: ExportDailyStats[];
+  hourly_check_ins: Array<{ hour_start: string; check_ins: number }>;
+  flash_offers: ExportFlashOffer[];
+  claims: ExportClaim[];
+  reviews: ExportReview[];
+  rating_distribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvTable = (title: string, columns: string[], rows: unknown[][]): string =>
+  [
+    `# ${title}`,
+    columns.join(','),
+    ...rows.map((row) => row.map(csvField).join(',')),
+  ].join('\n');
+
+export class VenueAnalyticsExportService {
+  /**
+   * Load a venue's export data for a date range
+   *
+   * The data is assembled by the database, which replaces customer user IDs
+   * with pseudonyms before returning it. Names, emails or phone numbers
+   * written into review text are masked here.
+   *
+   * @param venueId - ID of the venue
+   * @param range - Date range to export
+   * @returns Export data with review text masked
+   * @throws {Error} If the export cannot be generated
+   */
+  static async getExportData(
+    venueId: string,
+    range: AnalyticsDateRange
+  ): Promise<VenueAnalyticsExport> {
+    try {
+      const { data, error } = await supabase.rpc('export_venue_analytics', {
+        p_venue_id: venueId,
+        p_from: range.from.toISOString(),
+        p_to: range.to.toISOString(),
+        p_timezone: getDeviceTimezone(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to generate analytics export: ${error.message}`);
+      }
+
+      return this.maskReviewText(data as VenueAnalyticsExport);
+    } catch (error) {
+      console.error('❌ Error generating analytics export:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serialize an export as pretty-printed JSON
+   */
+  static toJSON(exportData: VenueAnalyticsExport): string {
+    return JSON.stringify(exportData, null, 2);
+  }
+
+  /**
+   * Serialize an export as CSV, one titled table per section separated by a
+   * blank line
+   */
+  static toCSV(exportData: VenueAnalyticsExport): string {
+    const distribution = exportData.rating_distribution || {};
+
+    return [
+      csvTable('Export', ['venue', 'from', 'to', 'timezone', 'generated_at'], [[
+        exportData.venue_name,
+        exportData.range.from,
+        exportData.range.to,
+        exportData.timezone,
+        exportData.generated_at,
+      ]]),
+      csvTable(
+        'Daily Stats',
+        ['date', 'check_ins', 'completed_visits', 'avg_visit_minutes', 'new_favorites', 'reviews', 'avg_rating'],
+        exportData.daily_stats.map((day) => [
+          day.date,
+          day.check_ins,
+          day.completed_visits,
+          day.completed_visits > 0 ? Math.round(day.visit_minutes / day.completed_visits) : '',
+          day.new_favorites,
+          day.reviews,
+          day.reviews > 0 ? (day.rating_sum / day.reviews).toFixed(1) : '',
+        ])
+      ),
+      csvTable(
+        'Hourly Check-ins',
+        ['hour_start', 'check_ins'],
+        exportData.hourly_check_ins.map((hour) => [hour.hour_start, hour.check_ins])
+      ),
+      csvTable(
+        'Flash Offers',
+        [
+          'offer_id', 'title', 'status', 'start_time', 'end_time', 'max_claims', 'push_sent',
+          'views', 'claims', 'redemptions', 'open_rate', 'claim_rate', 'redemption_rate', 'time_to_full_minutes',
+        ],
+        exportData.flash_offers.map((offer) => [
+          offer.offer_id,
+          offer.title,
+          offer.status,
+          offer.start_time,
+          offer.end_time,
+          offer.max_claims,
+          offer.push_sent_count,
+          offer.views_count,
+          offer.claims_count,
+          offer.redemptions_count,
+          offer.open_rate,
+          offer.claim_rate,
+          offer.redemption_rate,
+          offer.time_to_full_minutes,
+        ])
+      ),
+      csvTable(
+        'Claims',
+        ['claim_id', 'offer_id', 'offer_title', 'customer_id', 'status', 'claimed_at', 'expires_at', 'redeemed_at', 'redeemed_by'],
+        exportData.claims.map((claim) => [
+          claim.claim_id,
+          claim.offer_id,
+          claim.offer_title,
+          claim.customer_id,
+          claim.status,
+          claim.claimed_at,
+          claim.expires_at,
+          claim.redeemed_at,
+          claim.redeemed_by_name,
+        ])
+      ),
+      csvTable(
+        'Reviews',
+        ['review_id', 'customer_id', 'rating', 'review_text', 'verified', 'helpful_count', 'created_at', 'response_text', 'responded_at'],
+        exportData.reviews.map((review) => [
+          review.review_id,
+          review.customer_id,
+          review.rating,
+          review.review_text,
+          review.is_verified,
+          review.helpful_count,
+          review.created_at,
+          review.response_text,
+          review.responded_at,
+        ])
+      ),
+      csvTable(
+        'Rating Distribution',
+        ['rating', 'count'],
+        (['5', '4', '3', '2', '1'] as const).map((rating) => [rating, distribution[rating] || 0])
+      ),
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * Generate an export and open the OS share sheet with it
+   *
+   * @param venueId - ID of the venue
+   * @param range - Date range to export
+   * @param format - CSV or JSON
+   * @returns True if the user shared the export, false if they dismissed the sheet
+   * @throws {Error} If the export cannot be generated
+   *
+   * @example
+   * ```typescript
+   * await VenueAnalyticsExportService.shareExport(venueId, range, 'csv');
+   * ```
+   */
+  static async shareExport(
+    venueId: string,
+    range: AnalyticsDateRange,
+    format: AnalyticsExportFormat
+  ): Promise<boolean> {
+    console.log('📊 Exporting venue analytics as', format, 'for:', venueId);
+
+    const exportData = await this.getExportData(venueId, range);
+    const content = format === 'csv' ? this.toCSV(exportData) : this.toJSON(exportData);
+    const title = this.getExportTitle(exportData, format);
+
+    const result = await Share.share({ title, message: content }, { subject: title });
+
+    console.log('✅ Analytics export shared:', result.action);
+    return result.action === Share.sharedAction;
+  }
+
+  /**
+   * File-style title for an export, e.g. "Blue Bar analytics 2026-10-01 to 2026-10-07.csv"
+   */
+  static getExportTitle(exportData: VenueAnalyticsExport, format: AnalyticsExportFormat): string {
+    // Dates in the export's timezone, as YYYY-MM-DD
+    const day = (date: Date) => {
+      try {
+        return new Intl.DateTimeFormat('en-CA', {
+          timeZone: exportData.timezone,
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+        }).format(date);
+      } catch {
+        return date.toISOString().slice(0, 10);
+      }
+    };
+    // `to` is exclusive, so name the last day actually included
+    const lastDay = new Date(new Date(exportData.range.to).getTime() - 1);
+    return `${exportData.venue_name || 'Venue'} analytics ${day(new Date(exportData.range.from))} to ${day(lastDay)}.${format}`;
+  }
+
+  /**
+   * Mask names, emails and phone numbers that customers wrote into their
+   * reviews
+   */
+  private static maskReviewText(exportData: VenueAnalyticsExport): VenueAnalyticsExport {
+    return {
+      ...exportData,
+      reviews: exportData.reviews.map((review) => ({
+        ...review,
+        review_text: review.review_text
+          ? PrivacyDataHandler.anonymize(review.review_text, PrivacyDataType.NOTIFICATION_CONTENT)
+          : null,
+      })),
+    };
+  }
+}
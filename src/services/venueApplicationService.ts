@@ -1,7 +1,9 @@
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/supabase';
+import { PushNotificationService } from './PushNotificationService';
 
-type VenueApplication = Database['public']['Tables']['venue_applications']['Row'];
+export type VenueApplication = Database['public']['Tables']['venue_applications']['Row'];
+export type VenueApplicationStatus = VenueApplication['status'];
 type VenueApplicationInsert = Database['public']['Tables']['venue_applications']['Insert'];
 type VenueApplicationUpdate = Database['public']['Tables']['venue_applications']['Update'];
 
@@ -19,6 +21,69 @@ export interface VenueApplicationData {
   description?: string;
 }
 
+/**
+ * Decision an admin can make on an application
+ * - under_review: ask the applicant for more information
+ * - approved: create the venue and business account
+ * - rejected: final, with the reason in the notes
+ */
+export type VenueApplicationDecision = Exclude<VenueApplicationStatus, 'pending'>;
+
+/**
+ * Result of reviewing an application
+ */
+export interface VenueApplicationReview {
+  application_id: string;
+  status: VenueApplicationDecision;
+  owner_user_id: string | null;
+  venue_id: string | null; // Set when approved
+  business_account_id: string | null; // Set when approved
+  title: string; // Notification sent to the applicant
+  message: string;
+}
+
+/**
+ * Whether a listed venue can be claimed by the current user
+ * - claimable: no owner and no open claim
+ * - own_claim: the current user has an open claim
+ * - claim_in_progress: someone else has an open claim
+ * - claimed: the venue already has an owner
+ */
+export type VenueClaimStatus = 'claimable' | 'own_claim' | 'claim_in_progress' | 'claimed';
+
+/**
+ * Venue contact an ownership code can be sent to
+ */
+export type VenueClaimMethod = 'phone' | 'website';
+
+export interface VenueClaimInfo {
+  status: VenueClaimStatus;
+  application_id?: string; // Only for own_claim
+  verified?: boolean; // Only for own_claim
+  contact_methods: VenueClaimMethod[];
+}
+
+export interface VenueClaimData {
+  ownerName: string;
+  ownerEmail: string;
+  description?: string;
+}
+
+/**
+ * Where an ownership code was sent
+ */
+export interface VenueClaimCodeDelivery {
+  method: VenueClaimMethod;
+  destination: string; // Masked phone number or website domain
+  expires_at: string;
+  simulated_code: string | null; // Set while code delivery is simulated
+}
+
+export interface VenueClaimVerification {
+  verified: boolean;
+  attempts_remaining: number;
+}
+
 export class VenueApplicationService {
   /**
    * Check if email is available for venue application
@@ -333,13 +398,130 @@ export class VenueApplicationService {
     }
   }
 
-  // Admin methods (for future admin dashboard)
+  // Claims on venues that are already listed
+
+  /**
+   * Check whether the current user can claim a venue
+   */
+  static async getClaimStatus(venueId: string): Promise<VenueClaimInfo | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_venue_claim_status', {
+        p_venue_id: venueId,
+      });
+
+      if (error) {
+        console.error('❌ Error fetching venue claim status:', error);
+        return null;
+      }
+
+      return data as VenueClaimInfo;
+    } catch (error) {
+      console.error('❌ Unexpected error fetching venue claim status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Open a claim on a listed venue
+   *
+   * A claim is a venue application linked to the existing venue. Only one
+   * claim per venue can be open, and the venue must not have an owner yet.
+   */
+  static async submitClaim(
+    venueId: string,
+    claimData: VenueClaimData
+  ): Promise<{ success: boolean; applicationId?: string; error?: string }> {
+    try {
+      console.log('🏢 Submitting venue claim:', { venueId, ownerEmail: claimData.ownerEmail });
+
+      const { data, error } = await supabase.rpc('create_venue_claim', {
+        p_venue_id: venueId,
+        p_owner_name: claimData.ownerName.trim(),
+        p_owner_email: claimData.ownerEmail.trim(),
+        p_description: claimData.description?.trim() || null,
+      });
+
+      if (error) {
+        console.error('❌ Error creating venue claim:', error);
+        return { success: false, error: error.message || 'Failed to submit claim' };
+      }
+
+      console.log('✅ Venue claim submitted successfully:', data);
+      return { success: true, applicationId: data as string };
+    } catch (error) {
+      console.error('❌ Unexpected error submitting venue claim:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  /**
+   * Send an ownership code to the venue's phone or website contact
+   *
+   * Delivery is simulated until an SMS/email provider is connected: where the
+   * database has simulation turned on, the code comes back in
+   * `simulated_code` for the app to show.
+   */
+  static async sendClaimCode(
+    applicationId: string,
+    method: VenueClaimMethod
+  ): Promise<{ success: boolean; delivery?: VenueClaimCodeDelivery; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('send_venue_claim_code', {
+        p_application_id: applicationId,
+        p_method: method,
+      });
+
+      if (error) {
+        console.error('❌ Error sending venue claim code:', error);
+        return { success: false, error: error.message || 'Failed to send code' };
+      }
+
+      return { success: true, delivery: data as VenueClaimCodeDelivery };
+    } catch (error) {
+      console.error('❌ Unexpected error sending venue claim code:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  /**
+   * Check an ownership code. A verified claim still goes to an admin for
+   * approval, but is approved as a verified business account.
+   */
+  static async verifyClaimCode(
+    applicationId: string,
+    code: string
+  ): Promise<{ success: boolean; verification?: VenueClaimVerification; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('verify_venue_claim_code', {
+        p_application_id: applicationId,
+        p_code: code.trim(),
+      });
+
+      if (error) {
+        console.error('❌ Error verifying venue claim code:', error);
+        return { success: false, error: error.message || 'Failed to verify code' };
+      }
+
+      const verification = data as VenueClaimVerification;
+
+      if (verification.verified) {
+        console.log('✅ Venue claim verified:', applicationId);
+      }
+
+      return { success: true, verification };
+    } catch (error) {
+      console.error('❌ Unexpected error verifying venue claim code:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  // Admin methods (used by the venue application review console)
   
   /**
    * Get all applications (admin only)
    */
   static async getAllApplications(
-    status?: 'pending' | 'approved' | 'rejected' | 'under_review'
+    status?: VenueApplicationStatus
   ): Promise<VenueApplication[]> {
     try {
       let query = supabase
@@ -366,38 +548,60 @@ export class VenueApplicationService {
   }
 
   /**
-   * Update application status (admin only)
+   * Review an application (admin only)
+   *
+   * Approving creates the venue and the owner's business account, which
+   * makes the applicant a venue owner. Asking for more information and
+   * rejecting need notes - they are what the applicant is told. The applicant
+   * gets an in-app notification from the database and a push from here.
    */
-  static async updateApplicationStatus(
+  static async reviewApplication(
     applicationId: string,
-    status: 'pending' | 'approved' | 'rejected' | 'under_review',
-    adminUserId: string,
+    decision: VenueApplicationDecision,
     adminNotes?: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; review?: VenueApplicationReview; error?: string }> {
     try {
-      const { error } = await supabase
-        .from('venue_applications')
-        .update({
-          status,
-          reviewed_by: adminUserId,
-          reviewed_at: new Date().toISOString(),
-          admin_notes: adminNotes || null
-        })
-        .eq('id', applicationId);
+      const { data, error } = await supabase.rpc('review_venue_application', {
+        p_application_id: applicationId,
+        p_decision: decision,
+        p_notes: adminNotes?.trim() || null,
+      });
 
       if (error) {
-        console.error('❌ Error updating application status:', error);
-        return { success: false, error: 'Failed to update application status' };
+        console.error('❌ Error reviewing application:', error);
+        return { success: false, error: error.message || 'Failed to review application' };
       }
 
-      console.log(`✅ Application ${applicationId} status updated to ${status}`);
-      
-      // TODO: Send email notification to venue owner about status change
-      
-      return { success: true };
+      const review = data as VenueApplicationReview;
+
+      console.log(`✅ Application ${applicationId} status updated to ${decision}`);
+
+      // Push is best effort - the in-app notification is already saved
+      if (review.owner_user_id) {
+        try {
+          await PushNotificationService.sendSocialNotification(
+            review.owner_user_id,
+            'venue_application_update',
+            {
+              title: review.title,
+              body: review.message,
+              data: {
+                type: 'venue_application_update',
+                referenceId: applicationId,
+                navigationTarget: 'Home',
+                navigationParams: { status: decision, venueId: review.venue_id },
+              },
+            }
+          );
+        } catch (pushError) {
+          console.warn('⚠️ Failed to send application update push:', pushError);
+        }
+      }
+
+      return { success: true, review };
     } catch (error) {
-      console.error('❌ Unexpected error updating application status:', error);
+      console.error('❌ Unexpected error reviewing application:', error);
       return { success: false, error: 'An unexpected error occurred' };
     }
   }
-}
\ No newline at end of file
+}
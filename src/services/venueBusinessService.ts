@@ -1,80 +1,83 @@
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/supabase';
+import type { VenuePermission, VenueRole, VenueTeamMember } from '../types/venueTeam.types';
 
 type VenueBusinessAccount = Database['public']['Tables']['venue_business_accounts']['Row'];
 // type VenueBusinessAccountInsert = Database['public']['Tables']['venue_business_accounts']['Insert'];
 type VenueBusinessAccountUpdate = Database['public']['Tables']['venue_business_accounts']['Update'];
+type TeamBusinessAccount = Database['public']['Views']['venue_team_business_accounts']['Row'];
+
+/**
+ * Business account as seen by a team member, with the member's role.
+ * Managers and staff get the account without its billing columns.
+ */
+type VenueTeamAccount = (VenueBusinessAccount | TeamBusinessAccount) & { team_role: VenueRole };
+
+const BUSINESS_ACCOUNT_SELECT = `
+  *,
+  venues (
+    id,
+    name,
+    description,
+    category,
+    location,
+    address,
+    phone,
+    website,
+    rating,
+    review_count,
+    image_url
+  )
+`;
+
+/**
+ * Minimum role for each permission (owner > manager > staff).
+ * Mirrors the has_venue_role checks in migration 036.
+ */
+const VENUE_PERMISSION_ROLES: Record<VenuePermission, VenueRole> = {
+  redeem_claims: 'staff',
+  manage_offers: 'manager',
+  reply_to_reviews: 'manager',
+  view_analytics: 'manager',
+  manage_team: 'manager',
+  manage_billing: 'owner',
+};
+
+const VENUE_ROLE_RANK: Record<VenueRole, number> = {
+  owner: 3,
+  manager: 2,
+  staff: 1,
+};
 
 export class VenueBusinessService {
   /**
-   * Get business account for a venue owner
+   * Get the business account a user works on: the venue they own, or
+   * otherwise the first venue team they were added to. Multi-venue users
+   * switch between accounts from getUserBusinessAccounts.
    */
-  static async getBusinessAccount(userId: string): Promise<VenueBusinessAccount | null> {
-    try {
-      console.log('🔍 VenueBusinessService: Fetching business account for user:', userId);
-      
-      const { data, error } = await supabase
-        .from('venue_business_accounts')
-        .select(`
-          *,
-          venues (
-            id,
-            name,
-            description,
-            category,
-            location,
-            address,
-            phone,
-            website,
-            rating,
-            review_count,
-            image_url
-          )
-        `)
-        .eq('owner_user_id', userId)
-        .single();
+  static async getBusinessAccount(userId: string): Promise<VenueTeamAccount | null> {
+    console.log('🔍 VenueBusinessService: Fetching business account for user:', userId);
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // No business account found - this is normal for regular customers
-          console.log('ℹ️ VenueBusinessService: No business account found (user is customer)');
-          return null;
-        }
-        console.error('❌ VenueBusinessService: Error fetching business account:', error);
-        return null;
-      }
-
-      console.log('✅ VenueBusinessService: Business account found:', data?.id);
-      return data;
-    } catch (error) {
-      console.error('❌ VenueBusinessService: Unexpected error fetching business account:', error);
+    const accounts = await this.getUserBusinessAccounts(userId);
+    if (accounts.length === 0) {
+      // No business account or team membership - this is normal for regular customers
+      console.log('ℹ️ VenueBusinessService: No business account found (user is customer)');
       return null;
     }
+
+    console.log('✅ VenueBusinessService: Business account found:', accounts[0].id);
+    return accounts[0];
   }
 
   /**
-   * Get all business accounts for a user (in case they have multiple venues)
+   * Get all business accounts for a user: venues they own (newest first),
+   * then venues where they are a manager or staff member
    */
-  static async getUserBusinessAccounts(userId: string): Promise<VenueBusinessAccount[]> {
+  static async getUserBusinessAccounts(userId: string): Promise<VenueTeamAccount[]> {
     try {
-      const { data, error } = await supabase
+      const { data: owned, error } = await supabase
         .from('venue_business_accounts')
-        .select(`
-          *,
-          venues (
-            id,
-            name,
-            description,
-            category,
-            location,
-            address,
-            phone,
-            website,
-            rating,
-            review_count,
-            image_url
-          )
-        `)
+        .select(BUSINESS_ACCOUNT_SELECT)
         .eq('owner_user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -83,13 +86,63 @@ export class VenueBusinessService {
         return [];
       }
 
-      return data || [];
+      const accounts: VenueTeamAccount[] = (owned || []).map((account: VenueBusinessAccount) => ({
+        ...account,
+        team_role: 'owner' as const,
+      }));
+
+      return [...accounts, ...(await this.getTeamBusinessAccounts(userId, accounts))];
     } catch (error) {
       console.error('❌ Unexpected error fetching business accounts:', error);
       return [];
     }
   }
 
+  /**
+   * Get business accounts for a user's manager and staff memberships,
+   * skipping venues already in ownedAccounts. Errors return no accounts.
+   */
+  private static async getTeamBusinessAccounts(
+    userId: string,
+    ownedAccounts: VenueTeamAccount[]
+  ): Promise<VenueTeamAccount[]> {
+    const { data: memberships, error: membershipError } = await supabase
+      .from('venue_team_members')
+      .select('venue_id, role')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (membershipError) {
+      console.error('❌ VenueBusinessService: Error fetching team memberships:', membershipError);
+      return [];
+    }
+
+    const ownedVenueIds = new Set(ownedAccounts.map((account) => account.venue_id));
+    const teamMemberships = (memberships || []).filter(
+      (membership: { venue_id: string }) => !ownedVenueIds.has(membership.venue_id)
+    );
+
+    if (teamMemberships.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('venue_team_business_accounts')
+      .select(BUSINESS_ACCOUNT_SELECT)
+      .in('venue_id', teamMemberships.map((membership: { venue_id: string }) => membership.venue_id));
+
+    if (error) {
+      console.error('❌ VenueBusinessService: Error fetching team business accounts:', error);
+      return [];
+    }
+
+    // Keep membership order (oldest membership first)
+    return teamMemberships.flatMap((membership: { venue_id: string; role: VenueRole }) => {
+      const account = (data || []).find((a: TeamBusinessAccount) => a.venue_id === membership.venue_id);
+      return account ? [{ ...account, team_role: membership.role }] : [];
+    });
+  }
+
   /**
    * Update subscription tier
    */
@@ -212,6 +265,51 @@ export class VenueBusinessService {
     }
   }
 
+  /**
+   * Return push notification credits for a push that was not sent
+   * (e.g. a cancelled scheduled campaign)
+   */
+  static async refundPushCredits(
+    businessAccountId: string,
+    userId: string,
+    credits: number
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Get current credits
+      const { data: account, error: fetchError } = await supabase
+        .from('venue_business_accounts')
+        .select('push_credits_remaining, push_credits_used')
+        .eq('id', businessAccountId)
+        .eq('owner_user_id', userId)
+        .single();
+
+      if (fetchError || !account) {
+        return { success: false, error: 'Business account not found' };
+      }
+
+      // Update credits
+      const { error } = await supabase
+        .from('venue_business_accounts')
+        .update({
+          push_credits_remaining: account.push_credits_remaining + credits,
+          push_credits_used: Math.max(0, account.push_credits_used - credits)
+        })
+        .eq('id', businessAccountId)
+        .eq('owner_user_id', userId);
+
+      if (error) {
+        console.error('❌ Error refunding push credits:', error);
+        return { success: false, error: 'Failed to refund credits' };
+      }
+
+      console.log(`✅ Refunded ${credits} push credits to account ${businessAccountId}`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Unexpected error refunding push credits:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
   /**
    * Update business account settings
    */
@@ -332,4 +430,158 @@ export class VenueBusinessService {
       return false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Role of a user on a business account. Falls back to owner_user_id for
+   * accounts cached before team roles existed.
+   */
+  static getTeamRole(account: { owner_user_id?: string; team_role?: VenueRole } | null, userId?: string): VenueRole | null {
+    if (!account) {
+      return null;
+    }
+    if (account.team_role) {
+      return account.team_role;
+    }
+    return account.owner_user_id === userId ? 'owner' : 'staff';
+  }
+
+  /**
+   * Check whether a venue role grants a permission
+   */
+  static hasPermission(role: VenueRole | null | undefined, permission: VenuePermission): boolean {
+    if (!role) {
+      return false;
+    }
+    return VENUE_ROLE_RANK[role] >= VENUE_ROLE_RANK[VENUE_PERMISSION_ROLES[permission]];
+  }
+
+  /**
+   * Get a venue's team members, owner first
+   */
+  static async getTeamMembers(venueId: string): Promise<VenueTeamMember[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_venue_team', {
+        p_venue_id: venueId,
+      });
+
+      if (error) {
+        console.error('❌ Error fetching venue team:', error);
+        return [];
+      }
+
+      return (data as VenueTeamMember[]) || [];
+    } catch (error) {
+      console.error('❌ Unexpected error fetching venue team:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add an existing user to a venue's team by email or username.
+   * Managers can add staff; only owners can add managers.
+   */
+  static async inviteTeamMember(
+    venueId: string,
+    callerRole: VenueRole | null,
+    identifier: string,
+    role: Exclude<VenueRole, 'owner'>
+  ): Promise<{ success: boolean; error?: string; member?: VenueTeamMember }> {
+    if (!this.hasPermission(callerRole, 'manage_team')) {
+      return { success: false, error: "You don't have permission to manage this team" };
+    }
+    if (role === 'manager' && callerRole !== 'owner') {
+      return { success: false, error: 'Only owners can add managers' };
+    }
+    if (!identifier.trim()) {
+      return { success: false, error: 'Enter an email or username' };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('invite_venue_team_member', {
+        p_venue_id: venueId,
+        p_identifier: identifier.trim(),
+        p_role: role,
+      });
+
+      if (error) {
+        console.error('❌ Error inviting team member:', error);
+        return { success: false, error: error.message || 'Failed to add team member' };
+      }
+
+      console.log(`✅ Added ${role} to venue ${venueId}`);
+      return { success: true, member: data as VenueTeamMember };
+    } catch (error) {
+      console.error('❌ Unexpected error inviting team member:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  /**
+   * Change a team member between manager and staff (owners only)
+   */
+  static async updateTeamMemberRole(
+    memberId: string,
+    callerRole: VenueRole | null,
+    role: Exclude<VenueRole, 'owner'>
+  ): Promise<{ success: boolean; error?: string }> {
+    if (callerRole !== 'owner') {
+      return { success: false, error: 'Only owners can change team roles' };
+    }
+
+    try {
+      const { error } = await supabase.rpc('update_venue_team_member_role', {
+        p_member_id: memberId,
+        p_role: role,
+      });
+
+      if (error) {
+        console.error('❌ Error updating team member role:', error);
+        return { success: false, error: error.message || 'Failed to update role' };
+      }
+
+      console.log(`✅ Team member ${memberId} is now ${role}`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Unexpected error updating team member role:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  /**
+   * Remove a team member, or leave the team when removing yourself.
+   * Owners can remove anyone but themselves; managers can remove staff.
+   */
+  static async removeTeamMember(
+    member: Pick<VenueTeamMember, 'id' | 'user_id' | 'role'>,
+    callerRole: VenueRole | null,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const isSelf = member.user_id === userId;
+    const canRemove =
+      member.role !== 'owner' &&
+      (isSelf ||
+        callerRole === 'owner' ||
+        (member.role === 'staff' && this.hasPermission(callerRole, 'manage_team')));
+
+    if (!canRemove) {
+      return { success: false, error: "You don't have permission to remove this team member" };
+    }
+
+    try {
+      const { error } = await supabase.rpc('remove_venue_team_member', {
+        p_member_id: member.id,
+      });
+
+      if (error) {
+        console.error('❌ Error removing team member:', error);
+        return { success: false, error: error.message || 'Failed to remove team member' };
+      }
+
+      console.log(`✅ Removed team member ${member.id}`);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Unexpected error removing team member:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+}
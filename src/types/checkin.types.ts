@@ -1,3 +1,22 @@
+// Check-in location verification status
+export type CheckInVerificationStatus = 'verified' | 'unverified';
+
+// Why a check-in could not be verified
+export type CheckInVerificationReason =
+  | 'outside_radius' // Submitted location is farther than the venue's check-in radius
+  | 'low_accuracy' // Reported GPS accuracy is worse than the accepted threshold
+  | 'location_unavailable' // No location was submitted (permission denied or timeout)
+  | 'venue_location_missing' // Venue has no coordinates to verify against
+  | 'not_verified'; // Check-in was created without going through verification
+
+// How a check-in ended
+export type CheckOutReason =
+  | 'manual' // User checked out
+  | 'switched_venue' // User checked in somewhere else
+  | 'max_dwell' // Exceeded the venue category's maximum dwell time
+  | 'venue_closed' // Venue closed per its hours
+  | 'left_geofence'; // Device moved outside the venue's check-in radius
+
 // Check-in interface
 export interface CheckIn {
   id: string;
@@ -8,6 +27,30 @@ export interface CheckIn {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+
+  // Location verification (migration 029)
+  verification_status?: CheckInVerificationStatus;
+  verification_reason?: CheckInVerificationReason | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  location_accuracy_meters?: number | null;
+  distance_meters?: number | null;
+
+  // Automatic check-out (migration 030)
+  checkout_reason?: CheckOutReason | null;
+}
+
+// Active check-in with the venue details used for automatic check-out
+export interface CheckInExpiryContext {
+  checkIn: CheckIn;
+  venue: {
+    category: string;
+    hours: Record<string, string> | null;
+    latitude: number | null;
+    longitude: number | null;
+    check_in_radius_meters: number;
+  };
+  maxDwellMinutes: number; // Category dwell limit, or the default
 }
 
 // Venue check-in statistics
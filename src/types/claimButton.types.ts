@@ -2,7 +2,7 @@
 // Types for the venue detail claim button feature
 
 import type { FlashOffer } from './flashOffer.types';
-import type { FlashOfferClaim } from './flashOfferClaim.types';
+import type { FlashOfferClaim, ClaimIneligibilityReason } from './flashOfferClaim.types';
 
 /**
  * Claim button state enum
@@ -11,10 +11,11 @@ import type { FlashOfferClaim } from './flashOfferClaim.types';
  * Priority order (highest to lowest):
  * 1. loading - Mutation in progress
  * 2. claimed - User has already claimed this offer
- * 3. not_checked_in - User is not checked in at the venue
+ * 3. expired - Offer has expired or been cancelled
  * 4. full - Offer has reached max_claims limit
- * 5. expired - Offer has expired or been cancelled
- * 6. claimable - User is eligible to claim the offer
+ * 5. not_favorite / outside_radius - Offer targeting excludes the user
+ * 6. not_checked_in - User is not checked in at the venue
+ * 7. claimable - User is eligible to claim the offer
  */
 export type ClaimButtonState =
   | 'claimable'    // User can claim the offer
@@ -22,7 +23,9 @@ export type ClaimButtonState =
   | 'loading'      // Claim operation in progress
   | 'not_checked_in' // User must check in first
   | 'full'         // Offer is at capacity
-  | 'expired';     // Offer has expired or been cancelled
+  | 'expired'      // Offer has expired or been cancelled
+  | 'not_favorite' // Favorites-only offer and the user hasn't favorited the venue
+  | 'outside_radius'; // User's last known location is outside the offer radius
 
 /**
  * Button variant for styling
@@ -63,4 +66,5 @@ export interface DeriveClaimButtonStateInput {
   userClaim: FlashOfferClaim | null;
   isCheckedIn: boolean;
   mutationState: MutationState;
+  ineligibilityReason?: ClaimIneligibilityReason | null;
 }
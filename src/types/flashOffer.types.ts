@@ -11,6 +11,14 @@
  */
 export type FlashOfferStatus = 'scheduled' | 'active' | 'expired' | 'cancelled' | 'full';
 
+/**
+ * Which customers can claim an offer, based on their visits to the venue
+ * - all: Anyone who meets the other requirements
+ * - first_time: Only customers on their first visit
+ * - returning: Only customers with at least min_visit_count visits
+ */
+export type FlashOfferVisitorAudience = 'all' | 'first_time' | 'returning';
+
 /**
  * Flash offer interface matching database schema
  * Represents a time-limited, claim-limited promotional offer created by venues
@@ -36,6 +44,11 @@ export interface FlashOffer {
   radius_miles: number;
   target_favorites_only: boolean;
   
+  // Per-user limits (migration 032)
+  max_claims_per_user_per_week?: number | null; // Across all of the venue's offers
+  visitor_audience?: FlashOfferVisitorAudience;
+  min_visit_count?: number | null; // Returning customers only, counts the current visit
+  
   // Status tracking
   status: FlashOfferStatus;
   
@@ -43,6 +56,10 @@ export interface FlashOffer {
   push_sent: boolean;
   push_sent_at: string | null; // ISO 8601 timestamp
   
+  // Recurrence (null for one-off offers)
+  recurrence_id?: string | null;
+  occurrence_date?: string | null; // YYYY-MM-DD
+  
   // Timestamps
   created_at: string; // ISO 8601 timestamp
   updated_at: string; // ISO 8601 timestamp
@@ -70,6 +87,11 @@ export interface CreateFlashOfferInput {
   // Targeting (optional, has defaults)
   radius_miles?: number; // Default: 1.0
   target_favorites_only?: boolean; // Default: false
+  
+  // Per-user limits (optional, default to no limit)
+  max_claims_per_user_per_week?: number | null; // 1-100, across all of the venue's offers
+  visitor_audience?: FlashOfferVisitorAudience; // Default: 'all'
+  min_visit_count?: number | null; // 2-100, returning audience only (default: 2)
 }
 
 /**
@@ -85,6 +107,9 @@ export interface UpdateFlashOfferInput {
   end_time?: string;
   radius_miles?: number;
   target_favorites_only?: boolean;
+  max_claims_per_user_per_week?: number | null;
+  visitor_audience?: FlashOfferVisitorAudience;
+  min_visit_count?: number | null;
   status?: FlashOfferStatus;
 }
 
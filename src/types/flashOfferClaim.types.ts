@@ -79,18 +79,69 @@ export interface ClaimValidationResult {
   message?: string;
 }
 
+/**
+ * Signed QR code payload for redeeming a claim at the venue
+ * Issued by the server and valid for 30 seconds (migration 033)
+ */
+export interface ClaimQrPayload {
+  payload: string; // otw1.<claim_id>.<offer_id>.<expires_epoch>.<nonce>.<signature>
+  expires_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Redemption audit types
+ * Based on claim_redemption_events from migration 034_add_atomic_claim_redemption.sql
+ */
+export type RedemptionAction = 'redeem' | 'reverse';
+
+export type RedemptionOutcome = 'success' | 'failed';
+
+/**
+ * Reasons a redemption or reversal attempt was rejected
+ */
+export type RedemptionFailureReason =
+  | 'claim_not_found' // Claim does not exist
+  | 'not_authorized' // Caller doesn't manage the offer's venue
+  | 'already_redeemed' // Claim was already redeemed
+  | 'expired' // Claim has expired
+  | 'not_redeemed' // Reversal attempted on a claim that isn't redeemed
+  | 'undo_window_passed'; // Reversal attempted more than 10 minutes after redemption
+
+/**
+ * Audit row written for every redemption and reversal attempt
+ */
+export interface ClaimRedemptionEvent {
+  id: string;
+  claim_id: string;
+  offer_id: string | null;
+  venue_id: string | null;
+  staff_user_id: string;
+  action: RedemptionAction;
+  outcome: RedemptionOutcome;
+  failure_reason: RedemptionFailureReason | null;
+  reversal_note: string | null;
+  device_info: string | null;
+  offline_redeemed_at: string | null; // Set when a queued offline redemption was synced (migration 035)
+  created_at: string; // ISO 8601 timestamp
+}
+
 /**
  * Reasons why a user might not be eligible to claim an offer
  */
 export type ClaimIneligibilityReason =
+  | 'offer_not_found' // Offer does not exist
   | 'not_checked_in' // User is not checked into the venue
+  | 'check_in_unverified' // User's check-in failed location verification and the venue requires it
   | 'already_claimed' // User has already claimed this offer
   | 'offer_full' // Offer has reached max_claims limit
   | 'offer_expired' // Offer has passed its end_time
   | 'offer_not_active' // Offer is not in 'active' status
   | 'offer_not_started' // Offer start_time is in the future
-  | 'outside_radius' // User is outside the offer's target radius
+  | 'outside_radius' // User's last known location is outside the offer's radius_miles
   | 'not_favorite' // Offer targets favorites only and user hasn't favorited venue
+  | 'user_claim_limit_reached' // User hit the offer's weekly claim limit for the venue
+  | 'not_first_visit' // Offer is for first-time visitors and user has visited before
+  | 'not_returning_customer' // Offer is for returning customers and user has too few visits
   | 'unknown_error'; // Unexpected error occurred
 
 /**
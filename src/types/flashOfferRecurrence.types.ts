@@ -0,0 +1,97 @@
+// Flash Offer Template and Recurrence Types
+// Based on database schema from migration 028_create_flash_offer_templates_and_recurrences.sql
+
+/**
+ * Saved flash offer template
+ * Holds the offer details copied into each offer created from it
+ */
+export interface FlashOfferTemplate {
+  id: string;
+  venue_id: string;
+  name: string;
+
+  // Offer details
+  title: string;
+  description: string;
+  claim_value: number;
+  max_claims: number;
+  radius_miles: number;
+  target_favorites_only: boolean;
+  duration_minutes: number;
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Input type for saving a template
+ */
+export interface CreateFlashOfferTemplateInput {
+  name: string; // 3-60 characters
+  title: string; // 3-100 characters
+  description: string; // 10-500 characters
+  claim_value: number; // Dollar value in USD (0-10000)
+  max_claims: number; // 1-1000
+  radius_miles?: number; // Default: 1.0
+  target_favorites_only?: boolean; // Default: false
+  duration_minutes: number; // 1-1440
+}
+
+/**
+ * Recurrence frequency
+ * - daily: Every day
+ * - weekly: On the chosen days of the week
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+/**
+ * Recurrence rule that materializes scheduled offers from a template
+ */
+export interface FlashOfferRecurrence {
+  id: string;
+  venue_id: string;
+  template_id: string;
+
+  // Schedule
+  frequency: RecurrenceFrequency;
+  days_of_week: number[] | null; // 0 = Sunday through 6 = Saturday (weekly only)
+  start_time_of_day: string; // HH:MM:SS local time
+  timezone: string; // IANA timezone
+  starts_on: string; // YYYY-MM-DD
+
+  // End condition (exactly one is set)
+  ends_on: string | null; // YYYY-MM-DD
+  occurrence_count: number | null;
+
+  // Materialization state
+  is_active: boolean;
+  occurrences_created: number;
+  materialized_through: string | null; // YYYY-MM-DD
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Recurrence with its template joined
+ */
+export interface FlashOfferRecurrenceWithTemplate extends FlashOfferRecurrence {
+  template: FlashOfferTemplate | null;
+}
+
+/**
+ * Input type for creating a recurrence
+ * Provide either ends_on or occurrence_count
+ */
+export interface CreateFlashOfferRecurrenceInput {
+  template_id: string;
+  frequency: RecurrenceFrequency;
+  days_of_week?: number[];
+  start_time_of_day: string; // HH:MM
+  starts_on: string; // YYYY-MM-DD
+  ends_on?: string | null; // YYYY-MM-DD
+  occurrence_count?: number | null;
+  timezone?: string; // Default: device timezone
+}
@@ -0,0 +1,116 @@
+// Flash Offer Rule Types
+// Based on database schema from migration 027_create_flash_offer_rules.sql
+
+/**
+ * Capacity condition for a rule
+ * - below: Fire when occupancy drops below the threshold (fill a slow period)
+ * - above: Fire when occupancy rises above the threshold
+ */
+export type CapacityCondition = 'below' | 'above';
+
+/**
+ * Rule firing status
+ * - fired: Offer was published
+ * - failed: Publishing failed (the rule is retried on the next evaluation)
+ */
+export type RuleFiringStatus = 'fired' | 'failed';
+
+/**
+ * Automatic flash offer rule matching database schema
+ * The evaluate_flash_offer_rules database job publishes an offer from its template
+ * when the venue's local time is inside the rule's window and occupancy satisfies
+ * the capacity condition
+ */
+export interface FlashOfferRule {
+  id: string;
+  venue_id: string;
+  created_by: string | null;
+  name: string;
+  is_enabled: boolean;
+
+  // Time trigger (venue local time)
+  days_of_week: number[]; // 0 = Sunday through 6 = Saturday
+  window_start: string; // HH:MM:SS
+  window_end: string; // HH:MM:SS
+  timezone: string; // IANA timezone, used when the venue has none set
+
+  // Capacity trigger (null = time trigger only)
+  capacity_condition: CapacityCondition | null;
+  capacity_threshold_percent: number | null; // 1-100
+
+  // Offer template
+  offer_title: string;
+  offer_description: string;
+  claim_value: number;
+  max_claims: number;
+  radius_miles: number;
+  target_favorites_only: boolean;
+  send_push: boolean;
+
+  // Firing limits
+  duration_minutes: number; // 15-720
+  cooldown_minutes: number; // At least duration_minutes
+  last_fired_at: string | null; // ISO 8601 timestamp
+
+  // Timestamps
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Input type for creating a rule
+ */
+export interface CreateFlashOfferRuleInput {
+  name: string; // 3-60 characters
+  days_of_week: number[];
+  window_start: string; // HH:MM
+  window_end: string; // HH:MM
+  timezone?: string; // Default: device timezone
+  capacity_condition?: CapacityCondition | null;
+  capacity_threshold_percent?: number | null;
+  offer_title: string; // 3-100 characters
+  offer_description: string; // 10-500 characters
+  claim_value: number; // Dollar value in USD (0-10000)
+  max_claims: number; // 1-1000
+  radius_miles?: number; // Default: 1.0
+  target_favorites_only?: boolean; // Default: false
+  send_push?: boolean; // Default: true
+  duration_minutes: number;
+  cooldown_minutes: number;
+}
+
+/**
+ * Input type for updating a rule
+ * All fields are optional to allow partial updates
+ */
+export type UpdateFlashOfferRuleInput = Partial<CreateFlashOfferRuleInput> & {
+  is_enabled?: boolean;
+};
+
+/**
+ * Audit record of a rule firing
+ */
+export interface FlashOfferRuleFiring {
+  id: string;
+  rule_id: string;
+  venue_id: string;
+  offer_id: string | null;
+  status: RuleFiringStatus;
+  active_checkins: number;
+  max_capacity: number;
+  occupancy_percent: number;
+  error_message: string | null;
+  fired_at: string; // ISO 8601 timestamp
+  completed_at: string | null; // ISO 8601 timestamp
+}
+
+/**
+ * Rule firing with the rule name joined
+ * Used in the dashboard firing history
+ */
+export interface FlashOfferRuleFiringWithRule extends FlashOfferRuleFiring {
+  rule: {
+    id: string;
+    name: string;
+  } | null;
+}
@@ -23,6 +23,9 @@ export type {
   ProfileInsert,
   ProfileUpdate,
   UserType,
+  AccountDeletionStatus,
+  AccountDeletionRequest,
+  PersonalDataExport,
 } from './user.types';
 
 // Navigation types
@@ -44,6 +47,10 @@ export type {
   CheckInWithVenue,
   CheckInHistoryOptions,
   CheckInHistoryResponse,
+  CheckInVerificationStatus,
+  CheckInVerificationReason,
+  CheckOutReason,
+  CheckInExpiryContext,
 } from './checkin.types';
 
 // Social types
@@ -58,7 +65,7 @@ export type {
   FriendRequest,
   FriendshipStatus,
   
-  // Follow (Post-MVP)
+  // Follow
   Follow,
   FollowRequest,
   FollowStatus,
@@ -86,12 +93,13 @@ export type {
   // Venue Sharing
   VenueShare,
   
-  // Group Outings (Post-MVP)
+  // Group Outings
   GroupOuting,
   GroupOutingCreate,
   GroupOutingUpdate,
   GroupOutingInvite,
   OutingResponse,
+  GroupOutingQueryOptions,
   
   // Notifications
   SocialNotification,
@@ -142,6 +150,7 @@ export type {
   // Flash Offer
   FlashOffer,
   FlashOfferStatus,
+  FlashOfferVisitorAudience,
   CreateFlashOfferInput,
   UpdateFlashOfferInput,
   FlashOfferWithVenue,
@@ -150,6 +159,27 @@ export type {
   ActiveOffersQueryOptions,
 } from './flashOffer.types';
 
+// Flash Offer Template and Recurrence types
+export type {
+  FlashOfferTemplate,
+  CreateFlashOfferTemplateInput,
+  RecurrenceFrequency,
+  FlashOfferRecurrence,
+  FlashOfferRecurrenceWithTemplate,
+  CreateFlashOfferRecurrenceInput,
+} from './flashOfferRecurrence.types';
+
+// Flash Offer Rule types
+export type {
+  FlashOfferRule,
+  FlashOfferRuleFiring,
+  FlashOfferRuleFiringWithRule,
+  CapacityCondition,
+  RuleFiringStatus,
+  CreateFlashOfferRuleInput,
+  UpdateFlashOfferRuleInput,
+} from './flashOfferRule.types';
+
 // Flash Offer Claim types
 export type {
   // Claim
@@ -161,6 +191,7 @@ export type {
   // Validation
   ClaimValidationResult,
   ClaimIneligibilityReason,
+  ClaimQrPayload,
   
   // Input/Output
   ClaimOfferInput,
@@ -169,6 +200,12 @@ export type {
   ClaimByTokenQuery,
   ClaimOfferResponse,
   RedeemClaimResponse,
+
+  // Redemption audit
+  RedemptionAction,
+  RedemptionOutcome,
+  RedemptionFailureReason,
+  ClaimRedemptionEvent,
 } from './flashOfferClaim.types';
 
 // Claim Button types
@@ -189,6 +226,7 @@ export type {
   VenueResponse,
   HelpfulVote,
   ReviewReport,
+  ReviewPhoto,
   
   // Parameters
   SubmitReviewParams,
@@ -217,3 +255,20 @@ export type {
   UserSearchResult,
   SearchState,
 } from './search.types';
+
+// Venue Team types
+export type {
+  VenueRole,
+  VenuePermission,
+  VenueTeamMember,
+} from './venueTeam.types';
+
+// Moderation types
+export type {
+  ModerationContentType,
+  ModerationAction,
+  ModerationHiddenReason,
+  ModerationQueueItem,
+  ResolveModerationItemParams,
+  ModerationResolution,
+} from './moderation.types';
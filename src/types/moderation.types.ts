@@ -0,0 +1,72 @@
+/**
+ * Moderation Types
+ *
+ * Type definitions for the admin moderation queue
+ */
+
+/**
+ * Kind of content that can be reported
+ */
+export type ModerationContentType = 'review' | 'photo' | 'notification';
+
+/**
+ * Decision an admin can make on reported content
+ * - dismiss: the reports are unfounded, restore the content
+ * - remove: keep the content hidden
+ * - warn / suspend: remove the content and warn or suspend its author
+ */
+export type ModerationAction = 'dismiss' | 'remove' | 'warn' | 'suspend';
+
+/**
+ * Why reported content was hidden
+ */
+export type ModerationHiddenReason = 'reports' | 'severe_content' | 'removed';
+
+/**
+ * Reported content with at least one pending report
+ */
+export interface ModerationQueueItem {
+  content_type: ModerationContentType;
+  content_id: string;
+  review_id: string | null; // Review the photo belongs to, or the review itself
+  author_id: string | null;
+  author_name: string | null;
+  venue_id: string | null;
+  venue_name: string | null;
+  content_text: string | null; // Review text, or notification body
+  photo_url: string | null;
+  rating: number | null;
+  is_hidden: boolean;
+  hidden_reason: ModerationHiddenReason | null;
+  report_count: number;
+  reasons: string[];
+  details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+  has_severe_content: boolean; // Set by ContentModerationService on the client
+}
+
+/**
+ * Parameters for resolving reported content
+ */
+export interface ResolveModerationItemParams {
+  contentType: ModerationContentType;
+  contentId: string;
+  action: ModerationAction;
+  notes?: string;
+  suspendDays?: number; // Only used for 'suspend', defaults to 7
+}
+
+/**
+ * Result of resolving reported content
+ */
+export interface ModerationResolution {
+  status: 'resolved' | 'dismissed';
+  resolved_count: number;
+  reporter_ids: string[];
+  author_id: string | null;
+  reporter_message: string;
+  author_title: string | null;
+  author_message: string | null;
+  suspended_until: string | null;
+}
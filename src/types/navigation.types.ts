@@ -24,6 +24,12 @@ export type SettingsStackParamList = {
   ClaimDetail: { claimId: string };
   NotificationSettings: undefined;
   FlashOffersHelp: undefined;
+  GroupOutings: undefined;
+  GroupOutingDetail: { outingId: string };
+  FollowRequests: undefined;
+  ModerationQueue: undefined;
+  DeleteAccount: undefined;
+  VenueApplications: undefined;
 };
 
 // Home stack navigation types
@@ -38,6 +44,7 @@ export type HomeStackParamList = {
     venueName: string;
   };
   ClaimDetail: { claimId: string };
+  GroupOutingDetail: { outingId: string };
 };
 
 
@@ -17,6 +17,23 @@ export interface Review {
   helpful_count: number;
   created_at: string;
   updated_at: string;
+  is_hidden?: boolean; // Hidden by moderation, only visible to the author
+  photos?: ReviewPhoto[]; // Ordered by position
+}
+
+/**
+ * Photo attached to a review
+ */
+export interface ReviewPhoto {
+  id: string;
+  review_id: string;
+  user_id: string;
+  venue_id: string;
+  storage_path: string;
+  photo_url: string;
+  position: number;
+  is_hidden?: boolean; // Hidden by moderation, only visible to the author
+  created_at: string;
 }
 
 /**
@@ -71,6 +88,7 @@ export interface ReviewReport {
   id: string;
   review_id: string;
   reporter_user_id: string;
+  photo_id?: string; // Set when a single photo is reported
   reason: 'spam' | 'offensive' | 'fake' | 'other';
   details?: string;
   status: 'pending' | 'reviewed' | 'resolved' | 'dismissed';
@@ -157,6 +175,7 @@ export interface ReportReviewParams {
   userId: string;
   reason: 'spam' | 'offensive' | 'fake' | 'other';
   details?: string;
+  photoId?: string; // Report one photo instead of the whole review
 }
 
 /**
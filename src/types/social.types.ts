@@ -56,7 +56,7 @@ export type FriendshipStatus =
   | { type: 'friends'; isCloseFriend: boolean };
 
 // ============================================================================
-// Follow Types (Deferred to Post-MVP)
+// Follow Types
 // ============================================================================
 
 /**
@@ -79,6 +79,9 @@ export interface FollowRequest {
   status: 'pending' | 'approved' | 'denied';
   created_at: string;
   updated_at: string;
+
+  // Joined data (computed)
+  follower?: SocialProfile;
 }
 
 /**
@@ -238,7 +241,7 @@ export interface ActivityFeedEntry {
   collection?: Collection;
   group_outing?: GroupOuting;
 
-  // Engagement (computed) - Deferred to Post-MVP
+  // Engagement (computed)
   like_count?: number;
   comment_count?: number;
   user_has_liked?: boolean;
@@ -264,7 +267,7 @@ export interface ActivityFeedResponse {
 }
 
 /**
- * Like on an activity (Deferred to Post-MVP)
+ * Like on an activity
  */
 export interface ActivityLike {
   id: string;
@@ -274,17 +277,22 @@ export interface ActivityLike {
 }
 
 /**
- * Comment on an activity (Deferred to Post-MVP)
+ * Comment on an activity
+ * Replies reference the comment they respond to via parent_comment_id
  */
 export interface ActivityComment {
   id: string;
   activity_id: string;
   user_id: string;
+  parent_comment_id: string | null;
   comment_text: string;
   created_at: string;
 
   // Joined data
   user?: SocialProfile;
+
+  // Threaded replies (computed)
+  replies?: ActivityComment[];
 }
 
 // ============================================================================
@@ -311,7 +319,7 @@ export interface VenueShare {
 }
 
 // ============================================================================
-// Group Outing Types (Deferred to Post-MVP)
+// Group Outing Types
 // ============================================================================
 
 /**
@@ -381,6 +389,13 @@ export interface GroupOutingInvite {
  */
 export type OutingResponse = 'interested' | 'going' | 'cant_go';
 
+/**
+ * Options for querying a user's group outings
+ */
+export interface GroupOutingQueryOptions extends PaginationOptions {
+  includePast?: boolean; // Include outings whose scheduled_date has passed
+}
+
 // ============================================================================
 // Notification Types
 // ============================================================================
@@ -423,7 +438,10 @@ export type NotificationType =
   | 'activity_comment'
   | 'friend_checkin_nearby'
   | 'flash_offer'
-  | 'venue_response';
+  | 'venue_response'
+  | 'venue_campaign'
+  | 'moderation_update'
+  | 'venue_application_update';
 
 // ============================================================================
 // Privacy Settings Types
@@ -7,3 +7,26 @@ export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
 
 // User type enum
 export type UserType = 'customer' | 'venue_owner';
+
+// Account deletion request status
+export type AccountDeletionStatus = 'pending' | 'cancelled' | 'completed' | 'failed';
+
+// Account deletion request (restorable until scheduled_for)
+export interface AccountDeletionRequest {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+// Personal data archive link returned by the export-user-data function
+export interface PersonalDataExport {
+  url: string;
+  fileName: string;
+  expiresAt: string;
+  formatVersion: number;
+  reused: boolean;
+}
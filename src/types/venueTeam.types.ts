@@ -0,0 +1,39 @@
+// Venue Team Types
+// Based on database schema from migration 036_add_venue_staff_roles.sql
+
+/**
+ * Role on a venue's team
+ * - owner: Everything, including billing and managing managers
+ * - manager: Offers, rules, analytics, review replies and staff
+ * - staff: Token lookup and claim redemption only
+ */
+export type VenueRole = 'owner' | 'manager' | 'staff';
+
+/**
+ * Actions gated by venue role
+ */
+export type VenuePermission =
+  | 'redeem_claims'
+  | 'manage_offers'
+  | 'reply_to_reviews'
+  | 'view_analytics'
+  | 'manage_team'
+  | 'manage_billing';
+
+/**
+ * Venue team member with profile details (from get_venue_team)
+ */
+export interface VenueTeamMember {
+  id: string;
+  venue_id: string;
+  user_id: string;
+  role: VenueRole;
+  invited_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+
+  // Profile details
+  username: string | null;
+  display_name: string | null;
+  email: string | null; // Only returned to managers and the owner
+}
@@ -236,6 +236,25 @@ describe('deriveClaimButtonState', () => {
     });
   });
 
+  describe('Targeting rules', () => {
+    it('should return the targeting reason when the server reports one', () => {
+      const offer = createMockOffer();
+      const mutationState: MutationState = { isLoading: false };
+
+      expect(deriveClaimButtonState(offer, null, true, mutationState, 'not_favorite')).toBe('not_favorite');
+      expect(deriveClaimButtonState(offer, null, false, mutationState, 'outside_radius')).toBe('outside_radius');
+    });
+
+    it('should ignore other ineligibility reasons', () => {
+      const offer = createMockOffer();
+      const mutationState: MutationState = { isLoading: false };
+
+      const result = deriveClaimButtonState(offer, null, true, mutationState, 'unknown_error');
+
+      expect(result).toBe('claimable');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle offer with 0 max_claims', () => {
       const offer = createMockOffer({ claimed_count: 0, max_claims: 0 });
@@ -78,6 +78,33 @@ describe('claimErrorHandler', () => {
         expect(result.action).toBe('dismiss');
         expect(result.severity).toBe('warning');
       });
+
+      it('should handle favorites-only offer error', () => {
+        const error = new Error('This offer is only available to customers who have favorited this venue');
+        const result = handleClaimError(error);
+
+        expect(result.type).toBe('eligibility');
+        expect(result.message).toContain('favorited this venue');
+        expect(result.action).toBe('dismiss');
+      });
+
+      it('should handle weekly claim limit error', () => {
+        const error = new Error("You have reached this venue's weekly claim limit");
+        const result = handleClaimError(error);
+
+        expect(result.type).toBe('eligibility');
+        expect(result.message).toContain('weekly claim limit');
+        expect(result.action).toBe('dismiss');
+      });
+
+      it('should handle outside radius error', () => {
+        const error = new Error("You are outside this offer's radius");
+        const result = handleClaimError(error);
+
+        expect(result.type).toBe('eligibility');
+        expect(result.message).toBe("You're too far from the venue to claim this offer");
+        expect(result.action).toBe('dismiss');
+      });
     });
 
     describe('network errors', () => {
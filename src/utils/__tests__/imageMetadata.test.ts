@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for Image Metadata Utility
+ * Feature: review-photos
+ */
+
+import { stripImageMetadata } from '../imageMetadata';
+
+const bytesOf = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+
+const contains = (haystack: Uint8Array, needle: string): boolean => {
+  const target = bytesOf(needle);
+  for (let i = 0; i + target.length <= haystack.length; i++) {
+    if (target.every((value, j) => haystack[i + j] === value)) return true;
+  }
+  return false;
+};
+
+const uint = (value: number, bytes: 2 | 4, littleEndian = false): number[] => {
+  const view = new DataView(new ArrayBuffer(bytes));
+  if (bytes === 2) {
+    view.setUint16(0, value, littleEndian);
+  } else {
+    view.setUint32(0, value, littleEndian);
+  }
+  return Array.from(new Uint8Array(view.buffer));
+};
+
+/**
+ * JPEG segment: marker, big-endian length (including itself), payload
+ */
+const jpegSegment = (marker: number, payload: number[]): number[] =>
+  [0xff, marker, ...uint(payload.length + 2, 2), ...payload];
+
+/**
+ * Little-endian EXIF payload with an orientation tag followed by a fake
+ * GPS IFD pointer and a location string
+ */
+const exifPayload = (orientation: number): number[] => [
+  ...bytesOf('Exif\0\0'),
+  ...bytesOf('II'), 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+  0x02, 0x00,
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, orientation, 0x00, 0x00, 0x00,
+  0x25, 0x88, 0x04, 0x00, 0x01, 0x00, 0x00, 0x00, 0x26, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+  ...bytesOf('GPS 41.8781N 87.6298W'),
+];
+
+const jpeg = (orientation: number): Uint8Array => new Uint8Array([
+  0xff, 0xd8,
+  ...jpegSegment(0xe0, bytesOf('JFIF\0')),
+  ...jpegSegment(0xe1, exifPayload(orientation)),
+  ...jpegSegment(0xe1, bytesOf('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>Chicago</x:xmpmeta>')),
+  ...jpegSegment(0xdb, [0x00, 0x01, 0x02]),
+  ...jpegSegment(0xda, [0x01, 0x02]),
+  0x11, 0x22, 0x33,
+  0xff, 0xd9,
+]);
+
+const pngChunk = (type: string, data: number[]): number[] => [
+  ...uint(data.length, 4),
+  ...bytesOf(type),
+  ...data,
+  0x00, 0x00, 0x00, 0x00, // CRC is not checked
+];
+
+const webpChunk = (fourCC: string, data: number[]): number[] => [
+  ...bytesOf(fourCC),
+  ...uint(data.length, 4, true),
+  ...data,
+  ...(data.length % 2 ? [0x00] : []),
+];
+
+describe('stripImageMetadata', () => {
+  describe('JPEG', () => {
+    it('removes EXIF and XMP segments', () => {
+      const result = stripImageMetadata(jpeg(1), 'image/jpeg');
+
+      expect(contains(result, 'GPS')).toBe(false);
+      expect(contains(result, 'xmpmeta')).toBe(false);
+      expect(contains(result, 'Exif')).toBe(false);
+    });
+
+    it('keeps the other segments and the image data unchanged', () => {
+      const original = jpeg(1);
+      const result = stripImageMetadata(original, 'image/jpeg');
+
+      expect(Array.from(result.subarray(0, 2))).toEqual([0xff, 0xd8]);
+      expect(contains(result, 'JFIF')).toBe(true);
+      expect(Array.from(result.subarray(result.length - 17))).toEqual(
+        Array.from(original.subarray(original.length - 17))
+      );
+    });
+
+    it('keeps a non-default orientation in a minimal EXIF segment', () => {
+      const result = stripImageMetadata(jpeg(6), 'image/jpg');
+
+      expect(contains(result, 'GPS')).toBe(false);
+      // SOI, then APP1 holding only the orientation tag
+      expect(Array.from(result.subarray(2, 4))).toEqual([0xff, 0xe1]);
+      expect(Array.from(result.subarray(4, 6))).toEqual([0x00, 0x22]);
+      expect(Array.from(result.subarray(22, 26))).toEqual([0x01, 0x12, 0x00, 0x03]);
+      expect(Array.from(result.subarray(30, 32))).toEqual([0x00, 0x06]);
+    });
+  });
+
+  describe('PNG', () => {
+    it('removes EXIF and text chunks', () => {
+      const png = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+        ...pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+        ...pngChunk('eXIf', bytesOf('GPS 41.8781N')),
+        ...pngChunk('iTXt', bytesOf('XML:com.adobe.xmp\0<x:xmpmeta/>')),
+        ...pngChunk('IDAT', [0x78, 0x9c]),
+        ...pngChunk('IEND', []),
+      ]);
+
+      const result = stripImageMetadata(png, 'image/png');
+
+      expect(contains(result, 'GPS')).toBe(false);
+      expect(contains(result, 'xmpmeta')).toBe(false);
+      expect(contains(result, 'IHDR')).toBe(true);
+      expect(contains(result, 'IDAT')).toBe(true);
+      expect(contains(result, 'IEND')).toBe(true);
+    });
+  });
+
+  describe('WebP', () => {
+    it('removes EXIF and XMP chunks and updates the header', () => {
+      const body = [
+        ...bytesOf('WEBP'),
+        ...webpChunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+        ...webpChunk('VP8 ', [0x01, 0x02, 0x03, 0x04]),
+        ...webpChunk('EXIF', bytesOf('GPS 41.8781N')),
+        ...webpChunk('XMP ', bytesOf('<x:xmpmeta/>')),
+      ];
+      const webp = new Uint8Array([
+        ...bytesOf('RIFF'),
+        ...uint(body.length, 4, true),
+        ...body,
+      ]);
+
+      const result = stripImageMetadata(webp, 'image/webp');
+      const view = new DataView(result.buffer);
+
+      expect(contains(result, 'GPS')).toBe(false);
+      expect(contains(result, 'xmpmeta')).toBe(false);
+      expect(contains(result, 'VP8 ')).toBe(true);
+      expect(view.getUint32(4, true)).toBe(result.length - 8);
+      expect(result[20]).toBe(0x00);
+    });
+  });
+
+  it('returns other formats unchanged', () => {
+    const gif = new Uint8Array(bytesOf('GIF89a'));
+
+    expect(stripImageMetadata(gif, 'image/gif')).toBe(gif);
+  });
+
+  it('returns data that is not a valid image unchanged', () => {
+    const notJpeg = new Uint8Array([0x00, 0x01, 0x02, 0x03]);
+
+    expect(stripImageMetadata(notJpeg, 'image/jpeg')).toBe(notJpeg);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for venue hours utilities
+ */
+
+import { isVenueOpenAt, parseVenueHoursRange } from '../venue/venueHours';
+
+describe('venueHours', () => {
+  describe('parseVenueHoursRange', () => {
+    it('should convert 12-hour times to minutes after midnight', () => {
+      expect(parseVenueHoursRange('11:00 AM - 10:30 PM')).toEqual({ open: 660, close: 1350 });
+      expect(parseVenueHoursRange('12:00 PM - 12:00 AM')).toEqual({ open: 720, close: 0 });
+    });
+
+    it('should return null for unrecognized entries', () => {
+      expect(parseVenueHoursRange('Closed')).toBeNull();
+      expect(parseVenueHoursRange(undefined)).toBeNull();
+    });
+  });
+
+  describe('isVenueOpenAt', () => {
+    // Friday Jan 16 2026
+    const friday = (hour: number, minute = 0) => new Date(2026, 0, 16, hour, minute);
+
+    it('should compare against the current day hours', () => {
+      const hours = { friday: '11:00 AM - 10:00 PM' };
+
+      expect(isVenueOpenAt(hours, friday(12))).toBe(true);
+      expect(isVenueOpenAt(hours, friday(22))).toBe(false);
+      expect(isVenueOpenAt(hours, friday(9))).toBe(false);
+    });
+
+    it('should handle overnight hours from the previous day', () => {
+      const hours = { thursday: '8:00 PM - 2:00 AM', friday: '8:00 PM - 2:00 AM' };
+
+      expect(isVenueOpenAt(hours, friday(1, 30))).toBe(true);
+      expect(isVenueOpenAt(hours, friday(3))).toBe(false);
+      expect(isVenueOpenAt(hours, friday(23))).toBe(true);
+    });
+
+    it('should handle Closed and 24 Hours entries', () => {
+      expect(isVenueOpenAt({ friday: 'Closed' }, friday(12))).toBe(false);
+      expect(isVenueOpenAt({ friday: '24 Hours' }, friday(3))).toBe(true);
+    });
+
+    it('should return null when hours are unknown', () => {
+      expect(isVenueOpenAt(null, friday(12))).toBeNull();
+      expect(isVenueOpenAt({ monday: '9:00 AM - 5:00 PM' }, friday(12))).toBeNull();
+      expect(isVenueOpenAt({ friday: 'Varies' }, friday(12))).toBeNull();
+    });
+  });
+});
@@ -13,6 +13,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { FlashOffer } from '../../services/api/flashOffers';
 import type { FlashOfferClaim } from '../../services/api/flashOfferClaims';
+import type { RedemptionFailureReason } from '../../types/flashOfferClaim.types';
 
 const CACHE_KEYS = {
   ACTIVE_OFFERS: '@flash_offers:active_offers',
@@ -22,6 +23,9 @@ const CACHE_KEYS = {
   OFFER_DETAILS: '@flash_offers:offer_details:', // Prefix for individual offers
   SAME_DAY_OFFERS: '@flash_offers:same_day_', // Prefix for same-day offers with date
   CACHE_METADATA: '@flash_offers:cache_metadata',
+  VENUE_CLAIMS: '@flash_offers:venue_claims:', // Prefix for a venue's redeemable claims snapshot
+  PENDING_REDEMPTIONS: '@flash_offers:pending_redemptions',
+  REDEMPTION_CONFLICTS: '@flash_offers:redemption_conflicts',
 };
 
 // Cache configuration
@@ -30,6 +34,7 @@ const CACHE_CONFIG = {
   USER_CLAIMS_TTL: 10 * 60 * 1000, // 10 minutes
   OFFER_DETAILS_TTL: 3 * 60 * 1000, // 3 minutes
   SAME_DAY_OFFERS_TTL: 2 * 60 * 1000, // 2 minutes (reduced for faster updates)
+  VENUE_CLAIMS_TTL: 12 * 60 * 60 * 1000, // 12 hours (claims carry their own expires_at)
   MAX_OFFER_DETAILS_CACHE: 50, // Maximum number of cached offer details
   MAX_CACHE_SIZE_MB: 10, // Maximum total cache size in MB
 };
@@ -47,6 +52,33 @@ export interface PendingClaim {
   timestamp: number;
 }
 
+/**
+ * Redemption made by venue staff while offline (to be synced when online)
+ */
+export interface PendingRedemption {
+  claimId: string;
+  venueId: string;
+  token: string;
+  staffUserId: string;
+  redeemedAt: string; // ISO 8601 timestamp of the offline redemption
+  attempts?: number; // Sync attempts the server rejected with an error
+  lastError?: string; // Error from the most recent failed attempt
+}
+
+/**
+ * Queued redemption the server rejected during sync
+ * sync_failed means the request kept erroring and the sync gave up on it
+ */
+export interface RedemptionConflict {
+  claimId: string;
+  venueId: string;
+  token: string;
+  reason: RedemptionFailureReason | 'sync_failed';
+  error?: string; // Last error for sync_failed conflicts
+  redeemedAt: string; // When staff redeemed it offline
+  detectedAt: string; // When the sync found the conflict
+}
+
 export interface CacheMetadata {
   totalSize: number;
   itemCount: number;
@@ -349,7 +381,13 @@ export class FlashOfferCache {
       
       for (const key of flashOfferKeys) {
         // Skip metadata and pending claims
-        if (key === CACHE_KEYS.CACHE_METADATA || key === CACHE_KEYS.PENDING_CLAIMS || key === CACHE_KEYS.LAST_SYNC) {
+        if (
+          key === CACHE_KEYS.CACHE_METADATA ||
+          key === CACHE_KEYS.PENDING_CLAIMS ||
+          key === CACHE_KEYS.PENDING_REDEMPTIONS ||
+          key === CACHE_KEYS.REDEMPTION_CONFLICTS ||
+          key === CACHE_KEYS.LAST_SYNC
+        ) {
           continue;
         }
 
@@ -366,6 +404,8 @@ export class FlashOfferCache {
             ttl = CACHE_CONFIG.ACTIVE_OFFERS_TTL;
           } else if (key === CACHE_KEYS.USER_CLAIMS) {
             ttl = CACHE_CONFIG.USER_CLAIMS_TTL;
+          } else if (key.startsWith(CACHE_KEYS.VENUE_CLAIMS)) {
+            ttl = CACHE_CONFIG.VENUE_CLAIMS_TTL;
           } else if (key.startsWith(CACHE_KEYS.SAME_DAY_OFFERS)) {
             ttl = CACHE_CONFIG.SAME_DAY_OFFERS_TTL;
             // Also check date validity for same-day offers
@@ -456,6 +496,185 @@ export class FlashOfferCache {
     }
   }
 
+  /**
+   * Cache a venue's redeemable claims so staff can validate tokens offline
+   */
+  static async cacheVenueClaims(venueId: string, claims: FlashOfferClaim[]): Promise<void> {
+    try {
+      const cached: CachedData<FlashOfferClaim[]> = {
+        data: claims,
+        timestamp: Date.now(),
+        accessCount: 1,
+        lastAccessed: Date.now(),
+      };
+      await AsyncStorage.setItem(`${CACHE_KEYS.VENUE_CLAIMS}${venueId}`, JSON.stringify(cached));
+      await this.updateCacheMetadata();
+    } catch (error) {
+      console.error('Error caching venue claims:', error);
+    }
+  }
+
+  /**
+   * Get a venue's cached claims snapshot with TTL check
+   * Returns the snapshot's age so callers can tell staff how fresh it is
+   */
+  static async getCachedVenueClaims(
+    venueId: string
+  ): Promise<{ claims: FlashOfferClaim[]; timestamp: number } | null> {
+    const key = `${CACHE_KEYS.VENUE_CLAIMS}${venueId}`;
+
+    try {
+      const cached = await AsyncStorage.getItem(key);
+      if (!cached) return null;
+
+      let parsed: CachedData<FlashOfferClaim[]>;
+
+      try {
+        parsed = JSON.parse(cached);
+      } catch (parseError) {
+        console.warn('⚠️ Corrupted venue claims cache detected, removing...', parseError);
+        await AsyncStorage.removeItem(key);
+        return null;
+      }
+
+      if (!Array.isArray(parsed.data) || typeof parsed.timestamp !== 'number') {
+        console.warn('⚠️ Invalid venue claims cache structure detected, removing...');
+        await AsyncStorage.removeItem(key);
+        return null;
+      }
+
+      if (Date.now() - parsed.timestamp > CACHE_CONFIG.VENUE_CLAIMS_TTL) {
+        console.log('🗑️ Venue claims cache expired, removing...');
+        await AsyncStorage.removeItem(key);
+        return null;
+      }
+
+      return { claims: parsed.data, timestamp: parsed.timestamp };
+    } catch (error) {
+      console.error('Error getting cached venue claims:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a redemption made while offline (to be synced when online)
+   * Ignores a second redemption of the same claim
+   */
+  static async addPendingRedemption(redemption: PendingRedemption): Promise<void> {
+    try {
+      const pending = await this.getPendingRedemptions();
+      if (pending.some(item => item.claimId === redemption.claimId)) {
+        return;
+      }
+
+      pending.push(redemption);
+      await AsyncStorage.setItem(CACHE_KEYS.PENDING_REDEMPTIONS, JSON.stringify(pending));
+    } catch (error) {
+      console.error('Error adding pending redemption:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all pending redemptions, oldest first
+   */
+  static async getPendingRedemptions(): Promise<PendingRedemption[]> {
+    try {
+      const cached = await AsyncStorage.getItem(CACHE_KEYS.PENDING_REDEMPTIONS);
+      if (!cached) return [];
+      return JSON.parse(cached);
+    } catch (error) {
+      console.error('Error getting pending redemptions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a pending redemption once it has been synced or rejected
+   */
+  static async removePendingRedemption(claimId: string): Promise<void> {
+    try {
+      const pending = await this.getPendingRedemptions();
+      const filtered = pending.filter(item => item.claimId !== claimId);
+      await AsyncStorage.setItem(CACHE_KEYS.PENDING_REDEMPTIONS, JSON.stringify(filtered));
+    } catch (error) {
+      console.error('Error removing pending redemption:', error);
+    }
+  }
+
+  /**
+   * Record a failed sync attempt on a pending redemption
+   * @returns The redemption's attempt count including this one
+   */
+  static async recordPendingRedemptionFailure(claimId: string, error: string): Promise<number> {
+    try {
+      const pending = await this.getPendingRedemptions();
+      let attempts = 1;
+      const updated = pending.map(item => {
+        if (item.claimId !== claimId) return item;
+        attempts = (item.attempts ?? 0) + 1;
+        return { ...item, attempts, lastError: error };
+      });
+      await AsyncStorage.setItem(CACHE_KEYS.PENDING_REDEMPTIONS, JSON.stringify(updated));
+      return attempts;
+    } catch (cacheError) {
+      console.error('Error recording pending redemption failure:', cacheError);
+      return 1;
+    }
+  }
+
+  /**
+   * Record redemptions the server rejected during sync
+   */
+  static async addRedemptionConflicts(conflicts: RedemptionConflict[]): Promise<void> {
+    if (conflicts.length === 0) return;
+
+    try {
+      const existing = await this.getRedemptionConflicts();
+      await AsyncStorage.setItem(
+        CACHE_KEYS.REDEMPTION_CONFLICTS,
+        JSON.stringify([...existing, ...conflicts])
+      );
+    } catch (error) {
+      console.error('Error adding redemption conflicts:', error);
+    }
+  }
+
+  /**
+   * Get redemption conflicts that staff haven't dismissed
+   */
+  static async getRedemptionConflicts(): Promise<RedemptionConflict[]> {
+    try {
+      const cached = await AsyncStorage.getItem(CACHE_KEYS.REDEMPTION_CONFLICTS);
+      if (!cached) return [];
+      return JSON.parse(cached);
+    } catch (error) {
+      console.error('Error getting redemption conflicts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clear redemption conflicts once staff have seen them
+   * Only clears the given venue's conflicts when venueId is passed
+   */
+  static async clearRedemptionConflicts(venueId?: string): Promise<void> {
+    try {
+      if (!venueId) {
+        await AsyncStorage.removeItem(CACHE_KEYS.REDEMPTION_CONFLICTS);
+        return;
+      }
+
+      const conflicts = await this.getRedemptionConflicts();
+      await AsyncStorage.setItem(
+        CACHE_KEYS.REDEMPTION_CONFLICTS,
+        JSON.stringify(conflicts.filter(conflict => conflict.venueId !== venueId))
+      );
+    } catch (error) {
+      console.error('Error clearing redemption conflicts:', error);
+    }
+  }
+
   /**
    * Update last sync timestamp
    */
@@ -2,7 +2,7 @@
 // Logic for determining claim button state based on offer, claim, and user status
 
 import type { FlashOffer } from '../types/flashOffer.types';
-import type { FlashOfferClaim } from '../types/flashOfferClaim.types';
+import type { FlashOfferClaim, ClaimIneligibilityReason } from '../types/flashOfferClaim.types';
 import type { ClaimButtonState, MutationState } from '../types/claimButton.types';
 
 /**
@@ -13,13 +13,15 @@ import type { ClaimButtonState, MutationState } from '../types/claimButton.types
  * 2. claimed - User has already claimed this offer (permanent state)
  * 3. expired - Offer has expired or been cancelled (terminal state - takes precedence over check-in)
  * 4. full - Offer has reached capacity (terminal state - takes precedence over check-in)
- * 5. not_checked_in - User must check in before claiming (actionable, only if offer is still active)
- * 6. claimable - User is eligible to claim (default eligible state)
+ * 5. not_favorite / outside_radius - Offer targeting excludes the user (reported by the server)
+ * 6. not_checked_in - User must check in before claiming (actionable, only if offer is still active)
+ * 7. claimable - User is eligible to claim (default eligible state)
  * 
  * @param offer - The flash offer to evaluate
  * @param userClaim - The user's claim for this offer (null if not claimed)
  * @param isCheckedIn - Whether the user is checked in at the venue
  * @param mutationState - The current state of the claim mutation
+ * @param ineligibilityReason - Reason from the last eligibility check or failed claim, if any
  * @returns The appropriate claim button state
  * 
  * @example
@@ -41,7 +43,8 @@ export function deriveClaimButtonState(
   offer: FlashOffer,
   userClaim: FlashOfferClaim | null,
   isCheckedIn: boolean,
-  mutationState: MutationState
+  mutationState: MutationState,
+  ineligibilityReason?: ClaimIneligibilityReason | null
 ): ClaimButtonState {
   // Priority 1: Loading state (mutation in progress)
   if (mutationState.isLoading) {
@@ -66,13 +69,19 @@ export function deriveClaimButtonState(
     return 'full';
   }
 
-  // Priority 5: Not checked in (user must check in first)
+  // Priority 5: Targeting rules (favorites-only or radius)
+  // Checking in doesn't help here, so these take precedence over check-in status
+  if (ineligibilityReason === 'not_favorite' || ineligibilityReason === 'outside_radius') {
+    return ineligibilityReason;
+  }
+
+  // Priority 6: Not checked in (user must check in first)
   // Only relevant if offer is still active and available
   if (!isCheckedIn) {
     return 'not_checked_in';
   }
 
-  // Priority 6: Claimable (default eligible state)
+  // Priority 7: Claimable (default eligible state)
   // User is checked in, hasn't claimed (or claim not yet redeemed), and offer is available
   return 'claimable';
 }
@@ -54,6 +54,12 @@ export interface ClaimErrorResponse {
  * Order matters - more specific patterns should come first
  */
 const ELIGIBILITY_ERROR_PATTERNS: Array<{ pattern: string; message: string; key: string }> = [
+  { pattern: 'favorited this venue', message: 'This offer is only for customers who have favorited this venue. Add it to your favorites to claim', key: 'not_favorite' },
+  { pattern: "offer's radius", message: "You're too far from the venue to claim this offer", key: 'outside_radius' },
+  { pattern: 'weekly claim limit', message: "You've reached this venue's weekly claim limit. Check back next week!", key: 'user_claim_limit_reached' },
+  { pattern: 'first-time visitors', message: 'This offer is only for first-time visitors', key: 'not_first_visit' },
+  { pattern: 'returning customers', message: 'This offer is only for returning customers. Keep visiting to unlock offers like this', key: 'not_returning_customer' },
+  { pattern: 'could not be verified', message: "We couldn't verify you're at the venue. Check in again from inside to claim this offer", key: 'check_in_unverified' },
   { pattern: 'checked in', message: 'You must check in at the venue to claim this offer', key: 'not_checked_in' },
   { pattern: 'already claimed', message: "You've already claimed this offer. View your claim in My Claims.", key: 'already_claimed' },
   { pattern: 'not currently active', message: 'This offer is not currently available', key: 'not_active' },
@@ -132,8 +138,8 @@ export function handleClaimError(error: any): ClaimErrorResponse {
   // 4. Check for other eligibility errors (order matters - more specific first)
   for (const { pattern, message, key } of ELIGIBILITY_ERROR_PATTERNS) {
     if (errorMessage.includes(pattern)) {
-      // Special case: not checked in should navigate to check-in
-      if (key === 'not_checked_in') {
+      // Special case: not checked in (or unverified) should navigate to check-in
+      if (key === 'not_checked_in' || key === 'check_in_unverified') {
         return {
           type: 'eligibility',
           message,
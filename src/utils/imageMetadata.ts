@@ -0,0 +1,204 @@
+/**
+ * Image Metadata Utility
+ *
+ * Removes embedded metadata (EXIF, XMP, text chunks) from image bytes before
+ * they are uploaded, so photos never carry the GPS location, device details
+ * or capture time recorded by the camera. Pixel data is left untouched.
+ *
+ * Supports JPEG, PNG and WebP. GIF has no standard location metadata and is
+ * returned as-is.
+ */
+
+const JPEG_SOI = 0xd8;
+const JPEG_SOS = 0xda;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP13 = 0xed; // Photoshop IPTC, which can include a location
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Chunks that can carry EXIF or free-form text (XMP lives in iTXt)
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'iTXt', 'zTXt']);
+
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_VP8X_EXIF_FLAG = 0x08;
+const WEBP_VP8X_XMP_FLAG = 0x04;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+/**
+ * Read the EXIF orientation (1-8) from an APP1 segment payload, or null if
+ * it isn't present
+ */
+const readJpegOrientation = (segment: Uint8Array): number | null => {
+  // Payload: "Exif\0\0" followed by a TIFF header
+  if (segment.length < 14 || ascii(segment, 0, 6) !== 'Exif\0\0') return null;
+
+  const tiff = segment.subarray(6);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = ascii(tiff, 0, 2) === 'II';
+  if (!littleEndian && ascii(tiff, 0, 2) !== 'MM') return null;
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) return null;
+
+  const entries = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, littleEndian);
+      return orientation >= 1 && orientation <= 8 ? orientation : null;
+    }
+  }
+  return null;
+};
+
+/**
+ * A minimal APP1 segment holding only the orientation tag, so photos taken
+ * sideways still display upright
+ */
+const buildOrientationSegment = (orientation: number): Uint8Array => {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  segment.set([0xff, JPEG_APP1], 0);
+  view.setUint16(2, segment.length - 2); // Length excludes the marker
+  segment.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00], 4); // "Exif\0\0"
+  // Big-endian TIFF header with the first IFD right after it
+  segment.set([0x4d, 0x4d, 0x00, 0x2a], 10);
+  view.setUint32(14, 8);
+  view.setUint16(18, 1); // One entry
+  view.setUint16(20, EXIF_ORIENTATION_TAG);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1); // Count
+  view.setUint16(28, orientation);
+  view.setUint32(32, 0); // No next IFD
+  return segment;
+};
+
+const stripJpeg = (bytes: Uint8Array): Uint8Array => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== JPEG_SOI) return bytes;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation: number | null = null;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+
+    // Entropy-coded image data follows start-of-scan; copy the rest as-is
+    if (marker === JPEG_SOS) break;
+
+    const length = view.getUint16(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    if (marker === JPEG_APP1) {
+      // EXIF and XMP both live in APP1; keep only the orientation
+      orientation = orientation ?? readJpegOrientation(bytes.subarray(offset + 4, end));
+    } else if (marker !== JPEG_APP13) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (orientation !== null && orientation !== 1) {
+    parts.splice(1, 0, buildOrientationSegment(orientation));
+  }
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+};
+
+const stripPng = (bytes: Uint8Array): Uint8Array => {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) return bytes;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  // Each chunk: length (4) + type (4) + data + CRC (4)
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) break;
+
+    if (!PNG_METADATA_CHUNKS.has(ascii(bytes, offset + 4, 4))) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+};
+
+const stripWebp = (bytes: Uint8Array): Uint8Array => {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') {
+    return bytes;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+
+  // Each chunk: FourCC (4) + size (4) + data, padded to an even length
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length);
+    const fourCC = ascii(bytes, offset, 4);
+
+    if (fourCC === 'VP8X') {
+      // Clear the "has EXIF" and "has XMP" feature flags
+      const chunk = bytes.slice(offset, end);
+      // eslint-disable-next-line no-bitwise
+      chunk[8] &= ~(WEBP_VP8X_EXIF_FLAG | WEBP_VP8X_XMP_FLAG);
+      parts.push(chunk);
+    } else if (!WEBP_METADATA_CHUNKS.has(fourCC)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const body = concat(parts);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+};
+
+/**
+ * Remove location and other embedded metadata from an image
+ *
+ * @param bytes - Encoded image file
+ * @param mimeType - Image MIME type, e.g. "image/jpeg"
+ * @returns Image bytes without metadata; unsupported formats are returned unchanged
+ *
+ * @example
+ * ```typescript
+ * const clean = stripImageMetadata(new Uint8Array(await response.arrayBuffer()), 'image/jpeg');
+ * ```
+ */
+export function stripImageMetadata(bytes: Uint8Array, mimeType: string): Uint8Array {
+  switch (mimeType.toLowerCase()) {
+    case 'image/jpeg':
+    case 'image/jpg':
+      return stripJpeg(bytes);
+    case 'image/png':
+      return stripPng(bytes);
+    case 'image/webp':
+      return stripWebp(bytes);
+    default:
+      return bytes;
+  }
+}
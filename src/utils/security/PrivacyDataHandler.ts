@@ -22,13 +22,51 @@ export enum PrivacyDataType {
 
 /**
  * Data retention periods (in days)
+ * The daily enforce_data_retention database job applies the device token,
+ * notification log and user data periods - keep them in sync.
  */
 const RETENTION_PERIODS = {
   DEVICE_TOKENS: 30, // Inactive tokens deleted after 30 days
   NOTIFICATION_LOGS: 90, // Notification audit logs kept for 90 days
   USER_DATA: 365, // User data kept for 1 year after account deletion
+  ACCOUNT_DELETION_GRACE: 30, // Deleted accounts can be restored for 30 days
 };
 
+/**
+ * What happens to a category of user data when the account is deleted
+ * - delete: removed entirely
+ * - anonymize: kept for venue analytics with the user replaced by a
+ *   random pseudonym and any free text removed
+ */
+export type AccountDataDisposition = 'delete' | 'anonymize';
+
+/**
+ * Account deletion rule for one category of user data
+ */
+export interface AccountDeletionRule {
+  category: string;
+  label: string;
+  disposition: AccountDataDisposition;
+}
+
+/**
+ * Account deletion rules. The purge_user_account database function applies
+ * the same rules - keep them in sync.
+ */
+const ACCOUNT_DELETION_RULES: AccountDeletionRule[] = [
+  { category: 'profile', label: 'Profile, photo and privacy settings', disposition: 'delete' },
+  { category: 'check_ins', label: 'Check-in history', disposition: 'anonymize' },
+  { category: 'flash_offer_claims', label: 'Flash offer claims', disposition: 'anonymize' },
+  { category: 'reviews', label: 'Review ratings (text and photos are deleted)', disposition: 'anonymize' },
+  { category: 'review_photos', label: 'Review photos', disposition: 'delete' },
+  { category: 'favorites', label: 'Favorites', disposition: 'delete' },
+  { category: 'collections', label: 'Collections', disposition: 'delete' },
+  { category: 'venue_shares', label: 'Venue shares', disposition: 'delete' },
+  { category: 'social', label: 'Friends, followers, activity and group outings', disposition: 'delete' },
+  { category: 'device_tokens', label: 'Registered devices', disposition: 'delete' },
+  { category: 'social_notifications', label: 'Notifications', disposition: 'delete' },
+];
+
 /**
  * Anonymization options
  */
@@ -124,11 +162,29 @@ export class PrivacyDataHandler {
       case 'user_data':
         return RETENTION_PERIODS.USER_DATA;
       
+      case 'account_deletion_grace':
+        return RETENTION_PERIODS.ACCOUNT_DELETION_GRACE;
+      
       default:
         return 365; // Default to 1 year
     }
   }
 
+  /**
+   * Get what happens to each category of user data on account deletion
+   * 
+   * Check-ins, claims and review ratings feed venue analytics, so they are
+   * kept under a random pseudonym; everything else is deleted.
+   * 
+   * @param disposition - Only return rules with this disposition
+   * @returns Account deletion rules
+   */
+  static getAccountDeletionRules(disposition?: AccountDataDisposition): AccountDeletionRule[] {
+    return disposition
+      ? ACCOUNT_DELETION_RULES.filter((rule) => rule.disposition === disposition)
+      : [...ACCOUNT_DELETION_RULES];
+  }
+
   /**
    * Prepare user data for export (GDPR right to data portability)
    * 
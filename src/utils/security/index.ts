@@ -9,3 +9,4 @@
 export { PayloadValidator, ValidationResult } from './PayloadValidator';
 export { TokenEncryption } from './TokenEncryption';
 export { PrivacyDataHandler, PrivacyDataType, AnonymizationOptions } from './PrivacyDataHandler';
+export type { AccountDataDisposition, AccountDeletionRule } from './PrivacyDataHandler';
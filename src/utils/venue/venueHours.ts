@@ -0,0 +1,88 @@
+/**
+ * Venue Hours Utilities
+ *
+ * Interprets venue hours entries such as "11:00 AM - 10:00 PM". Mirrors the
+ * is_venue_open_at() database function used by the automatic check-out job.
+ */
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const HOURS_RANGE_PATTERN = /(\d{1,2}):(\d{2})\s*(AM|PM)\s*-\s*(\d{1,2}):(\d{2})\s*(AM|PM)/i;
+
+/**
+ * Convert a 12-hour clock time to minutes after midnight
+ */
+function toMinutes(hour: string, minute: string, period: string): number {
+  const hours = parseInt(hour, 10) % 12 + (period.toUpperCase() === 'PM' ? 12 : 0);
+  return hours * 60 + parseInt(minute, 10);
+}
+
+/**
+ * Parse an hours entry into open and close times
+ *
+ * @param hoursText - Entry such as "11:00 AM - 10:00 PM"
+ * @returns Minutes after midnight for open and close, or null if unparseable
+ */
+export function parseVenueHoursRange(
+  hoursText: string | undefined
+): { open: number; close: number } | null {
+  const match = hoursText?.match(HOURS_RANGE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, openHour, openMin, openPeriod, closeHour, closeMin, closePeriod] = match;
+  return {
+    open: toMinutes(openHour, openMin, openPeriod),
+    close: toMinutes(closeHour, closeMin, closePeriod),
+  };
+}
+
+/**
+ * Check whether a venue is open at a given time
+ * Handles overnight hours (e.g. "10:00 PM - 2:00 AM") by also checking the
+ * previous day's entry.
+ *
+ * @param hours - Venue hours keyed by lowercase day name
+ * @param date - Local time to check
+ * @returns true if open, false if closed, null if the hours can't be interpreted
+ */
+export function isVenueOpenAt(
+  hours: Record<string, string> | null | undefined,
+  date: Date
+): boolean | null {
+  if (!hours) {
+    return null;
+  }
+
+  const day = date.getDay();
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  // Still inside the previous day's overnight hours
+  const previous = parseVenueHoursRange(hours[DAY_NAMES[(day + 6) % 7]]);
+  if (previous && previous.close < previous.open && minutes < previous.close) {
+    return true;
+  }
+
+  const today = hours[DAY_NAMES[day]];
+  if (!today) {
+    return null;
+  }
+  if (today.toLowerCase() === 'closed') {
+    return false;
+  }
+  if (today.toLowerCase() === '24 hours') {
+    return true;
+  }
+
+  const range = parseVenueHoursRange(today);
+  if (!range) {
+    return null;
+  }
+
+  if (range.close < range.open) {
+    return minutes >= range.open;
+  }
+
+  return minutes >= range.open && minutes < range.close;
+}
@@ -12,8 +12,12 @@ echo "🚀 Deploying Edge Functions to $ENVIRONMENT..."
 if [ "$ENVIRONMENT" = "local" ]; then
   echo "📦 Deploying to local Supabase..."
   supabase functions deploy send-flash-offer-push --no-verify-jwt
+  supabase functions deploy send-venue-campaign-push --no-verify-jwt
+  supabase functions deploy export-user-data --no-verify-jwt
   echo "✅ Local deployment complete!"
-  echo "📍 Function available at: http://localhost:54321/functions/v1/send-flash-offer-push"
+  echo "📍 Functions available at: http://localhost:54321/functions/v1/send-flash-offer-push"
+  echo "                           http://localhost:54321/functions/v1/send-venue-campaign-push"
+  echo "                           http://localhost:54321/functions/v1/export-user-data"
 elif [ "$ENVIRONMENT" = "production" ]; then
   echo "🔐 Checking secrets..."
   
@@ -41,6 +45,8 @@ elif [ "$ENVIRONMENT" = "production" ]; then
   echo "✅ All secrets configured"
   echo "📦 Deploying to production..."
   supabase functions deploy send-flash-offer-push
+  supabase functions deploy send-venue-campaign-push
+  supabase functions deploy export-user-data
   echo "✅ Production deployment complete!"
   echo "📍 Function available at your Supabase project URL"
 else
@@ -0,0 +1,68 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildArchiveFiles, csvField, getArchiveFileName, toCSV } from './archive.ts';
+import type { UserDataExport } from './types.ts';
+
+/**
+ * Unit Tests for Personal Data Archive Builder
+ *
+ * - Test that CSV fields are quoted and nested values are written as JSON
+ * - Test that every section gets a CSV file, including empty ones
+ *
+ * Run with: deno test --allow-env --allow-net archive.test.ts
+ */
+
+const mockExport: UserDataExport = {
+  format_version: 1,
+  generated_at: '2026-10-19T12:00:00Z',
+  user_id: 'user-123',
+  profile: { id: 'user-123', display_name: 'Sam', email: 'sam@example.com' },
+  privacy_settings: { user_id: 'user-123', profile_visibility: 'friends' },
+  notification_preferences: null,
+  check_ins: [
+    { id: 'check-in-1', venue_name: 'The Local', checked_in_at: '2026-10-01T20:00:00Z' },
+    { id: 'check-in-2', venue_name: 'Blue Bar', checked_in_at: '2026-10-02T21:00:00Z', checked_out_at: '2026-10-02T23:00:00Z' },
+  ],
+  favorites: [],
+  collections: [{ id: 'collection-1', name: 'Date night', venues: [{ venue_id: 'venue-1' }] }],
+  reviews: [{ id: 'review-1', rating: 4, review_text: 'Great, "cozy" spot' }],
+  flash_offer_claims: [],
+  friendships: [],
+  blocked_users: [],
+  notifications: [],
+};
+
+Deno.test('csvField - quotes delimiters, quotes and line breaks', () => {
+  assertEquals(csvField('plain'), 'plain');
+  assertEquals(csvField('a,b'), '"a,b"');
+  assertEquals(csvField('say "hi"'), '"say ""hi"""');
+  assertEquals(csvField('line\nbreak'), '"line\nbreak"');
+  assertEquals(csvField(null), '');
+});
+
+Deno.test('csvField - writes nested values as JSON', () => {
+  assertEquals(csvField([1, 2]), '"[1,2]"');
+});
+
+Deno.test('toCSV - uses the union of row keys as columns', () => {
+  const csv = toCSV(mockExport.check_ins);
+  const [header, first, second] = csv.trim().split('\n');
+
+  assertEquals(header, 'id,venue_name,checked_in_at,checked_out_at');
+  assertEquals(first, 'check-in-1,The Local,2026-10-01T20:00:00Z,');
+  assertEquals(second, 'check-in-2,Blue Bar,2026-10-02T21:00:00Z,2026-10-02T23:00:00Z');
+});
+
+Deno.test('buildArchiveFiles - includes the JSON document and one CSV per section', () => {
+  const files = buildArchiveFiles(mockExport);
+
+  assertEquals(JSON.parse(files['data.json']).format_version, 1);
+  assertEquals(Object.keys(files).length, 12);
+  assertEquals(files['csv/profile.csv'], 'id,display_name,email\nuser-123,Sam,sam@example.com\n');
+  assertEquals(files['csv/notification_preferences.csv'], '');
+  assertEquals(files['csv/favorites.csv'], '');
+  assertEquals(files['csv/reviews.csv'], 'id,rating,review_text\nreview-1,4,"Great, ""cozy"" spot"\n');
+});
+
+Deno.test('getArchiveFileName - names the archive after the export date', () => {
+  assertEquals(getArchiveFileName(mockExport), 'my-data-2026-10-19.zip');
+});
@@ -0,0 +1,91 @@
+/**
+ * Personal Data Archive Builder
+ *
+ * Turns the export_user_data() document into the files of the download
+ * archive: the full document as data.json plus one CSV per section, so the
+ * data opens in a spreadsheet as well as in other apps.
+ */
+
+import { strToU8, zipSync } from 'npm:fflate@0.8.2';
+import type { UserDataExport } from './types.ts';
+
+/**
+ * Sections written as CSV files, in archive order
+ */
+export const CSV_SECTIONS = [
+  'profile',
+  'privacy_settings',
+  'notification_preferences',
+  'check_ins',
+  'favorites',
+  'collections',
+  'reviews',
+  'flash_offer_claims',
+  'friendships',
+  'blocked_users',
+  'notifications',
+] as const;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ * Nested values (arrays, objects) are written as JSON.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as CSV. Columns are the union of all row keys in the order
+ * they first appear, so rows with missing fields still line up.
+ */
+export function toCSV(rows: Record<string, unknown>[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  if (columns.length === 0) return '';
+
+  return [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => csvField(row[column])).join(',')),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Build the archive's files, keyed by file name
+ */
+export function buildArchiveFiles(data: UserDataExport): Record<string, string> {
+  const files: Record<string, string> = {
+    'data.json': JSON.stringify(data, null, 2),
+  };
+
+  for (const section of CSV_SECTIONS) {
+    const value = data[section];
+    const rows = Array.isArray(value) ? value : value ? [value] : [];
+    files[`csv/${section}.csv`] = toCSV(rows);
+  }
+
+  return files;
+}
+
+/**
+ * Build the zip archive for an export
+ */
+export function buildArchive(data: UserDataExport): Uint8Array {
+  const files = buildArchiveFiles(data);
+  return zipSync(
+    Object.fromEntries(Object.entries(files).map(([name, content]) => [name, strToU8(content)]))
+  );
+}
+
+/**
+ * Archive file name, e.g. "my-data-2026-10-19.zip"
+ */
+export function getArchiveFileName(data: UserDataExport): string {
+  return `my-data-${data.generated_at.slice(0, 10)}.zip`;
+}
@@ -0,0 +1,181 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  ExportErrorCode,
+  ExportResponse,
+  PersonalDataExportRow,
+  UserDataExport,
+} from './types.ts';
+import { buildArchive, getArchiveFileName } from './archive.ts';
+
+const BUCKET = 'data-exports';
+
+/**
+ * How long a download link stays valid
+ */
+const LINK_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Requests within this window reuse the latest archive instead of building
+ * a new one
+ */
+const REUSE_WINDOW_MS = 60 * 60 * 1000;
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: CORS_HEADERS });
+}
+
+/**
+ * Create standardized error response
+ */
+function createErrorResponse(status: number, error: string, code: ExportErrorCode): Response {
+  return jsonResponse({ success: false, error, code }, status);
+}
+
+/**
+ * Create a signed download link for an archive
+ */
+async function signArchive(
+  supabase: SupabaseClient,
+  storagePath: string,
+  fileName: string
+): Promise<{ url: string; expiresAt: string }> {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(storagePath, LINK_TTL_SECONDS, { download: fileName });
+
+  if (error || !data) {
+    throw new Error(`Failed to sign archive: ${error?.message}`);
+  }
+
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + LINK_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+// Main handler function
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return createErrorResponse(401, 'Missing authorization token', 'UNAUTHORIZED');
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // export_user_data() reads auth.uid(), so it runs with the caller's token
+  const supabaseAsUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error: authError } = await supabaseAsUser.auth.getUser(
+    authHeader.replace('Bearer ', '')
+  );
+  if (authError || !user) {
+    return createErrorResponse(401, 'Invalid or expired authorization token', 'UNAUTHORIZED');
+  }
+
+  try {
+    const { data: recent } = await supabase
+      .from('personal_data_exports')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('created_at', new Date(Date.now() - REUSE_WINDOW_MS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (recent) {
+      const row = recent as PersonalDataExportRow;
+      const fileName = `my-data-${row.created_at.slice(0, 10)}.zip`;
+      const link = await signArchive(supabase, row.storage_path, fileName);
+
+      const response: ExportResponse = {
+        success: true,
+        ...link,
+        fileName,
+        formatVersion: row.format_version,
+        reused: true,
+      };
+      return jsonResponse(response);
+    }
+
+    const { data, error: exportError } = await supabaseAsUser.rpc('export_user_data');
+    if (exportError || !data) {
+      console.error('[ERROR] export_user_data failed:', {
+        userId: user.id,
+        error: exportError?.message,
+        timestamp: new Date().toISOString(),
+      });
+      return createErrorResponse(500, 'Failed to collect your data', 'DATABASE_ERROR');
+    }
+
+    const exportData = data as UserDataExport;
+    const fileName = getArchiveFileName(exportData);
+    const storagePath = `${user.id}/${crypto.randomUUID()}.zip`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, buildArchive(exportData), { contentType: 'application/zip' });
+
+    if (uploadError) {
+      console.error('[ERROR] Failed to upload data export:', {
+        userId: user.id,
+        error: uploadError.message,
+        timestamp: new Date().toISOString(),
+      });
+      return createErrorResponse(500, 'Failed to save your data export', 'STORAGE_ERROR');
+    }
+
+    const { error: logError } = await supabase.from('personal_data_exports').insert({
+      user_id: user.id,
+      storage_path: storagePath,
+      format_version: exportData.format_version,
+    });
+
+    if (logError) {
+      console.warn('[WARN] Failed to log data export:', logError.message);
+    }
+
+    const link = await signArchive(supabase, storagePath, fileName);
+
+    console.log('[INFO] Data export created:', { userId: user.id, storagePath });
+
+    const response: ExportResponse = {
+      success: true,
+      ...link,
+      fileName,
+      formatVersion: exportData.format_version,
+      reused: false,
+    };
+    return jsonResponse(response);
+  } catch (error) {
+    console.error('[ERROR] Unexpected error in export function:', {
+      userId: user.id,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    });
+    return createErrorResponse(500, 'Internal server error', 'INTERNAL_ERROR');
+  }
+});
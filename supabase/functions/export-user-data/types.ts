@@ -0,0 +1,59 @@
+// Request and Response Types
+
+export interface ExportResponse {
+  success: true;
+  url: string;
+  fileName: string;
+  expiresAt: string;
+  formatVersion: number;
+  /** True when a recent archive was returned instead of generating a new one */
+  reused: boolean;
+}
+
+export type ExportErrorCode =
+  | 'UNAUTHORIZED'
+  | 'DATABASE_ERROR'
+  | 'STORAGE_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code: ExportErrorCode;
+}
+
+// Export Document Types
+
+type Row = Record<string, unknown>;
+
+/**
+ * Document returned by export_user_data(). Single-row sections are null when
+ * the user never saved them.
+ */
+export interface UserDataExport {
+  format_version: number;
+  generated_at: string;
+  user_id: string;
+  profile: Row | null;
+  privacy_settings: Row | null;
+  notification_preferences: Row | null;
+  check_ins: Row[];
+  favorites: Row[];
+  collections: Row[];
+  reviews: Row[];
+  flash_offer_claims: Row[];
+  friendships: Row[];
+  blocked_users: Row[];
+  notifications: Row[];
+}
+
+// Database Types
+
+export interface PersonalDataExportRow {
+  id: string;
+  user_id: string;
+  storage_path: string;
+  format_version: number;
+  created_at: string;
+  expires_at: string;
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildAuditRows } from './audit.ts';
+import type { AuditSend } from './audit.ts';
+
+/**
+ * Unit Tests for Notification Audit Module
+ *
+ * - Test that recipients with several devices get one row
+ * - Test that a recipient only counts as failed when every device failed
+ *
+ * Run with: deno test --allow-env --allow-net audit.test.ts
+ */
+
+const send: AuditSend = {
+  source: 'flash_offer_push',
+  notificationType: 'flash_offer',
+  referenceId: 'offer-123',
+  senderId: 'owner-1',
+  title: '🔥 20% Off at The Local!',
+  body: 'Half-price wings until 9pm',
+};
+
+Deno.test('buildAuditRows - writes one row per user', () => {
+  const rows = buildAuditRows(
+    send,
+    [
+      { user_id: 'user-1', device_token: 'token-a' },
+      { user_id: 'user-1', device_token: 'token-b' },
+      { user_id: 'user-2', device_token: 'token-c' },
+    ],
+    []
+  );
+
+  assertEquals(rows.length, 2);
+  assertEquals(rows[0].user_id, 'user-1');
+  assertEquals(rows[0].recipient_count, 2);
+  assertEquals(rows[0].delivered_count, 2);
+  assertEquals(rows[0].reference_id, 'offer-123');
+  assertEquals(rows[0].sender_id, 'owner-1');
+  assertEquals(rows[0].metadata, {});
+});
+
+Deno.test('buildAuditRows - marks a user failed only when every device failed', () => {
+  const rows = buildAuditRows(
+    send,
+    [
+      { user_id: 'user-1', device_token: 'token-a' },
+      { user_id: 'user-1', device_token: 'token-b' },
+      { user_id: 'user-2', device_token: 'token-c' },
+    ],
+    [
+      { token: 'token-a', error: 'invalid_token' },
+      { token: 'token-c', error: 'unavailable' },
+    ]
+  );
+
+  assertEquals(rows[0].success, true);
+  assertEquals(rows[0].delivered_count, 1);
+  assertEquals(rows[0].failed_count, 1);
+  assertEquals(rows[1].success, false);
+  assertEquals(rows[1].metadata, { errors: ['unavailable'] });
+});
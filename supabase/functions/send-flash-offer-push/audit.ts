@@ -0,0 +1,126 @@
+/**
+ * Notification Audit Module
+ *
+ * Writes the notification audit trail (notification_audit_logs) for pushes
+ * sent by the Edge Functions: one row per recipient, so a user's notification
+ * history can be queried the same way as notifications sent by the app.
+ *
+ * Requirements: 15.8
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type AuditSource = 'flash_offer_push' | 'venue_campaign_push';
+
+/**
+ * Details shared by every recipient of one send
+ */
+export interface AuditSend {
+  source: AuditSource;
+  notificationType: string;
+  referenceId: string;
+  senderId: string | null;
+  title: string;
+  body: string;
+}
+
+/**
+ * Row in notification_audit_logs
+ */
+export interface NotificationAuditRow {
+  user_id: string;
+  sender_id: string | null;
+  notification_type: string;
+  source: AuditSource;
+  reference_id: string;
+  title: string;
+  body: string;
+  recipient_count: number;
+  delivered_count: number;
+  failed_count: number;
+  success: boolean;
+  metadata: Record<string, unknown>;
+}
+
+const AUDIT_BATCH_SIZE = 500;
+
+/**
+ * Build one audit row per recipient. A recipient's push counts as delivered
+ * unless every one of their device tokens failed.
+ *
+ * @param send - Details shared by every recipient
+ * @param recipients - Users and device tokens the push was sent to
+ * @param errors - Per-token FCM errors
+ * @returns Audit rows, one per user
+ */
+export function buildAuditRows(
+  send: AuditSend,
+  recipients: Array<{ user_id: string; device_token: string }>,
+  errors: Array<{ token: string; error: string }>
+): NotificationAuditRow[] {
+  const errorsByToken = new Map(errors.map(e => [e.token, e.error]));
+  const tokensByUser = new Map<string, string[]>();
+
+  for (const recipient of recipients) {
+    const tokens = tokensByUser.get(recipient.user_id) || [];
+    tokens.push(recipient.device_token);
+    tokensByUser.set(recipient.user_id, tokens);
+  }
+
+  return [...tokensByUser.entries()].map(([userId, tokens]) => {
+    const failedErrors = tokens.map(t => errorsByToken.get(t)).filter((e): e is string => !!e);
+    const deliveredCount = tokens.length - failedErrors.length;
+
+    return {
+      user_id: userId,
+      sender_id: send.senderId,
+      notification_type: send.notificationType,
+      source: send.source,
+      reference_id: send.referenceId,
+      title: send.title,
+      body: send.body,
+      recipient_count: tokens.length,
+      delivered_count: deliveredCount,
+      failed_count: failedErrors.length,
+      success: deliveredCount > 0,
+      metadata: failedErrors.length > 0 ? { errors: failedErrors } : {},
+    };
+  });
+}
+
+/**
+ * Insert audit rows in batches
+ *
+ * Failures are logged, not thrown - a missing audit row must not fail a send
+ * that already reached users.
+ *
+ * @param supabase - Supabase client with service role key
+ * @param rows - Rows from buildAuditRows
+ */
+export async function recordNotificationAudit(
+  supabase: SupabaseClient,
+  rows: NotificationAuditRow[]
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += AUDIT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + AUDIT_BATCH_SIZE);
+
+    try {
+      const { error } = await supabase.from('notification_audit_logs').insert(batch);
+
+      if (error) {
+        console.error('[ERROR] Failed to write notification audit logs:', {
+          referenceId: batch[0].reference_id,
+          rows: batch.length,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error('[ERROR] Exception writing notification audit logs:', {
+        referenceId: batch[0].reference_id,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
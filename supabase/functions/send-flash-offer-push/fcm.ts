@@ -141,7 +141,7 @@ export async function markTokensInactive(
 export async function sendBatch(
   messaging: Messaging,
   tokens: string[],
-  payload: FCMPayload,
+  payload: FCMPayload<Record<string, string>>,
   supabase: SupabaseClient
 ): Promise<FCMBatchResult> {
   // Validate batch size
@@ -245,7 +245,7 @@ export async function sendBatch(
 export async function sendNotifications(
   messaging: Messaging,
   tokens: string[],
-  payload: FCMPayload,
+  payload: FCMPayload<Record<string, string>>,
   supabase: SupabaseClient
 ): Promise<FCMBatchResult> {
   console.log(`Sending notifications to ${tokens.length} devices`);
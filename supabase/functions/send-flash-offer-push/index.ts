@@ -255,20 +255,25 @@ serve(async (req) => {
           );
         }
 
-        // Initialize Supabase client for JWT validation (use anon key)
         // Supabase automatically provides these environment variables in Edge Functions
         const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://cznhaaigowjhqdjtfeyz.supabase.co';
         const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-        const supabaseForAuth = createClient(supabaseUrl, supabaseAnonKey);
+        const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-        // Authenticate request using middleware
-        const { user, error: authError } = await authenticateRequest(req, supabaseForAuth);
-        if (authError) {
-          return authError;
+        // Offers published by automatic rules are pushed by the database
+        // (evaluate_flash_offer_rules) with the service role key; everyone else
+        // needs a user JWT
+        let user: User | null = null;
+        if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceRoleKey}`) {
+          const supabaseForAuth = createClient(supabaseUrl, supabaseAnonKey);
+          const auth = await authenticateRequest(req, supabaseForAuth);
+          if (auth.error) {
+            return auth.error;
+          }
+          user = auth.user;
         }
 
-        // Initialize Supabase client with service role key for database operations
-        const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+        // Service role client for database operations
         const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
 
         // Parse request body
@@ -754,6 +759,25 @@ serve(async (req) => {
             });
             // Don't fail the request, just log the error
           }
+
+          // Write the notification audit trail
+          // Requirement 15.8
+          const { buildAuditRows, recordNotificationAudit } = await import('./audit.ts');
+          await recordNotificationAudit(
+            supabase,
+            buildAuditRows(
+              {
+                source: 'flash_offer_push',
+                notificationType: 'flash_offer',
+                referenceId: offerId!,
+                senderId: user?.id ?? null,
+                title: notificationPayload.notification.title,
+                body: notificationPayload.notification.body,
+              },
+              rateLimitedUsers,
+              fcmResult.errors
+            )
+          );
         }
 
         // Log execution time
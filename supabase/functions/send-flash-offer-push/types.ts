@@ -81,16 +81,20 @@ export interface RateLimit {
 
 // FCM Types
 
-export interface FCMPayload {
+export type FlashOfferPushData = {
+  offer_id: string;
+  venue_id: string;
+  type: string;
+};
+
+// Data payload defaults to the flash offer shape; other senders (e.g. venue
+// campaigns) supply their own string-valued data
+export interface FCMPayload<TData extends Record<string, string> = FlashOfferPushData> {
   notification: {
     title: string;
     body: string;
   };
-  data: {
-    offer_id: string;
-    venue_id: string;
-    type: string;
-  };
+  data: TData;
   android: {
     priority: 'high';
     channelId: string;
@@ -0,0 +1,178 @@
+/**
+ * Campaign Database Functions
+ *
+ * Query and update helpers for venue_push_notifications rows. All functions use
+ * the service role client, so ownership must be checked by the caller.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  CampaignStatus,
+  VenueBusinessAccount,
+  VenueCampaign,
+} from './types.ts';
+
+/**
+ * Get a campaign by ID
+ *
+ * @param supabase - Supabase client with service role key
+ * @param campaignId - UUID of the campaign
+ * @returns Campaign or null if not found
+ */
+export async function getCampaign(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<VenueCampaign | null> {
+  const { data, error } = await supabase
+    .from('venue_push_notifications')
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching campaign:', error);
+    throw error;
+  }
+
+  return data as VenueCampaign | null;
+}
+
+/**
+ * Get the business account that owns a campaign
+ *
+ * @param supabase - Supabase client with service role key
+ * @param businessAccountId - UUID of the venue business account
+ * @returns Business account or null if not found
+ */
+export async function getBusinessAccount(
+  supabase: SupabaseClient,
+  businessAccountId: string
+): Promise<VenueBusinessAccount | null> {
+  const { data, error } = await supabase
+    .from('venue_business_accounts')
+    .select('id, owner_user_id, venue_id, subscription_tier, account_status')
+    .eq('id', businessAccountId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching business account:', error);
+    throw error;
+  }
+
+  return data as VenueBusinessAccount | null;
+}
+
+/**
+ * Get scheduled campaigns whose send time has passed
+ *
+ * @param supabase - Supabase client with service role key
+ * @param limit - Maximum campaigns to return per dispatch run
+ * @returns Due campaigns, oldest first
+ */
+export async function getDueScheduledCampaigns(
+  supabase: SupabaseClient,
+  limit: number = 20
+): Promise<VenueCampaign[]> {
+  const { data, error } = await supabase
+    .from('venue_push_notifications')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', new Date().toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching due campaigns:', error);
+    throw error;
+  }
+
+  return (data || []) as VenueCampaign[];
+}
+
+/**
+ * Move a campaign to a new status, guarded by its current status
+ *
+ * The guard makes transitions idempotent: a campaign that was already sent or
+ * cancelled by a concurrent request is not updated again.
+ *
+ * @param supabase - Supabase client with service role key
+ * @param campaignId - UUID of the campaign
+ * @param fromStatuses - Statuses the campaign must currently be in
+ * @param updates - Columns to write alongside the status change
+ * @returns Updated campaign, or null if the campaign was not in an allowed status
+ */
+export async function transitionCampaign(
+  supabase: SupabaseClient,
+  campaignId: string,
+  fromStatuses: CampaignStatus[],
+  updates: Partial<VenueCampaign> & { status: CampaignStatus }
+): Promise<VenueCampaign | null> {
+  const { data, error } = await supabase
+    .from('venue_push_notifications')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId)
+    .in('status', fromStatuses)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating campaign status:', error);
+    throw error;
+  }
+
+  return data as VenueCampaign | null;
+}
+
+/**
+ * Charge a campaign's push credits
+ *
+ * Idempotent: a campaign that was already charged is not charged again.
+ * Revenue tier accounts are never charged.
+ *
+ * @param supabase - Supabase client with service role key
+ * @param campaignId - UUID of the campaign
+ * @returns False if the account does not have enough credits
+ */
+export async function chargeCampaignCredits(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('charge_campaign_credits', {
+    p_campaign_id: campaignId,
+  });
+
+  if (error) {
+    console.error('Error charging campaign credits:', error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Refund a charged campaign that was not delivered
+ *
+ * Failures are logged, not thrown, so a refund never masks the original error.
+ *
+ * @param supabase - Supabase client with service role key
+ * @param campaignId - UUID of the campaign
+ */
+export async function refundCampaignCredits(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('refund_campaign_credits', {
+    p_campaign_id: campaignId,
+  });
+
+  if (error) {
+    console.error('Error refunding campaign credits:', {
+      campaignId,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
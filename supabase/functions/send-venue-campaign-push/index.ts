@@ -0,0 +1,433 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import type {
+  CampaignAction,
+  CampaignDispatchResponse,
+  CampaignErrorCode,
+  CampaignRequest,
+  CampaignSendResponse,
+  VenueBusinessAccount,
+  VenueCampaign,
+} from './types.ts';
+import { initializeFirebase } from '../send-flash-offer-push/firebase.ts';
+import { isValidUUID, validateResponseBody } from '../send-flash-offer-push/security.ts';
+import { monitoringService } from '../send-flash-offer-push/monitoring.ts';
+import {
+  getCampaign,
+  getBusinessAccount,
+  getDueScheduledCampaigns,
+  transitionCampaign,
+  chargeCampaignCredits,
+  refundCampaignCredits,
+} from './campaigns.ts';
+import { sendCampaign, CampaignError } from './send.ts';
+import type { CampaignSendResult } from './send.ts';
+
+const VALID_ACTIONS: CampaignAction[] = ['send', 'schedule', 'cancel', 'dispatch_scheduled'];
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+/**
+ * Create a JSON response, sanitizing the body if it contains credentials
+ */
+function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  const responseValidation = validateResponseBody(body);
+  if (!responseValidation.safe) {
+    console.error('[SECURITY] Response contains credentials:', {
+      violations: responseValidation.violations,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  return new Response(
+    JSON.stringify(responseValidation.safe ? body : responseValidation.sanitized),
+    { status, headers: { ...CORS_HEADERS, ...headers } }
+  );
+}
+
+/**
+ * Create standardized error response
+ */
+function createErrorResponse(
+  status: number,
+  error: string,
+  code: CampaignErrorCode,
+  details?: unknown
+): Response {
+  const headers: Record<string, string> = {};
+  const resetsAt = (details as { resetsAt?: string } | undefined)?.resetsAt;
+  if (code === 'RATE_LIMIT_EXCEEDED') {
+    headers['Retry-After'] = resetsAt
+      ? Math.ceil((new Date(resetsAt).getTime() - Date.now()) / 1000).toString()
+      : '86400';
+  }
+
+  return jsonResponse(
+    {
+      success: false,
+      error,
+      code,
+      ...(details ? { details } : {}),
+    },
+    status,
+    headers
+  );
+}
+
+/**
+ * Extract and validate the JWT from the Authorization header
+ */
+async function authenticateRequest(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<{ user: User | null; error: Response | null }> {
+  const authHeader = req.headers.get('Authorization');
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      user: null,
+      error: createErrorResponse(401, 'Missing authorization token', 'UNAUTHORIZED'),
+    };
+  }
+
+  const jwt = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+  if (authError || !user) {
+    return {
+      user: null,
+      error: createErrorResponse(401, 'Invalid or expired authorization token', 'UNAUTHORIZED'),
+    };
+  }
+
+  return { user, error: null };
+}
+
+/**
+ * Execute a function with timeout
+ */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  errorMessage: string
+): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error(errorMessage)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeoutPromise]);
+}
+
+/**
+ * Send a campaign after charging its push credits, refunding them if the
+ * campaign is not delivered
+ *
+ * @throws CampaignError if credits are insufficient or the send fails
+ */
+async function sendChargedCampaign(
+  supabase: SupabaseClient,
+  campaign: VenueCampaign,
+  account: VenueBusinessAccount
+): Promise<CampaignSendResult> {
+  if (!(await chargeCampaignCredits(supabase, campaign.id))) {
+    throw new CampaignError('Insufficient push credits', 'INSUFFICIENT_CREDITS', 402);
+  }
+
+  let result: CampaignSendResult;
+  try {
+    result = await sendCampaign(supabase, campaign, account);
+  } catch (error) {
+    await refundCampaignCredits(supabase, campaign.id);
+    throw error;
+  }
+
+  if (result.status === 'failed') {
+    await refundCampaignCredits(supabase, campaign.id);
+  }
+
+  return result;
+}
+
+/**
+ * Deliver every scheduled campaign that is due
+ *
+ * Invoked by the scheduler with the service role key. Each campaign is sent
+ * independently so one failure does not block the rest of the batch. Credits
+ * are charged here if scheduling did not charge them, and refunded when the
+ * campaign fails.
+ */
+async function dispatchScheduledCampaigns(supabase: SupabaseClient): Promise<Response> {
+  const dueCampaigns = await getDueScheduledCampaigns(supabase);
+  console.log(`[INFO] Dispatching ${dueCampaigns.length} scheduled campaigns`);
+
+  const results: CampaignDispatchResponse['results'] = [];
+
+  for (const campaign of dueCampaigns) {
+    try {
+      const account = await getBusinessAccount(supabase, campaign.venue_business_account_id);
+      if (!account) {
+        throw new CampaignError('Business account not found', 'CAMPAIGN_NOT_FOUND', 404);
+      }
+
+      const result = await sendChargedCampaign(supabase, campaign, account);
+      results.push({ campaignId: campaign.id, status: result.status, sentCount: result.sentCount });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[ERROR] Failed to dispatch scheduled campaign:', {
+        campaignId: campaign.id,
+        error: message,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Rate-limited campaigns stay scheduled and are retried on the next run
+      const status = error instanceof CampaignError && error.code === 'RATE_LIMIT_EXCEEDED'
+        ? 'scheduled'
+        : 'failed';
+      if (status === 'failed') {
+        await transitionCampaign(supabase, campaign.id, ['scheduled'], {
+          status: 'failed',
+          delivery_stats: { error: message },
+        });
+      }
+
+      results.push({ campaignId: campaign.id, status, sentCount: 0, error: message });
+    }
+  }
+
+  const body: CampaignDispatchResponse = {
+    success: true,
+    dispatchedCount: results.filter(r => r.status === 'sent').length,
+    results,
+  };
+
+  return jsonResponse(body);
+}
+
+/**
+ * Handle send/schedule/cancel for a single campaign owned by the caller
+ */
+async function handleCampaignAction(
+  supabase: SupabaseClient,
+  user: User,
+  body: CampaignRequest
+): Promise<Response> {
+  const { action, campaignId, scheduledFor, dryRun = false } = body;
+
+  if (!campaignId || typeof campaignId !== 'string' || !isValidUUID(campaignId)) {
+    return createErrorResponse(400, 'Invalid campaign ID format. Expected UUID.', 'INVALID_REQUEST');
+  }
+
+  const campaign: VenueCampaign | null = await getCampaign(supabase, campaignId);
+  if (!campaign) {
+    return createErrorResponse(404, 'Campaign not found', 'CAMPAIGN_NOT_FOUND');
+  }
+
+  if (campaign.notification_type === 'flash_offer') {
+    return createErrorResponse(
+      400,
+      'Flash offer pushes are sent with send-flash-offer-push',
+      'INVALID_REQUEST'
+    );
+  }
+
+  const account = await getBusinessAccount(supabase, campaign.venue_business_account_id);
+  if (!account || account.owner_user_id !== user.id) {
+    return createErrorResponse(403, 'You do not manage this venue', 'FORBIDDEN');
+  }
+
+  switch (action) {
+    case 'send': {
+      if (campaign.status !== 'draft') {
+        return createErrorResponse(
+          409,
+          `Only draft campaigns can be sent (status: ${campaign.status})`,
+          'INVALID_CAMPAIGN_STATE'
+        );
+      }
+
+      const result = dryRun
+        ? await sendCampaign(supabase, campaign, account, true)
+        : await sendChargedCampaign(supabase, campaign, account);
+      const response: CampaignSendResponse = {
+        success: true,
+        campaignId,
+        ...result,
+        ...(dryRun && { dryRun: true }),
+      };
+      return jsonResponse(response);
+    }
+
+    case 'schedule': {
+      const sendAt = scheduledFor ? new Date(scheduledFor) : null;
+      if (!sendAt || isNaN(sendAt.getTime())) {
+        return createErrorResponse(400, 'scheduledFor must be an ISO date', 'INVALID_REQUEST');
+      }
+      if (sendAt.getTime() <= Date.now()) {
+        return createErrorResponse(400, 'scheduledFor must be in the future', 'INVALID_REQUEST');
+      }
+
+      if (!(await chargeCampaignCredits(supabase, campaignId))) {
+        return createErrorResponse(402, 'Insufficient push credits', 'INSUFFICIENT_CREDITS');
+      }
+
+      const scheduled = await transitionCampaign(supabase, campaignId, ['draft'], {
+        status: 'scheduled',
+        scheduled_for: sendAt.toISOString(),
+      });
+      if (!scheduled) {
+        await refundCampaignCredits(supabase, campaignId);
+        return createErrorResponse(
+          409,
+          `Only draft campaigns can be scheduled (status: ${campaign.status})`,
+          'INVALID_CAMPAIGN_STATE'
+        );
+      }
+
+      return jsonResponse({
+        success: true,
+        campaignId,
+        status: scheduled.status,
+        scheduledFor: scheduled.scheduled_for,
+      });
+    }
+
+    case 'cancel': {
+      const cancelled = await transitionCampaign(supabase, campaignId, ['draft', 'scheduled'], {
+        status: 'cancelled',
+      });
+      if (!cancelled) {
+        return createErrorResponse(
+          409,
+          `Only draft or scheduled campaigns can be cancelled (status: ${campaign.status})`,
+          'INVALID_CAMPAIGN_STATE'
+        );
+      }
+
+      await refundCampaignCredits(supabase, campaignId);
+
+      return jsonResponse({
+        success: true,
+        campaignId,
+        status: cancelled.status,
+        previousStatus: campaign.status,
+      });
+    }
+
+    default:
+      return createErrorResponse(400, `Unsupported action: ${action}`, 'INVALID_REQUEST');
+  }
+}
+
+// Main handler function
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  const startTime = Date.now();
+  let action: CampaignAction | undefined;
+
+  try {
+    return await withTimeout(
+      (async () => {
+        if (!Deno.env.get('FIREBASE_SERVICE_ACCOUNT')) {
+          console.error('[ERROR] Missing FIREBASE_SERVICE_ACCOUNT');
+          return createErrorResponse(500, 'Server configuration error', 'INTERNAL_ERROR');
+        }
+
+        try {
+          initializeFirebase();
+        } catch (error) {
+          console.error('[ERROR] Firebase initialization failed:', {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          });
+          return createErrorResponse(
+            500,
+            'Failed to initialize push notification service',
+            'FIREBASE_INIT_FAILED'
+          );
+        }
+
+        let body: CampaignRequest;
+        try {
+          body = await req.json();
+        } catch {
+          return createErrorResponse(400, 'Invalid JSON in request body', 'INVALID_REQUEST');
+        }
+
+        action = body.action;
+        if (!VALID_ACTIONS.includes(action)) {
+          return createErrorResponse(
+            400,
+            `action must be one of: ${VALID_ACTIONS.join(', ')}`,
+            'INVALID_REQUEST'
+          );
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+        const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+        const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+        // Scheduled dispatch is only available to the scheduler (service role key)
+        if (action === 'dispatch_scheduled') {
+          if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceRoleKey}`) {
+            return createErrorResponse(403, 'Scheduled dispatch requires the service role', 'FORBIDDEN');
+          }
+          return await dispatchScheduledCampaigns(supabase);
+        }
+
+        const supabaseForAuth = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+        const { user, error: authError } = await authenticateRequest(req, supabaseForAuth);
+        if (authError || !user) {
+          return authError!;
+        }
+
+        return await handleCampaignAction(supabase, user, body);
+      })(),
+      30000,
+      'Edge Function execution timeout (30 seconds)'
+    );
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+
+    if (error instanceof CampaignError) {
+      return createErrorResponse(error.status, error.message, error.code, error.details);
+    }
+
+    monitoringService.recordMetric('error_rate', 1, {
+      action,
+      errorType: error instanceof Error && error.message.includes('timeout') ? 'timeout' : 'unexpected',
+      executionTime,
+    });
+
+    console.error('[ERROR] Unexpected error in campaign function:', {
+      action,
+      executionTime,
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (error instanceof Error && error.message.includes('timeout')) {
+      return createErrorResponse(
+        500,
+        'Request timeout. The operation took longer than 30 seconds.',
+        'INTERNAL_ERROR'
+      );
+    }
+
+    return createErrorResponse(500, 'Internal server error', 'INTERNAL_ERROR');
+  }
+});
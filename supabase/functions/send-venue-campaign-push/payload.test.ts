@@ -0,0 +1,73 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCampaignPayload } from './payload.ts';
+import type { VenueCampaign } from './types.ts';
+
+/**
+ * Unit Tests for Campaign Notification Payload Builder
+ *
+ * - Test that payload carries campaign and navigation data
+ * - Test that title prefix follows campaign type
+ *
+ * Run with: deno test --allow-env --allow-net payload.test.ts
+ */
+
+const mockCampaign: VenueCampaign = {
+  id: 'campaign-123',
+  venue_business_account_id: 'account-789',
+  venue_id: 'venue-456',
+  title: 'Live Jazz Tonight',
+  message: 'Doors open at 8pm. No cover before 9!',
+  notification_type: 'event',
+  target_radius_miles: 2,
+  target_favorites_only: false,
+  target_user_count: 0,
+  actual_sent_count: 0,
+  scheduled_for: null,
+  sent_at: null,
+  status: 'draft',
+  credits_used: 1,
+  credits_charged: false,
+  delivery_stats: {},
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+Deno.test('buildCampaignPayload - Includes campaign and navigation data', () => {
+  const payload = buildCampaignPayload(mockCampaign, 'The Local Pub');
+
+  assertEquals(payload.notification.title, '🎉 The Local Pub: Live Jazz Tonight');
+  assertEquals(payload.notification.body, mockCampaign.message);
+
+  assertEquals(payload.data.type, 'venue_campaign');
+  assertEquals(payload.data.campaign_id, 'campaign-123');
+  assertEquals(payload.data.venue_id, 'venue-456');
+  assertEquals(payload.data.campaign_type, 'event');
+  assertEquals(payload.data.navigationTarget, 'VenueDetail');
+  assertEquals(JSON.parse(payload.data.navigationParams), {
+    venueId: 'venue-456',
+    venueName: 'The Local Pub',
+  });
+});
+
+Deno.test('buildCampaignPayload - All data values are strings', () => {
+  const payload = buildCampaignPayload(mockCampaign, 'The Local Pub');
+
+  // FCM rejects non-string data values
+  Object.values(payload.data).forEach((value) => {
+    assertEquals(typeof value, 'string');
+  });
+});
+
+Deno.test('buildCampaignPayload - Title prefix follows campaign type', () => {
+  const promotion = buildCampaignPayload(
+    { ...mockCampaign, notification_type: 'promotion' },
+    'The Local Pub'
+  );
+  const general = buildCampaignPayload(
+    { ...mockCampaign, notification_type: 'general' },
+    'The Local Pub'
+  );
+
+  assertEquals(promotion.notification.title, '🏷️ The Local Pub: Live Jazz Tonight');
+  assertEquals(general.notification.title, '📣 The Local Pub: Live Jazz Tonight');
+});
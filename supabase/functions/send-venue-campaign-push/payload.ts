@@ -0,0 +1,66 @@
+/**
+ * Campaign Notification Payload Builder
+ *
+ * Builds FCM notification payloads for venue push campaigns (general
+ * announcements, events and promotions).
+ */
+
+import type { FCMPayload } from '../send-flash-offer-push/types.ts';
+import type { CampaignPushData, VenueCampaign } from './types.ts';
+
+/**
+ * Title prefix per campaign type
+ */
+const CAMPAIGN_TITLE_PREFIX: Record<string, string> = {
+  general: '📣',
+  event: '🎉',
+  promotion: '🏷️',
+};
+
+/**
+ * Build FCM notification payload for a venue campaign
+ *
+ * The data payload carries navigationTarget/navigationParams so the app's
+ * NotificationHandler opens the venue when the notification is tapped.
+ *
+ * @param campaign - The campaign to create a notification for
+ * @param venueName - The name of the venue sending the campaign
+ * @returns FCM payload ready to send via Firebase Admin SDK
+ */
+export function buildCampaignPayload(
+  campaign: VenueCampaign,
+  venueName: string
+): FCMPayload<CampaignPushData> {
+  const prefix = CAMPAIGN_TITLE_PREFIX[campaign.notification_type] || CAMPAIGN_TITLE_PREFIX.general;
+
+  return {
+    notification: {
+      title: `${prefix} ${venueName}: ${campaign.title}`,
+      body: campaign.message,
+    },
+
+    data: {
+      type: 'venue_campaign',
+      campaign_id: campaign.id,
+      venue_id: campaign.venue_id,
+      campaign_type: campaign.notification_type,
+      navigationTarget: 'VenueDetail',
+      navigationParams: JSON.stringify({ venueId: campaign.venue_id, venueName }),
+    },
+
+    // Campaigns are not time-critical, so they use the general social channel
+    android: {
+      priority: 'high',
+      channelId: 'social_notifications',
+    },
+
+    apns: {
+      payload: {
+        aps: {
+          'content-available': 1,
+          sound: 'default',
+        },
+      },
+    },
+  };
+}
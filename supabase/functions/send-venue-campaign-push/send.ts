@@ -0,0 +1,242 @@
+/**
+ * Campaign Send Pipeline
+ *
+ * Delivers a venue campaign using the same targeting, preference filtering,
+ * rate limiting and FCM batching as flash offer pushes, then writes delivery
+ * stats and the notification audit trail back to the database.
+ *
+ * Push credits are charged and refunded by the handler (see
+ * chargeCampaignCredits in campaigns.ts), so this pipeline never charges
+ * credits itself.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getVenueDetails, getTargetedUsers, filterUsersByPreferences } from '../send-flash-offer-push/database.ts';
+import {
+  checkVenueRateLimit,
+  incrementVenueRateLimit,
+  filterUsersByRateLimit,
+  incrementUserRateLimits,
+} from '../send-flash-offer-push/rateLimit.ts';
+import { sendNotifications } from '../send-flash-offer-push/fcm.ts';
+import { getFirebaseMessaging } from '../send-flash-offer-push/firebase.ts';
+import { monitoringService } from '../send-flash-offer-push/monitoring.ts';
+import { buildAuditRows, recordNotificationAudit } from '../send-flash-offer-push/audit.ts';
+import { buildCampaignPayload } from './payload.ts';
+import { transitionCampaign } from './campaigns.ts';
+import type {
+  CampaignDeliveryStats,
+  CampaignErrorCode,
+  CampaignStatus,
+  VenueBusinessAccount,
+  VenueCampaign,
+} from './types.ts';
+
+/**
+ * Error raised by the send pipeline, mapped to an HTTP response by the handler
+ */
+export class CampaignError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CampaignErrorCode,
+    public readonly status: number,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+/**
+ * Result of sending a campaign
+ */
+export interface CampaignSendResult {
+  status: CampaignStatus;
+  targetedUserCount: number;
+  sentCount: number;
+  failedCount: number;
+}
+
+/**
+ * Send a draft or scheduled campaign to its targeted users
+ *
+ * The campaign is claimed by moving it to 'sent' before any notifications go
+ * out, so concurrent send/dispatch requests cannot deliver it twice. If FCM
+ * delivery throws, the campaign is marked 'failed'.
+ *
+ * @param supabase - Supabase client with service role key
+ * @param campaign - Campaign to send (status draft or scheduled)
+ * @param account - Business account that owns the campaign
+ * @param dryRun - Run targeting and filtering without claiming or sending
+ * @returns Delivery counts
+ * @throws CampaignError when the campaign cannot be sent
+ */
+export async function sendCampaign(
+  supabase: SupabaseClient,
+  campaign: VenueCampaign,
+  account: VenueBusinessAccount,
+  dryRun: boolean = false
+): Promise<CampaignSendResult> {
+  const venue = await getVenueDetails(supabase, campaign.venue_id);
+  if (!venue) {
+    throw new CampaignError('Venue not found', 'VENUE_NOT_FOUND', 404);
+  }
+
+  if (!venue.latitude || !venue.longitude) {
+    throw new CampaignError('Venue location not available', 'INVALID_REQUEST', 400);
+  }
+
+  // Campaigns share the venue's daily send budget with flash offers
+  const tier = account.subscription_tier || 'free';
+  const venueRateLimit = await checkVenueRateLimit(supabase, campaign.venue_id, tier);
+  if (!venueRateLimit.allowed) {
+    monitoringService.recordMetric('rate_limit_violations', 1, {
+      campaignId: campaign.id,
+      venueId: campaign.venue_id,
+      limitType: 'venue_send',
+      tier,
+    });
+
+    throw new CampaignError(
+      `Rate limit exceeded. You have sent ${venueRateLimit.currentCount} of ${venueRateLimit.limit} allowed pushes in the last 24 hours.`,
+      'RATE_LIMIT_EXCEEDED',
+      429,
+      {
+        currentCount: venueRateLimit.currentCount,
+        limit: venueRateLimit.limit,
+        resetsAt: venueRateLimit.resetsAt,
+      }
+    );
+  }
+
+  // Claim the campaign so it cannot be delivered twice
+  const sentAt = new Date().toISOString();
+  if (!dryRun) {
+    const claimed = await transitionCampaign(supabase, campaign.id, ['draft', 'scheduled'], {
+      status: 'sent',
+      sent_at: sentAt,
+    });
+
+    if (!claimed) {
+      throw new CampaignError(
+        'Campaign has already been sent or cancelled',
+        'INVALID_CAMPAIGN_STATE',
+        409
+      );
+    }
+  }
+
+  const targetedUsers = await getTargetedUsers(
+    supabase,
+    campaign.venue_id,
+    venue.latitude,
+    venue.longitude,
+    campaign.target_radius_miles || 1,
+    campaign.target_favorites_only || false
+  );
+
+  const preferredUsers = filterUsersByPreferences(targetedUsers, venue.latitude, venue.longitude);
+
+  const candidateUserIds = [...new Set(preferredUsers.map(u => u.user_id))];
+  const allowedUserIds = await filterUsersByRateLimit(supabase, candidateUserIds);
+  const recipients = preferredUsers.filter(u => allowedUserIds.includes(u.user_id));
+
+  console.log(
+    `[INFO] Campaign ${campaign.id}: ${targetedUsers.length} targeted, ` +
+    `${preferredUsers.length} after preferences, ${recipients.length} after rate limits`
+  );
+
+  if (dryRun) {
+    return {
+      status: campaign.status,
+      targetedUserCount: recipients.length,
+      sentCount: recipients.length,
+      failedCount: 0,
+    };
+  }
+
+  await incrementVenueRateLimit(supabase, campaign.venue_id);
+  await incrementUserRateLimits(supabase, allowedUserIds);
+
+  const payload = buildCampaignPayload(campaign, venue.name);
+  const deviceTokens = recipients.map(u => u.device_token);
+
+  let fcmResult: Awaited<ReturnType<typeof sendNotifications>>;
+  try {
+    fcmResult = await sendNotifications(getFirebaseMessaging(), deviceTokens, payload, supabase);
+  } catch (error) {
+    console.error('[ERROR] Campaign FCM send failed:', {
+      campaignId: campaign.id,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    });
+
+    await transitionCampaign(supabase, campaign.id, ['sent'], {
+      status: 'failed',
+      target_user_count: recipients.length,
+      actual_sent_count: 0,
+      delivery_stats: {
+        targeted_count: targetedUsers.length,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('quota') || message.includes('too-many-requests')) {
+      throw new CampaignError('FCM quota exceeded. Please try again later.', 'FCM_QUOTA_EXCEEDED', 429);
+    }
+    throw new CampaignError('Failed to send push notifications', 'INTERNAL_ERROR', 500);
+  }
+
+  const totalSends = fcmResult.successCount + fcmResult.failureCount;
+  if (totalSends > 0) {
+    monitoringService.recordMetric('fcm_failure_rate', fcmResult.failureCount / totalSends, {
+      campaignId: campaign.id,
+      successCount: fcmResult.successCount,
+      failureCount: fcmResult.failureCount,
+    });
+  }
+
+  await recordNotificationAudit(
+    supabase,
+    buildAuditRows(
+      {
+        source: 'venue_campaign_push',
+        notificationType: campaign.notification_type,
+        referenceId: campaign.id,
+        senderId: account.owner_user_id,
+        title: payload.notification.title,
+        body: payload.notification.body,
+      },
+      recipients,
+      fcmResult.errors
+    )
+  );
+
+  const deliveryStats: CampaignDeliveryStats = {
+    targeted_count: targetedUsers.length,
+    preference_filtered_count: targetedUsers.length - preferredUsers.length,
+    rate_limited_count: preferredUsers.length - recipients.length,
+    success_count: fcmResult.successCount,
+    failure_count: fcmResult.failureCount,
+    invalid_token_count: fcmResult.errors.filter(e => e.error.includes('invalid_token')).length,
+    sent_at: sentAt,
+  };
+
+  const status: CampaignStatus =
+    recipients.length > 0 && fcmResult.successCount === 0 ? 'failed' : 'sent';
+
+  await transitionCampaign(supabase, campaign.id, ['sent'], {
+    status,
+    target_user_count: recipients.length,
+    actual_sent_count: fcmResult.successCount,
+    delivery_stats: { ...deliveryStats },
+  });
+
+  return {
+    status,
+    targetedUserCount: recipients.length,
+    sentCount: fcmResult.successCount,
+    failedCount: fcmResult.failureCount,
+  };
+}
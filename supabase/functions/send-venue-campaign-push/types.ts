@@ -0,0 +1,113 @@
+// Request and Response Types
+
+/**
+ * Actions supported by the campaign function
+ * - send: deliver a draft campaign immediately
+ * - schedule: queue a draft campaign for delivery at scheduledFor
+ * - cancel: cancel a draft or scheduled campaign
+ * - dispatch_scheduled: deliver every scheduled campaign that is due (service role only)
+ */
+export type CampaignAction = 'send' | 'schedule' | 'cancel' | 'dispatch_scheduled';
+
+export interface CampaignRequest {
+  action: CampaignAction;
+  campaignId?: string;
+  scheduledFor?: string;
+  dryRun?: boolean;
+}
+
+export interface CampaignSendResponse {
+  success: true;
+  campaignId: string;
+  status: CampaignStatus;
+  targetedUserCount: number;
+  sentCount: number;
+  failedCount: number;
+  dryRun?: boolean;
+}
+
+export interface CampaignDispatchResponse {
+  success: true;
+  dispatchedCount: number;
+  results: Array<{
+    campaignId: string;
+    status: CampaignStatus;
+    sentCount: number;
+    error?: string;
+  }>;
+}
+
+// Database Types
+
+export type CampaignType = 'general' | 'event' | 'promotion';
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sent' | 'cancelled' | 'failed';
+
+export interface VenueCampaign {
+  id: string;
+  venue_business_account_id: string;
+  venue_id: string;
+  title: string;
+  message: string;
+  notification_type: CampaignType | 'flash_offer';
+  target_radius_miles: number;
+  target_favorites_only: boolean;
+  target_user_count: number;
+  actual_sent_count: number;
+  scheduled_for: string | null;
+  sent_at: string | null;
+  status: CampaignStatus;
+  credits_used: number;
+  credits_charged: boolean;
+  delivery_stats: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VenueBusinessAccount {
+  id: string;
+  owner_user_id: string;
+  venue_id: string;
+  subscription_tier: 'free' | 'core' | 'pro' | 'revenue';
+  account_status: string;
+}
+
+/**
+ * Delivery stats written back to venue_push_notifications.delivery_stats
+ */
+export interface CampaignDeliveryStats {
+  targeted_count: number;
+  preference_filtered_count: number;
+  rate_limited_count: number;
+  success_count: number;
+  failure_count: number;
+  invalid_token_count: number;
+  sent_at: string;
+}
+
+// FCM Types
+
+export type CampaignPushData = {
+  type: 'venue_campaign';
+  campaign_id: string;
+  venue_id: string;
+  campaign_type: string;
+  navigationTarget: string;
+  navigationParams: string;
+};
+
+// Error Codes
+
+export type CampaignErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'INVALID_REQUEST'
+  | 'CAMPAIGN_NOT_FOUND'
+  | 'INVALID_CAMPAIGN_STATE'
+  | 'VENUE_NOT_FOUND'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'INSUFFICIENT_CREDITS'
+  | 'FIREBASE_INIT_FAILED'
+  | 'DATABASE_ERROR'
+  | 'FCM_QUOTA_EXCEEDED'
+  | 'INTERNAL_ERROR';